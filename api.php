@@ -25,12 +25,25 @@ use PartDB\AttachementType;
 use PartDB\Category;
 use PartDB\Database;
 use PartDB\Device;
+use PartDB\Exceptions\UserNotAllowedException;
 use PartDB\Footprint;
+use PartDB\Label\BaseLabel;
 use PartDB\Log;
 use PartDB\Manufacturer;
 use PartDB\Part;
+use PartDB\Permissions\DevicePartPermission;
+use PartDB\Permissions\LabelPermission;
+use PartDB\Permissions\PartAttributePermission;
+use PartDB\Permissions\PartPermission;
+use PartDB\Permissions\PermissionManager;
+use PartDB\Permissions\StructuralPermission;
+use PartDB\Permissions\ToolsPermission;
 use PartDB\Storelocation;
 use PartDB\Supplier;
+use PartDB\Tools\ChangeFeed;
+use PartDB\Tools\JSONStorage;
+use PartDB\Tools\OrderCart;
+use PartDB\Tools\StatisticsHelpers;
 use PartDB\Tools\SystemVersion;
 use PartDB\User;
 
@@ -55,27 +68,130 @@ function generateError($response, $message = "", $code = 500, $exception = null)
     }
     if ($exception != null) {
         $error = array("message" => $exception->getMessage());
+        //Missing permissions: Anonymous users must login (401), logged in users are not allowed at all (403)
+        if ($exception instanceof UserNotAllowedException) {
+            $code = User::isLoggedIn() ? 403 : 401;
+        }
     }
 
     return $response->withJson(array("code" => $code, "errors" => array($error)), $code);
 }
 
-function generateTreeForClass($class, &$database, &$current_user, &$log, $params = null, $page = "", $key = "")
+/**
+ * Reject requests, which change data, but were not sent with a JSON body (see isCsrfSafeRequest()).
+ */
+$app->add(function ($request, $response, $next) {
+    /** @var \Slim\Http\Request $request */
+    if (!isCsrfSafeRequest($request->getMethod(), $request->getContentType())) {
+        return generateError($response, _("Änderungen sind nur mit JSON-Anfragen möglich!"), 415);
+    }
+
+    return $next($request, $response);
+});
+
+function generateTreeForClass($class, &$database, &$current_user, &$log, $params = null, $page = "", $key = "", $query = array())
 {
     try {
         $root_id = (isset($params['root_id']) && $params['root_id'] >= 0) ? $params['root_id'] : 0;
         /** @var \PartDB\Base\StructuralDBElement $root */
         $root = new $class($database, $current_user, $log, $root_id);
         if (isset($params['page']) && isset($params['parameter'])) {
-            return $root->buildBootstrapTree($params['page'], $params['parameter']);
-        } else {
-            return $root->buildBootstrapTree($page, $key);
+            $page = $params['page'];
+            $key = $params['parameter'];
+        }
+
+        //Search the tree for a keyword (?search=keyword)
+        if (isset($query['search']) && $query['search'] !== "") {
+            return $root->buildSearchBootstrapTree($page, $key, $query['search']);
+        }
+        //Only load the first levels of the tree (?depth=1&expanded=1,2,3)
+        if (isset($query['depth'])) {
+            return $root->buildLazyBootstrapTree($page, $key, (int) $query['depth'], parseTreeExpandedIDs($query));
         }
+
+        return $root->buildBootstrapTree($page, $key);
     } catch (Exception $ex) {
         debug("error", $ex);
     }
 }
 
+/**
+ * Returns the class and the permission of the elements of a tree.
+ * @param string $datasource The data source of the tree (e.g. "categories")
+ * @return array|null An array with the class name and the PermissionManager const of the elements, or null if the
+ *      tree does not contain structural elements (e.g. "tools").
+ */
+function getTreeElementClass($datasource)
+{
+    $classes = array("categories" => array('\PartDB\Category', PermissionManager::CATEGORIES),
+        "locations" => array('\PartDB\Storelocation', PermissionManager::STORELOCATIONS),
+        "footprints" => array('\PartDB\Footprint', PermissionManager::FOOTRPINTS),
+        "manufacturers" => array('\PartDB\Manufacturer', PermissionManager::MANUFACTURERS),
+        "suppliers" => array('\PartDB\Supplier', PermissionManager::SUPPLIERS),
+        "devices" => array('\PartDB\Device', PermissionManager::DEVICES));
+    return isset($classes[$datasource]) ? $classes[$datasource] : null;
+}
+
+/**
+ * Parses the "expanded" query parameter of the tree routes.
+ * @param array $query The query params of the request.
+ * @return int[] The IDs of the elements, whose nodes are expanded.
+ */
+function parseTreeExpandedIDs($query)
+{
+    if (!isset($query['expanded']) || $query['expanded'] === "") {
+        return array();
+    }
+    return array_map('intval', explode(",", $query['expanded']));
+}
+
+
+/**
+ * Converts the results of a part search. The parts are ranked, so that parts whose name matches the keyword come
+ * first: ?limit=n only returns the best n parts, ?pictures=1 adds the URL of the picture of every part ("picture").
+ * @param Part[] $parts The found parts (sorted by name).
+ * @param string $keyword The keyword, which was searched.
+ * @param bool $regex True if the keyword is a regular expression.
+ * @param array $query The query params of the request.
+ * @return array The parts as API arrays.
+ */
+function convertSearchResults($parts, $keyword, $regex, $query)
+{
+    $ranks = array();
+    foreach ($parts as $index => $part) {
+        $name = $part->getName();
+        if ($regex) {
+            $rank = @preg_match("/" . str_replace("/", "\\/", $keyword) . "/i", $name) ? 2 : 3;
+        } elseif (strcasecmp($name, $keyword) == 0) {
+            $rank = 0;
+        } elseif (stripos($name, $keyword) === 0) {
+            $rank = 1;
+        } else {
+            $rank = stripos($name, $keyword) !== false ? 2 : 3;
+        }
+        //The index keeps the order by name for parts with the same rank
+        $ranks[] = array($rank, $index);
+    }
+    sort($ranks);
+
+    if (isset($query['limit']) && (int) $query['limit'] > 0) {
+        $ranks = array_slice($ranks, 0, (int) $query['limit']);
+    }
+
+    $json = array();
+    foreach ($ranks as $rank) {
+        /** @var Part $part */
+        $part = $parts[$rank[1]];
+        $data = $part->getAPIArray(false);
+        if (isset($query['pictures']) && $query['pictures']) {
+            $filename = $part->getMasterPictureFilename(true);
+            $data['picture'] = $filename !== null ? str_replace(BASE, BASE_RELATIVE, $filename) : null;
+        }
+        $json[] = $data;
+    }
+    return $json;
+}
+
 
 /********************************************************************
  * Category
@@ -193,6 +309,54 @@ $app->get("/1.0.0/parts", function ($request, $response, $args) use (&$database,
     }
 });
 
+/**
+ * Get a page of all parts for a table, which is paginated, sorted and filtered on the server.
+ * Query parameters: offset, limit, order (the caption of a table column), dir ("asc" or "desc") and the optional
+ * filters category, footprint, instock_min, instock_max, price_min, price_max and keyword (see Part::getFilteredParts()).
+ * Returns the total count of parts, the count of the parts matching the filters, and the table rows (like they
+ * are used by smarty_table.tpl).
+ */
+$app->get("/1.0.0/parts/table", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    $params = $request->getQueryParams();
+    $offset = isset($params['offset']) ? (int) $params['offset'] : 0;
+    $limit = isset($params['limit']) ? (int) $params['limit'] : 50;
+    if ($offset < 0 || $limit < 0) {
+        return generateError($response, "offset and limit must not be negative!", 400);
+    }
+
+    try {
+        $filters = array_intersect_key($params, array_flip(
+            array('category', 'footprint', 'instock_min', 'instock_max', 'price_min', 'price_max', 'keyword', 'filter')
+        ));
+        $result = Part::getFilteredParts(
+            $database,
+            $current_user,
+            $log,
+            $filters,
+            isset($params['order']) ? $params['order'] : 'name',
+            isset($params['dir']) ? $params['dir'] : 'asc',
+            $offset,
+            $limit
+        );
+
+        $rows = array();
+        foreach ($result['parts'] as $index => $part) {
+            /** @var Part $part */
+            $rows[] = $part->buildTemplateTableRowArray('all_parts', $offset + $index);
+        }
+
+        return $response->withJson(array(
+            "total" => Part::getCount($database),
+            "filtered" => $result['count'],
+            "rows" => $rows
+        ));
+    } catch (Exception $ex) {
+        return generateError($response, "", 400, $ex);
+    }
+});
+
 $app->get("/1.0.0/parts/noprice", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
     /** @var \Slim\Http\Response $response */
     try {
@@ -333,7 +497,7 @@ $app->get("/1.0.0/parts/by-keyword/{keyword}", function ($request, $response, $a
             sie($args['manufacturer'], false),
             false
         );
-        return $response->withJson(convertAPIModelArray($parts));
+        return $response->withJson(convertSearchResults($parts, $keyword, false, $request->getQueryParams()));
     } catch (Exception $ex) {
         return generateError($response, "", 500, $ex);
     }
@@ -361,12 +525,433 @@ $app->get("/1.0.0/parts/by-regex/{keyword}", function ($request, $response, $arg
             sie($args['manufacturer'], false),
             true
         );
-        return $response->withJson(convertAPIModelArray($parts));
+        return $response->withJson(convertSearchResults($parts, $keyword, true, $request->getQueryParams()));
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Withdraw or add parts, e.g. after a barcode was scanned. The body must be a JSON object like {"change": -5}
+ * (negative values withdraw parts). Returns the changed part.
+ */
+$app->post("/1.0.0/parts/{id}/instock", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    if ($args['id'] < 1) {
+        return generateError($response, "The id must be greater 0!", 400);
+    }
+    try {
+        $body = $request->getParsedBody();
+        if (!is_array($body) || !isset($body['change']) || !is_numeric($body['change'])
+            || (int) $body['change'] != $body['change']) {
+            return generateError($response, _("Ungültige Anfrage!"), 400);
+        }
+        $part = new Part($database, $current_user, $log, $args['id']);
+        $part->changeInstock((int) $body['change']);
+        return $response->withJson($part->getAPIArray(true));
+    } catch (Exception $ex) {
+        return generateError($response, "", 400, $ex);
+    }
+});
+
+/**
+ * Get the modules of the barcode of a part (type "EAN8" or "QR"), so the label designer can draw it.
+ */
+$app->get("/1.0.0/parts/{id}/barcode/{type}", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Response $response */
+    if ($args['id'] < 1) {
+        return generateError($response, "The id must be greater 0!", 400);
+    }
+    if ($args['type'] != "EAN8" && $args['type'] != "QR") {
+        return generateError($response, sprintf(_("Der Barcodetyp %s wird nicht unterstützt!"), $args['type']), 400);
+    }
+    try {
+        $current_user->tryDo(PermissionManager::LABELS, LabelPermission::CREATE_LABELS);
+        $part = new Part($database, $current_user, $log, $args['id']);
+        $content = $part->getBarcodeContent($args['type']);
+        $modules = BaseLabel::generateBarcodeModules($content, $args['type']);
+        $modules['content'] = $content;
+        return $response->withJson($modules);
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Execute an action for multiple parts. The body must be a JSON object like
+ * {"action": "move", "ids": [1, 2, 3], "params": {"target": "c12"}} (see bulkEditParts() for the actions).
+ * Returns the result for every part.
+ */
+$app->post("/1.0.0/parts/bulk", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    try {
+        $body = $request->getParsedBody();
+        if (!is_array($body) || !isset($body['action']) || !isset($body['ids']) || !is_array($body['ids'])) {
+            return generateError($response, _("Ungültige Anfrage!"), 400);
+        }
+        $params = (isset($body['params']) && is_array($body['params'])) ? $body['params'] : array();
+
+        $results = bulkEditParts($database, $current_user, $log, $body['ids'], $body['action'], $params);
+        return $response->withJson($results);
+    } catch (Exception $ex) {
+        return generateError($response, "", 400, $ex);
+    }
+});
+
+/**
+ * Change single values of a part, like they are edited in the part tables. The body must be a JSON object like
+ * {"values": {"instock": 5, "comment": "Test"}, "table_type": "all_parts"} (see editPartValues() for the values).
+ * Returns the result for every value and the changed part as row of the table type, so the cells can be updated.
+ */
+$app->patch("/1.0.0/parts/{id}", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    if ($args['id'] < 1) {
+        return generateError($response, "The id must be greater 0!", 400);
+    }
+    try {
+        $body = $request->getParsedBody();
+        if (!is_array($body) || !isset($body['values']) || !is_array($body['values']) || empty($body['values'])
+            || !isset($body['table_type']) || !is_string($body['table_type'])) {
+            return generateError($response, _("Ungültige Anfrage!"), 400);
+        }
+        $part = new Part($database, $current_user, $log, $args['id']);
+        $results = editPartValues($database, $current_user, $log, $part, $body['values']);
+
+        //Load the part again, so the cached prices are updated, too
+        $part = new Part($database, $current_user, $log, $args['id']);
+        $table = Part::buildTemplateTableArray(array($part), $body['table_type']);
+        return $response->withJson(array("results" => $results, "row" => $table[1]));
+    } catch (Exception $ex) {
+        return generateError($response, "", 400, $ex);
+    }
+});
+
+
+/********************************************************************
+ * Devices
+ ********************************************************************/
+
+/**
+ * Get what is needed to build a device several times (query parameter "quantity", see Device::getBuildPlan()).
+ */
+$app->get("/1.0.0/devices/{id}/build-plan", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    if ($args['id'] < 1) {
+        return generateError($response, "The id must be greater 0!", 400);
+    }
+    $params = $request->getQueryParams();
+    $quantity = isset($params['quantity']) ? (int) $params['quantity'] : 1;
+    if ($quantity < 1) {
+        return generateError($response, _("Die Anzahl muss größer 0 sein!"), 400);
+    }
+    try {
+        $current_user->tryDo(PermissionManager::DEVICE_PARTS, DevicePartPermission::READ);
+        $device = new Device($database, $current_user, $log, $args['id']);
+        return $response->withJson($device->getBuildPlan($quantity));
     } catch (Exception $ex) {
         return generateError($response, "", 500, $ex);
     }
 });
 
+/**
+ * Withdraw the parts for building a device several times. The body must be a JSON object like {"quantity": 25}.
+ * The parts are withdrawn in one transaction, so nothing is withdrawn if one part has not enough parts in stock.
+ * Returns the build plan with the new instocks.
+ */
+$app->post("/1.0.0/devices/{id}/build", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    if ($args['id'] < 1) {
+        return generateError($response, "The id must be greater 0!", 400);
+    }
+    try {
+        $body = $request->getParsedBody();
+        if (!is_array($body) || !isset($body['quantity']) || !is_numeric($body['quantity'])
+            || (int) $body['quantity'] != $body['quantity'] || $body['quantity'] < 1) {
+            return generateError($response, _("Ungültige Anfrage!"), 400);
+        }
+        $current_user->tryDo(PermissionManager::DEVICE_PARTS, DevicePartPermission::READ);
+        // the instock would be ignored silently by Part::setAttributes()
+        $current_user->tryDo(PermissionManager::PARTS_INSTOCK, PartAttributePermission::EDIT);
+
+        $device = new Device($database, $current_user, $log, $args['id']);
+        $device->bookParts((int) $body['quantity']);
+
+        $device = new Device($database, $current_user, $log, $args['id']);
+        return $response->withJson($device->getBuildPlan((int) $body['quantity']));
+    } catch (Exception $ex) {
+        return generateError($response, "", 400, $ex);
+    }
+});
+
+/********************************************************************
+ * Order cart
+ ********************************************************************/
+
+/**
+ * Get the parts to order grouped by their supplier, with the rounded quantities and prices (see OrderCart::getCart()).
+ */
+$app->get("/1.0.0/order-cart", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Response $response */
+    try {
+        $current_user->tryDo(PermissionManager::PARTS, PartPermission::ORDER_PARTS);
+        $cart = OrderCart::getCart($database, $current_user, $log);
+        $cart['export_formats'] = OrderCart::getExportFormats();
+        return $response->withJson($cart);
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Get the order file for a supplier (0 for the parts without a supplier). The query parameter "format" is the ID of
+ * the format (see OrderCart::getExportFormats()), "parts" can be a comma separated list of the parts to export.
+ */
+$app->get("/1.0.0/order-cart/{supplier_id}/export", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    $params = $request->getQueryParams();
+    $format = isset($params['format']) ? $params['format'] : "csv";
+    $part_ids = (isset($params['parts']) && $params['parts'] !== "") ? array_map('intval', explode(",", $params['parts'])) : array();
+    try {
+        $current_user->tryDo(PermissionManager::PARTS, PartPermission::ORDER_PARTS);
+        $lines = OrderCart::getSupplierLines($database, $current_user, $log, (int) $args['supplier_id'], $part_ids);
+        if (count($lines) == 0) {
+            return generateError($response, _("Es gibt keine Teile, die bestellt werden müssen."), 400);
+        }
+
+        $name = "order_parts";
+        if ($args['supplier_id'] > 0) {
+            $supplier = new Supplier($database, $current_user, $log, $args['supplier_id']);
+            $name .= "_" . $supplier->getName();
+        }
+        return $response->withJson(array("filename" => $name . ($format == "quick_order" ? ".txt" : ".csv"),
+            "content" => OrderCart::export($lines, $format)));
+    } catch (Exception $ex) {
+        return generateError($response, "", 400, $ex);
+    }
+});
+
+/**
+ * Change the status of parts in the order cart. The body must be a JSON object like {"parts": [1, 2], "status": "ordered"}.
+ * The status "ordered" marks the parts as ordered, "open" removes this mark and "received" books the ordered quantities
+ * into the stock. Returns the new cart.
+ */
+$app->post("/1.0.0/order-cart/status", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    $body = $request->getParsedBody();
+    if (!is_array($body) || !isset($body['parts']) || !is_array($body['parts']) || count($body['parts']) == 0
+        || !isset($body['status']) || !in_array($body['status'], array("ordered", "open", "received"))) {
+        return generateError($response, _("Ungültige Anfrage!"), 400);
+    }
+    try {
+        $current_user->tryDo(PermissionManager::PARTS, PartPermission::ORDER_PARTS);
+        $part_ids = array_map('intval', $body['parts']);
+        if ($body['status'] == "received") {
+            OrderCart::markReceived($database, $current_user, $log, $part_ids);
+        } else {
+            OrderCart::markOrdered($database, $current_user, $log, $part_ids, $body['status'] == "ordered");
+        }
+
+        $cart = OrderCart::getCart($database, $current_user, $log);
+        $cart['export_formats'] = OrderCart::getExportFormats();
+        return $response->withJson($cart);
+    } catch (Exception $ex) {
+        return generateError($response, "", 400, $ex);
+    }
+});
+
+/********************************************************************
+ * Labels
+ ********************************************************************/
+
+/**
+ * Get all templates of the label designer (name => layout). They are saved together with the label profiles.
+ */
+$app->get("/1.0.0/labels/templates[/]", function ($request, $response, $args) use (&$current_user) {
+    /** @var \Slim\Http\Response $response */
+    try {
+        $current_user->tryDo(PermissionManager::LABELS, LabelPermission::CREATE_LABELS);
+        $json_storage = new JSONStorage(BASE_DATA . "/label_profiles.json");
+        $templates = array();
+        foreach ($json_storage->getKeyList("designer@") as $key) {
+            $templates[str_replace("designer@", "", $key)] = $json_storage->getItem($key);
+        }
+        //Return an object, even if no templates are saved.
+        return $response->withJson((object) $templates);
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Save a template of the label designer. The body must be a JSON object like {"layout": {...}}.
+ * An existing template with the same name is overwritten.
+ */
+$app->put("/1.0.0/labels/templates/{name}", function ($request, $response, $args) use (&$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    try {
+        $current_user->tryDo(PermissionManager::LABELS, LabelPermission::EDIT_PROFILES);
+        $body = $request->getParsedBody();
+        if (trim($args['name']) == "" || !is_array($body) || !isset($body['layout']) || !is_array($body['layout'])
+            || !isset($body['layout']['elements']) || !is_array($body['layout']['elements'])) {
+            return generateError($response, _("Ungültige Anfrage!"), 400);
+        }
+        $json_storage = new JSONStorage(BASE_DATA . "/label_profiles.json");
+        $json_storage->editItem("designer@" . trim($args['name']), $body['layout'], true, true);
+        return $response->withJson($body['layout']);
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Delete a template of the label designer.
+ */
+$app->delete("/1.0.0/labels/templates/{name}", function ($request, $response, $args) use (&$current_user) {
+    /** @var \Slim\Http\Response $response */
+    try {
+        $current_user->tryDo(PermissionManager::LABELS, LabelPermission::DELETE_PROFILES);
+        $json_storage = new JSONStorage(BASE_DATA . "/label_profiles.json");
+        if (!$json_storage->itemExists("designer@" . $args['name'])) {
+            return generateError($response, sprintf(_("Kein Item mit Schlüssel %s vorhanden!"), $args['name']), 404);
+        }
+        $json_storage->deleteItem("designer@" . $args['name']);
+        return $response->withJson(array("name" => $args['name']));
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+
+/********************************************************************
+ * Statistics
+ ********************************************************************/
+
+/**
+ * Get the most used categories, locations, footprints or manufacturers or the parts with the most parts in stock
+ * (type "instock"). Returns the "id", "name" and "count" of the elements. The count can be set via ?limit=25.
+ */
+$app->get("/1.0.0/statistics/most-used/{type}", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    $query = $request->getQueryParams();
+    $limit = isset($query['limit']) ? min(max((int) $query['limit'], 1), 100) : 25;
+    try {
+        $current_user->tryDo(PermissionManager::TOOLS, ToolsPermission::STATISTICS);
+        $helper = new StatisticsHelpers($database, $current_user, $log);
+        switch ($args['type']) {
+            case "categories":
+                $data = $helper->getMostUsedCategories($limit);
+                break;
+            case "locations":
+                $data = $helper->getMostUsedLocations($limit);
+                break;
+            case "footprints":
+                $data = $helper->getMostUsedFootprints($limit);
+                break;
+            case "manufacturers":
+                $data = $helper->getMostUsedManufacturers($limit);
+                break;
+            case "instock":
+                $data = $helper->getPartsWithMostInstock($limit);
+                break;
+            default:
+                return generateError($response, _("Ungültige Anfrage!"), 400);
+        }
+        foreach ($data as &$row) {
+            $row = array("id" => (int) $row['id'], "name" => $row['name'], "count" => (int) $row['count']);
+        }
+        return $response->withJson($data);
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Get the daily count of parts, count of parts in stock and stock value of the last days (?days=90).
+ * Only the days, on which a snapshot was saved (see POST statistics/snapshot), are contained.
+ */
+$app->get("/1.0.0/statistics/history", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    $query = $request->getQueryParams();
+    $days = isset($query['days']) ? min(max((int) $query['days'], 1), 3660) : 90;
+    try {
+        $current_user->tryDo(PermissionManager::TOOLS, ToolsPermission::STATISTICS);
+        $helper = new StatisticsHelpers($database, $current_user, $log);
+        return $response->withJson($helper->getSnapshots($days));
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Save the current count of parts, count of parts in stock and stock value as snapshot of today and return it.
+ * The statistics dashboard calls this when it is opened, so the history grows every day, on which it is viewed.
+ */
+$app->post("/1.0.0/statistics/snapshot", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Response $response */
+    try {
+        $current_user->tryDo(PermissionManager::TOOLS, ToolsPermission::STATISTICS);
+        $helper = new StatisticsHelpers($database, $current_user, $log);
+        $helper->saveSnapshot();
+        $snapshots = $helper->getSnapshots(1);
+        return $response->withJson(end($snapshots));
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+
+/********************************************************************
+ * Changes
+ ********************************************************************/
+
+/**
+ * Long polling of the changes of the elements (see ChangeFeed). Returns {"last_id": 123, "changes": [...]}.
+ * Without ?since only the ID of the last change is returned. With ?since=123 the request waits until there are
+ * changes newer than 123, but not longer than ?wait seconds (max. and default $config['live_updates']['max_wait']).
+ * Only the changes of the elements, which the user is allowed to read, are returned.
+ */
+$app->get("/1.0.0/changes", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    global $config;
+    $query = $request->getQueryParams();
+    $max_wait = max((int) $config['live_updates']['max_wait'], 0);
+    $wait = isset($query['wait']) ? min(max((int) $query['wait'], 0), $max_wait) : $max_wait;
+    //The session is not needed anymore, so the other requests of the user are not blocked while waiting
+    session_write_close();
+    try {
+        if (!isset($query['since']) || $query['since'] === "") {
+            ChangeFeed::deleteOldChanges($database);
+            return $response->withJson(array("last_id" => ChangeFeed::getLastID($database), "changes" => array()));
+        }
+
+        $since = (int) $query['since'];
+        $end = time() + $wait;
+        while (true) {
+            $changes = ChangeFeed::getChangesSince($database, $current_user, $since);
+            if (count($changes) > 0 || time() >= $end) {
+                break;
+            }
+            sleep(1);
+        }
+        $last_id = count($changes) > 0 ? $changes[count($changes) - 1]['id'] : $since;
+        return $response->withJson(array("last_id" => $last_id, "changes" => $changes));
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+
 /********************************************************************
  * System
  ********************************************************************/
@@ -383,6 +968,132 @@ $app->get("/1.0.0/system/info", function ($request, $response, $args) {
 });
 
 
+/********************************************************************
+ * User
+ ********************************************************************/
+
+/**
+ * Get the settings of the user interface, which the current user has saved.
+ */
+$app->get("/1.0.0/user/settings[/]", function ($request, $response, $args) use (&$current_user) {
+    /** @var \Slim\Http\Response $response */
+    try {
+        //Return an object, even if no settings are saved.
+        return $response->withJson((object) $current_user->getUISettings());
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Save a setting of the user interface for the current user. The body must be a JSON object with the new value
+ * (e.g. {"value": {...}}). A null value removes the setting.
+ */
+$app->put("/1.0.0/user/settings/{key}", function ($request, $response, $args) use (&$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    try {
+        //The anonymous user can not save settings.
+        if ($current_user->getID() == User::ID_ANONYMOUS) {
+            return generateError($response, _("Sie müssen eingeloggt sein, um Einstellungen zu speichern!"), 401);
+        }
+        $body = $request->getParsedBody();
+        if (!is_array($body) || !array_key_exists("value", $body)) {
+            return generateError($response, _("Ungültige Anfrage!"), 400);
+        }
+        $current_user->setUISetting($args['key'], $body['value']);
+        return $response->withJson((object) $current_user->getUISettings());
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Get the column layouts of a table type (e.g. "category_parts"), which were shared by the users.
+ * Returns an object like {"name": {"layout": {...}, "user": "admin"}}. Only logged in users can see them.
+ */
+$app->get("/1.0.0/tables/{type}/layouts[/]", function ($request, $response, $args) use (&$current_user) {
+    /** @var \Slim\Http\Response $response */
+    try {
+        //The anonymous user can not share layouts, so he does not see the layouts (and their owners) either.
+        if ($current_user->getID() == User::ID_ANONYMOUS) {
+            return generateError($response, _("Sie müssen eingeloggt sein, um geteilte Layouts zu sehen!"), 401);
+        }
+        $json_storage = new JSONStorage(BASE_DATA . "/table_layouts.json");
+        $layouts = array();
+        $prefix = $args['type'] . "@";
+        foreach ($json_storage->getKeyList($prefix) as $key) {
+            //getKeyList() also returns keys, which only contain the prefix (e.g. "searched_device_parts@...")
+            if (strpos($key, $prefix) !== 0) {
+                continue;
+            }
+            $item = $json_storage->getItem($key);
+            $layouts[substr($key, strlen($prefix))] = array("layout" => $item['layout'],
+                "user" => $item['user'], "own" => $item['user_id'] == $current_user->getID());
+        }
+        //Return an object, even if no layouts are shared.
+        return $response->withJson((object) $layouts);
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Share a column layout of a table type. The body must be a JSON object like {"layout": {"columns": [...], ...}}.
+ * A layout with the same name can only be overwritten by the user, who has shared it.
+ */
+$app->put("/1.0.0/tables/{type}/layouts/{name}", function ($request, $response, $args) use (&$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    try {
+        //The anonymous user can not share layouts.
+        if ($current_user->getID() == User::ID_ANONYMOUS) {
+            return generateError($response, _("Sie müssen eingeloggt sein, um Einstellungen zu speichern!"), 401);
+        }
+        $body = $request->getParsedBody();
+        if (trim($args['name']) == "" || !is_array($body) || !isset($body['layout']) || !is_array($body['layout'])
+            || !isset($body['layout']['columns']) || !is_array($body['layout']['columns'])) {
+            return generateError($response, _("Ungültige Anfrage!"), 400);
+        }
+        $json_storage = new JSONStorage(BASE_DATA . "/table_layouts.json");
+        $key = $args['type'] . "@" . trim($args['name']);
+        if ($json_storage->itemExists($key)) {
+            $item = $json_storage->getItem($key);
+            if ($item['user_id'] != $current_user->getID()) {
+                return generateError($response, _("Dieses Layout wurde von einem anderen Benutzer geteilt!"), 403);
+            }
+        }
+        $json_storage->editItem($key, array("layout" => $body['layout'], "user" => $current_user->getName(),
+            "user_id" => $current_user->getID()), true, true);
+        return $response->withJson($body['layout']);
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Delete a shared column layout. Only the user, who has shared the layout, can delete it.
+ */
+$app->delete("/1.0.0/tables/{type}/layouts/{name}", function ($request, $response, $args) use (&$current_user) {
+    /** @var \Slim\Http\Response $response */
+    try {
+        $json_storage = new JSONStorage(BASE_DATA . "/table_layouts.json");
+        $key = $args['type'] . "@" . $args['name'];
+        if (!$json_storage->itemExists($key)) {
+            return generateError($response, sprintf(_("Kein Item mit Schlüssel %s vorhanden!"), $args['name']), 404);
+        }
+        $item = $json_storage->getItem($key);
+        if ($item['user_id'] != $current_user->getID()) {
+            return generateError($response, _("Dieses Layout wurde von einem anderen Benutzer geteilt!"), 403);
+        }
+        $json_storage->deleteItem($key);
+        return $response->withJson(array("name" => $args['name']));
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+
 /********************************************************************
  * Trees
  ********************************************************************/
@@ -393,7 +1104,7 @@ $app->get("/1.0.0/system/info", function ($request, $response, $args) {
 $app->get("/1.0.0/tree/categories[/{root_id}]", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
     /** @var \Slim\Http\Response $response */
     try {
-        $tree = generateTreeForClass("\PartDB\Category", $database, $current_user, $log, $args, "show_category_parts.php", "cid");
+        $tree = generateTreeForClass("\PartDB\Category", $database, $current_user, $log, $args, "show_category_parts.php", "cid", $request->getQueryParams());
         return $response->withJson($tree);
     } catch (Exception $ex) {
         return generateError($response, "", 500, $ex);
@@ -406,6 +1117,28 @@ $app->get("/1.0.0/tree/categories[/{root_id}]", function ($request, $response, $
 $app->get("/1.0.0/tree/devices[/{root_id}]", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
     /** @var \Slim\Http\Response $response */
     try {
+        $query = $request->getQueryParams();
+        $root_id = (isset($args['root_id']) && $args['root_id'] >= 0) ? $args['root_id'] : 0;
+
+        if (isset($query['depth']) || (isset($query['search']) && $query['search'] !== "")) {
+            $root_device = new Device($database, $current_user, $log, $root_id);
+            if (isset($query['search']) && $query['search'] !== "") {
+                $nodes = $root_device->buildSearchBootstrapTree("show_device_parts.php", "device_id", $query['search']);
+            } else {
+                $nodes = $root_device->buildLazyBootstrapTree("show_device_parts.php", "device_id", (int) $query['depth'], parseTreeExpandedIDs($query));
+            }
+            //The children of a device are requested, so we dont need the overview node.
+            if ($root_id > 0) {
+                return $response->withJson($nodes);
+            }
+            $tree = array(array('text' => _("Übersicht"),
+                'href' => "show_device_parts.php?device_id=0",
+                'id' => 0,
+                'nodes' => $nodes,
+                'state' => array('expanded' => true)));
+            return $response->withJson($tree);
+        }
+
         $root_device = new Device($database, $current_user, $log, 0);
         $tree = $root_device->buildBootstrapTree(
             "show_device_parts.php",
@@ -427,7 +1160,7 @@ $app->get("/1.0.0/tree/devices[/{root_id}]", function ($request, $response, $arg
 $app->get("/1.0.0/tree/footprints[/{root_id}]", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
     /** @var \Slim\Http\Response $response */
     try {
-        $tree = generateTreeForClass("\PartDB\Footprint", $database, $current_user, $log, $args, "show_footprint_parts.php", "fid");
+        $tree = generateTreeForClass("\PartDB\Footprint", $database, $current_user, $log, $args, "show_footprint_parts.php", "fid", $request->getQueryParams());
         return $response->withJson($tree);
     } catch (Exception $ex) {
         return generateError($response, "", 500, $ex);
@@ -440,7 +1173,7 @@ $app->get("/1.0.0/tree/footprints[/{root_id}]", function ($request, $response, $
 $app->get("/1.0.0/tree/locations[/{root_id}]", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
     /** @var \Slim\Http\Response $response */
     try {
-        $tree = generateTreeForClass("\PartDB\Storelocation", $database, $current_user, $log, $args, "show_location_parts.php", "lid");
+        $tree = generateTreeForClass("\PartDB\Storelocation", $database, $current_user, $log, $args, "show_location_parts.php", "lid", $request->getQueryParams());
         return $response->withJson($tree);
     } catch (Exception $ex) {
         return generateError($response, "", 500, $ex);
@@ -453,7 +1186,7 @@ $app->get("/1.0.0/tree/locations[/{root_id}]", function ($request, $response, $a
 $app->get("/1.0.0/tree/manufacturers[/{root_id}]", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
     /** @var \Slim\Http\Response $response */
     try {
-        $tree = generateTreeForClass("\PartDB\Manufacturer", $database, $current_user, $log, $args, "show_manufacturer_parts.php", "mid");
+        $tree = generateTreeForClass("\PartDB\Manufacturer", $database, $current_user, $log, $args, "show_manufacturer_parts.php", "mid", $request->getQueryParams());
         return $response->withJson($tree);
     } catch (Exception $ex) {
         return generateError($response, "", 500, $ex);
@@ -466,7 +1199,7 @@ $app->get("/1.0.0/tree/manufacturers[/{root_id}]", function ($request, $response
 $app->get("/1.0.0/tree/suppliers[/{root_id}]", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
     /** @var \Slim\Http\Response $response */
     try {
-        $tree = generateTreeForClass("\PartDB\Supplier", $database, $current_user, $log, $args, "show_supplier_parts.php", "sid");
+        $tree = generateTreeForClass("\PartDB\Supplier", $database, $current_user, $log, $args, "show_supplier_parts.php", "sid", $request->getQueryParams());
         return $response->withJson($tree);
     } catch (Exception $ex) {
         return generateError($response, "", 500, $ex);
@@ -486,6 +1219,71 @@ $app->get("/1.0.0/tree/tools[/]", function ($request, $response, $args) {
     }
 });
 
+/**
+ * Moves an element of a tree to another parent element (drag and drop in the treeviews). The body must be a JSON
+ * object like {"parent_id": 12} (0 for the top level). Returns the "old_parent_id", so the move can be undone.
+ */
+$app->put("/1.0.0/tree/{datasource}/{id}/parent", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Request $request */
+    /** @var \Slim\Http\Response $response */
+    $element_class = getTreeElementClass($args['datasource']);
+    if ($element_class === null) {
+        return generateError($response, "The elements of this tree can not be moved!", 400);
+    }
+    if ($args['id'] < 1) {
+        return generateError($response, "The id must be greater 0!", 400);
+    }
+    $body = $request->getParsedBody();
+    if (!is_array($body) || !isset($body['parent_id']) || !is_numeric($body['parent_id']) || $body['parent_id'] < 0) {
+        return generateError($response, "The body must contain a parent_id!", 400);
+    }
+    try {
+        list($class, $permission) = $element_class;
+        //Without the permission, StructuralDBElement::setAttributes() would ignore the parent_id
+        $current_user->tryDo($permission, StructuralPermission::MOVE);
+
+        /** @var \PartDB\Base\StructuralDBElement $element */
+        $element = new $class($database, $current_user, $log, (int) $args['id']);
+        $parent_id = (int) $body['parent_id'];
+        foreach ($element->getSubelements(true) as $subelement) {
+            if ($subelement->getID() == $parent_id) {
+                return generateError($response, _("Ein Element kann nicht einem seiner Unterelemente zugeordnet werden!"), 400);
+            }
+        }
+
+        $old_parent_id = (int) $element->getParentID();
+        $element->setParentID($parent_id);
+        return $response->withJson(array("id" => $element->getID(), "parent_id" => (int) $element->getParentID(),
+            "old_parent_id" => $old_parent_id));
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
+/**
+ * Deletes an element of a tree (context menu of the treeviews). The subelements are moved to the parent element.
+ */
+$app->delete("/1.0.0/tree/{datasource}/{id}", function ($request, $response, $args) use (&$database, &$log, &$current_user) {
+    /** @var \Slim\Http\Response $response */
+    $element_class = getTreeElementClass($args['datasource']);
+    if ($element_class === null) {
+        return generateError($response, "The elements of this tree can not be deleted!", 400);
+    }
+    if ($args['id'] < 1) {
+        return generateError($response, "The id must be greater 0!", 400);
+    }
+    try {
+        $class = $element_class[0];
+        /** @var \PartDB\Base\StructuralDBElement $element */
+        $element = new $class($database, $current_user, $log, (int) $args['id']);
+        //Checks the permission and throws an exception, if the element contains parts
+        $element->delete();
+        return $response->withJson(array("id" => (int) $args['id']));
+    } catch (Exception $ex) {
+        return generateError($response, "", 500, $ex);
+    }
+});
+
 /**
  * Get the tree for tools
  */
@@ -288,7 +288,8 @@ if (! $fatal_error) {
             $partname_hint = $new_partname_hint;
             $comment = $new_comment;
         } else {
-            $parent_id = 0;
+            //The parent can be preselected via ?parent_id (e.g. from the context menu of the treeviews)
+            $parent_id = $new_parent_id;
             $name = '';
             $disable_footprints = false;
             $disable_manufacturers = false;
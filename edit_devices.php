@@ -211,7 +211,7 @@ if (! $fatal_error) {
             $name = $new_name;
             $comment = $new_comment;
         } else {
-            $parent_id = 0;
+            $parent_id = $new_parent_id;
             $name = '';
             $comment = "";
         }
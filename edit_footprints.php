@@ -475,7 +475,7 @@ if (! $fatal_error) {
             $filename_3d = $new_3d_filename;
             $comment = $new_comment;
         } else {
-            $parent_id = 0;
+            $parent_id = $new_parent_id;
             $name = '';
             $filename = '';
             $filename_3d = '';
@@ -234,7 +234,7 @@ if (! $fatal_error) {
             $parent_id = $new_parent_id;
             $comment = $new_comment;
         } else {
-            $parent_id = 0;
+            $parent_id = $new_parent_id;
             $comment = "";
         }
 
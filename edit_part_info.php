@@ -182,6 +182,7 @@ if (isset($orderdetails_id)) {
     $new_supplier_id = isset($_REQUEST['supplier_id_'.$orderdetails_id]) ? (integer)$_REQUEST['supplier_id_'.$orderdetails_id] : 0;
     $new_supplierpartnr = isset($_REQUEST['supplierpartnr_'.$orderdetails_id]) ? (string)$_REQUEST['supplierpartnr_'.$orderdetails_id] : '';
     $new_obsolete = isset($_REQUEST['obsolete_'.$orderdetails_id]);
+    $new_packaging_unit = isset($_REQUEST['packaging_unit_'.$orderdetails_id]) ? max(1, (integer)$_REQUEST['packaging_unit_'.$orderdetails_id]) : 1;
 }
 // section: pricedetails
 if (isset($pricedetails_id)) {
@@ -403,7 +404,8 @@ if (! $fatal_error) {
                     $part_id,
                     $new_supplier_id,
                     $new_supplierpartnr,
-                    $new_obsolete
+                    $new_obsolete,
+                    $new_packaging_unit
                 );
             } catch (Exception $e) {
                 $messages[] = array('text' => nl2br($e->getMessage()), 'strong' => true, 'color' => 'red');
@@ -418,7 +420,8 @@ if (! $fatal_error) {
 
                 $orderdetails->setAttributes(array(    'id_supplier'               => $new_supplier_id,
                     'supplierpartnr'            => $new_supplierpartnr,
-                    'obsolete'                  => $new_obsolete));
+                    'obsolete'                  => $new_obsolete,
+                    'packaging_unit'            => $new_packaging_unit));
             } catch (Exception $e) {
                 $messages[] = array('text' => nl2br($e->getMessage()), 'strong' => true, 'color' => 'red');
             }
@@ -715,7 +718,7 @@ if (! $fatal_error) {
                 $supplier_list = $root_supplier->buildHtmlTree($orderdetails->getSupplier()->getID(), true, false);
                 $pricedetails_loop = array();
                 foreach ($orderdetails->getPricedetails() as $pricedetails) {
-                    //HTML5 wants a float number with a dot as a decimal point. The browser should change its display correspondingly to HTML locale.
+                    //The localized number input wants the canonical value with a decimal point, it shows the price in the format of the locale.
                     $price = str_replace(",", ".", $pricedetails->getPrice(false, $pricedetails->getPriceRelatedQuantity()));
 
                     $pricedetails_loop[] = array(   'row_odd'                   => ! $row_odd,
@@ -742,6 +745,7 @@ if (! $fatal_error) {
                     'orderdetails_id'           => $orderdetails->getID(),
                     'supplier_list'             => $supplier_list,
                     'supplierpartnr'            => $orderdetails->getSupplierPartNr(),
+                    'packaging_unit'            => $orderdetails->getPackagingUnit(),
                     'obsolete'                  => $orderdetails->getObsolete(),
                     'pricedetails'              => $pricedetails_loop);
                 $row_odd = ! $row_odd;
@@ -753,6 +757,7 @@ if (! $fatal_error) {
                 'orderdetails_id'           => 'new',
                 'supplier_list'             => $supplier_list,
                 'supplierpartnr'            => '',
+                'packaging_unit'            => 1,
                 'obsolete'                  => false);
 
             $html->setLoop('orderdetails', $orderdetails_loop);
@@ -860,6 +865,17 @@ if (! $fatal_error) {
         $html->setVariable('max_upload_filesize', ini_get('upload_max_filesize'), 'string');
         $html->setVariable('downloads_enable', $config['allow_server_downloads'], "boolean");
 
+        // part info providers, which are offered in the search dialog
+        $part_info_providers = array();
+        foreach ($config['part_info_providers'] as $provider_name => $provider) {
+            if ($provider['enable']) {
+                unset($provider['enable']);
+                $part_info_providers[$provider_name] = $provider;
+            }
+        }
+        $html->setVariable('part_info_enabled', count($part_info_providers) > 0, 'boolean');
+        $html->setVariable('part_info_providers', json_encode($part_info_providers), 'string');
+
         $html->setVariable("back_link", $_SESSION["part_delete_last_link"], "string");
     } catch (Exception $e) {
         $messages[] = array('text' => nl2br($e->getMessage()), 'strong' => true, 'color' => 'red');
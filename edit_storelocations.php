@@ -240,7 +240,7 @@ if (! $fatal_error) {
             $is_full = $new_is_full;
             $comment = $new_comment;
         } else {
-            $parent_id = 0;
+            $parent_id = $new_parent_id;
             $name = '';
             $is_full = false;
             $comment = "";
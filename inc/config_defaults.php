@@ -170,11 +170,21 @@ $config['table']['default_show_subcategories']   = true;    //Show the subcatego
 $config['table']['default_limit']                = 50;
 $config['table']['full_paths']                   = false;
 $config['table']['instock_warning_full_row_color'] = false;  //Color the whole line red, if a less instock than mininstock
+$config['table']['server_side']                  = true;    //Load the table of all parts page by page from the server.
 
 //Search settings
 $config['search']['livesearch']                  = true;
 $config['search']['highlighting']                = true;
 
+//Ajax settings
+$config['ajax']['timeout']                       = 30;      //Seconds until a page request is aborted with an error. 0 means no timeout.
+
+//Offline settings
+$config['offline']['enable']                     = true;    //Use a service worker to cache visited pages for offline usage
+
+//Live updates settings
+$config['live_updates']['max_wait']              = 10;      //Seconds a request for changes waits at most. Every waiting request blocks a PHP process.
+
 //Attachements settings
 $config['attachements']['folder_structure']     = false;    //Put attachements in a folder structure, similar to the categories.
 $config['attachements']['download_default']     = false;    //Download external media defaultly.
@@ -373,5 +383,15 @@ $config['auto_datasheets']['entries'][4]['name']        = 'octopart.com';
 $config['auto_datasheets']['entries'][4]['url']         = 'https://octopart.com/search?q=%%PARTNAME%%';
 $config['auto_datasheets']['entries'][4]['image']       = 'img/partdb/file_octo.svg';
 
+// part info providers, which can be searched on the edit part page to fill in the part fields.
+// The url can be changed to a local mock server for testing.
+$config['part_info_providers']['octopart']['enable']    = false;
+$config['part_info_providers']['octopart']['url']       = 'https://octopart.com/api/v3/';
+$config['part_info_providers']['octopart']['apikey']    = '';
+$config['part_info_providers']['octopart']['currency']  = 'EUR';
+// Example data for testing the search dialog without an API key
+$config['part_info_providers']['mock']['enable']        = false;
+$config['part_info_providers']['mock']['currency']      = 'EUR';
+
 
 // IMPORTANT: If you add your own export formats to your config.php, use letters instead of numbers as array indexes!! e.g. $config['auto_datasheets']['entries']['A']['name'] = 'foo';
@@ -29,12 +29,17 @@
  * @author kami89
  */
 
+use PartDB\DevicePart;
 use PartDB\Interfaces\IAPIModel;
 use PartDB\Part;
+use PartDB\Permissions\CPartAttributePermission;
+use PartDB\Permissions\DevicePartPermission;
+use PartDB\Permissions\PartAttributePermission;
 use PartDB\Permissions\PartPermission;
 use PartDB\Permissions\PermissionManager;
 use PartDB\Permissions\StructuralPermission;
 use PartDB\Permissions\ToolsPermission;
+use PartDB\Pricedetails;
 use PartDB\Tools\JSONStorage;
 use PartDB\User;
 
@@ -499,6 +504,31 @@ function floatToMoneyString($number, $language = '')
     return $result;
 }
 
+/**
+ * Get the number and currency format of the current locale (which is set for the logged in user)
+ *
+ * The frontend uses it to display and parse the localized number inputs (see templates/nextgen/ts_src/number_input.ts)
+ *
+ * @return array    An array with the keys "decimal_point", "thousands_sep", "currency_symbol", "currency_digits"
+ *                  and "currency_precedes" (true if the currency symbol is written before the price)
+ */
+function getLocaleNumberFormat()
+{
+    $locale = localeconv();
+
+    $decimal_point = ($locale['mon_decimal_point'] !== '') ? $locale['mon_decimal_point'] : $locale['decimal_point'];
+    $thousands_sep = ($locale['mon_thousands_sep'] !== '') ? $locale['mon_thousands_sep'] : $locale['thousands_sep'];
+
+    // frac_digits and p_cs_precedes are CHAR_MAX (127), if the locale does not define them (e.g. the "C" locale)
+    $digits = ($locale['frac_digits'] >= 0 && $locale['frac_digits'] <= 10) ? $locale['frac_digits'] : 2;
+
+    return array(   'decimal_point'     => ($decimal_point !== '') ? $decimal_point : '.',
+                    'thousands_sep'     => $thousands_sep,
+                    'currency_symbol'   => trim($locale['currency_symbol']),
+                    'currency_digits'   => $digits,
+                    'currency_precedes' => ($locale['p_cs_precedes'] == 1));
+}
+
 /**
  * Download a file from the internet (with "curl")
  *
@@ -1085,6 +1115,33 @@ function isUsingHTTPS()
         || $_SERVER['SERVER_PORT'] == 443;
 }
 
+/**
+ * Check if the current request was sent via ajax (jQuery sets the X-Requested-With header for this).
+ * @return bool True if the request is an ajax request, false if not.
+ */
+function isAjaxRequest()
+{
+    return isset($_SERVER['HTTP_X_REQUESTED_WITH'])
+        && strtolower($_SERVER['HTTP_X_REQUESTED_WITH']) === 'xmlhttprequest';
+}
+
+/**
+ * Check if an API request may change data. Other sites can let the browser of the user send forms (with the session
+ * cookie) to Part-DB, but a request with a JSON body needs a CORS preflight, which is never allowed by Part-DB.
+ * @param string $method The HTTP method of the request (e.g. "POST")
+ * @param string|null $content_type The value of the Content-Type header (null if not set)
+ * @return bool True if the request only reads data or has a JSON body, false if it must be rejected.
+ */
+function isCsrfSafeRequest($method, $content_type)
+{
+    if (in_array(strtoupper($method), array("GET", "HEAD", "OPTIONS"))) {
+        return true;
+    }
+    //Ignore parameters like "; charset=UTF-8"
+    $parts = explode(";", (string) $content_type);
+    return strtolower(trim($parts[0])) === "application/json";
+}
+
 /**
  * Generates a path, based on category structure of a part.
  * @param $base_dir string The base path for the file path structure (with trailing slash)
@@ -1435,6 +1492,238 @@ function parsePartsSelection(&$database, &$current_user, &$log, $selection, $act
     }
 }
 
+/**
+ * Executes an action for multiple parts (used by the bulk edit of the part tables).
+ * In contrast to parsePartsSelection(), a failed part does not stop the action, instead the error is reported in the
+ * result of the part. The setters of Part ignore values, which the user is not allowed to change, so the permissions
+ * are checked here and a missing permission is reported as error of every part.
+ * @param Database $database
+ * @param User $current_user
+ * @param Log $log
+ * @param int[] $ids The IDs of the parts.
+ * @param string $action The action: "move", "mininstock", "obsolete", "device", "favor", "defavor" or "delete".
+ * @param array $params The parameters of the action:
+ *      "move": "target" (e.g. "c12" for a category, like in parsePartsSelection(), "s0" removes the store location)
+ *      "mininstock": "mininstock"
+ *      "obsolete": "obsolete" (bool)
+ *      "device": "device_id", "quantity"
+ * @return array An array with the result for every part ("id", "name", "success", "message" and for "move" the
+ *      "previous" target, like "c3").
+ * @throws Exception If the action or the parameters are invalid (then no part was changed).
+ */
+function bulkEditParts(&$database, &$current_user, &$log, $ids, $action, $params = array())
+{
+    //Check the parameters, before any part is changed.
+    switch ($action) {
+        case "move":
+            $target = isset($params['target']) ? $params['target'] : "";
+            $target_type = substr($target, 0, 1);
+            $target_id = intval(substr($target, 1));
+            //Only the category is required, 0 removes the footprint, manufacturer or store location (e.g. "s0")
+            if (!in_array($target_type, array("c", "f", "m", "s")) || !is_numeric(substr($target, 1))
+                || $target_id < ($target_type == "c" ? 1 : 0)) {
+                throw new Exception(_("Bitte wählen sie ein Ziel zum Verschieben aus."));
+            }
+            break;
+        case "mininstock":
+            if (!isset($params['mininstock']) || !is_numeric($params['mininstock']) || $params['mininstock'] < 0) {
+                throw new Exception(_("Der Mindestbestand muss eine positive Zahl sein!"));
+            }
+            break;
+        case "device":
+            if (!isset($params['device_id']) || $params['device_id'] < 1
+                || !isset($params['quantity']) || $params['quantity'] < 1) {
+                throw new Exception(_("Ungültige Eingabedaten!"));
+            }
+            break;
+        case "obsolete":
+        case "favor":
+        case "defavor":
+        case "delete":
+            break;
+        case "":
+            throw new Exception(_("Bitte wählen sie eine Aktion aus."));
+        default:
+            throw new Exception(_("Unbekannte Aktion"));
+    }
+
+    //The permissions, which are needed for the action
+    switch ($action) {
+        case "move":
+            $permissions = array(
+                "c" => array(PermissionManager::PARTS, PartPermission::MOVE),
+                "f" => array(PermissionManager::PARTS_FOOTPRINT, PartAttributePermission::EDIT),
+                "m" => array(PermissionManager::PARTS_MANUFACTURER, PartAttributePermission::EDIT),
+                "s" => array(PermissionManager::PARTS_STORELOCATION, PartAttributePermission::EDIT));
+            $permission = $permissions[$target_type];
+            break;
+        case "mininstock":
+            $permission = array(PermissionManager::PARTS_MININSTOCK, PartAttributePermission::EDIT);
+            break;
+        case "obsolete":
+            $permission = array(PermissionManager::PARTS_ORDERDETAILS, CPartAttributePermission::EDIT);
+            break;
+        case "device":
+            $permission = array(PermissionManager::DEVICE_PARTS, DevicePartPermission::CREATE);
+            break;
+        case "favor":
+        case "defavor":
+            $permission = array(PermissionManager::PARTS, PartPermission::CHANGE_FAVORITE);
+            break;
+        case "delete":
+            $permission = array(PermissionManager::PARTS, PartPermission::DELETE);
+            break;
+    }
+
+    $results = array();
+    foreach ($ids as $id) {
+        $result = array("id" => (int) $id, "name" => "", "success" => true, "message" => "");
+        try {
+            $part = new Part($database, $current_user, $log, (int) $id);
+            $result['name'] = $part->getName();
+
+            $current_user->tryDo($permission[0], $permission[1]);
+
+            switch ($action) {
+                case "move":
+                    //The previous target is returned, so the move can be undone
+                    switch ($target_type) {
+                        case "c":
+                            $result['previous'] = "c" . $part->getCategory()->getID();
+                            $part->setCategoryID($target_id);
+                            break;
+                        case "f":
+                            $result['previous'] = "f" . (is_object($part->getFootprint()) ? $part->getFootprint()->getID() : 0);
+                            $part->setFootprintID($target_id);
+                            break;
+                        case "m":
+                            $result['previous'] = "m" . (is_object($part->getManufacturer()) ? $part->getManufacturer()->getID() : 0);
+                            $part->setManufacturerID($target_id);
+                            break;
+                        case "s":
+                            $result['previous'] = "s" . (is_object($part->getStorelocation()) ? $part->getStorelocation()->getID() : 0);
+                            $part->setStorelocationID($target_id);
+                            break;
+                    }
+                    break;
+                case "mininstock":
+                    $part->setMinInstock((int) $params['mininstock']);
+                    break;
+                case "obsolete":
+                    //A part is obsolete, when all of its orderdetails are obsolete.
+                    $orderdetails = $part->getOrderdetails();
+                    if (count($orderdetails) == 0) {
+                        throw new Exception(_("Das Bauteil hat keine Einkaufsinformationen, die als obsolet markiert werden können."));
+                    }
+                    foreach ($orderdetails as $orderdetail) {
+                        $orderdetail->setObsolete(!empty($params['obsolete']));
+                    }
+                    break;
+                case "device":
+                    DevicePart::add($database, $current_user, $log, (int) $params['device_id'], $part->getID(), (int) $params['quantity'], "", true);
+                    break;
+                case "favor":
+                    $part->setFavorite(true);
+                    break;
+                case "defavor":
+                    $part->setFavorite(false);
+                    break;
+                case "delete":
+                    $part->delete();
+                    break;
+            }
+        } catch (Exception $e) {
+            $result['success'] = false;
+            $result['message'] = $e->getMessage();
+        }
+        $results[] = $result;
+    }
+
+    return $results;
+}
+
+/**
+ * Changes single values of a part (used by the inline editing of the part tables).
+ * Like in bulkEditParts(), a failed value does not stop the others, instead the error is reported in the result of
+ * the value. In contrast to the setters of Part, a missing permission is reported as error and not ignored.
+ * @param Database $database
+ * @param User $current_user
+ * @param Log $log
+ * @param Part $part The part, which should be changed.
+ * @param array $values The new values (the keys are the captions of the table columns):
+ *      "instock", "mininstock", "storelocation" (the ID, 0 removes the store location), "comment" and
+ *      "average_single_price" (the price for one piece, only possible if the part has a single price)
+ * @return array An array with the result for every value ("success" and "message").
+ */
+function editPartValues(&$database, &$current_user, &$log, $part, $values)
+{
+    $results = array();
+    foreach ($values as $caption => $value) {
+        $result = array("success" => true, "message" => "");
+        try {
+            switch ($caption) {
+                case "instock":
+                    $current_user->tryDo(PermissionManager::PARTS_INSTOCK, PartAttributePermission::EDIT);
+                    if (!is_numeric($value) || (int) $value != $value || $value < 0) {
+                        throw new Exception(_("Der Bestand muss eine positive ganze Zahl sein!"));
+                    }
+                    $part->setInstock((int) $value);
+                    break;
+                case "mininstock":
+                    $current_user->tryDo(PermissionManager::PARTS_MININSTOCK, PartAttributePermission::EDIT);
+                    if (!is_numeric($value) || (int) $value != $value || $value < 0) {
+                        throw new Exception(_("Der Mindestbestand muss eine positive Zahl sein!"));
+                    }
+                    $part->setMinInstock((int) $value);
+                    break;
+                case "storelocation":
+                    $current_user->tryDo(PermissionManager::PARTS_STORELOCATION, PartAttributePermission::EDIT);
+                    if (!is_numeric($value) || $value < 0) {
+                        throw new Exception(_("Ungültige Eingabedaten!"));
+                    }
+                    //Like in bulkEditParts(), 0 removes the store location (NULL would be ignored by setAttributes())
+                    $part->setStorelocationID((int) $value);
+                    break;
+                case "comment":
+                    $current_user->tryDo(PermissionManager::PARTS_COMMENT, PartAttributePermission::EDIT);
+                    if (!is_string($value)) {
+                        throw new Exception(_("Ungültige Eingabedaten!"));
+                    }
+                    $part->setComment($value);
+                    break;
+                case "average_single_price":
+                    $current_user->tryDo(PermissionManager::PARTS_PRICES, CPartAttributePermission::EDIT);
+                    if (!is_numeric($value) || $value < 0) {
+                        throw new Exception(_("Der Preis muss eine positive Zahl sein!"));
+                    }
+                    $orderdetails = $part->getOrderdetails(true);
+                    if (count($orderdetails) == 0) {
+                        throw new Exception(_("Das Bauteil hat keine Einkaufsinformationen, zu denen ein Preis gespeichert werden kann."));
+                    }
+                    $pricedetails = $orderdetails[0]->getPricedetails();
+                    if (count($orderdetails) > 1 || count($pricedetails) > 1) {
+                        throw new Exception(_("Das Bauteil hat mehrere Preise, diese können nur auf der Bearbeiten-Seite des Bauteils geändert werden."));
+                    }
+                    if (count($pricedetails) == 0) {
+                        Pricedetails::add($database, $current_user, $log, $orderdetails[0]->getID(), (float) $value);
+                    } else {
+                        //The saved price is the price for the price related quantity
+                        $pricedetails[0]->setPrice((float) $value * $pricedetails[0]->getPriceRelatedQuantity());
+                    }
+                    break;
+                default:
+                    throw new Exception(sprintf(_("Die Spalte %s kann nicht bearbeitet werden!"), $caption));
+            }
+        } catch (Exception $e) {
+            $result['success'] = false;
+            $result['message'] = $e->getMessage();
+        }
+        $results[$caption] = $result;
+    }
+
+    return $results;
+}
+
 function build_custom_css_loop($selected = null, $include_default_theme = false)
 {
     global $config;
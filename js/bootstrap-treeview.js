@@ -21,6 +21,7 @@
  * Modified by Jan Böhmer 2017 for use in Part-DB.
  * Added functions:
  * * Contextmenu handler
+ * * addNodes method (for lazy loading of child nodes)
  *****************************************************************/
 
 ;(function ($, window, document, undefined) {
@@ -149,7 +150,10 @@
 
 			// Search methods
 			search: $.proxy(this.search, this),
-			clearSearch: $.proxy(this.clearSearch, this)
+			clearSearch: $.proxy(this.clearSearch, this),
+
+			// Lazy loading methods
+			addNodes: $.proxy(this.addNodes, this)
 		};
 	};
 
@@ -1122,6 +1126,25 @@
 						identifier;
 	};
 
+	/**
+		Adds child nodes to a node. Used to load the children of a node lazy, when it is expanded.
+		@param {Object|Number} identifier - A valid node or node id
+		@param {Array} nodes - The child nodes, in the same format as options.data
+	*/
+	Tree.prototype.addNodes = function (identifier, nodes) {
+		var node = this.identifyNode(identifier);
+		if (!node) return;
+
+		var children = $.extend(true, [], nodes);
+		// Only initialize the new nodes, the existing children keep their nodeIds.
+		// The levels option is not applied, new nodes are collapsed unless their state says otherwise.
+		this.setInitialStates({ nodeId: node.nodeId, nodes: children }, this.options.levels);
+
+		node.nodes = (node.nodes || []).concat(children);
+		node.lazyLoad = false;
+		this.render();
+	};
+
 	/**
 		Searches the tree for nodes (text) that match given criteria
 		@param {String} pattern - A given string to match against
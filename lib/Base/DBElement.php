@@ -28,6 +28,7 @@ namespace PartDB\Base;
 use Exception;
 use PartDB\Database;
 use PartDB\Log;
+use PartDB\Tools\ChangeFeed;
 use PartDB\User;
 
 /**
@@ -189,6 +190,7 @@ abstract class DBElement
         }
 
         $this->database->deleteRecord($this->tablename, $this->getID());
+        ChangeFeed::record($this->database, $this->current_user, $this->tablename, $this->getID(), ChangeFeed::CHANGE_DELETED);
 
         // set ALL element attributes to NULL
         $this->resetAttributes(true);
@@ -269,6 +271,7 @@ abstract class DBElement
         //          because this way the method check_values_validity() can adjust the values.
         //          For example, names can be trimmed [trim()] in check_values_validity().
         $this->database->setDataFields($this->tablename, $this->getID(), $values);
+        ChangeFeed::record($this->database, $this->current_user, $this->tablename, $this->getID(), ChangeFeed::CHANGE_UPDATED);
 
         // get all data from the database again (this is the savest way to be up-to-date)
         $this->db_data = $this->database->getRecordData($this->tablename, $this->getID());
@@ -393,6 +396,7 @@ abstract class DBElement
         if ($id == null) {
             throw new Exception(_('Der Datenbankeintrag konnte nicht angelegt werden.'));
         }
+        ChangeFeed::record($database, $current_user, $tablename, $id, ChangeFeed::CHANGE_CREATED);
 
         $class = get_called_class();
 
@@ -560,6 +560,136 @@ abstract class StructuralDBElement extends AttachementsContainingDBElement
         return $tree;
     }
 
+    /**
+     * Builds the nodes below this element for a bootstrap-treeview, which loads its children lazy.
+     * Only $depth levels are contained. Nodes with unloaded children get the "lazyLoad" flag and an empty "nodes"
+     * array, their children can be requested with the ID of the node as root element.
+     *
+     * @param string $page The base page, to which the nodes should be linking to.
+     * @param string $parameter The parameter, which selects the ID of the StructuralDBElement.
+     * @param int $depth How many levels below this element are contained.
+     * @param int[] $expanded_ids The children of these elements are always contained and their nodes are expanded.
+     * @return array The nodes below this element.
+     */
+    public function buildLazyBootstrapTree($page, $parameter, $depth = 1, $expanded_ids = array())
+    {
+        if (!$this->current_user->canDo(static::getPermissionName(), StructuralPermission::READ)) {
+            return array();
+        }
+
+        return $this->buildLazyBootstrapNodes(
+            $this->getTreeRowsByParent(),
+            (int) $this->getID(),
+            $page,
+            $parameter,
+            $depth,
+            $expanded_ids
+        );
+    }
+
+    /**
+     * Builds the nodes below this element for a bootstrap-treeview, which contains only the elements whose name
+     * contains the keyword and their parents. The parents are expanded and the matching nodes are marked as
+     * search result. Children of matching nodes can be loaded lazy.
+     *
+     * @param string $page The base page, to which the nodes should be linking to.
+     * @param string $parameter The parameter, which selects the ID of the StructuralDBElement.
+     * @param string $keyword The keyword (case insensitive).
+     * @return array The nodes below this element.
+     */
+    public function buildSearchBootstrapTree($page, $parameter, $keyword)
+    {
+        if (!$this->current_user->canDo(static::getPermissionName(), StructuralPermission::READ)) {
+            return array();
+        }
+
+        return $this->buildSearchBootstrapNodes($this->getTreeRowsByParent(), (int) $this->getID(), $page, $parameter, $keyword);
+    }
+
+    /**
+     * Loads the ID, the name and the parent of all elements with a single query, so big trees can be built fast.
+     * @return array The rows of the elements grouped by the ID of their parent (0 for the top level elements).
+     */
+    private function getTreeRowsByParent()
+    {
+        $rows_by_parent = array();
+        $query_data = $this->database->query('SELECT id, name, parent_id FROM ' . $this->tablename . ' ORDER BY name ASC');
+        foreach ($query_data as $row) {
+            $rows_by_parent[(int) $row['parent_id']][] = $row;
+        }
+        return $rows_by_parent;
+    }
+
+    /**
+     * Creates the bootstrap-treeview node for a row of getTreeRowsByParent() (without children).
+     */
+    private function buildBootstrapNode($row, $page, $parameter)
+    {
+        return array('text' => htmlspecialchars($row['name']),
+            'href' => $page ."?". $parameter ."=". $row['id'],
+            'id' => (int) $row['id']);
+    }
+
+    private function buildLazyBootstrapNodes($rows_by_parent, $parent_id, $page, $parameter, $depth, $expanded_ids)
+    {
+        $nodes = array();
+        if (!isset($rows_by_parent[$parent_id])) {
+            return $nodes;
+        }
+
+        foreach ($rows_by_parent[$parent_id] as $row) {
+            $node = $this->buildBootstrapNode($row, $page, $parameter);
+            $id = (int) $row['id'];
+
+            if (isset($rows_by_parent[$id])) {
+                $expanded = in_array($id, $expanded_ids);
+                if ($depth > 1 || $expanded) {
+                    $node['nodes'] = $this->buildLazyBootstrapNodes($rows_by_parent, $id, $page, $parameter, $depth - 1, $expanded_ids);
+                    $node['state'] = array('expanded' => $expanded);
+                } else {
+                    $node['nodes'] = array();
+                    $node['lazyLoad'] = true;
+                }
+            }
+
+            $nodes[] = $node;
+        }
+
+        return $nodes;
+    }
+
+    private function buildSearchBootstrapNodes($rows_by_parent, $parent_id, $page, $parameter, $keyword)
+    {
+        $nodes = array();
+        if (!isset($rows_by_parent[$parent_id])) {
+            return $nodes;
+        }
+
+        foreach ($rows_by_parent[$parent_id] as $row) {
+            $id = (int) $row['id'];
+            $children = $this->buildSearchBootstrapNodes($rows_by_parent, $id, $page, $parameter, $keyword);
+            $matches = mb_stripos($row['name'], $keyword) !== false;
+
+            if (!$matches && empty($children)) {
+                continue;
+            }
+
+            $node = $this->buildBootstrapNode($row, $page, $parameter);
+            $node['searchResult'] = $matches;
+            if (!empty($children)) {
+                $node['nodes'] = $children;
+                $node['state'] = array('expanded' => true);
+            } elseif (isset($rows_by_parent[$id])) {
+                //The children of a matching node dont match, but the user can expand it.
+                $node['nodes'] = array();
+                $node['lazyLoad'] = true;
+            }
+            $nodes[] = $node;
+        }
+
+        return $nodes;
+    }
+
     /**
      * Creates a template loop for a Breadcrumb bar, representing the structural DB element.
      * @param $page string The base page, to which the breadcrumb links should be directing to.
@@ -402,6 +402,94 @@ class Device extends Base\PartsContainingDBElement
         }
     }
 
+    /**
+     *  Get what is needed to build this device several times (used by the build planner)
+     *
+     * @note    Like bookParts(), only the parts of this device are used (not the ones of the subdevices).
+     *
+     * @param integer $quantity             how often the device should be built
+     * @param integer $substitutions_limit  the maximum count of suggested substitutions for a missing part
+     *
+     * @return array    for every part: the part (the description is HTML), its store location, the mount names,
+     *                  the mount quantity, the needed quantity, the instock (NULL if it is unknown), the shortfall,
+     *                  the other devices, which use the part too, and for missing parts the suggested substitutions
+     *                  (parts of the same category and footprint, which have enough parts in stock)
+     *
+     * @throws Exception if there was an error
+     */
+    public function getBuildPlan($quantity, $substitutions_limit = 5)
+    {
+        $device_parts = $this->getParts();
+        if (count($device_parts) == 0) {
+            return array();
+        }
+
+        // the other devices, which use the parts of this device
+        $part_ids = array();
+        foreach ($device_parts as $device_part) {
+            /** @var DevicePart $device_part */
+            $part_ids[] = $device_part->getPart()->getID();
+        }
+        $query = 'SELECT device_parts.id_part, device_parts.quantity, devices.id, devices.name, devices.order_quantity '.
+            'FROM device_parts LEFT JOIN devices ON devices.id = device_parts.id_device '.
+            'WHERE device_parts.id_part IN (' . implode(',', array_fill(0, count($part_ids), '?')) . ') '.
+            'AND device_parts.id_device <> ? ORDER BY devices.name ASC';
+        $other_devices = array();
+        foreach ($this->database->query($query, array_merge($part_ids, array($this->getID()))) as $row) {
+            $other_devices[$row['id_part']][] = array('id' => (int) $row['id'],
+                'name' => $row['name'],
+                'mount_quantity' => (int) $row['quantity'],
+                'order_quantity' => (int) $row['order_quantity']);
+        }
+
+        $plan = array();
+        foreach ($device_parts as $device_part) {
+            /** @var DevicePart $device_part */
+            $part = $device_part->getPart();
+            $storelocation = $part->getStorelocation();
+            $needed = $device_part->getMountQuantity() * $quantity;
+            // without the permission, the instock is -1
+            $instock = ($part->isInstockUnknown() || $part->getInstock() < 0) ? null : (int) $part->getInstock();
+            $shortfall = max($needed - (int) $instock, 0);
+
+            $substitutions = array();
+            if ($shortfall > 0 && $substitutions_limit > 0) {
+                $footprint = $part->getFootprint();
+                $query = 'SELECT * FROM parts WHERE id_category = ? AND id <> ? AND instock >= ? AND '.
+                    (is_object($footprint) ? 'id_footprint = ?' : 'id_footprint IS NULL').
+                    ' ORDER BY instock DESC, name ASC LIMIT ' . (int) $substitutions_limit;
+                $values = array($part->getCategory()->getID(), $part->getID(), $needed);
+                if (is_object($footprint)) {
+                    $values[] = $footprint->getID();
+                }
+                foreach ($this->database->query($query, $values) as $row) {
+                    $substitution = new Part($this->database, $this->current_user, $this->log, $row['id'], $row);
+                    $substitution_location = $substitution->getStorelocation();
+                    $substitutions[] = array('id' => $substitution->getID(),
+                        'name' => $substitution->getName(),
+                        'description' => $substitution->getDescription(),
+                        'instock' => (int) $substitution->getInstock(),
+                        'storelocation' => is_object($substitution_location) ? $substitution_location->getFullPath() : '');
+                }
+            }
+
+            $plan[] = array('part' => array('id' => $part->getID(),
+                    'name' => $part->getName(),
+                    'description' => $part->getDescription(),
+                    'footprint' => is_object($part->getFootprint()) ? $part->getFootprint()->getName() : ''),
+                'storelocation' => is_object($storelocation) ? $storelocation->getFullPath() : '',
+                'mount_names' => $device_part->getMountNames(),
+                'mount_quantity' => (int) $device_part->getMountQuantity(),
+                'needed' => $needed,
+                'instock' => $instock,
+                'shortfall' => $shortfall,
+                'devices' => isset($other_devices[$part->getID()]) ? $other_devices[$part->getID()] : array(),
+                'substitutions' => $substitutions);
+        }
+
+        return $plan;
+    }
+
     /********************************************************************************
      *
      *   Setters
@@ -26,6 +26,8 @@
 namespace PartDB;
 
 use Exception;
+use PartDB\Permissions\CPartAttributePermission;
+use PartDB\Permissions\PartAttributePermission;
 use PartDB\Permissions\PartContainingPermission;
 use PartDB\Permissions\PartPermission;
 use PartDB\Permissions\PermissionManager;
@@ -392,6 +394,7 @@ class HTML
         $tmpl->assign('page_title', $this->meta['title']);
         $tmpl->assign('http_charset', $config['html']['http_charset']);
         $tmpl->assign('lang', $lang);
+        $tmpl->assign('number_format', getLocaleNumberFormat());
         $tmpl->assign('body_onload', $this->body_onload);
         $tmpl->assign('theme', $this->meta['theme']);
         $tmpl->assign('frameset', $this->meta['frameset']);
@@ -409,6 +412,36 @@ class HTML
             $tmpl->assign('can_category', $user->canDo(PermissionManager::CATEGORIES, StructuralPermission::READ)
                     && $user->canDo(PermissionManager::CATEGORIES, PartContainingPermission::LIST_PARTS));
             $tmpl->assign('can_device', $user->canDo(PermissionManager::DEVICES, StructuralPermission::READ));
+
+            //The actions of the context menu of the treeviews, which are shown to the user
+            $tree_permissions = array();
+            $tree_datasources = array("categories" => PermissionManager::CATEGORIES,
+                "locations" => PermissionManager::STORELOCATIONS, "footprints" => PermissionManager::FOOTRPINTS,
+                "manufacturers" => PermissionManager::MANUFACTURERS, "suppliers" => PermissionManager::SUPPLIERS,
+                "devices" => PermissionManager::DEVICES);
+            foreach ($tree_datasources as $datasource => $permission) {
+                $tree_permissions[$datasource] = array(
+                    "create" => $user->canDo($permission, StructuralPermission::CREATE),
+                    "edit" => $user->canDo($permission, StructuralPermission::EDIT),
+                    "delete" => $user->canDo($permission, StructuralPermission::DELETE));
+            }
+            $tree_permissions['parts'] = array("create" => $user->canDo(PermissionManager::PARTS, PartPermission::CREATE));
+            $tmpl->assign('tree_permissions', json_encode($tree_permissions));
+
+            //The columns of the part tables, which the user can edit directly in the table (see editPartValues())
+            $inline_edit_columns = array();
+            $inline_edit_permissions = array("instock" => PermissionManager::PARTS_INSTOCK,
+                "mininstock" => PermissionManager::PARTS_MININSTOCK, "storelocation" => PermissionManager::PARTS_STORELOCATION,
+                "comment" => PermissionManager::PARTS_COMMENT);
+            foreach ($inline_edit_permissions as $caption => $permission) {
+                if ($user->canDo($permission, PartAttributePermission::EDIT)) {
+                    $inline_edit_columns[] = $caption;
+                }
+            }
+            if ($user->canDo(PermissionManager::PARTS_PRICES, CPartAttributePermission::EDIT)) {
+                $inline_edit_columns[] = "average_single_price";
+            }
+            $tmpl->assign('inline_edit_columns', json_encode($inline_edit_columns));
         } catch (Exception $exception) {
             //TODO
         }
@@ -581,6 +614,9 @@ class HTML
         $tmpl->assign("tracking_code", $config['tracking_code']);
         $tmpl->assign('auto_sort', $config['table']['autosort']);
         $tmpl->assign("autorefresh", $this->meta['autorefresh']);
+        $tmpl->assign("offline_enable", $config['offline']['enable']);
+        $tmpl->assign("offline_user_id", User::getLoggedInID());
+        $tmpl->assign("ajax_timeout", $config['ajax']['timeout']);
 
         if (PDBDebugBar::isActivated()) {
             $renderer = PDBDebugBar::getInstance()->getRenderer();
@@ -302,6 +302,51 @@ abstract class BaseLabel
         throw new NotImplementedException(_("getSupportedTypes() ist nicht implementiert"));
     }
 
+    /**
+     * Generates the modules of a barcode, so it can be drawn by the label designer in the browser.
+     * @param $content string The content of the barcode (see ILabel::getBarcodeContent()).
+     * @param $type string The type of the barcode: "EAN8", "C39" or "QR".
+     * @return array An array with the "width" and "height" of the barcode in modules and the dark modules as
+     *      [x, y, width, height] in "rects".
+     */
+    public static function generateBarcodeModules($content, $type)
+    {
+        $rects = array();
+        switch ($type) {
+            case "EAN8":
+            case "C39":
+                $barcode = new \TCPDFBarcode($content, $type);
+                $data = $barcode->getBarcodeArray();
+                if ($data === false) {
+                    throw new \InvalidArgumentException(_("Der Barcode konnte nicht erzeugt werden!"));
+                }
+                $x = 0;
+                foreach ($data['bcode'] as $bar) {
+                    if ($bar['t']) {
+                        $rects[] = array($x, $bar['p'], $bar['w'], $bar['h']);
+                    }
+                    $x += $bar['w'];
+                }
+                return array("width" => $data['maxw'], "height" => $data['maxh'], "rects" => $rects);
+            case "QR":
+                $barcode = new \TCPDF2DBarcode($content, "QRCODE,Q");
+                $data = $barcode->getBarcodeArray();
+                if ($data === false) {
+                    throw new \InvalidArgumentException(_("Der Barcode konnte nicht erzeugt werden!"));
+                }
+                foreach ($data['bcode'] as $y => $row) {
+                    foreach ($row as $x => $module) {
+                        if ($module) {
+                            $rects[] = array($x, $y, 1, 1);
+                        }
+                    }
+                }
+                return array("width" => $data['num_cols'], "height" => $data['num_rows'], "rects" => $rects);
+            default:
+                throw new \InvalidArgumentException(sprintf(_("Der Barcodetyp %s wird nicht unterstützt!"), $type));
+        }
+    }
+
     /**
      * Replaces placeholder in the format %PLACEHOLDER% with info.
      *
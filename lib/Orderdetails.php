@@ -211,6 +211,18 @@ class Orderdetails extends Base\DBElement implements Interfaces\IAPIModel
         return $this->db_data['supplierpartnr'];
     }
 
+    /**
+     * Get the packaging unit
+     *
+     * The part can only be ordered in multiples of the packaging unit (e.g. 100 for a bag of 100 resistors).
+     *
+     * @return integer      the packaging unit (1 if the parts can be ordered one by one)
+     */
+    public function getPackagingUnit()
+    {
+        return isset($this->db_data['packaging_unit']) ? max((int) $this->db_data['packaging_unit'], 1) : 1;
+    }
+
     /**
      * Get if this orderdetails is obsolete
      *
@@ -362,6 +374,19 @@ class Orderdetails extends Base\DBElement implements Interfaces\IAPIModel
         $this->setAttributes(array('supplierpartnr' => $new_supplierpartnr));
     }
 
+    /**
+     * Set the packaging unit
+     *
+     * @param integer $new_packaging_unit       the new packaging unit (see Orderdetails::getPackagingUnit())
+     *
+     * @throws Exception if the packaging unit is not valid
+     * @throws Exception if there was an error
+     */
+    public function setPackagingUnit($new_packaging_unit)
+    {
+        $this->setAttributes(array('packaging_unit' => $new_packaging_unit));
+    }
+
     /**
      * Set if the part is obsolete at the supplier of that orderdetails
      *
@@ -394,6 +419,14 @@ class Orderdetails extends Base\DBElement implements Interfaces\IAPIModel
         // set the datetype of the boolean attributes
         settype($values['obsolete'], 'boolean');
 
+        // check "packaging_unit"
+        if (isset($values['packaging_unit'])) {
+            if (((! is_int($values['packaging_unit'])) && (! ctype_digit($values['packaging_unit'])))
+                || ($values['packaging_unit'] < 1)) {
+                throw new Exception(_('Die Verpackungseinheit ist ungültig!'));
+            }
+        }
+
         // check "part_id"
         try {
             $part = new Part($database, $current_user, $log, $values['part_id']);
@@ -440,6 +473,7 @@ class Orderdetails extends Base\DBElement implements Interfaces\IAPIModel
      * @param integer   $supplier_id        the ID of the supplier (see Orderdetails::set_supplier_id())
      * @param string    $supplierpartnr     the supplier-part-nr (see Orderdetails::set_supplierpartnr())
      * @param boolean   $obsolete           the obsolete attribute of the new orderdetails (see Orderdetails::set_obsolete())
+     * @param integer   $packaging_unit     the packaging unit (see Orderdetails::setPackagingUnit())
      *
      * @return Base\DBElement|Orderdetails
      *
@@ -455,7 +489,8 @@ class Orderdetails extends Base\DBElement implements Interfaces\IAPIModel
         $part_id,
         $supplier_id,
         $supplierpartnr = '',
-        $obsolete = false
+        $obsolete = false,
+        $packaging_unit = 1
     ) {
         $current_user->tryDo(PermissionManager::PARTS_ORDERDETAILS, CPartAttributePermission::CREATE);
 
@@ -467,7 +502,8 @@ class Orderdetails extends Base\DBElement implements Interfaces\IAPIModel
             array(  'part_id'                   => $part_id,
                 'id_supplier'               => $supplier_id,
                 'supplierpartnr'            => $supplierpartnr,
-                'obsolete'                  => $obsolete)
+                'obsolete'                  => $obsolete,
+                'packaging_unit'            => $packaging_unit)
         );
     }
 
@@ -486,6 +522,7 @@ class Orderdetails extends Base\DBElement implements Interfaces\IAPIModel
         if ($verbose == true) {
             $ver = array("supplier" => $this->getSupplier()->getAPIArray(),
                 "obsolete" => $this->getObsolete() == true,
+                "packaging_unit" => $this->getPackagingUnit(),
                 "supplier_product_url" => $this->getSupplierProductUrl(),
                 "pricedetails" => convertAPIModelArray($this->getPricedetails(), true));
             return array_merge($json, $ver);
@@ -27,6 +27,7 @@ namespace PartDB;
 
 use Exception;
 use Golonka\BBCode\BBCodeParser;
+use PartDB\PartProperty\EngineeringValue;
 use PartDB\PartProperty\PartProperty;
 use PartDB\Permissions\CPartAttributePermission;
 use PartDB\Permissions\PartAttributePermission;
@@ -548,6 +549,28 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
         return $this->db_data['manual_order'];
     }
 
+    /**
+     *  Get the date/time when the part was marked as ordered (in the order cart)
+     *
+     * @param boolean $formatted    When true, the date gets formatted with the locale and timezone settings.
+     *                              When false, the raw value from the DB is returned.
+     *
+     * @return string|null      the date/time of the order, or NULL if the part is not ordered
+     */
+    public function getDatetimeOrdered($formatted = true)
+    {
+        if (!$this->current_user->canDo(PermissionManager::PARTS_ORDER, PartAttributePermission::READ)
+            || empty($this->db_data['datetime_ordered'])) {
+            return null;
+        }
+
+        $time_str = $this->db_data['datetime_ordered'];
+        if ($formatted) {
+            return formatTimestamp(strtotime($time_str));
+        }
+        return $time_str;
+    }
+
     /**
      * Check if the part is automatically marked for Ordering, because the instock value is smaller than the min instock value.
      * @return bool True, if the part should be ordered.
@@ -1156,6 +1179,27 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
         $this->setAttributes(array('instock' => $new_instock));
     }
 
+    /**
+     *  Withdraw or add parts
+     *
+     * @param integer $change       the number of parts which are added to the stock (negative values withdraw parts)
+     *
+     * @throws Exception if the user is not allowed to change the instock
+     * @throws Exception if the instock of this part is unknown
+     * @throws Exception if there are not enough parts in stock
+     * @throws Exception if there was an error
+     */
+    public function changeInstock($change)
+    {
+        $this->current_user->tryDo(PermissionManager::PARTS_INSTOCK, PartAttributePermission::EDIT);
+
+        if ($this->isInstockUnknown()) {
+            throw new Exception(sprintf(_('Der Lagerbestand von "%s" ist unbekannt!'), $this->getName()));
+        }
+
+        $this->setInstock($this->getInstock() + (int) $change);
+    }
+
     /**
      *  Set the count of parts which should be in stock at least
      *
@@ -1228,6 +1272,18 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
         $this->setAttributes(array('order_quantity' => $new_order_quantity));
     }
 
+    /**
+     *  Mark the part as ordered or not ordered
+     *
+     * @param boolean $new_ordered       true if the part was ordered now, false if it is not ordered (anymore)
+     *
+     * @throws Exception if there was an error
+     */
+    public function setOrdered($new_ordered)
+    {
+        $this->setAttributes(array('datetime_ordered' => $new_ordered ? date('Y-m-d H:i:s') : null));
+    }
+
     /**
      *  Set the ID of the category
      *
@@ -1382,6 +1438,9 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
             if (isset($new_values['manual_order'])) {
                 $arr['manual_order'] = $new_values['manual_order'];
             }
+            if (array_key_exists('datetime_ordered', $new_values)) {
+                $arr['datetime_ordered'] = $new_values['datetime_ordered'];
+            }
         }
 
         if (isset($new_values['favorite']) && $this->current_user->canDo(PermissionManager::PARTS, PartPermission::CHANGE_FAVORITE)) {
@@ -1459,6 +1518,7 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
                 case 'name_description':
                     $row_field['obsolete']          = $this->getObsolete();
                     $row_field['comment']           = $this->getComment();
+                    $row_field['comment_bbcode']    = htmlspecialchars_decode($this->getComment(false)); // for the inline editing
                     $row_field['description']       = $this->getDescription(true, $max_length);
                     break;
 
@@ -1579,6 +1639,7 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
 
                 case 'average_single_price':
                     $row_field['average_single_price'] = $this->getAveragePrice(true, 1);
+                    $row_field['average_single_price_value'] = $this->getAveragePrice(false, 1); // for the inline editing
                     break;
 
                 case 'single_prices':
@@ -1725,6 +1786,7 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
 
         $table_loop = array();
         $table_loop[] = array('print_header' => true,
+            'table_type' => $table_type, // the column layouts of the users are saved per table type
             'columns' => $columns); // print the table header
 
         $row_index = 0;
@@ -2681,6 +2743,9 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
      * @param boolean   $manufacturer_name      if true, the search will include this attribute
      * @param boolean   $regex_search           if true, the search will use Regular Expressions to match
      *                                          the results.
+     * @param boolean   $value_search           if true and the keyword is a value in engineering notation (e.g. "10k"),
+     *                                          the name, description and comment are searched for the same value
+     *                                          in any notation (e.g. "10000 Ohm" or "10kΩ"), see EngineeringValue.
      *
      * @return Part[]    all found parts as a one-dimensional array of Part objects,
      *                  sorted by their names (if "$group_by == ''")
@@ -2708,7 +2773,8 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
         $supplier_name = false,
         $supplierpartnr = false,
         $manufacturer_name = false,
-        $regex_search = false
+        $regex_search = false,
+        $value_search = false
     ) {
         global $config;
 
@@ -2749,6 +2815,17 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
 
         $keywords = searchStringToArray($keyword);
 
+        $search_value = $value_search ? EngineeringValue::parse($keyword) : null;
+        if ($search_value !== null) {
+            //Every notation of the value contains its first significant digit, so the parts can be preselected
+            //with this digit. Whether they really contain the value, is checked after the query.
+            $regex_search = false;
+            $digit = substr(sprintf('%e', abs($search_value->getValue())), 0, 1);
+            foreach ($keywords as $key => $k) {
+                $keywords[$key] = in_array($key, array('name', 'description', 'comment')) ? $digit : '';
+            }
+        }
+
         //Select the correct LIKE operator, for Regex or normal search
         if ($regex_search == false) {
             $like = "LIKE";
@@ -2844,14 +2921,16 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
         switch ($group_by) {
             case '':
                 $query .= ' GROUP BY parts.id ORDER BY parts.name ASC';
-                if (isset($config['db']['limit']['search_parts']) && $config['db']['limit']['search_parts']>0) {
+                if ($search_value === null && isset($config['db']['limit']['search_parts'])
+                    && $config['db']['limit']['search_parts']>0) {
                     $query .= ' LIMIT '.$config['db']['limit']['search_parts'];
                 }
                 break;
 
             case 'categories':
                 $query .= ' GROUP BY parts.id ORDER BY categories.id, parts.name ASC';
-                if (isset($config['db']['limit']['search_parts']) && $config['db']['limit']['search_parts']>0) {
+                if ($search_value === null && isset($config['db']['limit']['search_parts'])
+                    && $config['db']['limit']['search_parts']>0) {
                     $query .= ' LIMIT '.$config['db']['limit']['search_parts'];
                 }
                 break;
@@ -2862,6 +2941,19 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
 
         $query_data = $database->query($query, $values);
 
+        if ($search_value !== null) {
+            $query_data = static::filterRowsByValue(
+                $query_data,
+                $search_value,
+                $part_name,
+                $part_description,
+                $part_comment
+            );
+            if (isset($config['db']['limit']['search_parts']) && $config['db']['limit']['search_parts']>0) {
+                $query_data = array_slice($query_data, 0, $config['db']['limit']['search_parts']);
+            }
+        }
+
         foreach ($query_data as $row) {
             $part = new Part($database, $current_user, $log, $row['id'], $row);
 
@@ -2884,6 +2976,44 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
         }
     }
 
+    /**
+     * Returns the rows of the parts table, whose name, description or comment contains the given value.
+     *
+     * @param array             $rows               the rows of the parts table
+     * @param EngineeringValue  $value              the value which is searched
+     * @param boolean           $part_name          if true, the name is searched
+     * @param boolean           $part_description   if true, the description is searched
+     * @param boolean           $part_comment       if true, the comment is searched
+     *
+     * @return array    the matching rows
+     */
+    private static function filterRowsByValue($rows, $value, $part_name, $part_description, $part_comment)
+    {
+        $columns = array();
+        if ($part_name) {
+            $columns[] = 'name';
+        }
+        if ($part_description) {
+            $columns[] = 'description';
+        }
+        if ($part_comment) {
+            $columns[] = 'comment';
+        }
+
+        $results = array();
+        foreach ($rows as $row) {
+            foreach ($columns as $column) {
+                foreach (EngineeringValue::findAll($row[$column]) as $found) {
+                    if ($found->isEqualTo($value)) {
+                        $results[] = $row;
+                        continue 3;
+                    }
+                }
+            }
+        }
+        return $results;
+    }
+
     /**
      * Build a template loop for a <select> list of group by options for the available group by options in part_search
      *
@@ -2962,6 +3092,311 @@ class Part extends Base\AttachementsContainingDBElement implements Interfaces\IA
         }
     }
 
+    /**
+     * Get the table columns, by which the parts can be sorted in getFilteredParts()
+     *
+     * @param User &$current_user   reference to the user which is logged in
+     *
+     * @return array    the SQL expressions to sort by, with the captions of the table columns (see config.php) as keys
+     */
+    public static function getSortableTableColumns(&$current_user)
+    {
+        $columns = array(
+            'id'                    => 'parts.id',
+            'name'                  => 'parts.name',
+            'name_description'      => 'parts.name',
+            'description'           => 'parts.description',
+            'comment'               => 'parts.comment',
+            'instock'               => 'parts.instock',
+            'instock_mininstock'    => 'parts.instock',
+            'mininstock'            => 'parts.mininstock',
+            'category'              => 'categories.name',
+            'footprint'             => 'footprints.name',
+            'manufacturer'          => 'manufacturers.name',
+            'storelocation'         => 'storelocations.name',
+            'last_modified'         => 'parts.last_modified',
+            'created'               => 'parts.datetime_added'
+        );
+
+        //Dont leak the prices by the sort order
+        if ($current_user->canDo(PermissionManager::PARTS_PRICES, CPartAttributePermission::READ)) {
+            $columns['average_single_price'] = static::getAveragePriceQuery();
+        }
+
+        return $columns;
+    }
+
+    /**
+     *  Get a page of all parts, which match the given filters
+     *
+     * This is used for the tables, which are paginated, sorted and filtered on the server (see api.php).
+     *
+     * @param Database  &$database              reference to the database object
+     * @param User      &$current_user          reference to the user which is logged in
+     * @param Log       &$log                   reference to the Log-object
+     * @param array     $filters                the filters, all of them are optional:
+     *                                          @li 'category' and 'footprint': the ID of the element
+     *                                              (subelements are included)
+     *                                          @li 'instock_min' and 'instock_max': the range of the instock
+     *                                          @li 'price_min' and 'price_max': the range of the average single price
+     *                                          @li 'keyword': a text, which must be in the name or the description
+     *                                          @li 'filter': a filter of the filter builder as array or JSON string
+     *                                              (see buildFilterCondition())
+     * @param string    $order_by               the caption of the table column to sort by
+     *                                          (see getSortableTableColumns())
+     * @param string    $order_dir              'asc' or 'desc'
+     * @param int       $offset                 the number of parts, which are skipped
+     * @param int       $limit                  the maximum number of returned parts. Set to 0 to disable the limit.
+     *
+     * @return array    an array with the keys 'count' (the number of all parts matching the filters)
+     *                  and 'parts' (the Part objects of the requested page)
+     *
+     * @throws Exception if the filters are not valid
+     * @throws Exception if there was an error
+     */
+    public static function getFilteredParts(
+        &$database,
+        &$current_user,
+        &$log,
+        $filters = array(),
+        $order_by = 'name',
+        $order_dir = 'asc',
+        $offset = 0,
+        $limit = 50
+    ) {
+        $current_user->tryDo(PermissionManager::PARTS, PartPermission::ALL_PARTS);
+
+        $sortable = static::getSortableTableColumns($current_user);
+        if (! isset($sortable[$order_by])) {
+            throw new Exception(sprintf(_('Nach der Spalte "%s" kann nicht sortiert werden!'), $order_by));
+        }
+        $order_dir = (strtolower($order_dir) == 'desc') ? 'DESC' : 'ASC';
+
+        $where = array();
+        $values = array();
+
+        $structural_filters = array(
+            'category' => array('class' => 'PartDB\\Category', 'column' => 'parts.id_category'),
+            'footprint' => array('class' => 'PartDB\\Footprint', 'column' => 'parts.id_footprint')
+        );
+        foreach ($structural_filters as $key => $filter) {
+            if (empty($filters[$key])) {
+                continue;
+            }
+            $ids = static::getSubtreeIDs($database, $current_user, $log, $filter['class'], (int) $filters[$key]);
+            $where[] = $filter['column'] . ' IN (' . implode(',', array_fill(0, count($ids), '?')) . ')';
+            $values = array_merge($values, $ids);
+        }
+
+        $range_filters = array(
+            'instock_min' => 'parts.instock >= ?',
+            'instock_max' => 'parts.instock <= ?',
+            'price_min' => static::getAveragePriceQuery() . ' >= ?',
+            'price_max' => static::getAveragePriceQuery() . ' <= ?'
+        );
+        foreach ($range_filters as $key => $condition) {
+            if (! isset($filters[$key]) || $filters[$key] === '' || $filters[$key] === null) {
+                continue;
+            }
+            if (! is_numeric($filters[$key])) {
+                throw new Exception(sprintf(_('Der Filterwert "%s" ist keine gültige Zahl!'), $filters[$key]));
+            }
+            if (strpos($key, 'price') === 0) {
+                $current_user->tryDo(PermissionManager::PARTS_PRICES, CPartAttributePermission::READ);
+            } elseif (! in_array('parts.instock <> ?', $where)) {
+                //Parts with unknown instock are in no stock range
+                $where[] = 'parts.instock <> ?';
+                $values[] = static::INSTOCK_UNKNOWN;
+            }
+            $where[] = $condition;
+            $values[] = $filters[$key];
+        }
+
+        if (isset($filters['keyword']) && trim($filters['keyword']) !== '') {
+            $where[] = '(parts.name LIKE ? OR parts.description LIKE ?)';
+            $keyword = '%' . str_replace('*', '%', trim($filters['keyword'])) . '%';
+            $values[] = $keyword;
+            $values[] = $keyword;
+        }
+
+        if (! empty($filters['filter'])) {
+            $filter = is_array($filters['filter']) ? $filters['filter'] : json_decode($filters['filter'], true);
+            $condition = static::buildFilterCondition($database, $current_user, $log, $filter, $values);
+            if ($condition !== '') {
+                $where[] = $condition;
+            }
+        }
+
+        $query = ' FROM parts'.
+            ' LEFT JOIN categories ON parts.id_category=categories.id'.
+            ' LEFT JOIN footprints ON parts.id_footprint=footprints.id'.
+            ' LEFT JOIN manufacturers ON parts.id_manufacturer=manufacturers.id'.
+            ' LEFT JOIN storelocations ON parts.id_storelocation=storelocations.id';
+        if (count($where) > 0) {
+            $query .= ' WHERE ' . implode(' AND ', $where);
+        }
+
+        $query_data = $database->query('SELECT count(parts.id) AS count' . $query, $values);
+        $count = (int) $query_data[0]['count'];
+
+        //Sort parts with the same value by name, so the pages are stable.
+        $query = 'SELECT parts.*' . $query . ' ORDER BY ' . $sortable[$order_by] . ' ' . $order_dir . ', parts.name, parts.id';
+        if ($limit > 0) {
+            $query .= ' LIMIT ' . max(0, (int) $offset) . ', ' . (int) $limit;
+        }
+
+        $parts = array();
+        foreach ($database->query($query, $values) as $row) {
+            $parts[] = new Part($database, $current_user, $log, $row['id'], $row);
+        }
+
+        return array('count' => $count, 'parts' => $parts);
+    }
+
+    /**
+     * Build the SQL condition for a filter of the filter builder (see filter_builder.ts)
+     *
+     * A filter is either a group of filters, which are combined with AND or OR:
+     *      array('group' => 'and', 'conditions' => array(...))
+     * or a condition for one field:
+     *      @li array('field' => 'category', 'value' => 3), also for 'footprint', 'manufacturer' and 'supplier'
+     *          (subelements are included)
+     *      @li array('field' => 'instock', 'operator' => '>=', 'value' => 10), also for 'price'
+     *          (the operators are '<', '<=', '=', '>=' and '>')
+     *      @li array('field' => 'obsolete', 'value' => true)
+     *      @li array('field' => 'text', 'value' => 'BC*'), the text must be in the name, the description or the comment
+     *
+     * @param Database  &$database      reference to the database object
+     * @param User      &$current_user  reference to the user which is logged in
+     * @param Log       &$log           reference to the Log-object
+     * @param array     $filter         the filter
+     * @param array     &$values        the values for the placeholders of the condition are appended to this array
+     * @param integer   $depth          the depth of the nested groups
+     *
+     * @return string   the SQL condition, or an empty string if the filter contains no conditions
+     *
+     * @throws Exception if the filter is not valid
+     */
+    private static function buildFilterCondition(&$database, &$current_user, &$log, $filter, &$values, $depth = 0)
+    {
+        if (! is_array($filter) || $depth > 5) {
+            throw new Exception(_('Der Filter ist ungültig!'));
+        }
+
+        if (isset($filter['group'])) {
+            if (! in_array($filter['group'], array('and', 'or'), true)
+                || ! isset($filter['conditions']) || ! is_array($filter['conditions'])) {
+                throw new Exception(_('Der Filter ist ungültig!'));
+            }
+            $conditions = array();
+            foreach ($filter['conditions'] as $subfilter) {
+                $condition = static::buildFilterCondition($database, $current_user, $log, $subfilter, $values, $depth + 1);
+                if ($condition !== '') {
+                    $conditions[] = $condition;
+                }
+            }
+            if (count($conditions) == 0) {
+                return '';
+            }
+            return '(' . implode(($filter['group'] == 'or') ? ' OR ' : ' AND ', $conditions) . ')';
+        }
+
+        $field = isset($filter['field']) ? (string) $filter['field'] : '';
+        $value = isset($filter['value']) ? $filter['value'] : null;
+
+        switch ($field) {
+            case 'category':
+            case 'footprint':
+            case 'manufacturer':
+            case 'supplier':
+                if ((int) $value <= 0) {
+                    return '';
+                }
+                $ids = static::getSubtreeIDs($database, $current_user, $log, 'PartDB\\' . ucfirst($field), (int) $value);
+                $values = array_merge($values, $ids);
+                $placeholders = implode(',', array_fill(0, count($ids), '?'));
+                if ($field == 'supplier') {
+                    return 'parts.id IN (SELECT part_id FROM orderdetails WHERE id_supplier IN (' . $placeholders . '))';
+                }
+                return 'parts.id_' . $field . ' IN (' . $placeholders . ')';
+
+            case 'instock':
+            case 'price':
+                $operator = isset($filter['operator']) ? (string) $filter['operator'] : '';
+                if (! in_array($operator, array('<', '<=', '=', '>=', '>'), true)) {
+                    throw new Exception(sprintf(_('Der Operator "%s" ist ungültig!'), $operator));
+                }
+                if (! is_numeric($value)) {
+                    throw new Exception(sprintf(_('Der Filterwert "%s" ist keine gültige Zahl!'), $value));
+                }
+                if ($field == 'price') {
+                    $current_user->tryDo(PermissionManager::PARTS_PRICES, CPartAttributePermission::READ);
+                    $values[] = $value;
+                    return static::getAveragePriceQuery() . ' ' . $operator . ' ?';
+                }
+                //Parts with unknown instock are in no stock range
+                $values[] = static::INSTOCK_UNKNOWN;
+                $values[] = $value;
+                return '(parts.instock <> ? AND parts.instock ' . $operator . ' ?)';
+
+            case 'obsolete':
+                //A part is obsolete, if all of its orderdetails are obsolete (see getObsoleteParts())
+                return 'parts.id ' . ($value ? '' : 'NOT ') . 'IN (SELECT part_id FROM orderdetails'.
+                    ' GROUP BY part_id HAVING SUM(obsolete = false) = 0)';
+
+            case 'text':
+                if (! is_string($value) || trim($value) === '') {
+                    return '';
+                }
+                $keyword = '%' . str_replace('*', '%', trim($value)) . '%';
+                $values[] = $keyword;
+                $values[] = $keyword;
+                $values[] = $keyword;
+                return '(parts.name LIKE ? OR parts.description LIKE ? OR parts.comment LIKE ?)';
+
+            default:
+                throw new Exception(sprintf(_('Nach dem Feld "%s" kann nicht gefiltert werden!'), $field));
+        }
+    }
+
+    /**
+     * Get the IDs of a structural element and all of its subelements
+     *
+     * @param Database  &$database      reference to the database object
+     * @param User      &$current_user  reference to the user which is logged in
+     * @param Log       &$log           reference to the Log-object
+     * @param string    $class          the class of the element (e.g. 'PartDB\\Category')
+     * @param integer   $id             the ID of the element
+     *
+     * @return integer[]    the IDs
+     *
+     * @throws Exception if there is no element with this ID
+     */
+    private static function getSubtreeIDs(&$database, &$current_user, &$log, $class, $id)
+    {
+        /** @var Base\StructuralDBElement $element */
+        $element = new $class($database, $current_user, $log, $id);
+        $ids = array($element->getID());
+        foreach ($element->getSubelements(true) as $subelement) {
+            $ids[] = $subelement->getID();
+        }
+        return $ids;
+    }
+
+    /**
+     * Get the SQL expression, which calculates the average price for one piece of a part (like getAveragePrice()).
+     * Obsolete orderdetails are ignored.
+     *
+     * @return string   the SQL subquery, it can be used in queries from the parts table.
+     */
+    private static function getAveragePriceQuery()
+    {
+        return '(SELECT AVG(pricedetails.price / pricedetails.price_related_quantity) FROM pricedetails'.
+            ' LEFT JOIN orderdetails ON pricedetails.orderdetails_id=orderdetails.id'.
+            ' WHERE orderdetails.part_id=parts.id AND orderdetails.obsolete=false'.
+            ' AND pricedetails.min_discount_quantity=1)';
+    }
+
     /**
      *  Create a new part
      *
@@ -0,0 +1,185 @@
+<?php
+/*
+    Part-DB Version 0.4+ "nextgen"
+    Copyright (C) 2017 Jan Böhmer
+    https://github.com/jbtronics
+
+    This program is free software; you can redistribute it and/or
+    modify it under the terms of the GNU General Public License
+    as published by the Free Software Foundation; either version 2
+    of the License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU General Public License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with this program; if not, write to the Free Software
+    Foundation, Inc., 51 Franklin Street, Fifth Floor, Boston, MA  02110-1301, USA
+*/
+
+namespace PartDB\PartProperty;
+
+/**
+ * A value in engineering notation, like it is written in the names and descriptions of parts.
+ * Understood are SI prefixes ("100nF", "2.2 µH"), RKM codes ("4k7", "1M5", "4R7"), units and tolerances ("10kΩ ±5%").
+ * The frontend uses the same notation (see ValueParser in templates/nextgen/ts_src/value_parser.ts).
+ */
+class EngineeringValue
+{
+    /**
+     * The regular expression for one value (without delimiters). Either a number with an optional prefix, or a RKM
+     * code, where the prefix (or a R) is used as decimal point. Both can be followed by a unit and a tolerance.
+     */
+    const PATTERN = '(?:(?P<number>\d+(?:[.,]\d+)?|[.,]\d+)\s*(?P<prefix>[pnuµμmkKMGT]?)|(?P<rkm_int>\d*)(?P<rkm>[pnuµμmkKMGTRr])(?P<rkm_frac>\d*))\s*(?P<unit>Ω|[Oo]hms?|Hz|F|H|V|A|W)?(?:\s*(?:±|\+\/?-)?\s*(?P<tolerance>\d+(?:[.,]\d+)?)\s*%)?';
+
+    /** @var array The exponents of the SI prefixes. */
+    private static $prefixes = array(
+        'p' => -12, 'n' => -9, 'u' => -6, 'µ' => -6, 'μ' => -6, 'm' => -3,
+        '' => 0, 'R' => 0, 'r' => 0, 'k' => 3, 'K' => 3, 'M' => 6, 'G' => 9, 'T' => 12
+    );
+
+    private $value;
+    private $unit;
+    private $tolerance;
+    private $raw_string;
+
+    /**
+     * Creates a new EngineeringValue object. Use parse() or findAll() to get the values of a string.
+     * @param $raw_string string The original (sub)string, where this value get extracted from. (e.g. "4k7")
+     * @param $value float The value in the base unit (e.g. 4700)
+     * @param $unit string The normalized unit (e.g. "Ω") or "" if no unit was given.
+     * @param $tolerance float|null The tolerance in percent or null if no tolerance was given.
+     */
+    public function __construct($raw_string, $value, $unit = '', $tolerance = null)
+    {
+        $this->raw_string = trim($raw_string);
+        $this->value = (float) $value;
+        $this->unit = (string) $unit;
+        $this->tolerance = $tolerance;
+    }
+
+    /**
+     * Returns the value in the base unit (e.g. 4700 for "4k7").
+     * @return float The value
+     */
+    public function getValue()
+    {
+        return $this->value;
+    }
+
+    /**
+     * Returns the unit of this value. The spellings of Ohm are normalized to "Ω".
+     * @return string The unit or "" if the value has no unit.
+     */
+    public function getUnit()
+    {
+        return $this->unit;
+    }
+
+    /**
+     * Returns the tolerance of this value.
+     * @return float|null The tolerance in percent, or null if no tolerance was given.
+     */
+    public function getTolerance()
+    {
+        return $this->tolerance;
+    }
+
+    /**
+     * Returns the string, where this value was parsed from.
+     * @return string The original string
+     */
+    public function getRawString()
+    {
+        return $this->raw_string;
+    }
+
+    /**
+     * Checks if this value is the same as the given one. The units are only compared if both values have a unit,
+     * so "10k" is equal to "10000 Ohm" and "10kΩ", but "10kΩ" is not equal to "10kHz".
+     * @param EngineeringValue $other The value which should be compared.
+     * @return bool True if the values are equal.
+     */
+    public function isEqualTo(EngineeringValue $other)
+    {
+        if ($this->unit !== '' && $other->unit !== '' && $this->unit !== $other->unit) {
+            return false;
+        }
+        //Ignore rounding errors of the parsing (e.g. 4.7 * 1000 = 4700.000000000001)
+        return abs($this->value - $other->value) <= 1e-9 * max(abs($this->value), abs($other->value));
+    }
+
+    /****************************************************************
+     * Parse functions
+     ****************************************************************/
+
+    /**
+     * Parses a string, which contains exactly one value (e.g. "4k7", "100nF" or "2.2 µH").
+     * @param $string string The string which should be parsed.
+     * @return EngineeringValue|null The value, or null if the string is not a value.
+     */
+    public static function parse($string)
+    {
+        if (! preg_match('/^\s*' . static::PATTERN . '\s*$/u', (string) $string, $match)) {
+            return null;
+        }
+        return static::fromMatch($match);
+    }
+
+    /**
+     * Finds all values in the given text (e.g. the name or the description of a part). Numbers, which are part of a
+     * word (like in "BC547"), are ignored.
+     * @param $text string The text which should be searched.
+     * @return EngineeringValue[] The found values in the order of the text.
+     */
+    public static function findAll($text)
+    {
+        $pattern = '/(?<![0-9A-Za-z.,])' . static::PATTERN . '(?![0-9A-Za-z])/u';
+        preg_match_all($pattern, (string) $text, $matches, PREG_SET_ORDER);
+
+        $values = array();
+        foreach ($matches as $match) {
+            $value = static::fromMatch($match);
+            if ($value !== null) {
+                $values[] = $value;
+            }
+        }
+        return $values;
+    }
+
+    /**
+     * Creates the object for a match of PATTERN.
+     * @param array $match The match of preg_match()
+     * @return EngineeringValue|null The value or null if the match is no value (e.g. a single "R" or "M3").
+     */
+    private static function fromMatch($match)
+    {
+        if (isset($match['number']) && $match['number'] !== '') {
+            $number = $match['number'];
+            $prefix = $match['prefix'];
+        } else {
+            //Only the R can be used without integer part (e.g. "R47"), otherwise names like "M3" would be values
+            if ($match['rkm_int'] === '' && ($match['rkm_frac'] === '' || strtoupper($match['rkm']) !== 'R')) {
+                return null;
+            }
+            $number = ($match['rkm_int'] !== '' ? $match['rkm_int'] : '0') . '.' . $match['rkm_frac'];
+            $prefix = $match['rkm'];
+        }
+        $value = (float) str_replace(',', '.', $number) * pow(10, static::$prefixes[$prefix]);
+
+        $unit = isset($match['unit']) ? $match['unit'] : '';
+        //The R of the RKM code means Ohm
+        if (strtolower(rtrim($unit, 's')) === 'ohm' || (strtoupper($prefix) === 'R' && $unit === '')) {
+            $unit = 'Ω';
+        }
+
+        $tolerance = null;
+        if (isset($match['tolerance']) && $match['tolerance'] !== '') {
+            $tolerance = (float) str_replace(',', '.', $match['tolerance']);
+        }
+
+        return new EngineeringValue($match[0], $value, $unit, $tolerance);
+    }
+}
@@ -266,7 +266,7 @@ class Storelocation extends Base\PartsContainingDBElement implements Interfaces\
                 return '$L' . $code;
 
             case "QR":
-                return "Part-DB; Part: " . $this->getID();
+                return "Part-DB; Storelocation: " . $this->getID();
 
             default:
                 throw new Exception(_("Label type unknown: ").$barcode_type);
@@ -0,0 +1,152 @@
+<?php
+
+namespace PartDB\Tools;
+
+use PartDB\Database;
+use PartDB\Permissions\PermissionManager;
+use PartDB\Permissions\StructuralPermission;
+use PartDB\User;
+
+/**
+ * Records the changes of the database elements, so the open pages of other users can be updated (see the
+ * "changes" route of the API and live_updates.ts).
+ * @package PartDB\Tools
+ */
+class ChangeFeed
+{
+    const CHANGE_CREATED = "created";
+    const CHANGE_UPDATED = "updated";
+    const CHANGE_DELETED = "deleted";
+
+    /** @var int The time in hours, how long the changes are kept. */
+    const KEEP_HOURS = 24;
+
+    /** @var bool|null True if the table of the changes exists (null if it was not checked yet) */
+    protected static $table_exists = null;
+
+    /** @var array The permission, which is needed to see the changes of a table. All of them have a "read" operation. */
+    protected static $read_permissions = array(
+        "parts" => PermissionManager::PARTS,
+        "orderdetails" => PermissionManager::PARTS_ORDERDETAILS,
+        "pricedetails" => PermissionManager::PARTS_PRICES,
+        "attachements" => PermissionManager::PARTS_ATTACHEMENTS,
+        "categories" => PermissionManager::CATEGORIES,
+        "storelocations" => PermissionManager::STORELOCATIONS,
+        "footprints" => PermissionManager::FOOTRPINTS,
+        "manufacturers" => PermissionManager::MANUFACTURERS,
+        "suppliers" => PermissionManager::SUPPLIERS,
+        "attachement_types" => PermissionManager::ATTACHEMENT_TYPES,
+        "devices" => PermissionManager::DEVICES,
+        "device_parts" => PermissionManager::DEVICE_PARTS,
+        "users" => PermissionManager::USERS,
+        "groups" => PermissionManager::GROUPS
+    );
+
+    /**
+     * Records a change of a database element.
+     * Errors are only logged, a change must not fail, because it could not be recorded.
+     * @param $database Database The database, where the change is recorded.
+     * @param $current_user User|null The user, who changed the element.
+     * @param $tablename string The table of the changed element (e.g. "parts").
+     * @param $id int The ID of the changed element.
+     * @param $change string The kind of the change, use the CHANGE_ consts.
+     */
+    public static function record(&$database, &$current_user, $tablename, $id, $change)
+    {
+        try {
+            //The table does not exist, before the database was updated
+            if (static::$table_exists === null) {
+                static::$table_exists = $database->doesTableExist("change_events", true);
+            }
+            if (!static::$table_exists) {
+                return;
+            }
+
+            $user_id = $current_user instanceof User ? $current_user->getID() : null;
+            $database->execute("INSERT INTO change_events (tablename, element_id, change_type, id_user)"
+                ." VALUES (?, ?, ?, ?)", array($tablename, $id, $change, $user_id));
+        } catch (\Exception $e) {
+            debug("warning", _("Die Änderung konnte nicht aufgezeichnet werden: ") . $e->getMessage(),
+                __FILE__, __LINE__, __METHOD__);
+        }
+    }
+
+    /**
+     * Returns the ID of the last change, so only newer changes can be requested with getChangesSince().
+     * @param $database Database
+     * @return int The ID of the last change (0 if there are no changes).
+     * @throws \Exception
+     */
+    public static function getLastID(&$database)
+    {
+        $data = $database->query("SELECT MAX(id) AS id FROM change_events");
+        return (int) $data[0]['id'];
+    }
+
+    /**
+     * Returns the tables, whose changes the user is allowed to see.
+     * @param $current_user User The user, who requests the changes.
+     * @return string[] The names of the tables.
+     */
+    public static function getReadableTables(&$current_user)
+    {
+        $tables = array();
+        foreach (static::$read_permissions as $tablename => $permission) {
+            if ($current_user->canDo($permission, StructuralPermission::READ)) {
+                $tables[] = $tablename;
+            }
+        }
+        return $tables;
+    }
+
+    /**
+     * Returns the changes, which were recorded after the given change, the oldest first.
+     * Only the changes of the tables, which the user is allowed to read, are returned (see getReadableTables()).
+     * @param $database Database
+     * @param $current_user User The user, who requests the changes.
+     * @param $last_id int The ID of the last change, which is already known.
+     * @param int $limit The maximum count of changes.
+     * @return array An array with the "id" of the change, the "table", the "element_id", the kind of the "change"
+     *      and "own" (true if the change was made by the current user) of every change.
+     * @throws \Exception
+     */
+    public static function getChangesSince(&$database, &$current_user, $last_id, $limit = 100)
+    {
+        if (!is_int($limit)) {
+            throw new \InvalidArgumentException(_('$limit muss eine Integerzahl sein!)'));
+        }
+
+        $tables = static::getReadableTables($current_user);
+        if (count($tables) == 0) {
+            return array();
+        }
+
+        $placeholders = implode(", ", array_fill(0, count($tables), "?"));
+        $data = $database->query("SELECT id, tablename, element_id, change_type, id_user FROM change_events"
+            ." WHERE id > ? AND tablename IN ($placeholders) ORDER BY id ASC LIMIT $limit",
+            array_merge(array($last_id), $tables));
+
+        $changes = array();
+        foreach ($data as $row) {
+            $changes[] = array(
+                "id" => (int) $row['id'],
+                "table" => $row['tablename'],
+                "element_id" => (int) $row['element_id'],
+                "change" => $row['change_type'],
+                "own" => $row['id_user'] !== null && (int) $row['id_user'] == $current_user->getID()
+            );
+        }
+        return $changes;
+    }
+
+    /**
+     * Deletes the changes, which are older than KEEP_HOURS.
+     * @param $database Database
+     * @throws \Exception
+     */
+    public static function deleteOldChanges(&$database)
+    {
+        $database->execute("DELETE FROM change_events WHERE datetime < DATE_SUB(NOW(), INTERVAL "
+            . static::KEEP_HOURS . " HOUR)");
+    }
+}
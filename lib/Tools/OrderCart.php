@@ -0,0 +1,340 @@
+<?php
+
+namespace PartDB\Tools;
+
+use Exception;
+use PartDB\Database;
+use PartDB\Log;
+use PartDB\Part;
+use PartDB\Permissions\PartAttributePermission;
+use PartDB\Permissions\PermissionManager;
+use PartDB\User;
+
+/**
+ * The order cart groups the parts to order by the supplier of their selected orderdetails (see show_order_parts.php
+ * and order_cart.ts). The order quantities are rounded up to the packaging units and to cheaper price breaks.
+ * @package PartDB\Tools
+ */
+class OrderCart
+{
+    const STATUS_OPEN = "open";
+    const STATUS_ORDERED = "ordered";
+
+    /** The quantity was raised to the minimum quantity of the first price break. */
+    const REASON_MINIMUM = "minimum";
+    /** The quantity was rounded up to a multiple of the packaging unit. */
+    const REASON_PACKAGING = "packaging";
+    /** The quantity was raised to a price break, because the bigger quantity is cheaper in total. */
+    const REASON_PRICE_BREAK = "price_break";
+
+    /** @var array The formats of the order files, which can be uploaded to the suppliers. */
+    protected static $export_formats = array(
+        "csv" => array("delimiter" => ",", "header" => array("Part Number", "Quantity", "Customer Reference")),
+        "csv_semicolon" => array("delimiter" => ";", "header" => array("Artikelnummer", "Menge", "Referenz")),
+        "quick_order" => array("delimiter" => ",", "header" => null),
+    );
+
+    /**
+     * Returns the parts to order, grouped by their supplier.
+     * @param $database Database
+     * @param $current_user User
+     * @param $log Log
+     * @return array An array with the "total" price, the "total_string" (incl. currency) and the "groups".
+     *      Every group contains the "supplier" (null for parts without selected orderdetails), its "lines" (see
+     *      buildLine()), its "total" and "total_string" and "missing_prices" (true if not all lines have a price).
+     * @throws Exception
+     */
+    public static function getCart(&$database, &$current_user, &$log)
+    {
+        $groups = array();
+        foreach (Part::getOrderParts($database, $current_user, $log) as $part) {
+            /** @var Part $part */
+            $orderdetails = $part->getOrderOrderdetails();
+            $supplier = is_object($orderdetails) ? $orderdetails->getSupplier() : null;
+            $key = is_object($supplier) ? $supplier->getID() : 0;
+
+            if (!isset($groups[$key])) {
+                $groups[$key] = array(
+                    "supplier" => is_object($supplier) ? array("id" => $supplier->getID(),
+                        "name" => $supplier->getFullPath()) : null,
+                    "lines" => array(),
+                    "total" => 0.0,
+                    "missing_prices" => false
+                );
+            }
+
+            $line = static::buildLine($part);
+            $groups[$key]["lines"][] = $line;
+            if ($line["total"] === null) {
+                $groups[$key]["missing_prices"] = true;
+            } else {
+                $groups[$key]["total"] += $line["total"];
+            }
+        }
+
+        // sorted by the name of the supplier, the parts without supplier at the end
+        uasort($groups, function ($a, $b) {
+            if ($a["supplier"] === null || $b["supplier"] === null) {
+                return ($a["supplier"] === null) - ($b["supplier"] === null);
+            }
+            return strcasecmp($a["supplier"]["name"], $b["supplier"]["name"]);
+        });
+
+        $total = 0.0;
+        foreach ($groups as &$group) {
+            $group["total_string"] = floatToMoneyString($group["total"]);
+            $total += $group["total"];
+        }
+        unset($group);
+
+        return array("total" => $total,
+            "total_string" => floatToMoneyString($total),
+            "groups" => array_values($groups));
+    }
+
+    /**
+     * Returns the lines of the cart, which belong to the given supplier.
+     * @param $database Database
+     * @param $current_user User
+     * @param $log Log
+     * @param $supplier_id int The ID of the supplier (0 for the parts without selected orderdetails).
+     * @param $part_ids int[] Only the lines of these parts are returned (all lines if the array is empty).
+     * @return array The lines (see buildLine()).
+     * @throws Exception
+     */
+    public static function getSupplierLines(&$database, &$current_user, &$log, $supplier_id, $part_ids = array())
+    {
+        $supplier_ids = $supplier_id > 0 ? array($supplier_id) : array(null);
+
+        $lines = array();
+        foreach (Part::getOrderParts($database, $current_user, $log, $supplier_ids) as $part) {
+            /** @var Part $part */
+            if (empty($part_ids) || in_array($part->getID(), $part_ids)) {
+                $lines[] = static::buildLine($part);
+            }
+        }
+        return $lines;
+    }
+
+    /**
+     * Rounds the quantity up to the packaging unit and to the price breaks.
+     * Price breaks with a bigger quantity are used, if the bigger quantity is cheaper in total (e.g. 100 parts for
+     * 0.01 each are cheaper than 90 parts for 0.02 each).
+     * @param $quantity int The quantity, which is needed at least.
+     * @param $packaging_unit int The parts can only be ordered in multiples of this unit.
+     * @param $price_breaks array The price breaks as arrays with the "min_quantity" and the single "price",
+     *      sorted by the min_quantity.
+     * @return array The rounded "quantity", the "single_price" for it (null if there are no price breaks) and the
+     *      "reasons" for the rounding (see the REASON_ consts).
+     */
+    public static function roundQuantity($quantity, $packaging_unit, $price_breaks)
+    {
+        $packaging_unit = max((int) $packaging_unit, 1);
+        $reasons = array();
+
+        $quantity = max((int) $quantity, 1);
+        if (count($price_breaks) > 0 && $quantity < $price_breaks[0]["min_quantity"]) {
+            $quantity = (int) $price_breaks[0]["min_quantity"];
+            $reasons[] = static::REASON_MINIMUM;
+        }
+
+        $rounded = static::roundUp($quantity, $packaging_unit);
+        if ($rounded != $quantity) {
+            $quantity = $rounded;
+            $reasons[] = static::REASON_PACKAGING;
+        }
+
+        $single_price = static::getSinglePrice($quantity, $price_breaks);
+        foreach ($price_breaks as $price_break) {
+            if ($price_break["min_quantity"] <= $quantity) {
+                continue;
+            }
+            $candidate = static::roundUp($price_break["min_quantity"], $packaging_unit);
+            $candidate_price = static::getSinglePrice($candidate, $price_breaks);
+            if ($candidate * $candidate_price < $quantity * $single_price) {
+                $quantity = $candidate;
+                $single_price = $candidate_price;
+                if (!in_array(static::REASON_PRICE_BREAK, $reasons)) {
+                    $reasons[] = static::REASON_PRICE_BREAK;
+                }
+            }
+        }
+
+        return array("quantity" => $quantity, "single_price" => $single_price, "reasons" => $reasons);
+    }
+
+    /**
+     * Returns the names of the formats, which can be passed to export().
+     * @return array The names of the formats, the keys are the format IDs.
+     */
+    public static function getExportFormats()
+    {
+        return array(
+            "csv" => _("CSV mit Komma (z.B. Digi-Key, Mouser, Farnell)"),
+            "csv_semicolon" => _("CSV mit Semikolon (z.B. Reichelt)"),
+            "quick_order" => _("Bestellnummer und Menge (Schnellbestellung)"),
+        );
+    }
+
+    /**
+     * Generates an order file with the supplier part numbers, which can be uploaded to the supplier.
+     * @param $lines array The lines, which should be ordered (see getSupplierLines()).
+     * @param $format string The ID of the format (see getExportFormats()).
+     * @return string The content of the file.
+     * @throws Exception If the format is unknown.
+     */
+    public static function export($lines, $format)
+    {
+        if (!isset(static::$export_formats[$format])) {
+            throw new Exception(_("Unbekanntes Exportformat!"));
+        }
+        $delimiter = static::$export_formats[$format]["delimiter"];
+
+        $handle = fopen("php://temp", "r+");
+        if (static::$export_formats[$format]["header"] !== null) {
+            fputcsv($handle, static::$export_formats[$format]["header"], $delimiter);
+        }
+        foreach ($lines as $line) {
+            $row = array($line["supplierpartnr"], $line["quantity"]);
+            if (static::$export_formats[$format]["header"] !== null) {
+                $row[] = $line["part"]["name"];
+            }
+            fputcsv($handle, $row, $delimiter);
+        }
+        rewind($handle);
+        $content = stream_get_contents($handle);
+        fclose($handle);
+
+        return $content;
+    }
+
+    /**
+     * Marks the parts as ordered or as not ordered (anymore).
+     * @param $database Database
+     * @param $current_user User
+     * @param $log Log
+     * @param $part_ids int[] The IDs of the parts.
+     * @param $ordered bool True if the parts were ordered.
+     * @throws Exception
+     */
+    public static function markOrdered(&$database, &$current_user, &$log, $part_ids, $ordered)
+    {
+        $current_user->tryDo(PermissionManager::PARTS_ORDER, PartAttributePermission::EDIT);
+
+        $transaction_id = $database->beginTransaction();
+        try {
+            foreach ($part_ids as $id) {
+                $part = new Part($database, $current_user, $log, $id);
+                $part->setOrdered($ordered);
+            }
+            $database->commit($transaction_id);
+        } catch (Exception $e) {
+            $database->rollback();
+            throw $e;
+        }
+    }
+
+    /**
+     * Books the ordered quantities of the parts into the stock and removes the parts from the cart.
+     * @param $database Database
+     * @param $current_user User
+     * @param $log Log
+     * @param $part_ids int[] The IDs of the parts.
+     * @throws Exception
+     */
+    public static function markReceived(&$database, &$current_user, &$log, $part_ids)
+    {
+        $current_user->tryDo(PermissionManager::PARTS_ORDER, PartAttributePermission::EDIT);
+        $current_user->tryDo(PermissionManager::PARTS_INSTOCK, PartAttributePermission::EDIT);
+
+        $transaction_id = $database->beginTransaction();
+        try {
+            foreach ($part_ids as $id) {
+                $part = new Part($database, $current_user, $log, $id);
+                if ($part->isInstockUnknown()) {
+                    throw new Exception(sprintf(_('Der Lagerbestand von "%s" ist unbekannt!'), $part->getName()));
+                }
+                $line = static::buildLine($part);
+                $part->setAttributes(array("instock" => $part->getInstock() + $line["quantity"],
+                    "manual_order" => false,
+                    "datetime_ordered" => null));
+            }
+            $database->commit($transaction_id);
+        } catch (Exception $e) {
+            $database->rollback();
+            throw $e;
+        }
+    }
+
+    /**
+     * Builds a line of the cart.
+     * The needed quantity is the order quantity of the part, but at least the quantity, which is missing in the stock.
+     * @param $part Part
+     * @return array
+     * @throws Exception
+     */
+    protected static function buildLine(Part $part)
+    {
+        $orderdetails = $part->getOrderOrderdetails();
+        $needed = max($part->getOrderQuantity(), $part->getMinOrderQuantity(), 1);
+
+        $price_breaks = array();
+        $packaging_unit = 1;
+        if (is_object($orderdetails)) {
+            $packaging_unit = $orderdetails->getPackagingUnit();
+            foreach ($orderdetails->getPricedetails() as $pricedetails) {
+                $price_breaks[] = array("min_quantity" => (int) $pricedetails->getMinDiscountQuantity(),
+                    "price" => (float) $pricedetails->getPrice(false, 1));
+            }
+        }
+        $rounded = static::roundQuantity($needed, $packaging_unit, $price_breaks);
+        $total = $rounded["single_price"] === null ? null : $rounded["single_price"] * $rounded["quantity"];
+
+        return array(
+            "part" => array("id" => $part->getID(),
+                "name" => $part->getName(),
+                "description" => $part->getDescription()),
+            "supplierpartnr" => is_object($orderdetails) ? $orderdetails->getSupplierPartNr() : "",
+            "supplier_product_url" => is_object($orderdetails) ? $orderdetails->getSupplierProductUrl() : "",
+            "needed" => $needed,
+            "quantity" => $rounded["quantity"],
+            "packaging_unit" => $packaging_unit,
+            "reasons" => $rounded["reasons"],
+            "single_price" => $rounded["single_price"],
+            "single_price_string" => floatToMoneyString($rounded["single_price"]),
+            "total" => $total,
+            "total_string" => floatToMoneyString($total),
+            "status" => $part->getDatetimeOrdered(false) !== null ? static::STATUS_ORDERED : static::STATUS_OPEN,
+            "datetime_ordered" => $part->getDatetimeOrdered()
+        );
+    }
+
+    /**
+     * Returns the single price of the price break, which is valid for the quantity.
+     * @param $quantity int
+     * @param $price_breaks array (see roundQuantity())
+     * @return float|null The price or null if there is no valid price break.
+     */
+    protected static function getSinglePrice($quantity, $price_breaks)
+    {
+        $price = null;
+        foreach ($price_breaks as $price_break) {
+            if ($quantity < $price_break["min_quantity"]) {
+                break;
+            }
+            $price = (float) $price_break["price"];
+        }
+        return $price;
+    }
+
+    /**
+     * Rounds the quantity up to the next multiple of the unit.
+     * @param $quantity int
+     * @param $unit int
+     * @return int
+     */
+    protected static function roundUp($quantity, $unit)
+    {
+        return (int) (ceil($quantity / $unit) * $unit);
+    }
+}
@@ -11,6 +11,7 @@ namespace PartDB\Tools;
 
 use PartDB\Database;
 use PartDB\Log;
+use PartDB\Part;
 use PartDB\User;
 
 class StatisticsHelpers
@@ -51,7 +52,7 @@ class StatisticsHelpers
             throw new \InvalidArgumentException(_('$limit muss eine Integerzahl sein!)'));
         }
 
-        $query = "SELECT categories.name AS name, COUNT(parts.id_category) AS count FROM categories, parts"
+        $query = "SELECT categories.id AS id, categories.name AS name, COUNT(parts.id_category) AS count FROM categories, parts"
          ." WHERE categories.id = parts.id_category GROUP BY parts.id_category ORDER BY count DESC LIMIT $limit";
         $values = array();
 
@@ -64,7 +65,7 @@ class StatisticsHelpers
             throw new \InvalidArgumentException(_('$limit muss eine Integerzahl sein!)'));
         }
 
-        $query = "SELECT storelocations.name AS name, COUNT(parts.id_storelocation) AS count FROM storelocations, parts"
+        $query = "SELECT storelocations.id AS id, storelocations.name AS name, COUNT(parts.id_storelocation) AS count FROM storelocations, parts"
             ." WHERE storelocations.id = parts.id_storelocation GROUP BY parts.id_storelocation ORDER BY count DESC LIMIT $limit";
         $values = array();
 
@@ -77,7 +78,7 @@ class StatisticsHelpers
             throw new \InvalidArgumentException(_('$limit muss eine Integerzahl sein!)'));
         }
 
-        $query = "SELECT footprints.name AS name, COUNT(parts.id_footprint) AS count FROM footprints, parts"
+        $query = "SELECT footprints.id AS id, footprints.name AS name, COUNT(parts.id_footprint) AS count FROM footprints, parts"
             ." WHERE footprints.id = parts.id_footprint GROUP BY parts.id_footprint ORDER BY count DESC LIMIT $limit";
         $values = array();
 
@@ -90,7 +91,7 @@ class StatisticsHelpers
             throw new \InvalidArgumentException(_('$limit muss eine Integerzahl sein!)'));
         }
 
-        $query = "SELECT manufacturers.name AS name, COUNT(parts.id_manufacturer) AS count FROM manufacturers, parts"
+        $query = "SELECT manufacturers.id AS id, manufacturers.name AS name, COUNT(parts.id_manufacturer) AS count FROM manufacturers, parts"
             ." WHERE manufacturers.id = parts.id_manufacturer GROUP BY parts.id_manufacturer ORDER BY count DESC LIMIT $limit";
         $values = array();
 
@@ -99,12 +100,58 @@ class StatisticsHelpers
 
     public function getPartsWithMostInstock($limit = 25)
     {
-        $query = "SELECT parts.name AS name, parts.instock AS count FROM parts ORDER BY count DESC LIMIT $limit";
+        $query = "SELECT parts.id AS id, parts.name AS name, parts.instock AS count FROM parts ORDER BY count DESC LIMIT $limit";
         $values = array();
 
         return $this->database->query($query, $values);
     }
 
+    /**
+     * Saves the current count of parts, the count of the parts in stock and their value, so the history can be shown
+     * in the statistics. Only one snapshot is saved per day, further calls on the same day update it.
+     * @throws \Exception
+     */
+    public function saveSnapshot()
+    {
+        $values = array(Part::getCount($this->database), Part::getSumCountInstock($this->database),
+            Part::getSumPriceInstock($this->database, $this->current_user, $this->log, false));
+
+        $today = $this->database->query("SELECT id FROM statistics_snapshots WHERE DATE(datetime) = CURDATE()");
+        if (count($today) > 0) {
+            $values[] = $today[0]['id'];
+            $this->database->execute("UPDATE statistics_snapshots SET datetime = NOW(), parts_count = ?,"
+                ." instock_count = ?, value = ? WHERE id = ?", $values);
+        } else {
+            $this->database->execute("INSERT INTO statistics_snapshots (parts_count, instock_count, value)"
+                ." VALUES (?, ?, ?)", $values);
+        }
+    }
+
+    /**
+     * Returns the snapshots of the last days (see saveSnapshot()), the oldest one first.
+     * @param int $days The count of days.
+     * @return array An array with the "date" (Y-m-d), "parts_count", "instock_count" and "value" of every snapshot.
+     * @throws \Exception
+     */
+    public function getSnapshots($days = 90)
+    {
+        if(!is_int($days)) {
+            throw new \InvalidArgumentException(_('$days muss eine Integerzahl sein!)'));
+        }
+
+        $query = "SELECT DATE(datetime) AS date, parts_count, instock_count, value FROM statistics_snapshots"
+            ." WHERE datetime >= DATE_SUB(NOW(), INTERVAL $days DAY) ORDER BY datetime ASC";
+
+        $snapshots = $this->database->query($query);
+        foreach ($snapshots as &$snapshot) {
+            $snapshot['parts_count'] = (int) $snapshot['parts_count'];
+            $snapshot['instock_count'] = (int) $snapshot['instock_count'];
+            $snapshot['value'] = (float) $snapshot['value'];
+        }
+
+        return $snapshots;
+    }
+
     public static function arrayToChartJSData($array, $label, $bg_color = self::COLOR_BLUE)
     {
         //Split array in name and count section
@@ -50,6 +50,9 @@ class User extends Base\NamedDBElement implements ISearchable, IHasPermissions
     /** The user id of the main admin user */
     const ID_ADMIN          = 2;
 
+    /** The name of the cookie, which marks that the browser was logged in (needed to detect expired sessions) */
+    const COOKIE_LOGGED_IN  = 'Part-DB-loggedin';
+
     /********************************************************************************
      *
      *   Calculated Attributes
@@ -324,6 +327,35 @@ class User extends Base\NamedDBElement implements ISearchable, IHasPermissions
         }
     }
 
+    /**
+     * Gets all settings of the user interface (e.g. the keymap), which the user has saved.
+     * @return array An associative array with the settings (key => value). Empty if nothing was saved yet.
+     */
+    public function getUISettings()
+    {
+        if (!$this->isLoggedInUser()
+            && !$this->current_user->canDo(PermissionManager::USERS, UserPermission::READ)) {
+            return array();
+        }
+        if (empty($this->db_data['config_ui_settings'])) {
+            return array();
+        }
+        $settings = json_decode($this->db_data['config_ui_settings'], true);
+        return is_array($settings) ? $settings : array();
+    }
+
+    /**
+     * Gets a single setting of the user interface.
+     * @param $key string The key of the setting (e.g. "keymap").
+     * @param mixed $default The value which is returned, when the user has not saved this setting yet.
+     * @return mixed The value of the setting.
+     */
+    public function getUISetting($key, $default = null)
+    {
+        $settings = $this->getUISettings();
+        return array_key_exists($key, $settings) ? $settings[$key] : $default;
+    }
+
     /**
      * Checks if a given password, is valid for this account.
      * @param $password string The password which should be checked.
@@ -475,6 +507,23 @@ class User extends Base\NamedDBElement implements ISearchable, IHasPermissions
         $this->setAttributes(array('config_timezone' => $new_timezone));
     }
 
+    /**
+     * Saves a setting of the user interface.
+     * @param $key string The key of the setting (e.g. "keymap").
+     * @param $value mixed The new value. It must be encodable as JSON. Set to null to remove the setting, so the
+     *      default is used again.
+     */
+    public function setUISetting($key, $value)
+    {
+        $settings = $this->getUISettings();
+        if ($value === null) {
+            unset($settings[$key]);
+        } else {
+            $settings[$key] = $value;
+        }
+        $this->setAttributes(array('config_ui_settings' => json_encode($settings)));
+    }
+
     /**
      * Returns the full name in the format FIRSTNAME LASTNAME [(USERNAME)].
      * Example: Max Muster (m.muster)
@@ -583,6 +632,9 @@ class User extends Base\NamedDBElement implements ISearchable, IHasPermissions
             if (isset($new_values['config_language'])) {
                 $arr['config_language'] = $new_values['config_language'];
             }
+            if (isset($new_values['config_ui_settings'])) {
+                $arr['config_ui_settings'] = $new_values['config_ui_settings'];
+            }
         }
 
         if ($this->current_user->canDo(PermissionManager::USERS, UserPermission::EDIT_USERNAME)) {
@@ -635,6 +687,9 @@ class User extends Base\NamedDBElement implements ISearchable, IHasPermissions
             if (isset($new_values['config_language'])) {
                 $arr['config_language'] = $new_values['config_language'];
             }
+            if (isset($new_values['config_ui_settings'])) {
+                $arr['config_ui_settings'] = $new_values['config_ui_settings'];
+            }
         }
 
         if (!empty($arr)) {
@@ -919,6 +974,8 @@ class User extends Base\NamedDBElement implements ISearchable, IHasPermissions
         @session_start();
         $_SESSION['user'] = $user->getID();
         session_write_close();
+        //The cookie outlives the session data on the server, so an expired session can be detected.
+        setcookie(static::COOKIE_LOGGED_IN, '1', 0, '/');
         return true;
     }
 
@@ -931,9 +988,29 @@ class User extends Base\NamedDBElement implements ISearchable, IHasPermissions
         @session_start();
         $_SESSION['user'] = static::ID_ANONYMOUS;
         session_write_close();
+        static::forgetLogin();
         return true;
     }
 
+    /**
+     * Checks if the session of the user has expired: The browser was logged in, but the session does not contain a
+     * logged in user anymore (e.g. because it was deleted by the garbage collector of PHP).
+     * @return boolean True, if the session has expired.
+     */
+    public static function isSessionExpired()
+    {
+        return isset($_COOKIE[static::COOKIE_LOGGED_IN]) && !static::isLoggedIn();
+    }
+
+    /**
+     * Removes the mark, that the browser was logged in. Afterwards isSessionExpired() returns false.
+     */
+    public static function forgetLogin()
+    {
+        setcookie(static::COOKIE_LOGGED_IN, '', time() - 3600, '/');
+        unset($_COOKIE[static::COOKIE_LOGGED_IN]);
+    }
+
     /**
      * Builds a HTML List of <option> elemements for an <select> element, showing all users.
      * @param $database Database The database which should be used for requests.
@@ -48,6 +48,11 @@ if (User::isLoggedIn() && $logout == false) {
     $action = "redirect";
 }
 
+//The user has seen the login page now, so he can continue as anonymous user, if he does not log in again.
+if (User::isSessionExpired()) {
+    User::forgetLogin();
+}
+
 $html = new HTML($config['html']['theme'], $user_config['theme'], $config['partdb_title'] . " - " . _('Login'));
 
 try {
@@ -0,0 +1,46 @@
+<?php
+/*
+    Part-DB Version 0.4+ "nextgen"
+    Copyright (C) 2017 Jan Böhmer
+    https://github.com/jbtronics
+
+    This program is free software; you can redistribute it and/or
+    modify it under the terms of the GNU General Public License
+    as published by the Free Software Foundation; either version 2
+    of the License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU General Public License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with this program; if not, write to the Free Software
+    Foundation, Inc., 51 Franklin Street, Fifth Floor, Boston, MA  02110-1301, USA
+*/
+
+/**
+ * @file service_worker.php
+ *
+ * @brief Delivers the service worker script of the theme.
+ *
+ * The service worker must be served from the base path of Part-DB, so it can control all pages. The compiled
+ * script itself lives in the template folder, so we pass it through here.
+ */
+
+include_once('start_session.php');
+
+$script = BASE . '/templates/' . $config['html']['theme'] . '/js/'
+    . ($config['debug']['enable'] ? 'service_worker.js' : 'service_worker.min.js');
+
+if (!$config['offline']['enable'] || !is_readable($script)) {
+    http_response_code(404);
+    exit;
+}
+
+header('Content-Type: application/javascript; charset=utf-8');
+//The browser checks for a new version of the service worker itself, so dont let it cache this file.
+header('Cache-Control: no-cache');
+header('Service-Worker-Allowed: ' . BASE_RELATIVE . '/');
+
+readfile($script);
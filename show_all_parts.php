@@ -32,6 +32,7 @@ use PartDB\Permissions\PartAttributePermission;
 use PartDB\Permissions\PartPermission;
 use PartDB\Permissions\PermissionManager;
 use PartDB\Storelocation;
+use PartDB\Supplier;
 use PartDB\User;
 
 $messages = array();
@@ -52,6 +53,14 @@ $table_rowcount     = isset($_REQUEST['table_rowcount'])    ? (integer)$_REQUEST
 $page               = isset($_REQUEST['page'])              ? (integer)$_REQUEST['page']            : 1;
 $limit              = isset($_REQUEST['limit'])             ? (integer)$_REQUEST['limit']           : $config['table']['default_limit'];
 
+// the state of the table, if it is loaded from the server page by page
+$order              = isset($_REQUEST['order'])             ? (string)$_REQUEST['order']            : 'name';
+$order_dir          = isset($_REQUEST['dir'])               ? (string)$_REQUEST['dir']              : 'asc';
+$filters = array();
+foreach (array('category', 'footprint', 'instock_min', 'instock_max', 'price_min', 'price_max', 'keyword', 'filter') as $filter) {
+    $filters[$filter] = isset($_REQUEST[$filter]) ? (string)$_REQUEST[$filter] : '';
+}
+
 $action = 'default';
 
 if (isset($_REQUEST["multi_action"])) {
@@ -168,11 +177,48 @@ if (isset($reload_site) && $reload_site && (! $config['debug']['request_debuggin
 
 if (! $fatal_error) {
     try {
-        $parts = Part::getAllParts($database, $current_user, $log, "", $limit, $page);
+        if ($config['table']['server_side']) {
+            // only the table header is printed here, the rows are loaded via the API (see parts_table.ts)
+            $parts = array();
+            $sortable_columns = Part::getSortableTableColumns($current_user);
+            $columns = array();
+            foreach (explode(';', $config['table']['all_parts']['columns']) as $caption) {
+                if (($caption == 'footprint' && $config['footprints']['disable'])
+                    || ($caption == 'manufacturer' && $config['manufacturers']['disable'])
+                    || ($caption == 'datasheets' && $config['auto_datasheets']['disable'])) {
+                    continue; // these columns are not printed by smarty_table.tpl
+                }
+                $columns[] = array('caption' => $caption, 'sortable' => isset($sortable_columns[$caption]));
+            }
+
+            $html->setVariable('table_server_side', true, 'boolean');
+            $html->setVariable('table_columns', json_encode($columns));
+            $html->setVariable('table_page', $page, 'integer');
+            $html->setVariable('table_limit', $limit, 'integer');
+            $html->setVariable('table_order', $order);
+            $html->setVariable('table_order_dir', $order_dir);
+            foreach ($filters as $filter => $value) {
+                $html->setVariable('filter_' . $filter, $value);
+            }
+
+            $root_category = new Category($database, $current_user, $log, 0);
+            $html->setVariable('filter_categories_list', $root_category->buildHtmlTree((int) $filters['category'], true, false));
+            $root_footprint = new Footprint($database, $current_user, $log, 0);
+            $html->setVariable('filter_footprints_list', $root_footprint->buildHtmlTree((int) $filters['footprint'], true, false));
+            // the options of the filter builder
+            $html->setVariable('filter_builder_categories_list', $root_category->buildHtmlTree(0, true, false));
+            $html->setVariable('filter_builder_footprints_list', $root_footprint->buildHtmlTree(0, true, false));
+            $root_manufacturer = new Manufacturer($database, $current_user, $log, 0);
+            $html->setVariable('filter_builder_manufacturers_list', $root_manufacturer->buildHtmlTree(0, true, false));
+            $root_supplier = new Supplier($database, $current_user, $log, 0);
+            $html->setVariable('filter_builder_suppliers_list', $root_supplier->buildHtmlTree(0, true, false));
+        } else {
+            $parts = Part::getAllParts($database, $current_user, $log, "", $limit, $page);
+            $html->setLoop("pagination", generatePagination("show_all_parts.php?", $page, $limit, Part::getCount($database)));
+        }
         $table_loop = Part::buildTemplateTableArray($parts, 'all_parts');
         $html->setVariable('table_rowcount', count($parts), 'integer');
         $html->setLoop('table', $table_loop);
-        $html->setLoop("pagination", generatePagination("show_all_parts.php?", $page, $limit, Part::getCount($database)));
         $html->setVariable("page", $page);
         $html->setVariable('limit', $limit);
     } catch (Exception $e) {
@@ -629,6 +629,8 @@ if (! $fatal_error) {
         $html->setLoop('table', $device_parts_loop);
         $html->printTemplate('device_parts');
 
+        $html->printTemplate('build_planner');
+
         if (isset($comment)) {
             $html->setVariable('comment', $comment);
             $html->printTemplate('comment');
@@ -31,6 +31,7 @@ use PartDB\Device;
 use PartDB\HTML;
 use PartDB\Log;
 use PartDB\Part;
+use PartDB\Permissions\PartAttributePermission;
 use PartDB\Permissions\PartPermission;
 use PartDB\Permissions\PermissionManager;
 use PartDB\Supplier;
@@ -325,6 +326,9 @@ if (! $fatal_error) {
         $html->setVariable('disable_manufacturers', $config['manufacturers']['disable'], 'boolean');
         $html->setVariable('disable_auto_datasheets', $config['auto_datasheets']['disable'], 'boolean');
 
+        $html->setVariable('can_part_order', $current_user->canDo(PermissionManager::PARTS_ORDER, PartAttributePermission::EDIT));
+        $html->setVariable('can_part_instock', $current_user->canDo(PermissionManager::PARTS_INSTOCK, PartAttributePermission::EDIT));
+
         $html->setVariable('use_modal_popup', $config['popup']['modal'], 'boolean');
         $html->setVariable('popup_width', $config['popup']['width'], 'integer');
         $html->setVariable('popup_height', $config['popup']['height'], 'integer');
@@ -63,6 +63,8 @@ $disable_pid_input      = isset($_REQUEST['disable_pid_input']);
 
 $regex_search           = isset($_REQUEST['regex']);
 
+$value_search           = isset($_REQUEST['value_search']);
+
 $action = 'default';
 if (isset($_REQUEST['export'])) {
     $action = 'export';
@@ -235,6 +237,9 @@ if (isset($reload_site) && $reload_site) {
     if ($search_manufacturer) {
         $header.= '&search_manufacturer=1';
     }
+    if ($value_search) {
+        $header.= '&value_search=1';
+    }
     header($header);
 }
 
@@ -261,7 +266,8 @@ if (! $fatal_error) {
             $search_supplier,
             $search_supplierpartnr,
             $search_manufacturer,
-            $regex_search
+            $regex_search,
+            $value_search
         );
 
         $hits_count = count($category_parts, COUNT_RECURSIVE) - count($category_parts);
@@ -304,6 +310,7 @@ if (! $fatal_error) {
         $html->setVariable('search_storelocation', $search_storelocation, 'boolean');
         $html->setVariable('search_footprint', $search_footprint, 'boolean');
         $html->setVariable('search_manufacturer', $search_manufacturer, 'boolean');
+        $html->setVariable('value_search', $value_search, 'boolean');
 
         // export formats
         $html->setLoop('export_formats', buildExportFormatsLoop('searchparts'));
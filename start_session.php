@@ -373,3 +373,16 @@ try {
     //Ignore all errors.
     //TODO: Log the errors
 }
+
+/********************************************************************************
+ *
+ *   expired sessions
+ *
+ *********************************************************************************/
+
+//Ajax requests (pages and API) can not show the login page, so they get a 401 and the client redirects to the login
+//page itself. The mark is only removed by login.php, so no request is silently handled as anonymous user before.
+if (isAjaxRequest() && \PartDB\User::isSessionExpired() && basename($_SERVER['SCRIPT_NAME']) !== 'login.php') {
+    http_response_code(401);
+    exit;
+}
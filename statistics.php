@@ -37,7 +37,6 @@ use PartDB\Part;
 use PartDB\Storelocation;
 use PartDB\Supplier;
 use PartDB\User;
-use PartDB\Tools\StatisticsHelpers;
 
 $messages = array();
 $fatal_error = false; // if a fatal error occurs, only the $messages will be printed, but not the site content
@@ -62,43 +61,6 @@ try {
 }
 
 
-/*******************************************************************************
- * Set graph statistics
- *******************************************************************************/
-
-if (! $fatal_error) {
-    try {
-        $helper = new StatisticsHelpers($database, $current_user, $log);
-        //Most used categories
-        $array = $helper->getMostUsedCategories();
-        $str = StatisticsHelpers::arrayToChartJSData($array, _("Bauteile mit Kategorie"), StatisticsHelpers::COLOR_BLUE);
-        $html->setVariable('graph_categories', $str);
-
-        //Most used storelocations
-        $array = $helper->getMostUsedLocations();
-        $str = StatisticsHelpers::arrayToChartJSData($array, _("Bauteile im Lagerort"), StatisticsHelpers::COLOR_GREEN);
-        $html->setVariable('graph_locations', $str);
-
-        //Most used footprints
-        $array = $helper->getMostUsedFootprints();
-        $str = StatisticsHelpers::arrayToChartJSData($array, _("Bauteile mit Footprint"), StatisticsHelpers::COLOR_LIGHT_BLUE);
-        $html->setVariable('graph_footprints', $str);
-
-        //Most used manufacturer
-        $array = $helper->getMostUsedManufacturers();
-        $str = StatisticsHelpers::arrayToChartJSData($array, _("Bauteile mit Hersteller"), StatisticsHelpers::COLOR_ORANGE);
-        $html->setVariable('graph_manufacturer', $str);
-
-        //Parts with most instock parts
-        $array = $helper->getPartsWithMostInstock();
-        $str = StatisticsHelpers::arrayToChartJSData($array, _("Vorhandene Bauteile"), StatisticsHelpers::COLOR_RED);
-        $html->setVariable('graph_instock_parts', $str);
-    } catch (Exception $e) {
-        $messages[] = array('text' => nl2br($e->getMessage()), 'strong' => true, 'color' => 'red', );
-        $fatal_error = true;
-    }
-}
-
 /********************************************************************************
  *
  *   Set all HTML variables
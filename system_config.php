@@ -121,6 +121,10 @@ $instock_warning_full_row   = isset($_REQUEST['instock_warning_full_row']);
 $livesearch_active          = isset($_REQUEST['livesearch_active']);
 $search_highlighting        = isset($_REQUEST['search_highlighting']);
 
+//Offline settings
+$offline_enable             = isset($_REQUEST['offline_enable']);
+$ajax_timeout               = isset($_REQUEST['ajax_timeout']) ? max(0, (int) $_REQUEST['ajax_timeout']) : 30;
+
 //Attachement settings
 $attachements_structure     = isset($_REQUEST['attachements_structure']);
 $attachements_download      = isset($_REQUEST['attachements_download']);
@@ -208,6 +212,9 @@ if (! $fatal_error) {
             $config['search']['livesearch']             = $livesearch_active;
             $config['search']['highlighting']           = $search_highlighting;
 
+            $config['offline']['enable']                = $offline_enable;
+            $config['ajax']['timeout']                  = $ajax_timeout;
+
             $config['edit_parts']['created_go_to_info']      = $created_redirect;    //Jump to info page of a part, if a new part was created
             $config['edit_parts']['saved_go_to_info']        = $saved_redirect;
 
@@ -360,6 +367,10 @@ try {
     $html->setVariable('livesearch_active', $config['search']['livesearch']);
     $html->setVariable('search_highlighting', $config['search']['highlighting']);
 
+//Offline
+    $html->setVariable('offline_enable', $config['offline']['enable']);
+    $html->setVariable('ajax_timeout', $config['ajax']['timeout'], "int");
+
 // check if the server supports the selected language and print a warning if not
     if (!ownSetlocale(LC_ALL, $config['language'])) {
         $messages[] = array('text' => _('Achtung:'), 'strong' => true, 'color' => 'red');
@@ -5,6 +5,9 @@
         {t}Hersteller{/t}
     </div>
     <div class="panel-body">
+        {if isset($id) && $id > 0}
+            {include "../smarty_live_update.tpl" live_update_table="manufacturers" live_update_id=$id}
+        {/if}
         <form action="" method="post" class="row no-progbar">
             <div class="col-md-4">
 
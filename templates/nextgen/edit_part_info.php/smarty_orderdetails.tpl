@@ -32,6 +32,13 @@
                             <input class="form-control" type="text" name="supplierpartnr_{$detail.orderdetails_id}" placeholder="{t}Bestellnr.{/t}"
                                    size="12" value="{$detail.supplierpartnr}"
                                    {if !($can_orderdetails_edit || ($can_orderdetails_create && $detail.orderdetails_id == "new"))}disabled{/if}>
+                            <p></p>
+                            <div class="input-group" title="{t}Das Bauteil kann nur in Vielfachen dieser Menge bestellt werden.{/t}">
+                                <span class="input-group-addon">{t}VPE{/t}</span>
+                                <input class="form-control" type="number" min="1" step="1" name="packaging_unit_{$detail.orderdetails_id}"
+                                       value="{$detail.packaging_unit}"
+                                       {if !($can_orderdetails_edit || ($can_orderdetails_create && $detail.orderdetails_id == "new"))}disabled{/if}>
+                            </div>
                             <input type="hidden" name="pid" value="{$pid}">
                             <input type="hidden" name="orderdetails_id_{$detail.orderdetails_id}" value="{$detail.orderdetails_id}">
                         </td>
@@ -81,7 +88,7 @@
 
                                             <td >
                                                 <div class="input-group">
-                                                    <input type="number" min="0" step="any" class="form-control"
+                                                    <input type="text" inputmode="decimal" class="form-control" data-localized-number data-currency
                                                            name="price_{if $price.pricedetails_id == "new"}{$detail.orderdetails_id}_{/if}{$price.pricedetails_id}"
                                                            value="{$price.price}"
                                                            {if !($can_prices_edit || ($can_prices_create && $price.pricedetails_id == "new"))}disabled{/if}>
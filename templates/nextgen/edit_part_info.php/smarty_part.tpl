@@ -32,40 +32,38 @@
     {/if}
 
     <div class="panel-body">
+        {if !$is_new_part}
+            {include "../smarty_live_update.tpl" live_update_table="parts" live_update_id=$pid}
+        {/if}
         <form action="{$relative_path}edit_part_info.php" class="form-horizontal no-progbar" method="post">
             <!--<table class="table">-->
                 <div class="form-group">
                     <label class="col-md-2 control-label">
                         {t}Name:{/t}
                     </label>
-                    <div class="col-md-10">
-                        <input type="text" name="name" id="name" class="form-control" placeholder="{if empty($format_hint)}{t}z.B. BC547{/t}{else}{$format_hint}{/if}"
+                    <div class="{if $part_info_enabled}col-md-8{else}col-md-10{/if}">
+                        <input type="text" name="name" id="name" class="form-control" data-normalize-values placeholder="{if empty($format_hint)}{t}z.B. BC547{/t}{else}{$format_hint}{/if}"
                                value="{$name}" onkeydown="if (event.keyCode == 13) { document.getElementById('btn_enter').click();}"
                                required {if !$can_name}disabled{/if}>
                         {if !empty($format_hint)}<p class="help-block">{t}Hinweis zum Format:{/t} {$format_hint}</p>{/if}
                     </div>
+                    {if $part_info_enabled}
+                    <div class="col-md-2">
+                        <button type="button" class="btn btn-default" onClick="PartInfoDialog.getInstance().open();">
+                            <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}Infos suchen{/t}</button>
+                    </div>
+                    {/if}
                 </div>
                 <div class="form-group">
                     <label class="col-md-2 control-label">
                         {t}Beschreibung:{/t}
                     </label>
-                    {if isset($auto_desc) && $auto_desc}
-                    <div class="col-md-8">
-                        <input type="text" id="description" class="form-control" name="description"
-                               placeholder="{t}z.B. NPN 45V 0,1A 0,5W{/t}" value="{$description nofilter}"
-                               {if !$can_description}disabled{/if}>
-                    </div>
-                    <div class="col-md-2">
-                        <button class="btn btn-default" onClick="octoPart();">Auto</button>
-                    </div>
-                    {else}
                     <div class="col-md-10">
-                        <input type="text" id="description" class="form-control greek-input" name="description" placeholder="{t}z.B. NPN 45V 0,1A 0,5W{/t}"
+                        <input type="text" id="description" class="form-control greek-input" name="description" data-normalize-values placeholder="{t}z.B. NPN 45V 0,1A 0,5W{/t}"
                                value="{$description nofilter}" onkeydown="if (event.keyCode == 13) { document.getElementById('btn_enter').click();}"
                                {if !$can_description}disabled{/if}>
                         <p class="help-block">{t}Hinweis: Hier kann BBCode verwendet werden um den Text besonders auszuzeichnen (z.B. [b]Fett[/b]).{/t}</p>
                     </div>
-                    {/if}
                 </div>
                 <div class="form-group">
                     <label class="col-md-2 control-label">
@@ -225,21 +223,74 @@
     </div>
 </div>
 
-<!-- Modal -->
-<div class="modal fade" id="description_select" tabindex="-1" role="dialog" aria-labelledby="myModalLabel">
-  <div class="modal-dialog" role="document">
+{if $part_info_enabled}
+<input type="hidden" id="part_info_providers" value="{$part_info_providers}">
+
+<!-- Part info search -->
+<div class="modal fade" id="part-info-modal" tabindex="-1" role="dialog" aria-labelledby="part-info-title">
+  <div class="modal-dialog modal-lg" role="document">
     <div class="modal-content">
       <div class="modal-header">
         <button type="button" class="close" data-dismiss="modal" aria-label="Close"><span aria-hidden="true">&times;</span></button>
-        <h4 class="modal-title" id="myModalLabel">Modal title</h4>
+        <h4 class="modal-title" id="part-info-title">{t}Bauteilinformationen suchen{/t}</h4>
       </div>
       <div class="modal-body">
-        ...
+        <div class="input-group">
+          <input type="text" class="form-control" id="part-info-keyword" placeholder="{t}Suchbegriff{/t}">
+          <span class="input-group-btn">
+            <button type="button" class="btn btn-primary" id="part-info-search">{t}Suchen{/t}</button>
+          </span>
+        </div>
+        <p></p>
+        <div class="alert alert-danger" id="part-info-error" hidden></div>
+        <p class="text-center" id="part-info-loading" hidden><i class="fa fa-spinner fa-spin fa-2x" aria-hidden="true"></i></p>
+        <p class="text-muted" id="part-info-no-results" hidden>{t}Keine Ergebnisse gefunden.{/t}</p>
+
+        <div class="table-responsive">
+          <table class="table table-condensed table-hover" id="part-info-results">
+            <thead>
+              <tr>
+                <th>{t}Name{/t}</th>
+                <th>{t}Hersteller{/t}</th>
+                <th>{t}Beschreibung{/t}</th>
+                <th>{t}Quelle{/t}</th>
+              </tr>
+            </thead>
+            <tbody></tbody>
+          </table>
+        </div>
+
+        <div id="part-info-details" hidden>
+          <h4>{t}Folgende Werte übernehmen:{/t}</h4>
+          <table class="table table-condensed">
+            <tr data-field="name">
+              <td><input type="checkbox"></td><th>{t}Name:{/t}</th><td class="part-info-value"></td>
+            </tr>
+            <tr data-field="description">
+              <td><input type="checkbox"></td><th>{t}Beschreibung:{/t}</th><td class="part-info-value"></td>
+            </tr>
+            <tr data-field="manufacturer">
+              <td><input type="checkbox"></td><th>{t}Hersteller:{/t}</th><td class="part-info-value"></td>
+            </tr>
+            <tr data-field="footprint">
+              <td><input type="checkbox"></td><th>{t}Footprint:{/t}</th><td class="part-info-value"></td>
+            </tr>
+            <tr data-field="datasheet_url" data-attachement-name="{t}Datenblatt{/t}">
+              <td><input type="checkbox"></td><th>{t}Datenblatt:{/t}</th><td class="part-info-value"></td>
+            </tr>
+            <tr data-field="offer">
+              <td><input type="checkbox"></td><th>{t}Lieferant / Preis:{/t}</th>
+              <td><select class="form-control input-sm" id="part-info-offer"></select></td>
+            </tr>
+          </table>
+          <p class="help-block">{t}Hersteller und Footprints, die noch nicht existieren, werden in das Feld "Suchen / Hinzufügen" eingetragen. Datenblatt und Preise können erst übernommen werden, wenn das Bauteil bereits existiert.{/t}</p>
+        </div>
       </div>
       <div class="modal-footer">
-        <button type="button" class="btn btn-default" data-dismiss="modal">Close</button>
-        <button type="button" class="btn btn-primary">Save changes</button>
+        <button type="button" class="btn btn-default" data-dismiss="modal">{t}Schließen{/t}</button>
+        <button type="button" class="btn btn-primary" id="part-info-apply" disabled>{t}Übernehmen{/t}</button>
       </div>
     </div>
   </div>
 </div>
+{/if}
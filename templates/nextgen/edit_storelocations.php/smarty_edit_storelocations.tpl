@@ -22,6 +22,9 @@
         {t}Lagerorte{/t}
     </div>
     <div class="panel-body">
+        {if isset($id) && $id > 0}
+            {include "../smarty_live_update.tpl" live_update_table="storelocations" live_update_id=$id}
+        {/if}
         <form action="" method="post" name="edit" class="row no-progbar">
             <div class="col-md-4">
 
@@ -1 +1 @@
-var __awaiter=this&&this.__awaiter||function(thisArg,_arguments,P,generator){return new(P||(P=Promise))(function(resolve,reject){function fulfilled(value){try{step(generator.next(value))}catch(e){reject(e)}}function rejected(value){try{step(generator["throw"](value))}catch(e){reject(e)}}function step(result){result.done?resolve(result.value):new P(function(resolve){resolve(result.value)}).then(fulfilled,rejected)}step((generator=generator.apply(thisArg,_arguments||[])).next())})};var __generator=this&&this.__generator||function(thisArg,body){var _={label:0,sent:function(){if(t[0]&1)throw t[1];return t[1]},trys:[],ops:[]},f,y,t,g;return g={next:verb(0),throw:verb(1),return:verb(2)},typeof Symbol==="function"&&(g[Symbol.iterator]=function(){return this}),g;function verb(n){return function(v){return step([n,v])}}function step(op){if(f)throw new TypeError("Generator is already executing.");while(_)try{if(f=1,y&&(t=y[op[0]&2?"return":op[0]?"throw":"next"])&&!(t=t.call(y,op[1])).done)return t;if(y=0,t)op=[0,t.value];switch(op[0]){case 0:case 1:t=op;break;case 4:_.label++;return{value:op[1],done:false};case 5:_.label++;y=op[1];op=[0];continue;case 7:op=_.ops.pop();_.trys.pop();continue;default:if(!(t=_.trys,t=t.length>0&&t[t.length-1])&&(op[0]===6||op[0]===2)){_=0;continue}if(op[0]===3&&(!t||op[1]>t[0]&&op[1]<t[3])){_.label=op[1];break}if(op[0]===6&&_.label<t[1]){_.label=t[1];t=op;break}if(t&&_.label<t[2]){_.label=t[2];_.ops.push(op);break}if(t[2])_.ops.pop();_.trys.pop();continue}op=body.call(thisArg,_)}catch(e){op=[6,e];y=0}finally{f=t=0}if(op[0]&5)throw op[1];return{value:op[0]?op[1]:void 0,done:true}}};var BASE="";var AjaxUI=function(){function AjaxUI(){this._this=this;this.ajax_complete_listeners=[];this.start_listeners=[];this.trees_filled=false;this.xhrPool=[];window.onpopstate=this.onPopState;$(document).ajaxError(this.onAjaxError.bind(this));$(document).ajaxComplete(this.onAjaxComplete.bind(this))}AjaxUI.getInstance=function(){if(AjaxUI.singleton==null||AjaxUI.singleton==undefined){AjaxUI.singleton=new AjaxUI}return AjaxUI.singleton};AjaxUI.prototype.start=function(){var page=window.location.pathname;BASE=getBasePath();var _this=this;$.ajaxSetup({beforeSend:function(jqXHR){_this.xhrPool.push(jqXHR)}});this.checkRedirect();this.tree_fill();this.registerForm();this.registerLinks();this.getTypeaheadData();for(var _i=0,_a=this.start_listeners;_i<_a.length;_i++){var entry=_a[_i];entry()}};AjaxUI.prototype.checkRedirect=function(){if($("input#redirect_url").val()!=null){var redirect_url=$("input#redirect_url").val().toString();if(redirect_url!=""){openLink(redirect_url)}}};AjaxUI.prototype.addAjaxCompleteAction=function(func){this.ajax_complete_listeners.push(func)};AjaxUI.prototype.addStartAction=function(func){this.start_listeners.push(func)};AjaxUI.prototype.registerForm=function(){"use strict";var data={success:this.showFormResponse,beforeSubmit:this.showRequest,beforeSerialize:this.form_beforeSerialize};$("form").not(".no-ajax").ajaxForm(data)};AjaxUI.prototype.showFormResponse=function(responseText,statusText,xhr,$form){"use strict";$("#content").html($(responseText).find("#content-data").html()).fadeIn("slow")};AjaxUI.prototype.form_beforeSerialize=function($form,options){$form.find("input[type=checkbox].tristate").each(function(index){var name=$(this).attr("name");var value=$(this).val();$form.append('<input type="hidden" name="'+name+'" value="'+value+'">')});$form.find("input[type=checkbox].tristate").remove();return true};AjaxUI.prototype.showRequest=function(formData,jqForm,options){"use strict";if(!$(jqForm).hasClass("no-progbar")){$("#content").hide(0);AjaxUI.getInstance().beforeAjaxSubmit();$("#progressbar").show(0)}return true};AjaxUI.prototype.registerSubmitBtn=function(){var _this=this;$("button.submit").unbind("click").click(function(){_this.submitFormSubmitBtn($(this).closest("form"),this)})};AjaxUI.prototype.submitForm=function(form){"use strict";var data={success:this.showFormResponse,beforeSubmit:this.showRequest};$(form).ajaxSubmit(data)};AjaxUI.prototype.submitFormSubmitBtn=function(form,btn){var name=$(btn).attr("name");var value=$(btn).attr("value");if(value===undefined)value="";$(form).append('<input type="hidden" name="'+name+'" value="'+value+'">');this.submitForm(form)};AjaxUI.prototype.registerLinks=function(){"use strict";var _this=this;$("a").not(".link-anchor").not(".link-collapse").not(".link-external").not(".tree-btns").not(".back-to-top").not(".link-datasheet").unbind("click").click(function(event){event.preventDefault();var a=$(this);if(a.attr("href")!=null){var href=addURLparam(a.attr("href"),"ajax");_this.abortAllAjax();_this.beforeAjaxSubmit();$("#content").hide(0).load(href+" #content-data");$("#progressbar").show(0);return true}});$("a.link-anchor").unbind("click").click(function(event){event.preventDefault();scrollToAnchor($(this).prop("hash"))})};AjaxUI.prototype.onNodeSelected=function(event,data){"use strict";if(data.href.indexOf("github.com")!==-1||data.href.indexOf("phpdoc")!==-1){openInNewTab(data.href);$(this).treeview("toggleNodeSelected",data.nodeId)}else{AjaxUI.getInstance().abortAllAjax();$("#content").hide().load(addURLparam(data.href,"ajax")+" #content-data");$("#progressbar").show()}$(this).treeview("toggleNodeExpanded",data.nodeId);$("#sidebar").removeClass("in")};AjaxUI.prototype.onNodeContextmenu=function(event,data){"use strict";if(data.href!==""){openInNewTab(data.href)}};AjaxUI.prototype.tree_fill=function(){"use strict";var categories=Cookies.get("tree_datasource_tree-categories");var devices=Cookies.get("tree_datasource_tree-devices");var tools=Cookies.get("tree_datasource_tree-tools");if(typeof categories=="undefined"){categories="categories"}if(typeof devices=="undefined"){devices="devices"}if(typeof tools=="undefined"){tools="tools"}this.treeLoadDataSource("tree-categories",categories);this.treeLoadDataSource("tree-devices",devices);this.treeLoadDataSource("tree-tools",tools);this.trees_filled=true};AjaxUI.prototype.initTree=function(tree,url){var node_handler=this.onNodeSelected;var contextmenu_handler=this.onNodeContextmenu;$.getJSON(BASE+url,function(data){$(tree).treeview({data:data,enableLinks:false,showIcon:false,showBorder:true,onNodeSelected:node_handler,onNodeContextmenu:contextmenu_handler}).treeview("collapseAll",{silent:true})})};AjaxUI.prototype.treeLoadDataSource=function(target_id,datasource){var text=$(".tree-btns[data-mode='"+datasource+"']").html();text=text+" \n<span class='caret'></span>";switch(datasource){case"categories":ajaxui.initTree("#"+target_id,"api.php/1.0.0/tree/categories");$("#"+target_id+"-title").html(text);break;case"locations":ajaxui.initTree("#"+target_id,"api.php/1.0.0/tree/locations");$("#"+target_id+"-title").html(text);break;case"footprints":ajaxui.initTree("#"+target_id,"api.php/1.0.0/tree/footprints");$("#"+target_id+"-title").html(text);break;case"manufacturers":ajaxui.initTree("#"+target_id,"api.php/1.0.0/tree/manufacturers");$("#"+target_id+"-title").html(text);break;case"suppliers":ajaxui.initTree("#"+target_id,"api.php/1.0.0/tree/suppliers");$("#"+target_id+"-title").html(text);break;case"tools":ajaxui.initTree("#"+target_id,"api.php/1.0.0/tree/tools");$("#"+target_id+"-title").html(text);break;case"devices":ajaxui.initTree("#"+target_id,"api.php/1.0.0/tree/devices");$("#"+target_id+"-title").html(text);break}};AjaxUI.prototype.updateTrees=function(){this.tree_fill()};AjaxUI.prototype.getTypeaheadData=function(){var _this=this;$.getJSON("api.php/1.0.0/3d_models/files",function(data){_this.model_list=data;_this.fillTypeahead()});$.getJSON("api.php/1.0.0/img_files/files",function(data){_this.img_list=data;_this.fillTypeahead()})};AjaxUI.prototype.fillTypeahead=function(){if($("#models-search").length&&!$("#models-search").hasClass("initialized")){$("#models-search").addClass("initialized");$("#models-search").typeahead({source:this.model_list})}if($("#img-search").length&&!$("#img-search").hasClass("initialized")){$("#img-search").addClass("initialized");$("#img-search").typeahead({source:this.img_list})}};AjaxUI.prototype.abortAllAjax=function(){var _this=this;$(this.xhrPool).each(function(i,jqXHR){jqXHR.abort();_this.xhrPool.splice(i,1)})};AjaxUI.prototype.beforeAjaxSubmit=function(){};AjaxUI.prototype.onAjaxError=function(event,request,settings){"use strict";if(request.statusText=="abort"){return}console.log(event);if(request.status==500&&request.responseText!==""){console.log("Response:"+request.responseText)}};AjaxUI.prototype.onPopState=function(event){var page=location.href;if(page.indexOf(".php")!==-1&&page.indexOf("index.php")===-1){$("#content").hide(0).load(addURLparam(location.href,"ajax")+" #content-data");$("#progressbar").show(0)}};AjaxUI.prototype.onAjaxComplete=function(event,xhr,settings){var i=this.xhrPool.indexOf(xhr);if(i>-1)this.xhrPool.splice(i,1);var url=settings.url;if(url.indexOf("api.php")!=-1){return}$("#progressbar").hide(0);$("#content").fadeIn("fast");this.registerForm();this.registerLinks();this.registerSubmitBtn();this.fillTypeahead();if(url.indexOf("#")!=-1){var hash=url.substring(url.indexOf("#"));scrollToAnchor(hash)}if(url.indexOf("api.php/1.0.0/3d_models")!=-1){return}this.checkRedirect();for(var _i=0,_a=this.ajax_complete_listeners;_i<_a.length;_i++){var entry=_a[_i];entry()}if(settings.type.toLowerCase()!=="post"&&settings.dataType!=="json"&&settings.dataType!=="jsonp"){window.history.pushState(null,"",removeURLparam(settings.url,"ajax"));$("#login-link").attr("href","login.php?redirect="+encodeURIComponent(url));var input=xhr.responseText;var title=extractTitle(input);if(title!==""){document.title=title}if(this.trees_filled){var selected=$("#tree-categories").treeview("getSelected")[0];if(typeof selected!=="undefined"&&settings.url.indexOf(selected.href)==-1){$("#tree-categories").treeview("unselectNode",[selected.nodeId,{silent:true}])}selected=$("#tree-devices").treeview("getSelected")[0];if(typeof selected!=="undefined"&&settings.url.indexOf(selected.href)==-1){$("#tree-devices").treeview("unselectNode",[selected.nodeId,{silent:true}])}selected=$("#tree-tools").treeview("getSelected")[0];if(typeof selected!=="undefined"&&settings.url.indexOf(selected.href)==-1){$("#tree-tools").treeview("unselectNode",[selected.nodeId,{silent:true}])}}}};return AjaxUI}();var ajaxui=AjaxUI.getInstance();$(function(event){ajaxui.addStartAction(addCollapsedClass);ajaxui.addStartAction(fixSelectPaginationHeight);ajaxui.addStartAction(treeviewBtnInit);ajaxui.addStartAction(registerJumpToTop);ajaxui.addStartAction(makeTooltips);ajaxui.addStartAction(fixCurrencyEdits);ajaxui.addStartAction(registerAutoRefresh);ajaxui.addStartAction(scrollUpForMsg);ajaxui.addStartAction(makeSortTable);ajaxui.addStartAction(rightClickSubmit);ajaxui.addStartAction(makeTriStateCheckbox);ajaxui.addStartAction(makeHighlight);ajaxui.addStartAction(viewer3d_models);ajaxui.addStartAction(makeGreekInput);ajaxui.addStartAction(makeCharts);ajaxui.addAjaxCompleteAction(addCollapsedClass);ajaxui.addAjaxCompleteAction(fixSelectPaginationHeight);ajaxui.addAjaxCompleteAction(registerHoverImages);ajaxui.addAjaxCompleteAction(makeSortTable);ajaxui.addAjaxCompleteAction(makeFileInput);ajaxui.addAjaxCompleteAction(makeTooltips);ajaxui.addAjaxCompleteAction(registerX3DOM);ajaxui.addAjaxCompleteAction(registerBootstrapSelect);ajaxui.addAjaxCompleteAction(fixCurrencyEdits);ajaxui.addAjaxCompleteAction(registerAutoRefresh);ajaxui.addAjaxCompleteAction(scrollUpForMsg);ajaxui.addAjaxCompleteAction(rightClickSubmit);ajaxui.addAjaxCompleteAction(makeTriStateCheckbox);ajaxui.addAjaxCompleteAction(makeHighlight);ajaxui.addAjaxCompleteAction(viewer3d_models);ajaxui.addAjaxCompleteAction(makeGreekInput);ajaxui.addAjaxCompleteAction(makeCharts);ajaxui.start()});function makeCharts(){$(".chart").each(function(index,element){var data=$(element).data("data");var type=$(element).data("type");var ctx=element.getContext("2d");var myChart=new Chart(ctx,{type:type,data:data,options:{scales:{yAxes:[{ticks:{beginAtZero:true}}]}}})})}function makeGreekInput(){$("input[type=text], textarea, input[type=search]").unbind("keydown").keydown(function(event){var greek=event.altKey;var greek_char="";if(greek){switch(event.key){case"w":greek_char="Ω";break;case"u":case"m":greek_char="µ";break;case"p":greek_char="φ";break;case"a":greek_char="α";break;case"b":greek_char="β";break;case"c":greek_char="γ";break;case"d":greek_char="δ";break;case"l":greek_char="£";break;case"y":greek_char="¥";break;case"o":greek_char="¤";break;case"1":greek_char="∑";break;case"2":greek_char="∫";break;case"3":greek_char="≤";break;case"4":greek_char="≥";break;case"5":greek_char="π";break;case"q":greek_char="©";break;case"e":greek_char="€";break}if(greek_char=="")return;var $txt=$(this);var caretPos=$txt[0].selectionStart;var textAreaTxt=$txt.val();$txt.val(textAreaTxt.substring(0,caretPos)+greek_char+textAreaTxt.substring(caretPos))}});this.greek_once=true}function makeTypeAhead(){if($("#models-search").length&&!$("#models-search").hasClass("initialized")){$("#models-search").addClass("initialized");$.getJSON("api.php/1.0.0/3d_models/files",function(data){$("#models-search").typeahead({source:data})})}}function makeTriStateCheckbox(){$(".tristate").tristate({checked:"true",unchecked:"false",indeterminate:"indeterminate"})}function registerHoverImages(){"use strict";$("img[rel=popover]").popover({html:true,trigger:"hover",placement:"auto",container:"body",content:function(){return'<img class="img-responsive" src="'+this.src+'" />'}})}function makeSortTable(){"use strict";var table=$($.fn.dataTable.tables()).DataTable();table.fixedHeader.adjust();$(".export-helper").each(function(index){var input=$(this).siblings("input");var that=this;$(this).text(input.val().toString())});$.extend(true,$.fn.DataTable.Buttons.defaults,{dom:{container:{className:"dt-buttons btn-group pull-right"},button:{className:"btn btn-default btn-xs"},collection:{tag:"ul",className:"dt-button-collection dropdown-menu",button:{tag:"li",className:"dt-button",active:"active",disabled:"disabled"},buttonLiner:{tag:"a",className:""}}}});var exportFooter=function(){return"Generated by Part-DB on "+(new Date).toLocaleString()};var exportTitle=function(){if($("#export-title").length){return $("#export-title").text()}return"*"};var exportMessageTop=function(){if($("#export-messageTop").length){return $("#export-messageTop").text()}return"*"};if(!$.fn.DataTable.isDataTable(".table-sortable")){var table_1=$(".table-sortable").DataTable({paging:false,ordering:true,info:false,fixedHeader:true,searching:false,select:$(".table-sortable").hasClass("table-selectable")?{style:"os",selector:"td:not(.no-select)"}:false,order:[],buttons:$(".table-sortable").hasClass("table-export")?[{extend:"copyHtml5",text:'<i class="fas fa-copy fa-fw"></i>',titleAttr:"Copy",exportOptions:{columns:":not(.no-export)"}},{extend:"excelHtml5",text:'<i class="fas fa-file-excel fa-fw"></i>',titleAttr:"Excel",exportOptions:{columns:":not(.no-export)"},messageBottom:exportFooter,messageTop:exportMessageTop,title:exportTitle},{extend:"csvHtml5",text:'<i class="fas fa-file-alt fa-fw"></i>',titleAttr:"CSV",exportOptions:{columns:":not(.no-export)"}},{extend:"pdfHtml5",text:'<i class="fas fa-file-pdf fa-fw"></i>',titleAttr:"PDF",exportOptions:{columns:":not(.no-export)"},messageBottom:exportFooter,messageTop:exportMessageTop,title:exportTitle},{extend:"print",text:'<i class="fas fa-print fa-fw"></i>',titleAttr:"Print",exportOptions:{columns:":not(.no-export)"},messageBottom:exportFooter,messageTop:exportMessageTop,title:exportTitle}]:null,columnDefs:[{targets:[1],type:"natural-nohtml"},{targets:"no-sort",orderable:false}]});if($("#auto_sort").val()==true){table_1.columns(".order-default").order("asc").draw()}table_1.on("select deselect",function(e,dt,type,indexes){var data=table_1.rows({selected:true});var count=data.count();var tmp=[];if(count>0){$(".select_actions").show();$(".selected_n").text(count);for(var _i=0,_a=data[0];_i<_a.length;_i++){var n=_a[_i];tmp.push($(data.row(n).node()).find("input").val())}}else{$(".select_actions").hide()}var str=tmp.join();$("input[name='selected_ids']").val(str)});for(var n=0;n<table_1.context.length;n++){var my_panel_header=$(table_1.table(n).container()).closest(".panel").find(".panel-heading");table_1.table(n).buttons().container().appendTo(my_panel_header)}}}function makeFileInput(){"use strict";$(".file").fileinput()}function registerJumpToTop(){$(window).scroll(function(){if($(this).scrollTop()>50){$("#back-to-top").fadeIn()}else{$("#back-to-top").fadeOut()}});$("#back-to-top").click(function(){$("#back-to-top").tooltip("hide");$("body,html").animate({scrollTop:0},800);return false}).tooltip("show")}function rightClickSubmit(){var _ajaxui=AjaxUI.getInstance();$("button.rightclick").off("contextmenu").contextmenu(function(event){event.preventDefault();var form=$(this).closest("form");form.append('<input type="hidden" name="rightclicked" value="true">');_ajaxui.submitFormSubmitBtn(form,this);return false})}function treeviewBtnInit(){$(".tree-btns").click(function(event){event.preventDefault();$(this).parents("div.dropdown").removeClass("open");var mode=$(this).data("mode");var target=$(this).data("target");var text=$(this).text()+" \n<span class='caret'></span>";if(mode==="collapse"){$("#"+target).treeview("collapseAll",{silent:true})}else if(mode==="expand"){$("#"+target).treeview("expandAll",{silent:true})}else{Cookies.set("tree_datasource_"+target,mode);ajaxui.treeLoadDataSource(target,mode)}return false})}function registerX3DOM(){return __awaiter(this,void 0,void 0,function(){return __generator(this,function(_a){if($("x3d").length){try{x3dom.reload()}catch(e){}}return[2]})})}function registerBootstrapSelect(){return __awaiter(this,void 0,void 0,function(){return __generator(this,function(_a){$(".selectpicker").selectpicker();return[2]})})}function addCollapsedClass(){$("div.collapse.panel-collapse").siblings("div.panel-heading").children('a[data-toggle="collapse"]').addClass("collapsed")}function fixCurrencyEdits(){var inputs=$("input[type=number]").each(function(index,element){var e=$(element);if(e.val()==""&&e.prop("defaultValue").indexOf(",")!==-1){var newval=e.prop("defaultValue").replace(",",".");e.val(newval)}})}function registerAutoRefresh(){var val=$("#autorefresh").val();if(val>0){window.setTimeout(reloadPage,val)}}function fixSelectPaginationHeight(){$(".pagination>li>select").css("height",parseInt($(".pagination").css("height")))}$("#search-submit").click(function(event){$("#searchbar").removeClass("in")});function livesearch(event,object,threshold){if(event.key=="Enter"){return}var $obj=$(object);var q=$obj.val();var form=$obj.closest("form");form.addClass("no-progbar");var xhr=form.data("jqxhr");if(typeof xhr!=="undefined"){xhr.abort()}if(q.length>=threshold){submitForm(form)}else{if(event.key=="Backspace"){openLink(BASE+"show_search_parts.php?hint")}}form.removeClass("no-progbar")}function makeHighlight(){var highlight=$("#highlight").val();if(typeof highlight!=="undefined"&&highlight!=""){$("table").highlight(highlight,{element:"span"})}}function makeTooltips(){return __awaiter(this,void 0,void 0,function(){return __generator(this,function(_a){$("a[title]").tooltip("hide").tooltip({container:"body"});$("button[title]").tooltip("hide").tooltip({container:"body"});return[2]})})}function viewer3d_models(){if(!$("#models-picker").length)return;var dir="";function update(){var name=$("#models-picker").val();if(dir=="")return;var path="models/"+dir+"/"+name;$("#foot3d-model").attr("url",path);$("#foot3d-model2").attr("url",path);$("#path").text(path)}$("#models-picker").change(update);function node_handler(event,data){dir=data.href;$.getJSON("api.php/1.0.0/3d_models/files/"+dir,function(list){$("#models-picker").empty();list.forEach(function(element){$("<option/>").val(element).text(element).appendTo("#models-picker");$("#models-picker").selectpicker("refresh");update()})})}$.getJSON("api.php/1.0.0/3d_models/dir_tree",function(tree){$("#tree-footprint").treeview({data:tree,enableLinks:false,showIcon:false,showBorder:true,onNodeSelected:node_handler}).treeview("collapseAll",{silent:true})});$("#models-search-go").click(function(){var name=$("#models-search").val();var path="models/"+name;$("#foot3d-model").attr("url",path);$("#foot3d-model2").attr("url",path);$("#path").text(path)})}$(window).resize(function(){var height=$("#main-navbar").height()+10;$("body").css("padding-top",height);$("#fixed-sidebar").css("top",height)});$(window).on("load",function(){var height=$("#main-navbar").height()+10;$("body").css("padding-top",height);$("#fixed-sidebar").css("top",height)});
\ No newline at end of file
+var __awaiter=this&&this.__awaiter||function(thisArg,_arguments,P,generator){return new(P||(P=Promise))(function(resolve,reject){function fulfilled(value){try{step(generator.next(value))}catch(e){reject(e)}}function rejected(value){try{step(generator["throw"](value))}catch(e){reject(e)}}function step(result){result.done?resolve(result.value):new P(function(resolve){resolve(result.value)}).then(fulfilled,rejected)}step((generator=generator.apply(thisArg,_arguments||[])).next())})};var __generator=this&&this.__generator||function(thisArg,body){var _={label:0,sent:function(){if(t[0]&1)throw t[1];return t[1]},trys:[],ops:[]},f,y,t,g;return g={next:verb(0),throw:verb(1),return:verb(2)},typeof Symbol==="function"&&(g[Symbol.iterator]=function(){return this}),g;function verb(n){return function(v){return step([n,v])}}function step(op){if(f)throw new TypeError("Generator is already executing.");while(_)try{if(f=1,y&&(t=y[op[0]&2?"return":op[0]?"throw":"next"])&&!(t=t.call(y,op[1])).done)return t;if(y=0,t)op=[0,t.value];switch(op[0]){case 0:case 1:t=op;break;case 4:_.label++;return{value:op[1],done:false};case 5:_.label++;y=op[1];op=[0];continue;case 7:op=_.ops.pop();_.trys.pop();continue;default:if(!(t=_.trys,t=t.length>0&&t[t.length-1])&&(op[0]===6||op[0]===2)){_=0;continue}if(op[0]===3&&(!t||op[1]>t[0]&&op[1]<t[3])){_.label=op[1];break}if(op[0]===6&&_.label<t[1]){_.label=t[1];t=op;break}if(t&&_.label<t[2]){_.label=t[2];_.ops.push(op);break}if(t[2])_.ops.pop();_.trys.pop();continue}op=body.call(thisArg,_)}catch(e){op=[6,e];y=0}finally{f=t=0}if(op[0]&5)throw op[1];return{value:op[0]?op[1]:void 0,done:true}}};var BASE="";var AjaxUI=function(){function AjaxUI(){this._this=this;this.ajax_complete_listeners=[];this.start_listeners=[];this.trees_filled=false;this.xhrPool=[];$(document).ajaxError(this.onAjaxError.bind(this));$(document).ajaxComplete(this.onAjaxComplete.bind(this))}AjaxUI.getInstance=function(){if(AjaxUI.singleton==null||AjaxUI.singleton==undefined){AjaxUI.singleton=new AjaxUI}return AjaxUI.singleton};AjaxUI.prototype.start=function(){var page=window.location.pathname;BASE=getBasePath();var _this=this;$.ajaxSetup({beforeSend:function(jqXHR){_this.xhrPool.push(jqXHR)},timeout:AjaxErrorHandler.getInstance().getTimeout()});Router.getInstance();OfflineManager.getInstance().start();KeyboardShortcuts.getInstance().start();SymbolInput.getInstance().start();BulkEditor.getInstance().start();LocalizedNumberInput.getInstance().start();FilterBuilder.getInstance().start();BarcodeScanner.getInstance().start();ValueParser.getInstance().start();EngineeringCalculator.getInstance().start();LabelDesigner.getInstance().start();StatisticsDashboard.getInstance().start();SearchSuggestions.getInstance().start();LiveUpdates.getInstance().start();TreeDragDrop.getInstance().start();TreeContextMenu.getInstance().start();TableLayouts.getInstance().start();InlineEditor.getInstance().start();BuildPlanner.getInstance().start();OrderCart.getInstance().start();this.checkRedirect();this.tree_fill();this.registerForm();this.registerLinks();this.getTypeaheadData();for(var _i=0,_a=this.start_listeners;_i<_a.length;_i++){var entry=_a[_i];entry()}};AjaxUI.prototype.checkRedirect=function(){if($("input#redirect_url").val()!=null){var redirect_url=$("input#redirect_url").val().toString();if(redirect_url!=""){openLink(redirect_url)}}};AjaxUI.prototype.addAjaxCompleteAction=function(func){this.ajax_complete_listeners.push(func)};AjaxUI.prototype.addStartAction=function(func){this.start_listeners.push(func)};AjaxUI.prototype.registerForm=function(){"use strict";var data={success:this.showFormResponse,beforeSubmit:this.showRequest,beforeSerialize:this.form_beforeSerialize};$("form").not(".no-ajax").ajaxForm(data)};AjaxUI.prototype.showFormResponse=function(responseText,statusText,xhr,$form){"use strict";$("#content").html($(responseText).find("#content-data").html()).fadeIn("slow")};AjaxUI.prototype.form_beforeSerialize=function($form,options){ValueParser.normalizeInputs($form);LocalizedNumberInput.canonicalizeInputs($form);$form.find("input[type=checkbox].tristate").each(function(index){var name=$(this).attr("name");var value=$(this).val();$form.append('<input type="hidden" name="'+name+'" value="'+value+'">')});$form.find("input[type=checkbox].tristate").remove();return true};AjaxUI.prototype.showRequest=function(formData,jqForm,options){"use strict";Router.getInstance().saveCurrentState();if(!$(jqForm).hasClass("no-progbar")){$("#content").hide(0);AjaxUI.getInstance().beforeAjaxSubmit();$("#progressbar").show(0)}return true};AjaxUI.prototype.registerSubmitBtn=function(){var _this=this;$("button.submit").unbind("click").click(function(){_this.submitFormSubmitBtn($(this).closest("form"),this)})};AjaxUI.prototype.submitForm=function(form){"use strict";var data={success:this.showFormResponse,beforeSubmit:this.showRequest};$(form).ajaxSubmit(data)};AjaxUI.prototype.submitFormSubmitBtn=function(form,btn){var name=$(btn).attr("name");var value=$(btn).attr("value");if(value===undefined)value="";$(form).append('<input type="hidden" name="'+name+'" value="'+value+'">');this.submitForm(form)};AjaxUI.prototype.registerLinks=function(){"use strict";$("a").not(".link-anchor").not(".link-collapse").not(".link-external").not(".tree-btns").not(".back-to-top").not(".link-datasheet").unbind("click").click(function(event){event.preventDefault();var a=$(this);if(a.attr("href")!=null){Router.getInstance().navigate(a.attr("href"));return true}});$("a.link-anchor").unbind("click").click(function(event){event.preventDefault();scrollToAnchor($(this).prop("hash"))})};AjaxUI.prototype.onNodeSelected=function(event,data){"use strict";if(!Router.getInstance().navigate(data.href)){$(this).treeview("toggleNodeSelected",data.nodeId)}$(this).treeview("toggleNodeExpanded",data.nodeId);$("#sidebar").removeClass("in")};AjaxUI.prototype.tree_fill=function(){"use strict";var categories=Cookies.get("tree_datasource_tree-categories");var devices=Cookies.get("tree_datasource_tree-devices");var tools=Cookies.get("tree_datasource_tree-tools");if(typeof categories=="undefined"){categories="categories"}if(typeof devices=="undefined"){devices="devices"}if(typeof tools=="undefined"){tools="tools"}this.treeLoadDataSource("tree-categories",categories);this.treeLoadDataSource("tree-devices",devices);this.treeLoadDataSource("tree-tools",tools);this.trees_filled=true};AjaxUI.prototype.initTree=function(tree,datasource){SidebarTree.get(tree.replace("#","")).load(datasource,{onNodeSelected:this.onNodeSelected})};AjaxUI.prototype.treeLoadDataSource=function(target_id,datasource){var text=$(".tree-btns[data-mode='"+datasource+"']").html();text=text+" \n<span class='caret'></span>";switch(datasource){case"categories":case"locations":case"footprints":case"manufacturers":case"suppliers":case"tools":case"devices":ajaxui.initTree("#"+target_id,datasource);$("#"+target_id+"-title").html(text);break}};AjaxUI.prototype.updateTrees=function(){this.tree_fill()};AjaxUI.prototype.getTypeaheadData=function(){var _this=this;var api=PartDbApiClient.getInstance();api.get3dModelFiles().done(function(data){_this.model_list=data;_this.fillTypeahead()});api.getFootprintImageFiles().done(function(data){_this.img_list=data;_this.fillTypeahead()})};AjaxUI.prototype.fillTypeahead=function(){if($("#models-search").length&&!$("#models-search").hasClass("initialized")){$("#models-search").addClass("initialized");$("#models-search").typeahead({source:this.model_list})}if($("#img-search").length&&!$("#img-search").hasClass("initialized")){$("#img-search").addClass("initialized");$("#img-search").typeahead({source:this.img_list})}};AjaxUI.prototype.abortAllAjax=function(){var _this=this;$(this.xhrPool).each(function(i,jqXHR){jqXHR.abort();_this.xhrPool.splice(i,1)})};AjaxUI.prototype.beforeAjaxSubmit=function(){};AjaxUI.prototype.onAjaxError=function(event,request,settings){"use strict";AjaxErrorHandler.getInstance().handle(request,settings)};AjaxUI.prototype.onAjaxComplete=function(event,xhr,settings){var i=this.xhrPool.indexOf(xhr);if(i>-1)this.xhrPool.splice(i,1);var url=settings.url;if(url.indexOf("api.php")!=-1){return}if(xhr.status==0||xhr.status>=400){return}$("#progressbar").hide(0);$("#content").fadeIn("fast");OfflineManager.getInstance().onPageLoaded(xhr);this.registerForm();this.registerLinks();this.registerSubmitBtn();this.fillTypeahead();if(url.indexOf("#")!=-1){var hash=url.substring(url.indexOf("#"));scrollToAnchor(hash)}if(url.indexOf("api.php/1.0.0/3d_models")!=-1){return}this.checkRedirect();for(var _i=0,_a=this.ajax_complete_listeners;_i<_a.length;_i++){var entry=_a[_i];entry()}if(settings.type.toLowerCase()!=="post"&&settings.dataType!=="json"&&settings.dataType!=="jsonp"){Router.getInstance().onPageLoaded(removeURLparam(settings.url,"ajax"));$("#login-link").attr("href","login.php?redirect="+encodeURIComponent(url));var input=xhr.responseText;var title=extractTitle(input);if(title!==""){document.title=title}if(this.trees_filled){var selected=$("#tree-categories").treeview("getSelected")[0];if(typeof selected!=="undefined"&&settings.url.indexOf(selected.href)==-1){$("#tree-categories").treeview("unselectNode",[selected.nodeId,{silent:true}])}selected=$("#tree-devices").treeview("getSelected")[0];if(typeof selected!=="undefined"&&settings.url.indexOf(selected.href)==-1){$("#tree-devices").treeview("unselectNode",[selected.nodeId,{silent:true}])}selected=$("#tree-tools").treeview("getSelected")[0];if(typeof selected!=="undefined"&&settings.url.indexOf(selected.href)==-1){$("#tree-tools").treeview("unselectNode",[selected.nodeId,{silent:true}])}}}};return AjaxUI}();var ajaxui=AjaxUI.getInstance();$(function(event){ajaxui.addStartAction(addCollapsedClass);ajaxui.addStartAction(fixSelectPaginationHeight);ajaxui.addStartAction(treeviewBtnInit);ajaxui.addStartAction(registerJumpToTop);ajaxui.addStartAction(makeTooltips);ajaxui.addStartAction(LocalizedNumberInput.init);ajaxui.addStartAction(registerAutoRefresh);ajaxui.addStartAction(scrollUpForMsg);ajaxui.addStartAction(makeSortTable);ajaxui.addStartAction(rightClickSubmit);ajaxui.addStartAction(makeTriStateCheckbox);ajaxui.addStartAction(makeHighlight);ajaxui.addStartAction(viewer3d_models);ajaxui.addStartAction(registerDefaultShortcuts);ajaxui.addStartAction(CommandPalette.rememberPart);ajaxui.addStartAction(EngineeringCalculator.init);ajaxui.addStartAction(FilterBuilder.init);ajaxui.addStartAction(LabelDesigner.init);ajaxui.addStartAction(StatisticsDashboard.init);ajaxui.addStartAction(OrderCart.init);ajaxui.addAjaxCompleteAction(addCollapsedClass);ajaxui.addAjaxCompleteAction(fixSelectPaginationHeight);ajaxui.addAjaxCompleteAction(registerHoverImages);ajaxui.addAjaxCompleteAction(makeSortTable);ajaxui.addAjaxCompleteAction(makeFileInput);ajaxui.addAjaxCompleteAction(makeTooltips);ajaxui.addAjaxCompleteAction(registerX3DOM);ajaxui.addAjaxCompleteAction(registerBootstrapSelect);ajaxui.addAjaxCompleteAction(LocalizedNumberInput.init);ajaxui.addAjaxCompleteAction(registerAutoRefresh);ajaxui.addAjaxCompleteAction(scrollUpForMsg);ajaxui.addAjaxCompleteAction(rightClickSubmit);ajaxui.addAjaxCompleteAction(makeTriStateCheckbox);ajaxui.addAjaxCompleteAction(makeHighlight);ajaxui.addAjaxCompleteAction(viewer3d_models);ajaxui.addAjaxCompleteAction(CommandPalette.rememberPart);ajaxui.addAjaxCompleteAction(EngineeringCalculator.init);ajaxui.addAjaxCompleteAction(FilterBuilder.init);ajaxui.addAjaxCompleteAction(LabelDesigner.init);ajaxui.addAjaxCompleteAction(StatisticsDashboard.init);ajaxui.addAjaxCompleteAction(OrderCart.init);ajaxui.start()});function makeTypeAhead(){if($("#models-search").length&&!$("#models-search").hasClass("initialized")){$("#models-search").addClass("initialized");PartDbApiClient.getInstance().get3dModelFiles().done(function(data){$("#models-search").typeahead({source:data})})}}function makeTriStateCheckbox(){$(".tristate").tristate({checked:"true",unchecked:"false",indeterminate:"indeterminate"})}function registerHoverImages(){"use strict";$("img[rel=popover]").popover({html:true,trigger:"hover",placement:"auto",container:"body",content:function(){return'<img class="img-responsive" src="'+this.src+'" />'}})}function makeSortTable(){"use strict";var table=$($.fn.dataTable.tables()).DataTable();table.fixedHeader.adjust();$(".export-helper").each(function(index){var input=$(this).siblings("input");var that=this;$(this).text(input.val().toString())});$.extend(true,$.fn.DataTable.Buttons.defaults,{dom:{container:{className:"dt-buttons btn-group pull-right"},button:{className:"btn btn-default btn-xs"},collection:{tag:"ul",className:"dt-button-collection dropdown-menu",button:{tag:"li",className:"dt-button",active:"active",disabled:"disabled"},buttonLiner:{tag:"a",className:""}}}});var exportFooter=function(){return"Generated by Part-DB on "+(new Date).toLocaleString()};var exportTitle=function(){if($("#export-title").length){return $("#export-title").text()}return"*"};var exportMessageTop=function(){if($("#export-messageTop").length){return $("#export-messageTop").text()}return"*"};UserSettings.getInstance().load().always(function(){if(!$.fn.DataTable.isDataTable(".table-sortable")){$(".table-sortable thead tr").each(function(){$(this).children("th").eq(1).addClass("sort-natural")});var layout_options=TableLayouts.getInstance().prepare($(".table-sortable"));var server_side=$(".table-sortable[data-server-side]");var server_options=server_side.length?PartsTable.getInstance().getOptions(server_side):{};var table_1=$(".table-sortable").DataTable($.extend({paging:false,ordering:true,info:false,fixedHeader:true,searching:false,select:$(".table-sortable").hasClass("table-selectable")?{style:"os",selector:"td:not(.no-select)"}:false,order:[],buttons:$(".table-sortable").hasClass("table-export")?[{extend:"copyHtml5",text:'<i class="fas fa-copy fa-fw"></i>',titleAttr:"Copy",exportOptions:{columns:":not(.no-export)"}},{extend:"excelHtml5",text:'<i class="fas fa-file-excel fa-fw"></i>',titleAttr:"Excel",exportOptions:{columns:":not(.no-export)"},messageBottom:exportFooter,messageTop:exportMessageTop,title:exportTitle},{extend:"csvHtml5",text:'<i class="fas fa-file-alt fa-fw"></i>',titleAttr:"CSV",exportOptions:{columns:":not(.no-export)"}},{extend:"pdfHtml5",text:'<i class="fas fa-file-pdf fa-fw"></i>',titleAttr:"PDF",exportOptions:{columns:":not(.no-export)"},messageBottom:exportFooter,messageTop:exportMessageTop,title:exportTitle},{extend:"print",text:'<i class="fas fa-print fa-fw"></i>',titleAttr:"Print",exportOptions:{columns:":not(.no-export)"},messageBottom:exportFooter,messageTop:exportMessageTop,title:exportTitle}]:null,columnDefs:[{targets:"sort-natural",type:"natural-nohtml"},{targets:"no-sort",orderable:false}]},server_options,layout_options));if($("#auto_sort").val()==true&&!server_side.length&&!layout_options.hasOwnProperty("order")){table_1.columns(".order-default").order("asc").draw()}table_1.on("select deselect",function(e,dt,type,indexes){var data=table_1.rows({selected:true});var count=data.count();var tmp=[];if(count>0){$(".select_actions").show();$(".selected_n").text(count);for(var _i=0,_a=data[0];_i<_a.length;_i++){var n=_a[_i];tmp.push($(data.row(n).node()).find("input").val())}}else{$(".select_actions").hide()}var str=tmp.join();$("input[name='selected_ids']").val(str)});for(var n=0;n<table_1.context.length;n++){var my_panel_header=$(table_1.table(n).container()).closest(".panel").find(".panel-heading");table_1.table(n).buttons().container().appendTo(my_panel_header)}TableLayouts.getInstance().init(table_1)}})}function makeFileInput(){"use strict";$(".file").fileinput()}function registerJumpToTop(){$(window).scroll(function(){if($(this).scrollTop()>50){$("#back-to-top").fadeIn()}else{$("#back-to-top").fadeOut()}});$("#back-to-top").click(function(){$("#back-to-top").tooltip("hide");$("body,html").animate({scrollTop:0},800);return false}).tooltip("show")}function rightClickSubmit(){var _ajaxui=AjaxUI.getInstance();$("button.rightclick").off("contextmenu").contextmenu(function(event){event.preventDefault();var form=$(this).closest("form");form.append('<input type="hidden" name="rightclicked" value="true">');_ajaxui.submitFormSubmitBtn(form,this);return false})}function treeviewBtnInit(){$(".tree-btns").click(function(event){event.preventDefault();$(this).parents("div.dropdown").removeClass("open");var mode=$(this).data("mode");var target=$(this).data("target");var text=$(this).text()+" \n<span class='caret'></span>";if(mode==="collapse"){SidebarTree.get(target).collapseAll()}else if(mode==="expand"){SidebarTree.get(target).expandAll()}else{Cookies.set("tree_datasource_"+target,mode);ajaxui.treeLoadDataSource(target,mode)}return false})}function registerX3DOM(){return __awaiter(this,void 0,void 0,function(){return __generator(this,function(_a){if($("x3d").length){try{x3dom.reload()}catch(e){}}return[2]})})}function registerBootstrapSelect(){return __awaiter(this,void 0,void 0,function(){return __generator(this,function(_a){$(".selectpicker").selectpicker();return[2]})})}function addCollapsedClass(){$("div.collapse.panel-collapse").siblings("div.panel-heading").children('a[data-toggle="collapse"]').addClass("collapsed")}function registerAutoRefresh(){var val=$("#autorefresh").val();if(val>0){window.setTimeout(reloadPage,val)}}function fixSelectPaginationHeight(){$(".pagination>li>select").css("height",parseInt($(".pagination").css("height")))}$("#search-submit").click(function(event){$("#searchbar").removeClass("in")});function makeHighlight(){var highlight=$("#highlight").val();if(typeof highlight!=="undefined"&&highlight!=""){$("table").highlight(highlight,{element:"span"})}}function makeTooltips(){return __awaiter(this,void 0,void 0,function(){return __generator(this,function(_a){$("a[title]").tooltip("hide").tooltip({container:"body"});$("button[title]").tooltip("hide").tooltip({container:"body"});return[2]})})}function viewer3d_models(){if(!$("#models-picker").length)return;var dir="";function update(){var name=$("#models-picker").val();if(dir=="")return;var path="models/"+dir+"/"+name;$("#foot3d-model").attr("url",path);$("#foot3d-model2").attr("url",path);$("#path").text(path)}$("#models-picker").change(update);function node_handler(event,data){dir=data.href;PartDbApiClient.getInstance().get3dModelFiles(dir).done(function(list){$("#models-picker").empty();list.forEach(function(element){$("<option/>").val(element).text(element).appendTo("#models-picker");$("#models-picker").selectpicker("refresh");update()})})}PartDbApiClient.getInstance().get3dModelDirTree().done(function(tree){$("#tree-footprint").treeview({data:tree,enableLinks:false,showIcon:false,showBorder:true,onNodeSelected:node_handler}).treeview("collapseAll",{silent:true})});$("#models-search-go").click(function(){var name=$("#models-search").val();var path="models/"+name;$("#foot3d-model").attr("url",path);$("#foot3d-model2").attr("url",path);$("#path").text(path)})}$(window).resize(function(){var height=$("#main-navbar").height()+10;$("body").css("padding-top",height);$("#fixed-sidebar").css("top",height)});$(window).on("load",function(){var height=$("#main-navbar").height()+10;$("body").css("padding-top",height);$("#fixed-sidebar").css("top",height)});
\ No newline at end of file
@@ -0,0 +1,445 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      API Models
+ * **************************************************************************************
+ ****************************************************************************************/
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      PartDbApiClient Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * A typed wrapper around the routes of api.php (version 1.0.0).
+ * All methods return the jqXHR object of the request, so callbacks can be attached via done(), fail() or then().
+ */
+var PartDbApiClient = /** @class */ (function () {
+    function PartDbApiClient() {
+    }
+    /**
+     * Gets a instance of PartDbApiClient. If no instance exits, then a new one is created.
+     * @returns {PartDbApiClient} A instance of PartDbApiClient.
+     */
+    PartDbApiClient.getInstance = function () {
+        if (PartDbApiClient.singleton == null || PartDbApiClient.singleton == undefined) {
+            PartDbApiClient.singleton = new PartDbApiClient();
+        }
+        return PartDbApiClient.singleton;
+    };
+    /****************************************************************************
+     * Structural elements
+     ***************************************************************************/
+    PartDbApiClient.prototype.getCategory = function (id) {
+        return this.get("categories/" + id);
+    };
+    PartDbApiClient.prototype.getLocation = function (id) {
+        return this.get("locations/" + id);
+    };
+    PartDbApiClient.prototype.getFootprint = function (id) {
+        return this.get("footprints/" + id);
+    };
+    PartDbApiClient.prototype.getManufacturer = function (id) {
+        return this.get("manufacturers/" + id);
+    };
+    PartDbApiClient.prototype.getSupplier = function (id) {
+        return this.get("suppliers/" + id);
+    };
+    PartDbApiClient.prototype.getAttachementType = function (id) {
+        return this.get("attachementtypes/" + id);
+    };
+    /****************************************************************************
+     * Parts
+     ***************************************************************************/
+    /**
+     * Gets a single part (in verbose mode, so all fields are available).
+     * @param {number} id The ID of the part.
+     */
+    PartDbApiClient.prototype.getPart = function (id) {
+        return this.get("parts/" + id);
+    };
+    PartDbApiClient.prototype.getAllParts = function () {
+        return this.get("parts");
+    };
+    PartDbApiClient.prototype.getNoPriceParts = function () {
+        return this.get("parts/noprice");
+    };
+    PartDbApiClient.prototype.getOrderedParts = function () {
+        return this.get("parts/ordered");
+    };
+    PartDbApiClient.prototype.getObsoleteParts = function () {
+        return this.get("parts/obsolete");
+    };
+    PartDbApiClient.prototype.getPartsByCategory = function (id) {
+        return this.get("parts/by-category/" + id);
+    };
+    PartDbApiClient.prototype.getPartsByLocation = function (id) {
+        return this.get("parts/by-location/" + id);
+    };
+    PartDbApiClient.prototype.getPartsByFootprint = function (id) {
+        return this.get("parts/by-footprint/" + id);
+    };
+    PartDbApiClient.prototype.getPartsByManufacturer = function (id) {
+        return this.get("parts/by-manufacturer/" + id);
+    };
+    PartDbApiClient.prototype.getPartsBySupplier = function (id) {
+        return this.get("parts/by-supplier/" + id);
+    };
+    /**
+     * Search parts, whose name or description contains the given keyword.
+     * The parts, whose name matches the keyword best, come first.
+     * @param {string} keyword The keyword to search for.
+     * @param {ApiSearchOptions} options The options of the search.
+     */
+    PartDbApiClient.prototype.searchPartsByKeyword = function (keyword, options) {
+        if (options === void 0) { options = {}; }
+        return this.get("parts/by-keyword/" + encodeURIComponent(keyword), options);
+    };
+    /**
+     * Search parts, whose name or description matches the given regular expression.
+     * @param {string} regex The regular expression (without delimiters).
+     * @param {ApiSearchOptions} options The options of the search.
+     */
+    PartDbApiClient.prototype.searchPartsByRegex = function (regex, options) {
+        if (options === void 0) { options = {}; }
+        return this.get("parts/by-regex/" + encodeURIComponent(regex), options);
+    };
+    /**
+     * Gets a page of all parts matching the filters, like it is shown in the table of all parts.
+     * @param {ApiPartsTableQuery} query The page, the sort order and the filters.
+     */
+    PartDbApiClient.prototype.getPartsTable = function (query) {
+        return this.get("parts/table", query);
+    };
+    /**
+     * Withdraws or adds parts. The request fails, if there are not enough parts in stock or the instock is unknown.
+     * @param {number} id The ID of the part.
+     * @param {number} change The number of added parts (negative values withdraw parts).
+     * @returns The request, which returns the changed part.
+     */
+    PartDbApiClient.prototype.changeInstock = function (id, change) {
+        return this.send("POST", "parts/" + id + "/instock", { change: change });
+    };
+    /**
+     * Executes an action for multiple parts. Parts, for which the action failed, are reported in the results.
+     * The request fails, if the action or the parameters are invalid.
+     * @param {ApiBulkAction} action The action (e.g. "move").
+     * @param {number[]} ids The IDs of the parts.
+     * @param {object} params The parameters of the action (e.g. {target: "c12"}), see bulkEditParts() in lib.php
+     */
+    PartDbApiClient.prototype.bulkEditParts = function (action, ids, params) {
+        if (params === void 0) { params = {}; }
+        return this.send("POST", "parts/bulk", { action: action, ids: ids, params: params });
+    };
+    /**
+     * Changes single values of a part, like they are edited in the part tables. Values, which could not be saved,
+     * are reported in the results.
+     * @param {number} id The ID of the part.
+     * @param {object} values The new values, the keys are the captions of the columns (e.g. {instock: 5})
+     * @param {string} table_type The type of the table, for which the changed row is returned (e.g. "all_parts")
+     */
+    PartDbApiClient.prototype.editPartValues = function (id, values, table_type) {
+        return this.send("PATCH", "parts/" + id, { values: values, table_type: table_type });
+    };
+    /**
+     * Gets the modules of the barcode of a part, so it can be drawn in the browser.
+     * @param {number} id The ID of the part.
+     * @param {"EAN8" | "QR"} type The type of the barcode.
+     */
+    PartDbApiClient.prototype.getPartBarcode = function (id, type) {
+        return this.get("parts/" + id + "/barcode/" + type);
+    };
+    /****************************************************************************
+     * Devices
+     ***************************************************************************/
+    /**
+     * Gets what is needed to build the device several times.
+     * @param {number} id The ID of the device.
+     * @param {number} quantity How often the device should be built.
+     */
+    PartDbApiClient.prototype.getBuildPlan = function (id, quantity) {
+        return this.get("devices/" + id + "/build-plan", { quantity: quantity });
+    };
+    /**
+     * Withdraws the parts for building the device several times. The request fails (and nothing is withdrawn), if
+     * there are not enough parts in stock.
+     * @param {number} id The ID of the device.
+     * @param {number} quantity How often the device is built.
+     * @returns The request, which returns the build plan with the new instocks.
+     */
+    PartDbApiClient.prototype.buildDevice = function (id, quantity) {
+        return this.send("POST", "devices/" + id + "/build", { quantity: quantity });
+    };
+    /****************************************************************************
+     * Order cart
+     ***************************************************************************/
+    /**
+     * Gets the parts to order, grouped by their supplier.
+     */
+    PartDbApiClient.prototype.getOrderCart = function () {
+        return this.get("order-cart");
+    };
+    /**
+     * Gets the order file for a supplier, which can be uploaded to the shop of the supplier.
+     * @param {number} supplier_id The ID of the supplier (0 for the parts without a supplier).
+     * @param {string} format The ID of the format (see ApiOrderCart.export_formats).
+     * @param {number[]} part_ids The parts, which should be exported (all parts of the supplier if empty).
+     */
+    PartDbApiClient.prototype.exportOrderCart = function (supplier_id, format, part_ids) {
+        if (part_ids === void 0) { part_ids = []; }
+        return this.get("order-cart/" + supplier_id + "/export", { format: format, parts: part_ids.join(",") });
+    };
+    /**
+     * Changes the status of parts in the order cart.
+     * @param {number[]} part_ids The IDs of the parts.
+     * @param {ApiOrderCartStatus} status The new status.
+     * @returns The request, which returns the new order cart.
+     */
+    PartDbApiClient.prototype.setOrderCartStatus = function (part_ids, status) {
+        return this.send("POST", "order-cart/status", { parts: part_ids, status: status });
+    };
+    /****************************************************************************
+     * Labels
+     ***************************************************************************/
+    /**
+     * Gets all templates of the label designer.
+     */
+    PartDbApiClient.prototype.getLabelTemplates = function () {
+        return this.get("labels/templates");
+    };
+    /**
+     * Saves a template of the label designer. An existing template with the same name is overwritten.
+     * @param {string} name The name of the template.
+     * @param {LabelLayout} layout The layout of the label.
+     */
+    PartDbApiClient.prototype.saveLabelTemplate = function (name, layout) {
+        return this.send("PUT", "labels/templates/" + encodeURIComponent(name), { layout: layout });
+    };
+    /**
+     * Deletes a template of the label designer.
+     * @param {string} name The name of the template.
+     */
+    PartDbApiClient.prototype.deleteLabelTemplate = function (name) {
+        return this.send("DELETE", "labels/templates/" + encodeURIComponent(name), {});
+    };
+    /****************************************************************************
+     * Statistics
+     ***************************************************************************/
+    /**
+     * Gets the most used elements of the given type, sorted by their count.
+     * @param {ApiStatisticsType} type The type of the elements (e.g. "categories").
+     * @param {number} limit The maximum number of elements.
+     */
+    PartDbApiClient.prototype.getMostUsedStatistics = function (type, limit) {
+        if (limit === void 0) { limit = 25; }
+        return this.get("statistics/most-used/" + type, { limit: limit });
+    };
+    /**
+     * Gets the daily part count and stock value of the last days, the oldest day first.
+     * @param {number} days The number of days.
+     */
+    PartDbApiClient.prototype.getStatisticsHistory = function (days) {
+        if (days === void 0) { days = 90; }
+        return this.get("statistics/history", { days: days });
+    };
+    /**
+     * Saves the current part count and stock value as snapshot of today, so it is contained in the history.
+     */
+    PartDbApiClient.prototype.saveStatisticsSnapshot = function () {
+        return this.send("POST", "statistics/snapshot", {});
+    };
+    /****************************************************************************
+     * Changes
+     ***************************************************************************/
+    /**
+     * Gets the changes of the elements, which were made after the given change. The server waits until there are
+     * changes, but not longer than the given time (long polling).
+     * @param {number} since The ID of the last known change. Use null to only get the ID of the last change.
+     * @param {number} wait The maximum time in seconds, the server waits for changes (limited by the config).
+     */
+    PartDbApiClient.prototype.getChanges = function (since, wait) {
+        if (since === void 0) { since = null; }
+        if (wait === void 0) { wait = 10; }
+        //The request takes longer than the normal timeout, it must not be aborted when another page is loaded and
+        //its errors are handled by the caller (not by AjaxErrorHandler)
+        return $.ajax({
+            url: this.getURL("changes"),
+            data: since !== null ? { since: since, wait: wait } : {},
+            dataType: "json",
+            global: false,
+            timeout: (wait + 10) * 1000,
+            beforeSend: $.noop
+        });
+    };
+    /****************************************************************************
+     * System
+     ***************************************************************************/
+    PartDbApiClient.prototype.getSystemInfo = function () {
+        return this.get("system/info");
+    };
+    /****************************************************************************
+     * User
+     ***************************************************************************/
+    /**
+     * Gets the settings of the user interface, which the current user has saved.
+     */
+    PartDbApiClient.prototype.getUserSettings = function () {
+        return this.get("user/settings");
+    };
+    /**
+     * Saves a setting of the user interface for the current user. Not possible for the anonymous user.
+     * @param {string} key The key of the setting (e.g. "keymap")
+     * @param value The new value, which must be serializable as JSON. Use null to remove the setting.
+     * @returns The request, which returns all settings of the user.
+     */
+    PartDbApiClient.prototype.setUserSetting = function (key, value) {
+        return this.send("PUT", "user/settings/" + encodeURIComponent(key), { value: value });
+    };
+    /**
+     * Gets the column layouts of a table type, which were shared by the users.
+     * @param {string} type The table type (e.g. "category_parts")
+     */
+    PartDbApiClient.prototype.getTableLayouts = function (type) {
+        return this.get("tables/" + encodeURIComponent(type) + "/layouts");
+    };
+    /**
+     * Shares a column layout of a table type with the other users. An existing layout with the same name is
+     * overwritten, if it was shared by the current user.
+     * @param {string} type The table type (e.g. "category_parts")
+     * @param {string} name The name of the layout.
+     * @param {TableLayout} layout The layout.
+     */
+    PartDbApiClient.prototype.shareTableLayout = function (type, name, layout) {
+        return this.send("PUT", "tables/" + encodeURIComponent(type) + "/layouts/"
+            + encodeURIComponent(name), { layout: layout });
+    };
+    /**
+     * Deletes a shared column layout. Only possible for the user, who has shared it.
+     * @param {string} type The table type (e.g. "category_parts")
+     * @param {string} name The name of the layout.
+     */
+    PartDbApiClient.prototype.deleteTableLayout = function (type, name) {
+        return this.send("DELETE", "tables/" + encodeURIComponent(type) + "/layouts/"
+            + encodeURIComponent(name), {});
+    };
+    /****************************************************************************
+     * Trees
+     ***************************************************************************/
+    /**
+     * Gets the treeview nodes for the given data source.
+     * @param {ApiTreeDataSource} datasource The data source of the tree (e.g. "categories")
+     * @param {number} root_id When given, only the subtree below the element with this ID is returned.
+     * Not supported for the "tools" data source.
+     */
+    PartDbApiClient.prototype.getTree = function (datasource, root_id) {
+        var route = "tree/" + datasource;
+        if (typeof root_id !== "undefined" && datasource !== "tools") {
+            route += "/" + root_id;
+        }
+        return this.get(route);
+    };
+    /**
+     * Gets only the first levels of the tree for the given data source. Nodes whose children are not loaded,
+     * have the lazyLoad flag set. Their children can be loaded with the ID of the node as root_id.
+     * Not supported for the "tools" data source.
+     * @param {ApiTreeDataSource} datasource The data source of the tree (e.g. "categories")
+     * @param {number} root_id The ID of the element, whose children should be returned. 0 for the whole tree.
+     * @param {number} depth How many levels should be loaded.
+     * @param {number[]} expanded The IDs of elements, whose children should always be loaded (and expanded).
+     */
+    PartDbApiClient.prototype.getLazyTree = function (datasource, root_id, depth, expanded) {
+        if (expanded === void 0) { expanded = []; }
+        return this.get("tree/" + datasource + "/" + root_id, { depth: depth, expanded: expanded.join(",") });
+    };
+    /**
+     * Gets the tree for the given data source, which only contains the elements matching the keyword and their
+     * parents. The matching nodes have the searchResult flag set.
+     * Not supported for the "tools" data source.
+     * @param {ApiTreeDataSource} datasource The data source of the tree (e.g. "categories")
+     * @param {string} keyword The keyword to search for (case insensitive).
+     */
+    PartDbApiClient.prototype.searchTree = function (datasource, keyword) {
+        return this.get("tree/" + datasource, { search: keyword });
+    };
+    /**
+     * Moves an element of a tree to another parent element.
+     * @param {ApiMovableTreeDataSource} datasource The data source of the tree (e.g. "categories")
+     * @param {number} id The ID of the element.
+     * @param {number} parent_id The ID of the new parent element, 0 for the top level.
+     */
+    PartDbApiClient.prototype.moveTreeElement = function (datasource, id, parent_id) {
+        return this.send("PUT", "tree/" + datasource + "/" + id + "/parent", { parent_id: parent_id });
+    };
+    /**
+     * Deletes an element of a tree. Its subelements are moved to its parent element.
+     * @param {ApiStructuralTreeDataSource} datasource The data source of the tree (e.g. "categories")
+     * @param {number} id The ID of the element.
+     */
+    PartDbApiClient.prototype.deleteTreeElement = function (datasource, id) {
+        return this.send("DELETE", "tree/" + datasource + "/" + id, {});
+    };
+    /****************************************************************************
+     * Files
+     ***************************************************************************/
+    /**
+     * Gets a tree, containing all directories with 3D models.
+     */
+    PartDbApiClient.prototype.get3dModelDirTree = function () {
+        return this.get("3d_models/dir_tree");
+    };
+    /**
+     * Gets a list of all 3D model files (relative to the models/ folder).
+     * @param {string} dir When given, only the files in this directory are returned (relative to the directory).
+     */
+    PartDbApiClient.prototype.get3dModelFiles = function (dir) {
+        if (typeof dir !== "undefined" && dir !== "") {
+            return this.get("3d_models/files/" + encodeURIComponent(dir));
+        }
+        return this.get("3d_models/files");
+    };
+    /**
+     * Gets a list of all footprint images (relative to the img/footprints/ folder).
+     */
+    PartDbApiClient.prototype.getFootprintImageFiles = function () {
+        return this.get("img_files/files");
+    };
+    /****************************************************************************
+     * Helpers
+     ***************************************************************************/
+    /**
+     * Returns the absolute URL for the given route.
+     * @param {string} route The route relative to the API version (e.g. "parts/1")
+     * @returns {string} The URL, which can be used for requests.
+     */
+    PartDbApiClient.prototype.getURL = function (route) {
+        return BASE + "api.php/" + PartDbApiClient.API_VERSION + "/" + route;
+    };
+    /**
+     * Extracts the error message from a failed API request.
+     * @param {JQuery.jqXHR} xhr The jqXHR of the failed request.
+     * @returns {string} The message returned by the server, or the HTTP status text if none was returned.
+     */
+    PartDbApiClient.getErrorMessage = function (xhr) {
+        var error = xhr.responseJSON;
+        if (typeof error !== "undefined" && error !== null && error.errors && error.errors.length > 0) {
+            return error.errors.map(function (e) { return e.message; }).join("\n");
+        }
+        return xhr.statusText;
+    };
+    PartDbApiClient.prototype.get = function (route, params) {
+        return $.getJSON(this.getURL(route), params);
+    };
+    /**
+     * Sends the data as JSON body to the given route.
+     * @param {string} method The HTTP method (e.g. "POST" or "PUT")
+     */
+    PartDbApiClient.prototype.send = function (method, route, data) {
+        return $.ajax({
+            url: this.getURL(route),
+            method: method,
+            contentType: "application/json",
+            data: JSON.stringify(data),
+            dataType: "json"
+        });
+    };
+    PartDbApiClient.API_VERSION = "1.0.0";
+    return PartDbApiClient;
+}());
@@ -0,0 +1 @@
+var PartDbApiClient=function(){function PartDbApiClient(){}PartDbApiClient.getInstance=function(){if(PartDbApiClient.singleton==null||PartDbApiClient.singleton==undefined){PartDbApiClient.singleton=new PartDbApiClient}return PartDbApiClient.singleton};PartDbApiClient.prototype.getCategory=function(id){return this.get("categories/"+id)};PartDbApiClient.prototype.getLocation=function(id){return this.get("locations/"+id)};PartDbApiClient.prototype.getFootprint=function(id){return this.get("footprints/"+id)};PartDbApiClient.prototype.getManufacturer=function(id){return this.get("manufacturers/"+id)};PartDbApiClient.prototype.getSupplier=function(id){return this.get("suppliers/"+id)};PartDbApiClient.prototype.getAttachementType=function(id){return this.get("attachementtypes/"+id)};PartDbApiClient.prototype.getPart=function(id){return this.get("parts/"+id)};PartDbApiClient.prototype.getAllParts=function(){return this.get("parts")};PartDbApiClient.prototype.getNoPriceParts=function(){return this.get("parts/noprice")};PartDbApiClient.prototype.getOrderedParts=function(){return this.get("parts/ordered")};PartDbApiClient.prototype.getObsoleteParts=function(){return this.get("parts/obsolete")};PartDbApiClient.prototype.getPartsByCategory=function(id){return this.get("parts/by-category/"+id)};PartDbApiClient.prototype.getPartsByLocation=function(id){return this.get("parts/by-location/"+id)};PartDbApiClient.prototype.getPartsByFootprint=function(id){return this.get("parts/by-footprint/"+id)};PartDbApiClient.prototype.getPartsByManufacturer=function(id){return this.get("parts/by-manufacturer/"+id)};PartDbApiClient.prototype.getPartsBySupplier=function(id){return this.get("parts/by-supplier/"+id)};PartDbApiClient.prototype.searchPartsByKeyword=function(keyword,options){if(options===void 0){options={}}return this.get("parts/by-keyword/"+encodeURIComponent(keyword),options)};PartDbApiClient.prototype.searchPartsByRegex=function(regex,options){if(options===void 0){options={}}return this.get("parts/by-regex/"+encodeURIComponent(regex),options)};PartDbApiClient.prototype.getPartsTable=function(query){return this.get("parts/table",query)};PartDbApiClient.prototype.changeInstock=function(id,change){return this.send("POST","parts/"+id+"/instock",{change:change})};PartDbApiClient.prototype.bulkEditParts=function(action,ids,params){if(params===void 0){params={}}return this.send("POST","parts/bulk",{action:action,ids:ids,params:params})};PartDbApiClient.prototype.editPartValues=function(id,values,table_type){return this.send("PATCH","parts/"+id,{values:values,table_type:table_type})};PartDbApiClient.prototype.getPartBarcode=function(id,type){return this.get("parts/"+id+"/barcode/"+type)};PartDbApiClient.prototype.getBuildPlan=function(id,quantity){return this.get("devices/"+id+"/build-plan",{quantity:quantity})};PartDbApiClient.prototype.buildDevice=function(id,quantity){return this.send("POST","devices/"+id+"/build",{quantity:quantity})};PartDbApiClient.prototype.getOrderCart=function(){return this.get("order-cart")};PartDbApiClient.prototype.exportOrderCart=function(supplier_id,format,part_ids){if(part_ids===void 0){part_ids=[]}return this.get("order-cart/"+supplier_id+"/export",{format:format,parts:part_ids.join(",")})};PartDbApiClient.prototype.setOrderCartStatus=function(part_ids,status){return this.send("POST","order-cart/status",{parts:part_ids,status:status})};PartDbApiClient.prototype.getLabelTemplates=function(){return this.get("labels/templates")};PartDbApiClient.prototype.saveLabelTemplate=function(name,layout){return this.send("PUT","labels/templates/"+encodeURIComponent(name),{layout:layout})};PartDbApiClient.prototype.deleteLabelTemplate=function(name){return this.send("DELETE","labels/templates/"+encodeURIComponent(name),{})};PartDbApiClient.prototype.getMostUsedStatistics=function(type,limit){if(limit===void 0){limit=25}return this.get("statistics/most-used/"+type,{limit:limit})};PartDbApiClient.prototype.getStatisticsHistory=function(days){if(days===void 0){days=90}return this.get("statistics/history",{days:days})};PartDbApiClient.prototype.saveStatisticsSnapshot=function(){return this.send("POST","statistics/snapshot",{})};PartDbApiClient.prototype.getChanges=function(since,wait){if(since===void 0){since=null}if(wait===void 0){wait=10}return $.ajax({url:this.getURL("changes"),data:since!==null?{since:since,wait:wait}:{},dataType:"json",global:false,timeout:(wait+10)*1e3,beforeSend:$.noop})};PartDbApiClient.prototype.getSystemInfo=function(){return this.get("system/info")};PartDbApiClient.prototype.getUserSettings=function(){return this.get("user/settings")};PartDbApiClient.prototype.setUserSetting=function(key,value){return this.send("PUT","user/settings/"+encodeURIComponent(key),{value:value})};PartDbApiClient.prototype.getTableLayouts=function(type){return this.get("tables/"+encodeURIComponent(type)+"/layouts")};PartDbApiClient.prototype.shareTableLayout=function(type,name,layout){return this.send("PUT","tables/"+encodeURIComponent(type)+"/layouts/"+encodeURIComponent(name),{layout:layout})};PartDbApiClient.prototype.deleteTableLayout=function(type,name){return this.send("DELETE","tables/"+encodeURIComponent(type)+"/layouts/"+encodeURIComponent(name),{})};PartDbApiClient.prototype.getTree=function(datasource,root_id){var route="tree/"+datasource;if(typeof root_id!=="undefined"&&datasource!=="tools"){route+="/"+root_id}return this.get(route)};PartDbApiClient.prototype.getLazyTree=function(datasource,root_id,depth,expanded){if(expanded===void 0){expanded=[]}return this.get("tree/"+datasource+"/"+root_id,{depth:depth,expanded:expanded.join(",")})};PartDbApiClient.prototype.searchTree=function(datasource,keyword){return this.get("tree/"+datasource,{search:keyword})};PartDbApiClient.prototype.moveTreeElement=function(datasource,id,parent_id){return this.send("PUT","tree/"+datasource+"/"+id+"/parent",{parent_id:parent_id})};PartDbApiClient.prototype.deleteTreeElement=function(datasource,id){return this.send("DELETE","tree/"+datasource+"/"+id,{})};PartDbApiClient.prototype.get3dModelDirTree=function(){return this.get("3d_models/dir_tree")};PartDbApiClient.prototype.get3dModelFiles=function(dir){if(typeof dir!=="undefined"&&dir!==""){return this.get("3d_models/files/"+encodeURIComponent(dir))}return this.get("3d_models/files")};PartDbApiClient.prototype.getFootprintImageFiles=function(){return this.get("img_files/files")};PartDbApiClient.prototype.getURL=function(route){return BASE+"api.php/"+PartDbApiClient.API_VERSION+"/"+route};PartDbApiClient.getErrorMessage=function(xhr){var error=xhr.responseJSON;if(typeof error!=="undefined"&&error!==null&&error.errors&&error.errors.length>0){return error.errors.map(function(e){return e.message}).join("\n")}return xhr.statusText};PartDbApiClient.prototype.get=function(route,params){return $.getJSON(this.getURL(route),params)};PartDbApiClient.prototype.send=function(method,route,data){return $.ajax({url:this.getURL(route),method:method,contentType:"application/json",data:JSON.stringify(data),dataType:"json"})};PartDbApiClient.API_VERSION="1.0.0";return PartDbApiClient}();
\ No newline at end of file
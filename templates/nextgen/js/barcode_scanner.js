@@ -0,0 +1,207 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      BarcodeScanner Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * Handles the input of USB barcode scanners, which work like a keyboard. A scanner types the code much faster than a
+ * human, so the keys of such a burst are removed from the focused field and the code is resolved instead:
+ * Parts (the EAN8 and QR codes of the part labels) are opened and a dialog to withdraw or add parts is shown,
+ * store locations ("$L00012" or QR) are opened. Codes, which are not from Part-DB, are typed into the field like before.
+ */
+var BarcodeScanner = /** @class */ (function () {
+    function BarcodeScanner() {
+        this.buffer = "";
+        this.last_key = 0;
+        /** The element, which had the focus, when the burst started and its value before the burst. */
+        this.target = null;
+        this.target_value = null;
+        /** The part shown in the dialog. */
+        this.part = null;
+        /** True if the instock was changed in the dialog, so the page must be reloaded. */
+        this.changed = false;
+    }
+    /**
+     * Gets a instance of BarcodeScanner. If no instance exits, then a new one is created.
+     * @returns {BarcodeScanner} A instance of BarcodeScanner.
+     */
+    BarcodeScanner.getInstance = function () {
+        if (BarcodeScanner.singleton == null || BarcodeScanner.singleton == undefined) {
+            BarcodeScanner.singleton = new BarcodeScanner();
+        }
+        return BarcodeScanner.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Starts listening for scanned codes. Called by AjaxUI.start()
+     */
+    BarcodeScanner.prototype.start = function () {
+        var _this = this;
+        //Capture the keys, before they are typed into a field or handled by the keyboard shortcuts
+        document.addEventListener("keydown", this.onKeyDown.bind(this), true);
+        $(".barcode-change").click(function () {
+            _this.changeInstock(Number($(this).data("direction")));
+        });
+        $("#barcode-modal").on("shown.bs.modal", function () {
+            $("#barcode-quantity").focus().select();
+        }).on("hidden.bs.modal", function () {
+            if (_this.changed && _this.part !== null && BarcodeScanner.isPartPage(_this.part.id)) {
+                Router.getInstance().reload();
+            }
+            _this.changed = false;
+        });
+    };
+    /**
+     * Resolves a scanned code and opens the part or store location.
+     * @param {string} code The scanned code.
+     * @returns {boolean} True if the code is a code of Part-DB, false otherwise.
+     */
+    BarcodeScanner.prototype.handleCode = function (code) {
+        var matches;
+        //The EAN8 code contains the ID with 7 digits and a check digit, which some scanners don't output
+        if ((matches = /^(\d{7})\d?$/.exec(code)) !== null || (matches = /^Part-DB; Part: (\d+)$/.exec(code)) !== null) {
+            this.openPart(Number(matches[1]));
+            return true;
+        }
+        if ((matches = /^\$L(\d{5,})$/i.exec(code)) !== null
+            || (matches = /^Part-DB; Storelocation: (\d+)$/.exec(code)) !== null) {
+            Router.getInstance().navigateTo("location_parts", "lid=" + Number(matches[1]));
+            return true;
+        }
+        return false;
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    /**
+     * Collects the keys of a burst. The Enter key at the end of a burst finishes the scan.
+     */
+    BarcodeScanner.prototype.onKeyDown = function (event) {
+        if (event.ctrlKey || event.altKey || event.metaKey) {
+            this.buffer = "";
+            return;
+        }
+        var now = Date.now();
+        if (now - this.last_key > BarcodeScanner.MAX_KEY_INTERVAL) {
+            //A new burst begins
+            this.buffer = "";
+            this.target = document.activeElement;
+            this.target_value = $(this.target).is("input, textarea") ? $(this.target).val() : null;
+        }
+        this.last_key = now;
+        if (event.key === "Enter") {
+            if (this.buffer.length >= BarcodeScanner.MIN_LENGTH) {
+                this.finishScan(event);
+            }
+            this.buffer = "";
+            return;
+        }
+        if (typeof event.key !== "string" || event.key.length !== 1) {
+            return;
+        }
+        this.buffer += event.key;
+        if (this.buffer.length >= BarcodeScanner.SUPPRESS_AFTER) {
+            event.preventDefault();
+            event.stopPropagation();
+        }
+    };
+    /**
+     * Called when the Enter key ends a burst. The first keys of the burst were typed into the focused field, so its
+     * value is restored. If the code is not a code of Part-DB, it is typed into the field and the Enter key is passed
+     * (e.g. to submit the search).
+     */
+    BarcodeScanner.prototype.finishScan = function (event) {
+        var code = this.buffer;
+        var field = $(this.target);
+        if (this.target_value !== null) {
+            field.val(this.target_value);
+        }
+        if (this.handleCode(code)) {
+            event.preventDefault();
+            event.stopPropagation();
+        }
+        else if (this.target_value !== null) {
+            field.val(this.target_value + code);
+        }
+    };
+    /**
+     * Opens the page of the part and shows the dialog to change its instock.
+     */
+    BarcodeScanner.prototype.openPart = function (id) {
+        var _this = this;
+        this.part = null;
+        this.changed = false;
+        if (!BarcodeScanner.isPartPage(id)) {
+            Router.getInstance().navigateTo("part_info", "pid=" + id);
+        }
+        $("#barcode-error, #barcode-success, #barcode-part").prop("hidden", true);
+        $("#barcode-loading").prop("hidden", false);
+        $(".barcode-change").prop("disabled", true);
+        $("#barcode-quantity").val(1);
+        $("#barcode-modal").modal("show");
+        PartDbApiClient.getInstance().getPart(id)
+            .done(function (part) {
+            _this.showPart(part);
+        })
+            .fail(function (xhr) {
+            $("#barcode-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+        })
+            .always(function () {
+            $("#barcode-loading").prop("hidden", true);
+        });
+    };
+    /**
+     * Shows the part in the dialog.
+     */
+    BarcodeScanner.prototype.showPart = function (part) {
+        this.part = part;
+        //-1 means, that the user is not allowed to see the instock, -2 that the instock is unknown
+        var instock = Number(part.instock);
+        $("#barcode-part").prop("hidden", false);
+        $("#barcode-part-name").text(part.name);
+        $("#barcode-part-description").text(part.description_raw);
+        $("#barcode-part-location").text(part.storelocation !== null ? part.storelocation.fullpath : "-");
+        $("#barcode-part-instock").text(instock >= 0 ? String(instock) : "?");
+        $("#barcode-instock-unknown").prop("hidden", instock !== -2);
+        $(".barcode-change").prop("disabled", instock < 0);
+    };
+    /**
+     * Withdraws or adds the number of parts entered in the dialog.
+     * @param {number} direction -1 to withdraw the parts, 1 to add them.
+     */
+    BarcodeScanner.prototype.changeInstock = function (direction) {
+        var _this = this;
+        var quantity = Math.floor(Number($("#barcode-quantity").val()));
+        if (this.part === null || !(quantity > 0)) {
+            return;
+        }
+        $("#barcode-error, #barcode-success").prop("hidden", true);
+        $(".barcode-change").prop("disabled", true);
+        PartDbApiClient.getInstance().changeInstock(this.part.id, direction * quantity)
+            .done(function (part) {
+            _this.changed = true;
+            _this.showPart(part);
+            $("#barcode-success").prop("hidden", false);
+        })
+            .fail(function (xhr) {
+            $("#barcode-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            $(".barcode-change").prop("disabled", false);
+        });
+    };
+    /**
+     * Checks if the current page shows the part with the given ID.
+     */
+    BarcodeScanner.isPartPage = function (id) {
+        var route = Router.getInstance().matchRoute(location.href);
+        return route !== null && route.name === "part_info" && new RegExp("[?&]pid=" + id + "(&|$)").test(location.search);
+    };
+    /** The maximum time in ms between two keys of a scanner. Humans need longer, even if they type fast. */
+    BarcodeScanner.MAX_KEY_INTERVAL = 40;
+    /** The minimum length of a code. Shorter bursts (like a key pressed twice) are ignored. */
+    BarcodeScanner.MIN_LENGTH = 5;
+    /** The number of keys, after that a burst is considered to be a scan and the keys are not typed anymore. */
+    BarcodeScanner.SUPPRESS_AFTER = 3;
+    return BarcodeScanner;
+}());
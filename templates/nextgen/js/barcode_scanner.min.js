@@ -0,0 +1 @@
+var BarcodeScanner=function(){function BarcodeScanner(){this.buffer="";this.last_key=0;this.target=null;this.target_value=null;this.part=null;this.changed=false}BarcodeScanner.getInstance=function(){if(BarcodeScanner.singleton==null||BarcodeScanner.singleton==undefined){BarcodeScanner.singleton=new BarcodeScanner}return BarcodeScanner.singleton};BarcodeScanner.prototype.start=function(){var _this=this;document.addEventListener("keydown",this.onKeyDown.bind(this),true);$(".barcode-change").click(function(){_this.changeInstock(Number($(this).data("direction")))});$("#barcode-modal").on("shown.bs.modal",function(){$("#barcode-quantity").focus().select()}).on("hidden.bs.modal",function(){if(_this.changed&&_this.part!==null&&BarcodeScanner.isPartPage(_this.part.id)){Router.getInstance().reload()}_this.changed=false})};BarcodeScanner.prototype.handleCode=function(code){var matches;if((matches=/^(\d{7})\d?$/.exec(code))!==null||(matches=/^Part-DB; Part: (\d+)$/.exec(code))!==null){this.openPart(Number(matches[1]));return true}if((matches=/^\$L(\d{5,})$/i.exec(code))!==null||(matches=/^Part-DB; Storelocation: (\d+)$/.exec(code))!==null){Router.getInstance().navigateTo("location_parts","lid="+Number(matches[1]));return true}return false};BarcodeScanner.prototype.onKeyDown=function(event){if(event.ctrlKey||event.altKey||event.metaKey){this.buffer="";return}var now=Date.now();if(now-this.last_key>BarcodeScanner.MAX_KEY_INTERVAL){this.buffer="";this.target=document.activeElement;this.target_value=$(this.target).is("input, textarea")?$(this.target).val():null}this.last_key=now;if(event.key==="Enter"){if(this.buffer.length>=BarcodeScanner.MIN_LENGTH){this.finishScan(event)}this.buffer="";return}if(typeof event.key!=="string"||event.key.length!==1){return}this.buffer+=event.key;if(this.buffer.length>=BarcodeScanner.SUPPRESS_AFTER){event.preventDefault();event.stopPropagation()}};BarcodeScanner.prototype.finishScan=function(event){var code=this.buffer;var field=$(this.target);if(this.target_value!==null){field.val(this.target_value)}if(this.handleCode(code)){event.preventDefault();event.stopPropagation()}else if(this.target_value!==null){field.val(this.target_value+code)}};BarcodeScanner.prototype.openPart=function(id){var _this=this;this.part=null;this.changed=false;if(!BarcodeScanner.isPartPage(id)){Router.getInstance().navigateTo("part_info","pid="+id)}$("#barcode-error, #barcode-success, #barcode-part").prop("hidden",true);$("#barcode-loading").prop("hidden",false);$(".barcode-change").prop("disabled",true);$("#barcode-quantity").val(1);$("#barcode-modal").modal("show");PartDbApiClient.getInstance().getPart(id).done(function(part){_this.showPart(part)}).fail(function(xhr){$("#barcode-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr))}).always(function(){$("#barcode-loading").prop("hidden",true)})};BarcodeScanner.prototype.showPart=function(part){this.part=part;var instock=Number(part.instock);$("#barcode-part").prop("hidden",false);$("#barcode-part-name").text(part.name);$("#barcode-part-description").text(part.description_raw);$("#barcode-part-location").text(part.storelocation!==null?part.storelocation.fullpath:"-");$("#barcode-part-instock").text(instock>=0?String(instock):"?");$("#barcode-instock-unknown").prop("hidden",instock!==-2);$(".barcode-change").prop("disabled",instock<0)};BarcodeScanner.prototype.changeInstock=function(direction){var _this=this;var quantity=Math.floor(Number($("#barcode-quantity").val()));if(this.part===null||!(quantity>0)){return}$("#barcode-error, #barcode-success").prop("hidden",true);$(".barcode-change").prop("disabled",true);PartDbApiClient.getInstance().changeInstock(this.part.id,direction*quantity).done(function(part){_this.changed=true;_this.showPart(part);$("#barcode-success").prop("hidden",false)}).fail(function(xhr){$("#barcode-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr));$(".barcode-change").prop("disabled",false)})};BarcodeScanner.isPartPage=function(id){var route=Router.getInstance().matchRoute(location.href);return route!==null&&route.name==="part_info"&&new RegExp("[?&]pid="+id+"(&|$)").test(location.search)};BarcodeScanner.MAX_KEY_INTERVAL=40;BarcodeScanner.MIN_LENGTH=5;BarcodeScanner.SUPPRESS_AFTER=3;return BarcodeScanner}();
\ No newline at end of file
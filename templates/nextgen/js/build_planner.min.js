@@ -0,0 +1 @@
+var BuildPlanner=function(){function BuildPlanner(){this.plan=null;this.quantity=0}BuildPlanner.getInstance=function(){if(BuildPlanner.singleton==null||BuildPlanner.singleton==undefined){BuildPlanner.singleton=new BuildPlanner}return BuildPlanner.singleton};BuildPlanner.prototype.start=function(){var _this=this;$(document).on("click","#build-planner-calculate",function(){_this.calculate()}).on("keydown","#build-planner-quantity",function(event){if(event.key==="Enter"){event.preventDefault();_this.calculate()}}).on("click","#build-planner-print",function(){_this.print()}).on("click","#build-planner-build",function(){var message=$(this).data("confirm");if(confirm(message)){_this.build()}})};BuildPlanner.getQuantity=function(){var quantity=Number($("#build-planner-quantity").val());if(!isFinite(quantity)||quantity<1||Math.floor(quantity)!==quantity){return 0}return quantity};BuildPlanner.prototype.calculate=function(){var quantity=BuildPlanner.getQuantity();if(quantity===0){$("#build-planner-quantity").closest(".form-group").addClass("has-error");return}$("#build-planner-quantity").closest(".form-group").removeClass("has-error");this.request(PartDbApiClient.getInstance().getBuildPlan(this.getDeviceId(),quantity),quantity,false)};BuildPlanner.prototype.build=function(){if(this.plan===null){return}this.request(PartDbApiClient.getInstance().buildDevice(this.getDeviceId(),this.quantity),this.quantity,true)};BuildPlanner.prototype.request=function(request,quantity,built){var _this=this;$("#build-planner-error").prop("hidden",true).empty();$("#build-planner-loading").prop("hidden",false);$("#build-planner-calculate, #build-planner-build").prop("disabled",true);request.done(function(plan){_this.plan=plan;_this.quantity=quantity;_this.render(built)}).fail(function(xhr){$("#build-planner-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr));_this.updateButtons()}).always(function(){$("#build-planner-loading").prop("hidden",true);$("#build-planner-calculate").prop("disabled",false)})};BuildPlanner.prototype.getDeviceId=function(){return Number($("#build-planner").data("device-id"))};BuildPlanner.prototype.countMissing=function(){return this.plan.filter(function(entry){return entry.shortfall>0}).length};BuildPlanner.prototype.updateButtons=function(){var can_withdraw=$("#build-planner").data("can-withdraw")===true;var possible=this.plan!==null&&this.plan.length>0&&this.countMissing()===0;$("#build-planner-build").prop("disabled",!can_withdraw||!possible);$("#build-planner-print").prop("disabled",this.plan===null||this.plan.length===0)};BuildPlanner.prototype.render=function(built){var container=$("#build-planner");var labels={unknown:String(container.data("label-unknown")),pieces:String(container.data("label-pieces")),ordered:String(container.data("label-ordered"))};var tbody=$("#build-planner-table tbody").empty();for(var _i=0,_a=this.plan;_i<_a.length;_i++){var entry=_a[_i];var tr=$("<tr>").toggleClass("danger",entry.shortfall>0);var part=$("<td>").append($("<a>").attr("href","show_part_info.php?pid="+entry.part.id).text(entry.part.name));if(entry.part.description!==""){part.append($("<br>"),$("<small class='text-muted'>").html(entry.part.description))}if(entry.part.footprint!==""){part.append($("<br>"),$("<small class='text-muted'>").text(entry.part.footprint))}tr.append(part);tr.append($("<td>").text(entry.storelocation));tr.append($("<td>").text(entry.mount_names));tr.append($("<td class='text-right'>").text(entry.needed));tr.append($("<td class='text-right'>").text(entry.instock===null?labels.unknown:String(entry.instock)));tr.append($("<td class='text-right'>").append(entry.shortfall>0?$("<b class='text-danger'>").text(entry.shortfall):$("<span>").text(0)));var devices=$("<td>");for(var _b=0,_c=entry.devices;_b<_c.length;_b++){var device=_c[_b];var div=$("<div>").append($("<a>").attr("href","show_device_parts.php?device_id="+device.id).text(device.name),document.createTextNode(" ("+device.mount_quantity+" "+labels.pieces+")"));if(device.order_quantity>0){div.append(" ",$("<span class='label label-info'>").text(labels.ordered))}devices.append(div)}tr.append(devices);var substitutions=$("<td>");for(var _d=0,_e=entry.substitutions;_d<_e.length;_d++){var substitution=_e[_d];var text=" ("+substitution.instock+" "+labels.pieces+(substitution.storelocation!==""?", "+substitution.storelocation:"")+")";substitutions.append($("<div>").append($("<a>").attr("href","show_part_info.php?pid="+substitution.id).attr("title",$("<div>").html(substitution.description).text()).text(substitution.name),document.createTextNode(text)))}tr.append(substitutions);tbody.append(tr)}var missing=this.countMissing();$("#build-planner-missing").text(missing);$("#build-planner .build-planner-state").each(function(){var state=$(this).data("state");$(this).prop("hidden",built?state!=="built":state!==(missing>0?"missing":"complete"))});$("#build-planner-result").prop("hidden",false);this.updateButtons();AjaxUI.getInstance().registerLinks()};BuildPlanner.prototype.print=function(){if(this.plan===null){return}var win=window.open("","_blank");if(win===null){return}var entries=this.plan.slice().sort(function(a,b){if(a.storelocation===""!==(b.storelocation==="")){return a.storelocation===""?1:-1}return a.storelocation.localeCompare(b.storelocation)||a.part.name.localeCompare(b.part.name)});var picklist=$("#build-planner .build-planner-picklist").clone().prop("hidden",false);picklist.find(".build-planner-picklist-quantity").text(this.quantity);var tbody=picklist.find("tbody");for(var _i=0,entries_1=entries;_i<entries_1.length;_i++){var entry=entries_1[_i];tbody.append($("<tr>").append($("<td>").text(entry.storelocation),$("<td>").text(entry.part.name),$("<td>").text(entry.part.footprint),$("<td>").text(entry.mount_names),$("<td class='quantity'>").text(entry.needed),$("<td class='checkbox'>").html("&#9744;")))}win.document.open();win.document.write("<!DOCTYPE html><html><head><meta charset='utf-8'><title></title><style>"+"body { font-family: sans-serif; font-size: 12px; }"+"table { border-collapse: collapse; width: 100%; }"+"th, td { border: 1px solid #000; padding: 4px; text-align: left; vertical-align: top; }"+"td.quantity { text-align: right; } td.checkbox { text-align: center; font-size: 16px; }"+"</style></head><body>"+picklist.html()+"</body></html>");win.document.close();win.document.title=picklist.find("h3").text();win.focus();win.print()};return BuildPlanner}();
\ No newline at end of file
@@ -0,0 +1 @@
+var BulkEditor=function(){function BulkEditor(){this.actions={};this.pending=null;this.changed=false;this.devices=null}BulkEditor.getInstance=function(){if(BulkEditor.singleton==null||BulkEditor.singleton==undefined){BulkEditor.singleton=new BulkEditor}return BulkEditor.singleton};BulkEditor.prototype.start=function(){var _this=this;this.registerDefaultActions();$(document).on("change",".select_actions select[name=action]",function(){var container=$(this).closest(".select_actions");var name=$(this).val();container.find(".bulk-params").each(function(){$(this).toggle($(this).data("action")===name)});if(name==="device"){_this.fillDevices(container.find("select[name=bulk_device]"))}});$(document).on("click",".select_actions button[name=multi_action]",function(event){var container=$(this).closest(".select_actions");var name=container.find("select[name=action]").val();if(_this.actions.hasOwnProperty(name)){event.preventDefault();_this.confirm(container,_this.actions[name])}});$("#bulk-edit-confirm").click(function(){_this.execute()});$("#bulk-edit-modal").on("hidden.bs.modal",function(){_this.pending=null;if(_this.changed){_this.changed=false;Router.getInstance().reload()}})};BulkEditor.prototype.register=function(action){this.actions[action.name]=action};BulkEditor.prototype.registerDefaultActions=function(){var selectedText=function(select){return $.trim(select.find("option:selected").text())};var noTarget=function(){return""};this.register({name:"move",api_action:"move",getParams:function(container){return{target:container.find("select[name=target]").val()}},describeTarget:function(container){return selectedText(container.find("select[name=target]"))}});this.register({name:"mininstock",api_action:"mininstock",getParams:function(container){return{mininstock:container.find("input[name=bulk_mininstock]").val()}},describeTarget:function(container){return container.find("input[name=bulk_mininstock]").val()}});this.register({name:"obsolete",api_action:"obsolete",getParams:function(){return{obsolete:true}},describeTarget:noTarget});this.register({name:"not_obsolete",api_action:"obsolete",getParams:function(){return{obsolete:false}},describeTarget:noTarget});this.register({name:"device",api_action:"device",getParams:function(container){return{device_id:container.find("select[name=bulk_device]").val(),quantity:container.find("input[name=bulk_quantity]").val()}},describeTarget:function(container){return container.find("input[name=bulk_quantity]").val()+" × "+selectedText(container.find("select[name=bulk_device]"))}});this.register({name:"favor",api_action:"favor",getParams:function(){return{}},describeTarget:noTarget});this.register({name:"defavor",api_action:"defavor",getParams:function(){return{}},describeTarget:noTarget});this.register({name:"delete",api_action:"delete",getParams:function(){return{}},describeTarget:noTarget})};BulkEditor.prototype.confirm=function(container,action){var parts=BulkEditor.getSelectedParts();if(parts.length==0){return}this.pending={action:action,ids:parts.map(function(part){return part.id}),params:action.getParams(container)};var list=$("#bulk-edit-parts").empty();for(var _i=0,parts_1=parts;_i<parts_1.length;_i++){var part=parts_1[_i];list.append($("<li>").text(part.name))}var target=action.describeTarget(container);$("#bulk-edit-action").text($.trim(container.find("select[name=action] option:selected").text()));$("#bulk-edit-target").text(target);$("#bulk-edit-target-row").prop("hidden",target==="");$("#bulk-edit-delete-warning").prop("hidden",action.api_action!=="delete");$("#bulk-edit-count").text(parts.length);$("#bulk-edit-error").prop("hidden",true).empty();$("#bulk-edit-confirmation").prop("hidden",false);$("#bulk-edit-report").prop("hidden",true);$("#bulk-edit-loading").prop("hidden",true);$("#bulk-edit-confirm").show().prop("disabled",false).toggleClass("btn-danger",action.api_action==="delete").toggleClass("btn-primary",action.api_action!=="delete");$("#bulk-edit-cancel").show();$("#bulk-edit-close").hide();$("#bulk-edit-modal").modal("show")};BulkEditor.prototype.execute=function(){var _this=this;if(this.pending===null){return}$("#bulk-edit-confirm").prop("disabled",true);$("#bulk-edit-loading").prop("hidden",false);PartDbApiClient.getInstance().bulkEditParts(this.pending.action.api_action,this.pending.ids,this.pending.params).done(function(results){_this.changed=true;_this.showReport(results)}).fail(function(xhr){$("#bulk-edit-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr));$("#bulk-edit-confirm").prop("disabled",false)}).always(function(){$("#bulk-edit-loading").prop("hidden",true)})};BulkEditor.prototype.showReport=function(results){var tbody=$("#bulk-edit-results tbody").empty();var failed=0;for(var _i=0,results_1=results;_i<results_1.length;_i++){var result=results_1[_i];var icon=$("<i class='fa fa-fw' aria-hidden='true'>").addClass(result.success?"fa-check text-success":"fa-times text-danger");if(!result.success){failed++}tbody.append($("<tr>").toggleClass("danger",!result.success).append($("<td>").text(result.name!==""?result.name:"#"+result.id)).append($("<td>").append(icon).append($("<span>").text(" "+result.message))))}$("#bulk-edit-success-count").text(results.length-failed);$("#bulk-edit-failed-count").text(failed);$("#bulk-edit-confirmation").prop("hidden",true);$("#bulk-edit-report").prop("hidden",false);$("#bulk-edit-confirm").hide();$("#bulk-edit-cancel").hide();$("#bulk-edit-close").show()};BulkEditor.prototype.fillDevices=function(select){var _this=this;var fill=function(){if(select.find("option").length>0){return}for(var _i=0,_a=_this.devices;_i<_a.length;_i++){var device=_a[_i];select.append($("<option>").val(device.id).text(device.name))}};if(this.devices!==null){fill();return}PartDbApiClient.getInstance().getLazyTree("devices",0,SidebarTree.MAX_DEPTH).done(function(nodes){_this.devices=[];var add=function(nodes,level){for(var _i=0,nodes_1=nodes;_i<nodes_1.length;_i++){var node=nodes_1[_i];if(node.id>0){_this.devices.push({id:node.id,name:new Array(level+1).join("  ")+node.text})}if(node.nodes){add(node.nodes,node.id>0?level+1:level)}}};add(nodes,0);fill()})};BulkEditor.getSelectedParts=function(){var table=$(".table-sortable").DataTable();var parts=[];table.rows({selected:true}).nodes().each(function(row){parts.push(BulkEditor.getRowPart(row))});return parts};BulkEditor.getRowPart=function(row){var id=Number($(row).find("input").val());var name=$.trim($(row).find("a[href*='show_part_info.php']").first().text());return{id:id,name:name!==""?name:"#"+id}};return BulkEditor}();
\ No newline at end of file
@@ -0,0 +1 @@
+var EngineeringCalculator=function(){function EngineeringCalculator(){this.tools={}}EngineeringCalculator.getInstance=function(){if(EngineeringCalculator.singleton==null||EngineeringCalculator.singleton==undefined){EngineeringCalculator.singleton=new EngineeringCalculator}return EngineeringCalculator.singleton};EngineeringCalculator.prototype.start=function(){var _this=this;this.registerDefaultTools();$(document).on("input change","form.calculator :input",function(){_this.calculate($(this).closest("form.calculator"))});$(document).on("click","form.calculator .calculator-reset",function(){var form=$(this).closest("form.calculator");form[0].reset();_this.calculate(form)});$(document).on("submit","form.calculator",function(event){event.preventDefault()})};EngineeringCalculator.init=function(){var calculator=EngineeringCalculator.getInstance();$("form.calculator").each(function(){calculator.calculate($(this))})};EngineeringCalculator.prototype.register=function(name,calculate){this.tools[name]=calculate};EngineeringCalculator.prototype.calculate=function(form){var name=form.data("calculator");if(this.tools.hasOwnProperty(name)){this.tools[name](form)}};EngineeringCalculator.prototype.registerDefaultTools=function(){var getNumber=EngineeringCalculator.getNumber;var getChecked=EngineeringCalculator.getChecked;var setOutput=EngineeringCalculator.setOutput;var setSearch=EngineeringCalculator.setSearch;var format=ValueParser.format;var colorCode=function(form,digit_rings){var digits=[];for(var i=1;i<=digit_rings;i++){digits.push(Number(getChecked(form,"ring"+i)))}var resistance=EngineeringMath.decodeColorCode(digits,Number(getChecked(form,"ring"+(digit_rings+1))));setOutput(form,"resistance",format(resistance,"Ω",4));setOutput(form,"tolerance",getChecked(form,"ring"+(digit_rings+2)));setSearch(form,"resistance",resistance)};this.register("bands4",function(form){colorCode(form,2)});this.register("bands5",function(form){colorCode(form,3)});this.register("bands6",function(form){colorCode(form,3);var tempcoefficient=getChecked(form,"ring6");setOutput(form,"tempcoefficient",tempcoefficient);form.find("[data-output=tempcoefficient]").closest(".row").prop("hidden",tempcoefficient==="")});this.register("best_match",function(form){var wanted=getNumber(form,"resistance");var resistance=EngineeringMath.findNearest(wanted,Number(getChecked(form,"series")));setOutput(form,"resistance",format(resistance,"Ω"));setOutput(form,"error",isNaN(resistance)?"?":(Math.abs(resistance-wanted)/wanted*100).toFixed(2));setSearch(form,"resistance",resistance)});this.register("ratio",function(form){var ratio=getNumber(form,"ratio");if(form.find("[name=reciprocal]").is(":checked")){ratio=1/ratio}var result=EngineeringMath.findRatio(ratio,Number(getChecked(form,"series")),getChecked(form,"type")==="2");setOutput(form,"r1",result!==null?format(result.r1,"Ω"):"?");setOutput(form,"r2",result!==null?format(result.r2,"Ω"):"?");setOutput(form,"error",result!==null?(result.error*100).toFixed(2):"?");setSearch(form,"r1",result!==null?result.r1:NaN);setSearch(form,"r2",result!==null?result.r2:NaN)});this.register("smd_resistor",function(form){var resistance=EngineeringMath.decodeSMDResistor(form.find("[name=code]").val());setOutput(form,"resistance",format(resistance,"Ω",4));setSearch(form,"resistance",resistance)});this.register("smd_capacitor",function(form){var capacitance=EngineeringMath.decodeCapacitorCode(form.find("[name=code]").val());setOutput(form,"capacitance",format(capacitance,"F"));setSearch(form,"capacitance",capacitance)});this.register("led",function(form){var supply=getNumber(form,"supply");var forward=getNumber(form,"forward");var count=Number(form.find("[name=count]").val())||1;var exact=EngineeringMath.ledResistor(supply,forward,getNumber(form,"current"),count);var resistance=EngineeringMath.findNextHigher(exact,Number(form.find("[name=series]").val()));var current=(supply-forward*count)/resistance;setOutput(form,"exact",format(exact,"Ω",4));setOutput(form,"resistance",format(resistance,"Ω"));setOutput(form,"current",format(current,"A"));setOutput(form,"power",format(current*current*resistance,"W"));setSearch(form,"resistance",resistance)});this.register("divider",function(form){var input=getNumber(form,"input");var r1=getNumber(form,"r1");var r2=getNumber(form,"r2");var load=getNumber(form,"load");var unloaded=EngineeringMath.dividerOutput(input,r1,r2);var loaded=EngineeringMath.dividerOutput(input,r1,r2,load);setOutput(form,"unloaded",format(unloaded,"V",4));setOutput(form,"loaded",format(loaded,"V",4));setOutput(form,"deviation",isFinite(loaded/unloaded)?((loaded/unloaded-1)*100).toFixed(2):"?");setOutput(form,"current",format(input/(r1+EngineeringMath.divisorResistance(r2,load)),"A"));setSearch(form,"r1",r1);setSearch(form,"r2",r2)});this.register("rc",function(form){var resistance=getNumber(form,"resistance");var capacitance=getNumber(form,"capacitance");setOutput(form,"frequency",format(EngineeringMath.rcCutoff(resistance,capacitance),"Hz"));setOutput(form,"time_constant",format(resistance*capacitance,"s"));setSearch(form,"resistance",resistance);setSearch(form,"capacitance",capacitance)});this.register("lc",function(form){var inductance=getNumber(form,"inductance");var capacitance=getNumber(form,"capacitance");setOutput(form,"frequency",format(EngineeringMath.lcResonance(inductance,capacitance),"Hz"));setOutput(form,"impedance",format(Math.sqrt(inductance/capacitance),"Ω"));setSearch(form,"inductance",inductance);setSearch(form,"capacitance",capacitance)})};EngineeringCalculator.getNumber=function(form,name){return ValueParser.parseNumber(form.find("[name="+name+"]").val())};EngineeringCalculator.getChecked=function(form,name){return form.find("input[name="+name+"]:checked").val()};EngineeringCalculator.setOutput=function(form,name,text){form.find("[data-output="+name+"]").text(text)};EngineeringCalculator.setSearch=function(form,name,value){var link=form.find("[data-search="+name+"]");if(!(value>0)||!isFinite(value)){link.hide();return}link.attr("href",BASE+"show_search_parts.php?search_name=1&search_description=1&search_comment=1"+"&value_search=1&keyword="+encodeURIComponent(ValueParser.toShortNotation(value,link.data("unit")))).show()};return EngineeringCalculator}();
\ No newline at end of file
@@ -0,0 +1,297 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      CommandPalette Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * A modal with a search field, which fuzzy searches the pages of Part-DB, the nodes of the loaded treeviews,
+ * the recently viewed parts and the shortcut actions. It is opened with Ctrl+K (see registerDefaultShortcuts()).
+ */
+var CommandPalette = /** @class */ (function () {
+    function CommandPalette() {
+        /** The pages from the tools tree, they are only loaded once. */
+        this.pages = null;
+        this.entries = [];
+        this.results = [];
+        this.active = 0;
+        var _this = this;
+        var modal = $("#command-palette-modal");
+        modal.on("shown.bs.modal", function () {
+            $("#command-palette-input").focus();
+        });
+        $("#command-palette-input").on("input", function () {
+            _this.search($(this).val());
+        }).keydown(function (event) {
+            _this.onKeyDown(event);
+        });
+    }
+    /**
+     * Gets a instance of CommandPalette. If no instance exits, then a new one is created.
+     * @returns {CommandPalette} A instance of CommandPalette.
+     */
+    CommandPalette.getInstance = function () {
+        if (CommandPalette.singleton == null || CommandPalette.singleton == undefined) {
+            CommandPalette.singleton = new CommandPalette();
+        }
+        return CommandPalette.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Opens the command palette.
+     */
+    CommandPalette.prototype.open = function () {
+        var _this = this;
+        $("#command-palette-input").val("");
+        this.collectEntries();
+        this.search("");
+        $("#command-palette-modal").modal("show");
+        if (this.pages === null) {
+            this.loadPages().done(function () {
+                _this.collectEntries();
+                _this.search($("#command-palette-input").val());
+            });
+        }
+    };
+    /**
+     * Saves the part shown on the current page (if any) in the list of recently viewed parts.
+     * Called after every page load.
+     */
+    CommandPalette.rememberPart = function () {
+        var element = $("#content [data-recent-part-id]");
+        if (element.length == 0) {
+            return;
+        }
+        var part = { id: Number(element.data("recent-part-id")), name: String(element.data("recent-part-name")) };
+        var parts = CommandPalette.getRecentParts().filter(function (p) {
+            return p.id !== part.id;
+        });
+        parts.unshift(part);
+        try {
+            localStorage.setItem(CommandPalette.RECENT_PARTS_KEY, JSON.stringify(parts.slice(0, CommandPalette.MAX_RECENT_PARTS)));
+        }
+        catch (e) {
+            //localStorage is not available (e.g. private mode), so we can not remember the parts.
+        }
+    };
+    /**
+     * Returns the recently viewed parts, the newest first.
+     */
+    CommandPalette.getRecentParts = function () {
+        try {
+            var parts = JSON.parse(localStorage.getItem(CommandPalette.RECENT_PARTS_KEY));
+            return $.isArray(parts) ? parts : [];
+        }
+        catch (e) {
+            return [];
+        }
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    /**
+     * Loads the pages from the tools tree. Only pages, which can be loaded by the router, are used.
+     */
+    CommandPalette.prototype.loadPages = function () {
+        var _this = this;
+        var router = Router.getInstance();
+        var label = $("#command-palette-modal").data("label-pages");
+        return PartDbApiClient.getInstance().getTree("tools").done(function (nodes) {
+            _this.pages = [];
+            var add = function (nodes) {
+                for (var _i = 0, nodes_1 = nodes; _i < nodes_1.length; _i++) {
+                    var node = nodes_1[_i];
+                    if (node.href && router.matchRoute(node.href) !== null) {
+                        _this.pages.push({ label: node.text, detail: label, href: node.href });
+                    }
+                    if (node.nodes) {
+                        add(node.nodes);
+                    }
+                }
+            };
+            add(nodes);
+        });
+    };
+    /**
+     * Collects the entries, which can be searched.
+     */
+    CommandPalette.prototype.collectEntries = function () {
+        var modal = $("#command-palette-modal");
+        var entries = [];
+        var shortcuts = KeyboardShortcuts.getInstance();
+        for (var _i = 0, _a = shortcuts.getActions(); _i < _a.length; _i++) {
+            var action = _a[_i];
+            //Opening the palette from the palette makes no sense.
+            if (action.id !== "command_palette") {
+                entries.push({ label: shortcuts.getLabel(action), detail: modal.data("label-actions"), action: action });
+            }
+        }
+        for (var _b = 0, _c = CommandPalette.getRecentParts(); _b < _c.length; _b++) {
+            var part = _c[_b];
+            entries.push({ label: part.name, detail: modal.data("label-recent-parts"),
+                href: BASE + "show_part_info.php?pid=" + part.id });
+        }
+        if (this.pages !== null) {
+            entries = entries.concat(this.pages);
+        }
+        //The nodes of the sidebar trees, which are loaded so far.
+        $("#tree-categories, #tree-devices, #tree-tools").each(function () {
+            var tree = $(this);
+            if (!tree.data("treeview")) {
+                return;
+            }
+            var nodes = tree.treeview("getEnabled");
+            for (var _i = 0, nodes_2 = nodes; _i < nodes_2.length; _i++) {
+                var node = nodes_2[_i];
+                if (node.href) {
+                    entries.push({ label: CommandPalette.getNodePath(tree, node), detail: modal.data("label-tree"), href: node.href });
+                }
+            }
+        });
+        //The same page can be in multiple sources (e.g. in the pages and the tools tree).
+        var hrefs = [];
+        this.entries = entries.filter(function (entry) {
+            if (typeof entry.href === "undefined") {
+                return true;
+            }
+            if (hrefs.indexOf(entry.href) !== -1) {
+                return false;
+            }
+            hrefs.push(entry.href);
+            return true;
+        });
+    };
+    /**
+     * Shows the entries matching the keyword, the best matches first.
+     */
+    CommandPalette.prototype.search = function (keyword) {
+        keyword = $.trim(keyword);
+        var scored = [];
+        this.entries.forEach(function (entry, index) {
+            var score = CommandPalette.fuzzyScore(keyword, entry.label);
+            if (score >= 0) {
+                scored.push({ entry: entry, score: score, index: index });
+            }
+        });
+        //Array.sort() is not stable in every browser, so the original order is used for equal scores.
+        scored.sort(function (a, b) {
+            return b.score - a.score || a.index - b.index;
+        });
+        this.results = scored.slice(0, CommandPalette.MAX_RESULTS).map(function (s) { return s.entry; });
+        this.active = 0;
+        this.render();
+    };
+    CommandPalette.prototype.render = function () {
+        var _this = this;
+        var list = $("#command-palette-results").empty();
+        this.results.forEach(function (entry, index) {
+            var item = $("<a href='#' class='list-group-item'>")
+                .toggleClass("active", index === _this.active)
+                .append($("<span>").text(entry.label))
+                .append($("<span class='text-muted pull-right'>").text(entry.detail));
+            item.click(function (event) {
+                event.preventDefault();
+                _this.execute(entry);
+            });
+            list.append(item);
+        });
+        $("#command-palette-no-results").prop("hidden", this.results.length > 0);
+    };
+    CommandPalette.prototype.onKeyDown = function (event) {
+        switch (event.keyCode) {
+            case 38://Arrow up
+                event.preventDefault();
+                this.moveActive(-1);
+                break;
+            case 40://Arrow down
+                event.preventDefault();
+                this.moveActive(1);
+                break;
+            case 13://Enter
+                event.preventDefault();
+                if (this.results.length > 0) {
+                    this.execute(this.results[this.active]);
+                }
+                break;
+        }
+    };
+    CommandPalette.prototype.moveActive = function (offset) {
+        if (this.results.length == 0) {
+            return;
+        }
+        this.active = (this.active + offset + this.results.length) % this.results.length;
+        var items = $("#command-palette-results .list-group-item").removeClass("active");
+        var item = items.eq(this.active).addClass("active");
+        item.get(0).scrollIntoView(false);
+    };
+    /**
+     * Closes the palette and opens the link or executes the action of the entry.
+     */
+    CommandPalette.prototype.execute = function (entry) {
+        var modal = $("#command-palette-modal");
+        //Wait until the modal is closed, otherwise the modal of an action (e.g. the help) would be closed, too.
+        modal.one("hidden.bs.modal", function () {
+            if (entry.action) {
+                entry.action.handler();
+            }
+            else {
+                Router.getInstance().navigate(entry.href);
+            }
+        });
+        modal.modal("hide");
+    };
+    /**
+     * Returns the names of the node and its parents, like "Active parts → Resistors → SMD".
+     */
+    CommandPalette.getNodePath = function (tree, node) {
+        var names = [node.text];
+        var parent = tree.treeview("getParent", node);
+        while (parent && typeof parent.nodeId !== "undefined") {
+            names.unshift(parent.text);
+            parent = tree.treeview("getParent", parent);
+        }
+        return names.join(" → ");
+    };
+    /**
+     * Checks if all characters of the keyword occur in the text in the same order (case insensitive).
+     * Matches of consecutive characters and at the beginning of words get a higher score.
+     * @param {string} keyword The keyword the user typed.
+     * @param {string} text The text of the entry.
+     * @returns {number} The score or -1 if the text does not match.
+     */
+    CommandPalette.fuzzyScore = function (keyword, text) {
+        if (keyword === "") {
+            return 0;
+        }
+        var needle = keyword.toLowerCase();
+        var haystack = text.toLowerCase();
+        var score = 0;
+        var last = -1;
+        for (var i = 0; i < needle.length; i++) {
+            var pos = haystack.indexOf(needle.charAt(i), last + 1);
+            if (pos === -1) {
+                return -1;
+            }
+            score += 1;
+            if (pos === last + 1) {
+                score += 2;
+            }
+            if (pos === 0 || /[\s→\-_(]/.test(haystack.charAt(pos - 1))) {
+                score += 3;
+            }
+            last = pos;
+        }
+        //Prefer the exact substring and shorter texts.
+        if (haystack.indexOf(needle) !== -1) {
+            score += needle.length * 2;
+        }
+        return score - haystack.length / 100;
+    };
+    /** The key of the recently viewed parts in the localStorage. */
+    CommandPalette.RECENT_PARTS_KEY = "recent_parts";
+    CommandPalette.MAX_RECENT_PARTS = 10;
+    /** How many results are shown. */
+    CommandPalette.MAX_RESULTS = 20;
+    return CommandPalette;
+}());
@@ -0,0 +1,257 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      EngineeringMath Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * The calculations of the calculator page. All functions are pure (they do not access the DOM or jQuery), all values
+ * are given in base units (Ohm, Farad, Henry, Volt, Ampere, Hertz). Values are parsed and formatted by ValueParser.
+ * The functions are tested in tests/ts/EngineeringMathTest.ts.
+ */
+var EngineeringMath = /** @class */ (function () {
+    function EngineeringMath() {
+    }
+    /**
+     * Calculates the resistance of the color code of a resistor.
+     * @param {number[]} digits The values of the digit rings.
+     * @param {number} multiplier The exponent of the multiplier ring (e.g. -1 for gold, 2 for red).
+     * @returns {number} The resistance in Ohm.
+     */
+    EngineeringMath.decodeColorCode = function (digits, multiplier) {
+        var value = 0;
+        for (var _i = 0, digits_1 = digits; _i < digits_1.length; _i++) {
+            var digit = digits_1[_i];
+            value = value * 10 + digit;
+        }
+        //Multiply or divide with integers to avoid rounding errors like 0.1 * 47 = 4.7000000000000001
+        return multiplier >= 0 ? value * Math.pow(10, multiplier) : value / Math.pow(10, -multiplier);
+    };
+    /**
+     * Decodes the code printed on SMD resistors. Supported are the 3 and 4 digit codes (e.g. "103", "4702"),
+     * the R notation (e.g. "4R7", "R10") and the EIA-96 code (e.g. "01C").
+     * @param {string} code The code.
+     * @returns {number} The resistance in Ohm, or NaN if the code is not valid.
+     */
+    EngineeringMath.decodeSMDResistor = function (code) {
+        code = String(code).trim().toUpperCase();
+        if (/^\d*R\d*$/.test(code) && code !== "R") {
+            return ValueParser.parseNumber(code);
+        }
+        if (/^\d{3,4}$/.test(code)) {
+            return EngineeringMath.decodeColorCode(code.slice(0, -1).split("").map(Number), Number(code.slice(-1)));
+        }
+        var eia = /^(\d{2})([A-Z])$/.exec(code);
+        if (eia !== null) {
+            var index = Number(eia[1]);
+            if (index < 1 || index > 96 || !EngineeringMath.EIA96_MULTIPLIERS.hasOwnProperty(eia[2])) {
+                return NaN;
+            }
+            //Multiply with 100 first, so the values of the series are integers
+            return EngineeringMath.E_SERIES[96][index - 1] * 100 * EngineeringMath.EIA96_MULTIPLIERS[eia[2]];
+        }
+        return NaN;
+    };
+    /**
+     * Decodes the code printed on capacitors. Supported are the 3 digit code in pF with an optional tolerance letter
+     * (e.g. "104", "472J"), values in pF (e.g. "47") and the notation with the prefix as decimal point (e.g. "4p7",
+     * "2n2", "4R7").
+     * @param {string} code The code.
+     * @returns {number} The capacitance in Farad, or NaN if the code is not valid.
+     */
+    EngineeringMath.decodeCapacitorCode = function (code) {
+        code = String(code).trim();
+        if (/^\d*[pnuµ]\d*$/i.test(code)) {
+            return ValueParser.parseNumber(code.toLowerCase());
+        }
+        if (/^\d*R\d*$/i.test(code)) {
+            return ValueParser.parseNumber(code) * 1e-12;
+        }
+        if (/^\d{1,2}$/.test(code)) {
+            return Number(code) * 1e-12;
+        }
+        var matches = /^(\d{2})(\d)[BCDFGJKMZ]?$/i.exec(code);
+        if (matches !== null) {
+            var multiplier = Number(matches[2]);
+            //The multipliers 8 and 9 are used for values below 10pF
+            if (multiplier == 8 || multiplier == 9) {
+                multiplier -= 10;
+            }
+            else if (multiplier > 6) {
+                return NaN;
+            }
+            return EngineeringMath.decodeColorCode([Number(matches[1])], multiplier) * 1e-12;
+        }
+        return NaN;
+    };
+    /**
+     * Finds the value of the E-series which is nearest to the given value.
+     * @param {number} value The wanted value.
+     * @param {ESeries} series The E-series.
+     * @returns {number} The value of the series, or NaN if the value is not positive.
+     */
+    EngineeringMath.findNearest = function (value, series) {
+        var best = NaN;
+        for (var _i = 0, _a = EngineeringMath.getCandidates(value, series); _i < _a.length; _i++) {
+            var candidate = _a[_i];
+            if (isNaN(best) || Math.abs(candidate - value) / value < Math.abs(best - value) / value) {
+                best = candidate;
+            }
+        }
+        return best;
+    };
+    /**
+     * Finds the smallest value of the E-series which is not smaller than the given value.
+     * @param {number} value The minimal value.
+     * @param {ESeries} series The E-series.
+     * @returns {number} The value of the series, or NaN if the value is not positive.
+     */
+    EngineeringMath.findNextHigher = function (value, series) {
+        for (var _i = 0, _a = EngineeringMath.getCandidates(value, series); _i < _a.length; _i++) {
+            var candidate = _a[_i];
+            //Ignore rounding errors of the multiplication
+            if (candidate >= value * (1 - 1e-9)) {
+                return candidate;
+            }
+        }
+        return NaN;
+    };
+    /**
+     * Finds two resistors of the E-series whose ratio is as near as possible to the given ratio.
+     * @param {number} ratio The wanted ratio.
+     * @param {ESeries} series The E-series.
+     * @param {boolean} divider If true, the ratio is R1/(R1+R2) (voltage divider, must be smaller than 1),
+     * otherwise R1/R2.
+     * @returns {ResistorRatio} The resistors (the smaller one is between 1k and 10k), or null if the ratio is not
+     * possible.
+     */
+    EngineeringMath.findRatio = function (ratio, series, divider) {
+        if (!(ratio > 0) || !isFinite(ratio) || (divider && ratio >= 1)) {
+            return null;
+        }
+        var best = null;
+        for (var _i = 0, _a = EngineeringMath.E_SERIES[series]; _i < _a.length; _i++) {
+            var r1 = _a[_i];
+            var r2 = EngineeringMath.findNearest(divider ? r1 * (1 - ratio) / ratio : r1 / ratio, series);
+            var current = divider ? r1 / (r1 + r2) : r1 / r2;
+            var error = Math.abs(current - ratio) / ratio;
+            if (best === null || error < best.error) {
+                best = { r1: r1, r2: r2, error: error };
+            }
+        }
+        var scale = 1000 / Math.pow(10, Math.floor(Math.log(Math.min(best.r1, best.r2)) / Math.LN10 + 1e-9));
+        best.r1 = EngineeringMath.round(best.r1 * scale);
+        best.r2 = EngineeringMath.round(best.r2 * scale);
+        return best;
+    };
+    /**
+     * Calculates the series resistor for LEDs.
+     * @param {number} supply The supply voltage.
+     * @param {number} forward The forward voltage of one LED.
+     * @param {number} current The wanted current.
+     * @param {number} count The number of LEDs in series.
+     * @returns {number} The resistance, or NaN if the supply voltage is too low.
+     */
+    EngineeringMath.ledResistor = function (supply, forward, current, count) {
+        if (count === void 0) { count = 1; }
+        var voltage = supply - forward * count;
+        if (!(voltage > 0) || !(current > 0)) {
+            return NaN;
+        }
+        return voltage / current;
+    };
+    /**
+     * Calculates the output voltage of a voltage divider.
+     * @param {number} input The input voltage.
+     * @param {number} r1 The upper resistor.
+     * @param {number} r2 The lower resistor.
+     * @param {number} load The load parallel to R2. Use Infinity or NaN for no load.
+     * @returns {number} The output voltage.
+     */
+    EngineeringMath.dividerOutput = function (input, r1, r2, load) {
+        if (load === void 0) { load = Infinity; }
+        return input * EngineeringMath.divisorResistance(r2, load) / (r1 + EngineeringMath.divisorResistance(r2, load));
+    };
+    /**
+     * Returns the resistance of R2 parallel to the load.
+     */
+    EngineeringMath.divisorResistance = function (r2, load) {
+        if (isNaN(load) || !isFinite(load)) {
+            return r2;
+        }
+        return r2 * load / (r2 + load);
+    };
+    /**
+     * Calculates the cutoff frequency (-3dB) of a RC filter.
+     * @param {number} resistance The resistance in Ohm.
+     * @param {number} capacitance The capacitance in Farad.
+     * @returns {number} The frequency in Hertz.
+     */
+    EngineeringMath.rcCutoff = function (resistance, capacitance) {
+        return 1 / (2 * Math.PI * resistance * capacitance);
+    };
+    /**
+     * Calculates the resonance frequency of a LC circuit.
+     * @param {number} inductance The inductance in Henry.
+     * @param {number} capacitance The capacitance in Farad.
+     * @returns {number} The frequency in Hertz.
+     */
+    EngineeringMath.lcResonance = function (inductance, capacitance) {
+        return 1 / (2 * Math.PI * Math.sqrt(inductance * capacitance));
+    };
+    /**
+     * Returns the values of the E-series in the decade of the value and the neighbouring values, in ascending order.
+     */
+    EngineeringMath.getCandidates = function (value, series) {
+        if (!(value > 0) || !isFinite(value) || !EngineeringMath.E_SERIES.hasOwnProperty(String(series))) {
+            return [];
+        }
+        var values = EngineeringMath.E_SERIES[series];
+        var decade = Math.floor(Math.log(value) / Math.LN10 + 1e-9);
+        var candidates = [values[values.length - 1] * Math.pow(10, decade - 1)];
+        for (var _i = 0, values_1 = values; _i < values_1.length; _i++) {
+            var e = values_1[_i];
+            candidates.push(e * Math.pow(10, decade));
+        }
+        candidates.push(values[0] * Math.pow(10, decade + 1));
+        return candidates.map(EngineeringMath.round);
+    };
+    /**
+     * Removes the rounding errors of floating point calculations, like 4.7 * 1000 = 4700.000000000001
+     */
+    EngineeringMath.round = function (value) {
+        return Number(value.toPrecision(12));
+    };
+    EngineeringMath.E_SERIES = {
+        3: [1.0, 2.2, 4.7],
+        6: [1.0, 1.5, 2.2, 3.3, 4.7, 6.8],
+        12: [1.0, 1.2, 1.5, 1.8, 2.2, 2.7, 3.3, 3.9, 4.7, 5.6, 6.8, 8.2],
+        24: [1.0, 1.1, 1.2, 1.3, 1.5, 1.6, 1.8, 2.0, 2.2, 2.4, 2.7, 3.0, 3.3, 3.6, 3.9, 4.3, 4.7, 5.1, 5.6, 6.2, 6.8,
+            7.5, 8.2, 9.1],
+        48: [1, 1.05, 1.1, 1.15, 1.21, 1.27, 1.33, 1.4, 1.47, 1.54, 1.62, 1.69, 1.78, 1.87, 1.96, 2.05, 2.15, 2.26,
+            2.37, 2.49, 2.61, 2.74, 2.87, 3.01, 3.16, 3.32, 3.48, 3.65, 3.83, 4.02, 4.22, 4.42, 4.64, 4.87, 5.11, 5.36,
+            5.62, 5.9, 6.19, 6.49, 6.81, 7.15, 7.5, 7.87, 8.25, 8.66, 9.09, 9.53],
+        96: [1, 1.02, 1.05, 1.07, 1.1, 1.13, 1.15, 1.18, 1.21, 1.24, 1.27, 1.3, 1.33, 1.37, 1.4, 1.43, 1.47, 1.5,
+            1.54, 1.58, 1.62, 1.65, 1.69, 1.74, 1.78, 1.82, 1.87, 1.91, 1.96, 2, 2.05, 2.1, 2.15, 2.21, 2.26, 2.32, 2.37,
+            2.43, 2.49, 2.55, 2.61, 2.67, 2.74, 2.8, 2.87, 2.94, 3.01, 3.09, 3.16, 3.24, 3.32, 3.4, 3.48, 3.57, 3.65,
+            3.74, 3.83, 3.92, 4.02, 4.12, 4.22, 4.32, 4.42, 4.53, 4.64, 4.75, 4.87, 4.99, 5.11, 5.23, 5.36, 5.49, 5.62,
+            5.76, 5.9, 6.04, 6.19, 6.34, 6.49, 6.65, 6.81, 6.98, 7.15, 7.32, 7.5, 7.68, 7.87, 8.06, 8.25, 8.45, 8.66,
+            8.87, 9.09, 9.31, 9.53, 9.76],
+        192: [1, 1.01, 1.02, 1.04, 1.05, 1.06, 1.07, 1.09, 1.1, 1.11, 1.13, 1.14, 1.15, 1.17, 1.18, 1.2, 1.21, 1.23,
+            1.24, 1.26, 1.27, 1.29, 1.3, 1.32, 1.33, 1.35, 1.37, 1.38, 1.4, 1.42, 1.43, 1.45, 1.47, 1.49, 1.5, 1.52, 1.54,
+            1.56, 1.58, 1.6, 1.62, 1.64, 1.65, 1.67, 1.69, 1.72, 1.74, 1.76, 1.78, 1.8, 1.82, 1.84, 1.87, 1.89, 1.91,
+            1.93, 1.96, 1.98, 2, 2.03, 2.05, 2.08, 2.1, 2.13, 2.15, 2.18, 2.21, 2.23, 2.26, 2.29, 2.32, 2.34, 2.37, 2.4,
+            2.43, 2.46, 2.49, 2.52, 2.55, 2.58, 2.61, 2.64, 2.67, 2.71, 2.74, 2.77, 2.8, 2.84, 2.87, 2.91, 2.94, 2.98,
+            3.01, 3.05, 3.09, 3.12, 3.16, 3.2, 3.24, 3.28, 3.32, 3.36, 3.4, 3.44, 3.48, 3.52, 3.57, 3.61, 3.65, 3.7,
+            3.74, 3.79, 3.83, 3.88, 3.92, 3.97, 4.02, 4.07, 4.12, 4.17, 4.22, 4.27, 4.32, 4.37, 4.42, 4.48, 4.53, 4.59,
+            4.64, 4.7, 4.75, 4.81, 4.87, 4.93, 4.99, 5.05, 5.11, 5.17, 5.23, 5.3, 5.36, 5.42, 5.49, 5.56, 5.62, 5.69,
+            5.76, 5.83, 5.9, 5.97, 6.04, 6.12, 6.19, 6.26, 6.34, 6.42, 6.49, 6.57, 6.65, 6.73, 6.81, 6.9, 6.98, 7.06,
+            7.15, 7.23, 7.32, 7.41, 7.5, 7.59, 7.68, 7.77, 7.87, 7.96, 8.06, 8.16, 8.25, 8.35, 8.45, 8.56, 8.66, 8.76,
+            8.87, 8.98, 9.09, 9.2, 9.31, 9.42, 9.53, 9.65, 9.76, 9.88]
+    };
+    /** The multipliers of the EIA-96 code for SMD resistors. */
+    EngineeringMath.EIA96_MULTIPLIERS = {
+        "Z": 0.001, "Y": 0.01, "R": 0.01, "X": 0.1, "S": 0.1, "A": 1, "B": 10, "H": 10, "C": 100, "D": 1000,
+        "E": 10000, "F": 100000
+    };
+    return EngineeringMath;
+}());
@@ -0,0 +1 @@
+var EngineeringMath=function(){function EngineeringMath(){}EngineeringMath.decodeColorCode=function(digits,multiplier){var value=0;for(var _i=0,digits_1=digits;_i<digits_1.length;_i++){var digit=digits_1[_i];value=value*10+digit}return multiplier>=0?value*Math.pow(10,multiplier):value/Math.pow(10,-multiplier)};EngineeringMath.decodeSMDResistor=function(code){code=String(code).trim().toUpperCase();if(/^\d*R\d*$/.test(code)&&code!=="R"){return ValueParser.parseNumber(code)}if(/^\d{3,4}$/.test(code)){return EngineeringMath.decodeColorCode(code.slice(0,-1).split("").map(Number),Number(code.slice(-1)))}var eia=/^(\d{2})([A-Z])$/.exec(code);if(eia!==null){var index=Number(eia[1]);if(index<1||index>96||!EngineeringMath.EIA96_MULTIPLIERS.hasOwnProperty(eia[2])){return NaN}return EngineeringMath.E_SERIES[96][index-1]*100*EngineeringMath.EIA96_MULTIPLIERS[eia[2]]}return NaN};EngineeringMath.decodeCapacitorCode=function(code){code=String(code).trim();if(/^\d*[pnuµ]\d*$/i.test(code)){return ValueParser.parseNumber(code.toLowerCase())}if(/^\d*R\d*$/i.test(code)){return ValueParser.parseNumber(code)*1e-12}if(/^\d{1,2}$/.test(code)){return Number(code)*1e-12}var matches=/^(\d{2})(\d)[BCDFGJKMZ]?$/i.exec(code);if(matches!==null){var multiplier=Number(matches[2]);if(multiplier==8||multiplier==9){multiplier-=10}else if(multiplier>6){return NaN}return EngineeringMath.decodeColorCode([Number(matches[1])],multiplier)*1e-12}return NaN};EngineeringMath.findNearest=function(value,series){var best=NaN;for(var _i=0,_a=EngineeringMath.getCandidates(value,series);_i<_a.length;_i++){var candidate=_a[_i];if(isNaN(best)||Math.abs(candidate-value)/value<Math.abs(best-value)/value){best=candidate}}return best};EngineeringMath.findNextHigher=function(value,series){for(var _i=0,_a=EngineeringMath.getCandidates(value,series);_i<_a.length;_i++){var candidate=_a[_i];if(candidate>=value*(1-1e-9)){return candidate}}return NaN};EngineeringMath.findRatio=function(ratio,series,divider){if(!(ratio>0)||!isFinite(ratio)||divider&&ratio>=1){return null}var best=null;for(var _i=0,_a=EngineeringMath.E_SERIES[series];_i<_a.length;_i++){var r1=_a[_i];var r2=EngineeringMath.findNearest(divider?r1*(1-ratio)/ratio:r1/ratio,series);var current=divider?r1/(r1+r2):r1/r2;var error=Math.abs(current-ratio)/ratio;if(best===null||error<best.error){best={r1:r1,r2:r2,error:error}}}var scale=1e3/Math.pow(10,Math.floor(Math.log(Math.min(best.r1,best.r2))/Math.LN10+1e-9));best.r1=EngineeringMath.round(best.r1*scale);best.r2=EngineeringMath.round(best.r2*scale);return best};EngineeringMath.ledResistor=function(supply,forward,current,count){if(count===void 0){count=1}var voltage=supply-forward*count;if(!(voltage>0)||!(current>0)){return NaN}return voltage/current};EngineeringMath.dividerOutput=function(input,r1,r2,load){if(load===void 0){load=Infinity}return input*EngineeringMath.divisorResistance(r2,load)/(r1+EngineeringMath.divisorResistance(r2,load))};EngineeringMath.divisorResistance=function(r2,load){if(isNaN(load)||!isFinite(load)){return r2}return r2*load/(r2+load)};EngineeringMath.rcCutoff=function(resistance,capacitance){return 1/(2*Math.PI*resistance*capacitance)};EngineeringMath.lcResonance=function(inductance,capacitance){return 1/(2*Math.PI*Math.sqrt(inductance*capacitance))};EngineeringMath.getCandidates=function(value,series){if(!(value>0)||!isFinite(value)||!EngineeringMath.E_SERIES.hasOwnProperty(String(series))){return[]}var values=EngineeringMath.E_SERIES[series];var decade=Math.floor(Math.log(value)/Math.LN10+1e-9);var candidates=[values[values.length-1]*Math.pow(10,decade-1)];for(var _i=0,values_1=values;_i<values_1.length;_i++){var e=values_1[_i];candidates.push(e*Math.pow(10,decade))}candidates.push(values[0]*Math.pow(10,decade+1));return candidates.map(EngineeringMath.round)};EngineeringMath.round=function(value){return Number(value.toPrecision(12))};EngineeringMath.E_SERIES={3:[1,2.2,4.7],6:[1,1.5,2.2,3.3,4.7,6.8],12:[1,1.2,1.5,1.8,2.2,2.7,3.3,3.9,4.7,5.6,6.8,8.2],24:[1,1.1,1.2,1.3,1.5,1.6,1.8,2,2.2,2.4,2.7,3,3.3,3.6,3.9,4.3,4.7,5.1,5.6,6.2,6.8,7.5,8.2,9.1],48:[1,1.05,1.1,1.15,1.21,1.27,1.33,1.4,1.47,1.54,1.62,1.69,1.78,1.87,1.96,2.05,2.15,2.26,2.37,2.49,2.61,2.74,2.87,3.01,3.16,3.32,3.48,3.65,3.83,4.02,4.22,4.42,4.64,4.87,5.11,5.36,5.62,5.9,6.19,6.49,6.81,7.15,7.5,7.87,8.25,8.66,9.09,9.53],96:[1,1.02,1.05,1.07,1.1,1.13,1.15,1.18,1.21,1.24,1.27,1.3,1.33,1.37,1.4,1.43,1.47,1.5,1.54,1.58,1.62,1.65,1.69,1.74,1.78,1.82,1.87,1.91,1.96,2,2.05,2.1,2.15,2.21,2.26,2.32,2.37,2.43,2.49,2.55,2.61,2.67,2.74,2.8,2.87,2.94,3.01,3.09,3.16,3.24,3.32,3.4,3.48,3.57,3.65,3.74,3.83,3.92,4.02,4.12,4.22,4.32,4.42,4.53,4.64,4.75,4.87,4.99,5.11,5.23,5.36,5.49,5.62,5.76,5.9,6.04,6.19,6.34,6.49,6.65,6.81,6.98,7.15,7.32,7.5,7.68,7.87,8.06,8.25,8.45,8.66,8.87,9.09,9.31,9.53,9.76],192:[1,1.01,1.02,1.04,1.05,1.06,1.07,1.09,1.1,1.11,1.13,1.14,1.15,1.17,1.18,1.2,1.21,1.23,1.24,1.26,1.27,1.29,1.3,1.32,1.33,1.35,1.37,1.38,1.4,1.42,1.43,1.45,1.47,1.49,1.5,1.52,1.54,1.56,1.58,1.6,1.62,1.64,1.65,1.67,1.69,1.72,1.74,1.76,1.78,1.8,1.82,1.84,1.87,1.89,1.91,1.93,1.96,1.98,2,2.03,2.05,2.08,2.1,2.13,2.15,2.18,2.21,2.23,2.26,2.29,2.32,2.34,2.37,2.4,2.43,2.46,2.49,2.52,2.55,2.58,2.61,2.64,2.67,2.71,2.74,2.77,2.8,2.84,2.87,2.91,2.94,2.98,3.01,3.05,3.09,3.12,3.16,3.2,3.24,3.28,3.32,3.36,3.4,3.44,3.48,3.52,3.57,3.61,3.65,3.7,3.74,3.79,3.83,3.88,3.92,3.97,4.02,4.07,4.12,4.17,4.22,4.27,4.32,4.37,4.42,4.48,4.53,4.59,4.64,4.7,4.75,4.81,4.87,4.93,4.99,5.05,5.11,5.17,5.23,5.3,5.36,5.42,5.49,5.56,5.62,5.69,5.76,5.83,5.9,5.97,6.04,6.12,6.19,6.26,6.34,6.42,6.49,6.57,6.65,6.73,6.81,6.9,6.98,7.06,7.15,7.23,7.32,7.41,7.5,7.59,7.68,7.77,7.87,7.96,8.06,8.16,8.25,8.35,8.45,8.56,8.66,8.76,8.87,8.98,9.09,9.2,9.31,9.42,9.53,9.65,9.76,9.88]};EngineeringMath.EIA96_MULTIPLIERS={Z:.001,Y:.01,R:.01,X:.1,S:.1,A:1,B:10,H:10,C:100,D:1e3,E:1e4,F:1e5};return EngineeringMath}();
\ No newline at end of file
@@ -0,0 +1,148 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      AjaxErrorHandler Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * Shows failed ajax page loads to the user: An error panel with the HTTP status and the message of the server is
+ * rendered into #content, which allows to retry the request. When the session has expired, the user is redirected
+ * to the login page instead.
+ */
+var AjaxErrorHandler = /** @class */ (function () {
+    /**
+     * Creates a new AjaxErrorHandler object.
+     */
+    function AjaxErrorHandler() {
+    }
+    /**
+     * Gets a instance of AjaxErrorHandler. If no instance exits, then a new one is created.
+     * @returns {AjaxErrorHandler} A instance of AjaxErrorHandler.
+     */
+    AjaxErrorHandler.getInstance = function () {
+        if (AjaxErrorHandler.singleton == null || AjaxErrorHandler.singleton == undefined) {
+            AjaxErrorHandler.singleton = new AjaxErrorHandler();
+        }
+        return AjaxErrorHandler.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Returns the timeout for ajax requests, configured in $config['ajax']['timeout'].
+     * @returns {number} The timeout in milliseconds. 0 means no timeout.
+     */
+    AjaxErrorHandler.prototype.getTimeout = function () {
+        var seconds = Number($("#ajax_timeout").val());
+        if (isNaN(seconds) || seconds < 0) {
+            return 0;
+        }
+        return seconds * 1000;
+    };
+    /**
+     * Called by AjaxUI, when an ajax request failed.
+     * @param {JQuery.jqXHR} request The failed request.
+     * @param {JQuery.AjaxSettings} settings The settings of the failed request.
+     */
+    AjaxErrorHandler.prototype.handle = function (request, settings) {
+        //Ignore aborted requests.
+        if (request.statusText == "abort") {
+            return;
+        }
+        //Requests to the API are handled by the code that sent them.
+        if (settings.url.indexOf("api.php") != -1) {
+            return;
+        }
+        //When the server is not reachable at all, the OfflineManager takes care.
+        if (request.status == 0 && request.statusText != "timeout") {
+            return;
+        }
+        if (this.isSessionExpired(request)) {
+            this.redirectToLogin();
+            return;
+        }
+        this.showErrorPanel(request, settings);
+    };
+    /**
+     * Opens the login page, which redirects back to the current page after the login.
+     */
+    AjaxErrorHandler.prototype.redirectToLogin = function () {
+        window.location.href = BASE + "login.php?redirect=" + encodeURIComponent(location.pathname + location.search);
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    /**
+     * Checks if the request failed, because the user must login again.
+     * The server answers ajax requests with 401, when the session of a logged in user has expired (see start_session.php).
+     */
+    AjaxErrorHandler.prototype.isSessionExpired = function (request) {
+        return request.status == 401;
+    };
+    /**
+     * Renders the error panel into #content and hides the progressbar.
+     * @param {JQuery.jqXHR} request The failed request.
+     * @param {JQuery.AjaxSettings} settings The settings of the failed request, needed to retry it.
+     */
+    AjaxErrorHandler.prototype.showErrorPanel = function (request, settings) {
+        var _this = this;
+        var panel = $("#ajax-error-template").children().first().clone();
+        var status = request.statusText == "timeout" ? "" : request.status + " " + request.statusText;
+        panel.find(".ajax-error-status").text(status);
+        panel.find(".ajax-error-timeout").prop("hidden", request.statusText != "timeout");
+        panel.find(".ajax-error-message").text(this.extractMessage(request));
+        panel.find(".ajax-error-retry").click(function () {
+            _this.retry(settings);
+        });
+        //Dismissing the panel shows the page, which was visible before the request.
+        var old_content = $("#content").children().detach();
+        panel.find(".ajax-error-dismiss").click(function () {
+            panel.remove();
+            $("#content").append(old_content);
+        });
+        $("#progressbar").hide(0);
+        $("#content").empty().append(panel).show(0);
+        $(window).scrollTop(0);
+    };
+    /**
+     * Extracts a human readable message from the server response.
+     * @param {JQuery.jqXHR} request The failed request.
+     * @returns {string} The message (plain text), or an empty string if the server did not send one.
+     */
+    AjaxErrorHandler.prototype.extractMessage = function (request) {
+        if (typeof request.responseJSON !== "undefined") {
+            return PartDbApiClient.getErrorMessage(request);
+        }
+        var text = typeof request.responseText === "string" ? request.responseText : "";
+        if (text === "") {
+            return "";
+        }
+        //Parse HTML responses, so we only show the text (and dont execute anything from the response)
+        var html = $("<div>").append($.parseHTML(text));
+        var content = html.find("#content-data");
+        var message = $.trim((content.length ? content : html).text()).replace(/\s+/g, " ");
+        if (message.length > AjaxErrorHandler.MAX_MESSAGE_LENGTH) {
+            message = message.substring(0, AjaxErrorHandler.MAX_MESSAGE_LENGTH) + "...";
+        }
+        return message;
+    };
+    /**
+     * Issues the failed request again.
+     * @param {JQuery.AjaxSettings} settings The settings of the failed request.
+     */
+    AjaxErrorHandler.prototype.retry = function (settings) {
+        var type = (typeof settings.type !== "undefined") ? settings.type.toUpperCase() : "GET";
+        if (type === "GET") {
+            //Page loads are done via the router, so the content is inserted and the history is updated.
+            Router.getInstance().navigate(removeURLparam(settings.url, "ajax"));
+        }
+        else {
+            //Form submissions have their success handler in the settings, so we can simply resend them.
+            $("#content").hide(0);
+            $("#progressbar").show(0);
+            $.ajax(settings);
+        }
+    };
+    /** The longest part of the server response, that is shown in the error panel. */
+    AjaxErrorHandler.MAX_MESSAGE_LENGTH = 2000;
+    return AjaxErrorHandler;
+}());
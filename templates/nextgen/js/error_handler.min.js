@@ -0,0 +1 @@
+var AjaxErrorHandler=function(){function AjaxErrorHandler(){}AjaxErrorHandler.getInstance=function(){if(AjaxErrorHandler.singleton==null||AjaxErrorHandler.singleton==undefined){AjaxErrorHandler.singleton=new AjaxErrorHandler}return AjaxErrorHandler.singleton};AjaxErrorHandler.prototype.getTimeout=function(){var seconds=Number($("#ajax_timeout").val());if(isNaN(seconds)||seconds<0){return 0}return seconds*1e3};AjaxErrorHandler.prototype.handle=function(request,settings){if(request.statusText=="abort"){return}if(settings.url.indexOf("api.php")!=-1){return}if(request.status==0&&request.statusText!="timeout"){return}if(this.isSessionExpired(request)){this.redirectToLogin();return}this.showErrorPanel(request,settings)};AjaxErrorHandler.prototype.redirectToLogin=function(){window.location.href=BASE+"login.php?redirect="+encodeURIComponent(location.pathname+location.search)};AjaxErrorHandler.prototype.isSessionExpired=function(request){return request.status==401};AjaxErrorHandler.prototype.showErrorPanel=function(request,settings){var _this=this;var panel=$("#ajax-error-template").children().first().clone();var status=request.statusText=="timeout"?"":request.status+" "+request.statusText;panel.find(".ajax-error-status").text(status);panel.find(".ajax-error-timeout").prop("hidden",request.statusText!="timeout");panel.find(".ajax-error-message").text(this.extractMessage(request));panel.find(".ajax-error-retry").click(function(){_this.retry(settings)});var old_content=$("#content").children().detach();panel.find(".ajax-error-dismiss").click(function(){panel.remove();$("#content").append(old_content)});$("#progressbar").hide(0);$("#content").empty().append(panel).show(0);$(window).scrollTop(0)};AjaxErrorHandler.prototype.extractMessage=function(request){if(typeof request.responseJSON!=="undefined"){return PartDbApiClient.getErrorMessage(request)}var text=typeof request.responseText==="string"?request.responseText:"";if(text===""){return""}var html=$("<div>").append($.parseHTML(text));var content=html.find("#content-data");var message=$.trim((content.length?content:html).text()).replace(/\s+/g," ");if(message.length>AjaxErrorHandler.MAX_MESSAGE_LENGTH){message=message.substring(0,AjaxErrorHandler.MAX_MESSAGE_LENGTH)+"..."}return message};AjaxErrorHandler.prototype.retry=function(settings){var type=typeof settings.type!=="undefined"?settings.type.toUpperCase():"GET";if(type==="GET"){Router.getInstance().navigate(removeURLparam(settings.url,"ajax"))}else{$("#content").hide(0);$("#progressbar").show(0);$.ajax(settings)}};AjaxErrorHandler.MAX_MESSAGE_LENGTH=2e3;return AjaxErrorHandler}();
\ No newline at end of file
@@ -0,0 +1,299 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      FilterBuilder Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * The filter builder above the parts tables. It combines conditions on the category, footprint, manufacturer,
+ * supplier, instock, price, obsolete flag and text with nested AND/OR groups.
+ * The filter is written as JSON into the hidden input with the attribute data-filter="filter", so it is sent to the
+ * API and saved in the URL by PartsTable. Named filters can be saved in the user settings to reuse them later.
+ */
+var FilterBuilder = /** @class */ (function () {
+    function FilterBuilder() {
+    }
+    /**
+     * Gets a instance of FilterBuilder. If no instance exits, then a new one is created.
+     * @returns {FilterBuilder} A instance of FilterBuilder.
+     */
+    FilterBuilder.getInstance = function () {
+        if (FilterBuilder.singleton == null || FilterBuilder.singleton == undefined) {
+            FilterBuilder.singleton = new FilterBuilder();
+        }
+        return FilterBuilder.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Registers the handlers of the filter builders. The events are delegated, so they work for the pages loaded via
+     * ajax. Called by AjaxUI.start()
+     */
+    FilterBuilder.prototype.start = function () {
+        var _this = this;
+        $(document).on("click", ".filter-builder-toggle", function () {
+            var builder = $(this).closest(".parts-table-filter").find(".filter-builder");
+            builder.prop("hidden", !builder.prop("hidden"));
+        });
+        $(document).on("click", ".filter-builder .filter-add-condition", function () {
+            var builder = $(this).closest(".filter-builder");
+            $(this).closest(".filter-group").children(".filter-conditions")
+                .append(_this.createCondition(builder, null));
+            _this.update(builder);
+        });
+        $(document).on("click", ".filter-builder .filter-add-group", function () {
+            var builder = $(this).closest(".filter-builder");
+            $(this).closest(".filter-group").children(".filter-conditions")
+                .append(_this.createGroup(builder, { group: "and", conditions: [] }));
+            _this.update(builder);
+        });
+        $(document).on("click", ".filter-builder .filter-remove", function () {
+            var builder = $(this).closest(".filter-builder");
+            $(this).closest(".filter-condition, .filter-group").remove();
+            _this.update(builder);
+        });
+        $(document).on("change", ".filter-builder .filter-field", function () {
+            FilterBuilder.showFieldInputs($(this).closest(".filter-condition"));
+        });
+        $(document).on("input change", ".filter-builder-root :input", function () {
+            _this.update($(this).closest(".filter-builder"));
+        });
+        //The hidden filter input is cleared by PartsTable
+        $(document).on("click", ".parts-table-filter-reset", function () {
+            $(this).closest(".parts-table-filter").find(".filter-builder").each(function () {
+                _this.render($(this), null);
+            });
+        });
+        $(document).on("change", ".filter-builder-saved", function () {
+            var name = $(this).val();
+            var saved = UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY, {});
+            if (name !== "" && saved.hasOwnProperty(name)) {
+                var builder = $(this).closest(".filter-builder");
+                builder.find(".filter-builder-name").val(name);
+                _this.render(builder, saved[name]);
+                _this.update(builder);
+            }
+        });
+        $(document).on("click", ".filter-builder-save", function () {
+            var builder = $(this).closest(".filter-builder");
+            var name = $.trim(builder.find(".filter-builder-name").val());
+            if (name === "") {
+                builder.find(".filter-builder-name").focus();
+                return;
+            }
+            var saved = $.extend({}, UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY, {}));
+            saved[name] = _this.read(builder.find(".filter-builder-root > .filter-group"));
+            _this.saveFilters(builder, saved, name);
+        });
+        $(document).on("click", ".filter-builder-delete", function () {
+            var builder = $(this).closest(".filter-builder");
+            var name = builder.find(".filter-builder-saved").val();
+            if (name === "") {
+                return;
+            }
+            var saved = $.extend({}, UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY, {}));
+            delete saved[name];
+            _this.saveFilters(builder, saved, "");
+        });
+    };
+    /**
+     * Shows the filters given by the server (from the URL) in the filter builders on the page and loads the saved
+     * filters of the user. Called when a page is loaded.
+     */
+    FilterBuilder.init = function () {
+        var instance = FilterBuilder.getInstance();
+        $(".filter-builder").not("[data-initialized]").each(function () {
+            var builder = $(this).attr("data-initialized", "true");
+            var filter = null;
+            try {
+                filter = JSON.parse(builder.find("input[data-filter=filter]").val());
+            }
+            catch (e) {
+                filter = null;
+            }
+            instance.render(builder, filter);
+            if (filter !== null && $.isArray(filter.conditions) && filter.conditions.length > 0) {
+                builder.prop("hidden", false);
+            }
+            UserSettings.getInstance().load().done(function () {
+                FilterBuilder.fillSavedFilters(builder, "");
+            });
+        });
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    /**
+     * Replaces the groups and conditions in the filter builder with the given filter.
+     * @param {JQuery} builder The .filter-builder element.
+     * @param {FilterBuilderGroup} filter The filter, or null for an empty filter.
+     */
+    FilterBuilder.prototype.render = function (builder, filter) {
+        if (filter === null || typeof filter !== "object" || !$.isArray(filter.conditions)) {
+            filter = { group: "and", conditions: [] };
+        }
+        var root = this.createGroup(builder, filter);
+        //The outermost group can not be removed
+        root.children(".panel-heading").find(".filter-remove").hide();
+        builder.find(".filter-builder-root").empty().append(root);
+    };
+    /**
+     * Creates the elements of a group and its conditions from the prototype in the template.
+     */
+    FilterBuilder.prototype.createGroup = function (builder, group) {
+        var _this = this;
+        var element = builder.find(".filter-builder-prototypes > .filter-group").clone();
+        element.find(".filter-group-operator").val(group.group === "or" ? "or" : "and");
+        var conditions = element.children(".filter-conditions");
+        group.conditions.forEach(function (condition) {
+            if (condition !== null && condition.hasOwnProperty("group")) {
+                conditions.append(_this.createGroup(builder, condition));
+            }
+            else if (condition !== null) {
+                conditions.append(_this.createCondition(builder, condition));
+            }
+        });
+        return element;
+    };
+    /**
+     * Creates the elements of a condition from the prototype in the template.
+     * @param {JQuery} builder The .filter-builder element.
+     * @param {FilterBuilderCondition} condition The condition, or null for a new condition.
+     */
+    FilterBuilder.prototype.createCondition = function (builder, condition) {
+        var element = builder.find(".filter-builder-prototypes > .filter-condition").clone();
+        if (condition !== null && element.find(".filter-field option[value='" + condition.field + "']").length > 0) {
+            element.find(".filter-field").val(condition.field);
+            if (condition.operator) {
+                element.find(".filter-operator").val(condition.operator);
+            }
+            var input = element.find(".filter-value[data-field='" + condition.field + "']");
+            if (condition.field === "price") {
+                input.val(LocalizedNumberInput.getInstance().formatNumber(Number(condition.value)));
+            }
+            else if (condition.field === "obsolete") {
+                input.val(condition.value ? "1" : "0");
+            }
+            else {
+                input.val(String(condition.value));
+            }
+        }
+        FilterBuilder.showFieldInputs(element);
+        return element;
+    };
+    /**
+     * Shows only the inputs of a condition, which belong to the selected field.
+     * @param {JQuery} condition The .filter-condition element.
+     */
+    FilterBuilder.showFieldInputs = function (condition) {
+        var field = condition.find(".filter-field").val();
+        condition.find(".filter-operator").toggle(FilterBuilder.NUMERIC_FIELDS.indexOf(field) !== -1);
+        condition.find(".filter-value").each(function () {
+            $(this).toggle($(this).data("field") === field);
+        });
+    };
+    /**
+     * Returns the filter of a group element. Conditions without a value and empty groups are skipped.
+     * @param {JQuery} element The .filter-group element.
+     */
+    FilterBuilder.prototype.read = function (element) {
+        var _this = this;
+        var group = {
+            group: element.children(".panel-heading").find(".filter-group-operator").val() === "or" ? "or" : "and",
+            conditions: []
+        };
+        element.children(".filter-conditions").children().each(function () {
+            if ($(this).hasClass("filter-group")) {
+                var subgroup = _this.read($(this));
+                if (subgroup.conditions.length > 0) {
+                    group.conditions.push(subgroup);
+                }
+            }
+            else {
+                var condition = FilterBuilder.readCondition($(this));
+                if (condition !== null) {
+                    group.conditions.push(condition);
+                }
+            }
+        });
+        return group;
+    };
+    /**
+     * Returns the condition of a condition element, or null if no value was entered.
+     * @param {JQuery} element The .filter-condition element.
+     */
+    FilterBuilder.readCondition = function (element) {
+        var field = element.find(".filter-field").val();
+        var input = element.find(".filter-value[data-field='" + field + "']");
+        var text = $.trim(LocalizedNumberInput.val(input));
+        if (text === "") {
+            return null;
+        }
+        var condition = { field: field, value: text };
+        if (field === "obsolete") {
+            condition.value = text === "1";
+        }
+        else if (field !== "text") {
+            condition.value = Number(text);
+            if (isNaN(condition.value) || (FilterBuilder.NUMERIC_FIELDS.indexOf(field) === -1 && condition.value <= 0)) {
+                return null;
+            }
+        }
+        if (FilterBuilder.NUMERIC_FIELDS.indexOf(field) !== -1) {
+            condition.operator = element.find(".filter-operator").val();
+        }
+        return condition;
+    };
+    /**
+     * Writes the filter into the hidden filter input. If it has changed, the table is reloaded by PartsTable.
+     * @param {JQuery} builder The .filter-builder element.
+     */
+    FilterBuilder.prototype.update = function (builder) {
+        var filter = this.read(builder.find(".filter-builder-root > .filter-group"));
+        var json = filter.conditions.length > 0 ? JSON.stringify(filter) : "";
+        var input = builder.find("input[data-filter=filter]");
+        if (input.val() !== json) {
+            input.val(json).trigger("change");
+        }
+    };
+    /**
+     * Saves the filters in the settings of the user and updates the select of the saved filters.
+     * @param {JQuery} builder The .filter-builder element.
+     * @param saved The saved filters by their name.
+     * @param {string} selected The name of the filter, which is selected afterwards.
+     */
+    FilterBuilder.prototype.saveFilters = function (builder, saved, selected) {
+        var error = builder.find(".filter-builder-error").prop("hidden", true);
+        UserSettings.getInstance().set(FilterBuilder.SETTINGS_KEY, saved)
+            .done(function () {
+            $(".filter-builder").each(function () {
+                FilterBuilder.fillSavedFilters($(this), $(this).is(builder) ? selected : null);
+            });
+        })
+            .fail(function (xhr) {
+            error.prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+        });
+    };
+    /**
+     * Fills the select of the saved filters with the filters from the settings of the user.
+     * @param {JQuery} builder The .filter-builder element.
+     * @param {string} selected The name of the selected filter, or null to keep the selection.
+     */
+    FilterBuilder.fillSavedFilters = function (builder, selected) {
+        var select = builder.find(".filter-builder-saved");
+        if (selected === null) {
+            selected = select.val();
+        }
+        var saved = UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY, {});
+        select.children("option").not(":first").remove();
+        Object.keys(saved).sort().forEach(function (name) {
+            select.append($("<option>").val(name).text(name));
+        });
+        select.val(saved.hasOwnProperty(selected) ? selected : "");
+    };
+    /** The key of the user setting, which contains the saved filters by their name. */
+    FilterBuilder.SETTINGS_KEY = "saved_filters";
+    /** The fields with a comparison operator, all other fields are compared for equality. */
+    FilterBuilder.NUMERIC_FIELDS = ["instock", "price"];
+    return FilterBuilder;
+}());
@@ -0,0 +1 @@
+var FilterBuilder=function(){function FilterBuilder(){}FilterBuilder.getInstance=function(){if(FilterBuilder.singleton==null||FilterBuilder.singleton==undefined){FilterBuilder.singleton=new FilterBuilder}return FilterBuilder.singleton};FilterBuilder.prototype.start=function(){var _this=this;$(document).on("click",".filter-builder-toggle",function(){var builder=$(this).closest(".parts-table-filter").find(".filter-builder");builder.prop("hidden",!builder.prop("hidden"))});$(document).on("click",".filter-builder .filter-add-condition",function(){var builder=$(this).closest(".filter-builder");$(this).closest(".filter-group").children(".filter-conditions").append(_this.createCondition(builder,null));_this.update(builder)});$(document).on("click",".filter-builder .filter-add-group",function(){var builder=$(this).closest(".filter-builder");$(this).closest(".filter-group").children(".filter-conditions").append(_this.createGroup(builder,{group:"and",conditions:[]}));_this.update(builder)});$(document).on("click",".filter-builder .filter-remove",function(){var builder=$(this).closest(".filter-builder");$(this).closest(".filter-condition, .filter-group").remove();_this.update(builder)});$(document).on("change",".filter-builder .filter-field",function(){FilterBuilder.showFieldInputs($(this).closest(".filter-condition"))});$(document).on("input change",".filter-builder-root :input",function(){_this.update($(this).closest(".filter-builder"))});$(document).on("click",".parts-table-filter-reset",function(){$(this).closest(".parts-table-filter").find(".filter-builder").each(function(){_this.render($(this),null)})});$(document).on("change",".filter-builder-saved",function(){var name=$(this).val();var saved=UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY,{});if(name!==""&&saved.hasOwnProperty(name)){var builder=$(this).closest(".filter-builder");builder.find(".filter-builder-name").val(name);_this.render(builder,saved[name]);_this.update(builder)}});$(document).on("click",".filter-builder-save",function(){var builder=$(this).closest(".filter-builder");var name=$.trim(builder.find(".filter-builder-name").val());if(name===""){builder.find(".filter-builder-name").focus();return}var saved=$.extend({},UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY,{}));saved[name]=_this.read(builder.find(".filter-builder-root > .filter-group"));_this.saveFilters(builder,saved,name)});$(document).on("click",".filter-builder-delete",function(){var builder=$(this).closest(".filter-builder");var name=builder.find(".filter-builder-saved").val();if(name===""){return}var saved=$.extend({},UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY,{}));delete saved[name];_this.saveFilters(builder,saved,"")})};FilterBuilder.init=function(){var instance=FilterBuilder.getInstance();$(".filter-builder").not("[data-initialized]").each(function(){var builder=$(this).attr("data-initialized","true");var filter=null;try{filter=JSON.parse(builder.find("input[data-filter=filter]").val())}catch(e){filter=null}instance.render(builder,filter);if(filter!==null&&$.isArray(filter.conditions)&&filter.conditions.length>0){builder.prop("hidden",false)}UserSettings.getInstance().load().done(function(){FilterBuilder.fillSavedFilters(builder,"")})})};FilterBuilder.prototype.render=function(builder,filter){if(filter===null||typeof filter!=="object"||!$.isArray(filter.conditions)){filter={group:"and",conditions:[]}}var root=this.createGroup(builder,filter);root.children(".panel-heading").find(".filter-remove").hide();builder.find(".filter-builder-root").empty().append(root)};FilterBuilder.prototype.createGroup=function(builder,group){var _this=this;var element=builder.find(".filter-builder-prototypes > .filter-group").clone();element.find(".filter-group-operator").val(group.group==="or"?"or":"and");var conditions=element.children(".filter-conditions");group.conditions.forEach(function(condition){if(condition!==null&&condition.hasOwnProperty("group")){conditions.append(_this.createGroup(builder,condition))}else if(condition!==null){conditions.append(_this.createCondition(builder,condition))}});return element};FilterBuilder.prototype.createCondition=function(builder,condition){var element=builder.find(".filter-builder-prototypes > .filter-condition").clone();if(condition!==null&&element.find(".filter-field option[value='"+condition.field+"']").length>0){element.find(".filter-field").val(condition.field);if(condition.operator){element.find(".filter-operator").val(condition.operator)}var input=element.find(".filter-value[data-field='"+condition.field+"']");if(condition.field==="price"){input.val(LocalizedNumberInput.getInstance().formatNumber(Number(condition.value)))}else if(condition.field==="obsolete"){input.val(condition.value?"1":"0")}else{input.val(String(condition.value))}}FilterBuilder.showFieldInputs(element);return element};FilterBuilder.showFieldInputs=function(condition){var field=condition.find(".filter-field").val();condition.find(".filter-operator").toggle(FilterBuilder.NUMERIC_FIELDS.indexOf(field)!==-1);condition.find(".filter-value").each(function(){$(this).toggle($(this).data("field")===field)})};FilterBuilder.prototype.read=function(element){var _this=this;var group={group:element.children(".panel-heading").find(".filter-group-operator").val()==="or"?"or":"and",conditions:[]};element.children(".filter-conditions").children().each(function(){if($(this).hasClass("filter-group")){var subgroup=_this.read($(this));if(subgroup.conditions.length>0){group.conditions.push(subgroup)}}else{var condition=FilterBuilder.readCondition($(this));if(condition!==null){group.conditions.push(condition)}}});return group};FilterBuilder.readCondition=function(element){var field=element.find(".filter-field").val();var input=element.find(".filter-value[data-field='"+field+"']");var text=$.trim(LocalizedNumberInput.val(input));if(text===""){return null}var condition={field:field,value:text};if(field==="obsolete"){condition.value=text==="1"}else if(field!=="text"){condition.value=Number(text);if(isNaN(condition.value)||FilterBuilder.NUMERIC_FIELDS.indexOf(field)===-1&&condition.value<=0){return null}}if(FilterBuilder.NUMERIC_FIELDS.indexOf(field)!==-1){condition.operator=element.find(".filter-operator").val()}return condition};FilterBuilder.prototype.update=function(builder){var filter=this.read(builder.find(".filter-builder-root > .filter-group"));var json=filter.conditions.length>0?JSON.stringify(filter):"";var input=builder.find("input[data-filter=filter]");if(input.val()!==json){input.val(json).trigger("change")}};FilterBuilder.prototype.saveFilters=function(builder,saved,selected){var error=builder.find(".filter-builder-error").prop("hidden",true);UserSettings.getInstance().set(FilterBuilder.SETTINGS_KEY,saved).done(function(){$(".filter-builder").each(function(){FilterBuilder.fillSavedFilters($(this),$(this).is(builder)?selected:null)})}).fail(function(xhr){error.prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr))})};FilterBuilder.fillSavedFilters=function(builder,selected){var select=builder.find(".filter-builder-saved");if(selected===null){selected=select.val()}var saved=UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY,{});select.children("option").not(":first").remove();Object.keys(saved).sort().forEach(function(name){select.append($("<option>").val(name).text(name))});select.val(saved.hasOwnProperty(selected)?selected:"")};FilterBuilder.SETTINGS_KEY="saved_filters";FilterBuilder.NUMERIC_FIELDS=["instock","price"];return FilterBuilder}();
\ No newline at end of file
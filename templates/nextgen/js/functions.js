@@ -5,7 +5,7 @@
  */
 function openLink(page) {
     'use strict';
-    $('#content').load(page + " #content-data");
+    Router.getInstance().navigate(page);
 }
 /**
  * Add the given param to a existing URL.
@@ -113,5 +113,5 @@ function getBasePath() {
  * Reloads the current Page.
  */
 function reloadPage() {
-    openLink(document.location.href);
+    Router.getInstance().reload();
 }
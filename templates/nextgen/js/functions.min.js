@@ -1 +1 @@
-function openLink(page){"use strict";$("#content").load(page+" #content-data")}function addURLparam(url,param){"use strict";var hash="";if(url.indexOf("#")!=-1){hash=url.substring(url.indexOf("#"));url=url.replace(hash,"")}if(url.indexOf("?")>=0){url=url+"&"+param}else{url=url+"?"+param}return url+hash}function removeURLparam(url,param){"use strict";return url.replace("&"+param,"").replace("?"+param,"")}function submitForm(form){"use strict";ajaxui.submitForm(form)}function submitFormSubmitBtn(form,btn){ajaxui.submitFormSubmitBtn(form,btn)}function extractTitle(html){var title="";var regex=/<title>(.*?)<\/title>/gi;if(regex.test(html)){var matches=html.match(regex);for(var match in matches){title=$(matches[match]).text()}}return title}function openInNewTab(url){window.open(url,"_newtab")}function scrollUpForMsg(){if($("#messages").length){$("#back-to-top").tooltip("hide");$("body,html").animate({scrollTop:0},400);return false}}function scrollToAnchor(anchor){if(anchor.indexOf("#")!==-1)$(document).scrollTop($(anchor).offset().top-100)}function getBasePath(){return String($("#basepath").val())}function reloadPage(){openLink(document.location.href)}
\ No newline at end of file
+function openLink(page){"use strict";Router.getInstance().navigate(page)}function addURLparam(url,param){"use strict";var hash="";if(url.indexOf("#")!=-1){hash=url.substring(url.indexOf("#"));url=url.replace(hash,"")}if(url.indexOf("?")>=0){url=url+"&"+param}else{url=url+"?"+param}return url+hash}function removeURLparam(url,param){"use strict";return url.replace("&"+param,"").replace("?"+param,"")}function submitForm(form){"use strict";ajaxui.submitForm(form)}function submitFormSubmitBtn(form,btn){ajaxui.submitFormSubmitBtn(form,btn)}function extractTitle(html){var title="";var regex=/<title>(.*?)<\/title>/gi;if(regex.test(html)){var matches=html.match(regex);for(var match in matches){title=$(matches[match]).text()}}return title}function openInNewTab(url){window.open(url,"_newtab")}function scrollUpForMsg(){if($("#messages").length){$("#back-to-top").tooltip("hide");$("body,html").animate({scrollTop:0},400);return false}}function scrollToAnchor(anchor){if(anchor.indexOf("#")!==-1)$(document).scrollTop($(anchor).offset().top-100)}function getBasePath(){return String($("#basepath").val())}function reloadPage(){Router.getInstance().reload()}
\ No newline at end of file
@@ -0,0 +1 @@
+var InlineEditor=function(){function InlineEditor(){this.changes=[];this.editing=null;this.editing_html=null;this.locations=null}InlineEditor.getInstance=function(){if(InlineEditor.singleton==null||InlineEditor.singleton==undefined){InlineEditor.singleton=new InlineEditor}return InlineEditor.singleton};InlineEditor.prototype.start=function(){var _this=this;$(document).on("dblclick",".table-sortable tbody td",function(event){var td=$(this);if(_this.editing!==null||$(event.target).is("input, select, a")||!_this.isEditable(td)){return}event.preventDefault();window.getSelection().removeAllRanges();_this.edit(td)});$("#inline-edit-save").click(function(){_this.save(_this.changes.filter(function(change){return!change.saving}))});$("#inline-edit-discard").click(function(){_this.changes.filter(function(change){return!change.saving}).forEach(function(change){_this.discard(change)})});$(document).on("draw.dt",".table-sortable",function(){_this.removeDetachedChanges()});AjaxUI.getInstance().addAjaxCompleteAction(function(){_this.editing=null;_this.removeDetachedChanges()})};InlineEditor.prototype.isEditable=function(td){var columns=$("#inline-edit-bar").data("columns")||[];return td.closest("table").find("thead tr[data-table-type]").length>0&&InlineEditor.getPartID(td)>0&&columns.indexOf(InlineEditor.getCaption(td))!==-1};InlineEditor.getCaption=function(td){var api=td.closest("table").DataTable();return $(api.column(api.cell(td[0]).index().column).header()).data("column")};InlineEditor.getPartID=function(td){return Number(td.closest("tr").find("input[type=hidden]").first().val())};InlineEditor.getValue=function(td,caption){if(td.is("[data-value]")){return td.attr("data-value")}var field=td.closest("table").DataTable().cell(td[0]).data();var value=field?field[InlineEditor.VALUE_KEYS[caption]]:null;return value===null||typeof value==="undefined"?"":String(value)};InlineEditor.prototype.edit=function(td){var _this=this;var caption=InlineEditor.getCaption(td);var change=this.getChange(td);var value=change!==null?change.value:InlineEditor.getValue(td,caption);var input=$(".inline-edit-prototypes [data-caption='"+caption+"']").clone();switch(caption){case"instock":case"mininstock":input.val(/^\d+$/.test(value)?value:"");break;case"average_single_price":var price=LocalizedNumberInput.getInstance().parse(value,true);input.val(isNaN(price)?"":LocalizedNumberInput.getInstance().formatNumber(price));break;case"storelocation":this.fillLocations(input,value);break;default:input.val(value)}this.editing=td;this.editing_html=td.html();var inputs=td.children("input[type=hidden]").detach();td.empty().append(inputs).append(input);input.focus().select();input.on("keydown",function(event){switch(event.key){case"Enter":event.preventDefault();_this.finish(true);break;case"Escape":event.preventDefault();_this.cancel();break;case"Tab":event.preventDefault();var next=InlineEditor.findNextCell(td,!event.shiftKey,function(cell){return _this.isEditable(cell)});if(_this.finish(false)&&next!==null){_this.edit(next)}break}}).on("blur",function(){if(_this.editing!==null&&_this.editing.is(td)&&!_this.finish(false)){_this.cancel()}})};InlineEditor.prototype.fillLocations=function(select,value){var _this=this;var fill=function(){for(var _i=0,_a=_this.locations;_i<_a.length;_i++){var location_1=_a[_i];select.append($("<option>").val(location_1.id).data("name",location_1.name).text(new Array(location_1.level+1).join("  ")+location_1.name))}select.val(value!==""?value:"0")};if(this.locations!==null){fill();return}select.prop("disabled",true);PartDbApiClient.getInstance().getLazyTree("locations",0,SidebarTree.MAX_DEPTH).done(function(nodes){_this.locations=[];var add=function(nodes,level){for(var _i=0,nodes_1=nodes;_i<nodes_1.length;_i++){var node=nodes_1[_i];_this.locations.push({id:node.id,name:$("<div>").html(node.text).text(),level:level});if(node.nodes){add(node.nodes,level+1)}}};add(nodes,0);fill();select.prop("disabled",false).focus()})};InlineEditor.prototype.finish=function(save){var td=this.editing;var input=td.find("[data-caption]");var caption=InlineEditor.getCaption(td);var value=this.validate(caption,input);if(value===null){td.addClass("has-error");input.focus();return false}this.editing=null;td.removeClass("has-error");var change=this.getChange(td);var saved=InlineEditor.getValue(td,caption);if(caption==="average_single_price"){saved=String(LocalizedNumberInput.getInstance().parse(saved,true))}if(value===saved){if(change!==null){this.discard(change)}else{td.html(this.editing_html)}return true}if(change===null){change={td:td,part_id:InlineEditor.getPartID(td),caption:caption,value:value,original_html:this.editing_html,saving:false};this.changes.push(change)}change.value=value;var text=value;if(caption==="storelocation"){text=String(input.find("option:selected").data("name")||"")}else if(caption==="average_single_price"){text=LocalizedNumberInput.getInstance().formatPrice(Number(value))}var inputs=td.children("input[type=hidden]").detach();td.text(text).prepend(inputs).removeClass("danger").addClass("warning");if(save){this.save([change])}else{this.updateBar()}return true};InlineEditor.prototype.validate=function(caption,input){var text=$.trim(input.val());switch(caption){case"instock":case"mininstock":return/^\d+$/.test(text)?String(Number(text)):null;case"average_single_price":var price=LocalizedNumberInput.getInstance().parse(text);return!isNaN(price)&&price>=0?String(price):null;case"storelocation":return input.prop("disabled")?null:text}return input.val()};InlineEditor.prototype.cancel=function(){var td=this.editing;this.editing=null;td.removeClass("has-error").html(this.editing_html);AjaxUI.getInstance().registerLinks()};InlineEditor.prototype.save=function(changes){var _this=this;var parts={};for(var _i=0,changes_1=changes;_i<changes_1.length;_i++){var change=changes_1[_i];if(!(change.part_id in parts)){parts[change.part_id]=[]}parts[change.part_id].push(change)}Object.keys(parts).forEach(function(id){var part_changes=parts[id];var tr=part_changes[0].td.closest("tr");var values={};for(var _i=0,part_changes_1=part_changes;_i<part_changes_1.length;_i++){var change=part_changes_1[_i];values[change.caption]=change.value;change.saving=true;_this.showStatus(change,null)}var type=tr.closest("table").find("thead tr[data-table-type]").data("table-type");PartDbApiClient.getInstance().editPartValues(Number(id),values,type).done(function(result){var captions=[];for(var _i=0,part_changes_2=part_changes;_i<part_changes_2.length;_i++){var change=part_changes_2[_i];var value_result=result.results[change.caption];change.saving=false;if(value_result&&value_result.success){_this.changes.splice(_this.changes.indexOf(change),1);change.td.removeClass("warning danger").removeAttr("title").tooltip("destroy");captions=captions.concat(InlineEditor.UPDATED_COLUMNS[change.caption])}else{_this.showStatus(change,value_result?value_result.message:"")}}captions=captions.filter(function(caption){return!_this.changes.some(function(change){return change.caption===caption&&change.td.closest("tr").is(tr)})});_this.updateValues(tr,result.row);PartsTable.getInstance().updateRow(tr,result.row,captions)}).fail(function(xhr){for(var _i=0,part_changes_3=part_changes;_i<part_changes_3.length;_i++){var change=part_changes_3[_i];change.saving=false;_this.showStatus(change,PartDbApiClient.getErrorMessage(xhr))}}).always(function(){_this.updateBar()})});this.updateBar()};InlineEditor.prototype.updateValues=function(tr,row){var api=tr.closest("table").DataTable();api.cells(api.row(tr).index(),"*").nodes().each(function(node){var td=$(node);var caption=InlineEditor.getCaption(td);if(!InlineEditor.VALUE_KEYS.hasOwnProperty(caption)){return}for(var _i=0,_a=row.row_fields;_i<_a.length;_i++){var field=_a[_i];var value=field[InlineEditor.VALUE_KEYS[caption]];if(field.caption===caption&&typeof value!=="undefined"){td.attr("data-value",value===null?"":String(value))}}})};InlineEditor.prototype.showStatus=function(change,error){change.td.find(".inline-edit-status").remove();var icon=$("<i class='fa fa-fw inline-edit-status' aria-hidden='true'>");if(error===null){icon.addClass("fa-spinner fa-spin")}else{icon.addClass("fa-exclamation-triangle text-danger");change.td.removeClass("warning").addClass("danger").attr("title",error).tooltip({container:"body"})}change.td.append(" ").append(icon)};InlineEditor.prototype.discard=function(change){this.changes.splice(this.changes.indexOf(change),1);change.td.removeClass("warning danger").removeAttr("title").tooltip("destroy").html(change.original_html);AjaxUI.getInstance().registerLinks();this.updateBar()};InlineEditor.prototype.getChange=function(td){for(var _i=0,_a=this.changes;_i<_a.length;_i++){var change=_a[_i];if(change.td.is(td)){return change}}return null};InlineEditor.prototype.removeDetachedChanges=function(){this.changes=this.changes.filter(function(change){return $.contains(document.documentElement,change.td[0])});this.updateBar()};InlineEditor.prototype.updateBar=function(){var count=this.changes.filter(function(change){return!change.saving}).length;$("#inline-edit-count").text(count);$("#inline-edit-bar").prop("hidden",count===0)};InlineEditor.findNextCell=function(td,forward,filter){var cells=td.closest("tbody").find("td").toArray();var index=cells.indexOf(td[0]);for(var i=index+(forward?1:-1);i>=0&&i<cells.length;i+=forward?1:-1){if(filter($(cells[i]))){return $(cells[i])}}return null};InlineEditor.VALUE_KEYS={instock:"instock",mininstock:"mininstock",storelocation:"storelocation_id",comment:"comment_bbcode",average_single_price:"average_single_price_value"};InlineEditor.UPDATED_COLUMNS={instock:["instock","instock_mininstock"],mininstock:["instock","mininstock","instock_mininstock"],storelocation:["storelocation"],comment:["comment","name","name_description"],average_single_price:["average_single_price","single_prices"]};return InlineEditor}();
\ No newline at end of file
@@ -0,0 +1 @@
+var LabelDesigner=function(){function LabelDesigner(){this.layout=null;this.selected=-1;this.scale=LabelDesigner.MAX_SCALE;this.part_ids=[];this.preview_id=0;this.data={};this.requests={};this.templates={};this.drag=null}LabelDesigner.getInstance=function(){if(LabelDesigner.singleton==null||LabelDesigner.singleton==undefined){LabelDesigner.singleton=new LabelDesigner}return LabelDesigner.singleton};LabelDesigner.prototype.start=function(){var _this=this;$(document).on("click",".select_actions button[name=multi_action]",function(event){var container=$(this).closest(".select_actions");if(container.find("select[name=action]").val()!=="labels"){return}event.preventDefault();var ids=BulkEditor.getSelectedParts().map(function(part){return part.id});if(ids.length>0){Router.getInstance().navigateTo("tools_labels","label_ids="+ids.join(","))}});$(document).on("click",".label-designer-add",function(){_this.addElement($(this).data("type"))});$(document).on("click","#label-designer-remove",function(){if(_this.selected>=0){_this.layout.elements.splice(_this.selected,1);_this.select(-1)}});$(document).on("mousedown","#label-designer-canvas .label-element",function(event){var node=$(this);event.preventDefault();_this.select(Number(node.attr("data-index")));var element=_this.layout.elements[_this.selected];_this.drag={resize:$(event.target).is(".label-element-handle"),start_x:event.pageX,start_y:event.pageY,element:element,original:$.extend({},element)}});$(document).on("mousedown","#label-designer-canvas",function(event){if($(event.target).closest(".label-element").length===0){_this.select(-1)}});$(document).on("mousemove",function(event){if(_this.drag!==null){_this.onDrag(event.pageX,event.pageY)}});$(document).on("mouseup",function(){_this.drag=null});$(document).on("change",".label-designer-size",function(){var value=Number($(this).val());if(value>0){_this.layout[$(this).data("dimension")]=value;_this.render()}});$(document).on("input change","#label-designer-properties [data-property]",function(){_this.readProperty($(this))});$(document).on("change","#label-designer-placeholder",function(){var select=$(this);_this.insertPlaceholder(select.val());select.val("")});$(document).on("change","#label-designer-templates",function(){var name=$(this).val();if(_this.templates.hasOwnProperty(name)){$("#label-designer-template-name").val(name);_this.setLayout(_this.templates[name])}});$(document).on("click","#label-designer-template-save",function(){_this.saveTemplate()});$(document).on("click","#label-designer-template-delete",function(){_this.deleteTemplate(String($(this).data("confirm")))});$(document).on("click","#label-designer-part-add",function(){var input=$("#label-designer-part-id");var id=Math.floor(Number(input.val()));if(id>0){input.val("");_this.addPart(id)}});$(document).on("keydown","#label-designer-part-id",function(event){if(event.key==="Enter"){event.preventDefault();$("#label-designer-part-add").click()}});$(document).on("click","#label-designer-parts .label-designer-part",function(){_this.preview_id=Number($(this).attr("data-id"));_this.showParts();_this.loadPreview()});$(document).on("click","#label-designer-parts .label-designer-part-remove",function(event){event.stopPropagation();_this.removePart(Number($(this).closest(".label-designer-part").attr("data-id")))});$(document).on("click","#label-designer-print",function(){_this.print()})};LabelDesigner.init=function(){var designer=$("#label-designer");if(designer.length===0){return}var instance=LabelDesigner.getInstance();if(instance.layout===null){instance.layout=LabelDesigner.copyLayout(LabelDesigner.DEFAULT_LAYOUT)}var ids=String(designer.data("label-ids")||"");if(ids!==""){instance.part_ids=ids.split(",").map(Number).filter(function(id){return id>0});instance.preview_id=instance.part_ids.length>0?instance.part_ids[0]:0}instance.selected=-1;instance.showError("");instance.loadTemplates();instance.setLayout(instance.layout);instance.showParts();for(var _i=0,_a=instance.part_ids;_i<_a.length;_i++){var id=_a[_i];instance.loadData(id).done(function(){instance.showParts()})}};LabelDesigner.prototype.setLayout=function(layout){this.layout=LabelDesigner.copyLayout(layout);$(".label-designer-size[data-dimension=width]").val(this.layout.width);$(".label-designer-size[data-dimension=height]").val(this.layout.height);this.select(-1);this.loadPreview()};LabelDesigner.prototype.loadPreview=function(){var _this=this;this.render();if(this.preview_id>0){this.loadData(this.preview_id).done(function(){_this.render()})}};LabelDesigner.prototype.render=function(){var canvas=$("#label-designer-canvas");if(canvas.length===0){return}var available=canvas.parent().width();this.scale=available>0?Math.min(LabelDesigner.MAX_SCALE,available/this.layout.width):LabelDesigner.MAX_SCALE;var data=this.data[this.preview_id]||null;var label=this.renderLabel(data,this.scale);label.find(".label-element").css({cursor:"move",outline:"1px dashed #bbb"});if(this.selected>=0){var node=label.find(".label-element[data-index="+this.selected+"]");node.css("outline","1px solid #337ab7");node.append($("<div class='label-element-handle'>").css({position:"absolute",right:0,bottom:0,width:"8px",height:"8px",background:"#337ab7",cursor:"nwse-resize"}))}canvas.empty().css({width:label.css("width"),height:label.css("height")}).append(label)};LabelDesigner.prototype.renderLabel=function(data,scale){var length=function(mm){return scale===null?mm+"mm":mm*scale+"px"};var label=$("<div class='label-designer-label'>").css({position:"relative",overflow:"hidden",width:length(this.layout.width),height:length(this.layout.height),background:"#fff",color:"#000"});for(var i=0;i<this.layout.elements.length;i++){var element=this.layout.elements[i];var node=$("<div class='label-element'>").attr("data-index",i).css({position:"absolute",left:length(element.x),top:length(element.y),width:length(element.width),height:length(element.height),overflow:"hidden"});switch(element.type){case"text":node.text(LabelDesigner.replacePlaceholders(element.text,data!==null?data.part:null)).css({"font-family":"sans-serif","font-size":length(element.font_size*LabelDesigner.PT_TO_MM),"font-weight":element.bold?"bold":"normal","text-align":element.align,"line-height":1.2,"white-space":"pre-wrap","word-wrap":"break-word"});break;case"barcode":case"qr":var type=element.type==="qr"?"QR":"EAN8";if(data!==null&&data.barcodes[type]){node.append(LabelDesigner.renderBarcode(data.barcodes[type],element.type==="qr"))}else{node.css("background","repeating-linear-gradient(90deg, #000 0, #000 2px, #fff 2px, #fff 4px)")}break;case"image":var source=element.use_footprint?data!==null?data.footprint_image:"":LabelDesigner.resolveURL(element.source);if(source){node.append($("<img>").attr("src",source).css({width:"100%",height:"100%","object-fit":"contain"}))}else{node.css("background","#ddd")}break}label.append(node)}return label};LabelDesigner.prototype.onDrag=function(page_x,page_y){var drag=this.drag;var snap=function(mm){return Math.round(mm/LabelDesigner.GRID)*LabelDesigner.GRID};var dx=(page_x-drag.start_x)/this.scale;var dy=(page_y-drag.start_y)/this.scale;if(drag.resize){drag.element.width=Math.max(LabelDesigner.GRID,Math.min(this.layout.width-drag.element.x,snap(drag.original.width+dx)));drag.element.height=Math.max(LabelDesigner.GRID,Math.min(this.layout.height-drag.element.y,snap(drag.original.height+dy)))}else{drag.element.x=Math.max(0,Math.min(this.layout.width-drag.element.width,snap(drag.original.x+dx)));drag.element.y=Math.max(0,Math.min(this.layout.height-drag.element.height,snap(drag.original.y+dy)))}this.render();this.showProperties()};LabelDesigner.prototype.addElement=function(type){var element={type:type,x:0,y:0,width:20,height:10};switch(type){case"text":$.extend(element,{height:5,text:"%NAME%",font_size:8,bold:false,align:"left"});break;case"barcode":$.extend(element,{width:30});break;case"qr":$.extend(element,{width:15,height:15});break;case"image":$.extend(element,{source:"",use_footprint:true});break}element.width=Math.min(element.width,this.layout.width);element.height=Math.min(element.height,this.layout.height);this.layout.elements.push(element);this.select(this.layout.elements.length-1);this.loadPreview()};LabelDesigner.prototype.select=function(index){this.selected=index;this.render();this.showProperties()};LabelDesigner.prototype.showProperties=function(){var container=$("#label-designer-properties");container.prop("hidden",this.selected<0);if(this.selected<0){return}var element=this.layout.elements[this.selected];container.find(".label-designer-property-group").each(function(){$(this).prop("hidden",String($(this).data("types")).split(",").indexOf(element.type)===-1)});container.find("[data-property]").each(function(){var input=$(this);var value=element[input.data("property")];if(this===document.activeElement){return}if(input.is(":checkbox")){input.prop("checked",value===true)}else{input.val(typeof value==="undefined"?"":value)}})};LabelDesigner.prototype.readProperty=function(input){if(this.selected<0){return}var element=this.layout.elements[this.selected];var property=input.data("property");if(input.is(":checkbox")){element[property]=input.prop("checked")}else if(input.is("[type=number]")){var value=Number(input.val());if(input.val()===""||isNaN(value)||value<0){return}element[property]=value}else{element[property]=input.val()}if(property==="use_footprint"){this.loadPreview()}else{this.render()}};LabelDesigner.prototype.insertPlaceholder=function(placeholder){var textarea=$("#label-designer-properties [data-property=text]").get(0);if(placeholder===""||typeof textarea==="undefined"){return}var start=textarea.selectionStart;textarea.value=textarea.value.substring(0,start)+placeholder+textarea.value.substring(textarea.selectionEnd);textarea.selectionStart=textarea.selectionEnd=start+placeholder.length;$(textarea).focus().trigger("change")};LabelDesigner.prototype.loadData=function(id){var _this=this;var api=PartDbApiClient.getInstance();var deferred=$.Deferred();var request=function(key,start){if(!_this.requests.hasOwnProperty(key)){_this.requests[key]=start().always(function(){delete _this.requests[key]})}return _this.requests[key]};var fail=function(xhr){_this.showError(PartDbApiClient.getErrorMessage(xhr));deferred.reject()};var loadOthers=function(data){var requests=[];var _loop_1=function(element){if(element.type==="barcode"||element.type==="qr"){var type_1=element.type==="qr"?"QR":"EAN8";if(!data.barcodes.hasOwnProperty(type_1)){requests.push(request(id+"/"+type_1,function(){return api.getPartBarcode(id,type_1).done(function(barcode){data.barcodes[type_1]=barcode})}))}}if(element.type==="image"&&element.use_footprint&&data.footprint_image===null){if(data.part.footprint===null){data.footprint_image="";return"continue"}requests.push(request(id+"/footprint",function(){return api.getFootprint(data.part.footprint.id).done(function(footprint){data.footprint_image=footprint.filename_valid&&footprint.filename!==""?LabelDesigner.resolveURL(footprint.filename.replace(/^\//,"")):""})}))}};for(var _i=0,_a=_this.layout.elements;_i<_a.length;_i++){var element=_a[_i];_loop_1(element)}$.when.apply($,requests).done(function(){deferred.resolve(data)}).fail(fail)};if(typeof this.data[id]!=="undefined"){loadOthers(this.data[id])}else{request(id+"/part",function(){return api.getPart(id).done(function(part){_this.data[id]={part:part,barcodes:{},footprint_image:null}})}).done(function(){loadOthers(_this.data[id])}).fail(fail)}return deferred.promise()};LabelDesigner.prototype.addPart=function(id){var _this=this;this.showError("");this.loadData(id).done(function(){if(_this.part_ids.indexOf(id)===-1){_this.part_ids.push(id)}_this.preview_id=id;_this.showParts();_this.render()})};LabelDesigner.prototype.removePart=function(id){this.part_ids=this.part_ids.filter(function(part_id){return part_id!==id});if(this.preview_id===id){this.preview_id=this.part_ids.length>0?this.part_ids[0]:0;this.loadPreview()}this.showParts()};LabelDesigner.prototype.showParts=function(){var list=$("#label-designer-parts").empty();var prototype=$("#label-designer .label-designer-prototypes .label-designer-part");for(var _i=0,_a=this.part_ids;_i<_a.length;_i++){var id=_a[_i];var item=prototype.clone().attr("data-id",id).toggleClass("active",id===this.preview_id);var data=this.data[id]||null;item.find(".label-designer-part-name").text(data!==null?data.part.name:"#"+id);list.append(item)}$("#label-designer-count").text(this.part_ids.length);$("#label-designer-print").prop("disabled",this.part_ids.length===0)};LabelDesigner.prototype.print=function(){var _this=this;if(this.part_ids.length===0){return}var win=window.open("","_blank");if(win===null){return}var ids=this.part_ids.slice();var requests=ids.map(function(id){return _this.loadData(id)});$.when.apply($,requests).done(function(){var html=ids.map(function(id){return _this.renderLabel(_this.data[id],null).css("page-break-after","always").prop("outerHTML")}).join("");win.document.open();win.document.write("<!DOCTYPE html><html><head><title>"+$("<div>").text(document.title).html()+"</title><style>@page { size: "+_this.layout.width+"mm "+_this.layout.height+"mm; margin: 0; }"+" body { margin: 0; }</style></head><body>"+html+"</body></html>");win.document.close();LabelDesigner.printWhenLoaded(win)}).fail(function(){win.close()})};LabelDesigner.printWhenLoaded=function(win){var pending=0;var done=function(){if(--pending<=0){win.focus();win.print()}};$(win.document.images).each(function(){if(!this.complete){pending++;$(this).on("load error",done)}});if(pending===0){pending=1;done()}};LabelDesigner.prototype.loadTemplates=function(){var _this=this;PartDbApiClient.getInstance().getLabelTemplates().done(function(templates){_this.templates=templates;_this.fillTemplates()}).fail(function(xhr){_this.showError(PartDbApiClient.getErrorMessage(xhr))})};LabelDesigner.prototype.fillTemplates=function(){var select=$("#label-designer-templates");var selected=$("#label-designer-template-name").val();select.find("option:not(:first)").remove();for(var _i=0,_a=Object.keys(this.templates).sort();_i<_a.length;_i++){var name_1=_a[_i];select.append($("<option>").val(name_1).text(name_1))}select.val(this.templates.hasOwnProperty(selected)?selected:"")};LabelDesigner.prototype.saveTemplate=function(){var _this=this;var name=$.trim($("#label-designer-template-name").val());if(name===""){$("#label-designer-template-name").focus();return}this.showError("");var layout=LabelDesigner.copyLayout(this.layout);PartDbApiClient.getInstance().saveLabelTemplate(name,layout).done(function(){_this.templates[name]=layout;$("#label-designer-template-name").val(name);_this.fillTemplates()}).fail(function(xhr){_this.showError(PartDbApiClient.getErrorMessage(xhr))})};LabelDesigner.prototype.deleteTemplate=function(question){var _this=this;var name=$("#label-designer-templates").val();if(name===""||!confirm(question)){return}this.showError("");PartDbApiClient.getInstance().deleteLabelTemplate(name).done(function(){delete _this.templates[name];_this.fillTemplates()}).fail(function(xhr){_this.showError(PartDbApiClient.getErrorMessage(xhr))})};LabelDesigner.prototype.showError=function(message){$("#label-designer-error").prop("hidden",message==="").text(message)};LabelDesigner.replacePlaceholders=function(text,part){if(part===null){return text}var plain=function(html){return(new DOMParser).parseFromString(html,"text/html").body.textContent||""};var orderdetails=part.orderdetails.length>0?part.orderdetails[0]:null;var supplier=orderdetails!==null&&orderdetails.supplier?orderdetails.supplier:null;var values={"%ID%":String(part.id),"%NAME%":part.name,"%DESC%":plain(part.description),"%COMMENT%":plain(part.comment),"%MININSTOCK%":String(part.mininstock),"%INSTOCK%":String(part.instock),"%AVGPRICE%":part.avgprice!==null&&typeof part.avgprice!=="undefined"?LocalizedNumberInput.getInstance().formatPrice(part.avgprice):"","%CAT%":part.category!==null?part.category.name:"","%CAT_FULL%":part.category!==null?part.category.fullpath:"","%FOOT%":part.footprint!==null?part.footprint.name:"","%FOOT_FULL%":part.footprint!==null?part.footprint.fullpath:"","%MANUFACT%":part.manufacturer!==null?part.manufacturer.name:"","%MANUFACT_FULL%":part.manufacturer!==null?part.manufacturer.fullpath:"","%SUPPLIER%":supplier!==null?supplier.name:"","%SUPPLIER_FULL%":supplier!==null?supplier.fullpath:"","%ORDER_NR%":orderdetails!==null?orderdetails.supplierpartnr:"","%STORELOC%":part.storelocation!==null?part.storelocation.name:"","%STORELOC_FULL%":part.storelocation!==null?part.storelocation.fullpath:"","%DATETIME%":(new Date).toLocaleString()};return text.replace(/%[A-Z_]+%/g,function(placeholder){return values.hasOwnProperty(placeholder)?values[placeholder]:placeholder})};LabelDesigner.renderBarcode=function(barcode,keep_ratio){var ns="http://www.w3.org/2000/svg";var svg=document.createElementNS(ns,"svg");svg.setAttribute("viewBox","0 0 "+barcode.width+" "+barcode.height);svg.setAttribute("preserveAspectRatio",keep_ratio?"xMidYMid meet":"none");svg.setAttribute("shape-rendering","crispEdges");svg.setAttribute("width","100%");svg.setAttribute("height","100%");var path=document.createElementNS(ns,"path");path.setAttribute("d",barcode.rects.map(function(rect){return"M"+rect[0]+" "+rect[1]+"h"+rect[2]+"v"+rect[3]+"h-"+rect[2]+"z"}).join(""));path.setAttribute("fill","#000");svg.appendChild(path);return svg};LabelDesigner.resolveURL=function(source){if(typeof source!=="string"||source===""){return""}var link=document.createElement("a");link.href=/^[a-z]+:/i.test(source)?source:BASE+source;return link.href};LabelDesigner.copyLayout=function(layout){return JSON.parse(JSON.stringify(layout))};LabelDesigner.MAX_SCALE=8;LabelDesigner.GRID=.5;LabelDesigner.PT_TO_MM=25.4/72;LabelDesigner.DEFAULT_LAYOUT={width:50,height:30,elements:[{type:"text",x:2,y:2,width:46,height:5,text:"%NAME%",font_size:10,bold:true,align:"left"},{type:"text",x:2,y:7.5,width:46,height:8,text:"%DESC%",font_size:7,bold:false,align:"left"},{type:"text",x:2,y:16,width:46,height:3.5,text:"%STORELOC%",font_size:7,bold:false,align:"left"},{type:"barcode",x:2,y:20,width:30,height:8}]};return LabelDesigner}();
\ No newline at end of file
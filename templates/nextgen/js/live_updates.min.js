@@ -0,0 +1 @@
+var LiveUpdates=function(){function LiveUpdates(){this.last_id=null}LiveUpdates.getInstance=function(){if(LiveUpdates.singleton==null||LiveUpdates.singleton==undefined){LiveUpdates.singleton=new LiveUpdates}return LiveUpdates.singleton};LiveUpdates.prototype.start=function(){$(document).on("click",".live-update-reload",function(event){event.preventDefault();Router.getInstance().reload()});this.poll()};LiveUpdates.prototype.poll=function(){var _this=this;PartDbApiClient.getInstance().getChanges(this.last_id).done(function(data){if(_this.last_id!==null){_this.handleChanges(data.changes)}_this.last_id=data.last_id;_this.poll()}).fail(function(xhr){if(xhr.status==401){AjaxErrorHandler.getInstance().redirectToLogin();return}window.setTimeout(function(){_this.poll()},LiveUpdates.RETRY_DELAY)})};LiveUpdates.prototype.handleChanges=function(changes){var _this=this;var update_trees=false;var parts=[];changes.forEach(function(change){if(!change.own){if(LiveUpdates.TREE_TABLES.indexOf(change.table)!==-1){update_trees=true}if(change.change!=="created"){$(".live-update-banner[data-table="+change.table+"][data-id="+change.element_id+"]").prop("hidden",false)}}if(change.table==="parts"&&change.change==="updated"&&parts.indexOf(change.element_id)===-1){parts.push(change.element_id)}});if(update_trees){AjaxUI.getInstance().updateTrees()}parts.forEach(function(id){_this.updatePart(id)})};LiveUpdates.prototype.updatePart=function(id){var rows=$(".table-sortable tbody tr").filter(function(){return Number($(this).find("input[type=hidden]").first().val())===id});if(rows.length===0){return}PartDbApiClient.getInstance().getPart(id).done(function(part){rows.each(function(){var row=$(this);var instock=Number(part.instock);if(instock===-1){return}var text=instock===-2?row.closest("table").data("label-unknown"):String(instock);row.find(".part-instock").text(text);row.find(".part-instock-mininstock").text(text+"/"+part.mininstock)})})};LiveUpdates.RETRY_DELAY=1e4;LiveUpdates.TREE_TABLES=["categories","storelocations","footprints","manufacturers","suppliers","devices"];return LiveUpdates}();
\ No newline at end of file
@@ -0,0 +1,199 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      LocalizedNumberInput Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * A text input for numbers, which shows the numbers in the format of the user's locale (e.g. "1.234,56" or
+ * "1,234.56") and accepts both decimal conventions. Inputs with the attribute data-localized-number are handled,
+ * prices (with the attribute data-currency) are shown with the currency symbol.
+ * The server always receives the canonical value with a decimal point and without thousands separators.
+ */
+var LocalizedNumberInput = /** @class */ (function () {
+    function LocalizedNumberInput() {
+        this.format = null;
+    }
+    /**
+     * Gets a instance of LocalizedNumberInput. If no instance exits, then a new one is created.
+     * @returns {LocalizedNumberInput} A instance of LocalizedNumberInput.
+     */
+    LocalizedNumberInput.getInstance = function () {
+        if (LocalizedNumberInput.singleton == null || LocalizedNumberInput.singleton == undefined) {
+            LocalizedNumberInput.singleton = new LocalizedNumberInput();
+        }
+        return LocalizedNumberInput.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Registers the handlers of the inputs. The events are delegated, so they work for the forms loaded via ajax.
+     * Called by AjaxUI.start()
+     */
+    LocalizedNumberInput.prototype.start = function () {
+        var _this = this;
+        //The currency symbol is hidden while editing, so only the number has to be changed
+        $(document).on("focus", LocalizedNumberInput.SELECTOR, function () {
+            var input = $(this);
+            var value = _this.parse(input.val());
+            if (!isNaN(value)) {
+                input.val(_this.formatNumber(value, input.is("[data-currency]") ? _this.getFormat().currency_digits : 0));
+            }
+        });
+        $(document).on("blur", LocalizedNumberInput.SELECTOR, function () {
+            _this.display($(this));
+        });
+        //Forms with the class no-ajax are submitted by the browser, the other ones are handled in AjaxUI
+        $(document).on("submit", "form.no-ajax", function () {
+            LocalizedNumberInput.canonicalizeInputs($(this));
+        });
+    };
+    /**
+     * Shows the values of the inputs in the page in the localized format. The server gives the values in the
+     * canonical format. Called when a page is loaded.
+     */
+    LocalizedNumberInput.init = function () {
+        var instance = LocalizedNumberInput.getInstance();
+        //Inputs, which were not reloaded via ajax, already show localized values
+        $(LocalizedNumberInput.SELECTOR).not("[data-localized]").each(function () {
+            instance.display($(this), true);
+            $(this).attr("data-localized", "true");
+        });
+    };
+    /**
+     * Replaces the localized values of the inputs with the canonical ones (e.g. "1234.56"), so they can be
+     * submitted to the server. Values, which are not numbers, are not changed. Called by AjaxUI before a form is
+     * submitted.
+     * @param {JQuery} container The inputs or the elements containing the inputs (e.g. the form).
+     */
+    LocalizedNumberInput.canonicalizeInputs = function (container) {
+        container.find(LocalizedNumberInput.SELECTOR).addBack(LocalizedNumberInput.SELECTOR).each(function () {
+            var input = $(this);
+            input.val(LocalizedNumberInput.val(input));
+        });
+    };
+    /**
+     * Returns the canonical value of an input (e.g. "1234.56"). For inputs, which are not localized number inputs,
+     * the value is returned unchanged.
+     * @param {JQuery} input The input.
+     * @returns {string} The value, or the original text if the value of a localized input is not a number.
+     */
+    LocalizedNumberInput.val = function (input) {
+        var text = input.val();
+        if (!input.is(LocalizedNumberInput.SELECTOR)) {
+            return text;
+        }
+        var value = LocalizedNumberInput.getInstance().parse(text);
+        return isNaN(value) ? text : String(value);
+    };
+    /**
+     * Parses a number, which is written in the format of the locale or with the other decimal convention.
+     * If both separators are used, the last one is the decimal separator ("1.234,5" and "1,234.5"). A single separator
+     * is the decimal separator, except it is the thousands separator of the locale and followed by three digits, so
+     * "1,5" is always 1.5, but "1,500" is 1500 for english and 1.5 for german users. Currency symbols and whitespace are
+     * ignored.
+     * @param {string} text The text which should be parsed.
+     * @param {boolean} canonical True if the text is given by the server, then a single separator is always the
+     *      decimal separator (PHP uses the decimal separator of the locale for floats).
+     * @returns {number} The number or NaN if the text is not a number.
+     */
+    LocalizedNumberInput.prototype.parse = function (text, canonical) {
+        if (canonical === void 0) { canonical = false; }
+        var format = this.getFormat();
+        var cleaned = String(text);
+        if (format.currency_symbol !== "") {
+            cleaned = cleaned.split(format.currency_symbol).join("");
+        }
+        cleaned = cleaned.replace(/[\s'’€$£]/g, "");
+        if (!/^[+-]?[\d.,]*\d[\d.,]*$/.test(cleaned)) {
+            return NaN;
+        }
+        var last_dot = cleaned.lastIndexOf(".");
+        var last_comma = cleaned.lastIndexOf(",");
+        var decimal = null;
+        if (last_dot !== -1 && last_comma !== -1) {
+            decimal = last_dot > last_comma ? "." : ",";
+        }
+        else if (last_dot !== -1 || last_comma !== -1) {
+            var separator = last_dot !== -1 ? "." : ",";
+            var parts = cleaned.split(separator);
+            var is_grouping = parts.length > 2 || (!canonical && separator === format.thousands_sep
+                && separator !== format.decimal_point && parts[1].length === 3);
+            decimal = is_grouping ? null : separator;
+        }
+        var grouping = decimal === "." ? /,/g : (decimal === "," ? /\./g : /[.,]/g);
+        return Number(cleaned.replace(grouping, "").replace(",", "."));
+    };
+    /**
+     * Formats a number in the format of the locale (e.g. "1.234,56").
+     * @param {number} value The number which should be formatted.
+     * @param {number} min_digits The number of fractional digits, which are shown at least.
+     * @returns {string} The formatted number.
+     */
+    LocalizedNumberInput.prototype.formatNumber = function (value, min_digits) {
+        if (min_digits === void 0) { min_digits = 0; }
+        var format = this.getFormat();
+        //Remove the rounding errors of the floating point numbers, but keep all digits the user has typed
+        var text = String(Number(Math.abs(value).toPrecision(12)));
+        if (text.indexOf("e") !== -1) {
+            text = Math.abs(value).toFixed(12).replace(/\.?0+$/, "");
+        }
+        var parts = text.split(".");
+        var fraction = parts.length > 1 ? parts[1] : "";
+        while (fraction.length < min_digits) {
+            fraction += "0";
+        }
+        var integer = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, format.thousands_sep);
+        return (value < 0 ? "-" : "") + integer + (fraction !== "" ? format.decimal_point + fraction : "");
+    };
+    /**
+     * Formats a price in the format of the locale with the currency symbol (e.g. "1.234,50 €" or "$1,234.50").
+     * @param {number} value The price which should be formatted.
+     * @returns {string} The formatted price.
+     */
+    LocalizedNumberInput.prototype.formatPrice = function (value) {
+        var format = this.getFormat();
+        var text = this.formatNumber(value, format.currency_digits);
+        if (format.currency_symbol === "") {
+            return text;
+        }
+        return format.currency_precedes ? format.currency_symbol + text : text + " " + format.currency_symbol;
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    /**
+     * Shows the value of an input in the localized format and marks it, if it is not a number.
+     * @param {JQuery} input The input.
+     * @param {boolean} canonical True if the value is given by the server (see parse()).
+     */
+    LocalizedNumberInput.prototype.display = function (input, canonical) {
+        if (canonical === void 0) { canonical = false; }
+        var text = $.trim(input.val());
+        var value = this.parse(text, canonical);
+        input.parent().toggleClass("has-error", text !== "" && isNaN(value));
+        if (!isNaN(value)) {
+            input.val(input.is("[data-currency]") ? this.formatPrice(value) : this.formatNumber(value));
+        }
+    };
+    /**
+     * Returns the format of the locale from the data attributes of the body. Without the attributes, the numbers are
+     * formatted like "1234.56".
+     */
+    LocalizedNumberInput.prototype.getFormat = function () {
+        if (this.format === null) {
+            var body = $("body");
+            var digits = parseInt(body.attr("data-currency-digits"));
+            this.format = {
+                decimal_point: body.attr("data-decimal-point") || ".",
+                thousands_sep: body.attr("data-thousands-sep") || "",
+                currency_symbol: body.attr("data-currency-symbol") || "",
+                currency_digits: isNaN(digits) ? 2 : digits,
+                currency_precedes: body.attr("data-currency-precedes") === "true"
+            };
+        }
+        return this.format;
+    };
+    LocalizedNumberInput.SELECTOR = "input[data-localized-number]";
+    return LocalizedNumberInput;
+}());
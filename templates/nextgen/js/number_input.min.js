@@ -0,0 +1 @@
+var LocalizedNumberInput=function(){function LocalizedNumberInput(){this.format=null}LocalizedNumberInput.getInstance=function(){if(LocalizedNumberInput.singleton==null||LocalizedNumberInput.singleton==undefined){LocalizedNumberInput.singleton=new LocalizedNumberInput}return LocalizedNumberInput.singleton};LocalizedNumberInput.prototype.start=function(){var _this=this;$(document).on("focus",LocalizedNumberInput.SELECTOR,function(){var input=$(this);var value=_this.parse(input.val());if(!isNaN(value)){input.val(_this.formatNumber(value,input.is("[data-currency]")?_this.getFormat().currency_digits:0))}});$(document).on("blur",LocalizedNumberInput.SELECTOR,function(){_this.display($(this))});$(document).on("submit","form.no-ajax",function(){LocalizedNumberInput.canonicalizeInputs($(this))})};LocalizedNumberInput.init=function(){var instance=LocalizedNumberInput.getInstance();$(LocalizedNumberInput.SELECTOR).not("[data-localized]").each(function(){instance.display($(this),true);$(this).attr("data-localized","true")})};LocalizedNumberInput.canonicalizeInputs=function(container){container.find(LocalizedNumberInput.SELECTOR).addBack(LocalizedNumberInput.SELECTOR).each(function(){var input=$(this);input.val(LocalizedNumberInput.val(input))})};LocalizedNumberInput.val=function(input){var text=input.val();if(!input.is(LocalizedNumberInput.SELECTOR)){return text}var value=LocalizedNumberInput.getInstance().parse(text);return isNaN(value)?text:String(value)};LocalizedNumberInput.prototype.parse=function(text,canonical){if(canonical===void 0){canonical=false}var format=this.getFormat();var cleaned=String(text);if(format.currency_symbol!==""){cleaned=cleaned.split(format.currency_symbol).join("")}cleaned=cleaned.replace(/[\s'’€$£]/g,"");if(!/^[+-]?[\d.,]*\d[\d.,]*$/.test(cleaned)){return NaN}var last_dot=cleaned.lastIndexOf(".");var last_comma=cleaned.lastIndexOf(",");var decimal=null;if(last_dot!==-1&&last_comma!==-1){decimal=last_dot>last_comma?".":","}else if(last_dot!==-1||last_comma!==-1){var separator=last_dot!==-1?".":",";var parts=cleaned.split(separator);var is_grouping=parts.length>2||!canonical&&separator===format.thousands_sep&&separator!==format.decimal_point&&parts[1].length===3;decimal=is_grouping?null:separator}var grouping=decimal==="."?/,/g:decimal===","?/\./g:/[.,]/g;return Number(cleaned.replace(grouping,"").replace(",","."))};LocalizedNumberInput.prototype.formatNumber=function(value,min_digits){if(min_digits===void 0){min_digits=0}var format=this.getFormat();var text=String(Number(Math.abs(value).toPrecision(12)));if(text.indexOf("e")!==-1){text=Math.abs(value).toFixed(12).replace(/\.?0+$/,"")}var parts=text.split(".");var fraction=parts.length>1?parts[1]:"";while(fraction.length<min_digits){fraction+="0"}var integer=parts[0].replace(/\B(?=(\d{3})+(?!\d))/g,format.thousands_sep);return(value<0?"-":"")+integer+(fraction!==""?format.decimal_point+fraction:"")};LocalizedNumberInput.prototype.formatPrice=function(value){var format=this.getFormat();var text=this.formatNumber(value,format.currency_digits);if(format.currency_symbol===""){return text}return format.currency_precedes?format.currency_symbol+text:text+" "+format.currency_symbol};LocalizedNumberInput.prototype.display=function(input,canonical){if(canonical===void 0){canonical=false}var text=$.trim(input.val());var value=this.parse(text,canonical);input.parent().toggleClass("has-error",text!==""&&isNaN(value));if(!isNaN(value)){input.val(input.is("[data-currency]")?this.formatPrice(value):this.formatNumber(value))}};LocalizedNumberInput.prototype.getFormat=function(){if(this.format===null){var body=$("body");var digits=parseInt(body.attr("data-currency-digits"));this.format={decimal_point:body.attr("data-decimal-point")||".",thousands_sep:body.attr("data-thousands-sep")||"",currency_symbol:body.attr("data-currency-symbol")||"",currency_digits:isNaN(digits)?2:digits,currency_precedes:body.attr("data-currency-precedes")==="true"}}return this.format};LocalizedNumberInput.SELECTOR="input[data-localized-number]";return LocalizedNumberInput}();
\ No newline at end of file
@@ -1 +0,0 @@
-function octoPart_success(response){"use strict";$("#description_select").modal("show");$("#description").val(response.results[0].snippet)}function octoPart(){"use strict";var url="http://octopart.com/api/v3/parts/search?",part=$("#name").val();url+="&apikey=e418fbe2";$.ajax({url:url,jsonp:"callback",dataType:"jsonp",data:{q:part},success:octoPart_success})}
\ No newline at end of file
@@ -0,0 +1,231 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      OfflineManager Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * The OfflineManager registers the service worker (see service_worker.ts), which caches visited pages, shows the
+ * banner when a cached page is displayed, and queues form submissions made offline for a replay, once the
+ * connection is back.
+ */
+var OfflineManager = /** @class */ (function () {
+    /**
+     * Creates a new OfflineManager object.
+     */
+    function OfflineManager() {
+        this.replaying = false;
+        $(document).ajaxError(this.onAjaxError.bind(this));
+        $(window).on("online", this.replayQueue.bind(this));
+        //The queue must not be replayed and the cached pages must not be shown to the next user of this browser.
+        $(document).on("click", "a[href$='login.php?logout']", this.onLogout.bind(this));
+    }
+    /**
+     * Gets a instance of OfflineManager. If no instance exits, then a new one is created.
+     * @returns {OfflineManager} A instance of OfflineManager.
+     */
+    OfflineManager.getInstance = function () {
+        if (OfflineManager.singleton == null || OfflineManager.singleton == undefined) {
+            OfflineManager.singleton = new OfflineManager();
+        }
+        return OfflineManager.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Registers the service worker (if the offline mode is enabled in the config) and sends the queued requests.
+     * Should be called once, when AjaxUI is started.
+     */
+    OfflineManager.prototype.start = function () {
+        if ($("#offline_enable").val() == "1") {
+            this.registerServiceWorker();
+        }
+        this.updateQueueBanner();
+        if (navigator.onLine) {
+            this.replayQueue();
+        }
+    };
+    /**
+     * Called by AjaxUI, when a page was loaded into #content. Shows the "stale" banner, if the page was served
+     * from the cache of the service worker.
+     * @param {JQuery.jqXHR} xhr The request of the page.
+     */
+    OfflineManager.prototype.onPageLoaded = function (xhr) {
+        var cached = xhr.getResponseHeader(OfflineManager.CACHED_HEADER);
+        var banner = $("#offline-banner");
+        banner.find(".offline-unavailable").prop("hidden", true);
+        if (cached !== null) {
+            var date = new Date(cached);
+            banner.find(".offline-date").text(isNaN(date.getTime()) ? "" : date.toLocaleString());
+            banner.find(".offline-stale").prop("hidden", false);
+        }
+        else {
+            banner.find(".offline-stale").prop("hidden", true);
+        }
+        this.updateBannerVisibility();
+    };
+    /**
+     * Returns the form submissions of the current user, which are waiting to be sent.
+     * @returns {OfflineQueuedRequest[]} The queued requests, the oldest first.
+     */
+    OfflineManager.prototype.getQueue = function () {
+        var json = window.localStorage.getItem(OfflineManager.getQueueKey());
+        if (json === null) {
+            return [];
+        }
+        var user = OfflineManager.getUserId();
+        try {
+            return JSON.parse(json).filter(function (entry) {
+                return entry.user === user;
+            });
+        }
+        catch (e) {
+            return [];
+        }
+    };
+    /**
+     * Discards the queued form submissions of the current user.
+     */
+    OfflineManager.prototype.clearQueue = function () {
+        window.localStorage.removeItem(OfflineManager.getQueueKey());
+        this.updateQueueBanner();
+    };
+    /**
+     * Sends all queued form submissions to the server (one after another).
+     * When at least one request was sent, the current page and the trees are reloaded, so the changes are visible.
+     */
+    OfflineManager.prototype.replayQueue = function () {
+        if (this.replaying || this.getQueue().length == 0) {
+            return;
+        }
+        this.replaying = true;
+        var _this = this;
+        var sent = 0;
+        var next = function () {
+            var queue = _this.getQueue();
+            if (queue.length == 0) {
+                _this.replaying = false;
+                _this.updateQueueBanner();
+                if (sent > 0) {
+                    AjaxUI.getInstance().updateTrees();
+                    reloadPage();
+                }
+                return;
+            }
+            var request = queue[0];
+            //Dont trigger the global handlers, so AjaxUI does not treat the response as new page.
+            $.ajax({ url: request.url, type: request.type, data: request.data, global: false })
+                .done(function () {
+                sent++;
+                _this.removeFromQueue(request);
+                next();
+            })
+                .fail(function (xhr) {
+                //Still offline or the session has expired, try again on the next online event or page load.
+                if (xhr.status == 0 || xhr.status == 401) {
+                    _this.replaying = false;
+                    return;
+                }
+                //The server rejected the request, so there is no point in retrying it.
+                _this.removeFromQueue(request);
+                next();
+            });
+        };
+        next();
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    /**
+     * Returns the ID of the user, who is logged in on the current page (the anonymous user, if nobody is logged in).
+     */
+    OfflineManager.getUserId = function () {
+        return Number($("#offline_user_id").val());
+    };
+    OfflineManager.getQueueKey = function () {
+        return OfflineManager.QUEUE_STORAGE_KEY + "_" + OfflineManager.getUserId();
+    };
+    /**
+     * Called when the user clicks the logout link. Discards the queue and the caches of the service worker.
+     */
+    OfflineManager.prototype.onLogout = function () {
+        this.clearQueue();
+        //The service worker is also active, when the offline mode was disabled after it was registered.
+        if ("serviceWorker" in navigator && navigator.serviceWorker.controller) {
+            navigator.serviceWorker.controller.postMessage("clear-caches");
+        }
+    };
+    OfflineManager.prototype.registerServiceWorker = function () {
+        if (!("serviceWorker" in navigator)) {
+            return;
+        }
+        //Service workers are only available on https or localhost, so a failed registration is not an error worth showing.
+        navigator.serviceWorker.register(BASE + "service_worker.php").then(null, function () { });
+    };
+    /**
+     * Called when an ajax request fails. If the server was not reachable, form submissions are queued and
+     * the offline banner is shown.
+     */
+    OfflineManager.prototype.onAjaxError = function (event, request, settings) {
+        //Status 0 means, that we did not get any response from the server. Ignore aborted requests and timeouts
+        //(the server is reachable but slow, this is handled by AjaxErrorHandler).
+        if (request.statusText == "abort" || request.statusText == "timeout" || request.status != 0) {
+            return;
+        }
+        //Requests to the API are handled by the code that sent them.
+        if (settings.url.indexOf("api.php") != -1) {
+            return;
+        }
+        var type = (typeof settings.type !== "undefined") ? settings.type.toUpperCase() : "GET";
+        //Forms with files can not be saved in localStorage
+        if (type === "POST" && typeof settings.data === "string") {
+            this.addToQueue({ url: settings.url, type: type, data: settings.data, user: OfflineManager.getUserId(),
+                queued: Date.now() });
+        }
+        else {
+            $("#offline-banner").find(".offline-stale").prop("hidden", true);
+            $("#offline-banner").find(".offline-unavailable").prop("hidden", false);
+            this.updateBannerVisibility();
+        }
+        //Show the old content again, instead of a spinning progressbar.
+        $("#progressbar").hide(0);
+        $("#content").show(0);
+    };
+    OfflineManager.prototype.addToQueue = function (request) {
+        var queue = this.getQueue();
+        queue.push(request);
+        window.localStorage.setItem(OfflineManager.getQueueKey(), JSON.stringify(queue));
+        this.updateQueueBanner();
+    };
+    OfflineManager.prototype.removeFromQueue = function (request) {
+        var queue = this.getQueue().filter(function (entry) {
+            return !(entry.queued == request.queued && entry.url == request.url);
+        });
+        window.localStorage.setItem(OfflineManager.getQueueKey(), JSON.stringify(queue));
+        this.updateQueueBanner();
+    };
+    /**
+     * Updates the count of the queued requests in the banner.
+     */
+    OfflineManager.prototype.updateQueueBanner = function () {
+        var count = this.getQueue().length;
+        var banner = $("#offline-banner");
+        banner.find(".offline-queue-count").text(count);
+        banner.find(".offline-queued").prop("hidden", count == 0);
+        this.updateBannerVisibility();
+    };
+    /**
+     * Shows the banner, if at least one of its messages is visible.
+     */
+    OfflineManager.prototype.updateBannerVisibility = function () {
+        var banner = $("#offline-banner");
+        banner.prop("hidden", banner.find(".alert > span").filter(function () {
+            return !$(this).prop("hidden");
+        }).length == 0);
+    };
+    /** The key in localStorage, under which the queued form submissions are saved. The ID of the user is appended. */
+    OfflineManager.QUEUE_STORAGE_KEY = "offline_request_queue";
+    /** The header, which the service worker adds to responses served from cache. */
+    OfflineManager.CACHED_HEADER = "X-Part-DB-Cached";
+    return OfflineManager;
+}());
@@ -0,0 +1 @@
+var OfflineManager=function(){function OfflineManager(){this.replaying=false;$(document).ajaxError(this.onAjaxError.bind(this));$(window).on("online",this.replayQueue.bind(this));$(document).on("click","a[href$='login.php?logout']",this.onLogout.bind(this))}OfflineManager.getInstance=function(){if(OfflineManager.singleton==null||OfflineManager.singleton==undefined){OfflineManager.singleton=new OfflineManager}return OfflineManager.singleton};OfflineManager.prototype.start=function(){if($("#offline_enable").val()=="1"){this.registerServiceWorker()}this.updateQueueBanner();if(navigator.onLine){this.replayQueue()}};OfflineManager.prototype.onPageLoaded=function(xhr){var cached=xhr.getResponseHeader(OfflineManager.CACHED_HEADER);var banner=$("#offline-banner");banner.find(".offline-unavailable").prop("hidden",true);if(cached!==null){var date=new Date(cached);banner.find(".offline-date").text(isNaN(date.getTime())?"":date.toLocaleString());banner.find(".offline-stale").prop("hidden",false)}else{banner.find(".offline-stale").prop("hidden",true)}this.updateBannerVisibility()};OfflineManager.prototype.getQueue=function(){var json=window.localStorage.getItem(OfflineManager.getQueueKey());if(json===null){return[]}var user=OfflineManager.getUserId();try{return JSON.parse(json).filter(function(entry){return entry.user===user})}catch(e){return[]}};OfflineManager.prototype.clearQueue=function(){window.localStorage.removeItem(OfflineManager.getQueueKey());this.updateQueueBanner()};OfflineManager.prototype.replayQueue=function(){if(this.replaying||this.getQueue().length==0){return}this.replaying=true;var _this=this;var sent=0;var next=function(){var queue=_this.getQueue();if(queue.length==0){_this.replaying=false;_this.updateQueueBanner();if(sent>0){AjaxUI.getInstance().updateTrees();reloadPage()}return}var request=queue[0];$.ajax({url:request.url,type:request.type,data:request.data,global:false}).done(function(){sent++;_this.removeFromQueue(request);next()}).fail(function(xhr){if(xhr.status==0||xhr.status==401){_this.replaying=false;return}_this.removeFromQueue(request);next()})};next()};OfflineManager.getUserId=function(){return Number($("#offline_user_id").val())};OfflineManager.getQueueKey=function(){return OfflineManager.QUEUE_STORAGE_KEY+"_"+OfflineManager.getUserId()};OfflineManager.prototype.onLogout=function(){this.clearQueue();if("serviceWorker"in navigator&&navigator.serviceWorker.controller){navigator.serviceWorker.controller.postMessage("clear-caches")}};OfflineManager.prototype.registerServiceWorker=function(){if(!("serviceWorker"in navigator)){return}navigator.serviceWorker.register(BASE+"service_worker.php").then(null,function(){})};OfflineManager.prototype.onAjaxError=function(event,request,settings){if(request.statusText=="abort"||request.statusText=="timeout"||request.status!=0){return}if(settings.url.indexOf("api.php")!=-1){return}var type=typeof settings.type!=="undefined"?settings.type.toUpperCase():"GET";if(type==="POST"&&typeof settings.data==="string"){this.addToQueue({url:settings.url,type:type,data:settings.data,user:OfflineManager.getUserId(),queued:Date.now()})}else{$("#offline-banner").find(".offline-stale").prop("hidden",true);$("#offline-banner").find(".offline-unavailable").prop("hidden",false);this.updateBannerVisibility()}$("#progressbar").hide(0);$("#content").show(0)};OfflineManager.prototype.addToQueue=function(request){var queue=this.getQueue();queue.push(request);window.localStorage.setItem(OfflineManager.getQueueKey(),JSON.stringify(queue));this.updateQueueBanner()};OfflineManager.prototype.removeFromQueue=function(request){var queue=this.getQueue().filter(function(entry){return!(entry.queued==request.queued&&entry.url==request.url)});window.localStorage.setItem(OfflineManager.getQueueKey(),JSON.stringify(queue));this.updateQueueBanner()};OfflineManager.prototype.updateQueueBanner=function(){var count=this.getQueue().length;var banner=$("#offline-banner");banner.find(".offline-queue-count").text(count);banner.find(".offline-queued").prop("hidden",count==0);this.updateBannerVisibility()};OfflineManager.prototype.updateBannerVisibility=function(){var banner=$("#offline-banner");banner.prop("hidden",banner.find(".alert > span").filter(function(){return!$(this).prop("hidden")}).length==0)};OfflineManager.QUEUE_STORAGE_KEY="offline_request_queue";OfflineManager.CACHED_HEADER="X-Part-DB-Cached";return OfflineManager}();
\ No newline at end of file
@@ -0,0 +1,215 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      OrderCart Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * The order cart on the page of the parts to order. The parts are grouped by their supplier, for every supplier an
+ * order file can be downloaded and the parts can be marked as ordered or received.
+ */
+var OrderCart = /** @class */ (function () {
+    function OrderCart() {
+    }
+    /**
+     * Gets a instance of OrderCart. If no instance exits, then a new one is created.
+     * @returns {OrderCart} A instance of OrderCart.
+     */
+    OrderCart.getInstance = function () {
+        if (OrderCart.singleton == null || OrderCart.singleton == undefined) {
+            OrderCart.singleton = new OrderCart();
+        }
+        return OrderCart.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Registers the handlers of the order cart. Called by AjaxUI.start()
+     * The cart is part of the page content, so the handlers are delegated to the document.
+     */
+    OrderCart.prototype.start = function () {
+        var _this = this;
+        $(document).on("change", "#order-cart-groups .order-cart-select-all", function () {
+            var checkbox = $(this);
+            checkbox.closest(".order-cart-group").find("tbody input[type=checkbox]")
+                .prop("checked", checkbox.prop("checked"));
+        }).on("click", "#order-cart-groups .order-cart-export", function () {
+            _this.export($(this).closest(".order-cart-group"));
+        }).on("click", "#order-cart-groups .order-cart-status-btn", function () {
+            var btn = $(this);
+            var message = btn.data("confirm");
+            if (message && !confirm(message)) {
+                return;
+            }
+            _this.setStatus(btn.closest(".order-cart-group"), btn.data("status"));
+        });
+    };
+    /**
+     * Loads the cart, if it is on the page. Called when a page is loaded.
+     */
+    OrderCart.init = function () {
+        if ($("#order-cart").length === 0) {
+            return;
+        }
+        OrderCart.getInstance().load();
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    OrderCart.prototype.load = function () {
+        this.request(PartDbApiClient.getInstance().getOrderCart());
+    };
+    /**
+     * Shows the loading indicator while the request is running and the cart (or the error) afterwards.
+     * @param {JQuery.jqXHR<ApiOrderCart>} request The request, which returns the cart.
+     */
+    OrderCart.prototype.request = function (request) {
+        var _this = this;
+        $("#order-cart-error").prop("hidden", true).empty();
+        $("#order-cart-loading").prop("hidden", false);
+        //Only the enabled buttons are enabled again, if the request fails
+        $("#order-cart-groups button:enabled").addClass("order-cart-busy").prop("disabled", true);
+        request.done(function (cart) {
+            _this.render(cart);
+        }).fail(function (xhr) {
+            OrderCart.showError(xhr);
+            $("#order-cart-groups .order-cart-busy").removeClass("order-cart-busy").prop("disabled", false);
+        }).always(function () {
+            $("#order-cart-loading").prop("hidden", true);
+        });
+    };
+    OrderCart.showError = function (xhr) {
+        $("#order-cart-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+    };
+    /**
+     * Returns the IDs of the selected parts of a supplier, or all of its parts if none is selected.
+     * @param {JQuery} group The panel of the supplier.
+     */
+    OrderCart.getPartIds = function (group) {
+        var checkboxes = group.find("tbody input[type=checkbox]");
+        if (checkboxes.filter(":checked").length > 0) {
+            checkboxes = checkboxes.filter(":checked");
+        }
+        return checkboxes.map(function () {
+            return Number($(this).val());
+        }).get();
+    };
+    /**
+     * Downloads the order file of a supplier in the selected format.
+     * @param {JQuery} group The panel of the supplier.
+     */
+    OrderCart.prototype.export = function (group) {
+        $("#order-cart-error").prop("hidden", true).empty();
+        PartDbApiClient.getInstance().exportOrderCart(Number(group.data("supplier-id")), String(group.find(".order-cart-format").val()), OrderCart.getPartIds(group))
+            .done(function (file) {
+            var url = URL.createObjectURL(new Blob([file.content], { type: "text/csv;charset=utf-8" }));
+            var link = $("<a>").attr({ href: url, download: file.filename }).appendTo("body");
+            link[0].click();
+            link.remove();
+            URL.revokeObjectURL(url);
+        })
+            .fail(function (xhr) {
+            OrderCart.showError(xhr);
+        });
+    };
+    /**
+     * Changes the status of the selected parts of a supplier.
+     * @param {JQuery} group The panel of the supplier.
+     * @param {ApiOrderCartStatus} status The new status.
+     */
+    OrderCart.prototype.setStatus = function (group, status) {
+        var request = PartDbApiClient.getInstance().setOrderCartStatus(OrderCart.getPartIds(group), status);
+        if (status === "received") {
+            //The instocks have changed, so the other tables of the page are outdated, too
+            request.done(function () {
+                Router.getInstance().reload();
+            });
+        }
+        this.request(request);
+    };
+    /**
+     * Shows the groups of the cart.
+     */
+    OrderCart.prototype.render = function (cart) {
+        var container = $("#order-cart");
+        var prototypes = container.find(".order-cart-prototypes");
+        var can_order = container.data("can-order") === true;
+        var can_receive = container.data("can-receive") === true;
+        var groups = $("#order-cart-groups").empty();
+        for (var _i = 0, _a = cart.groups; _i < _a.length; _i++) {
+            var group = _a[_i];
+            var panel = prototypes.children(".order-cart-group").clone();
+            panel.attr("data-supplier-id", group.supplier !== null ? group.supplier.id : 0);
+            panel.find(".order-cart-supplier").text(group.supplier !== null ? group.supplier.name
+                : String(container.data("label-no-supplier")));
+            panel.find(".order-cart-count").text(group.lines.length);
+            panel.find(".order-cart-group-total").text(group.total_string);
+            panel.find(".order-cart-missing-prices").prop("hidden", !group.missing_prices)
+                .attr("title", String(container.data("label-missing-prices")));
+            var tbody = panel.find("tbody");
+            for (var _b = 0, _c = group.lines; _b < _c.length; _b++) {
+                var line = _c[_b];
+                tbody.append(this.renderLine(line, prototypes, String(container.data("label-no-partnr"))));
+            }
+            var select = panel.find(".order-cart-format");
+            for (var format in cart.export_formats) {
+                select.append($("<option>").val(format).text(cart.export_formats[format]));
+            }
+            //Without a supplier, there is no shop, where the file could be uploaded
+            panel.find(".order-cart-format, .order-cart-export").prop("disabled", group.supplier === null);
+            panel.find(".order-cart-status-btn[data-status!=received]").prop("disabled", !can_order);
+            panel.find(".order-cart-status-btn[data-status=received]").prop("disabled", !can_receive);
+            groups.append(panel);
+        }
+        $("#order-cart-total").text(cart.total_string);
+        $("#order-cart-empty").prop("hidden", cart.groups.length > 0);
+        AjaxUI.getInstance().registerLinks();
+    };
+    /**
+     * Creates the row of a part.
+     * @param {ApiOrderCartLine} line The part.
+     * @param {JQuery} prototypes The prototypes of the labels.
+     * @param {string} no_partnr_label The title of the warning, which is shown, if the part has no supplier part number.
+     */
+    OrderCart.prototype.renderLine = function (line, prototypes, no_partnr_label) {
+        var tr = $("<tr>").toggleClass("info", line.status === "ordered");
+        tr.append($("<td>").append($("<input type='checkbox'>").val(line.part.id)));
+        var part = $("<td>").append($("<a>").attr("href", "show_part_info.php?pid=" + line.part.id)
+            .text(line.part.name));
+        if (line.part.description !== "") {
+            part.append($("<br>"), $("<small class='text-muted'>").html(line.part.description));
+        }
+        tr.append(part);
+        var partnr = $("<td>");
+        if (line.supplierpartnr === "") {
+            partnr.append($("<i class='fa fa-exclamation-triangle text-warning' aria-hidden='true'>")
+                .attr("title", no_partnr_label));
+        }
+        else if (line.supplier_product_url !== "") {
+            partnr.append($("<a class='link-external' target='_blank' rel='noopener'>")
+                .attr("href", line.supplier_product_url).text(line.supplierpartnr));
+        }
+        else {
+            partnr.text(line.supplierpartnr);
+        }
+        tr.append(partnr);
+        tr.append($("<td class='text-right'>").text(line.needed));
+        var quantity = $("<td class='text-right'>");
+        for (var _i = 0, _a = line.reasons; _i < _a.length; _i++) {
+            var reason = _a[_i];
+            quantity.append(prototypes.children(".order-cart-reason[data-reason=" + reason + "]").clone(), " ");
+        }
+        quantity.append($("<b>").text(line.quantity));
+        tr.append(quantity);
+        tr.append($("<td class='text-right'>").text(line.packaging_unit));
+        tr.append($("<td class='text-right'>").text(line.single_price_string));
+        tr.append($("<td class='text-right'>").text(line.total_string));
+        var status = prototypes.children(".order-cart-status[data-status=" + line.status + "]").clone();
+        if (line.datetime_ordered !== null) {
+            status.attr("title", line.datetime_ordered);
+        }
+        tr.append($("<td>").append(status));
+        return tr;
+    };
+    return OrderCart;
+}());
@@ -0,0 +1 @@
+var PartInfoDialog=function(){function PartInfoDialog(){this.results=[];this.selected=null}PartInfoDialog.getInstance=function(){if(PartInfoDialog.singleton==null||PartInfoDialog.singleton==undefined){PartInfoDialog.singleton=new PartInfoDialog}return PartInfoDialog.singleton};PartInfoDialog.prototype.open=function(){var _this=this;var modal=$("#part-info-modal");modal.find("#part-info-search").off("click").click(function(){_this.search($("#part-info-keyword").val())});modal.find("#part-info-keyword").off("keydown").keydown(function(event){if(event.keyCode==13){event.preventDefault();_this.search($(this).val())}});modal.find("#part-info-apply").off("click").click(function(){_this.apply();modal.modal("hide")});var keyword=$("#name").val();$("#part-info-keyword").val(keyword);modal.modal("show");if(keyword!==""){this.search(keyword)}};PartInfoDialog.prototype.search=function(keyword){var _this=this;var providers=PartInfoProviderRegistry.getInstance().getProviders();this.results=[];this.selected=null;$("#part-info-results tbody").empty();$("#part-info-details").prop("hidden",true);$("#part-info-apply").prop("disabled",true);$("#part-info-error").prop("hidden",true).empty();$("#part-info-no-results").prop("hidden",true);if($.trim(keyword)===""||providers.length==0){return}var pending=providers.length;$("#part-info-loading").prop("hidden",false);var finished=function(){pending--;if(pending==0){$("#part-info-loading").prop("hidden",true);$("#part-info-no-results").prop("hidden",_this.results.length>0)}};var _loop_1=function(provider){provider.search(keyword).done(function(results){_this.addResults(provider,results)}).fail(function(message){_this.showError(provider,message)}).always(finished)};for(var _i=0,providers_1=providers;_i<providers_1.length;_i++){var provider=providers_1[_i];_loop_1(provider)}};PartInfoDialog.prototype.addResults=function(provider,results){var _this=this;var tbody=$("#part-info-results tbody");var _loop_2=function(result){var index=this_1.results.push(result)-1;var row=$("<tr>").css("cursor","pointer").append($("<td>").text(result.name)).append($("<td>").text(result.manufacturer)).append($("<td>").text(result.description)).append($("<td>").text(provider.label));row.click(function(){tbody.find("tr").removeClass("info");$(this).addClass("info");_this.loadDetails(_this.results[index])});tbody.append(row)};var this_1=this;for(var _i=0,results_1=results;_i<results_1.length;_i++){var result=results_1[_i];_loop_2(result)}};PartInfoDialog.prototype.loadDetails=function(result){var _this=this;var provider=PartInfoProviderRegistry.getInstance().getProvider(result.provider);this.selected=null;$("#part-info-apply").prop("disabled",true);$("#part-info-details").prop("hidden",true);$("#part-info-loading").prop("hidden",false);provider.getDetails(result).done(function(info){_this.selected=info;_this.showDetails(info)}).fail(function(message){_this.showError(provider,message)}).always(function(){$("#part-info-loading").prop("hidden",true)})};PartInfoDialog.prototype.showDetails=function(info){var details=$("#part-info-details");var fields={name:info.name,description:info.description,manufacturer:info.manufacturer,footprint:info.footprint,datasheet_url:info.datasheet_url};for(var field in fields){var row=details.find("[data-field="+field+"]");row.find(".part-info-value").text(fields[field]);row.find("input:checkbox").prop("checked",fields[field]!=="").prop("disabled",fields[field]==="")}var offer_select=details.find("#part-info-offer").empty();info.offers.forEach(function(offer,index){var text=offer.supplier+" ("+offer.supplierpartnr+")";if(offer.prices.length>0){text+=": "+offer.prices[0].price+" "+offer.prices[0].currency}offer_select.append($("<option>").val(index).text(text))});var offer_row=details.find("[data-field=offer]");offer_row.find("input:checkbox").prop("checked",info.offers.length>0).prop("disabled",info.offers.length==0);details.prop("hidden",false);$("#part-info-apply").prop("disabled",false)};PartInfoDialog.prototype.showError=function(provider,message){$("#part-info-error").prop("hidden",false).append($("<div>").text(provider.label+": "+message))};PartInfoDialog.prototype.apply=function(){if(this.selected===null){return}var info=this.selected;var details=$("#part-info-details");var isChecked=function(field){return details.find("[data-field="+field+"] input:checkbox").prop("checked")};if(isChecked("name")){PartInfoDialog.setValue($("#name"),info.name)}if(isChecked("description")){PartInfoDialog.setValue($("#description"),info.description)}if(isChecked("manufacturer")){PartInfoDialog.selectByName("manufacturer_id","search_manufacturer_name",info.manufacturer)}if(isChecked("footprint")){PartInfoDialog.selectByName("footprint_id","search_footprint_name",info.footprint)}if(isChecked("datasheet_url")){this.applyDatasheet(info.datasheet_url)}if(isChecked("offer")){var offer=info.offers[Number($("#part-info-offer").val())];if(typeof offer!=="undefined"){this.applyOffer(offer)}}};PartInfoDialog.prototype.applyDatasheet=function(url){var form=$("form").has("input[name=attachement_id][value=new]");if(form.length==0){return}PartInfoDialog.setValue(form.find("input[name=attachement_filename]"),url);var name=form.find("input[name=name]");if(name.val()===""){PartInfoDialog.setValue(name,$("#part-info-details [data-field=datasheet_url]").data("attachement-name"))}var type=form.find("select[name=attachement_type_id] option").filter(function(){return/datasheet|datenblatt/i.test($(this).text())});if(type.length>0){form.find("select[name=attachement_type_id]").val(type.first().val())}};PartInfoDialog.prototype.applyOffer=function(offer){var orderdetails=$("#orderdetails");if(orderdetails.length==0){return}var existing=orderdetails.find("select[name^=supplier_id_]").not("[name=supplier_id_new]").filter(function(){return PartInfoDialog.equalsName($(this).find("option:selected").text(),offer.supplier)});if(existing.length>0&&offer.prices.length>0){var id=existing.first().attr("name").replace("supplier_id_","");var price=offer.prices[0];PartInfoDialog.setValue(orderdetails.find("input[name=min_discount_quantity_"+id+"_new]"),String(price.quantity));PartInfoDialog.setValue(orderdetails.find("input[name=price_"+id+"_new]"),String(price.price));return}var select=orderdetails.find("select[name=supplier_id_new]");var option=select.find("option").filter(function(){return PartInfoDialog.equalsName($(this).text(),offer.supplier)});if(option.length>0&&!select.prop("disabled")){select.val(option.first().val())}PartInfoDialog.setValue(orderdetails.find("input[name=supplierpartnr_new]"),offer.supplierpartnr)};PartInfoDialog.setValue=function(input,value){if(input.length>0&&!input.prop("disabled")){input.val(value)}};PartInfoDialog.selectByName=function(select_name,search_name,value){var select=$("select[name="+select_name+"]");if(select.length==0||select.prop("disabled")){return}var option=select.find("option").filter(function(){return PartInfoDialog.equalsName($(this).text(),value)});if(option.length>0){select.val(option.first().val());select.selectpicker("refresh")}else{PartInfoDialog.setValue($("input[name="+search_name+"]"),value)}};PartInfoDialog.equalsName=function(a,b){return $.trim(a).toLowerCase()===$.trim(b).toLowerCase()};return PartInfoDialog}();
\ No newline at end of file
@@ -0,0 +1,325 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      Part-Info Models
+ * **************************************************************************************
+ ****************************************************************************************/
+var __extends = (this && this.__extends) || (function () {
+    var extendStatics = Object.setPrototypeOf ||
+        ({ __proto__: [] } instanceof Array && function (d, b) { d.__proto__ = b; }) ||
+        function (d, b) { for (var p in b) if (b.hasOwnProperty(p)) d[p] = b[p]; };
+    return function (d, b) {
+        extendStatics(d, b);
+        function __() { this.constructor = d; }
+        d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+    };
+})();
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      AbstractPartInfoProvider Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * A provider, which gets its data from a JSON API.
+ * Subclasses only need to define the routes and map the responses to the Part-DB fields.
+ */
+var AbstractPartInfoProvider = /** @class */ (function () {
+    function AbstractPartInfoProvider(config) {
+        /**
+         * The dataType of the requests ("json" or "jsonp"). APIs, which do not send CORS headers, can only be
+         * requested from the browser via JSONP.
+         */
+        this.data_type = "json";
+        this.config = config;
+    }
+    AbstractPartInfoProvider.prototype.search = function (keyword) {
+        var _this = this;
+        var deferred = $.Deferred();
+        this.request(this.getSearchRoute(keyword), this.getSearchParams(keyword))
+            .done(function (response) {
+            deferred.resolve(_this.mapSearchResults(response));
+        })
+            .fail(function (xhr) {
+            deferred.reject(_this.getErrorMessage(xhr));
+        });
+        return deferred.promise();
+    };
+    AbstractPartInfoProvider.prototype.getDetails = function (result) {
+        var _this = this;
+        var deferred = $.Deferred();
+        this.request(this.getDetailsRoute(result), this.getDetailsParams(result))
+            .done(function (response) {
+            deferred.resolve(_this.mapPartInfo(response));
+        })
+            .fail(function (xhr) {
+            deferred.reject(_this.getErrorMessage(xhr));
+        });
+        return deferred.promise();
+    };
+    /****************************************************************************
+     * Helpers
+     ***************************************************************************/
+    /**
+     * Sends a GET request to the API of the provider.
+     * @param {string} route The route relative to the configured URL.
+     * @param {object} params The query parameters.
+     */
+    AbstractPartInfoProvider.prototype.request = function (route, params) {
+        return $.ajax({
+            url: this.config.url + route,
+            data: params,
+            dataType: this.data_type,
+            timeout: AbstractPartInfoProvider.TIMEOUT,
+            //This is no page load, so AjaxUI and AjaxErrorHandler must not handle it.
+            global: false
+        });
+    };
+    /**
+     * Returns a message for a failed request.
+     * @param {JQuery.jqXHR} xhr The failed request.
+     */
+    AbstractPartInfoProvider.prototype.getErrorMessage = function (xhr) {
+        if (xhr.responseJSON && typeof xhr.responseJSON.message === "string") {
+            return xhr.responseJSON.message;
+        }
+        if (xhr.status == 0 || xhr.statusText == "timeout") {
+            return this.label + " is not reachable.";
+        }
+        return xhr.status + " " + xhr.statusText;
+    };
+    /** How long (in ms) to wait for an answer of the API. JSONP requests do not fail otherwise. */
+    AbstractPartInfoProvider.TIMEOUT = 15000;
+    return AbstractPartInfoProvider;
+}());
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      OctopartProvider Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * Gets part information from the Octopart REST API (version 3).
+ */
+var OctopartProvider = /** @class */ (function (_super) {
+    __extends(OctopartProvider, _super);
+    function OctopartProvider() {
+        var _this = _super !== null && _super.apply(this, arguments) || this;
+        _this.name = "octopart";
+        _this.label = "Octopart";
+        /** Octopart does not allow cross-origin requests, but supports JSONP via the "callback" parameter. */
+        _this.data_type = "jsonp";
+        return _this;
+    }
+    OctopartProvider.prototype.getSearchRoute = function (keyword) {
+        return "parts/search";
+    };
+    OctopartProvider.prototype.getSearchParams = function (keyword) {
+        return {
+            apikey: this.config.apikey,
+            q: keyword,
+            limit: OctopartProvider.SEARCH_LIMIT,
+            include: OctopartProvider.INCLUDES
+        };
+    };
+    OctopartProvider.prototype.getDetailsRoute = function (result) {
+        return "parts/" + encodeURIComponent(result.id);
+    };
+    OctopartProvider.prototype.getDetailsParams = function (result) {
+        return {
+            apikey: this.config.apikey,
+            include: OctopartProvider.INCLUDES
+        };
+    };
+    OctopartProvider.prototype.mapSearchResults = function (response) {
+        var _this = this;
+        var results = response.results || [];
+        return results.map(function (result) {
+            var part = result.item;
+            return {
+                provider: _this.name,
+                id: part.uid,
+                name: part.mpn || "",
+                description: part.short_description || result.snippet || "",
+                manufacturer: part.manufacturer ? part.manufacturer.name : ""
+            };
+        });
+    };
+    OctopartProvider.prototype.mapPartInfo = function (part) {
+        var _this = this;
+        var specs = part.specs || {};
+        var datasheets = part.datasheets || [];
+        var offers = part.offers || [];
+        return {
+            name: part.mpn || "",
+            description: part.short_description || "",
+            manufacturer: part.manufacturer ? part.manufacturer.name : "",
+            footprint: specs.case_package ? specs.case_package.display_value : "",
+            datasheet_url: datasheets.length > 0 ? datasheets[0].url : "",
+            offers: offers.map(function (offer) {
+                return {
+                    supplier: offer.seller ? offer.seller.name : "",
+                    supplierpartnr: offer.sku || "",
+                    prices: _this.mapPrices(offer.prices || {})
+                };
+            })
+        };
+    };
+    /**
+     * Octopart returns the prices as {"EUR": [[quantity, "price"], ...]}. Only the configured currency is used.
+     */
+    OctopartProvider.prototype.mapPrices = function (prices) {
+        var currency = this.config.currency;
+        var tiers = prices[currency] || [];
+        return tiers.map(function (tier) {
+            return { quantity: Number(tier[0]), price: parseFloat(tier[1]), currency: currency };
+        });
+    };
+    /** The additional fields, which should be returned by Octopart. */
+    OctopartProvider.INCLUDES = ["short_description", "datasheets", "specs"];
+    /** How many results are shown at most. */
+    OctopartProvider.SEARCH_LIMIT = 10;
+    return OctopartProvider;
+}(AbstractPartInfoProvider));
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      MockPartInfoProvider Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * A provider with fixed example data, which allows to test the search dialog without an API key or network access.
+ * The search for "error" fails, so the error handling of the dialog can be tested, too.
+ */
+var MockPartInfoProvider = /** @class */ (function () {
+    function MockPartInfoProvider(config) {
+        this.name = "mock";
+        this.label = "Mock";
+        this.config = config;
+    }
+    MockPartInfoProvider.prototype.search = function (keyword) {
+        var _this = this;
+        if ($.trim(keyword).toLowerCase() === "error") {
+            return MockPartInfoProvider.answer(false, "Example error for the keyword \"" + keyword + "\".");
+        }
+        return MockPartInfoProvider.answer(true, ["A", "B"].map(function (variant) {
+            return {
+                provider: _this.name,
+                id: keyword + "-" + variant,
+                name: keyword + "-" + variant,
+                description: "Example part " + variant + " for " + keyword,
+                manufacturer: "Example Inc."
+            };
+        }));
+    };
+    MockPartInfoProvider.prototype.getDetails = function (result) {
+        var currency = this.config.currency;
+        return MockPartInfoProvider.answer(true, {
+            name: result.name,
+            description: result.description,
+            manufacturer: result.manufacturer,
+            footprint: "SOT-23",
+            datasheet_url: "https://example.com/datasheets/" + encodeURIComponent(result.id) + ".pdf",
+            offers: [{
+                    supplier: "Example Distributor",
+                    supplierpartnr: "EX-" + result.id,
+                    prices: [
+                        { quantity: 1, price: 0.5, currency: currency },
+                        { quantity: 100, price: 0.25, currency: currency }
+                    ]
+                }]
+        });
+    };
+    /**
+     * Returns a promise, which is resolved (or rejected) with the given value after DELAY.
+     */
+    MockPartInfoProvider.answer = function (success, value) {
+        var deferred = $.Deferred();
+        setTimeout(function () {
+            if (success) {
+                deferred.resolve(value);
+            }
+            else {
+                deferred.reject(value);
+            }
+        }, MockPartInfoProvider.DELAY);
+        return deferred.promise();
+    };
+    /** The delay (in ms) of the answers, so the loading indicators are visible. */
+    MockPartInfoProvider.DELAY = 500;
+    return MockPartInfoProvider;
+}());
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      PartInfoProviderRegistry Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * Creates the providers, which are enabled in the config (passed via the #part_info_providers input).
+ * To add a new provider, implement PartInfoProvider and add the class to PROVIDER_CLASSES.
+ */
+var PartInfoProviderRegistry = /** @class */ (function () {
+    function PartInfoProviderRegistry() {
+        this.providers = [];
+        this.config_loaded = false;
+    }
+    /**
+     * Gets a instance of PartInfoProviderRegistry. If no instance exits, then a new one is created.
+     * @returns {PartInfoProviderRegistry} A instance of PartInfoProviderRegistry.
+     */
+    PartInfoProviderRegistry.getInstance = function () {
+        if (PartInfoProviderRegistry.singleton == null || PartInfoProviderRegistry.singleton == undefined) {
+            PartInfoProviderRegistry.singleton = new PartInfoProviderRegistry();
+        }
+        return PartInfoProviderRegistry.singleton;
+    };
+    /**
+     * Returns all enabled providers. The config is read, when this function is called the first time.
+     * @returns {PartInfoProvider[]} The providers in the order of the config.
+     */
+    PartInfoProviderRegistry.prototype.getProviders = function () {
+        if (!this.config_loaded) {
+            this.config_loaded = true;
+            this.loadFromConfig();
+        }
+        return this.providers;
+    };
+    /**
+     * Returns the provider with the given name.
+     * @param {string} name The name of the provider.
+     * @returns {PartInfoProvider} The provider, or null if it is not enabled.
+     */
+    PartInfoProviderRegistry.prototype.getProvider = function (name) {
+        for (var _i = 0, _a = this.getProviders(); _i < _a.length; _i++) {
+            var provider = _a[_i];
+            if (provider.name === name) {
+                return provider;
+            }
+        }
+        return null;
+    };
+    /**
+     * Adds a provider, which is not created from the config.
+     * @param {PartInfoProvider} provider The provider.
+     */
+    PartInfoProviderRegistry.prototype.register = function (provider) {
+        this.providers.push(provider);
+    };
+    PartInfoProviderRegistry.prototype.loadFromConfig = function () {
+        var json = $("#part_info_providers").val();
+        if (typeof json === "undefined" || json === "") {
+            return;
+        }
+        var configs = JSON.parse(json);
+        for (var name_1 in configs) {
+            var provider_class = PartInfoProviderRegistry.PROVIDER_CLASSES[name_1];
+            //E.g. a provider of a newer version, which is still in the config.php
+            if (typeof provider_class === "undefined") {
+                continue;
+            }
+            this.register(new provider_class(configs[name_1]));
+        }
+    };
+    /** The provider classes, by the key in $config['part_info_providers'] */
+    PartInfoProviderRegistry.PROVIDER_CLASSES = {
+        octopart: OctopartProvider,
+        mock: MockPartInfoProvider
+    };
+    return PartInfoProviderRegistry;
+}());
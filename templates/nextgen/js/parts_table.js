@@ -0,0 +1,417 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      PartsTable Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * The tables of parts, which are paginated, sorted and filtered on the server via the API. This is used for the
+ * table of all parts, which can contain too many parts to load them at once.
+ * The table is marked with the data-server-side attribute (see smarty_table.tpl), and the filters are inputs with a
+ * data-filter attribute in a .parts-table-filter element.
+ * The state of the table (page, sort order and filters) is saved in the URL, so it can be bookmarked.
+ */
+var PartsTable = /** @class */ (function () {
+    function PartsTable() {
+        this.renderers = {};
+        this.filter_timeout = null;
+        var _this = this;
+        this.registerDefaultRenderers();
+        $(document).on("input change", ".parts-table-filter [data-filter]", function () {
+            clearTimeout(_this.filter_timeout);
+            _this.filter_timeout = window.setTimeout(function () {
+                PartsTable.reload();
+            }, PartsTable.FILTER_DELAY);
+        });
+        $(document).on("click", ".parts-table-filter-reset", function () {
+            $(".parts-table-filter [data-filter]").val("");
+            PartsTable.reload();
+        });
+    }
+    /**
+     * Gets a instance of PartsTable. If no instance exits, then a new one is created.
+     * @returns {PartsTable} A instance of PartsTable.
+     */
+    PartsTable.getInstance = function () {
+        if (PartsTable.singleton == null || PartsTable.singleton == undefined) {
+            PartsTable.singleton = new PartsTable();
+        }
+        return PartsTable.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Returns the DataTables options for the server side processing of the table. They are merged with the
+     * options of makeSortTable().
+     * @param {JQuery} table The table element with the data-server-side attribute.
+     */
+    PartsTable.prototype.getOptions = function (table) {
+        var _this = this;
+        var columns = table.data("columns");
+        var limit = Number(table.data("limit")) || PartsTable.PAGE_LENGTHS[1];
+        var page = Math.max(Number(table.data("page")) || 1, 1);
+        var order = [];
+        columns.forEach(function (column, index) {
+            if (column.caption === table.data("order")) {
+                order = [[index, table.data("dir") === "desc" ? "desc" : "asc"]];
+            }
+        });
+        return {
+            "serverSide": true,
+            "processing": true,
+            "paging": true,
+            "info": true,
+            "pageLength": limit,
+            "displayStart": (page - 1) * limit,
+            "lengthMenu": PartsTable.PAGE_LENGTHS,
+            "order": order,
+            "ajax": function (data, callback) {
+                _this.load(table, data, columns, callback);
+            },
+            "columns": columns.map(function (column) {
+                return {
+                    data: function (row) {
+                        return PartsTable.getField(row, column.caption);
+                    },
+                    orderable: column.sortable,
+                    render: function (field, type, row) {
+                        return _this.render(table, column.caption, field, row);
+                    },
+                    createdCell: function (td, field) {
+                        $(td).addClass(PartsTable.getCellClass(column.caption, field));
+                    }
+                };
+            }),
+            "createdRow": function (tr, row) {
+                //The ID is used for the selection (like the hidden inputs of smarty_table.tpl)
+                $(tr).children("td").first().prepend($("<input type='hidden'>").val(row.id));
+                $(tr).toggleClass("success", row.favorite).toggleClass("danger", row.instock_warning_full_row);
+            },
+            "drawCallback": function () {
+                //The selection is lost, when another page is loaded.
+                if (table.DataTable().rows({ selected: true }).count() == 0) {
+                    $(".select_actions").hide();
+                }
+                //The rows are new elements, so the handlers of the page must be registered for them.
+                AjaxUI.getInstance().registerLinks();
+                registerHoverImages();
+                $(this).find("a[title]").tooltip({ container: "body" });
+            }
+        };
+    };
+    /**
+     * Registers a renderer for the column with the given caption. An existing renderer is replaced.
+     */
+    PartsTable.prototype.register = function (caption, renderer) {
+        this.renderers[caption] = renderer;
+    };
+    /**
+     * Renders the cells of a row again with the values of the part (e.g. after it was changed via the inline editing).
+     * Only the cells of the given columns are changed, the other ones can contain inputs of the user.
+     * @param {JQuery} tr The row of the table.
+     * @param {ApiPartsTableRow} row The part, like it is returned by the API.
+     * @param {string[]} captions The captions of the columns, which should be rendered again.
+     */
+    PartsTable.prototype.updateRow = function (tr, row, captions) {
+        var _this = this;
+        var table = tr.closest("table");
+        var api = table.DataTable();
+        //The hidden columns are not in the DOM, so the cells are got from DataTables
+        api.cells(api.row(tr).index(), "*").nodes().each(function (node) {
+            var td = $(node);
+            var caption = $(api.column(api.cell(node).index().column).header()).data("column");
+            var field = PartsTable.getField(row, caption);
+            if (captions.indexOf(caption) === -1 || field === null || !_this.renderers.hasOwnProperty(caption)) {
+                return;
+            }
+            //The first cell contains the ID of the part
+            var inputs = td.children("input[type=hidden]").detach();
+            td.html(_this.render(table, caption, field, row)).prepend(inputs);
+            td.removeClass("bg-danger").addClass(PartsTable.getCellClass(caption, field));
+        });
+        tr.toggleClass("danger", row.instock_warning_full_row);
+        //The data of the server side tables is not read from the DOM
+        if (!table.is("[data-server-side]")) {
+            api.row(tr).invalidate("dom");
+        }
+        AjaxUI.getInstance().registerLinks();
+        tr.find("a[title]").tooltip({ container: "body" });
+    };
+    /**
+     * Loads the server side tables on the current page again (e.g. after the filters were changed).
+     * The table starts on the first page.
+     */
+    PartsTable.reload = function () {
+        $(".table-sortable[data-server-side]").each(function () {
+            $(this).DataTable().page(0).draw(false);
+        });
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    /**
+     * Loads the rows requested by DataTables from the API and saves the state in the URL.
+     * @param table The table element.
+     * @param data The request of DataTables (start, length, order)
+     * @param columns The columns of the table.
+     * @param callback Passes the rows to DataTables.
+     */
+    PartsTable.prototype.load = function (table, data, columns, callback) {
+        var query = {
+            offset: data.start,
+            limit: data.length > 0 ? data.length : 0,
+            order: "name",
+            dir: "asc"
+        };
+        if (data.order.length > 0) {
+            query.order = columns[data.order[0].column].caption;
+            query.dir = data.order[0].dir === "desc" ? "desc" : "asc";
+        }
+        $.extend(query, PartsTable.getFilters());
+        var error = $(".parts-table-error").prop("hidden", true);
+        PartDbApiClient.getInstance().getPartsTable(query)
+            .done(function (result) {
+            callback({ draw: data.draw, recordsTotal: result.total, recordsFiltered: result.filtered, data: result.rows });
+            PartsTable.saveState(query);
+        })
+            .fail(function (xhr) {
+            error.prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            callback({ draw: data.draw, recordsTotal: 0, recordsFiltered: 0, data: [] });
+        });
+    };
+    /**
+     * Replaces the URL of the page with the state of the table, so the page shows the same rows on a reload.
+     * The parameters are the same, which show_all_parts.php reads.
+     */
+    PartsTable.saveState = function (query) {
+        var params = $.extend({}, query);
+        delete params.offset;
+        params.page = query.limit > 0 ? Math.floor(query.offset / query.limit) + 1 : 0;
+        Router.getInstance().replaceURL(location.pathname + "?" + $.param(params));
+    };
+    /**
+     * Returns the values of the filter inputs, which are not empty.
+     */
+    PartsTable.getFilters = function () {
+        var filters = {};
+        $(".parts-table-filter [data-filter]").each(function () {
+            var name = $(this).data("filter");
+            var value = $.trim(LocalizedNumberInput.val($(this)));
+            if (PartsTable.FILTERS.indexOf(name) !== -1 && value !== "") {
+                filters[name] = value;
+            }
+        });
+        return filters;
+    };
+    /**
+     * Returns the HTML of the cell.
+     */
+    PartsTable.prototype.render = function (table, caption, field, row) {
+        if (field === null || !this.renderers.hasOwnProperty(caption)) {
+            return "";
+        }
+        var content = this.renderers[caption](field, row, {
+            comment: table.data("label-comment"),
+            mininstock: table.data("label-mininstock"),
+            obsolete: table.data("label-obsolete")
+        });
+        if (typeof content === "string") {
+            return content;
+        }
+        return $("<div>").append(content).html();
+    };
+    PartsTable.getField = function (row, caption) {
+        for (var _i = 0, _a = row.row_fields; _i < _a.length; _i++) {
+            var field = _a[_i];
+            if (field.caption === caption) {
+                return field;
+            }
+        }
+        return null;
+    };
+    /**
+     * Returns the classes of a cell (like in smarty_table.tpl).
+     */
+    PartsTable.getCellClass = function (caption, field) {
+        if (field === null) {
+            return "";
+        }
+        switch (caption) {
+            case "instock":
+            case "instock_mininstock":
+                return field.not_enough_instock ? "bg-danger" : "";
+            case "description":
+            case "name_description":
+                return field.obsolete ? "bg-danger" : "";
+            case "button_edit":
+                return "no-select";
+        }
+        return "";
+    };
+    /**
+     * Returns a link to the structural element (e.g. the category) of a part, or the links to the element and all
+     * its parents, if full paths are enabled.
+     */
+    PartsTable.renderStructuralLink = function (row, name, path, href, loop) {
+        if (typeof path === "undefined" || path === null) {
+            return "";
+        }
+        if (!row.show_full_paths) {
+            return $("<a>").attr("href", href).attr("title", path).text(name);
+        }
+        var list = $("<ul class='structural_link'>");
+        for (var _i = 0, loop_1 = loop; _i < loop_1.length; _i++) {
+            var crumb = loop_1[_i];
+            var item = $("<li>").appendTo(list);
+            if (crumb.href) {
+                item.append($("<a>").attr("href", crumb.href).text(crumb.label));
+            }
+            else {
+                item.text(crumb.label);
+            }
+        }
+        return list;
+    };
+    /**
+     * Returns an element for every entry of the list, like the lists of suppliers or prices in smarty_table.tpl.
+     */
+    PartsTable.renderList = function (entries, render) {
+        var elements = $();
+        for (var _i = 0, entries_1 = entries; _i < entries_1.length; _i++) {
+            var entry = entries_1[_i];
+            var div = $("<div style='display:inline-block; height:1.7em; line-height:1.7em;'>").append(render(entry));
+            elements = elements.add(div).add($("<br>"));
+        }
+        return elements;
+    };
+    /**
+     * The renderers for the columns of the parts tables, which are not editable (see smarty_table.tpl).
+     */
+    PartsTable.prototype.registerDefaultRenderers = function () {
+        var nameLink = function (field, labels, text, obsolete) {
+            var title = obsolete ? labels["obsolete"] + " " : "";
+            if (field.comment) {
+                //The comment is HTML, but the title must be plain text.
+                title += labels["comment"] + " " + $("<div>").html(field.comment).text();
+            }
+            return $("<a data-toggle='tooltip'>").attr("href", "show_part_info.php?pid=" + field.id)
+                .attr("title", title).text(text);
+        };
+        this.register("hover_picture", function (field) {
+            if (!field.small_picture) {
+                return "";
+            }
+            return $("<p>").append($("<img class='img-responsive hoverpic' rel='popover'>")
+                .attr("src", field.small_picture).attr("alt", field.picture_name));
+        });
+        this.register("id", function (field) {
+            return String(field.id);
+        });
+        this.register("name", function (field, row, labels) {
+            return nameLink(field, labels, field.name, false);
+        });
+        this.register("name_description", function (field, row, labels) {
+            var description = $("<div>").html(field.description).text();
+            return nameLink(field, labels, field.name + " " + description, field.obsolete);
+        });
+        //The description and the comment are already converted from BBCode to HTML on the server.
+        this.register("description", function (field) {
+            return field.description;
+        });
+        this.register("comment", function (field) {
+            return field.comment;
+        });
+        this.register("instock", function (field, row, labels) {
+            return $("<div class='part-instock' data-toggle='tooltip'>").attr("title", labels["mininstock"] + " " + field.mininstock)
+                .text(field.instock);
+        });
+        this.register("mininstock", function (field) {
+            return $("<span>").text(field.mininstock);
+        });
+        this.register("instock_mininstock", function (field) {
+            return $("<span class='part-instock-mininstock'>").text(field.instock + "/" + field.mininstock);
+        });
+        this.register("category", function (field, row) {
+            return PartsTable.renderStructuralLink(row, field.category_name, field.category_path, "show_category_parts.php?cid=" + field.category_id, field.category_loop);
+        });
+        this.register("footprint", function (field, row) {
+            return PartsTable.renderStructuralLink(row, field.footprint_name, field.footprint_path, "show_footprint_parts.php?fid=" + field.footprint_id + "&subfoot=0", field.footprint_loop);
+        });
+        this.register("manufacturer", function (field, row) {
+            return PartsTable.renderStructuralLink(row, field.manufacturer_name, field.manufacturer_path, "show_manufacturer_parts.php?mid=" + field.manufacturer_id + "&subman=0", field.manufacturer_loop);
+        });
+        this.register("storelocation", function (field, row) {
+            return PartsTable.renderStructuralLink(row, field.storelocation_name, field.storelocation_path, "show_location_parts.php?lid=" + field.storelocation_id + "&subloc=0", field.storelocation_loop);
+        });
+        this.register("suppliers", function (field) {
+            return PartsTable.renderList(field.suppliers, function (supplier) {
+                return $("<a>").attr("href", BASE + "show_supplier_parts.php?sid=" + supplier.supplier_id + "&subsup=0")
+                    .text(supplier.supplier_name);
+            });
+        });
+        this.register("supplier_partnrs", function (field) {
+            return PartsTable.renderList(field.supplier_partnrs, function (partnr) {
+                if (!partnr.supplier_product_url) {
+                    return $("<span>").text(partnr.supplier_partnr);
+                }
+                return $("<a class='link-external' target='_blank' rel='noopener'>").attr("href", partnr.supplier_product_url)
+                    .attr("title", partnr.supplier_product_url).text(partnr.supplier_partnr);
+            });
+        });
+        this.register("datasheets", function (field) {
+            var links = $();
+            for (var _i = 0, _a = field.datasheets; _i < _a.length; _i++) {
+                var sheet = _a[_i];
+                links = links.add($("<a class='link-datasheet datasheet' target='_blank'>").attr("href", sheet.url)
+                    .attr("title", sheet.name)
+                    .append($("<img class='companypic'>").attr("src", BASE + sheet.image).attr("alt", sheet.name)));
+            }
+            return links;
+        });
+        this.register("average_single_price", function (field) {
+            return $("<span>").text(field.average_single_price !== null ? field.average_single_price : "");
+        });
+        this.register("single_prices", function (field) {
+            return PartsTable.renderList(field.single_prices, function (price) {
+                return $("<span>").text(price.single_price);
+            });
+        });
+        this.register("attachements", function (field, row) {
+            var links = $();
+            for (var _i = 0, _a = field.attachements; _i < _a.length; _i++) {
+                var attachement = _a[_i];
+                var link = $("<a rel='noopener' target='_blank'>").attr("href", attachement.filename);
+                if (row.use_attachements_names) {
+                    link.addClass("link-external").attr("title", attachement.type).text(attachement.name);
+                    links = links.add(link).add($("<br>"));
+                }
+                else {
+                    //The icon is generated on the server (see extToFAIcon())
+                    link.addClass("link-datasheet").attr("title", attachement.type + ": " + attachement.name)
+                        .html(attachement.icon);
+                    links = links.add(link);
+                }
+            }
+            return links;
+        });
+        this.register("last_modified", function (field) {
+            return $("<span>").text(field.last_modified);
+        });
+        this.register("created", function (field) {
+            return $("<span>").text(field.created);
+        });
+        this.register("button_edit", function (field) {
+            if (field.edit_disabled) {
+                return "";
+            }
+            return $("<a class='btn btn-xs btn-default btn-outline'>").attr("href", BASE + "edit_part_info.php?pid=" + field.id)
+                .append($("<i class='fa fa-pencil-alt' aria-hidden='true'>"));
+        });
+    };
+    /** The names of the filters, like they are used in the URL and the API. */
+    PartsTable.FILTERS = ["category", "footprint", "instock_min", "instock_max", "price_min", "price_max", "keyword", "filter"];
+    PartsTable.PAGE_LENGTHS = [25, 50, 100, 200, 250];
+    /** The time in ms after the last input in a filter field, until the table is reloaded. */
+    PartsTable.FILTER_DELAY = 400;
+    return PartsTable;
+}());
@@ -0,0 +1 @@
+var Router=function(){function Router(){this.pending_restore=null;window.onpopstate=this.onPopState.bind(this)}Router.getInstance=function(){if(Router.singleton==null||Router.singleton==undefined){Router.singleton=new Router}return Router.singleton};Router.prototype.navigate=function(url){if(typeof url==="undefined"||url===null||url===""){return false}if(url.charAt(0)==="#"){scrollToAnchor(url);return false}if(this.isExternal(url)){openInNewTab(url);return false}this.saveCurrentState();this.pending_restore=null;this.load(url);return true};Router.prototype.navigateTo=function(name,params){if(params===void 0){params=""}var route=this.getRouteByName(name);if(route==null){return false}var url=BASE+route.page;if(params!==""){url=addURLparam(url,params)}return this.navigate(url)};Router.prototype.reload=function(){this.saveCurrentState();this.pending_restore=window.history.state;this.load(location.href)};Router.prototype.replaceURL=function(url){var state=window.history.state;if(state===null||typeof state!=="object"){state={url:url,scroll:0,form:null}}state.url=url;window.history.replaceState(state,document.title,url)};Router.prototype.isExternal=function(url){var link=Router.parseURL(url);if(link.protocol!=="http:"&&link.protocol!=="https:"){return true}if(link.host!==location.host){return true}return this.matchRoute(url)==null};Router.prototype.matchRoute=function(url){var path=Router.getPathRelativeToBase(url);if(path===""){return this.getRouteByName("index")}for(var _i=0,_a=Router.ROUTES;_i<_a.length;_i++){var route=_a[_i];if(route.page===path){return route}}return null};Router.prototype.getRouteByName=function(name){for(var _i=0,_a=Router.ROUTES;_i<_a.length;_i++){var route=_a[_i];if(route.name===name){return route}}return null};Router.prototype.saveCurrentState=function(){var state={url:location.href,scroll:$(window).scrollTop(),form:this.serializeForms()};window.history.replaceState(state,document.title,location.href)};Router.prototype.onPageLoaded=function(url){if(this.pending_restore!==null){var state_1=this.pending_restore;this.pending_restore=null;this.restoreForms(state_1.form);$(window).scrollTop(state_1.scroll);return}var state={url:url,scroll:0,form:null};if(Router.parseURL(url).href===location.href){window.history.replaceState(state,"",url)}else{window.history.pushState(state,"",url)}};Router.prototype.load=function(url){var ajaxui=AjaxUI.getInstance();ajaxui.abortAllAjax();ajaxui.beforeAjaxSubmit();$("#content").hide(0).load(addURLparam(url,"ajax")+" #content-data");$("#progressbar").show(0)};Router.prototype.onPopState=function(event){var state=event.state;var route=this.matchRoute(location.href);if(route==null||route.name==="index"){return}this.pending_restore=state!==null&&typeof state==="object"?state:null;this.load(location.href)};Router.prototype.serializeForms=function(){var fields=[];Router.getFormInputs().each(function(){var input=$(this);fields.push({name:input.attr("name"),value:input.val(),checked:input.is(":checked")})});return fields};Router.prototype.restoreForms=function(fields){if(fields===null||typeof fields==="undefined"){return}Router.getFormInputs().each(function(index){if(index>=fields.length||fields[index].name!==$(this).attr("name")){return}var input=$(this);if(input.is(":checkbox, :radio")){input.prop("checked",fields[index].checked)}else{input.val(fields[index].value)}})};Router.getFormInputs=function(){return $("#content form").find("input, select, textarea").not("[type=hidden]").not("[type=submit]").not("[type=password]").not("[type=file]")};Router.parseURL=function(url){var link=document.createElement("a");link.href=url;return link};Router.getPathRelativeToBase=function(url){var base_path=Router.parseURL(BASE!==""?BASE:"./").pathname;var path=Router.parseURL(url).pathname;if(path.indexOf(base_path)===0){path=path.substring(base_path.length)}return path.replace(/^\/+/,"")};Router.ROUTES=[{name:"index",page:"index.php"},{name:"startup",page:"startup.php"},{name:"login",page:"login.php"},{name:"statistics",page:"statistics.php"},{name:"user_info",page:"user_info.php"},{name:"user_settings",page:"user_settings.php"},{name:"all_parts",page:"show_all_parts.php"},{name:"category_parts",page:"show_category_parts.php"},{name:"device_parts",page:"show_device_parts.php"},{name:"favorite_parts",page:"show_favorite_parts.php"},{name:"footprint_parts",page:"show_footprint_parts.php"},{name:"last_modified_parts",page:"show_last_modified_parts.php"},{name:"location_parts",page:"show_location_parts.php"},{name:"manufacturer_parts",page:"show_manufacturer_parts.php"},{name:"noprice_parts",page:"show_noprice_parts.php"},{name:"obsolete_parts",page:"show_obsolete_parts.php"},{name:"order_parts",page:"show_order_parts.php"},{name:"part_info",page:"show_part_info.php"},{name:"part_label",page:"show_part_label.php"},{name:"search_parts",page:"show_search_parts.php"},{name:"supplier_parts",page:"show_supplier_parts.php"},{name:"unknown_instock_parts",page:"show_unknown_instock_parts.php"},{name:"edit_attachement_types",page:"edit_attachement_types.php"},{name:"edit_categories",page:"edit_categories.php"},{name:"edit_devices",page:"edit_devices.php"},{name:"edit_footprints",page:"edit_footprints.php"},{name:"edit_groups",page:"edit_groups.php"},{name:"edit_manufacturers",page:"edit_manufacturers.php"},{name:"edit_part_info",page:"edit_part_info.php"},{name:"edit_storelocations",page:"edit_storelocations.php"},{name:"edit_suppliers",page:"edit_suppliers.php"},{name:"edit_users",page:"edit_users.php"},{name:"tools_3d_footprints",page:"tools_3d_footprints.php"},{name:"tools_calculator",page:"tools_calculator.php"},{name:"tools_footprints",page:"tools_footprints.php"},{name:"tools_iclogos",page:"tools_iclogos.php"},{name:"tools_import",page:"tools_import.php"},{name:"tools_labels",page:"tools_labels.php"},{name:"system_config",page:"system_config.php"},{name:"system_database",page:"system_database.php"},{name:"system_debug",page:"system_debug.php"},{name:"developer_tools",page:"development/developer_tools.php"}];return Router}();
\ No newline at end of file
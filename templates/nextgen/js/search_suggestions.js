@@ -0,0 +1,242 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      SearchSuggestions Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * Shows the best matching parts in a dropdown under the search box of the navbar, while the user is typing.
+ * The parts can be selected with the arrow keys and are only opened with Enter or a click. Enter without a selected
+ * part submits the search like before.
+ */
+var SearchSuggestions = /** @class */ (function () {
+    function SearchSuggestions() {
+        this.timeout = null;
+        this.request = null;
+        /** The keyword, whose suggestions are shown at the moment. */
+        this.keyword = null;
+    }
+    /**
+     * Gets a instance of SearchSuggestions. If no instance exits, then a new one is created.
+     * @returns {SearchSuggestions} A instance of SearchSuggestions.
+     */
+    SearchSuggestions.getInstance = function () {
+        if (SearchSuggestions.singleton == null || SearchSuggestions.singleton == undefined) {
+            SearchSuggestions.singleton = new SearchSuggestions();
+        }
+        return SearchSuggestions.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Registers the handlers of the search box, if the live search is activated in the system config.
+     * Called by AjaxUI.start()
+     */
+    SearchSuggestions.prototype.start = function () {
+        var _this = this;
+        var input = $("#search-keyword[data-suggestions]");
+        if (input.length === 0) {
+            return;
+        }
+        input.on("input", function () {
+            _this.update();
+        });
+        input.on("keydown", function (event) {
+            _this.onKeyDown(event);
+        });
+        input.on("focus", function () {
+            if (_this.keyword !== null && _this.keyword === _this.getKeyword()) {
+                _this.show(true);
+            }
+        });
+        //Use mousedown, so the dropdown is not closed by the blur of the input before
+        $("#search-suggestions").on("mousedown", "a", function (event) {
+            event.preventDefault();
+        }).on("click", ".search-suggestion a", function (event) {
+            event.preventDefault();
+            _this.open($(this).closest(".search-suggestion"));
+        }).on("click", ".search-suggestions-all", function (event) {
+            event.preventDefault();
+            _this.show(false);
+            submitForm(input.closest("form"));
+        });
+        input.on("blur", function () {
+            _this.show(false);
+        });
+        //The search was submitted
+        input.closest("form").on("submit", function () {
+            _this.abort();
+            _this.show(false);
+        });
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    SearchSuggestions.prototype.getKeyword = function () {
+        return $("#search-keyword").val().trim();
+    };
+    /**
+     * Searches the parts for the keyword, after the user has stopped typing.
+     */
+    SearchSuggestions.prototype.update = function () {
+        var _this = this;
+        this.abort();
+        var keyword = this.getKeyword();
+        if (keyword.length < SearchSuggestions.MIN_LENGTH) {
+            this.keyword = null;
+            this.show(false);
+            return;
+        }
+        this.timeout = window.setTimeout(function () {
+            _this.timeout = null;
+            _this.search(keyword);
+        }, SearchSuggestions.DELAY);
+    };
+    SearchSuggestions.prototype.search = function (keyword) {
+        var _this = this;
+        var api = PartDbApiClient.getInstance();
+        var options = { limit: SearchSuggestions.LIMIT, pictures: true };
+        this.request = this.isRegex(keyword) ? api.searchPartsByRegex(keyword, options)
+            : api.searchPartsByKeyword(keyword, options);
+        this.request.done(function (parts) {
+            _this.keyword = keyword;
+            _this.showParts(parts);
+        }).fail(function (xhr) {
+            //Aborted, because the user typed further
+            if (xhr.statusText === "abort") {
+                return;
+            }
+            _this.keyword = keyword;
+            _this.showParts([]);
+            $("#search-suggestions .search-suggestions-empty").prop("hidden", true);
+            $("#search-suggestions .search-suggestions-error").prop("hidden", false)
+                .text(PartDbApiClient.getErrorMessage(xhr));
+        }).always(function () {
+            _this.request = null;
+        });
+    };
+    /**
+     * Stops the search, which is waiting or running.
+     */
+    SearchSuggestions.prototype.abort = function () {
+        if (this.timeout !== null) {
+            window.clearTimeout(this.timeout);
+            this.timeout = null;
+        }
+        if (this.request !== null) {
+            this.request.abort();
+            this.request = null;
+        }
+    };
+    /**
+     * Checks if the keyword should be searched as regular expression: The "RegEx Matching" option is checked or the
+     * keyword contains special characters of regular expressions (and is a valid regular expression).
+     */
+    SearchSuggestions.prototype.isRegex = function (keyword) {
+        var form = $("#search-keyword").closest("form");
+        if (form.find("input[name=regex]").is(":checked")) {
+            return true;
+        }
+        if (!/[\^$*+?()[\]{}|\\]/.test(keyword)) {
+            return false;
+        }
+        try {
+            new RegExp(keyword);
+            return true;
+        }
+        catch (e) {
+            return false;
+        }
+    };
+    /**
+     * Shows the found parts in the dropdown.
+     */
+    SearchSuggestions.prototype.showParts = function (parts) {
+        var menu = $("#search-suggestions");
+        var prototype = $(".search-suggestions-prototypes .search-suggestion");
+        menu.find(".search-suggestion").remove();
+        menu.find(".search-suggestions-error").prop("hidden", true);
+        menu.find(".search-suggestions-empty").prop("hidden", parts.length > 0);
+        var items = parts.map(function (part) {
+            var item = prototype.clone();
+            //-1 means, that the user is not allowed to see the instock, -2 that the instock is unknown
+            var instock = Number(part.instock);
+            item.data("id", part.id);
+            item.find(".search-suggestion-name").text(part.name);
+            item.find(".search-suggestion-description").text(part.description_raw);
+            item.find(".search-suggestion-instock").text(instock >= 0 ? String(instock) : "?");
+            item.find(".search-suggestion-location").text(part.storelocation !== null ? part.storelocation.fullpath : "");
+            item.find(".search-suggestion-location-container").prop("hidden", part.storelocation === null);
+            var picture = item.find(".search-suggestion-picture");
+            if (part.picture) {
+                picture.attr("src", part.picture);
+            }
+            else {
+                picture.css("visibility", "hidden");
+            }
+            return item;
+        });
+        menu.prepend(items);
+        this.show($("#search-keyword").is(":focus"));
+    };
+    SearchSuggestions.prototype.show = function (visible) {
+        $("#search-suggestions").closest("form").toggleClass("open", visible);
+        if (!visible) {
+            $("#search-suggestions .search-suggestion").removeClass("active");
+        }
+    };
+    /**
+     * Moves the selection with the arrow keys. Enter opens the selected part, Escape closes the dropdown.
+     */
+    SearchSuggestions.prototype.onKeyDown = function (event) {
+        var menu = $("#search-suggestions");
+        var items = menu.find(".search-suggestion");
+        var active = items.filter(".active");
+        var visible = menu.closest("form").hasClass("open");
+        switch (event.key) {
+            case "ArrowDown":
+            case "ArrowUp":
+                if (!visible || items.length === 0) {
+                    return;
+                }
+                event.preventDefault();
+                var index = items.index(active) + (event.key === "ArrowDown" ? 1 : -1);
+                //Wrap around, -1 means no selection (the input)
+                if (index >= items.length) {
+                    index = -1;
+                }
+                else if (index < -1) {
+                    index = items.length - 1;
+                }
+                items.removeClass("active");
+                if (index >= 0) {
+                    items.eq(index).addClass("active");
+                }
+                break;
+            case "Enter":
+                if (visible && active.length > 0) {
+                    event.preventDefault();
+                    this.open(active);
+                }
+                break;
+            case "Escape":
+                this.show(false);
+                break;
+        }
+    };
+    /**
+     * Opens the info page of the part.
+     */
+    SearchSuggestions.prototype.open = function (item) {
+        this.abort();
+        this.show(false);
+        Router.getInstance().navigateTo("part_info", "pid=" + item.data("id"));
+    };
+    /** The minimum length of the keyword, before parts are searched. */
+    SearchSuggestions.MIN_LENGTH = 2;
+    /** The time in ms after the last key, before the parts are searched. */
+    SearchSuggestions.DELAY = 200;
+    /** The maximum number of parts shown in the dropdown. */
+    SearchSuggestions.LIMIT = 8;
+    return SearchSuggestions;
+}());
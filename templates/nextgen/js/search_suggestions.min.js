@@ -0,0 +1 @@
+var SearchSuggestions=function(){function SearchSuggestions(){this.timeout=null;this.request=null;this.keyword=null}SearchSuggestions.getInstance=function(){if(SearchSuggestions.singleton==null||SearchSuggestions.singleton==undefined){SearchSuggestions.singleton=new SearchSuggestions}return SearchSuggestions.singleton};SearchSuggestions.prototype.start=function(){var _this=this;var input=$("#search-keyword[data-suggestions]");if(input.length===0){return}input.on("input",function(){_this.update()});input.on("keydown",function(event){_this.onKeyDown(event)});input.on("focus",function(){if(_this.keyword!==null&&_this.keyword===_this.getKeyword()){_this.show(true)}});$("#search-suggestions").on("mousedown","a",function(event){event.preventDefault()}).on("click",".search-suggestion a",function(event){event.preventDefault();_this.open($(this).closest(".search-suggestion"))}).on("click",".search-suggestions-all",function(event){event.preventDefault();_this.show(false);submitForm(input.closest("form"))});input.on("blur",function(){_this.show(false)});input.closest("form").on("submit",function(){_this.abort();_this.show(false)})};SearchSuggestions.prototype.getKeyword=function(){return $("#search-keyword").val().trim()};SearchSuggestions.prototype.update=function(){var _this=this;this.abort();var keyword=this.getKeyword();if(keyword.length<SearchSuggestions.MIN_LENGTH){this.keyword=null;this.show(false);return}this.timeout=window.setTimeout(function(){_this.timeout=null;_this.search(keyword)},SearchSuggestions.DELAY)};SearchSuggestions.prototype.search=function(keyword){var _this=this;var api=PartDbApiClient.getInstance();var options={limit:SearchSuggestions.LIMIT,pictures:true};this.request=this.isRegex(keyword)?api.searchPartsByRegex(keyword,options):api.searchPartsByKeyword(keyword,options);this.request.done(function(parts){_this.keyword=keyword;_this.showParts(parts)}).fail(function(xhr){if(xhr.statusText==="abort"){return}_this.keyword=keyword;_this.showParts([]);$("#search-suggestions .search-suggestions-empty").prop("hidden",true);$("#search-suggestions .search-suggestions-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr))}).always(function(){_this.request=null})};SearchSuggestions.prototype.abort=function(){if(this.timeout!==null){window.clearTimeout(this.timeout);this.timeout=null}if(this.request!==null){this.request.abort();this.request=null}};SearchSuggestions.prototype.isRegex=function(keyword){var form=$("#search-keyword").closest("form");if(form.find("input[name=regex]").is(":checked")){return true}if(!/[\^$*+?()[\]{}|\\]/.test(keyword)){return false}try{new RegExp(keyword);return true}catch(e){return false}};SearchSuggestions.prototype.showParts=function(parts){var menu=$("#search-suggestions");var prototype=$(".search-suggestions-prototypes .search-suggestion");menu.find(".search-suggestion").remove();menu.find(".search-suggestions-error").prop("hidden",true);menu.find(".search-suggestions-empty").prop("hidden",parts.length>0);var items=parts.map(function(part){var item=prototype.clone();var instock=Number(part.instock);item.data("id",part.id);item.find(".search-suggestion-name").text(part.name);item.find(".search-suggestion-description").text(part.description_raw);item.find(".search-suggestion-instock").text(instock>=0?String(instock):"?");item.find(".search-suggestion-location").text(part.storelocation!==null?part.storelocation.fullpath:"");item.find(".search-suggestion-location-container").prop("hidden",part.storelocation===null);var picture=item.find(".search-suggestion-picture");if(part.picture){picture.attr("src",part.picture)}else{picture.css("visibility","hidden")}return item});menu.prepend(items);this.show($("#search-keyword").is(":focus"))};SearchSuggestions.prototype.show=function(visible){$("#search-suggestions").closest("form").toggleClass("open",visible);if(!visible){$("#search-suggestions .search-suggestion").removeClass("active")}};SearchSuggestions.prototype.onKeyDown=function(event){var menu=$("#search-suggestions");var items=menu.find(".search-suggestion");var active=items.filter(".active");var visible=menu.closest("form").hasClass("open");switch(event.key){case"ArrowDown":case"ArrowUp":if(!visible||items.length===0){return}event.preventDefault();var index=items.index(active)+(event.key==="ArrowDown"?1:-1);if(index>=items.length){index=-1}else if(index<-1){index=items.length-1}items.removeClass("active");if(index>=0){items.eq(index).addClass("active")}break;case"Enter":if(visible&&active.length>0){event.preventDefault();this.open(active)}break;case"Escape":this.show(false);break}};SearchSuggestions.prototype.open=function(item){this.abort();this.show(false);Router.getInstance().navigateTo("part_info","pid="+item.data("id"))};SearchSuggestions.MIN_LENGTH=2;SearchSuggestions.DELAY=200;SearchSuggestions.LIMIT=8;return SearchSuggestions}();
\ No newline at end of file
@@ -0,0 +1,157 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      Service Worker
+ * **************************************************************************************
+ ****************************************************************************************/
+/*
+ * This script is delivered via service_worker.php (so its scope is the base path of Part-DB) and runs in the
+ * ServiceWorkerGlobalScope, not in the page. It caches recently visited pages and the tree data, so Part-DB can
+ * still be browsed, when the connection to the server is lost.
+ */
+/** The cache for ajax page fragments and tree JSON. (v1 contained the full pages too, it is removed on activation) */
+var OFFLINE_PAGES_CACHE = "part-db-pages-v2";
+/** The cache for scripts, stylesheets, fonts and images. */
+var OFFLINE_STATIC_CACHE = "part-db-static-v1";
+/** How many pages are kept at most in OFFLINE_PAGES_CACHE. The oldest ones are removed first. */
+var OFFLINE_MAX_PAGES = 150;
+/** The header, which is added to responses served from cache. Contains the date, when the response was cached. */
+var OFFLINE_CACHED_HEADER = "X-Part-DB-Cached";
+/** The message, which the page sends on logout (see offline.ts). */
+var OFFLINE_CLEAR_MESSAGE = "clear-caches";
+/** Only the ajax fragments of these pages are saved for offline usage. */
+var OFFLINE_CACHEABLE_PAGES = ["show_part_info.php", "show_category_parts.php"];
+/** Files with these extensions are treated as static assets. */
+var OFFLINE_STATIC_EXTENSIONS = /\.(js|css|woff2?|ttf|eot|svg|png|jpe?g|gif|ico)$/i;
+//The global scope of the service worker (the DOM typings know nothing about it).
+var sw_scope = self;
+sw_scope.addEventListener("install", function (event) {
+    //Dont wait for old tabs to be closed, the caches are compatible.
+    event.waitUntil(sw_scope.skipWaiting());
+});
+sw_scope.addEventListener("activate", function (event) {
+    //Remove caches of older versions
+    event.waitUntil(caches.keys().then(function (keys) {
+        return waitForAll(keys.filter(function (key) {
+            return key !== OFFLINE_PAGES_CACHE && key !== OFFLINE_STATIC_CACHE;
+        }).map(function (key) {
+            return caches.delete(key);
+        }));
+    }).then(function () {
+        return sw_scope.clients.claim();
+    }));
+});
+sw_scope.addEventListener("message", function (event) {
+    //The caches are shared by all users of the browser, so the next user must not see the pages of the last one.
+    if (event.data === OFFLINE_CLEAR_MESSAGE) {
+        event.waitUntil(waitForAll([caches.delete(OFFLINE_PAGES_CACHE), caches.delete(OFFLINE_STATIC_CACHE)]));
+    }
+});
+sw_scope.addEventListener("fetch", function (event) {
+    var request = event.request;
+    //Only GET requests to Part-DB can be cached. Form submissions are queued in the page (see offline.ts).
+    if (request.method !== "GET" || request.url.indexOf(sw_scope.registration.scope) !== 0) {
+        return;
+    }
+    var path = request.url.substring(sw_scope.registration.scope.length).split("#")[0];
+    if (isCacheableFragment(path) || path.indexOf("api.php/1.0.0/tree/") === 0) {
+        event.respondWith(networkFirst(request));
+    }
+    else if (OFFLINE_STATIC_EXTENSIONS.test(path.split("?")[0])) {
+        event.respondWith(staleWhileRevalidate(request));
+    }
+});
+/**
+ * Checks if the given path is the ajax fragment of a page, which should be available offline.
+ * @param {string} path The path of the request, relative to the scope.
+ * @returns {boolean} True if the page should be cached.
+ */
+function isCacheableFragment(path) {
+    var parts = path.split("?");
+    if (parts.length < 2 || OFFLINE_CACHEABLE_PAGES.indexOf(parts[0]) === -1) {
+        return false;
+    }
+    return ("&" + parts[1] + "&").indexOf("&ajax&") !== -1;
+}
+/**
+ * Try to get the response from the network and save it to the cache. If the network is not available,
+ * the cached response is returned (marked with the OFFLINE_CACHED_HEADER).
+ * @param {Request} request The request
+ */
+function networkFirst(request) {
+    return fetch(request).then(function (response) {
+        if (response.ok) {
+            var copy_1 = response.clone();
+            caches.open(OFFLINE_PAGES_CACHE).then(function (cache) {
+                //Delete first, so the refreshed entry becomes the newest one
+                return cache.delete(request).then(function () {
+                    return cache.put(request, copy_1);
+                }).then(function () {
+                    return trimCache(cache, OFFLINE_MAX_PAGES);
+                });
+            });
+        }
+        return response;
+    }, function (error) {
+        return caches.open(OFFLINE_PAGES_CACHE).then(function (cache) {
+            return cache.match(request);
+        }).then(function (cached) {
+            if (typeof cached === "undefined") {
+                throw error;
+            }
+            return markAsCached(cached);
+        });
+    });
+}
+/**
+ * Returns the cached response (if existing) and updates the cache in background.
+ * @param {Request} request The request
+ */
+function staleWhileRevalidate(request) {
+    return caches.open(OFFLINE_STATIC_CACHE).then(function (cache) {
+        return cache.match(request).then(function (cached) {
+            var network = fetch(request).then(function (response) {
+                if (response.ok) {
+                    cache.put(request, response.clone());
+                }
+                return response;
+            });
+            return typeof cached !== "undefined" ? cached : network;
+        });
+    });
+}
+/**
+ * Add the OFFLINE_CACHED_HEADER to a cached response, so the page can show that the data may be outdated.
+ * @param {Response} cached The response from the cache.
+ */
+function markAsCached(cached) {
+    var headers = new Headers(cached.headers);
+    var date = cached.headers.get("Date");
+    headers.set(OFFLINE_CACHED_HEADER, date !== null ? date : "");
+    return cached.blob().then(function (body) {
+        return new Response(body, { status: cached.status, statusText: cached.statusText, headers: headers });
+    });
+}
+/**
+ * Removes the oldest entries of the cache, until only max_items are remaining.
+ * @param {Cache} cache The cache which should be trimmed.
+ * @param {number} max_items The maximum count of entries.
+ */
+function trimCache(cache, max_items) {
+    return cache.keys().then(function (keys) {
+        return waitForAll(keys.slice(0, Math.max(0, keys.length - max_items)).map(function (key) {
+            return cache.delete(key);
+        }));
+    });
+}
+/**
+ * Returns a promise, which is resolved when all given promises are resolved.
+ * (Promise.all() is not available with the ES5 typings, we compile against)
+ * @param {Promise<any>[]} promises The promises to wait for.
+ */
+function waitForAll(promises) {
+    return promises.reduce(function (chain, promise) {
+        return chain.then(function () {
+            return promise;
+        });
+    }, caches.keys());
+}
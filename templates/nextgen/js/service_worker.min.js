@@ -0,0 +1 @@
+var OFFLINE_PAGES_CACHE="part-db-pages-v2";var OFFLINE_STATIC_CACHE="part-db-static-v1";var OFFLINE_MAX_PAGES=150;var OFFLINE_CACHED_HEADER="X-Part-DB-Cached";var OFFLINE_CLEAR_MESSAGE="clear-caches";var OFFLINE_CACHEABLE_PAGES=["show_part_info.php","show_category_parts.php"];var OFFLINE_STATIC_EXTENSIONS=/\.(js|css|woff2?|ttf|eot|svg|png|jpe?g|gif|ico)$/i;var sw_scope=self;sw_scope.addEventListener("install",function(event){event.waitUntil(sw_scope.skipWaiting())});sw_scope.addEventListener("activate",function(event){event.waitUntil(caches.keys().then(function(keys){return waitForAll(keys.filter(function(key){return key!==OFFLINE_PAGES_CACHE&&key!==OFFLINE_STATIC_CACHE}).map(function(key){return caches.delete(key)}))}).then(function(){return sw_scope.clients.claim()}))});sw_scope.addEventListener("message",function(event){if(event.data===OFFLINE_CLEAR_MESSAGE){event.waitUntil(waitForAll([caches.delete(OFFLINE_PAGES_CACHE),caches.delete(OFFLINE_STATIC_CACHE)]))}});sw_scope.addEventListener("fetch",function(event){var request=event.request;if(request.method!=="GET"||request.url.indexOf(sw_scope.registration.scope)!==0){return}var path=request.url.substring(sw_scope.registration.scope.length).split("#")[0];if(isCacheableFragment(path)||path.indexOf("api.php/1.0.0/tree/")===0){event.respondWith(networkFirst(request))}else if(OFFLINE_STATIC_EXTENSIONS.test(path.split("?")[0])){event.respondWith(staleWhileRevalidate(request))}});function isCacheableFragment(path){var parts=path.split("?");if(parts.length<2||OFFLINE_CACHEABLE_PAGES.indexOf(parts[0])===-1){return false}return("&"+parts[1]+"&").indexOf("&ajax&")!==-1}function networkFirst(request){return fetch(request).then(function(response){if(response.ok){var copy_1=response.clone();caches.open(OFFLINE_PAGES_CACHE).then(function(cache){return cache.delete(request).then(function(){return cache.put(request,copy_1)}).then(function(){return trimCache(cache,OFFLINE_MAX_PAGES)})})}return response},function(error){return caches.open(OFFLINE_PAGES_CACHE).then(function(cache){return cache.match(request)}).then(function(cached){if(typeof cached==="undefined"){throw error}return markAsCached(cached)})})}function staleWhileRevalidate(request){return caches.open(OFFLINE_STATIC_CACHE).then(function(cache){return cache.match(request).then(function(cached){var network=fetch(request).then(function(response){if(response.ok){cache.put(request,response.clone())}return response});return typeof cached!=="undefined"?cached:network})})}function markAsCached(cached){var headers=new Headers(cached.headers);var date=cached.headers.get("Date");headers.set(OFFLINE_CACHED_HEADER,date!==null?date:"");return cached.blob().then(function(body){return new Response(body,{status:cached.status,statusText:cached.statusText,headers:headers})})}function trimCache(cache,max_items){return cache.keys().then(function(keys){return waitForAll(keys.slice(0,Math.max(0,keys.length-max_items)).map(function(key){return cache.delete(key)}))})}function waitForAll(promises){return promises.reduce(function(chain,promise){return chain.then(function(){return promise})},caches.keys())}
\ No newline at end of file
@@ -0,0 +1 @@
+var KeyboardShortcuts=function(){function KeyboardShortcuts(){this.actions=[];this.keymap={};this.buffer=[];this.buffer_timeout=null;this.started=false}KeyboardShortcuts.getInstance=function(){if(KeyboardShortcuts.singleton==null||KeyboardShortcuts.singleton==undefined){KeyboardShortcuts.singleton=new KeyboardShortcuts}return KeyboardShortcuts.singleton};KeyboardShortcuts.prototype.start=function(){if(this.started){return}this.started=true;var _this=this;document.addEventListener("keydown",this.onKeyDown.bind(this));$("#shortcut-help-save").click(function(){_this.saveKeymap()});$("#shortcut-help-reset").click(function(){_this.resetKeymap()});UserSettings.getInstance().load().done(function(){_this.keymap=UserSettings.getInstance().get(KeyboardShortcuts.SETTINGS_KEY,{})})};KeyboardShortcuts.prototype.register=function(action){this.unregister(action.id);this.actions.push(action)};KeyboardShortcuts.prototype.unregister=function(id){this.actions=this.actions.filter(function(action){return action.id!==id})};KeyboardShortcuts.prototype.getActions=function(){return this.actions};KeyboardShortcuts.prototype.getKeys=function(action){if(this.keymap.hasOwnProperty(action.id)){return KeyboardShortcuts.normalizeSequence(this.keymap[action.id])}return KeyboardShortcuts.normalizeSequence(action.keys)};KeyboardShortcuts.prototype.getLabel=function(action){var label=$("#shortcut-labels [data-shortcut='"+action.id+"']");return label.length>0?label.text():action.id};KeyboardShortcuts.prototype.execute=function(id){for(var _i=0,_a=this.actions;_i<_a.length;_i++){var action=_a[_i];if(action.id===id){action.handler();return true}}return false};KeyboardShortcuts.prototype.showHelp=function(){var _this=this;var tbody=$("#shortcut-help-table tbody").empty();for(var _i=0,_a=this.actions;_i<_a.length;_i++){var action=_a[_i];var input=$("<input type='text' class='form-control input-sm'>").attr("data-shortcut",action.id).attr("placeholder",KeyboardShortcuts.normalizeSequence(action.keys)).val(this.getKeys(action));tbody.append($("<tr>").append($("<td>").text(_this.getLabel(action))).append($("<td>").append(input)))}$("#shortcut-help-error").prop("hidden",true);$("#shortcut-help-modal").modal("show")};KeyboardShortcuts.prototype.onKeyDown=function(event){if(event.defaultPrevented){return}var stroke=KeyboardShortcuts.eventToStroke(event);if(stroke===null){return}if($(".modal.in").length>0){this.clearBuffer();return}if(KeyboardShortcuts.isEditable(event.target)&&!/^(ctrl|alt)\+/.test(stroke)){this.clearBuffer();return}this.buffer.push(stroke);if(this.dispatch(event)){return}if(this.buffer.length>1){this.buffer=[stroke];if(this.dispatch(event)){return}}this.clearBuffer()};KeyboardShortcuts.prototype.dispatch=function(event){var _this=this;var sequence=this.buffer.join(" ");var is_prefix=false;for(var _i=0,_a=this.actions;_i<_a.length;_i++){var action=_a[_i];var keys=this.getKeys(action);if(keys===""){continue}if(keys===sequence){event.preventDefault();this.clearBuffer();action.handler();return true}if(keys.indexOf(sequence+" ")===0){is_prefix=true}}if(is_prefix){event.preventDefault();if(this.buffer_timeout!==null){window.clearTimeout(this.buffer_timeout)}this.buffer_timeout=window.setTimeout(function(){_this.clearBuffer()},KeyboardShortcuts.SEQUENCE_TIMEOUT)}return is_prefix};KeyboardShortcuts.prototype.clearBuffer=function(){this.buffer=[];if(this.buffer_timeout!==null){window.clearTimeout(this.buffer_timeout);this.buffer_timeout=null}};KeyboardShortcuts.prototype.saveKeymap=function(){var _this=this;var keymap={};$("#shortcut-help-table input[data-shortcut]").each(function(){var id=$(this).data("shortcut");var keys=KeyboardShortcuts.normalizeSequence($(this).val());if(keys!==$(this).attr("placeholder")){keymap[id]=keys}});UserSettings.getInstance().set(KeyboardShortcuts.SETTINGS_KEY,keymap).done(function(){_this.keymap=keymap;$("#shortcut-help-modal").modal("hide")}).fail(function(xhr){$("#shortcut-help-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr))})};KeyboardShortcuts.prototype.resetKeymap=function(){var _this=this;UserSettings.getInstance().set(KeyboardShortcuts.SETTINGS_KEY,null).done(function(){_this.keymap={};_this.showHelp()}).fail(function(xhr){$("#shortcut-help-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr))})};KeyboardShortcuts.eventToStroke=function(event){var key=event.key;if(typeof key==="undefined"||["Control","Alt","Shift","Meta","AltGraph"].indexOf(key)!==-1){return null}var mods=[];if(event.ctrlKey||event.metaKey){mods.push("ctrl")}if(event.altKey){mods.push("alt")}var is_character=key.length===1&&key.toLowerCase()===key.toUpperCase()&&key!==" ";if(event.shiftKey&&!is_character){mods.push("shift")}return KeyboardShortcuts.normalizeStroke(mods.concat([key]).join("+"))};KeyboardShortcuts.normalizeSequence=function(sequence){sequence=$.trim(sequence);if(sequence===""){return""}return sequence.split(/\s+/).map(KeyboardShortcuts.normalizeStroke).join(" ")};KeyboardShortcuts.normalizeStroke=function(stroke){if(stroke==="+"||stroke.slice(-2)==="++"){return KeyboardShortcuts.normalizeStroke(stroke.slice(0,-1)+"plus")}var parts=stroke.toLowerCase().split("+");var key=parts.pop();if(key===" "){key="space"}var mods=[];for(var _i=0,_a=["ctrl","alt","shift"];_i<_a.length;_i++){var mod=_a[_i];if(parts.indexOf(mod)!==-1||mod==="ctrl"&&(parts.indexOf("cmd")!==-1||parts.indexOf("meta")!==-1)){mods.push(mod)}}return mods.concat([key]).join("+")};KeyboardShortcuts.isEditable=function(element){if(element===null||typeof element==="undefined"){return false}return $(element).is("input, textarea, select")||element.isContentEditable};KeyboardShortcuts.SETTINGS_KEY="keymap";KeyboardShortcuts.SEQUENCE_TIMEOUT=1e3;return KeyboardShortcuts}();function registerDefaultShortcuts(){var shortcuts=KeyboardShortcuts.getInstance();var router=Router.getInstance();shortcuts.register({id:"command_palette",keys:"ctrl+k",handler:function(){CommandPalette.getInstance().open()}});shortcuts.register({id:"help",keys:"?",handler:function(){shortcuts.showHelp()}});shortcuts.register({id:"focus_search",keys:"/",handler:function(){$("#searchbar").collapse("show");$("#searchbar input[name=keyword]").focus().select()}});shortcuts.register({id:"new_part",keys:"n",handler:function(){var route=router.matchRoute(location.href);var cid=location.search.match(/[?&]cid=(\d+)/);var in_category=route!==null&&route.name==="category_parts"&&cid!==null;router.navigateTo("edit_part_info","category_id="+(in_category?cid[1]:"0"))}});var goto={"g h":"startup","g a":"all_parts","g c":"edit_categories","g l":"edit_storelocations","g f":"edit_footprints","g m":"edit_manufacturers","g s":"edit_suppliers","g d":"edit_devices"};var _loop_1=function(keys){var route=goto[keys];shortcuts.register({id:"goto_"+route,keys:keys,handler:function(){router.navigateTo(route)}})};for(var keys in goto){_loop_1(keys)}}
\ No newline at end of file
@@ -0,0 +1,375 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      StatisticsDashboard Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * The dashboard on the statistics page. Every widget shows a chart, whose data is loaded via the API.
+ * The chart type can be switched (bar, pie or line), clicking on an element of the chart opens the parts of the
+ * element (e.g. the parts of a category). The widgets can be moved via drag and drop, hidden and widened, the
+ * arrangement is saved in the settings of the user.
+ */
+var StatisticsDashboard = /** @class */ (function () {
+    function StatisticsDashboard() {
+        /** The charts of the widgets, which are shown at the moment. */
+        this.charts = {};
+        /** The widget, which is dragged at the moment. */
+        this.dragged = null;
+    }
+    /**
+     * Gets a instance of StatisticsDashboard. If no instance exits, then a new one is created.
+     * @returns {StatisticsDashboard} A instance of StatisticsDashboard.
+     */
+    StatisticsDashboard.getInstance = function () {
+        if (StatisticsDashboard.singleton == null || StatisticsDashboard.singleton == undefined) {
+            StatisticsDashboard.singleton = new StatisticsDashboard();
+        }
+        return StatisticsDashboard.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Registers the handlers of the widgets. The events are delegated, so they work for the pages loaded via ajax.
+     * Called by AjaxUI.start()
+     */
+    StatisticsDashboard.prototype.start = function () {
+        var _this = this;
+        $(document).on("click", ".dashboard-widget .dashboard-chart-type", function () {
+            var button = $(this);
+            var widget = button.closest(".dashboard-widget");
+            _this.changeLayout(function (layout) {
+                layout.types[widget.data("widget")] = button.data("type");
+            });
+            _this.load(widget);
+        });
+        $(document).on("change", ".dashboard-widget .dashboard-history-days", function () {
+            var select = $(this);
+            var widget = select.closest(".dashboard-widget");
+            _this.changeLayout(function (layout) {
+                layout.days[widget.data("widget")] = Number(select.val());
+            });
+            _this.load(widget);
+        });
+        $(document).on("click", ".dashboard-widget .dashboard-widget-wide", function () {
+            var name = $(this).closest(".dashboard-widget").data("widget");
+            _this.changeLayout(function (layout) {
+                layout.wide = StatisticsDashboard.toggle(layout.wide, name);
+            });
+            _this.applyLayout();
+        });
+        $(document).on("click", ".dashboard-widget .dashboard-widget-hide", function () {
+            var name = $(this).closest(".dashboard-widget").data("widget");
+            _this.changeLayout(function (layout) {
+                layout.hidden = StatisticsDashboard.toggle(layout.hidden, name);
+            });
+            _this.applyLayout();
+        });
+        $(document).on("change", "#dashboard-show-widget", function () {
+            var name = $(this).val();
+            if (name !== "") {
+                _this.changeLayout(function (layout) {
+                    layout.hidden = StatisticsDashboard.toggle(layout.hidden, name);
+                });
+                _this.applyLayout();
+            }
+        });
+        $(document).on("click", "#dashboard-reset", function () {
+            _this.saveLayout(null);
+            _this.applyLayout();
+        });
+        //Move the widgets via drag and drop
+        $(document).on("dragstart", ".dashboard-widget-heading", function (event) {
+            _this.dragged = $(this).closest(".dashboard-widget");
+            //Firefox only starts dragging, if data is set
+            event.originalEvent.dataTransfer.setData("text/plain", _this.dragged.data("widget"));
+            _this.dragged.css("opacity", 0.5);
+        });
+        $(document).on("dragover", ".dashboard-widget", function (event) {
+            if (_this.dragged !== null && !$(this).is(_this.dragged)) {
+                event.preventDefault();
+            }
+        });
+        $(document).on("drop", ".dashboard-widget", function (event) {
+            var target = $(this);
+            if (_this.dragged === null || target.is(_this.dragged)) {
+                return;
+            }
+            event.preventDefault();
+            //Dropping a widget on a widget after it moves it behind the widget, otherwise before it
+            if (_this.dragged.index() < target.index()) {
+                target.after(_this.dragged);
+            }
+            else {
+                target.before(_this.dragged);
+            }
+            _this.changeLayout(function (layout) {
+                layout.order = $("#statistics-dashboard .dashboard-widget").map(function () {
+                    return $(this).data("widget");
+                }).get();
+            });
+        });
+        $(document).on("dragend", ".dashboard-widget-heading", function () {
+            if (_this.dragged !== null) {
+                _this.dragged.css("opacity", "");
+                _this.dragged = null;
+            }
+        });
+    };
+    /**
+     * Saves the snapshot of today, arranges the widgets like the user has saved it and draws the charts, if the
+     * dashboard is on the page. Called when a page is loaded.
+     */
+    StatisticsDashboard.init = function () {
+        if ($("#statistics-dashboard").length === 0) {
+            return;
+        }
+        var instance = StatisticsDashboard.getInstance();
+        instance.destroyCharts();
+        //A failed snapshot only means, that today is missing in the history, so it is not shown as error.
+        var snapshot = PartDbApiClient.getInstance().saveStatisticsSnapshot();
+        UserSettings.getInstance().load().always(function () {
+            snapshot.always(function () {
+                instance.applyLayout();
+            });
+        });
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    /**
+     * Returns the arrangement of the dashboard, which the user has saved.
+     */
+    StatisticsDashboard.prototype.getLayout = function () {
+        return $.extend({ order: [], hidden: [], wide: [], types: {}, days: {} }, UserSettings.getInstance().get(StatisticsDashboard.SETTINGS_KEY, {}));
+    };
+    /**
+     * Changes the arrangement of the dashboard and saves it.
+     * @param {(layout : StatisticsDashboardLayout) => void} change A function, which changes the given layout.
+     */
+    StatisticsDashboard.prototype.changeLayout = function (change) {
+        var layout = this.getLayout();
+        change(layout);
+        this.saveLayout(layout);
+    };
+    /**
+     * Saves the arrangement for the current user. Null resets the arrangement.
+     */
+    StatisticsDashboard.prototype.saveLayout = function (layout) {
+        UserSettings.getInstance().set(StatisticsDashboard.SETTINGS_KEY, layout).fail(function (xhr) {
+            //The anonymous user can not save the arrangement, but the dashboard can be arranged anyway.
+            if (xhr.status !== 401) {
+                $("#dashboard-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            }
+        });
+    };
+    /**
+     * Arranges the widgets like the saved layout and draws the charts of the visible widgets, which are not drawn yet.
+     */
+    StatisticsDashboard.prototype.applyLayout = function () {
+        var _this = this;
+        var layout = this.getLayout();
+        var dashboard = $("#statistics-dashboard");
+        var show_select = $("#dashboard-show-widget");
+        show_select.find("option:not(:first)").remove();
+        //Widgets, which are not in the saved order (e.g. new ones), keep their position of the template
+        for (var _i = 0, _a = layout.order.slice().reverse(); _i < _a.length; _i++) {
+            var name_1 = _a[_i];
+            dashboard.prepend(dashboard.children(".dashboard-widget[data-widget=" + name_1 + "]"));
+        }
+        dashboard.children(".dashboard-widget").each(function () {
+            var widget = $(this);
+            var name = widget.data("widget");
+            var hidden = layout.hidden.indexOf(name) !== -1;
+            var wide = layout.wide.indexOf(name) !== -1;
+            widget.prop("hidden", hidden).toggleClass("col-md-12", wide).toggleClass("col-md-6", !wide);
+            if (hidden) {
+                show_select.append($("<option>").val(name).text(widget.find(".dashboard-widget-title").text()));
+            }
+            if (layout.days.hasOwnProperty(name)) {
+                widget.find(".dashboard-history-days").val(layout.days[name]);
+            }
+            if (hidden) {
+                _this.destroyChart(name);
+            }
+            else if (!_this.charts.hasOwnProperty(name)) {
+                _this.load(widget);
+            }
+            else {
+                _this.charts[name].resize();
+            }
+        });
+        show_select.val("");
+    };
+    /**
+     * Loads the data of the widget and draws its chart.
+     */
+    StatisticsDashboard.prototype.load = function (widget) {
+        var _this = this;
+        var name = widget.data("widget");
+        var layout = this.getLayout();
+        var buttons = widget.find(".dashboard-chart-type");
+        if (buttons.length === 0) {
+            return;
+        }
+        //The first button is the default type
+        var type = layout.types[name] || buttons.first().data("type");
+        buttons.each(function () {
+            $(this).toggleClass("active", $(this).data("type") === type);
+        });
+        var api = PartDbApiClient.getInstance();
+        var request;
+        if (widget.is("[data-history]")) {
+            request = api.getStatisticsHistory(Number(widget.find(".dashboard-history-days").val()))
+                .done(function (snapshots) {
+                _this.drawHistory(widget, type, snapshots);
+            });
+        }
+        else {
+            request = api.getMostUsedStatistics(widget.data("source"))
+                .done(function (entries) {
+                _this.drawMostUsed(widget, type, entries);
+            });
+        }
+        request.fail(function (xhr) {
+            $("#dashboard-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+        });
+    };
+    /**
+     * Draws the chart of the most used elements. Clicking on an element opens its parts.
+     */
+    StatisticsDashboard.prototype.drawMostUsed = function (widget, type, entries) {
+        var drill_down = StatisticsDashboard.DRILL_DOWN[widget.data("source")];
+        var data = {
+            labels: entries.map(function (entry) { return entry.name; }),
+            datasets: [{
+                    label: widget.data("label"),
+                    data: entries.map(function (entry) { return entry.count; }),
+                    backgroundColor: type === "pie" ? StatisticsDashboard.getPieColors(entries.length)
+                        : StatisticsDashboard.COLORS[widget.data("color")]
+                }]
+        };
+        this.draw(widget, type, data, function (index) {
+            Router.getInstance().navigateTo(drill_down.route, drill_down.param + "=" + entries[index].id);
+        });
+    };
+    /**
+     * Draws the history of the part count or the stock value.
+     */
+    StatisticsDashboard.prototype.drawHistory = function (widget, type, snapshots) {
+        var field = widget.data("history");
+        var data = {
+            labels: snapshots.map(function (snapshot) {
+                var date = snapshot.date.split("-");
+                return new Date(Number(date[0]), Number(date[1]) - 1, Number(date[2])).toLocaleDateString();
+            }),
+            datasets: [{
+                    label: widget.data("label"),
+                    data: snapshots.map(function (snapshot) { return snapshot[field]; }),
+                    backgroundColor: StatisticsDashboard.COLORS[widget.data("color")]
+                }]
+        };
+        var format = function (value) {
+            var input = LocalizedNumberInput.getInstance();
+            return field === "value" ? input.formatPrice(value) : input.formatNumber(value);
+        };
+        this.draw(widget, type, data, null, format);
+    };
+    /**
+     * Draws the chart of a widget. An existing chart is replaced.
+     * @param {JQuery} widget The widget.
+     * @param {string} type The type of the chart ("bar", "pie" or "line")
+     * @param {object} data The data of the chart.
+     * @param {(index : number) => void} onClick Called with the index of the element, which was clicked.
+     * @param {(value : number) => string} format Formats the values of the axis and the tooltips.
+     */
+    StatisticsDashboard.prototype.draw = function (widget, type, data, onClick, format) {
+        if (onClick === void 0) { onClick = null; }
+        if (format === void 0) { format = null; }
+        var _this = this;
+        var name = widget.data("widget");
+        //Chart.js is loaded asynchronously
+        if (typeof Chart === "undefined") {
+            $(window).one("load", function () {
+                _this.draw(widget, type, data, onClick, format);
+            });
+            return;
+        }
+        var options = {
+            onClick: function (event, elements) {
+                if (onClick !== null && elements.length > 0) {
+                    onClick(elements[0]._index);
+                }
+            },
+            onHover: function (event, elements) {
+                event.target.style.cursor = onClick !== null && elements.length > 0 ? "pointer" : "";
+            }
+        };
+        if (type === "pie") {
+            options.legend = { position: "right" };
+        }
+        else {
+            options.scales = { yAxes: [{ ticks: { beginAtZero: true } }] };
+            if (format !== null) {
+                options.scales.yAxes[0].ticks.callback = format;
+                options.tooltips = { callbacks: { label: function (item) { return format(Number(item.yLabel)); } } };
+            }
+        }
+        this.destroyChart(name);
+        var canvas = widget.find("canvas.dashboard-chart").get(0);
+        this.charts[name] = new Chart(canvas.getContext("2d"), { type: type, data: data, options: options });
+    };
+    StatisticsDashboard.prototype.destroyChart = function (name) {
+        if (this.charts.hasOwnProperty(name)) {
+            this.charts[name].destroy();
+            delete this.charts[name];
+        }
+    };
+    /**
+     * Destroys all charts, e.g. when the page was reloaded.
+     */
+    StatisticsDashboard.prototype.destroyCharts = function () {
+        for (var _i = 0, _a = Object.keys(this.charts); _i < _a.length; _i++) {
+            var name_2 = _a[_i];
+            this.destroyChart(name_2);
+        }
+    };
+    /**
+     * Returns different colors for the segments of a pie chart.
+     */
+    StatisticsDashboard.getPieColors = function (count) {
+        var colors = [];
+        for (var i = 0; i < count; i++) {
+            colors.push("hsla(" + Math.round(i * 360 / Math.max(count, 1)) + ", 60%, 55%, 0.6)");
+        }
+        return colors;
+    };
+    /**
+     * Adds the value to the list, or removes it, if it is already in the list.
+     */
+    StatisticsDashboard.toggle = function (list, value) {
+        var index = list.indexOf(value);
+        if (index === -1) {
+            return list.concat([value]);
+        }
+        return list.filter(function (item) { return item !== value; });
+    };
+    StatisticsDashboard.SETTINGS_KEY = "statistics_dashboard";
+    /** The colors of the datasets, like in StatisticsHelpers */
+    StatisticsDashboard.COLORS = {
+        blue: "rgba(66, 139, 202, 0.4)",
+        red: "rgba(217,83,79, 0.4)",
+        light_blue: "rgba(91,192,222, 0.4)",
+        green: "rgba(92,184,92, 0.4)",
+        orange: "rgba(240, 173, 78, 0.4)"
+    };
+    /** The route and the parameter, which show the parts of an element of the given type. */
+    StatisticsDashboard.DRILL_DOWN = {
+        categories: { route: "category_parts", param: "cid" },
+        locations: { route: "location_parts", param: "lid" },
+        footprints: { route: "footprint_parts", param: "fid" },
+        manufacturers: { route: "manufacturer_parts", param: "mid" },
+        instock: { route: "part_info", param: "pid" }
+    };
+    return StatisticsDashboard;
+}());
@@ -0,0 +1 @@
+var StatisticsDashboard=function(){function StatisticsDashboard(){this.charts={};this.dragged=null}StatisticsDashboard.getInstance=function(){if(StatisticsDashboard.singleton==null||StatisticsDashboard.singleton==undefined){StatisticsDashboard.singleton=new StatisticsDashboard}return StatisticsDashboard.singleton};StatisticsDashboard.prototype.start=function(){var _this=this;$(document).on("click",".dashboard-widget .dashboard-chart-type",function(){var button=$(this);var widget=button.closest(".dashboard-widget");_this.changeLayout(function(layout){layout.types[widget.data("widget")]=button.data("type")});_this.load(widget)});$(document).on("change",".dashboard-widget .dashboard-history-days",function(){var select=$(this);var widget=select.closest(".dashboard-widget");_this.changeLayout(function(layout){layout.days[widget.data("widget")]=Number(select.val())});_this.load(widget)});$(document).on("click",".dashboard-widget .dashboard-widget-wide",function(){var name=$(this).closest(".dashboard-widget").data("widget");_this.changeLayout(function(layout){layout.wide=StatisticsDashboard.toggle(layout.wide,name)});_this.applyLayout()});$(document).on("click",".dashboard-widget .dashboard-widget-hide",function(){var name=$(this).closest(".dashboard-widget").data("widget");_this.changeLayout(function(layout){layout.hidden=StatisticsDashboard.toggle(layout.hidden,name)});_this.applyLayout()});$(document).on("change","#dashboard-show-widget",function(){var name=$(this).val();if(name!==""){_this.changeLayout(function(layout){layout.hidden=StatisticsDashboard.toggle(layout.hidden,name)});_this.applyLayout()}});$(document).on("click","#dashboard-reset",function(){_this.saveLayout(null);_this.applyLayout()});$(document).on("dragstart",".dashboard-widget-heading",function(event){_this.dragged=$(this).closest(".dashboard-widget");event.originalEvent.dataTransfer.setData("text/plain",_this.dragged.data("widget"));_this.dragged.css("opacity",.5)});$(document).on("dragover",".dashboard-widget",function(event){if(_this.dragged!==null&&!$(this).is(_this.dragged)){event.preventDefault()}});$(document).on("drop",".dashboard-widget",function(event){var target=$(this);if(_this.dragged===null||target.is(_this.dragged)){return}event.preventDefault();if(_this.dragged.index()<target.index()){target.after(_this.dragged)}else{target.before(_this.dragged)}_this.changeLayout(function(layout){layout.order=$("#statistics-dashboard .dashboard-widget").map(function(){return $(this).data("widget")}).get()})});$(document).on("dragend",".dashboard-widget-heading",function(){if(_this.dragged!==null){_this.dragged.css("opacity","");_this.dragged=null}})};StatisticsDashboard.init=function(){if($("#statistics-dashboard").length===0){return}var instance=StatisticsDashboard.getInstance();instance.destroyCharts();var snapshot=PartDbApiClient.getInstance().saveStatisticsSnapshot();UserSettings.getInstance().load().always(function(){snapshot.always(function(){instance.applyLayout()})})};StatisticsDashboard.prototype.getLayout=function(){return $.extend({order:[],hidden:[],wide:[],types:{},days:{}},UserSettings.getInstance().get(StatisticsDashboard.SETTINGS_KEY,{}))};StatisticsDashboard.prototype.changeLayout=function(change){var layout=this.getLayout();change(layout);this.saveLayout(layout)};StatisticsDashboard.prototype.saveLayout=function(layout){UserSettings.getInstance().set(StatisticsDashboard.SETTINGS_KEY,layout).fail(function(xhr){if(xhr.status!==401){$("#dashboard-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr))}})};StatisticsDashboard.prototype.applyLayout=function(){var _this=this;var layout=this.getLayout();var dashboard=$("#statistics-dashboard");var show_select=$("#dashboard-show-widget");show_select.find("option:not(:first)").remove();for(var _i=0,_a=layout.order.slice().reverse();_i<_a.length;_i++){var name_1=_a[_i];dashboard.prepend(dashboard.children(".dashboard-widget[data-widget="+name_1+"]"))}dashboard.children(".dashboard-widget").each(function(){var widget=$(this);var name=widget.data("widget");var hidden=layout.hidden.indexOf(name)!==-1;var wide=layout.wide.indexOf(name)!==-1;widget.prop("hidden",hidden).toggleClass("col-md-12",wide).toggleClass("col-md-6",!wide);if(hidden){show_select.append($("<option>").val(name).text(widget.find(".dashboard-widget-title").text()))}if(layout.days.hasOwnProperty(name)){widget.find(".dashboard-history-days").val(layout.days[name])}if(hidden){_this.destroyChart(name)}else if(!_this.charts.hasOwnProperty(name)){_this.load(widget)}else{_this.charts[name].resize()}});show_select.val("")};StatisticsDashboard.prototype.load=function(widget){var _this=this;var name=widget.data("widget");var layout=this.getLayout();var buttons=widget.find(".dashboard-chart-type");if(buttons.length===0){return}var type=layout.types[name]||buttons.first().data("type");buttons.each(function(){$(this).toggleClass("active",$(this).data("type")===type)});var api=PartDbApiClient.getInstance();var request;if(widget.is("[data-history]")){request=api.getStatisticsHistory(Number(widget.find(".dashboard-history-days").val())).done(function(snapshots){_this.drawHistory(widget,type,snapshots)})}else{request=api.getMostUsedStatistics(widget.data("source")).done(function(entries){_this.drawMostUsed(widget,type,entries)})}request.fail(function(xhr){$("#dashboard-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr))})};StatisticsDashboard.prototype.drawMostUsed=function(widget,type,entries){var drill_down=StatisticsDashboard.DRILL_DOWN[widget.data("source")];var data={labels:entries.map(function(entry){return entry.name}),datasets:[{label:widget.data("label"),data:entries.map(function(entry){return entry.count}),backgroundColor:type==="pie"?StatisticsDashboard.getPieColors(entries.length):StatisticsDashboard.COLORS[widget.data("color")]}]};this.draw(widget,type,data,function(index){Router.getInstance().navigateTo(drill_down.route,drill_down.param+"="+entries[index].id)})};StatisticsDashboard.prototype.drawHistory=function(widget,type,snapshots){var field=widget.data("history");var data={labels:snapshots.map(function(snapshot){var date=snapshot.date.split("-");return new Date(Number(date[0]),Number(date[1])-1,Number(date[2])).toLocaleDateString()}),datasets:[{label:widget.data("label"),data:snapshots.map(function(snapshot){return snapshot[field]}),backgroundColor:StatisticsDashboard.COLORS[widget.data("color")]}]};var format=function(value){var input=LocalizedNumberInput.getInstance();return field==="value"?input.formatPrice(value):input.formatNumber(value)};this.draw(widget,type,data,null,format)};StatisticsDashboard.prototype.draw=function(widget,type,data,onClick,format){if(onClick===void 0){onClick=null}if(format===void 0){format=null}var _this=this;var name=widget.data("widget");if(typeof Chart==="undefined"){$(window).one("load",function(){_this.draw(widget,type,data,onClick,format)});return}var options={onClick:function(event,elements){if(onClick!==null&&elements.length>0){onClick(elements[0]._index)}},onHover:function(event,elements){event.target.style.cursor=onClick!==null&&elements.length>0?"pointer":""}};if(type==="pie"){options.legend={position:"right"}}else{options.scales={yAxes:[{ticks:{beginAtZero:true}}]};if(format!==null){options.scales.yAxes[0].ticks.callback=format;options.tooltips={callbacks:{label:function(item){return format(Number(item.yLabel))}}}}}this.destroyChart(name);var canvas=widget.find("canvas.dashboard-chart").get(0);this.charts[name]=new Chart(canvas.getContext("2d"),{type:type,data:data,options:options})};StatisticsDashboard.prototype.destroyChart=function(name){if(this.charts.hasOwnProperty(name)){this.charts[name].destroy();delete this.charts[name]}};StatisticsDashboard.prototype.destroyCharts=function(){for(var _i=0,_a=Object.keys(this.charts);_i<_a.length;_i++){var name_2=_a[_i];this.destroyChart(name_2)}};StatisticsDashboard.getPieColors=function(count){var colors=[];for(var i=0;i<count;i++){colors.push("hsla("+Math.round(i*360/Math.max(count,1))+", 60%, 55%, 0.6)")}return colors};StatisticsDashboard.toggle=function(list,value){var index=list.indexOf(value);if(index===-1){return list.concat([value])}return list.filter(function(item){return item!==value})};StatisticsDashboard.SETTINGS_KEY="statistics_dashboard";StatisticsDashboard.COLORS={blue:"rgba(66, 139, 202, 0.4)",red:"rgba(217,83,79, 0.4)",light_blue:"rgba(91,192,222, 0.4)",green:"rgba(92,184,92, 0.4)",orange:"rgba(240, 173, 78, 0.4)"};StatisticsDashboard.DRILL_DOWN={categories:{route:"category_parts",param:"cid"},locations:{route:"location_parts",param:"lid"},footprints:{route:"footprint_parts",param:"fid"},manufacturers:{route:"manufacturer_parts",param:"mid"},instock:{route:"part_info",param:"pid"}};return StatisticsDashboard}();
\ No newline at end of file
@@ -0,0 +1,209 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      SymbolInput Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * Inserts special characters (like Ω or µ) into text fields, when Alt + the key of the symbol is pressed.
+ * Additionally all symbols can be chosen from a small picker (see the "symbol_picker" shortcut).
+ * The user can add own symbols or override the keys in the user settings.
+ */
+var SymbolInput = /** @class */ (function () {
+    function SymbolInput() {
+        /** The field, into which the picker inserts the symbols. */
+        this.target = null;
+    }
+    /**
+     * Gets a instance of SymbolInput. If no instance exits, then a new one is created.
+     * @returns {SymbolInput} A instance of SymbolInput.
+     */
+    SymbolInput.getInstance = function () {
+        if (SymbolInput.singleton == null || SymbolInput.singleton == undefined) {
+            SymbolInput.singleton = new SymbolInput();
+        }
+        return SymbolInput.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Registers the handlers. The events are delegated, so this works for the fields loaded via ajax, too.
+     * Called by AjaxUI.start()
+     */
+    SymbolInput.prototype.start = function () {
+        var _this = this;
+        UserSettings.getInstance().load();
+        $(document).on("keydown.symbol-input", SymbolInput.FIELDS, function (event) {
+            _this.onKeyDown(event.originalEvent, this);
+        });
+        //Close the picker, when the user clicks somewhere else.
+        $(document).on("mousedown.symbol-input", function (event) {
+            if ($(event.target).closest("#symbol-picker").length == 0) {
+                _this.closePicker();
+            }
+        });
+        KeyboardShortcuts.getInstance().register({ id: "symbol_picker", keys: "alt+s", handler: function () {
+                var field = $(document.activeElement);
+                if (field.is(SymbolInput.FIELDS)) {
+                    _this.openPicker(field.get(0));
+                }
+            } });
+    };
+    /**
+     * Returns the symbols: The default ones and the ones of the user. Symbols of the user replace the default ones
+     * with the same key.
+     */
+    SymbolInput.prototype.getMappings = function () {
+        var custom = UserSettings.getInstance().get(SymbolInput.SETTINGS_KEY, []);
+        var keys = custom.map(function (mapping) { return mapping.key; });
+        var defaults = SymbolInput.DEFAULT_MAPPINGS.filter(function (mapping) {
+            return mapping.key === "" || keys.indexOf(mapping.key) === -1;
+        });
+        return custom.concat(defaults);
+    };
+    /**
+     * Returns the symbol, which is inserted for Alt + the given key, or null if there is none.
+     */
+    SymbolInput.prototype.getSymbol = function (key) {
+        key = key.toLowerCase();
+        for (var _i = 0, _a = this.getMappings(); _i < _a.length; _i++) {
+            var mapping = _a[_i];
+            if (mapping.key !== "" && mapping.key === key) {
+                return mapping.symbol;
+            }
+        }
+        return null;
+    };
+    /**
+     * Inserts the text at the caret of the field. A selected text is replaced, and the caret is placed after the
+     * inserted text. If the browser supports it, the insertion can be undone with Ctrl+Z.
+     * @param {HTMLInputElement | HTMLTextAreaElement} field The field.
+     * @param {string} text The text, which should be inserted.
+     */
+    SymbolInput.insert = function (field, text) {
+        if (field.readOnly || field.disabled) {
+            return;
+        }
+        field.focus();
+        //execCommand inserts the text like it was typed, so it is added to the undo history of the browser.
+        if (document.queryCommandSupported("insertText") && document.execCommand("insertText", false, text)) {
+            return;
+        }
+        var start = field.selectionStart;
+        var end = field.selectionEnd;
+        field.value = field.value.substring(0, start) + text + field.value.substring(end);
+        field.setSelectionRange(start + text.length, start + text.length);
+        $(field).trigger("input");
+    };
+    /**
+     * Shows the picker with all symbols below the field.
+     * @param {HTMLInputElement | HTMLTextAreaElement} field The field, into which the symbols are inserted.
+     */
+    SymbolInput.prototype.openPicker = function (field) {
+        var _this = this;
+        var picker = $("#symbol-picker");
+        var list = picker.find(".symbol-picker-symbols").empty();
+        this.target = field;
+        var _loop_1 = function (mapping) {
+            var button = $("<button type='button' class='btn btn-default btn-sm'>")
+                .css("margin", "2px")
+                .text(mapping.symbol)
+                .attr("title", mapping.key !== "" ? "Alt+" + mapping.key : "");
+            //Dont steal the focus from the field, so the selection is kept.
+            button.on("mousedown", function (event) {
+                event.preventDefault();
+            }).click(function () {
+                SymbolInput.insert(_this.target, mapping.symbol);
+            });
+            list.append(button);
+        };
+        for (var _i = 0, _a = this.getMappings(); _i < _a.length; _i++) {
+            var mapping = _a[_i];
+            _loop_1(mapping);
+        }
+        var offset = $(field).offset();
+        picker.css({ top: offset.top + $(field).outerHeight(), left: offset.left }).prop("hidden", false);
+    };
+    SymbolInput.prototype.closePicker = function () {
+        $("#symbol-picker").prop("hidden", true);
+        this.target = null;
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    SymbolInput.prototype.onKeyDown = function (event, field) {
+        if (event.key === "Escape" && this.target !== null) {
+            this.closePicker();
+            return;
+        }
+        //Ctrl+Alt is AltGr on Windows, which is needed to type characters like @ on some layouts.
+        if (!event.altKey || event.ctrlKey || event.metaKey) {
+            return;
+        }
+        var symbol = this.getSymbol(event.key);
+        //On macOS Alt changes the key (e.g. Alt+w is ∑), so check the physical key, too.
+        if (symbol === null && /^(Key[A-Z]|Digit[0-9])$/.test(event.code)) {
+            symbol = this.getSymbol(event.code.charAt(event.code.length - 1));
+        }
+        if (symbol === null) {
+            return;
+        }
+        event.preventDefault();
+        SymbolInput.insert(field, symbol);
+    };
+    /** The key of the custom symbols in the user settings. */
+    SymbolInput.SETTINGS_KEY = "symbols";
+    /** The fields, in which symbols can be inserted. Other inputs (like number) do not support text selections. */
+    SymbolInput.FIELDS = "input[type=text], input[type=search], textarea";
+    SymbolInput.DEFAULT_MAPPINGS = [
+        //Units
+        { key: "w", symbol: "Ω" },
+        { key: "u", symbol: "µ" },
+        { key: "m", symbol: "µ" },
+        { key: "0", symbol: "°" },
+        { key: "%", symbol: "‰" },
+        { key: "", symbol: "kΩ" },
+        { key: "", symbol: "MΩ" },
+        { key: "", symbol: "mΩ" },
+        { key: "", symbol: "µF" },
+        { key: "", symbol: "µH" },
+        { key: "", symbol: "µA" },
+        { key: "", symbol: "µV" },
+        { key: "", symbol: "°C" },
+        //Greek letters
+        { key: "a", symbol: "α" },
+        { key: "b", symbol: "β" },
+        { key: "c", symbol: "γ" },
+        { key: "d", symbol: "δ" },
+        { key: "p", symbol: "φ" },
+        { key: "5", symbol: "π" },
+        { key: "", symbol: "Δ" },
+        { key: "", symbol: "η" },
+        { key: "", symbol: "θ" },
+        { key: "", symbol: "λ" },
+        { key: "", symbol: "σ" },
+        { key: "", symbol: "τ" },
+        //Math
+        { key: "+", symbol: "±" },
+        { key: "x", symbol: "×" },
+        { key: "=", symbol: "≈" },
+        { key: "3", symbol: "≤" },
+        { key: "4", symbol: "≥" },
+        { key: "i", symbol: "∞" },
+        { key: "1", symbol: "∑" },
+        { key: "2", symbol: "∫" },
+        { key: "", symbol: "√" },
+        { key: "", symbol: "²" },
+        { key: "", symbol: "³" },
+        //Currencies
+        { key: "e", symbol: "€" },
+        { key: "l", symbol: "£" },
+        { key: "y", symbol: "¥" },
+        { key: "o", symbol: "¤" },
+        //Other
+        { key: "q", symbol: "©" },
+        { key: "", symbol: "®" },
+        { key: "", symbol: "™" },
+    ];
+    return SymbolInput;
+}());
@@ -0,0 +1 @@
+var SymbolInput=function(){function SymbolInput(){this.target=null}SymbolInput.getInstance=function(){if(SymbolInput.singleton==null||SymbolInput.singleton==undefined){SymbolInput.singleton=new SymbolInput}return SymbolInput.singleton};SymbolInput.prototype.start=function(){var _this=this;UserSettings.getInstance().load();$(document).on("keydown.symbol-input",SymbolInput.FIELDS,function(event){_this.onKeyDown(event.originalEvent,this)});$(document).on("mousedown.symbol-input",function(event){if($(event.target).closest("#symbol-picker").length==0){_this.closePicker()}});KeyboardShortcuts.getInstance().register({id:"symbol_picker",keys:"alt+s",handler:function(){var field=$(document.activeElement);if(field.is(SymbolInput.FIELDS)){_this.openPicker(field.get(0))}}})};SymbolInput.prototype.getMappings=function(){var custom=UserSettings.getInstance().get(SymbolInput.SETTINGS_KEY,[]);var keys=custom.map(function(mapping){return mapping.key});var defaults=SymbolInput.DEFAULT_MAPPINGS.filter(function(mapping){return mapping.key===""||keys.indexOf(mapping.key)===-1});return custom.concat(defaults)};SymbolInput.prototype.getSymbol=function(key){key=key.toLowerCase();for(var _i=0,_a=this.getMappings();_i<_a.length;_i++){var mapping=_a[_i];if(mapping.key!==""&&mapping.key===key){return mapping.symbol}}return null};SymbolInput.insert=function(field,text){if(field.readOnly||field.disabled){return}field.focus();if(document.queryCommandSupported("insertText")&&document.execCommand("insertText",false,text)){return}var start=field.selectionStart;var end=field.selectionEnd;field.value=field.value.substring(0,start)+text+field.value.substring(end);field.setSelectionRange(start+text.length,start+text.length);$(field).trigger("input")};SymbolInput.prototype.openPicker=function(field){var _this=this;var picker=$("#symbol-picker");var list=picker.find(".symbol-picker-symbols").empty();this.target=field;var _loop_1=function(mapping){var button=$("<button type='button' class='btn btn-default btn-sm'>").css("margin","2px").text(mapping.symbol).attr("title",mapping.key!==""?"Alt+"+mapping.key:"");button.on("mousedown",function(event){event.preventDefault()}).click(function(){SymbolInput.insert(_this.target,mapping.symbol)});list.append(button)};for(var _i=0,_a=this.getMappings();_i<_a.length;_i++){var mapping=_a[_i];_loop_1(mapping)}var offset=$(field).offset();picker.css({top:offset.top+$(field).outerHeight(),left:offset.left}).prop("hidden",false)};SymbolInput.prototype.closePicker=function(){$("#symbol-picker").prop("hidden",true);this.target=null};SymbolInput.prototype.onKeyDown=function(event,field){if(event.key==="Escape"&&this.target!==null){this.closePicker();return}if(!event.altKey||event.ctrlKey||event.metaKey){return}var symbol=this.getSymbol(event.key);if(symbol===null&&/^(Key[A-Z]|Digit[0-9])$/.test(event.code)){symbol=this.getSymbol(event.code.charAt(event.code.length-1))}if(symbol===null){return}event.preventDefault();SymbolInput.insert(field,symbol)};SymbolInput.SETTINGS_KEY="symbols";SymbolInput.FIELDS="input[type=text], input[type=search], textarea";SymbolInput.DEFAULT_MAPPINGS=[{key:"w",symbol:"Ω"},{key:"u",symbol:"µ"},{key:"m",symbol:"µ"},{key:"0",symbol:"°"},{key:"%",symbol:"‰"},{key:"",symbol:"kΩ"},{key:"",symbol:"MΩ"},{key:"",symbol:"mΩ"},{key:"",symbol:"µF"},{key:"",symbol:"µH"},{key:"",symbol:"µA"},{key:"",symbol:"µV"},{key:"",symbol:"°C"},{key:"a",symbol:"α"},{key:"b",symbol:"β"},{key:"c",symbol:"γ"},{key:"d",symbol:"δ"},{key:"p",symbol:"φ"},{key:"5",symbol:"π"},{key:"",symbol:"Δ"},{key:"",symbol:"η"},{key:"",symbol:"θ"},{key:"",symbol:"λ"},{key:"",symbol:"σ"},{key:"",symbol:"τ"},{key:"+",symbol:"±"},{key:"x",symbol:"×"},{key:"=",symbol:"≈"},{key:"3",symbol:"≤"},{key:"4",symbol:"≥"},{key:"i",symbol:"∞"},{key:"1",symbol:"∑"},{key:"2",symbol:"∫"},{key:"",symbol:"√"},{key:"",symbol:"²"},{key:"",symbol:"³"},{key:"e",symbol:"€"},{key:"l",symbol:"£"},{key:"y",symbol:"¥"},{key:"o",symbol:"¤"},{key:"q",symbol:"©"},{key:"",symbol:"®"},{key:"",symbol:"™"}];return SymbolInput}();
\ No newline at end of file
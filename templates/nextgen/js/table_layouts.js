@@ -0,0 +1,456 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      TableLayouts Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * Allows the users to customize the columns of the parts tables (see makeSortTable()): The columns can be hidden,
+ * reordered and resized and the sort order is remembered. The layouts are saved in the user settings per table type
+ * (e.g. "category_parts" or "search_parts", see Part::buildTemplateTableArray()) and can be shared with other users.
+ * The order of the columns can only be changed, before DataTables is initialized, so the page is reloaded for this.
+ */
+var TableLayouts = /** @class */ (function () {
+    function TableLayouts() {
+        /** The table, which is edited in the layout dialog. */
+        this.table = null;
+        this.type = null;
+        this.shared = {};
+        /** The column in the layout dialog, which is dragged at the moment. */
+        this.dragged = null;
+    }
+    /**
+     * Gets a instance of TableLayouts. If no instance exits, then a new one is created.
+     * @returns {TableLayouts} A instance of TableLayouts.
+     */
+    TableLayouts.getInstance = function () {
+        if (TableLayouts.singleton == null || TableLayouts.singleton == undefined) {
+            TableLayouts.singleton = new TableLayouts();
+        }
+        return TableLayouts.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Registers the handlers of the layout dialog. Called by AjaxUI.start()
+     */
+    TableLayouts.prototype.start = function () {
+        var _this = this;
+        $(document).on("click", ".table-layout-button", function () {
+            var table = $(this).closest(".panel").find("table.table-sortable").first();
+            _this.showDialog(table.DataTable());
+        });
+        $("#table-layout-apply").click(function () {
+            _this.applyDialog();
+        });
+        $("#table-layout-reset").click(function () {
+            _this.save(_this.type, null).always(function () {
+                $("#table-layout-modal").modal("hide");
+                Router.getInstance().reload();
+            });
+        });
+        $("#table-layout-shared").change(function () {
+            var name = $(this).val();
+            $("#table-layout-delete").prop("disabled", name === "" || !_this.shared[name].own);
+            if (name !== "") {
+                $("#table-layout-name").val(name);
+                _this.fillColumns(_this.shared[name].layout);
+            }
+        });
+        $("#table-layout-share").click(function () {
+            _this.share();
+        });
+        $("#table-layout-delete").click(function () {
+            _this.deleteShared($(this).data("confirm"));
+        });
+        //Reorder the columns in the dialog via drag and drop
+        $("#table-layout-columns").on("dragstart", ".table-layout-column", function (event) {
+            _this.dragged = $(this);
+            //Firefox only starts dragging, if data is set
+            event.originalEvent.dataTransfer.setData("text/plain", _this.dragged.data("column"));
+            _this.dragged.css("opacity", 0.5);
+        }).on("dragover", ".table-layout-column", function (event) {
+            if (_this.dragged !== null) {
+                event.preventDefault();
+            }
+        }).on("drop", ".table-layout-column", function (event) {
+            var target = $(this);
+            if (_this.dragged === null || target.is(_this.dragged)) {
+                return;
+            }
+            event.preventDefault();
+            if (_this.dragged.index() < target.index()) {
+                target.after(_this.dragged);
+            }
+            else {
+                target.before(_this.dragged);
+            }
+        }).on("dragend", ".table-layout-column", function () {
+            if (_this.dragged !== null) {
+                _this.dragged.css("opacity", "");
+                _this.dragged = null;
+            }
+        });
+    };
+    /**
+     * Reorders the columns of the tables like in the saved layouts and returns the DataTables options for the saved
+     * sort order. Must be called before DataTables is initialized and after UserSettings.load() is resolved.
+     * @param {JQuery} tables The .table-sortable tables.
+     * @returns {object} The options, which must be merged with the DataTables options.
+     */
+    TableLayouts.prototype.prepare = function (tables) {
+        var options = {};
+        tables.each(function () {
+            var table = $(this);
+            var layout = TableLayouts.getSavedLayout(TableLayouts.getType(table));
+            if (layout === null) {
+                return;
+            }
+            var captions = TableLayouts.getCaptions(table);
+            //Columns, which were added to the config after the layout was saved, are shown at the end.
+            var order = layout.columns.filter(function (caption) {
+                return captions.indexOf(caption) !== -1;
+            }).concat(captions.filter(function (caption) {
+                return layout.columns.indexOf(caption) === -1;
+            }));
+            var indexes = order.map(function (caption) {
+                return captions.indexOf(caption);
+            });
+            table.find("tr").each(function () {
+                var row = $(this);
+                var cells = row.children("th, td");
+                //E.g. the rows of the server side tables are empty
+                if (cells.length !== captions.length) {
+                    return;
+                }
+                row.append(indexes.map(function (index) {
+                    return cells.get(index);
+                }));
+            });
+            //The columns of the server side tables are rendered from the data attribute (see PartsTable)
+            var columns = table.data("columns");
+            if (columns) {
+                table.data("columns", indexes.map(function (index) {
+                    return columns[index];
+                }));
+            }
+            //The sort order from the URL of a server side table has priority
+            if (layout.order.length > 0 && !table.data("order")) {
+                options["order"] = layout.order.filter(function (entry) {
+                    return order.indexOf(entry[0]) !== -1;
+                }).map(function (entry) {
+                    return [order.indexOf(entry[0]), entry[1]];
+                });
+            }
+            if (Object.keys(layout.widths).length > 0) {
+                //Otherwise DataTables overwrites the widths of the columns
+                options["autoWidth"] = false;
+            }
+        });
+        return options;
+    };
+    /**
+     * Hides and resizes the columns like in the saved layouts, adds the resizers to the header cells and the button
+     * for the layout dialog to the panel. Must be called after DataTables is initialized.
+     * @param tables The DataTables API of the tables.
+     */
+    TableLayouts.prototype.init = function (tables) {
+        var _this = this;
+        tables.tables().nodes().each(function (node) {
+            var type = TableLayouts.getType($(node));
+            if (type === null) {
+                return;
+            }
+            var table = $(node).DataTable();
+            var layout = TableLayouts.getSavedLayout(type);
+            if (layout !== null) {
+                TableLayouts.applyVisibility(table, layout);
+                table.columns().header().each(function (th) {
+                    var width = layout.widths[$(th).data("column")];
+                    if (width) {
+                        $(th).css({ width: width, minWidth: width });
+                    }
+                });
+            }
+            //Resize the columns by dragging the right border of the header cells
+            table.columns().header().each(function (th) {
+                var resizer = $("<span class='table-layout-resizer'>")
+                    .css({ position: "absolute", top: 0, right: 0, bottom: 0, width: 5, cursor: "col-resize" });
+                //The handlers must be bound to the resizer, otherwise the column would be sorted
+                resizer.on("click", function (event) {
+                    event.stopPropagation();
+                }).on("mousedown", function (event) {
+                    event.preventDefault();
+                    event.stopPropagation();
+                    _this.resize($(th), event.pageX);
+                });
+                $(th).css("position", "relative").append(resizer);
+            });
+            var heading = $(node).closest(".panel").find(".panel-heading");
+            heading.find(".table-layout-button").remove();
+            var button = $("<button type='button' class='btn btn-default btn-xs table-layout-button'>")
+                .attr("title", $(node).data("label-layout"))
+                .append($("<i class='fas fa-columns fa-fw' aria-hidden='true'>"));
+            var buttons = heading.find(".dt-buttons");
+            if (buttons.length > 0) {
+                buttons.prepend(button);
+            }
+            else {
+                heading.append(button.addClass("pull-right"));
+            }
+            //Remember the sort order, when the user sorts the table
+            var initial_order = JSON.stringify(TableLayouts.getLayout(table).order);
+            $(node).on("order.dt", function () {
+                var current = TableLayouts.getLayout(table);
+                var saved = TableLayouts.getSavedLayout(type);
+                if (JSON.stringify(current.order) !== (saved !== null ? JSON.stringify(saved.order) : initial_order)) {
+                    _this.save(type, current);
+                }
+            });
+        });
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    /**
+     * Returns the table type (e.g. "category_parts") or null, if the table does not support layouts.
+     */
+    TableLayouts.getType = function (table) {
+        var type = table.find("thead tr[data-table-type]").first().data("table-type");
+        return type ? type : null;
+    };
+    /**
+     * Returns the captions of the columns in the current order of the header cells.
+     */
+    TableLayouts.getCaptions = function (table) {
+        return table.find("thead tr").first().children("th").map(function () {
+            return $(this).data("column");
+        }).get();
+    };
+    /**
+     * Returns the layout, which the user has saved for the table type, or null.
+     */
+    TableLayouts.getSavedLayout = function (type) {
+        var layouts = UserSettings.getInstance().get(TableLayouts.SETTINGS_KEY, {});
+        return layouts.hasOwnProperty(type) && layouts[type] !== null ? layouts[type] : null;
+    };
+    /**
+     * Returns the current layout of a table.
+     * @param table The DataTables API of the table.
+     */
+    TableLayouts.getLayout = function (table) {
+        var saved = TableLayouts.getSavedLayout(TableLayouts.getType($(table.table().node())));
+        var columns = [];
+        var hidden = [];
+        table.columns().every(function () {
+            var caption = $(this.header()).data("column");
+            columns.push(caption);
+            if (!this.visible()) {
+                hidden.push(caption);
+            }
+        });
+        return {
+            columns: columns,
+            hidden: hidden,
+            widths: saved !== null ? saved.widths : {},
+            order: table.order().map(function (entry) {
+                return [columns[entry[0]], entry[1]];
+            })
+        };
+    };
+    /**
+     * Shows and hides the columns of the table like in the layout.
+     * @param table The DataTables API of the table.
+     * @param {TableLayout} layout
+     */
+    TableLayouts.applyVisibility = function (table, layout) {
+        table.columns().every(function () {
+            var visible = layout.hidden.indexOf($(this.header()).data("column")) === -1;
+            if (this.visible() !== visible) {
+                this.visible(visible, false);
+            }
+        });
+        table.columns.adjust();
+    };
+    /**
+     * Saves the layout of a table type in the user settings.
+     * @param {string} type The table type.
+     * @param {TableLayout} layout The layout or null, to restore the default layout.
+     */
+    TableLayouts.prototype.save = function (type, layout) {
+        var layouts = $.extend({}, UserSettings.getInstance().get(TableLayouts.SETTINGS_KEY, {}));
+        if (layout === null) {
+            delete layouts[type];
+        }
+        else {
+            layouts[type] = layout;
+        }
+        return UserSettings.getInstance().set(TableLayouts.SETTINGS_KEY, layouts).fail(function (xhr) {
+            //The anonymous user can not save settings, the layout is only used until the page is reloaded.
+            if (xhr.status !== 401) {
+                $("#table-layout-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            }
+        });
+    };
+    /**
+     * Changes the width of a column, while the mouse is moved (until the mouse button is released).
+     * @param {JQuery} th The header cell of the column.
+     * @param {number} start_x The position of the mouse, when the resizing was started.
+     */
+    TableLayouts.prototype.resize = function (th, start_x) {
+        var _this = this;
+        var table = th.closest("table").DataTable();
+        var start_width = th.outerWidth();
+        $(document).on("mousemove.table-layout", function (event) {
+            var width = Math.max(start_width + event.pageX - start_x, TableLayouts.MIN_WIDTH);
+            th.css({ width: width, minWidth: width });
+        }).on("mouseup.table-layout", function () {
+            $(document).off(".table-layout");
+            table.fixedHeader.adjust();
+            var layout = TableLayouts.getLayout(table);
+            layout.widths = $.extend({}, layout.widths);
+            layout.widths[th.data("column")] = Math.round(th.outerWidth());
+            _this.save(TableLayouts.getType(th.closest("table")), layout);
+        });
+    };
+    /**
+     * Shows the dialog to customize the columns of a table.
+     * @param table The DataTables API of the table.
+     */
+    TableLayouts.prototype.showDialog = function (table) {
+        var _this = this;
+        this.table = table;
+        this.type = TableLayouts.getType($(table.table().node()));
+        this.shared = {};
+        $("#table-layout-error").prop("hidden", true).empty();
+        $("#table-layout-name").val("");
+        this.fillColumns(TableLayouts.getLayout(table));
+        this.fillShared();
+        $("#table-layout-modal").modal("show");
+        PartDbApiClient.getInstance().getTableLayouts(this.type).done(function (layouts) {
+            _this.shared = layouts;
+            _this.fillShared();
+        }).fail(function (xhr) {
+            //The anonymous user can not see the shared layouts, but he can change the layout anyway.
+            if (xhr.status !== 401) {
+                $("#table-layout-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            }
+        });
+    };
+    /**
+     * Fills the list of the dialog with the columns of the layout.
+     */
+    TableLayouts.prototype.fillColumns = function (layout) {
+        var list = $("#table-layout-columns").empty();
+        var prototype = $(".table-layout-prototypes .table-layout-column");
+        var headers = {};
+        this.table.columns().header().each(function (th) {
+            headers[$(th).data("column")] = $.trim($(th).text());
+        });
+        //The shared layouts can contain columns, which are not in the table (or miss some)
+        var captions = layout.columns.filter(function (caption) {
+            return headers.hasOwnProperty(caption);
+        }).concat(Object.keys(headers).filter(function (caption) {
+            return layout.columns.indexOf(caption) === -1;
+        }));
+        for (var _i = 0, captions_1 = captions; _i < captions_1.length; _i++) {
+            var caption = captions_1[_i];
+            var item = prototype.clone();
+            item.data("column", caption);
+            //Some columns (e.g. the pictures) have no header
+            item.find(".table-layout-caption").text(headers[caption] !== "" ? headers[caption] : caption);
+            item.find(".table-layout-visible").prop("checked", layout.hidden.indexOf(caption) === -1);
+            list.append(item);
+        }
+        list.data("layout", layout);
+    };
+    TableLayouts.prototype.fillShared = function () {
+        var select = $("#table-layout-shared");
+        select.find("option:not(:first)").remove();
+        for (var _i = 0, _a = Object.keys(this.shared).sort(); _i < _a.length; _i++) {
+            var name_1 = _a[_i];
+            select.append($("<option>").val(name_1).text(name_1 + " (" + this.shared[name_1].user + ")"));
+        }
+        select.val("");
+        $("#table-layout-delete").prop("disabled", true);
+    };
+    /**
+     * Returns the layout, which is shown in the dialog.
+     */
+    TableLayouts.prototype.getDialogLayout = function () {
+        var base = $("#table-layout-columns").data("layout");
+        var columns = [];
+        var hidden = [];
+        $("#table-layout-columns .table-layout-column").each(function () {
+            var item = $(this);
+            columns.push(item.data("column"));
+            if (!item.find(".table-layout-visible").is(":checked")) {
+                hidden.push(item.data("column"));
+            }
+        });
+        return { columns: columns, hidden: hidden, widths: base.widths, order: base.order };
+    };
+    /**
+     * Saves the layout of the dialog and applies it to the table. The page is reloaded, if the order of the columns
+     * was changed.
+     */
+    TableLayouts.prototype.applyDialog = function () {
+        var layout = this.getDialogLayout();
+        var current = TableLayouts.getLayout(this.table);
+        var reload = JSON.stringify(layout.columns) !== JSON.stringify(current.columns)
+            || JSON.stringify(layout.order) !== JSON.stringify(current.order);
+        if (!reload) {
+            TableLayouts.applyVisibility(this.table, layout);
+        }
+        this.save(this.type, layout).done(function () {
+            $("#table-layout-modal").modal("hide");
+            if (reload) {
+                Router.getInstance().reload();
+            }
+        });
+    };
+    /**
+     * Shares the layout of the dialog with the name from the input.
+     */
+    TableLayouts.prototype.share = function () {
+        var _this = this;
+        var name = $.trim($("#table-layout-name").val());
+        if (name === "") {
+            $("#table-layout-name").focus();
+            return;
+        }
+        $("#table-layout-error").prop("hidden", true).empty();
+        var layout = this.getDialogLayout();
+        PartDbApiClient.getInstance().shareTableLayout(this.type, name, layout).done(function () {
+            PartDbApiClient.getInstance().getTableLayouts(_this.type).done(function (layouts) {
+                _this.shared = layouts;
+                _this.fillShared();
+                $("#table-layout-shared").val(name).change();
+            });
+        }).fail(function (xhr) {
+            $("#table-layout-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+        });
+    };
+    /**
+     * Deletes the shared layout selected in the select, after the user confirmed it.
+     */
+    TableLayouts.prototype.deleteShared = function (question) {
+        var _this = this;
+        var name = $("#table-layout-shared").val();
+        if (name === "" || !confirm(question)) {
+            return;
+        }
+        $("#table-layout-error").prop("hidden", true).empty();
+        PartDbApiClient.getInstance().deleteTableLayout(this.type, name).done(function () {
+            delete _this.shared[name];
+            _this.fillShared();
+        }).fail(function (xhr) {
+            $("#table-layout-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+        });
+    };
+    /** The key of the user setting, which contains the layouts of all table types. */
+    TableLayouts.SETTINGS_KEY = "table_layouts";
+    /** The minimum width of a column in px, when it is resized. */
+    TableLayouts.MIN_WIDTH = 30;
+    return TableLayouts;
+}());
@@ -0,0 +1,293 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      SidebarTree Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * A treeview in the sidebar. The children of the nodes are loaded, when a node is expanded, and the tree can
+ * be filtered via the input above it.
+ * The expanded and the selected nodes are saved in cookies (like the data source in tree_datasource_*),
+ * so they are restored on the next page load.
+ */
+var SidebarTree = /** @class */ (function () {
+    /**
+     * Creates a new SidebarTree object. Use SidebarTree.get() to get the tree for a div.
+     * @param {string} id The ID of the div, containing the tree.
+     */
+    function SidebarTree(id) {
+        this.datasource = null;
+        this.options = {};
+        /** The keyword of the active filter or "" */
+        this.filter_keyword = "";
+        this.filter_timeout = null;
+        this.id = id;
+        var _this = this;
+        $("input.tree-filter[data-target='" + id + "']").on("input", function () {
+            _this.onFilterInput($(this).val());
+        });
+    }
+    /**
+     * Gets the tree for the given div. If no instance exits, then a new one is created.
+     * @param {string} id The ID of the div containing the tree (e.g. "tree-categories")
+     * @returns {SidebarTree} The tree object.
+     */
+    SidebarTree.get = function (id) {
+        if (!SidebarTree.instances.hasOwnProperty(id)) {
+            SidebarTree.instances[id] = new SidebarTree(id);
+        }
+        return SidebarTree.instances[id];
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Returns the data source of the tree (e.g. "categories") or null, if the tree is not loaded yet.
+     */
+    SidebarTree.prototype.getDatasource = function () {
+        return this.datasource;
+    };
+    /**
+     * Loads the nodes from the given data source into the tree. Only the first levels and the children of the
+     * nodes, which were expanded before, are loaded.
+     * @param {ApiTreeDataSource} datasource The data source (e.g. "categories")
+     * @param {SidebarTreeOptions} options The options for the treeview plugin (e.g. the handlers for selected nodes).
+     */
+    SidebarTree.prototype.load = function (datasource, options) {
+        this.datasource = datasource;
+        this.options = options;
+        this.filter_keyword = "";
+        $("input.tree-filter[data-target='" + this.id + "']").val("");
+        this.reload();
+    };
+    /**
+     * Loads the tree again from the server (with the current data source and filter).
+     */
+    SidebarTree.prototype.reload = function () {
+        var _this = this;
+        var client = PartDbApiClient.getInstance();
+        var request;
+        if (this.filter_keyword !== "") {
+            this.filter(this.filter_keyword);
+            return;
+        }
+        if (this.isLazy()) {
+            request = client.getLazyTree(this.datasource, 0, SidebarTree.LAZY_DEPTH, this.getExpandedIDs());
+        }
+        else {
+            request = client.getTree(this.datasource);
+        }
+        request.done(function (nodes) {
+            _this.init(nodes);
+            _this.restoreState();
+        });
+    };
+    /**
+     * Shows only the nodes matching the keyword (and their parents). The matching nodes are highlighted.
+     * @param {string} keyword The keyword. If it is empty, the normal tree is shown again.
+     */
+    SidebarTree.prototype.filter = function (keyword) {
+        var _this = this;
+        keyword = $.trim(keyword);
+        if (keyword === "") {
+            var was_filtered = this.filter_keyword !== "";
+            this.filter_keyword = "";
+            if (was_filtered) {
+                this.reload();
+            }
+            return;
+        }
+        this.filter_keyword = keyword;
+        //The tools tree is small and has no IDs, so it is searched by the plugin.
+        if (!this.isLazy()) {
+            $("#" + this.id).treeview("search", [keyword, { ignoreCase: true, exactMatch: false, revealResults: true }]);
+            return;
+        }
+        PartDbApiClient.getInstance().searchTree(this.datasource, keyword).done(function (nodes) {
+            //Ignore outdated responses, when the user typed in the meantime.
+            if (_this.filter_keyword === keyword) {
+                _this.init(nodes);
+            }
+        });
+    };
+    /**
+     * Expands all nodes. For lazy trees, the whole tree is loaded from the server first.
+     */
+    SidebarTree.prototype.expandAll = function () {
+        var _this = this;
+        var tree = $("#" + this.id);
+        if (!this.isLazy() || this.filter_keyword !== "") {
+            tree.treeview("expandAll", { silent: true });
+            return;
+        }
+        PartDbApiClient.getInstance().getLazyTree(this.datasource, 0, SidebarTree.MAX_DEPTH).done(function (nodes) {
+            _this.init(nodes);
+            tree.treeview("expandAll", { silent: true });
+            _this.restoreSelected();
+            _this.saveExpanded();
+        });
+    };
+    /**
+     * Collapses all nodes.
+     */
+    SidebarTree.prototype.collapseAll = function () {
+        $("#" + this.id).treeview("collapseAll", { silent: true });
+        if (this.filter_keyword === "") {
+            this.saveExpanded();
+        }
+    };
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+    /**
+     * Creates the treeview plugin with the given nodes.
+     */
+    SidebarTree.prototype.init = function (nodes) {
+        var options = $.extend({}, this.options, {
+            data: nodes,
+            enableLinks: false,
+            showIcon: false,
+            showBorder: true,
+            //The expanded state is set by the server (or restored from the cookie)
+            levels: 0,
+            onNodeExpanded: this.onNodeExpanded.bind(this),
+            onNodeCollapsed: this.onNodeCollapsed.bind(this),
+            onNodeUnselected: this.onNodeUnselected.bind(this)
+        });
+        //Remember the selected node, before the handler of AjaxUI is called.
+        var selected_handler = this.options.onNodeSelected;
+        var _this = this;
+        options.onNodeSelected = function (event, node) {
+            _this.saveSelected(node);
+            if (selected_handler) {
+                selected_handler.call(this, event, node);
+            }
+        };
+        $("#" + this.id).treeview(options);
+    };
+    /**
+     * Expands the nodes saved in the cookie, which were not expanded by the server (e.g. in the tools tree)
+     * and selects the saved node.
+     */
+    SidebarTree.prototype.restoreState = function () {
+        var tree = $("#" + this.id);
+        var expanded = this.getExpandedKeys();
+        var collapsed = tree.treeview("getCollapsed");
+        for (var _i = 0, collapsed_1 = collapsed; _i < collapsed_1.length; _i++) {
+            var node = collapsed_1[_i];
+            if (node.nodes && expanded.indexOf(SidebarTree.getNodeKey(node)) !== -1) {
+                tree.treeview("expandNode", [node.nodeId, { silent: true }]);
+            }
+        }
+        this.restoreSelected();
+    };
+    /**
+     * Selects the node saved in the cookie, if it belongs to the current page.
+     */
+    SidebarTree.prototype.restoreSelected = function () {
+        var tree = $("#" + this.id);
+        var href = Cookies.get(this.getCookieName("selected"));
+        if (typeof href === "undefined" || href === "" || location.href.indexOf(href) === -1) {
+            return;
+        }
+        var nodes = tree.treeview("getUnselected");
+        for (var _i = 0, nodes_1 = nodes; _i < nodes_1.length; _i++) {
+            var node = nodes_1[_i];
+            if (node.href === href) {
+                tree.treeview("selectNode", [node.nodeId, { silent: true }]);
+                break;
+            }
+        }
+    };
+    /**
+     * Loads the children of a lazy node and saves the expanded nodes.
+     */
+    SidebarTree.prototype.onNodeExpanded = function (event, node) {
+        var tree = $("#" + this.id);
+        if (node.lazyLoad && this.isLazy()) {
+            PartDbApiClient.getInstance().getLazyTree(this.datasource, node.id, SidebarTree.LAZY_DEPTH)
+                .done(function (children) {
+                tree.treeview("addNodes", [node.nodeId, children]);
+            });
+        }
+        //Dont remember nodes, which were expanded in the filtered tree
+        if (this.filter_keyword === "") {
+            this.saveExpanded();
+        }
+    };
+    SidebarTree.prototype.onNodeCollapsed = function (event, node) {
+        if (this.filter_keyword === "") {
+            this.saveExpanded();
+        }
+    };
+    SidebarTree.prototype.onNodeUnselected = function (event, node) {
+        Cookies.remove(this.getCookieName("selected"));
+    };
+    SidebarTree.prototype.onFilterInput = function (keyword) {
+        var _this = this;
+        if (this.filter_timeout !== null) {
+            window.clearTimeout(this.filter_timeout);
+        }
+        this.filter_timeout = window.setTimeout(function () {
+            _this.filter_timeout = null;
+            _this.filter(keyword);
+        }, SidebarTree.FILTER_DELAY);
+    };
+    /**
+     * Saves the keys of all expanded nodes in a cookie.
+     */
+    SidebarTree.prototype.saveExpanded = function () {
+        var expanded = $("#" + this.id).treeview("getExpanded");
+        var keys = expanded.map(SidebarTree.getNodeKey);
+        Cookies.set(this.getCookieName("expanded"), keys.join(","));
+    };
+    SidebarTree.prototype.saveSelected = function (node) {
+        if (typeof node.href !== "undefined" && node.href !== "") {
+            Cookies.set(this.getCookieName("selected"), node.href);
+        }
+    };
+    /**
+     * Returns the keys of the nodes, which were expanded, when the tree was shown the last time.
+     */
+    SidebarTree.prototype.getExpandedKeys = function () {
+        var value = Cookies.get(this.getCookieName("expanded"));
+        if (typeof value === "undefined" || value === "") {
+            return [];
+        }
+        return value.split(",");
+    };
+    /**
+     * Returns the IDs of the elements, whose nodes were expanded (for the lazy tree API).
+     */
+    SidebarTree.prototype.getExpandedIDs = function () {
+        return this.getExpandedKeys().map(Number).filter(function (id) {
+            return !isNaN(id);
+        });
+    };
+    /**
+     * Returns the name of the cookie for the current data source.
+     * @param {string} type "expanded" or "selected"
+     */
+    SidebarTree.prototype.getCookieName = function (type) {
+        return "tree_" + type + "_" + this.id + "_" + this.datasource;
+    };
+    /**
+     * Checks if the tree of the current data source can be loaded lazy (the tools tree is always loaded complete).
+     */
+    SidebarTree.prototype.isLazy = function () {
+        return this.datasource !== "tools";
+    };
+    /**
+     * Returns a key, which identifies the node in the cookies: The ID of the element, or the text for the tools tree.
+     */
+    SidebarTree.getNodeKey = function (node) {
+        return typeof node.id !== "undefined" ? String(node.id) : node.text;
+    };
+    SidebarTree.instances = {};
+    /** How many levels of the tree are loaded initially. */
+    SidebarTree.LAZY_DEPTH = 1;
+    /** The depth, which is used to load the complete tree (when all nodes are expanded). */
+    SidebarTree.MAX_DEPTH = 100;
+    /** How long (in ms) we wait after the last keystroke in the filter input, before the tree is searched. */
+    SidebarTree.FILTER_DELAY = 300;
+    return SidebarTree;
+}());
@@ -0,0 +1 @@
+var SidebarTree=function(){function SidebarTree(id){this.datasource=null;this.options={};this.filter_keyword="";this.filter_timeout=null;this.id=id;var _this=this;$("input.tree-filter[data-target='"+id+"']").on("input",function(){_this.onFilterInput($(this).val())})}SidebarTree.get=function(id){if(!SidebarTree.instances.hasOwnProperty(id)){SidebarTree.instances[id]=new SidebarTree(id)}return SidebarTree.instances[id]};SidebarTree.prototype.getDatasource=function(){return this.datasource};SidebarTree.prototype.load=function(datasource,options){this.datasource=datasource;this.options=options;this.filter_keyword="";$("input.tree-filter[data-target='"+this.id+"']").val("");this.reload()};SidebarTree.prototype.reload=function(){var _this=this;var client=PartDbApiClient.getInstance();var request;if(this.filter_keyword!==""){this.filter(this.filter_keyword);return}if(this.isLazy()){request=client.getLazyTree(this.datasource,0,SidebarTree.LAZY_DEPTH,this.getExpandedIDs())}else{request=client.getTree(this.datasource)}request.done(function(nodes){_this.init(nodes);_this.restoreState()})};SidebarTree.prototype.filter=function(keyword){var _this=this;keyword=$.trim(keyword);if(keyword===""){var was_filtered=this.filter_keyword!=="";this.filter_keyword="";if(was_filtered){this.reload()}return}this.filter_keyword=keyword;if(!this.isLazy()){$("#"+this.id).treeview("search",[keyword,{ignoreCase:true,exactMatch:false,revealResults:true}]);return}PartDbApiClient.getInstance().searchTree(this.datasource,keyword).done(function(nodes){if(_this.filter_keyword===keyword){_this.init(nodes)}})};SidebarTree.prototype.expandAll=function(){var _this=this;var tree=$("#"+this.id);if(!this.isLazy()||this.filter_keyword!==""){tree.treeview("expandAll",{silent:true});return}PartDbApiClient.getInstance().getLazyTree(this.datasource,0,SidebarTree.MAX_DEPTH).done(function(nodes){_this.init(nodes);tree.treeview("expandAll",{silent:true});_this.restoreSelected();_this.saveExpanded()})};SidebarTree.prototype.collapseAll=function(){$("#"+this.id).treeview("collapseAll",{silent:true});if(this.filter_keyword===""){this.saveExpanded()}};SidebarTree.prototype.init=function(nodes){var options=$.extend({},this.options,{data:nodes,enableLinks:false,showIcon:false,showBorder:true,levels:0,onNodeExpanded:this.onNodeExpanded.bind(this),onNodeCollapsed:this.onNodeCollapsed.bind(this),onNodeUnselected:this.onNodeUnselected.bind(this)});var selected_handler=this.options.onNodeSelected;var _this=this;options.onNodeSelected=function(event,node){_this.saveSelected(node);if(selected_handler){selected_handler.call(this,event,node)}};$("#"+this.id).treeview(options)};SidebarTree.prototype.restoreState=function(){var tree=$("#"+this.id);var expanded=this.getExpandedKeys();var collapsed=tree.treeview("getCollapsed");for(var _i=0,collapsed_1=collapsed;_i<collapsed_1.length;_i++){var node=collapsed_1[_i];if(node.nodes&&expanded.indexOf(SidebarTree.getNodeKey(node))!==-1){tree.treeview("expandNode",[node.nodeId,{silent:true}])}}this.restoreSelected()};SidebarTree.prototype.restoreSelected=function(){var tree=$("#"+this.id);var href=Cookies.get(this.getCookieName("selected"));if(typeof href==="undefined"||href===""||location.href.indexOf(href)===-1){return}var nodes=tree.treeview("getUnselected");for(var _i=0,nodes_1=nodes;_i<nodes_1.length;_i++){var node=nodes_1[_i];if(node.href===href){tree.treeview("selectNode",[node.nodeId,{silent:true}]);break}}};SidebarTree.prototype.onNodeExpanded=function(event,node){var tree=$("#"+this.id);if(node.lazyLoad&&this.isLazy()){PartDbApiClient.getInstance().getLazyTree(this.datasource,node.id,SidebarTree.LAZY_DEPTH).done(function(children){tree.treeview("addNodes",[node.nodeId,children])})}if(this.filter_keyword===""){this.saveExpanded()}};SidebarTree.prototype.onNodeCollapsed=function(event,node){if(this.filter_keyword===""){this.saveExpanded()}};SidebarTree.prototype.onNodeUnselected=function(event,node){Cookies.remove(this.getCookieName("selected"))};SidebarTree.prototype.onFilterInput=function(keyword){var _this=this;if(this.filter_timeout!==null){window.clearTimeout(this.filter_timeout)}this.filter_timeout=window.setTimeout(function(){_this.filter_timeout=null;_this.filter(keyword)},SidebarTree.FILTER_DELAY)};SidebarTree.prototype.saveExpanded=function(){var expanded=$("#"+this.id).treeview("getExpanded");var keys=expanded.map(SidebarTree.getNodeKey);Cookies.set(this.getCookieName("expanded"),keys.join(","))};SidebarTree.prototype.saveSelected=function(node){if(typeof node.href!=="undefined"&&node.href!==""){Cookies.set(this.getCookieName("selected"),node.href)}};SidebarTree.prototype.getExpandedKeys=function(){var value=Cookies.get(this.getCookieName("expanded"));if(typeof value==="undefined"||value===""){return[]}return value.split(",")};SidebarTree.prototype.getExpandedIDs=function(){return this.getExpandedKeys().map(Number).filter(function(id){return!isNaN(id)})};SidebarTree.prototype.getCookieName=function(type){return"tree_"+type+"_"+this.id+"_"+this.datasource};SidebarTree.prototype.isLazy=function(){return this.datasource!=="tools"};SidebarTree.getNodeKey=function(node){return typeof node.id!=="undefined"?String(node.id):node.text};SidebarTree.instances={};SidebarTree.LAZY_DEPTH=1;SidebarTree.MAX_DEPTH=100;SidebarTree.FILTER_DELAY=300;return SidebarTree}();
\ No newline at end of file
@@ -0,0 +1 @@
+var TreeContextMenu=function(){function TreeContextMenu(){this.node=null;this.datasource=null;this.pending_delete=null}TreeContextMenu.getInstance=function(){if(TreeContextMenu.singleton==null||TreeContextMenu.singleton==undefined){TreeContextMenu.singleton=new TreeContextMenu}return TreeContextMenu.singleton};TreeContextMenu.prototype.start=function(){var _this=this;$(document).on("contextmenu","#sidebar .treeview li.list-group-item",function(event){var li=$(this);var tree=li.closest(".treeview");var node=tree.treeview("getNode",Number(li.attr("data-nodeid")));if(!node||!node.href){return}event.preventDefault();_this.show(node,SidebarTree.get(tree.attr("id")).getDatasource(),event.clientX,event.clientY)});$("#tree-context-menu").on("click","li[data-action] a",function(event){event.preventDefault();var action=$(this).closest("li").data("action");var node=_this.node;var datasource=_this.datasource;_this.hide();_this.execute(action,node,datasource)});$(document).on("mousedown",function(event){if($(event.target).closest("#tree-context-menu").length===0){_this.hide()}}).on("keydown",function(event){if(event.key==="Escape"){_this.hide()}});$(window).on("blur resize",function(){_this.hide()});$("#sidebar").on("scroll",function(){_this.hide()});$("#tree-delete-confirm").click(function(){_this.delete()})};TreeContextMenu.prototype.show=function(node,datasource,x,y){this.node=node;this.datasource=datasource;var menu=$("#tree-context-menu");var permissions=menu.data("permissions")||{};var config=TreeContextMenu.DATASOURCES[datasource]||null;var allowed=function(key,permission){return permissions.hasOwnProperty(key)&&permissions[key][permission]===true};var element=config!==null&&node.id>0;var visible={open:true,"open-tab":true,edit:element&&allowed(datasource,"edit"),"add-child":config!==null&&typeof node.id==="number"&&allowed(datasource,"create"),"add-part":element&&config.part_param!==null&&allowed("parts","create"),"show-parts":element&&config.subelements_param!==null,"copy-link":true,delete:element&&allowed(datasource,"delete")};var divider=null;var has_items=false;menu.children("li").each(function(){var item=$(this);if(item.hasClass("divider")){item.hide();divider=has_items?item:null}else if(visible[item.data("action")]===true){if(divider!==null){divider.show();divider=null}has_items=true;item.show()}else{item.hide()}});menu.css({left:0,top:0}).show();var left=Math.min(x,$(window).width()-menu.outerWidth());var top=Math.min(y,$(window).height()-menu.outerHeight());menu.css({left:Math.max(left,0),top:Math.max(top,0)})};TreeContextMenu.prototype.hide=function(){$("#tree-context-menu").hide();this.node=null;this.datasource=null};TreeContextMenu.prototype.execute=function(action,node,datasource){var config=TreeContextMenu.DATASOURCES[datasource];var router=Router.getInstance();switch(action){case"open":router.navigate(node.href);$("#sidebar").removeClass("in");break;case"open-tab":openInNewTab(node.href);break;case"edit":router.navigateTo(config.edit_route,"selected_id="+node.id);break;case"add-child":router.navigateTo(config.edit_route,"parent_id="+node.id);break;case"add-part":router.navigateTo("edit_part_info",config.part_param==="category_id"?"category_id="+node.id:"category_id=0&"+config.part_param+"="+node.id);break;case"show-parts":router.navigate(addURLparam(node.href,config.subelements_param+"=1"));break;case"copy-link":TreeContextMenu.copyToClipboard($("<a>").attr("href",node.href)[0].href);break;case"delete":this.confirmDelete(datasource,node);break}};TreeContextMenu.copyToClipboard=function(text){var input=$("<textarea>").val(text).css({position:"fixed",top:0,left:0,opacity:0}).appendTo("body");input.select();document.execCommand("copy");input.remove()};TreeContextMenu.prototype.confirmDelete=function(datasource,node){this.pending_delete={datasource:datasource,id:node.id};$("#tree-delete-name").text($("<div>").html(node.text).text());$("#tree-delete-error").prop("hidden",true).empty();$("#tree-delete-loading").prop("hidden",true);$("#tree-delete-confirm").prop("disabled",false);$("#tree-delete-modal").modal("show")};TreeContextMenu.prototype.delete=function(){var _this=this;if(this.pending_delete===null){return}$("#tree-delete-confirm").prop("disabled",true);$("#tree-delete-loading").prop("hidden",false);PartDbApiClient.getInstance().deleteTreeElement(this.pending_delete.datasource,this.pending_delete.id).done(function(){_this.pending_delete=null;$("#tree-delete-modal").modal("hide");AjaxUI.getInstance().updateTrees()}).fail(function(xhr){$("#tree-delete-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr));$("#tree-delete-confirm").prop("disabled",false)}).always(function(){$("#tree-delete-loading").prop("hidden",true)})};TreeContextMenu.DATASOURCES={categories:{edit_route:"edit_categories",subelements_param:"subcat",part_param:"category_id"},locations:{edit_route:"edit_storelocations",subelements_param:"subloc",part_param:"storelocation_id"},footprints:{edit_route:"edit_footprints",subelements_param:"subfoot",part_param:"footprint_id"},manufacturers:{edit_route:"edit_manufacturers",subelements_param:"subman",part_param:"manufacturer_id"},suppliers:{edit_route:"edit_suppliers",subelements_param:"subsup",part_param:null},devices:{edit_route:"edit_devices",subelements_param:null,part_param:null}};return TreeContextMenu}();
\ No newline at end of file
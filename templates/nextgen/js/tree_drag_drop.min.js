@@ -0,0 +1 @@
+var TreeDragDrop=function(){function TreeDragDrop(){this.dragged=null;this.pending=null;this.undo=null;this.undo_timeout=null}TreeDragDrop.getInstance=function(){if(TreeDragDrop.singleton==null||TreeDragDrop.singleton==undefined){TreeDragDrop.singleton=new TreeDragDrop}return TreeDragDrop.singleton};TreeDragDrop.prototype.start=function(){var _this=this;$(document).on("mousedown","#sidebar .treeview li.list-group-item",function(){var li=$(this);var node=TreeDragDrop.getNode(li);var datasource=TreeDragDrop.getDatasource(li);li.attr("draggable",String(node!==null&&node.id>0&&TreeDragDrop.MOVABLE.indexOf(datasource)!==-1))});$(document).on("mousedown",".table-sortable tbody tr",function(){var row=$(this);row.attr("draggable",String(row.find("input[type=hidden]").length>0))});$(document).on("dragstart","#sidebar .treeview li.list-group-item",function(event){var li=$(this);var node=TreeDragDrop.getNode(li);_this.dragged={datasource:TreeDragDrop.getDatasource(li),id:node.id,name:$("<div>").html(node.text).text()};event.originalEvent.dataTransfer.setData("text/plain",_this.dragged.name)});$(document).on("dragstart",".table-sortable tbody tr",function(event){var parts=$(this).hasClass("selected")?BulkEditor.getSelectedParts():[BulkEditor.getRowPart(this)];_this.dragged={parts:parts};event.originalEvent.dataTransfer.setData("text/plain",parts.map(function(part){return part.name}).join("\n"))});$(document).on("dragover","#sidebar .treeview li.list-group-item",function(event){var li=$(this);if(_this.canDrop(TreeDragDrop.getDatasource(li),TreeDragDrop.getNode(li))){event.preventDefault();li.css("outline","2px dashed #337ab7")}});$(document).on("dragleave","#sidebar .treeview li.list-group-item",function(){$(this).css("outline","")});$(document).on("drop","#sidebar .treeview li.list-group-item",function(event){var li=$(this);var datasource=TreeDragDrop.getDatasource(li);var node=TreeDragDrop.getNode(li);li.css("outline","");if(_this.canDrop(datasource,node)){event.preventDefault();_this.confirm(_this.dragged,datasource,node)}});$(document).on("dragend","#sidebar .treeview li.list-group-item, .table-sortable tbody tr",function(){_this.dragged=null});$("#tree-move-confirm").click(function(){_this.execute()});$("#tree-move-undo-button").click(function(event){event.preventDefault();if(_this.undo!==null){_this.undo();_this.undo=null}});$("#tree-move-undo-close").click(function(){_this.hideUndo()})};TreeDragDrop.getDatasource=function(li){return SidebarTree.get(li.closest(".treeview").attr("id")).getDatasource()};TreeDragDrop.getNode=function(li){var node=li.closest(".treeview").treeview("getNode",Number(li.attr("data-nodeid")));return node?node:null};TreeDragDrop.prototype.canDrop=function(datasource,node){if(this.dragged===null||node===null||typeof node.id!=="number"){return false}if(this.dragged.parts){return TreeDragDrop.PART_TARGETS.hasOwnProperty(datasource)&&node.id>0}return this.dragged.datasource===datasource&&this.dragged.id!==node.id};TreeDragDrop.prototype.confirm=function(source,datasource,target){this.pending={source:source,datasource:datasource,target:target};var modal=$("#tree-move-modal");modal.find(".tree-move-question").each(function(){var question=$(this);question.prop("hidden",question.data("kind")!==(source.parts?"parts":"node"))});modal.find(".tree-move-target").text($("<div>").html(target.text).text());$("#tree-move-source").text(source.name?source.name:"");var list=$("#tree-move-parts").empty();if(source.parts){for(var _i=0,_a=source.parts;_i<_a.length;_i++){var part=_a[_i];list.append($("<li>").text(part.name))}}$("#tree-move-error").prop("hidden",true).empty();$("#tree-move-loading").prop("hidden",true);$("#tree-move-confirm").show().prop("disabled",false);modal.modal("show")};TreeDragDrop.prototype.execute=function(){var _this=this;if(this.pending===null){return}var pending=this.pending;var api=PartDbApiClient.getInstance();$("#tree-move-confirm").prop("disabled",true);$("#tree-move-loading").prop("hidden",false);var request;if(pending.source.parts){var ids=pending.source.parts.map(function(part){return part.id});request=api.bulkEditParts("move",ids,{target:TreeDragDrop.PART_TARGETS[pending.datasource]+pending.target.id}).done(function(results){_this.onPartsMoved(results)})}else{request=api.moveTreeElement(pending.source.datasource,pending.source.id,pending.target.id).done(function(result){$("#tree-move-modal").modal("hide");AjaxUI.getInstance().updateTrees();_this.showUndo(function(){_this.undoRequest(api.moveTreeElement(pending.source.datasource,result.id,result.old_parent_id))})})}request.fail(function(xhr){$("#tree-move-error").prop("hidden",false).text(PartDbApiClient.getErrorMessage(xhr));$("#tree-move-confirm").prop("disabled",false)}).always(function(){$("#tree-move-loading").prop("hidden",true);_this.pending=request.state()==="rejected"?pending:null})};TreeDragDrop.prototype.onPartsMoved=function(results){var _this=this;var failed=results.filter(function(result){return!result.success});var moved=results.filter(function(result){return result.success});if(failed.length>0){$("#tree-move-error").prop("hidden",false).text(failed.map(function(result){return(result.name!==""?result.name:"#"+result.id)+": "+result.message}).join("\n"));$("#tree-move-confirm").hide()}else{$("#tree-move-modal").modal("hide")}if(moved.length>0){Router.getInstance().reload();this.showUndo(function(){_this.undoParts(moved)})}};TreeDragDrop.prototype.undoParts=function(moved){var groups={};for(var _i=0,moved_1=moved;_i<moved_1.length;_i++){var result=moved_1[_i];if(!groups.hasOwnProperty(result.previous)){groups[result.previous]=[]}groups[result.previous].push(result.id)}var api=PartDbApiClient.getInstance();var requests=Object.keys(groups).map(function(target){return api.bulkEditParts("move",groups[target],{target:target})});var _this=this;$.when.apply($,requests).done(function(){var failed=[];requests.forEach(function(request){request.responseJSON.forEach(function(result){if(!result.success){failed.push((result.name!==""?result.name:"#"+result.id)+": "+result.message)}})});if(failed.length>0){_this.showUndoState("error",failed.join("\n"))}else{_this.showUndoState("undone")}Router.getInstance().reload()}).fail(function(xhr){_this.showUndoState("error",PartDbApiClient.getErrorMessage(xhr))})};TreeDragDrop.prototype.undoRequest=function(request){var _this=this;request.done(function(){_this.showUndoState("undone");AjaxUI.getInstance().updateTrees()}).fail(function(xhr){_this.showUndoState("error",PartDbApiClient.getErrorMessage(xhr))})};TreeDragDrop.prototype.showUndo=function(undo){this.undo=undo;this.showUndoState("moved")};TreeDragDrop.prototype.showUndoState=function(state,message){if(message===void 0){message=""}var _this=this;var notification=$("#tree-move-undo");notification.find(".tree-move-undo-state").each(function(){var span=$(this);span.prop("hidden",span.data("state")!==state)});notification.find(".tree-move-undo-state[data-state=error]").text(message);notification.toggleClass("alert-success",state!=="error").toggleClass("alert-danger",state==="error").prop("hidden",false);if(this.undo_timeout!==null){window.clearTimeout(this.undo_timeout)}this.undo_timeout=window.setTimeout(function(){_this.hideUndo()},TreeDragDrop.UNDO_TIMEOUT)};TreeDragDrop.prototype.hideUndo=function(){if(this.undo_timeout!==null){window.clearTimeout(this.undo_timeout);this.undo_timeout=null}this.undo=null;$("#tree-move-undo").prop("hidden",true)};TreeDragDrop.MOVABLE=["categories","locations","footprints","devices"];TreeDragDrop.PART_TARGETS={categories:"c",locations:"s"};TreeDragDrop.UNDO_TIMEOUT=15e3;return TreeDragDrop}();
\ No newline at end of file
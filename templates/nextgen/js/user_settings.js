@@ -0,0 +1,74 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      UserSettings Class
+ * **************************************************************************************
+ ****************************************************************************************/
+/**
+ * The settings of the user interface (e.g. the keymap), which are saved for the current user on the server.
+ * The settings are loaded once via the API, when load() is called the first time.
+ */
+var UserSettings = /** @class */ (function () {
+    function UserSettings() {
+        this.settings = {};
+        this.request = null;
+    }
+    /**
+     * Gets a instance of UserSettings. If no instance exits, then a new one is created.
+     * @returns {UserSettings} A instance of UserSettings.
+     */
+    UserSettings.getInstance = function () {
+        if (UserSettings.singleton == null || UserSettings.singleton == undefined) {
+            UserSettings.singleton = new UserSettings();
+        }
+        return UserSettings.singleton;
+    };
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+    /**
+     * Loads the settings from the server. The request is only done once, so this can be called by every module,
+     * which needs the settings.
+     * @returns The promise is resolved, when the settings are available. If the request fails, the defaults
+     * are used, so it is always resolved.
+     */
+    UserSettings.prototype.load = function () {
+        if (this.request === null) {
+            var _this_1 = this;
+            var deferred_1 = $.Deferred();
+            this.request = deferred_1;
+            PartDbApiClient.getInstance().getUserSettings()
+                .done(function (settings) {
+                _this_1.settings = settings;
+            })
+                .always(function () {
+                deferred_1.resolve(_this_1.settings);
+            });
+        }
+        return this.request.promise();
+    };
+    /**
+     * Returns the value of a setting. Call load() before, otherwise the default is returned.
+     * @param {string} key The key of the setting.
+     * @param default_value The value, which is returned if the user has not saved the setting.
+     */
+    UserSettings.prototype.get = function (key, default_value) {
+        if (default_value === void 0) { default_value = null; }
+        if (this.settings.hasOwnProperty(key) && this.settings[key] !== null) {
+            return this.settings[key];
+        }
+        return default_value;
+    };
+    /**
+     * Saves a setting for the current user.
+     * @param {string} key The key of the setting.
+     * @param value The new value (must be serializable as JSON). Use null to remove the setting.
+     * @returns The request. It fails for the anonymous user, because he can not save settings.
+     */
+    UserSettings.prototype.set = function (key, value) {
+        var _this = this;
+        return PartDbApiClient.getInstance().setUserSetting(key, value).done(function (settings) {
+            _this.settings = settings;
+        });
+    };
+    return UserSettings;
+}());
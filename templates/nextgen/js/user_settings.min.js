@@ -0,0 +1 @@
+var UserSettings=function(){function UserSettings(){this.settings={};this.request=null}UserSettings.getInstance=function(){if(UserSettings.singleton==null||UserSettings.singleton==undefined){UserSettings.singleton=new UserSettings}return UserSettings.singleton};UserSettings.prototype.load=function(){if(this.request===null){var _this_1=this;var deferred_1=$.Deferred();this.request=deferred_1;PartDbApiClient.getInstance().getUserSettings().done(function(settings){_this_1.settings=settings}).always(function(){deferred_1.resolve(_this_1.settings)})}return this.request.promise()};UserSettings.prototype.get=function(key,default_value){if(default_value===void 0){default_value=null}if(this.settings.hasOwnProperty(key)&&this.settings[key]!==null){return this.settings[key]}return default_value};UserSettings.prototype.set=function(key,value){var _this=this;return PartDbApiClient.getInstance().setUserSetting(key,value).done(function(settings){_this.settings=settings})};return UserSettings}();
\ No newline at end of file
@@ -0,0 +1 @@
+var ValueParser=function(){function ValueParser(){}ValueParser.getInstance=function(){if(ValueParser.singleton==null||ValueParser.singleton==undefined){ValueParser.singleton=new ValueParser}return ValueParser.singleton};ValueParser.prototype.start=function(){$(document).on("change","input[data-normalize-values]",function(){ValueParser.normalizeInputs($(this))})};ValueParser.normalizeInputs=function(container){container.find("input[data-normalize-values]").addBack("input[data-normalize-values]").each(function(){var input=$(this);var normalized=ValueParser.normalize(input.val());if(normalized!==input.val()){input.val(normalized)}})};ValueParser.parse=function(text){var matches=new RegExp("^\\s*"+ValueParser.PATTERN+"\\s*$").exec(String(text));return matches!==null?ValueParser.fromMatch(matches):null};ValueParser.parseNumber=function(text){var parsed=ValueParser.parse(text);return parsed!==null?parsed.value:NaN};ValueParser.format=function(value,unit,digits){if(unit===void 0){unit=""}if(digits===void 0){digits=3}if(!isFinite(value)){return"?"}var split=ValueParser.split(value,digits);return String(split.mantissa)+" "+split.prefix+unit};ValueParser.toShortNotation=function(value,unit,tolerance){if(unit===void 0){unit=""}if(tolerance===void 0){tolerance=null}var split=ValueParser.split(value,12);var text=String(split.mantissa)+split.prefix+unit;if(tolerance!==null){text+=" ±"+tolerance+"%"}return text};ValueParser.normalize=function(text){var regex=new RegExp("(^|[^0-9A-Za-z.,])"+ValueParser.PATTERN+"(?![0-9A-Za-z])","g");return String(text).replace(regex,function(match,before){var parsed=ValueParser.fromMatch([match.substr(before.length)].concat(Array.prototype.slice.call(arguments,2,9)));if(parsed===null||!parsed.has_notation){return match}var whitespace=/\s*$/.exec(match)[0];var normalized=parsed.mantissa+parsed.prefix+parsed.unit;if(parsed.tolerance!==null){normalized+=" ±"+parsed.tolerance+"%"}return before+normalized+whitespace})};ValueParser.fromMatch=function(matches){var number;var prefix;var unit=matches[6]||"";if(matches[1]){number=matches[1].replace(",",".");prefix=matches[2]||""}else{if(!matches[3]&&!matches[5]||!matches[3]&&matches[4]!=="R"&&matches[4]!=="r"){return null}number=(matches[3]||"0")+(matches[5]?"."+matches[5]:"");prefix=matches[4]}if(/^ohms?$/i.test(unit)||(prefix==="R"||prefix==="r")&&unit===""){unit="Ω"}return{value:Number(number)*Math.pow(10,ValueParser.PREFIXES[prefix]),unit:unit,tolerance:matches[7]?Number(matches[7].replace(",",".")):null,mantissa:number.charAt(0)==="."?"0"+number:number,prefix:ValueParser.FORMAT_PREFIXES[ValueParser.PREFIXES[prefix]],has_notation:prefix!==""||unit!==""||!matches[1]}};ValueParser.split=function(value,digits){if(value===0){return{mantissa:0,prefix:""}}var exponent=Math.floor(Math.log(Math.abs(value))/Math.LN10/3)*3;exponent=Math.max(-12,Math.min(12,exponent));var mantissa=Number((value/Math.pow(10,exponent)).toPrecision(digits));if(Math.abs(mantissa)>=1e3&&exponent<12){exponent+=3;mantissa=Number((value/Math.pow(10,exponent)).toPrecision(digits))}return{mantissa:mantissa,prefix:ValueParser.FORMAT_PREFIXES[exponent]}};ValueParser.PATTERN="(?:(\\d+(?:[.,]\\d+)?|[.,]\\d+)\\s*([pnuµμmkKMGT]?)|(\\d*)([pnuµμmkKMGTRr])(\\d*))"+"\\s*(Ω|[Oo]hms?|Hz|F|H|V|A|W)?(?:\\s*(?:±|\\+\\/?-)?\\s*(\\d+(?:[.,]\\d+)?)\\s*%)?";ValueParser.PREFIXES={p:-12,n:-9,u:-6,"µ":-6,"μ":-6,m:-3,"":0,R:0,r:0,k:3,K:3,M:6,G:9,T:12};ValueParser.FORMAT_PREFIXES={"-12":"p","-9":"n","-6":"µ","-3":"m",0:"",3:"k",6:"M",9:"G",12:"T"};return ValueParser}();
\ No newline at end of file
@@ -11,6 +11,54 @@
         <i class="fa fa-globe" aria-hidden="true"></i>&nbsp;
         {t}Alle Bauteile{/t}
     </div>
+    {if isset($table_server_side) && $table_server_side}
+        <div class="panel-body parts-table-filter hidden-print">
+            <div class="form-inline">
+                <div class="form-group">
+                    <input type="text" class="form-control" data-filter="keyword" value="{$filter_keyword}"
+                           placeholder="{t}Name / Beschreibung{/t}">
+                </div>
+                <div class="form-group">
+                    <select class="form-control" data-filter="category" title="{t}Kategorie{/t}">
+                        <option value="">{t}Alle Kategorien{/t}</option>
+                        {$filter_categories_list nofilter}
+                    </select>
+                </div>
+                {if !$disable_footprints}
+                    <div class="form-group">
+                        <select class="form-control" data-filter="footprint" title="{t}Footprint{/t}">
+                            <option value="">{t}Alle Footprints{/t}</option>
+                            {$filter_footprints_list nofilter}
+                        </select>
+                    </div>
+                {/if}
+                <div class="form-group">
+                    <label>{t}Bestand:{/t}</label>
+                    <input type="number" class="form-control" style="width: 80px;" data-filter="instock_min" min="0"
+                           value="{$filter_instock_min}" placeholder="{t}Min.{/t}">
+                    -
+                    <input type="number" class="form-control" style="width: 80px;" data-filter="instock_max" min="0"
+                           value="{$filter_instock_max}" placeholder="{t}Max.{/t}">
+                </div>
+                <div class="form-group">
+                    <label>{t}Preis:{/t}</label>
+                    <input type="text" inputmode="decimal" class="form-control" style="width: 80px;" data-filter="price_min" data-localized-number
+                           value="{$filter_price_min}" placeholder="{t}Min.{/t}">
+                    -
+                    <input type="text" inputmode="decimal" class="form-control" style="width: 80px;" data-filter="price_max" data-localized-number
+                           value="{$filter_price_max}" placeholder="{t}Max.{/t}">
+                </div>
+                <button type="button" class="btn btn-default filter-builder-toggle">
+                    <i class="fa fa-filter" aria-hidden="true"></i> {t}Erweiterter Filter{/t}
+                </button>
+                <button type="button" class="btn btn-default parts-table-filter-reset">
+                    <i class="fa fa-times" aria-hidden="true"></i> {t}Filter zurücksetzen{/t}
+                </button>
+            </div>
+            {include "../smarty_filter_builder.tpl"}
+            <div class="alert alert-danger parts-table-error" style="margin: 10px 0 0 0;" hidden></div>
+        </div>
+    {/if}
     <form method="post" action="" class="no-progbar">
         <input type="hidden" name="table_rowcount" value="{$table_rowcount}">
            {include file='../smarty_table.tpl' table_selectable=true}
@@ -0,0 +1,77 @@
+{locale path="nextgen/locale" domain="partdb"}
+<div class="panel panel-default" id="build-planner" data-device-id="{$device_id}"
+     data-can-withdraw="{if $can_part_instock}true{else}false{/if}" data-label-unknown="{t}Unbekannt{/t}"
+     data-label-pieces="{t}Stk.{/t}" data-label-ordered="{t}zum Bestellen vorgemerkt{/t}">
+    <div class="panel-heading"><a data-toggle="collapse" class="link-collapse text-default" href="#panel-build-planner">
+            <i class="fa fa-list-ol fa-fw"></i> {t}Bauplaner{/t}
+        </a></div>
+    <div class="panel-body panel-collapse collapse" id="panel-build-planner">
+        <div class="form-inline">
+            <div class="form-group">
+                <label for="build-planner-quantity">{t}Anzahl der Baugruppen:{/t}</label>
+                <input type="number" min="1" step="1" class="form-control" id="build-planner-quantity"
+                       value="{if isset($order_quantity) && $order_quantity > 0}{$order_quantity}{else}1{/if}">
+            </div>
+            <button type="button" class="btn btn-primary" id="build-planner-calculate">
+                <i class="fa fa-calculator fa-fw" aria-hidden="true"></i> {t}Berechnen{/t}</button>
+        </div>
+
+        <div class="alert alert-danger" id="build-planner-error" style="white-space: pre-line; margin-top: 15px;" hidden></div>
+        <p class="text-center" id="build-planner-loading" hidden><i class="fa fa-spinner fa-spin fa-2x" aria-hidden="true"></i></p>
+
+        <div id="build-planner-result" hidden>
+            <hr>
+            <p class="build-planner-state text-success" data-state="complete">
+                <i class="fa fa-check fa-fw" aria-hidden="true"></i> {t}Alle Bauteile sind in ausreichender Menge an Lager.{/t}</p>
+            <p class="build-planner-state text-danger" data-state="missing">
+                <i class="fa fa-exclamation-triangle fa-fw" aria-hidden="true"></i>
+                {t}Von folgender Anzahl an Bauteilen sind nicht genug an Lager:{/t} <b id="build-planner-missing"></b></p>
+            <p class="build-planner-state text-success" data-state="built">
+                <i class="fa fa-check fa-fw" aria-hidden="true"></i> {t}Die Bauteile wurden vom Lager abgefasst.{/t}</p>
+
+            <div class="table-responsive">
+                <table class="table table-condensed table-striped table-hover" id="build-planner-table">
+                    <thead>
+                        <tr>
+                            <th>{t}Bauteil{/t}</th>
+                            <th>{t}Lagerort{/t}</th>
+                            <th>{t}Bestückungsdaten{/t}</th>
+                            <th class="text-right">{t}Benötigt{/t}</th>
+                            <th class="text-right">{t}Vorhanden{/t}</th>
+                            <th class="text-right">{t}Fehlen{/t}</th>
+                            <th>{t}Andere Baugruppen mit diesem Bauteil{/t}</th>
+                            <th>{t}Ersatzvorschläge{/t}</th>
+                        </tr>
+                    </thead>
+                    <tbody></tbody>
+                </table>
+            </div>
+
+            <p class="help-block">{t}Als Ersatz werden Bauteile der gleichen Kategorie mit dem gleichen Footprint vorgeschlagen, von denen genug an Lager sind.{/t}</p>
+
+            <button type="button" class="btn btn-default" id="build-planner-print">
+                <i class="fa fa-print fa-fw" aria-hidden="true"></i> {t}Pickliste drucken{/t}</button>
+            <button type="button" class="btn btn-danger" id="build-planner-build"
+                    data-confirm="{t}Sollen die Bauteile für diese Anzahl an Baugruppen wirklich vom Lager abgefasst werden?{/t}">
+                <i class="fa fa-minus fa-fw" aria-hidden="true"></i> {t}Bauteile abfassen{/t}</button>
+        </div>
+
+        {* The pick list is filled by the build planner and printed in a new window *}
+        <div class="build-planner-picklist" hidden>
+            <h3>{t}Pickliste{/t}: {$device_name} &times; <span class="build-planner-picklist-quantity"></span></h3>
+            <table>
+                <thead>
+                    <tr>
+                        <th>{t}Lagerort{/t}</th>
+                        <th>{t}Bauteil{/t}</th>
+                        <th>{t}Footprint{/t}</th>
+                        <th>{t}Bestückungsdaten{/t}</th>
+                        <th>{t}Anzahl{/t}</th>
+                        <th>{t}Entnommen{/t}</th>
+                    </tr>
+                </thead>
+                <tbody></tbody>
+            </table>
+        </div>
+    </div>
+</div>
@@ -101,6 +101,77 @@
     </div>
 </div>
 
+<div class="panel panel-default" id="order-cart" data-can-order="{if $can_part_order}true{else}false{/if}"
+     data-can-receive="{if $can_part_order && $can_part_instock}true{else}false{/if}"
+     data-label-no-supplier="{t}Ohne Lieferant{/t}" data-label-no-partnr="{t}Keine Bestellnummer vorhanden!{/t}"
+     data-label-missing-prices="{t}Nicht für alle Bauteile sind Preise vorhanden, die Summe ist unvollständig.{/t}">
+    <div class="panel-heading">
+        <i class="fa fa-shopping-cart fa-fw" aria-hidden="true"></i> {t}Bestellkorb nach Lieferanten{/t}
+        <span class="pull-right">{t}Summe:{/t} <b id="order-cart-total"></b></span>
+    </div>
+    <div class="panel-body">
+        <p class="help-block">{t}Die Bestellmengen werden auf die Verpackungseinheiten und, wenn es insgesamt günstiger ist, auf die nächste Preisstaffel aufgerundet.
+            Die Aktionen gelten für die ausgewählten Bauteile eines Lieferanten oder für alle seine Bauteile, wenn keines ausgewählt ist.{/t}</p>
+
+        <div class="alert alert-danger" id="order-cart-error" style="white-space: pre-line;" hidden></div>
+        <p class="text-center" id="order-cart-loading" hidden><i class="fa fa-spinner fa-spin fa-2x" aria-hidden="true"></i></p>
+        <p id="order-cart-empty" hidden>{t}Es gibt keine Teile, die bestellt werden müssen.{/t}</p>
+
+        <div id="order-cart-groups"></div>
+    </div>
+
+    {* The prototypes are cloned by the order cart (see order_cart.ts) *}
+    <div class="order-cart-prototypes" hidden>
+        <div class="panel panel-default order-cart-group">
+            <div class="panel-heading">
+                <b class="order-cart-supplier"></b> <span class="badge order-cart-count"></span>
+                <span class="pull-right"><b class="order-cart-group-total"></b>
+                    <i class="fa fa-exclamation-triangle text-warning order-cart-missing-prices" aria-hidden="true"></i></span>
+            </div>
+            <div class="table-responsive">
+                <table class="table table-condensed table-striped table-hover">
+                    <thead>
+                        <tr>
+                            <th><input type="checkbox" class="order-cart-select-all" title="{t}Alle an/abwählen{/t}"></th>
+                            <th>{t}Bauteil{/t}</th>
+                            <th>{t}Bestellnummer{/t}</th>
+                            <th class="text-right">{t}Benötigt{/t}</th>
+                            <th class="text-right">{t}Bestellmenge{/t}</th>
+                            <th class="text-right">{t}VPE{/t}</th>
+                            <th class="text-right">{t}Einzelpreis{/t}</th>
+                            <th class="text-right">{t}Gesamtpreis{/t}</th>
+                            <th>{t}Status{/t}</th>
+                        </tr>
+                    </thead>
+                    <tbody></tbody>
+                </table>
+            </div>
+            <div class="panel-footer form-inline">
+                <select class="form-control input-sm order-cart-format"></select>
+                <button type="button" class="btn btn-default btn-sm order-cart-export">
+                    <i class="fa fa-download fa-fw" aria-hidden="true"></i> {t}Bestelldatei herunterladen{/t}</button>
+                <button type="button" class="btn btn-primary btn-sm order-cart-status-btn" data-status="ordered">
+                    <i class="fa fa-check fa-fw" aria-hidden="true"></i> {t}Als bestellt markieren{/t}</button>
+                <button type="button" class="btn btn-default btn-sm order-cart-status-btn" data-status="open">
+                    <i class="fa fa-undo fa-fw" aria-hidden="true"></i> {t}Als offen markieren{/t}</button>
+                <button type="button" class="btn btn-success btn-sm order-cart-status-btn" data-status="received"
+                        data-confirm="{t}Sollen die Bestellmengen der Bauteile wirklich eingebucht werden?{/t}">
+                    <i class="fa fa-plus fa-fw" aria-hidden="true"></i> {t}Erhalten und einbuchen{/t}</button>
+            </div>
+        </div>
+
+        <span class="label label-default order-cart-status" data-status="open">{t}Offen{/t}</span>
+        <span class="label label-info order-cart-status" data-status="ordered">{t}Bestellt{/t}</span>
+
+        <i class="fa fa-info-circle text-info order-cart-reason" data-reason="minimum" aria-hidden="true"
+           title="{t}Auf die Mindestbestellmenge erhöht{/t}"></i>
+        <i class="fa fa-cubes text-info order-cart-reason" data-reason="packaging" aria-hidden="true"
+           title="{t}Auf die Verpackungseinheit aufgerundet{/t}"></i>
+        <i class="fa fa-tag text-success order-cart-reason" data-reason="price_break" aria-hidden="true"
+           title="{t}Auf die nächste Preisstaffel erhöht, weil es insgesamt günstiger ist{/t}"></i>
+    </div>
+</div>
+
 {if $order_devices_loop}
 {if !$selected_supplier_id}
 <div class="panel panel-default">
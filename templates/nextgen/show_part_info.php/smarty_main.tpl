@@ -1,7 +1,7 @@
 {locale path="nextgen/locale" domain="partdb"}
 
 <!--suppress Annotator -->
-<div class="panel panel-primary">
+<div class="panel panel-primary" data-recent-part-id="{$pid}" data-recent-part-name="{$name}">
     <div class="panel-heading">
         {if $is_favorite}
             <i class="fa fa-star fa-fw" aria-hidden="true"></i>
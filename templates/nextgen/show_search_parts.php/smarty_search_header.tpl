@@ -26,6 +26,7 @@
                         {if isset($search_storelocation)}       <input type='hidden' name='search_storelocation'>{/if}
                         {if isset($search_footprint)}           <input type='hidden' name='search_footprint'>{/if}
                         {if isset($search_manufacturer)}        <input type='hidden' name='search_manufacturer'>{/if}
+                        {if isset($value_search) && $value_search}<input type='hidden' name='value_search'>{/if}
 
                         <div class="form-group">
                             <label>{t}Exportieren:{/t}</label>
@@ -58,6 +59,7 @@
                         {if isset($search_storelocation)}       <input type='hidden' name='search_storelocation'>{/if}
                         {if isset($search_footprint)}           <input type='hidden' name='search_footprint'>{/if}
                         {if isset($search_manufacturer)}        <input type='hidden' name='search_manufacturer'>{/if}
+                        {if isset($value_search) && $value_search}<input type='hidden' name='value_search'>{/if}
 
                         <div class="form-group">
                             <label class="">{t}Gruppiere nach:{/t}</label>
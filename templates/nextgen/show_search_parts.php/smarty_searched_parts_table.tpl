@@ -17,6 +17,7 @@
             {if isset($search_storelocation)}       <input type='hidden' name='search_storelocation'>{/if}
             {if isset($search_footprint)}           <input type='hidden' name='search_footprint'>{/if}
             {if isset($search_manufacturer)}        <input type='hidden' name='search_manufacturer'>{/if}
+            {if isset($value_search) && $value_search}<input type='hidden' name='value_search'>{/if}
 
           
 
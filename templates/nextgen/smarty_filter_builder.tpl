@@ -0,0 +1,89 @@
+{locale path="nextgen/locale" domain="partdb"}
+
+{* The filter builder above the parts tables, see filter_builder.ts *}
+<div class="filter-builder" style="margin-top: 10px;" hidden>
+    <input type="hidden" data-filter="filter" value="{if isset($filter_filter)}{$filter_filter}{/if}">
+    <div class="filter-builder-root"></div>
+    <div class="form-inline">
+        <div class="form-group">
+            <select class="form-control filter-builder-saved" title="{t}Gespeicherte Filter{/t}">
+                <option value="">{t}Gespeicherte Filter...{/t}</option>
+            </select>
+            <button type="button" class="btn btn-default filter-builder-delete" title="{t}Gespeicherten Filter löschen{/t}">
+                <i class="fa fa-trash" aria-hidden="true"></i>
+            </button>
+        </div>
+        <div class="form-group">
+            <input type="text" class="form-control filter-builder-name" placeholder="{t}Name des Filters{/t}">
+            <button type="button" class="btn btn-default filter-builder-save">
+                <i class="fas fa-save" aria-hidden="true"></i> {t}Filter speichern{/t}
+            </button>
+        </div>
+    </div>
+    <div class="alert alert-danger filter-builder-error" style="margin: 10px 0 0 0;" hidden></div>
+
+    {* These elements are copied for the groups and conditions of the filter *}
+    <div class="filter-builder-prototypes" hidden>
+        <div class="panel panel-default filter-group" style="margin-bottom: 10px;">
+            <div class="panel-heading form-inline">
+                <select class="form-control input-sm filter-group-operator">
+                    <option value="and">{t}Alle Bedingungen müssen zutreffen (UND){/t}</option>
+                    <option value="or">{t}Eine der Bedingungen muss zutreffen (ODER){/t}</option>
+                </select>
+                <button type="button" class="btn btn-default btn-sm filter-add-condition">
+                    <i class="fa fa-plus" aria-hidden="true"></i> {t}Bedingung{/t}
+                </button>
+                <button type="button" class="btn btn-default btn-sm filter-add-group">
+                    <i class="fa fa-plus" aria-hidden="true"></i> {t}Gruppe{/t}
+                </button>
+                <button type="button" class="btn btn-link btn-sm filter-remove" title="{t}Entfernen{/t}">
+                    <i class="fa fa-times" aria-hidden="true"></i>
+                </button>
+            </div>
+            <div class="panel-body filter-conditions"></div>
+        </div>
+
+        <div class="form-inline filter-condition" style="margin-bottom: 5px;">
+            <select class="form-control input-sm filter-field">
+                <option value="text">{t}Name / Beschreibung / Kommentar{/t}</option>
+                <option value="category">{t}Kategorie{/t}</option>
+                {if !$disable_footprints}<option value="footprint">{t}Footprint{/t}</option>{/if}
+                {if !$disable_manufacturers}<option value="manufacturer">{t}Hersteller{/t}</option>{/if}
+                <option value="supplier">{t}Lieferant{/t}</option>
+                <option value="instock">{t}Bestand{/t}</option>
+                <option value="price">{t}Preis{/t}</option>
+                <option value="obsolete">{t}Obsolet{/t}</option>
+            </select>
+            <select class="form-control input-sm filter-operator">
+                <option value="<">&lt;</option>
+                <option value="<=">&le;</option>
+                <option value="=">=</option>
+                <option value=">=" selected>&ge;</option>
+                <option value=">">&gt;</option>
+            </select>
+            <input type="text" class="form-control input-sm filter-value" data-field="text" placeholder="{t}Suchbegriff{/t}">
+            <select class="form-control input-sm filter-value" data-field="category">
+                {if isset($filter_builder_categories_list)}{$filter_builder_categories_list nofilter}{/if}
+            </select>
+            <select class="form-control input-sm filter-value" data-field="footprint">
+                {if isset($filter_builder_footprints_list)}{$filter_builder_footprints_list nofilter}{/if}
+            </select>
+            <select class="form-control input-sm filter-value" data-field="manufacturer">
+                {if isset($filter_builder_manufacturers_list)}{$filter_builder_manufacturers_list nofilter}{/if}
+            </select>
+            <select class="form-control input-sm filter-value" data-field="supplier">
+                {if isset($filter_builder_suppliers_list)}{$filter_builder_suppliers_list nofilter}{/if}
+            </select>
+            <input type="number" class="form-control input-sm filter-value" data-field="instock" min="0" style="width: 90px;">
+            <input type="text" inputmode="decimal" class="form-control input-sm filter-value" data-field="price"
+                   data-localized-number style="width: 90px;">
+            <select class="form-control input-sm filter-value" data-field="obsolete">
+                <option value="1">{t}Ja{/t}</option>
+                <option value="0">{t}Nein{/t}</option>
+            </select>
+            <button type="button" class="btn btn-link btn-sm filter-remove" title="{t}Entfernen{/t}">
+                <i class="fa fa-times" aria-hidden="true"></i>
+            </button>
+        </div>
+    </div>
+</div>
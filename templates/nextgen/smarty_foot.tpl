@@ -25,6 +25,9 @@
 <input type="hidden" id="autorefresh" value="{$autorefresh}">
 <input type="hidden" id="redirect_url" value="{$redirect_url}">
 <input type="hidden" id="auto_sort" value="{$auto_sort}">
+<input type="hidden" id="offline_enable" value="{$offline_enable}">
+<input type="hidden" id="offline_user_id" value="{$offline_user_id}">
+<input type="hidden" id="ajax_timeout" value="{$ajax_timeout}">
 
 
 </div> <!-- content-data -->
@@ -92,16 +95,71 @@
 
     <!-- Functions -->
     {if $debugging_activated}
+        <script src="{$relative_path}templates/nextgen/js/api_client.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/router.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/tree.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/offline.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/error_handler.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/part_info_providers.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/part_info_dialog.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/user_settings.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/shortcuts.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/command_palette.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/symbol_input.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/bulk_edit.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/parts_table.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/value_parser.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/number_input.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/filter_builder.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/barcode_scanner.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/engineering_math.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/calculator.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/label_designer.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/statistics_dashboard.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/search_suggestions.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/live_updates.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/tree_drag_drop.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/tree_context_menu.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/table_layouts.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/inline_edit.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/build_planner.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/order_cart.js"></script>
         <script src="{$relative_path}templates/nextgen/js/functions.js" async></script>
         <script src="{$relative_path}templates/nextgen/js/ajax_ui.js" async></script>
     {else} {* Use minified scripts *}
+        <script src="{$relative_path}templates/nextgen/js/api_client.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/router.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/tree.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/offline.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/error_handler.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/part_info_providers.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/part_info_dialog.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/user_settings.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/shortcuts.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/command_palette.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/symbol_input.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/bulk_edit.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/parts_table.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/value_parser.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/number_input.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/filter_builder.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/barcode_scanner.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/engineering_math.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/calculator.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/label_designer.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/statistics_dashboard.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/search_suggestions.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/live_updates.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/tree_drag_drop.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/tree_context_menu.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/table_layouts.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/inline_edit.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/build_planner.min.js"></script>
+        <script src="{$relative_path}templates/nextgen/js/order_cart.min.js"></script>
         <script src="{$relative_path}templates/nextgen/js/functions.min.js" async></script>
         <script src="{$relative_path}templates/nextgen/js/ajax_ui.min.js" async></script>
     {/if}
 
-    <!-- Calculator scripts -->
-    <script type="text/javascript" src="{$relative_path}javascript/calculator.min.js"></script>
-
     <!-- jQuery Form lib -->
     <script src="{$relative_path}js/jquery.form.min.js"></script>
 
@@ -104,7 +104,9 @@
 
 </head>
 
-<body>
+<body{if isset($number_format)} data-decimal-point="{$number_format.decimal_point}" data-thousands-sep="{$number_format.thousands_sep}"
+      data-currency-symbol="{$number_format.currency_symbol}" data-currency-digits="{$number_format.currency_digits}"
+      data-currency-precedes="{if $number_format.currency_precedes}true{else}false{/if}"{/if}>
 
     <header>
         <nav class="navbar navbar-default navbar-fixed-top fh-fixedHeader" id="main-navbar">
@@ -166,7 +168,7 @@
 
                 {if isset($can_search) && $can_search}
                     <!-- Searchbar -->
-                    <form class="navbar-form" action="{$relative_path}show_search_parts.php" method="get">
+                    <form class="navbar-form" action="{$relative_path}show_search_parts.php" method="get" style="position: relative;">
                         <div class="btn-group">
                             <button class="btn btn-default dropdown-toggle" type="button" id="dropdownMenu1" data-toggle="dropdown" aria-haspopup="true" aria-expanded="true">
                                 {t}Suchoptionen{/t}
@@ -198,12 +200,37 @@
                                     <label for="disable_pid_input">{t}Deakt. Barcode{/t}</label></li>
                                 <li class="checkbox"><input type="checkbox" name="regex" value="true">
                                     <label for="regex">{t}RegEx Matching{/t}</label></li>
+                                <li class="checkbox"><input type="checkbox" name="value_search" value="true">
+                                    <label for="value_search">{t}Werte (10k = 10000 Ohm){/t}</label></li>
                             </ul>
                         </div>
 
-                        <input type="search" class="form-control" placeholder="{t}Suche{/t}" name="keyword"
-                               {if $livesearch_active}onkeyup="livesearch(event, this, 2);"{/if}>
+                        <input type="search" class="form-control" placeholder="{t}Suche{/t}" name="keyword" id="search-keyword"
+                               {if $livesearch_active}data-suggestions="true" autocomplete="off"{/if}>
                         <button type="submit" id="search-submit" class="btn btn-default">{t}Los!{/t}</button>
+
+                        {if $livesearch_active}
+                            {* The suggestions, while the user is typing, see search_suggestions.ts *}
+                            <ul class="dropdown-menu dropdown-menu-right" id="search-suggestions" style="width: 450px; max-width: 90vw;">
+                                <li class="dropdown-header search-suggestions-empty" hidden>{t}Keine Bauteile gefunden.{/t}</li>
+                                <li class="dropdown-header search-suggestions-error" hidden></li>
+                                <li role="separator" class="divider"></li>
+                                <li><a href="#" class="search-suggestions-all"><i class="fa fa-search" aria-hidden="true"></i> {t}Alle Suchergebnisse anzeigen{/t}</a></li>
+                            </ul>
+                            <ul class="search-suggestions-prototypes" hidden>
+                                <li class="search-suggestion">
+                                    <a href="#" style="white-space: normal; overflow: hidden;">
+                                        <img class="search-suggestion-picture pull-left" alt="" style="width: 40px; height: 40px; object-fit: contain; margin-right: 10px;">
+                                        <span class="badge pull-right" title="{t}Vorhandene Bauteile{/t}"><span class="search-suggestion-instock"></span></span>
+                                        <b class="search-suggestion-name"></b><br>
+                                        <small class="text-muted">
+                                            <span class="search-suggestion-description"></span>
+                                            <span class="search-suggestion-location-container"><i class="fa fa-cube" aria-hidden="true" title="{t}Lagerort{/t}"></i> <span class="search-suggestion-location"></span></span>
+                                        </small>
+                                    </a>
+                                </li>
+                            </ul>
+                        {/if}
                     </form>
                 {/if}
             </div><!-- /.navbar-collapse -->
@@ -242,6 +269,7 @@
                                             <li><a href="#" class="tree-btns" data-mode="tools" data-target="tree-categories">{t}Verwaltung{/t}</a></li>
                                         </ul>
                                     </div>
+                                    <input type="search" class="form-control input-sm tree-filter" data-target="tree-categories" placeholder="{t}Filtern...{/t}">
                                     <div id="tree-categories"></div>
                                 </li>
                             {/if}
@@ -267,6 +295,7 @@
                                             <li><a href="#" class="tree-btns" data-mode="tools" data-target="tree-devices">{t}Verwaltung{/t}</a></li>
                                         </ul>
                                     </div>
+                                    <input type="search" class="form-control input-sm tree-filter" data-target="tree-devices" placeholder="{t}Filtern...{/t}">
                                     <div id="tree-devices"></div>
                                 </li>
                             {/if}
@@ -292,6 +321,7 @@
                                             <li><a href="#" class="tree-btns" data-mode="tools" data-target="tree-tools">{t}Verwaltung{/t}</a></li>
                                     </ul>
                                 </div>
+                                <input type="search" class="form-control input-sm tree-filter" data-target="tree-tools" placeholder="{t}Filtern...{/t}">
                                 <div id="tree-tools"></div>
                             </li>
                         </ul>
@@ -314,6 +344,315 @@
                     <h4>{t}Dies kann einen Moment dauern...{/t}</h4>
                 </div>
 
+                <div class="container-fluid hidden-print" id="offline-banner" hidden>
+                    <div class="alert alert-warning">
+                        <i class="fas fa-plug fa-fw" aria-hidden="true"></i>
+                        <span class="offline-stale" hidden>{t}Keine Verbindung zum Server! Diese Seite stammt aus dem Zwischenspeicher und ist möglicherweise veraltet. Stand:{/t}
+                            <span class="offline-date"></span></span>
+                        <span class="offline-unavailable" hidden>{t}Keine Verbindung zum Server! Diese Seite ist nicht im Zwischenspeicher vorhanden.{/t}</span>
+                        <span class="offline-queued" hidden><br>{t}Ausstehende Formulareingaben, die gesendet werden, sobald die Verbindung wiederhergestellt ist:{/t}
+                            <span class="offline-queue-count"></span></span>
+                    </div>
+                </div>
+
+                {* Cloned into #content by AjaxErrorHandler, when a page could not be loaded *}
+                <div id="ajax-error-template" hidden>
+                    <div class="panel panel-danger ajax-error">
+                        <div class="panel-heading">
+                            <h4><i class="fa fa-exclamation-triangle fa-fw" aria-hidden="true"></i>
+                                {t}Die Seite konnte nicht geladen werden!{/t} <span class="ajax-error-status"></span></h4>
+                        </div>
+                        <div class="panel-body">
+                            <p class="ajax-error-timeout" hidden>{t}Der Server hat nicht rechtzeitig geantwortet.{/t}</p>
+                            <p class="ajax-error-message text-muted"></p>
+                            <button type="button" class="btn btn-primary ajax-error-retry">
+                                <i class="fa fa-sync fa-fw" aria-hidden="true"></i> {t}Erneut versuchen{/t}</button>
+                            <button type="button" class="btn btn-default ajax-error-dismiss">{t}Schließen{/t}</button>
+                        </div>
+                    </div>
+                </div>
+
+                <div class="modal fade" id="command-palette-modal" tabindex="-1" role="dialog" aria-label="{t}Befehlspalette{/t}"
+                     data-label-pages="{t}Seite{/t}" data-label-tree="{t}Baum{/t}"
+                     data-label-recent-parts="{t}Zuletzt angesehen{/t}" data-label-actions="{t}Befehl{/t}">
+                    <div class="modal-dialog" role="document">
+                        <div class="modal-content">
+                            <div class="modal-body">
+                                <input type="search" class="form-control" id="command-palette-input" autocomplete="off"
+                                       placeholder="{t}Seiten, Kategorien, Bauteile oder Befehle suchen...{/t}">
+                                <p></p>
+                                <div class="list-group" id="command-palette-results" style="max-height: 60vh; overflow-y: auto;"></div>
+                                <p class="text-muted" id="command-palette-no-results" hidden>{t}Keine Ergebnisse gefunden.{/t}</p>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <div class="modal fade" id="shortcut-help-modal" tabindex="-1" role="dialog" aria-labelledby="shortcut-help-title">
+                    <div class="modal-dialog" role="document">
+                        <div class="modal-content">
+                            <div class="modal-header">
+                                <button type="button" class="close" data-dismiss="modal" aria-label="Close"><span aria-hidden="true">&times;</span></button>
+                                <h4 class="modal-title" id="shortcut-help-title">{t}Tastenkürzel{/t}</h4>
+                            </div>
+                            <div class="modal-body">
+                                <p class="help-block">{t}Tastenfolgen werden durch Leerzeichen getrennt (z.B. "g c"), Modifikatoren mit + verbunden (z.B. "ctrl+k"). Ein leeres Feld deaktiviert das Tastenkürzel.{/t}</p>
+                                <div class="alert alert-danger" id="shortcut-help-error" hidden></div>
+                                <table class="table table-condensed" id="shortcut-help-table">
+                                    <thead>
+                                        <tr>
+                                            <th>{t}Aktion{/t}</th>
+                                            <th>{t}Tasten{/t}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody></tbody>
+                                </table>
+                                <ul id="shortcut-labels" hidden>
+                                    <li data-shortcut="command_palette">{t}Befehlspalette öffnen{/t}</li>
+                                    <li data-shortcut="help">{t}Tastenkürzel anzeigen{/t}</li>
+                                    <li data-shortcut="focus_search">{t}Suche fokussieren{/t}</li>
+                                    <li data-shortcut="new_part">{t}Neues Bauteil anlegen{/t}</li>
+                                    <li data-shortcut="goto_startup">{t}Gehe zur Startseite{/t}</li>
+                                    <li data-shortcut="goto_all_parts">{t}Gehe zu allen Teilen{/t}</li>
+                                    <li data-shortcut="goto_edit_categories">{t}Gehe zu Kategorien{/t}</li>
+                                    <li data-shortcut="goto_edit_storelocations">{t}Gehe zu Lagerorten{/t}</li>
+                                    <li data-shortcut="goto_edit_footprints">{t}Gehe zu Footprints{/t}</li>
+                                    <li data-shortcut="goto_edit_manufacturers">{t}Gehe zu Herstellern{/t}</li>
+                                    <li data-shortcut="goto_edit_suppliers">{t}Gehe zu Lieferanten{/t}</li>
+                                    <li data-shortcut="goto_edit_devices">{t}Gehe zu Baugruppen{/t}</li>
+                                    <li data-shortcut="symbol_picker">{t}Sonderzeichen auswählen{/t}</li>
+                                </ul>
+                            </div>
+                            <div class="modal-footer">
+                                <button type="button" class="btn btn-default" id="shortcut-help-reset">{t}Standard wiederherstellen{/t}</button>
+                                <button type="button" class="btn btn-primary" id="shortcut-help-save">{t}Speichern{/t}</button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <div class="panel panel-default" id="symbol-picker" style="position: absolute; z-index: 1060; max-width: 320px;" hidden>
+                    <div class="panel-body">
+                        <div class="symbol-picker-symbols"></div>
+                    </div>
+                </div>
+
+                <div class="modal fade" id="bulk-edit-modal" tabindex="-1" role="dialog" aria-labelledby="bulk-edit-title">
+                    <div class="modal-dialog" role="document">
+                        <div class="modal-content">
+                            <div class="modal-header">
+                                <button type="button" class="close" data-dismiss="modal" aria-label="Close"><span aria-hidden="true">&times;</span></button>
+                                <h4 class="modal-title" id="bulk-edit-title">{t}Mehrere Bauteile bearbeiten{/t}</h4>
+                            </div>
+                            <div class="modal-body">
+                                <div class="alert alert-danger" id="bulk-edit-error" hidden></div>
+                                <div id="bulk-edit-confirmation">
+                                    <p>{t}Aktion:{/t} <b id="bulk-edit-action"></b></p>
+                                    <p id="bulk-edit-target-row">{t}Ziel:{/t} <b id="bulk-edit-target"></b></p>
+                                    <div class="alert alert-danger" id="bulk-edit-delete-warning" hidden>
+                                        {t}Die Bauteile werden unwiderruflich gelöscht! Alle Dateien der Bauteile bleiben weiterhin erhalten.{/t}</div>
+                                    <p>{t}Betroffene Bauteile:{/t} <span class="badge" id="bulk-edit-count"></span></p>
+                                    <ul id="bulk-edit-parts" style="max-height: 200px; overflow-y: auto;"></ul>
+                                </div>
+                                <p class="text-center" id="bulk-edit-loading" hidden><i class="fa fa-spinner fa-spin fa-2x" aria-hidden="true"></i></p>
+                                <div id="bulk-edit-report" hidden>
+                                    <p>
+                                        <span class="label label-success"><span id="bulk-edit-success-count"></span> {t}erfolgreich{/t}</span>
+                                        <span class="label label-danger"><span id="bulk-edit-failed-count"></span> {t}fehlgeschlagen{/t}</span>
+                                    </p>
+                                    <div class="table-responsive" style="max-height: 300px; overflow-y: auto;">
+                                        <table class="table table-condensed" id="bulk-edit-results">
+                                            <thead>
+                                                <tr>
+                                                    <th>{t}Bauteil{/t}</th>
+                                                    <th>{t}Ergebnis{/t}</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody></tbody>
+                                        </table>
+                                    </div>
+                                </div>
+                            </div>
+                            <div class="modal-footer">
+                                <button type="button" class="btn btn-default" data-dismiss="modal" id="bulk-edit-cancel">{t}Abbrechen{/t}</button>
+                                <button type="button" class="btn btn-primary" id="bulk-edit-confirm">{t}Ausführen{/t}</button>
+                                <button type="button" class="btn btn-default" data-dismiss="modal" id="bulk-edit-close" style="display: none;">{t}Schließen{/t}</button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <div class="modal fade" id="barcode-modal" tabindex="-1" role="dialog" aria-labelledby="barcode-title">
+                    <div class="modal-dialog modal-sm" role="document">
+                        <div class="modal-content">
+                            <div class="modal-header">
+                                <button type="button" class="close" data-dismiss="modal" aria-label="Close"><span aria-hidden="true">&times;</span></button>
+                                <h4 class="modal-title" id="barcode-title"><i class="fa fa-barcode" aria-hidden="true"></i> {t}Gescanntes Bauteil{/t}</h4>
+                            </div>
+                            <div class="modal-body">
+                                <div class="alert alert-danger" id="barcode-error" hidden></div>
+                                <div class="alert alert-success" id="barcode-success" hidden>{t}Der Bestand wurde geändert.{/t}</div>
+                                <p class="text-center" id="barcode-loading" hidden><i class="fa fa-spinner fa-spin fa-2x" aria-hidden="true"></i></p>
+                                <div id="barcode-part" hidden>
+                                    <p><b id="barcode-part-name"></b><br><span class="text-muted" id="barcode-part-description"></span></p>
+                                    <p>{t}Lagerort:{/t} <span id="barcode-part-location"></span></p>
+                                    <p>{t}Vorhanden:{/t} <span class="badge" id="barcode-part-instock"></span></p>
+                                    <p class="text-warning" id="barcode-instock-unknown" hidden>{t}Der Bestand dieses Bauteils ist unbekannt.{/t}</p>
+                                    <div class="form-group">
+                                        <label for="barcode-quantity">{t}Anzahl:{/t}</label>
+                                        <input type="number" class="form-control" id="barcode-quantity" min="1" value="1">
+                                    </div>
+                                </div>
+                            </div>
+                            <div class="modal-footer">
+                                <button type="button" class="btn btn-default" data-dismiss="modal">{t}Schließen{/t}</button>
+                                <button type="button" class="btn btn-danger barcode-change" data-direction="-1">
+                                    <i class="fa fa-minus" aria-hidden="true"></i> {t}Entnehmen{/t}</button>
+                                <button type="button" class="btn btn-success barcode-change" data-direction="1">
+                                    <i class="fa fa-plus" aria-hidden="true"></i> {t}Hinzufügen{/t}</button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <div class="modal fade" id="table-layout-modal" tabindex="-1" role="dialog" aria-labelledby="table-layout-title">
+                    <div class="modal-dialog" role="document">
+                        <div class="modal-content">
+                            <div class="modal-header">
+                                <button type="button" class="close" data-dismiss="modal" aria-label="Close"><span aria-hidden="true">&times;</span></button>
+                                <h4 class="modal-title" id="table-layout-title"><i class="fa fa-columns" aria-hidden="true"></i> {t}Spalten anpassen{/t}</h4>
+                            </div>
+                            <div class="modal-body">
+                                <div class="alert alert-danger" id="table-layout-error" style="white-space: pre-line;" hidden></div>
+                                <p class="text-muted">{t}Die Reihenfolge der Spalten kann per Drag & Drop geändert werden. Die Breite einer Spalte kann direkt in der Tabelle am rechten Rand der Überschrift angepasst werden.{/t}</p>
+                                <ul class="list-group" id="table-layout-columns" style="max-height: 50vh; overflow-y: auto;"></ul>
+                                <ul class="table-layout-prototypes" hidden>
+                                    <li class="list-group-item table-layout-column" draggable="true" style="cursor: move;">
+                                        <i class="fa fa-bars fa-fw text-muted" aria-hidden="true"></i>
+                                        <label class="checkbox-inline" style="padding-top: 0;">
+                                            <input type="checkbox" class="table-layout-visible"> <span class="table-layout-caption"></span>
+                                        </label>
+                                    </li>
+                                </ul>
+                                <div class="form-group">
+                                    <label for="table-layout-shared">{t}Geteilte Layouts:{/t}</label>
+                                    <div class="input-group">
+                                        <select class="form-control" id="table-layout-shared">
+                                            <option value="">{t}Layout laden...{/t}</option>
+                                        </select>
+                                        <span class="input-group-btn">
+                                            <button type="button" class="btn btn-default" id="table-layout-delete" title="{t}Layout löschen{/t}"
+                                                    data-confirm="{t}Soll das geteilte Layout wirklich gelöscht werden?{/t}" disabled>
+                                                <i class="fa fa-trash" aria-hidden="true"></i></button>
+                                        </span>
+                                    </div>
+                                </div>
+                                <div class="form-group">
+                                    <label for="table-layout-name">{t}Layout teilen:{/t}</label>
+                                    <div class="input-group">
+                                        <input type="text" class="form-control" id="table-layout-name" placeholder="{t}Name des Layouts{/t}">
+                                        <span class="input-group-btn">
+                                            <button type="button" class="btn btn-default" id="table-layout-share">
+                                                <i class="fa fa-share-alt" aria-hidden="true"></i> {t}Teilen{/t}</button>
+                                        </span>
+                                    </div>
+                                </div>
+                            </div>
+                            <div class="modal-footer">
+                                <button type="button" class="btn btn-default pull-left" id="table-layout-reset">
+                                    <i class="fa fa-undo" aria-hidden="true"></i> {t}Standard wiederherstellen{/t}</button>
+                                <button type="button" class="btn btn-default" data-dismiss="modal">{t}Abbrechen{/t}</button>
+                                <button type="button" class="btn btn-primary" id="table-layout-apply">{t}Übernehmen{/t}</button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <ul class="dropdown-menu" id="tree-context-menu" style="position: fixed; display: none;" data-permissions="{if isset($tree_permissions)}{$tree_permissions}{/if}">
+                    <li data-action="open"><a href="#"><i class="fa fa-fw fa-folder-open" aria-hidden="true"></i> {t}Öffnen{/t}</a></li>
+                    <li data-action="open-tab"><a href="#"><i class="fa fa-fw fa-external-link-alt" aria-hidden="true"></i> {t}In neuem Tab öffnen{/t}</a></li>
+                    <li role="separator" class="divider"></li>
+                    <li data-action="edit"><a href="#"><i class="fa fa-fw fa-pencil-alt" aria-hidden="true"></i> {t}Bearbeiten{/t}</a></li>
+                    <li data-action="add-child"><a href="#"><i class="fa fa-fw fa-plus" aria-hidden="true"></i> {t}Unterelement hinzufügen{/t}</a></li>
+                    <li data-action="add-part"><a href="#"><i class="fa fa-fw fa-plus-square" aria-hidden="true"></i> {t}Bauteil hier hinzufügen{/t}</a></li>
+                    <li data-action="show-parts"><a href="#"><i class="fa fa-fw fa-list" aria-hidden="true"></i> {t}Bauteile inkl. Unterelementen anzeigen{/t}</a></li>
+                    <li role="separator" class="divider"></li>
+                    <li data-action="copy-link"><a href="#"><i class="fa fa-fw fa-link" aria-hidden="true"></i> {t}Link kopieren{/t}</a></li>
+                    <li data-action="delete"><a href="#" class="text-danger"><i class="fa fa-fw fa-trash" aria-hidden="true"></i> {t}Löschen{/t}</a></li>
+                </ul>
+
+                <div class="modal fade" id="tree-delete-modal" tabindex="-1" role="dialog" aria-labelledby="tree-delete-title">
+                    <div class="modal-dialog" role="document">
+                        <div class="modal-content">
+                            <div class="modal-header">
+                                <button type="button" class="close" data-dismiss="modal" aria-label="Close"><span aria-hidden="true">&times;</span></button>
+                                <h4 class="modal-title" id="tree-delete-title"><i class="fa fa-trash" aria-hidden="true"></i> {t}Löschen{/t}</h4>
+                            </div>
+                            <div class="modal-body">
+                                <div class="alert alert-danger" id="tree-delete-error" style="white-space: pre-line;" hidden></div>
+                                <p>{t}Soll das Element{/t} <b id="tree-delete-name"></b> {t}wirklich unwiderruflich gelöscht werden?{/t}</p>
+                                <p class="text-muted">{t}Unterelemente werden eine Ebene nach oben verschoben. Elemente, die noch Bauteile enthalten, können nicht gelöscht werden.{/t}</p>
+                                <p class="text-center" id="tree-delete-loading" hidden><i class="fa fa-spinner fa-spin fa-2x" aria-hidden="true"></i></p>
+                            </div>
+                            <div class="modal-footer">
+                                <button type="button" class="btn btn-default" data-dismiss="modal">{t}Abbrechen{/t}</button>
+                                <button type="button" class="btn btn-danger" id="tree-delete-confirm">{t}Löschen{/t}</button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <div class="modal fade" id="tree-move-modal" tabindex="-1" role="dialog" aria-labelledby="tree-move-title">
+                    <div class="modal-dialog" role="document">
+                        <div class="modal-content">
+                            <div class="modal-header">
+                                <button type="button" class="close" data-dismiss="modal" aria-label="Close"><span aria-hidden="true">&times;</span></button>
+                                <h4 class="modal-title" id="tree-move-title"><i class="fa fa-arrows-alt" aria-hidden="true"></i> {t}Verschieben{/t}</h4>
+                            </div>
+                            <div class="modal-body">
+                                <div class="alert alert-danger" id="tree-move-error" style="white-space: pre-line;" hidden></div>
+                                <p class="tree-move-question" data-kind="node">
+                                    {t}Soll das Element{/t} <b id="tree-move-source"></b> {t}nach{/t} <b class="tree-move-target"></b> {t}verschoben werden?{/t}
+                                </p>
+                                <div class="tree-move-question" data-kind="parts">
+                                    <p>{t}Sollen die folgenden Bauteile nach{/t} <b class="tree-move-target"></b> {t}verschoben werden?{/t}</p>
+                                    <ul id="tree-move-parts" style="max-height: 200px; overflow-y: auto;"></ul>
+                                </div>
+                                <p class="text-center" id="tree-move-loading" hidden><i class="fa fa-spinner fa-spin fa-2x" aria-hidden="true"></i></p>
+                            </div>
+                            <div class="modal-footer">
+                                <button type="button" class="btn btn-default" data-dismiss="modal">{t}Abbrechen{/t}</button>
+                                <button type="button" class="btn btn-primary" id="tree-move-confirm">{t}Verschieben{/t}</button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <div class="alert alert-success" id="tree-move-undo" style="position: fixed; right: 20px; bottom: 20px; z-index: 1040; max-width: 400px; white-space: pre-line;" hidden>
+                    <button type="button" class="close" id="tree-move-undo-close" aria-label="Close"><span aria-hidden="true">&times;</span></button>
+                    <span class="tree-move-undo-state" data-state="moved">{t}Die Elemente wurden verschoben.{/t}
+                        <a href="#" class="alert-link" id="tree-move-undo-button"><i class="fa fa-undo" aria-hidden="true"></i> {t}Rückgängig{/t}</a></span>
+                    <span class="tree-move-undo-state" data-state="undone">{t}Das Verschieben wurde rückgängig gemacht.{/t}</span>
+                    <span class="tree-move-undo-state" data-state="error"></span>
+                </div>
+
+                <div class="alert alert-warning" id="inline-edit-bar" style="position: fixed; left: 50%; bottom: 20px; z-index: 1040; margin: 0; transform: translateX(-50%);"
+                     data-columns="{if isset($inline_edit_columns)}{$inline_edit_columns}{/if}" hidden>
+                    <i class="fa fa-pencil-alt" aria-hidden="true"></i> <b id="inline-edit-count"></b> {t}Werte wurden geändert, aber noch nicht gespeichert.{/t}
+                    <button type="button" class="btn btn-primary btn-sm" id="inline-edit-save"><i class="fa fa-save" aria-hidden="true"></i> {t}Alle speichern{/t}</button>
+                    <button type="button" class="btn btn-default btn-sm" id="inline-edit-discard"><i class="fa fa-undo" aria-hidden="true"></i> {t}Alle verwerfen{/t}</button>
+                </div>
+
+                <div class="inline-edit-prototypes" hidden>
+                    <input type="number" min="0" step="1" class="form-control input-sm" style="min-width: 70px;" data-caption="instock">
+                    <input type="number" min="0" step="1" class="form-control input-sm" style="min-width: 70px;" data-caption="mininstock">
+                    <input type="text" class="form-control input-sm" style="min-width: 150px;" data-caption="comment">
+                    <input type="text" inputmode="decimal" class="form-control input-sm" style="min-width: 80px;" data-localized-number data-currency data-caption="average_single_price">
+                    <select class="form-control input-sm" data-caption="storelocation">
+                        <option value="0" data-name="">{t}Kein Lagerort{/t}</option>
+                    </select>
+                </div>
+
                 <div class="container-fluid" id="content">
 
                     {else} {* Print tile in ajax requests, or we cant set the tab title *}
@@ -0,0 +1,8 @@
+{locale path="nextgen/locale" domain="partdb"}
+
+{* Shown by live_updates.ts, when the edited element was changed by another user in the meantime *}
+<div class="alert alert-warning live-update-banner" data-table="{$live_update_table}" data-id="{$live_update_id}" hidden>
+    <i class="fa fa-exclamation-triangle" aria-hidden="true"></i>
+    {t}Dieses Element wurde in der Zwischenzeit von einem anderen Benutzer geändert. Wenn Sie speichern, werden diese Änderungen überschrieben.{/t}
+    <a href="#" class="alert-link live-update-reload">{t}Seite neu laden{/t}</a>
+</div>
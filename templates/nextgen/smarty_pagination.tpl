@@ -14,8 +14,22 @@
                             <option value="move" {if !$can_edit}disabled{/if}>{t}Verschieben nach{/t}</option>
                             <option value="favor" {if !isset($can_favor) || !$can_favor}disabled{/if}>{t}Bauteile favorisieren{/t}</option>
                             <option value="defavor" {if !isset($can_favor) || !$can_favor}disabled{/if}>{t}Favorisierung aufheben{/t}</option>
+                            <option value="mininstock" {if !$can_edit}disabled{/if}>{t}Mindestbestand setzen{/t}</option>
+                            <option value="obsolete" {if !$can_edit}disabled{/if}>{t}Als obsolet markieren{/t}</option>
+                            <option value="not_obsolete" {if !$can_edit}disabled{/if}>{t}Obsolet-Markierung aufheben{/t}</option>
+                            <option value="device">{t}Zu Baugruppe hinzufügen{/t}</option>
+                            <option value="labels">{t}Labels drucken{/t}</option>
                         </select>
                     </div>
+                    <div class="form-group bulk-params" data-action="mininstock" style="display: none;">
+                        <input type="number" name="bulk_mininstock" min="0" value="0" class="form-control" style="width: 80px;"
+                               title="{t}Mindestbestand{/t}">
+                    </div>
+                    <div class="form-group bulk-params" data-action="device" style="display: none;">
+                        <select name="bulk_device" class="form-control" style="width: 150px;" title="{t}Baugruppe{/t}"></select>
+                        <input type="number" name="bulk_quantity" min="1" value="1" class="form-control" style="width: 70px;"
+                               title="{t}Anzahl{/t}">
+                    </div>
                     <div class="form-group">
                         <select name="target" style="width: 110px;" class="selectpicker" data-live-search="true" {if !$can_edit}disabled{/if}>
                             <option>{t}Auswählen{/t}</option>
@@ -46,6 +60,7 @@
             </div>
         {/if}
     </div>
+    {if !isset($table_server_side) || !$table_server_side} {* the server side tables have their own pagination *}
     <div class="col-md-6">
         <nav aria-label="Page navigation" class="pull-right">
             <ul class="pagination" style="margin-top: 0; margin-bottom: 5px;">
@@ -68,4 +83,5 @@
             </ul>
         </nav>
     </div>
+    {/if}
 </div>
\ No newline at end of file
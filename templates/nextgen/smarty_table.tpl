@@ -15,65 +15,72 @@
 *}
 <div class="table-responsive">
     <table class="table table-striped table-condensed table-compact table-hover table-export
-    table-sortable {if isset($table_selectable) && $table_selectable}table-selectable{/if}" cellspacing="0" width="100%">
+    table-sortable {if isset($table_selectable) && $table_selectable}table-selectable{/if}" cellspacing="0" width="100%"
+    data-label-layout="{t}Spalten anpassen{/t}"
+    {if isset($table_server_side) && $table_server_side}
+        data-server-side="true" data-columns="{$table_columns}" data-page="{$table_page}" data-limit="{$table_limit}"
+        data-order="{$table_order}" data-dir="{$table_order_dir}" data-label-comment="{t}Kommentar:{/t}"
+        data-label-mininstock="{t}min. Bestand:{/t}" data-label-obsolete="{t}(nicht mehr erhältlich){/t}"
+    {/if}
+    data-label-unknown="{t}[Unbekannt]{/t}">
         <thead class="thead-default">
         {foreach $table as $t}
             {if isset($t.print_header) && $t.print_header}
-                <tr class="trcat">
+                <tr class="trcat"{if isset($t.table_type)} data-table-type="{$t.table_type}"{/if}>
                     {foreach $t.columns as $col}
-                        {if $col.caption=="row"}<th>{t}Nr.{/t}</th>{/if}
-                        {if $col.caption=="hover_picture"}<th class="no-sort no-export"></th>{/if}
-                        {if $col.caption=="id"}<th class="idclass">{t}ID{/t}</th>{/if}
-                        {if $col.caption=="row_index"}<th class="idclass">{t}Nr.{/t}</th>{/if} {*  only for import parts  *}
-                        {if $col.caption=="name"}<th class="order-default">{t}Name{/t}</th>{/if}
-                        {if $col.caption=="name_edit"}<th>{t}Name{/t}</th>{/if} {*  only for import parts  *}
-                        {if $col.caption=="description"}<th>{t}Beschreibung{/t}</th>{/if}
-                        {if $col.caption=="description_edit"}<th>{t}Beschreibung{/t}</th>{/if} {*  only for import parts  *}
-                        {if $col.caption=="comment"}<th>{t}Kommentar{/t}</th>{/if}
-                        {if $col.caption=="comment_edit"}<th>{t}Kommentar{/t}</th>{/if} {*  only for import parts  *}
-                        {if $col.caption=="name_description"}<th>{t}Name / Beschreibung{/t}</th>{/if}
-                        {if $col.caption=="instock"}<th>{t}Bestand{/t}</th>{/if}
-                        {if $col.caption=="instock_edit"}<th class="no-sort">{t}Bestand{/t}</th>{/if} {*  only for import parts  *}
-                        {if $col.caption=="instock_edit_buttons"}<th>{t}Bestand ändern{/t}</th>{/if}
-                        {if $col.caption=="order_quantity_edit"}<th class="no-sort">{t escape=false}Bestell-<br>menge</th>{/t}{/if} {*  only for order parts  *}
-                        {if $col.caption=="mininstock"}<th>{t escape=no}Mindest-{/t}<br>{t}bestand{/t}</th>{/if}
-                        {if $col.caption=="mininstock_edit"}<th>{t}Mindest-{/t}<br>{t}bestand{/t}</th>{/if} {*  only for import parts  *}
-                        {if $col.caption=="instock_mininstock"}<th>{t escape=no}Vorh./<br>Min.Best{/t}</th>{/if}
-                        {if $col.caption=="category"}<th>{t}Kategorie{/t}</th>{/if}
-                        {if $col.caption=="category_edit"}<th>{t}Kategorie{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="row"}<th data-column="row">{t}Nr.{/t}</th>{/if}
+                        {if $col.caption=="hover_picture"}<th data-column="hover_picture" class="no-sort no-export"></th>{/if}
+                        {if $col.caption=="id"}<th data-column="id" class="idclass">{t}ID{/t}</th>{/if}
+                        {if $col.caption=="row_index"}<th data-column="row_index" class="idclass">{t}Nr.{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="name"}<th data-column="name" class="order-default">{t}Name{/t}</th>{/if}
+                        {if $col.caption=="name_edit"}<th data-column="name_edit">{t}Name{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="description"}<th data-column="description">{t}Beschreibung{/t}</th>{/if}
+                        {if $col.caption=="description_edit"}<th data-column="description_edit">{t}Beschreibung{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="comment"}<th data-column="comment">{t}Kommentar{/t}</th>{/if}
+                        {if $col.caption=="comment_edit"}<th data-column="comment_edit">{t}Kommentar{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="name_description"}<th data-column="name_description">{t}Name / Beschreibung{/t}</th>{/if}
+                        {if $col.caption=="instock"}<th data-column="instock">{t}Bestand{/t}</th>{/if}
+                        {if $col.caption=="instock_edit"}<th data-column="instock_edit" class="no-sort">{t}Bestand{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="instock_edit_buttons"}<th data-column="instock_edit_buttons">{t}Bestand ändern{/t}</th>{/if}
+                        {if $col.caption=="order_quantity_edit"}<th data-column="order_quantity_edit" class="no-sort">{t escape=false}Bestell-<br>menge</th>{/t}{/if} {*  only for order parts  *}
+                        {if $col.caption=="mininstock"}<th data-column="mininstock">{t escape=no}Mindest-{/t}<br>{t}bestand{/t}</th>{/if}
+                        {if $col.caption=="mininstock_edit"}<th data-column="mininstock_edit">{t}Mindest-{/t}<br>{t}bestand{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="instock_mininstock"}<th data-column="instock_mininstock">{t escape=no}Vorh./<br>Min.Best{/t}</th>{/if}
+                        {if $col.caption=="category"}<th data-column="category">{t}Kategorie{/t}</th>{/if}
+                        {if $col.caption=="category_edit"}<th data-column="category_edit">{t}Kategorie{/t}</th>{/if} {*  only for import parts  *}
                         {if !$disable_footprints}
-                            {if $col.caption=="footprint"}<th>{t}Footprint{/t}</th>{/if}
-                            {if $col.caption=="footprint_edit"}<th>{t}Footprint{/t}</th>{/if} {*  only for import parts  *}
+                            {if $col.caption=="footprint"}<th data-column="footprint">{t}Footprint{/t}</th>{/if}
+                            {if $col.caption=="footprint_edit"}<th data-column="footprint_edit">{t}Footprint{/t}</th>{/if} {*  only for import parts  *}
                         {/if}
                         {if !$disable_manufacturers}
-                            {if $col.caption=="manufacturer"}<th>{t}Hersteller{/t}</th>{/if}
-                            {if $col.caption=="manufacturer_edit"}<th>{t}Hersteller{/t}</th>{/if} {*  only for import parts  *}
-                        {/if}
-                        {if $col.caption=="storelocation"}<th>{t}Lagerort{/t}</th>{/if}
-                        {if $col.caption=="storelocation_edit"}<th>{t}Lagerort{/t}</th>{/if} {*  only for import parts  *}
-                        {if $col.caption=="suppliers"}<th>{t}Lieferanten{/t}</th>{/if}
-                        {if $col.caption=="supplier_edit"}<th>{t}Lieferant{/t}</th>{/if} {*  only for import parts  *}
-                        {if $col.caption=="suppliers_radiobuttons"}<th>{t}Lieferanten{/t}</th>{/if} {*  only for order parts  *}
-                        {if $col.caption=="datasheets"}{if !$disable_auto_datasheets}<th class="no-sort no-export">{t}Datenblätter{/t}</th>{/if}{/if}
-                        {if $col.caption=="button_decrement"}<th class="text-center no-sort no-export">-</th>{/if}
-                        {if $col.caption=="button_increment"}<th class="text-center no-sort no-export">+</th>{/if}
-                        {if $col.caption=="button_edit"}<th class="text-center no-sort"></th>{/if}
-                        {if $col.caption=="order_options"}<th class="no-sort no-export">{t}Optionen{/t}</th>{/if} {*  only for order parts  *}
-                        {if $col.caption=="quantity_edit"}<th class="no-sort">{t}Anzahl{/t}</th>{/if} {*  only for device parts  *}
-                        {if $col.caption=="mountnames_edit"}<th class="no-sort">{t escape=no}Bestückungs-<br>daten{/t}</th>{/if} {*  only for device parts  *}
-                        {if $col.caption=="price_edit"}<th>{t}Preis{/t}</th>{/if} {*  only for import parts  *}
-                        {if $col.caption=="average_single_price"}<th>{t escape=no}Einzel-<br>preis Ø{/t}</th>{/if}
-                        {if $col.caption=="single_prices"}<th>{t escape=no}Einzel-<br>preise{/t}</th>{/if}
-                        {if $col.caption=="total_prices"}<th>{t escape=no}Gesamt-<br>preise{/t}</th>{/if} {*  only for device parts  *}
-                        {if $col.caption=="supplier_partnrs"}<th>{t escape=no}Bestell-<br>nummern{/t}</th>{/if}
-                        {if $col.caption=="supplier_partnr_edit"}<th class="no-sort">{t escape=no}Bestell-<br>nummer{/t}</th>{/if} {*  only for import parts  *}
-                        {if $col.caption=="attachements"}<th class="no-export">{t}Dateianhänge{/t}</th>{/if}
-                        {if $col.caption=="last_modified"}<th>{t}Zuletzt bearbeitet{/t}</th>{/if}
-                        {if $col.caption=="created"}<th>{t}Erstellt{/t}</th>{/if}
-                        {if $col.caption=="systemupdate_from_version"}<th class="no-sort">{t}Von Version{/t}</th>{/if}
-                        {if $col.caption=="systemupdate_to_version" }<th class="no-sort">{t}Auf Version{/t}</th>{/if}
-                        {if $col.caption=="systemupdate_release_date"}<th class="no-sort">{t}Veröffentlichung{/t}</th>{/if}
-                        {if $col.caption=="systemupdate_changelog"}<th class="no-sort">{t}Changelog{/t}</th>{/if}
+                            {if $col.caption=="manufacturer"}<th data-column="manufacturer">{t}Hersteller{/t}</th>{/if}
+                            {if $col.caption=="manufacturer_edit"}<th data-column="manufacturer_edit">{t}Hersteller{/t}</th>{/if} {*  only for import parts  *}
+                        {/if}
+                        {if $col.caption=="storelocation"}<th data-column="storelocation">{t}Lagerort{/t}</th>{/if}
+                        {if $col.caption=="storelocation_edit"}<th data-column="storelocation_edit">{t}Lagerort{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="suppliers"}<th data-column="suppliers">{t}Lieferanten{/t}</th>{/if}
+                        {if $col.caption=="supplier_edit"}<th data-column="supplier_edit">{t}Lieferant{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="suppliers_radiobuttons"}<th data-column="suppliers_radiobuttons">{t}Lieferanten{/t}</th>{/if} {*  only for order parts  *}
+                        {if $col.caption=="datasheets"}{if !$disable_auto_datasheets}<th data-column="datasheets" class="no-sort no-export">{t}Datenblätter{/t}</th>{/if}{/if}
+                        {if $col.caption=="button_decrement"}<th data-column="button_decrement" class="text-center no-sort no-export">-</th>{/if}
+                        {if $col.caption=="button_increment"}<th data-column="button_increment" class="text-center no-sort no-export">+</th>{/if}
+                        {if $col.caption=="button_edit"}<th data-column="button_edit" class="text-center no-sort"></th>{/if}
+                        {if $col.caption=="order_options"}<th data-column="order_options" class="no-sort no-export">{t}Optionen{/t}</th>{/if} {*  only for order parts  *}
+                        {if $col.caption=="quantity_edit"}<th data-column="quantity_edit" class="no-sort">{t}Anzahl{/t}</th>{/if} {*  only for device parts  *}
+                        {if $col.caption=="mountnames_edit"}<th data-column="mountnames_edit" class="no-sort">{t escape=no}Bestückungs-<br>daten{/t}</th>{/if} {*  only for device parts  *}
+                        {if $col.caption=="price_edit"}<th data-column="price_edit">{t}Preis{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="average_single_price"}<th data-column="average_single_price">{t escape=no}Einzel-<br>preis Ø{/t}</th>{/if}
+                        {if $col.caption=="single_prices"}<th data-column="single_prices">{t escape=no}Einzel-<br>preise{/t}</th>{/if}
+                        {if $col.caption=="total_prices"}<th data-column="total_prices">{t escape=no}Gesamt-<br>preise{/t}</th>{/if} {*  only for device parts  *}
+                        {if $col.caption=="supplier_partnrs"}<th data-column="supplier_partnrs">{t escape=no}Bestell-<br>nummern{/t}</th>{/if}
+                        {if $col.caption=="supplier_partnr_edit"}<th data-column="supplier_partnr_edit" class="no-sort">{t escape=no}Bestell-<br>nummer{/t}</th>{/if} {*  only for import parts  *}
+                        {if $col.caption=="attachements"}<th data-column="attachements" class="no-export">{t}Dateianhänge{/t}</th>{/if}
+                        {if $col.caption=="last_modified"}<th data-column="last_modified">{t}Zuletzt bearbeitet{/t}</th>{/if}
+                        {if $col.caption=="created"}<th data-column="created">{t}Erstellt{/t}</th>{/if}
+                        {if $col.caption=="systemupdate_from_version"}<th data-column="systemupdate_from_version" class="no-sort">{t}Von Version{/t}</th>{/if}
+                        {if $col.caption=="systemupdate_to_version" }<th data-column="systemupdate_to_version" class="no-sort">{t}Auf Version{/t}</th>{/if}
+                        {if $col.caption=="systemupdate_release_date"}<th data-column="systemupdate_release_date" class="no-sort">{t}Veröffentlichung{/t}</th>{/if}
+                        {if $col.caption=="systemupdate_changelog"}<th data-column="systemupdate_changelog" class="no-sort">{t}Changelog{/t}</th>{/if}
                     {/foreach}
                 </tr>
             {/if}
@@ -141,7 +148,7 @@
                         {/if}
                         {if $row.caption == "comment"}
                             {* comment *}
-                            <td class="tdrow1">{$row.comment nofilter}</td>
+                            <td class="tdrow1" data-value="{$row.comment_bbcode}">{$row.comment nofilter}</td>
                         {/if}
                         {if $row.caption == "comment_edit"}
                             {* comment edit *}
@@ -158,8 +165,8 @@
                         {/if}
                         {if $row.caption == "instock"}
                             {* instock *}
-                            <td class="tdrow2 {if $row.not_enough_instock} bg-danger{/if}">
-                                <div data-toggle="tooltip" title="min. Bestand: {$row.mininstock}">{$row.instock}</div>
+                            <td class="tdrow2 {if $row.not_enough_instock} bg-danger{/if}" data-value="{$row.instock}">
+                                <div class="part-instock" data-toggle="tooltip" title="min. Bestand: {$row.mininstock}">{$row.instock}</div>
                             </td>
                         {/if}
                         {if $row.caption == "instock_edit"}
@@ -176,7 +183,7 @@
                         {/if}
                         {if $row.caption == "mininstock"}
                             {* mininstock *}
-                            <td class="tdrow2">
+                            <td class="tdrow2" data-value="{$row.mininstock}">
                                 {$row.mininstock}
                             </td>
                         {/if}
@@ -187,7 +194,7 @@
                         {if $row.caption == "instock_mininstock"}
                             {* instock/mininstock *}
                             <td class="tdrow2 {if $row.not_enough_instock} bg-danger{/if}">
-                                {$row.instock}/{$row.mininstock}
+                                <span class="part-instock-mininstock">{$row.instock}/{$row.mininstock}</span>
                             </td>
                         {/if}
                         {if $row.caption == "category"}
@@ -240,7 +247,7 @@
                         {/if}
                         {if $row.caption == "storelocation"}
                             {* storelocation *}
-                            <td class="tdrow1">
+                            <td class="tdrow1" data-value="{if isset($row.storelocation_id)}{$row.storelocation_id}{else}0{/if}">
                                 {if isset($row.storelocation_path)}
                                     {if $t.show_full_paths == true}
                                         {include "./smarty_structural_link.tpl" link=$row.storelocation_loop}
@@ -355,11 +362,11 @@
                         {/if}
                         {if $row.caption == "price_edit"}
                             {* price edit *}
-                            <td class="tdrow1"><input type="number" class="form-control input-sm" style="width:60px;" min="0" step="any" name="price_{$row.row_index}" value="{$row.price}"></td>
+                            <td class="tdrow1"><input type="text" inputmode="decimal" class="form-control input-sm" style="width:80px;" data-localized-number data-currency name="price_{$row.row_index}" value="{$row.price}"></td>
                         {/if}
                         {if $row.caption == "average_single_price"}
                             {* average single price for one piece *}
-                            <td class="tdrow4" nowrap>
+                            <td class="tdrow4" nowrap data-value="{$row.average_single_price_value}">
                                 {$row.average_single_price}
                             </td>
                         {/if}
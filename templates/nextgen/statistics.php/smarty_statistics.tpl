@@ -4,137 +4,330 @@
     <div class="panel-heading"><i class="fas fa-chart-bar" aria-hidden="true"></i>
         {t}Statistik{/t}
     </div>
-    <div class="panel-body table-responsive form-horizontal">
-
-        <ul class="nav nav-tabs">
-            <li class="active"><a href="#home" data-toggle="tab" class="link-anchor">{t}Übersicht{/t}</a></li>
-            <li><a href="#graph_instock" data-toggle="tab" class="link-anchor">{t}Am meisten vorhandene Bauteile{/t}</a></li>
-            <li><a href="#graph_categories" data-toggle="tab" class="link-anchor">{t}Meistbenutzte Kategorien{/t}</a></li>
-            <li><a href="#graph_locations" data-toggle="tab" class="link-anchor">{t}Meistbenutzte Lagerorte{/t}</a></li>
-            <li><a href="#graph_footprints" data-toggle="tab" class="link-anchor">{t}Meistbenutzte Footprints{/t}</a></li>
-            <li><a href="#graph_manufacturers" data-toggle="tab" class="link-anchor">{t}Meistbenutzte Hersteller{/t}</a></li>
-        </ul>
-
-        <br>
-
-        <div class="tab-content">
+    <div class="panel-body">
+        <div class="form-inline" style="margin-bottom: 10px;">
+            <select class="form-control" id="dashboard-show-widget">
+                <option value="">{t}Ausgeblendete Widgets einblenden...{/t}</option>
+            </select>
+            <button type="button" class="btn btn-default" id="dashboard-reset">
+                <i class="fas fa-undo" aria-hidden="true"></i> {t}Anordnung zurücksetzen{/t}
+            </button>
+            <span class="help-block" style="display: inline-block; margin: 0 0 0 10px;">
+                {t}Die Widgets können an ihrer Überschrift verschoben werden.{/t}
+            </span>
+        </div>
 
-            <div id="home" class="tab-pane fade in active">
-                <div class="form-horizontal">
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Mit Preis erfasste Bauteile:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$parts_count_with_prices}</p>
+        {* The widgets of the dashboard, see statistics_dashboard.ts. The order, the size and the chart types are saved
+           for every user. *}
+        <div class="row" id="statistics-dashboard" style="display: flex; flex-wrap: wrap;">
+            <div class="col-md-6 dashboard-widget" data-widget="overview">
+                <div class="panel panel-default">
+                    <div class="panel-heading dashboard-widget-heading" draggable="true" style="cursor: move;">
+                        <span class="dashboard-widget-title">{t}Übersicht{/t}</span>
+                        <div class="pull-right">
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-widget-wide" title="{t}Breite umschalten{/t}"><i class="fas fa-arrows-alt-h" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-widget-hide" title="{t}Ausblenden{/t}"><i class="fas fa-times" aria-hidden="true"></i></button>
                         </div>
-                    </div>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Wert aller mit Preis erfassten Bauteile:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$parts_count_sum_value}</p>
                         </div>
                     </div>
+                    <div class="panel-body">
+                    <div class="form-horizontal">
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Mit Preis erfasste Bauteile:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$parts_count_with_prices}</p>
+                            </div>
+                        </div>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Wert aller mit Preis erfassten Bauteile:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$parts_count_sum_value}</p>
+                            </div>
+                        </div>
 
-                    <br>
+                        <br>
 
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der verschiedenen Bauteile:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$parts_count}</p>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der verschiedenen Bauteile:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$parts_count}</p>
+                            </div>
                         </div>
-                    </div>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der vorhandenen Bauteile:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$parts_count_sum_instock}</p>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der vorhandenen Bauteile:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$parts_count_sum_instock}</p>
+                            </div>
                         </div>
-                    </div>
 
-                    <br>
+                        <br>
 
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der Kategorien:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$categories_count}</p>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der Kategorien:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$categories_count}</p>
+                            </div>
                         </div>
-                    </div>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der Footprints:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$footprint_count}</p>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der Footprints:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$footprint_count}</p>
+                            </div>
                         </div>
-                    </div>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der Lagerorte:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$location_count}</p>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der Lagerorte:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$location_count}</p>
+                            </div>
                         </div>
-                    </div>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der Lieferanten:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$suppliers_count}</p>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der Lieferanten:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$suppliers_count}</p>
+                            </div>
                         </div>
-                    </div>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der Hersteller:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$manufacturers_count}</p>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der Hersteller:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$manufacturers_count}</p>
+                            </div>
                         </div>
-                    </div>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der Baugruppen:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$devices_count}</p>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der Baugruppen:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$devices_count}</p>
+                            </div>
                         </div>
-                    </div>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der Dateianhänge:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$attachements_count}</p>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der Dateianhänge:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$attachements_count}</p>
+                            </div>
+                        </div>
+
+                        <br>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der Footprint Bilder:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$footprint_picture_count}</p>
+                            </div>
                         </div>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der Footprint 3D Modelle:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$footprint_models_count}</p>
+                            </div>
+                        </div>
+                        <div class="form-group" style="margin-bottom: 0;">
+                            <label class="col-md-4 control-label">{t}Anzahl der Hersteller Logos:{/t}</label>
+                            <div class="col-md-8">
+                                <p class="form-control-static">{$iclogos_picture_count}</p>
+                            </div>
+                        </div>
+                    </div>
                     </div>
+                </div>
+            </div>
 
-                    <br>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der Footprint Bilder:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$footprint_picture_count}</p>
+            <div class="col-md-6 dashboard-widget" data-widget="history_value" data-history="value" data-label="{t}Wert der vorhandenen Bauteile{/t}" data-color="green">
+                <div class="panel panel-default">
+                    <div class="panel-heading dashboard-widget-heading" draggable="true" style="cursor: move;">
+                        <span class="dashboard-widget-title">{t}Wert der vorhandenen Bauteile{/t}</span>
+                        <div class="pull-right">
+                        <select class="form-control input-sm dashboard-history-days" style="display: inline-block; width: auto; height: 22px; padding: 0 5px;" title="{t}Zeitraum{/t}">
+                            <option value="30">{t}30 Tage{/t}</option>
+                            <option value="90" selected>{t}90 Tage{/t}</option>
+                            <option value="365">{t}1 Jahr{/t}</option>
+                            <option value="3650">{t}10 Jahre{/t}</option>
+                        </select>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="line" title="{t}Liniendiagramm{/t}"><i class="fas fa-chart-line" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="bar" title="{t}Balkendiagramm{/t}"><i class="fas fa-chart-bar" aria-hidden="true"></i></button>
+                        </div>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-widget-wide" title="{t}Breite umschalten{/t}"><i class="fas fa-arrows-alt-h" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-widget-hide" title="{t}Ausblenden{/t}"><i class="fas fa-times" aria-hidden="true"></i></button>
+                        </div>
                         </div>
                     </div>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der Footprint 3D Modelle:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$footprint_models_count}</p>
+                    <div class="panel-body">
+                        <canvas class="dashboard-chart"></canvas>
+                        <p class="help-block">{t}Die Werte werden an jedem Tag gespeichert, an dem die Statistik aufgerufen wird.{/t}</p>
+                    </div>
+                </div>
+            </div>
+
+            <div class="col-md-6 dashboard-widget" data-widget="history_parts" data-history="parts_count" data-label="{t}Anzahl der verschiedenen Bauteile{/t}" data-color="blue">
+                <div class="panel panel-default">
+                    <div class="panel-heading dashboard-widget-heading" draggable="true" style="cursor: move;">
+                        <span class="dashboard-widget-title">{t}Anzahl der Bauteile{/t}</span>
+                        <div class="pull-right">
+                        <select class="form-control input-sm dashboard-history-days" style="display: inline-block; width: auto; height: 22px; padding: 0 5px;" title="{t}Zeitraum{/t}">
+                            <option value="30">{t}30 Tage{/t}</option>
+                            <option value="90" selected>{t}90 Tage{/t}</option>
+                            <option value="365">{t}1 Jahr{/t}</option>
+                            <option value="3650">{t}10 Jahre{/t}</option>
+                        </select>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="line" title="{t}Liniendiagramm{/t}"><i class="fas fa-chart-line" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="bar" title="{t}Balkendiagramm{/t}"><i class="fas fa-chart-bar" aria-hidden="true"></i></button>
+                        </div>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-widget-wide" title="{t}Breite umschalten{/t}"><i class="fas fa-arrows-alt-h" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-widget-hide" title="{t}Ausblenden{/t}"><i class="fas fa-times" aria-hidden="true"></i></button>
+                        </div>
                         </div>
                     </div>
-                    <div class="form-group" style="margin-bottom: 0;">
-                        <label class="col-md-4 control-label">{t}Anzahl der Hersteller Logos:{/t}</label>
-                        <div class="col-md-8">
-                            <p class="form-control-static">{$iclogos_picture_count}</p>
+                    <div class="panel-body">
+                        <canvas class="dashboard-chart"></canvas>
+                    </div>
+                </div>
+            </div>
+
+            <div class="col-md-6 dashboard-widget" data-widget="history_instock" data-history="instock_count" data-label="{t}Anzahl der vorhandenen Bauteile{/t}" data-color="orange">
+                <div class="panel panel-default">
+                    <div class="panel-heading dashboard-widget-heading" draggable="true" style="cursor: move;">
+                        <span class="dashboard-widget-title">{t}Anzahl der vorhandenen Bauteile{/t}</span>
+                        <div class="pull-right">
+                        <select class="form-control input-sm dashboard-history-days" style="display: inline-block; width: auto; height: 22px; padding: 0 5px;" title="{t}Zeitraum{/t}">
+                            <option value="30">{t}30 Tage{/t}</option>
+                            <option value="90" selected>{t}90 Tage{/t}</option>
+                            <option value="365">{t}1 Jahr{/t}</option>
+                            <option value="3650">{t}10 Jahre{/t}</option>
+                        </select>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="line" title="{t}Liniendiagramm{/t}"><i class="fas fa-chart-line" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="bar" title="{t}Balkendiagramm{/t}"><i class="fas fa-chart-bar" aria-hidden="true"></i></button>
                         </div>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-widget-wide" title="{t}Breite umschalten{/t}"><i class="fas fa-arrows-alt-h" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-widget-hide" title="{t}Ausblenden{/t}"><i class="fas fa-times" aria-hidden="true"></i></button>
+                        </div>
+                        </div>
+                    </div>
+                    <div class="panel-body">
+                        <canvas class="dashboard-chart"></canvas>
                     </div>
                 </div>
             </div>
 
-            <div id="graph_instock" class="tab-pane fade">
-                <canvas class="chart" data-type="bar" data-data='{$graph_instock_parts}' width="100" height="50"></canvas>
+            <div class="col-md-6 dashboard-widget" data-widget="instock" data-source="instock" data-label="{t}Vorhandene Bauteile{/t}" data-color="red">
+                <div class="panel panel-default">
+                    <div class="panel-heading dashboard-widget-heading" draggable="true" style="cursor: move;">
+                        <span class="dashboard-widget-title">{t}Am meisten vorhandene Bauteile{/t}</span>
+                        <div class="pull-right">
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="bar" title="{t}Balkendiagramm{/t}"><i class="fas fa-chart-bar" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="pie" title="{t}Kreisdiagramm{/t}"><i class="fas fa-chart-pie" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="line" title="{t}Liniendiagramm{/t}"><i class="fas fa-chart-line" aria-hidden="true"></i></button>
+                        </div>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-widget-wide" title="{t}Breite umschalten{/t}"><i class="fas fa-arrows-alt-h" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-widget-hide" title="{t}Ausblenden{/t}"><i class="fas fa-times" aria-hidden="true"></i></button>
+                        </div>
+                        </div>
+                    </div>
+                    <div class="panel-body">
+                        <canvas class="dashboard-chart"></canvas>
+                        <p class="help-block">{t}Klicken Sie auf ein Element des Diagramms, um die zugehörigen Bauteile anzuzeigen.{/t}</p>
+                    </div>
+                </div>
             </div>
 
-            <div id="graph_categories" class="tab-pane fade">
-                <canvas class="chart" data-type="bar" data-data='{$graph_categories}' width="100" height="50"></canvas>
+            <div class="col-md-6 dashboard-widget" data-widget="categories" data-source="categories" data-label="{t}Bauteile mit Kategorie{/t}" data-color="blue">
+                <div class="panel panel-default">
+                    <div class="panel-heading dashboard-widget-heading" draggable="true" style="cursor: move;">
+                        <span class="dashboard-widget-title">{t}Meistbenutzte Kategorien{/t}</span>
+                        <div class="pull-right">
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="bar" title="{t}Balkendiagramm{/t}"><i class="fas fa-chart-bar" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="pie" title="{t}Kreisdiagramm{/t}"><i class="fas fa-chart-pie" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="line" title="{t}Liniendiagramm{/t}"><i class="fas fa-chart-line" aria-hidden="true"></i></button>
+                        </div>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-widget-wide" title="{t}Breite umschalten{/t}"><i class="fas fa-arrows-alt-h" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-widget-hide" title="{t}Ausblenden{/t}"><i class="fas fa-times" aria-hidden="true"></i></button>
+                        </div>
+                        </div>
+                    </div>
+                    <div class="panel-body">
+                        <canvas class="dashboard-chart"></canvas>
+                        <p class="help-block">{t}Klicken Sie auf ein Element des Diagramms, um die zugehörigen Bauteile anzuzeigen.{/t}</p>
+                    </div>
+                </div>
             </div>
 
-            <div id="graph_locations" class="tab-pane fade">
-                <canvas class="chart" data-type="bar" data-data='{$graph_locations}' width="100" height="50"></canvas>
+            <div class="col-md-6 dashboard-widget" data-widget="locations" data-source="locations" data-label="{t}Bauteile im Lagerort{/t}" data-color="green">
+                <div class="panel panel-default">
+                    <div class="panel-heading dashboard-widget-heading" draggable="true" style="cursor: move;">
+                        <span class="dashboard-widget-title">{t}Meistbenutzte Lagerorte{/t}</span>
+                        <div class="pull-right">
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="bar" title="{t}Balkendiagramm{/t}"><i class="fas fa-chart-bar" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="pie" title="{t}Kreisdiagramm{/t}"><i class="fas fa-chart-pie" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="line" title="{t}Liniendiagramm{/t}"><i class="fas fa-chart-line" aria-hidden="true"></i></button>
+                        </div>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-widget-wide" title="{t}Breite umschalten{/t}"><i class="fas fa-arrows-alt-h" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-widget-hide" title="{t}Ausblenden{/t}"><i class="fas fa-times" aria-hidden="true"></i></button>
+                        </div>
+                        </div>
+                    </div>
+                    <div class="panel-body">
+                        <canvas class="dashboard-chart"></canvas>
+                        <p class="help-block">{t}Klicken Sie auf ein Element des Diagramms, um die zugehörigen Bauteile anzuzeigen.{/t}</p>
+                    </div>
+                </div>
             </div>
 
-            <div id="graph_footprints" class="tab-pane fade">
-                <canvas class="chart" data-type="bar" data-data='{$graph_footprints}' width="100" height="50"></canvas>
+            <div class="col-md-6 dashboard-widget" data-widget="footprints" data-source="footprints" data-label="{t}Bauteile mit Footprint{/t}" data-color="light_blue">
+                <div class="panel panel-default">
+                    <div class="panel-heading dashboard-widget-heading" draggable="true" style="cursor: move;">
+                        <span class="dashboard-widget-title">{t}Meistbenutzte Footprints{/t}</span>
+                        <div class="pull-right">
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="bar" title="{t}Balkendiagramm{/t}"><i class="fas fa-chart-bar" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="pie" title="{t}Kreisdiagramm{/t}"><i class="fas fa-chart-pie" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="line" title="{t}Liniendiagramm{/t}"><i class="fas fa-chart-line" aria-hidden="true"></i></button>
+                        </div>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-widget-wide" title="{t}Breite umschalten{/t}"><i class="fas fa-arrows-alt-h" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-widget-hide" title="{t}Ausblenden{/t}"><i class="fas fa-times" aria-hidden="true"></i></button>
+                        </div>
+                        </div>
+                    </div>
+                    <div class="panel-body">
+                        <canvas class="dashboard-chart"></canvas>
+                        <p class="help-block">{t}Klicken Sie auf ein Element des Diagramms, um die zugehörigen Bauteile anzuzeigen.{/t}</p>
+                    </div>
+                </div>
             </div>
 
-            <div id="graph_manufacturers" class="tab-pane fade">
-                <canvas class="chart" data-type="bar" data-data='{$graph_manufacturer}' width="100" height="50"></canvas>
+            <div class="col-md-6 dashboard-widget" data-widget="manufacturers" data-source="manufacturers" data-label="{t}Bauteile mit Hersteller{/t}" data-color="orange">
+                <div class="panel panel-default">
+                    <div class="panel-heading dashboard-widget-heading" draggable="true" style="cursor: move;">
+                        <span class="dashboard-widget-title">{t}Meistbenutzte Hersteller{/t}</span>
+                        <div class="pull-right">
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="bar" title="{t}Balkendiagramm{/t}"><i class="fas fa-chart-bar" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="pie" title="{t}Kreisdiagramm{/t}"><i class="fas fa-chart-pie" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-chart-type" data-type="line" title="{t}Liniendiagramm{/t}"><i class="fas fa-chart-line" aria-hidden="true"></i></button>
+                        </div>
+                        <div class="btn-group btn-group-xs">
+                            <button type="button" class="btn btn-default dashboard-widget-wide" title="{t}Breite umschalten{/t}"><i class="fas fa-arrows-alt-h" aria-hidden="true"></i></button>
+                            <button type="button" class="btn btn-default dashboard-widget-hide" title="{t}Ausblenden{/t}"><i class="fas fa-times" aria-hidden="true"></i></button>
+                        </div>
+                        </div>
+                    </div>
+                    <div class="panel-body">
+                        <canvas class="dashboard-chart"></canvas>
+                        <p class="help-block">{t}Klicken Sie auf ein Element des Diagramms, um die zugehörigen Bauteile anzuzeigen.{/t}</p>
+                    </div>
+                </div>
             </div>
         </div>
+
+        <div class="alert alert-danger" id="dashboard-error" hidden></div>
     </div>
-</div>
\ No newline at end of file
+</div>
@@ -262,6 +262,28 @@
 
                         <hr>
 
+                        <div class="form-group">
+                            <label for="modal-container" class="control-label col-sm-2">{t}Offline-Modus:{/t}</label>
+                            <div class="col-sm-10">
+                                <div class="checkbox">
+                                    <input type="checkbox" name="offline_enable" {if $offline_enable} checked{/if}>
+                                    <label for="offline_enable">{t}Zuletzt besuchte Seiten zwischenspeichern, damit sie auch ohne Verbindung zum Server angezeigt werden können.{/t}</label>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div class="form-group">
+                            <label class="control-label col-md-2">{t}Zeitlimit für das Laden von Seiten (Sekunden):{/t}</label>
+                            <div class="col-md-10">
+                                <input type="number" class="form-control" name="ajax_timeout" min="0" step="1" value="{$ajax_timeout}"/>
+                                <p class="help-block">
+                                    {t}Setze diesen Wert auf 0, um kein Zeitlimit zu verwenden.{/t}
+                                </p>
+                            </div>
+                        </div>
+
+                        <hr>
+
                         <div class="form-group">
                             <label for="modal-container" class="control-label col-sm-2">{t}Bauteiletabellen:{/t}</label>
                             <div class="col-sm-10">
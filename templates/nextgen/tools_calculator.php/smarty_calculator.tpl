@@ -8,7 +8,8 @@
     <div class="panel-heading"><i class="fa fa-calculator fa-fw" aria-hidden="true"></i> {t}Widerstandsrechner{/t}</div>
     <div class="panel-body">
         <div class="col-md-6 col-sm-12">
-            <form id="resistor4ring" name="resistor4ring">
+            <h4>{t}4 Ringe{/t}</h4>
+            <form class="calculator no-ajax" data-calculator="bands4">
                 <table class="table table-bordered table-condensed">
                     <thead>
                     <tr>
@@ -24,7 +25,7 @@
                         <td></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="20" name="ring4" onclick="calculate4ring()"/>
+                                <input type="radio" value="20" name="ring4"/>
                                 <label>{t}kein{/t}</label>
                             </div></td>
                     </tr>
@@ -32,11 +33,11 @@
                         <td></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="-2" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="-2" name="ring3"/>
                                 <label>{t}silber{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="10" name="ring4" onclick="calculate4ring()"/>
+                                <input type="radio" value="10" name="ring4"/>
                                 <label>{t}silber{/t}</label>
                             </div></td>
                     </tr>
@@ -44,200 +45,204 @@
                         <td></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="-1" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="-1" name="ring3"/>
                                 <label>{t}gold{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="5" name="ring4" onclick="calculate4ring()"/>
+                                <input type="radio" value="5" name="ring4" checked/>
                                 <label>{t}gold{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_black">
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0" name="ring2" onclick="calculate4ring()"/>
+                                <input type="radio" value="0" name="ring2" checked/>
                                 <label>{t}schwarz{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="0" name="ring3"/>
                                 <label>{t}schwarz{/t}</label>
                             </div></td>
                         <td></td>
                     </tr>
                     <tr class="ring_brown">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="1" name="ring1" onclick="calculate4ring()"/>
+                                <input type="radio" value="1" name="ring1" checked/>
                                 <label>{t}braun{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="1" name="ring2" onclick="calculate4ring()"/>
+                                <input type="radio" value="1" name="ring2"/>
                                 <label>{t}braun{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="1" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="1" name="ring3"/>
                                 <label>{t}braun{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="1" name="ring4" onclick="calculate4ring()"/>
+                                <input type="radio" value="1" name="ring4"/>
                                 <label>{t}braun{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_red">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="2" name="ring1" onclick="calculate4ring()"/>
+                                <input type="radio" value="2" name="ring1"/>
                                 <label>{t}rot{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="2" name="ring2" onclick="calculate4ring()"/>
+                                <input type="radio" value="2" name="ring2"/>
                                 <label>{t}rot{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="2" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="2" name="ring3" checked/>
                                 <label>{t}rot{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="2" name="ring4" onclick="calculate4ring()"/>
+                                <input type="radio" value="2" name="ring4"/>
                                 <label>{t}rot{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_orange">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="3" name="ring1" onclick="calculate4ring()"/>
+                                <input type="radio" value="3" name="ring1"/>
                                 <label>{t}orange{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="3" name="ring2" onclick="calculate4ring()" />
+                                <input type="radio" value="3" name="ring2"/>
                                 <label>{t}orange{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="3" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="3" name="ring3"/>
                                 <label>{t}orange{/t}</label>
                             </div></td>
                         <td></td>
                     </tr>
                     <tr class="ring_yellow">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="4" name="ring1" onclick="calculate4ring()"/>
+                                <input type="radio" value="4" name="ring1"/>
                                 <label>{t}gelb{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="4" name="ring2" onclick="calculate4ring()"/>
+                                <input type="radio" value="4" name="ring2"/>
                                 <label>{t}gelb{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="4" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="4" name="ring3"/>
                                 <label>{t}gelb{/t}</label>
                             </div></td>
                         <td></td>
                     </tr>
                     <tr class="ring_green">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="5" name="ring1" onclick="calculate4ring()"/>
+                                <input type="radio" value="5" name="ring1"/>
                                 <label>{t}grün{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="5" name="ring2" onclick="calculate4ring()"/>
+                                <input type="radio" value="5" name="ring2"/>
                                 <label>{t}grün{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="5" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="5" name="ring3"/>
                                 <label>{t}grün{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0.5" name="ring4" onclick="calculate4ring()"/>
+                                <input type="radio" value="0.5" name="ring4"/>
                                 <label>{t}grün{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_blue">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="6" name="ring1" onclick="calculate4ring()"/>
+                                <input type="radio" value="6" name="ring1"/>
                                 <label>{t}blau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="6" name="ring2" onclick="calculate4ring()"/>
+                                <input type="radio" value="6" name="ring2"/>
                                 <label>{t}blau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="6" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="6" name="ring3"/>
                                 <label>{t}blau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0.25" name="ring4" onclick="calculate4ring()"/>
+                                <input type="radio" value="0.25" name="ring4"/>
                                 <label>{t}blau{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_violet">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="7" name="ring1" onclick="calculate4ring()"/>
+                                <input type="radio" value="7" name="ring1"/>
                                 <label>{t}violett{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="7" name="ring2" onclick="calculate4ring()"/>
+                                <input type="radio" value="7" name="ring2"/>
                                 <label>{t}violett{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="7" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="7" name="ring3"/>
                                 <label>{t}violett{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0.1" name="ring4" onclick="calculate4ring()"/>
+                                <input type="radio" value="0.1" name="ring4"/>
                                 <label>{t}violett{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_gray">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="8" name="ring1" onclick="calculate4ring()"/>
+                                <input type="radio" value="8" name="ring1"/>
                                 <label>{t}grau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="8" name="ring2" onclick="calculate4ring()"/>
+                                <input type="radio" value="8" name="ring2"/>
                                 <label>{t}grau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="8" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="8" name="ring3"/>
                                 <label>{t}grau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0.05" name="ring4" onclick="calculate4ring()"/>
+                                <input type="radio" value="0.05" name="ring4"/>
                                 <label>{t}grau{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_white">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="9" name="ring1" onclick="calculate4ring()"/>
+                                <input type="radio" value="9" name="ring1"/>
                                 <label>{t}weiß{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="9" name="ring2" onclick="calculate4ring()" />
+                                <input type="radio" value="9" name="ring2"/>
                                 <label>{t}weiß{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="9" name="ring3" onclick="calculate4ring()"/>
+                                <input type="radio" value="9" name="ring3"/>
                                 <label>{t}weiß{/t}</label>
                             </div></td>
                         <td></td>
                     </tr>
                     </tbody>
                 </table>
-                <div class="">
+                <div>
                     <div class="row">
-                        <label class=" col-md-3">{t}Widerstand:{/t}</label>
-                        <p class="col-md-9"><span id="resistance4ring" class="value">100</span><span id="resistance_unit4ring" class="unit">{t}Ohm{/t}</span></p>
+                        <label class="col-md-4">{t}Widerstand:{/t}</label>
+                        <p class="col-md-8"><span class="value" data-output="resistance">?</span></p>
                     </div>
                     <div class="row">
-                        <label class="col-md-3">{t}Toleranz{/t}</label>
-                        <p class="col-md-9"><span id="tolerance4ring" class="value">20</span><span id="tolerance_unit4ring" class="unit">%</span></p>
+                        <label class="col-md-4">{t}Toleranz:{/t}</label>
+                        <p class="col-md-8"><span class="value" data-output="tolerance">?</span><span class="unit">%</span></p>
                     </div>
                     <div class="row">
-                        <div class="col-md-9">
-                            <button class="btn btn-default" type="button" onclick="reset4ring()">{t}Rücksetzen{/t}</button>
+                        <div class="col-md-12">
+                            <button class="btn btn-default calculator-reset" type="button">{t}Rücksetzen{/t}</button>
+                            <a class="btn btn-default" href="#" data-search="resistance" data-unit="Ω" style="display:none">
+                                <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}Passende Bauteile im Lager{/t}
+                            </a>
                         </div>
                     </div>
                 </div>
             </form>
         </div>
         <div class="col-md-6 col-sm-12">
-            <form id="resistor6ring" name="resistor6ring">
+            <h4>{t}6 Ringe{/t}</h4>
+            <form class="calculator no-ajax" data-calculator="bands6">
                 <table class="table table-bordered table-condensed" >
                     <thead>
                     <tr>
@@ -257,7 +262,7 @@
                         <td></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="" name="ring6" onclick="calculate6ring()"/>
+                                <input type="radio" value="" name="ring6" checked/>
                                 <label>{t}kein{/t}</label>
                             </div></td>
                     </tr>
@@ -266,18 +271,18 @@
                         <td></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="-2" name="ring4" onclick="calculate6ring()"/>
+                                <input type="radio" value="-2" name="ring4"/>
                                 <label>{t}silber{/t}</label>
                             </div></td>
                         <td></td>
                         <td></td>
                     </tr>
-                    <tr class="ring_{t}gold{/t}">
+                    <tr class="ring_gold">
                         <td></td>
                         <td></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="-1" name="ring4" onclick="calculate6ring()"/>
+                                <input type="radio" value="-1" name="ring4"/>
                                 <label>{t}gold{/t}</label>
                             </div></td>
                         <td></td>
@@ -286,224 +291,224 @@
                     <tr class="ring_black">
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0" name="ring2" onclick="calculate6ring()"/>
+                                <input type="radio" value="0" name="ring2" checked/>
                                 <label>{t}schwarz{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0" name="ring3" onclick="calculate6ring()"/>
+                                <input type="radio" value="0" name="ring3" checked/>
                                 <label>{t}schwarz{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0" name="ring4" onclick="calculate6ring()"/>
+                                <input type="radio" value="0" name="ring4"/>
                                 <label>{t}schwarz{/t}</label>
                             </div></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="200" name="ring6" onclick="calculate6ring()"/>
+                                <input type="radio" value="200" name="ring6"/>
                                 <label>{t}schwarz{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_brown">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="1" name="ring1" onclick="calculate6ring()"/>
+                                <input type="radio" value="1" name="ring1" checked/>
                                 <label>{t}braun{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="1" name="ring2" onclick="calculate6ring()"/>
+                                <input type="radio" value="1" name="ring2"/>
                                 <label>{t}braun{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="1" name="ring3" onclick="calculate6ring()"/>
+                                <input type="radio" value="1" name="ring3"/>
                                 <label>{t}braun{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="1" name="ring4" onclick="calculate6ring()"/>
+                                <input type="radio" value="1" name="ring4"/>
                                 <label>{t}braun{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="1" name="ring5" onclick="calculate6ring()"/>
+                                <input type="radio" value="1" name="ring5" checked/>
                                 <label>{t}braun{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="100" name="ring6" onclick="calculate6ring()"/>
+                                <input type="radio" value="100" name="ring6"/>
                                 <label>{t}braun{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_red">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="2" name="ring1" onclick="calculate6ring()"/>
+                                <input type="radio" value="2" name="ring1"/>
                                 <label>{t}rot{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="2" name="ring2" onclick="calculate6ring()"/>
+                                <input type="radio" value="2" name="ring2"/>
                                 <label>{t}rot{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="2" name="ring3" onclick="calculate6ring()"/>
+                                <input type="radio" value="2" name="ring3"/>
                                 <label>{t}rot{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="2" name="ring4" onclick="calculate6ring()"/>
+                                <input type="radio" value="2" name="ring4" checked/>
                                 <label>{t}rot{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="2" name="ring5" onclick="calculate6ring()"/>
+                                <input type="radio" value="2" name="ring5"/>
                                 <label>{t}rot{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="50" name="ring6" onclick="calculate6ring()"/>
+                                <input type="radio" value="50" name="ring6"/>
                                 <label>{t}rot{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_orange">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="3" name="ring1" onclick="calculate6ring()"/>
+                                <input type="radio" value="3" name="ring1"/>
                                 <label>{t}orange{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="3" name="ring2" onclick="calculate6ring()"/>
+                                <input type="radio" value="3" name="ring2"/>
                                 <label>{t}orange{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="3" name="ring3" onclick="calculate6ring()"/>
+                                <input type="radio" value="3" name="ring3"/>
                                 <label>{t}orange{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="3" name="ring4" onclick="calculate6ring()"/>
+                                <input type="radio" value="3" name="ring4"/>
                                 <label>{t}orange{/t}</label>
                             </div></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="15" name="ring6" onclick="calculate6ring()"/>
+                                <input type="radio" value="15" name="ring6"/>
                                 <label>{t}orange{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_yellow">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="4" name="ring1" onclick="calculate6ring()"/>
+                                <input type="radio" value="4" name="ring1"/>
                                 <label>{t}gelb{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="4" name="ring2" onclick="calculate6ring()"/>
+                                <input type="radio" value="4" name="ring2"/>
                                 <label>{t}gelb{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="4" name="ring3" onclick="calculate6ring()"/>
+                                <input type="radio" value="4" name="ring3"/>
                                 <label>{t}gelb{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="4" name="ring4" onclick="calculate6ring()"/>
+                                <input type="radio" value="4" name="ring4"/>
                                 <label>{t}gelb{/t}</label>
                             </div></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="25" name="ring6" onclick="calculate6ring()"/>
+                                <input type="radio" value="25" name="ring6"/>
                                 <label>{t}gelb{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_green">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="5" name="ring1" onclick="calculate6ring()"/>
+                                <input type="radio" value="5" name="ring1"/>
                                 <label>{t}grün{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="5" name="ring2" onclick="calculate6ring()"/>
+                                <input type="radio" value="5" name="ring2"/>
                                 <label>{t}grün{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="5" name="ring3" onclick="calculate6ring()"/>
+                                <input type="radio" value="5" name="ring3"/>
                                 <label>{t}grün{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="5" name="ring4" onclick="calculate6ring()"/>
+                                <input type="radio" value="5" name="ring4"/>
                                 <label>{t}grün{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0.5" name="ring5" onclick="calculate6ring()"/>
+                                <input type="radio" value="0.5" name="ring5"/>
                                 <label>{t}grün{/t}</label>
                             </div></td>
                         <td></td>
                     </tr>
                     <tr class="ring_blue">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="6" name="ring1" onclick="calculate6ring()"/>
+                                <input type="radio" value="6" name="ring1"/>
                                 <label>{t}blau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="6" name="ring2" onclick="calculate6ring()"/>
+                                <input type="radio" value="6" name="ring2"/>
                                 <label>{t}blau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="6" name="ring3" onclick="calculate6ring()"/>
+                                <input type="radio" value="6" name="ring3"/>
                                 <label>{t}blau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="6" name="ring4" onclick="calculate6ring()"/>
+                                <input type="radio" value="6" name="ring4"/>
                                 <label>{t}blau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0.25" name="ring5" onclick="calculate6ring()"/>
+                                <input type="radio" value="0.25" name="ring5"/>
                                 <label>{t}blau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="10" name="ring6" onclick="calculate6ring()"/>
+                                <input type="radio" value="10" name="ring6"/>
                                 <label>{t}blau{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_violet">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="7" name="ring1" onclick="calculate6ring()"/>
+                                <input type="radio" value="7" name="ring1"/>
                                 <label>{t}violett{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="7" name="ring2" onclick="calculate6ring()"/>
+                                <input type="radio" value="7" name="ring2"/>
                                 <label>{t}violett{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="7" name="ring3" onclick="calculate6ring()"/>
+                                <input type="radio" value="7" name="ring3"/>
                                 <label>{t}violett{/t}</label>
                             </div></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0.1" name="ring5" onclick="calculate6ring()"/>
+                                <input type="radio" value="0.1" name="ring5"/>
                                 <label>{t}violett{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="5" name="ring6" onclick="calculate6ring()"/>
+                                <input type="radio" value="5" name="ring6"/>
                                 <label>{t}violett{/t}</label>
                             </div></td>
                     </tr>
                     <tr class="ring_gray">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="8" name="ring1" onclick="calculate6ring()"/>
+                                <input type="radio" value="8" name="ring1"/>
                                 <label>{t}grau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="8" name="ring2" onclick="calculate6ring()"/>
+                                <input type="radio" value="8" name="ring2"/>
                                 <label>{t}grau{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="8" name="ring3" onclick="calculate6ring()"/>
+                                <input type="radio" value="8" name="ring3"/>
                                 <label>{t}grau{/t}</label>
                             </div></td>
                         <td></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="0.05" name="ring5" onclick="calculate6ring()"/>
+                                <input type="radio" value="0.05" name="ring5"/>
                                 <label>{t}grau{/t}</label>
                             </div></td>
                         <td></td>
                     </tr>
                     <tr class="ring_white">
                         <td><div class="radio radio-small">
-                                <input type="radio" value="9" name="ring1" onclick="calculate6ring()"/>
+                                <input type="radio" value="9" name="ring1"/>
                                 <label>{t}weiß{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="9" name="ring2" onclick="calculate6ring()"/>
+                                <input type="radio" value="9" name="ring2"/>
                                 <label>{t}weiß{/t}</label>
                             </div></td>
                         <td><div class="radio radio-small">
-                                <input type="radio" value="9" name="ring3" onclick="calculate6ring()"/>
+                                <input type="radio" value="9" name="ring3"/>
                                 <label>{t}weiß{/t}</label>
                             </div></td>
                         <td></td>
@@ -512,23 +517,277 @@
                     </tr>
                     </tbody>
                 </table>
-                <div class="">
-                    <div class="row"
+                <div>
                     <div class="row">
                         <label class="col-md-4">{t}Widerstand:{/t}</label>
-                        <p class="col-md-8"><span id="resistance6ring" class="value">100</span><span id="resistance_unit6ring" class="unit">{t}Ohm{/t}</span></p>
+                        <p class="col-md-8"><span class="value" data-output="resistance">?</span></p>
                     </div>
                     <div class="row">
                         <label class="col-md-4">{t}Toleranz:{/t}</label>
-                        <p class="col-md-8"><span id="tolerance6ring" class="value">20</span><span id="tolerance_unit6ring" class="unit">%</span></p>
+                        <p class="col-md-8"><span class="value" data-output="tolerance">?</span><span class="unit">%</span></p>
                     </div>
                     <div class="row">
                         <label class="col-md-4">{t}Temperaturkoeffizient:{/t}</label>
-                        <p class="col-md-8"><span id="tempcoefficient6ring" class="value">20</span><span id="tempcoefficient_unit6ring" class="unit">&sdot; 10<sup>-6</sup> K<sup>-1</sup></span></p>
+                        <p class="col-md-8"><span class="value" data-output="tempcoefficient">?</span><span class="unit">&sdot; 10<sup>-6</sup> K<sup>-1</sup></span></p>
+                    </div>
+                    <div class="row">
+                        <div class="col-md-12">
+                            <button class="btn btn-default calculator-reset" type="button">{t}Rücksetzten{/t}</button>
+                            <a class="btn btn-default" href="#" data-search="resistance" data-unit="Ω" style="display:none">
+                                <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}Passende Bauteile im Lager{/t}
+                            </a>
+                        </div>
+                    </div>
+                </div>
+            </form>
+        </div>
+        <div class="col-md-6 col-sm-12">
+            <h4>{t}5 Ringe{/t}</h4>
+            <form class="calculator no-ajax" data-calculator="bands5">
+                <table class="table table-bordered table-condensed" >
+                    <thead>
+                    <tr>
+                        <th>{t}1. Ring{/t}</th>
+                        <th>{t}2. Ring{/t}</th>
+                        <th>{t}3. Ring{/t}</th>
+                        <th>{t}4. Ring{/t}</th>
+                        <th>{t}5. Ring{/t}</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    <tr class="ring_silver">
+                        <td></td>
+                        <td></td>
+                        <td></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="-2" name="ring4"/>
+                                <label>{t}silber{/t}</label>
+                            </div></td>
+                        <td></td>
+                    </tr>
+                    <tr class="ring_gold">
+                        <td></td>
+                        <td></td>
+                        <td></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="-1" name="ring4"/>
+                                <label>{t}gold{/t}</label>
+                            </div></td>
+                        <td></td>
+                    </tr>
+                    <tr class="ring_black">
+                        <td></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="0" name="ring2" checked/>
+                                <label>{t}schwarz{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="0" name="ring3" checked/>
+                                <label>{t}schwarz{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="0" name="ring4"/>
+                                <label>{t}schwarz{/t}</label>
+                            </div></td>
+                        <td></td>
+                    </tr>
+                    <tr class="ring_brown">
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="1" name="ring1" checked/>
+                                <label>{t}braun{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="1" name="ring2"/>
+                                <label>{t}braun{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="1" name="ring3"/>
+                                <label>{t}braun{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="1" name="ring4"/>
+                                <label>{t}braun{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="1" name="ring5" checked/>
+                                <label>{t}braun{/t}</label>
+                            </div></td>
+                    </tr>
+                    <tr class="ring_red">
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="2" name="ring1"/>
+                                <label>{t}rot{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="2" name="ring2"/>
+                                <label>{t}rot{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="2" name="ring3"/>
+                                <label>{t}rot{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="2" name="ring4" checked/>
+                                <label>{t}rot{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="2" name="ring5"/>
+                                <label>{t}rot{/t}</label>
+                            </div></td>
+                    </tr>
+                    <tr class="ring_orange">
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="3" name="ring1"/>
+                                <label>{t}orange{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="3" name="ring2"/>
+                                <label>{t}orange{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="3" name="ring3"/>
+                                <label>{t}orange{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="3" name="ring4"/>
+                                <label>{t}orange{/t}</label>
+                            </div></td>
+                        <td></td>
+                    </tr>
+                    <tr class="ring_yellow">
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="4" name="ring1"/>
+                                <label>{t}gelb{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="4" name="ring2"/>
+                                <label>{t}gelb{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="4" name="ring3"/>
+                                <label>{t}gelb{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="4" name="ring4"/>
+                                <label>{t}gelb{/t}</label>
+                            </div></td>
+                        <td></td>
+                    </tr>
+                    <tr class="ring_green">
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="5" name="ring1"/>
+                                <label>{t}grün{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="5" name="ring2"/>
+                                <label>{t}grün{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="5" name="ring3"/>
+                                <label>{t}grün{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="5" name="ring4"/>
+                                <label>{t}grün{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="0.5" name="ring5"/>
+                                <label>{t}grün{/t}</label>
+                            </div></td>
+                    </tr>
+                    <tr class="ring_blue">
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="6" name="ring1"/>
+                                <label>{t}blau{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="6" name="ring2"/>
+                                <label>{t}blau{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="6" name="ring3"/>
+                                <label>{t}blau{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="6" name="ring4"/>
+                                <label>{t}blau{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="0.25" name="ring5"/>
+                                <label>{t}blau{/t}</label>
+                            </div></td>
+                    </tr>
+                    <tr class="ring_violet">
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="7" name="ring1"/>
+                                <label>{t}violett{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="7" name="ring2"/>
+                                <label>{t}violett{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="7" name="ring3"/>
+                                <label>{t}violett{/t}</label>
+                            </div></td>
+                        <td></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="0.1" name="ring5"/>
+                                <label>{t}violett{/t}</label>
+                            </div></td>
+                    </tr>
+                    <tr class="ring_gray">
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="8" name="ring1"/>
+                                <label>{t}grau{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="8" name="ring2"/>
+                                <label>{t}grau{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="8" name="ring3"/>
+                                <label>{t}grau{/t}</label>
+                            </div></td>
+                        <td></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="0.05" name="ring5"/>
+                                <label>{t}grau{/t}</label>
+                            </div></td>
+                    </tr>
+                    <tr class="ring_white">
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="9" name="ring1"/>
+                                <label>{t}weiß{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="9" name="ring2"/>
+                                <label>{t}weiß{/t}</label>
+                            </div></td>
+                        <td><div class="radio radio-small">
+                                <input type="radio" value="9" name="ring3"/>
+                                <label>{t}weiß{/t}</label>
+                            </div></td>
+                        <td></td>
+                        <td></td>
+                    </tr>
+                    </tbody>
+                </table>
+                <div>
+                    <div class="row">
+                        <label class="col-md-4">{t}Widerstand:{/t}</label>
+                        <p class="col-md-8"><span class="value" data-output="resistance">?</span></p>
                     </div>
                     <div class="row">
-                        <div class="col-md-9">
-                            <button class="btn btn-default" type="button" onclick="reset6ring()">{t}Rücksetzten{/t}</button>
+                        <label class="col-md-4">{t}Toleranz:{/t}</label>
+                        <p class="col-md-8"><span class="value" data-output="tolerance">?</span><span class="unit">%</span></p>
+                    </div>
+                    <div class="row">
+                        <div class="col-md-12">
+                            <button class="btn btn-default calculator-reset" type="button">{t}Rücksetzten{/t}</button>
+                            <a class="btn btn-default" href="#" data-search="resistance" data-unit="Ω" style="display:none">
+                                <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}Passende Bauteile im Lager{/t}
+                            </a>
                         </div>
                     </div>
                 </div>
@@ -540,52 +799,58 @@
 <div class="panel panel-default">
     <div class="panel-heading">{t}Widerstand wählen{/t}</div>
     <div class="panel-body">
-        <form id="resistor" name="resistor">
+        <form class="calculator no-ajax" data-calculator="best_match">
             <div class="form-group">
                 <label>{t}Widerstandsreihe:{/t}</label>
                 <div>
                     <div class="radio radio-inline">
-                        <input type="radio" value="3" name="resistor_series" onclick="resistor_calculate()"/>
+                        <input type="radio" value="3" name="series"/>
                         <label>E3</label>
                     </div>
                     <div class="radio radio-inline">
-                        <input type="radio" value="6" name="resistor_series" onclick="resistor_calculate()" />
+                        <input type="radio" value="6" name="series"/>
                         <label>E6</label>
                     </div>
                     <div class="radio radio-inline">
-                        <input type="radio" value="12" name="resistor_series" onclick="resistor_calculate()" />
+                        <input type="radio" value="12" name="series"/>
                         <label>E12</label>
                     </div>
                     <div class="radio radio-inline">
-                        <input type="radio" value="24"  name="resistor_series" onclick="resistor_calculate()"/>
+                        <input type="radio" value="24" name="series" checked/>
                         <label>E24</label>
                     </div>
                     <div class="radio radio-inline">
-                        <input type="radio" value="48"  name="resistor_series" onclick="resistor_calculate()"/>
+                        <input type="radio" value="48" name="series"/>
                         <label>E48</label>
                     </div>
                     <div class="radio radio-inline">
-                        <input type="radio" value="96"  name="resistor_series" onclick="resistor_calculate()" />
+                        <input type="radio" value="96" name="series"/>
                         <label>E96</label>
                     </div>
                     <div class="radio radio-inline">
-                        <input type="radio" value="192" name="resistor_series" onclick="resistor_calculate()"/>
+                        <input type="radio" value="192" name="series"/>
                         <label>E192</label>
                     </div>
                 </div>
             </div>
             <div class="form-group">
                 <label>{t}Widerstandswert:{/t}</label>
-                <input type="number" min="0" class="form-control" name="resistor_input">
+                <div class="input-group">
+                    <input type="text" class="form-control" name="resistance" placeholder="4k7">
+                    <span class="input-group-addon">&Omega;</span>
+                </div>
             </div>
             <div class="form-group">
-                <p>{t}Beste Wahl:{/t} <span id="resistor_value">?</span><span id="resistor_unit" class="unit">{t}Ohm{/t}</span></p>
+                <p>{t}Beste Wahl:{/t} <span data-output="resistance">?</span></p>
             </div>
-            <div class="form-goup">
-                <p>{t}Fehler:{/t} <span id="resistor_error">?</span><span class="unit">%</span></p>
+            <div class="form-group">
+                <p>{t}Fehler:{/t} <span data-output="error">?</span><span class="unit">%</span></p>
             </div>
             <div class="form-group">
-                <button type="button" class="btn btn-primary" onclick="resistor_calculate()">{t}Berechne{/t}</button>
+                <button type="button" class="btn btn-default calculator-reset">{t}Rücksetzen{/t}</button>
+                <a class="btn btn-default" href="#" data-search="resistance" data-unit="Ω" style="display:none">
+                    <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}Passende Bauteile im Lager{/t}
+                </a>
             </div>
         </form>
     </div>
@@ -598,36 +863,36 @@
             <img src="{$relative_path}img/calculator/ratio.png" alt="{t}Spannungsteiler{/t}"/>
         </div>
         <div class="col-md-10">
-            <form id="ratio" name="ratio">
+            <form class="calculator no-ajax" data-calculator="ratio" id="ratio">
                 <div class="form-group">
                     <label>{t}Widerstandsreihe:{/t}</label>
                     <div>
                         <div class="radio radio-inline">
-                            <input type="radio" value="3" name="ratio_series" onclick="ratio_calculate()" />
+                            <input type="radio" value="3" name="series"/>
                             <label>E3</label>
                         </div>
                         <div class="radio radio-inline">
-                            <input type="radio" value="6"   name="ratio_series" onclick="ratio_calculate()"/>
+                            <input type="radio" value="6" name="series"/>
                             <label>E6</label>
                         </div>
                         <div class="radio radio-inline">
-                            <input type="radio" value="12"  name="ratio_series" onclick="ratio_calculate()"/>
+                            <input type="radio" value="12" name="series"/>
                             <label>E12</label>
                         </div>
                         <div class="radio radio-inline">
-                            <input type="radio" value="24"  name="ratio_series" onclick="ratio_calculate()" />
+                            <input type="radio" value="24" name="series" checked/>
                             <label>E24</label>
                         </div>
                         <div class="radio radio-inline">
-                            <input type="radio" value="48"  name="ratio_series" onclick="ratio_calculate()" />
+                            <input type="radio" value="48" name="series"/>
                             <label>E48</label>
                         </div>
                         <div class="radio radio-inline">
-                            <input type="radio" value="96"  name="ratio_series" onclick="ratio_calculate()" />
+                            <input type="radio" value="96" name="series"/>
                             <label>E96</label>
                         </div>
                         <div class="radio radio-inline">
-                            <input type="radio" value="192" name="ratio_series" onclick="ratio_calculate()" />
+                            <input type="radio" value="192" name="series"/>
                             <label>E192</label>
                         </div>
                     </div>
@@ -637,12 +902,12 @@
                     <label>{t}Typ:{/t}</label>
                     <div>
                         <div class="radio radio-inline">
-                            <input type="radio" value="1" name="ratio_type" onclick="ratio_calculate()" />
+                            <input type="radio" value="1" name="type"/>
                             <label>{t}Verhältnis{/t}</label>
                         </div>&nbsp;
                         <img src="{$relative_path}img/calculator/v1.png" alt="V=R1/R2"/>&nbsp;
                         <div class="radio radio-inline">
-                            <input type="radio" value="2" name="ratio_type" onclick="ratio_calculate()" />
+                            <input type="radio" value="2" name="type" checked/>
                             <label>{t}Spannungsteiler{/t}</label>
                         </div>&nbsp;
                         <img src="{$relative_path}img/calculator/v2.png" alt="V=R1/(R1+R2)"/>
@@ -650,20 +915,255 @@
                 </div>
                 <div class="form-group">
                     <label>{t}Verhältnis:{/t}</label>
-                    <input type="number" class="form-control" value="" name="ratio_value" size="10"/>
+                    <input type="text" class="form-control" value="" name="ratio" size="10"/>
                     <div class="checkbox">
-                        <input type="checkbox" name="ratio_reciprocal" onclick="ratio_calculate()"/>
+                        <input type="checkbox" name="reciprocal"/>
                         <label>{t}Kehrwert{/t}</label>
                     </div>
                 </div>
-                <!--
                 <div class="form-group">
-                    <span>R<sub>1</sub>=<span id="ratio_r1_value">?</span><span id="ratio_r1_unit" class="unit">kOhm</span>
-                    <span>R<sub>2</sub>=<span id="ratio_r2_value">?</span><span id="ratio_r2_unit" class="unit">kOhm</span>
-                    Fehler: <span id="ratio_error">?</span><span id="ratio_error_unit" class="unit">%</span>
-                </div> -->
+                    <p>
+                        R<sub>1</sub> = <span data-output="r1">?</span>,
+                        R<sub>2</sub> = <span data-output="r2">?</span>,
+                        {t}Fehler:{/t} <span data-output="error">?</span><span class="unit">%</span>
+                    </p>
+                </div>
+                <div class="form-group">
+                    <button type="button" class="btn btn-default calculator-reset">{t}Rücksetzen{/t}</button>
+                    <a class="btn btn-default" href="#" data-search="r1" data-unit="Ω" style="display:none">
+                        <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}R1 im Lager suchen{/t}
+                    </a>
+                    <a class="btn btn-default" href="#" data-search="r2" data-unit="Ω" style="display:none">
+                        <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}R2 im Lager suchen{/t}
+                    </a>
+                </div>
+            </form>
+        </div>
+    </div>
+</div>
+
+<div class="panel panel-default">
+    <div class="panel-heading">{t}SMD-Codes{/t}</div>
+    <div class="panel-body">
+        <div class="col-md-6 col-sm-12">
+            <form class="calculator no-ajax" data-calculator="smd_resistor">
+                <div class="form-group">
+                    <label>{t}Widerstand (z.B. 103, 4702, 4R7, 01C):{/t}</label>
+                    <input type="text" class="form-control" name="code">
+                </div>
+                <div class="form-group">
+                    <p>{t}Wert:{/t} <span data-output="resistance">?</span></p>
+                </div>
+                <div class="form-group">
+                    <a class="btn btn-default" href="#" data-search="resistance" data-unit="Ω" style="display:none">
+                        <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}Passende Bauteile im Lager{/t}
+                    </a>
+                </div>
+            </form>
+        </div>
+        <div class="col-md-6 col-sm-12">
+            <form class="calculator no-ajax" data-calculator="smd_capacitor">
+                <div class="form-group">
+                    <label>{t}Kondensator (z.B. 104, 472J, 4p7, 2n2):{/t}</label>
+                    <input type="text" class="form-control" name="code">
+                </div>
+                <div class="form-group">
+                    <p>{t}Wert:{/t} <span data-output="capacitance">?</span></p>
+                </div>
+                <div class="form-group">
+                    <a class="btn btn-default" href="#" data-search="capacitance" data-unit="F" style="display:none">
+                        <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}Passende Bauteile im Lager{/t}
+                    </a>
+                </div>
+            </form>
+        </div>
+    </div>
+</div>
+
+<div class="panel panel-default">
+    <div class="panel-heading">{t}LED-Vorwiderstand{/t}</div>
+    <div class="panel-body">
+        <form class="calculator no-ajax" data-calculator="led">
+            <div class="row">
+                <div class="form-group col-md-3">
+                    <label>{t}Versorgungsspannung:{/t}</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="supply" value="5">
+                        <span class="input-group-addon">V</span>
+                    </div>
+                </div>
+                <div class="form-group col-md-3">
+                    <label>{t}Flussspannung:{/t}</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="forward" value="2">
+                        <span class="input-group-addon">V</span>
+                    </div>
+                </div>
+                <div class="form-group col-md-2">
+                    <label>{t}Strom:{/t}</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="current" value="20m">
+                        <span class="input-group-addon">A</span>
+                    </div>
+                </div>
+                <div class="form-group col-md-2">
+                    <label>{t}LEDs in Reihe:{/t}</label>
+                    <input type="number" class="form-control" name="count" value="1" min="1">
+                </div>
+                <div class="form-group col-md-2">
+                    <label>{t}Widerstandsreihe:{/t}</label>
+                    <select class="form-control" name="series">
+                        <option value="3">E3</option>
+                        <option value="6">E6</option>
+                        <option value="12">E12</option>
+                        <option value="24" selected>E24</option>
+                        <option value="48">E48</option>
+                        <option value="96">E96</option>
+                        <option value="192">E192</option>
+                    </select>
+                </div>
+            </div>
+            <div class="form-group">
+                <p>
+                    {t}Berechneter Widerstand:{/t} <span data-output="exact">?</span><br>
+                    {t}Beste Wahl:{/t} <span data-output="resistance">?</span><br>
+                    {t}Tatsächlicher Strom:{/t} <span data-output="current">?</span><br>
+                    {t}Verlustleistung im Widerstand:{/t} <span data-output="power">?</span>
+                </p>
+            </div>
+            <div class="form-group">
+                <button type="button" class="btn btn-default calculator-reset">{t}Rücksetzen{/t}</button>
+                <a class="btn btn-default" href="#" data-search="resistance" data-unit="Ω" style="display:none">
+                    <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}Passende Bauteile im Lager{/t}
+                </a>
+            </div>
+        </form>
+    </div>
+</div>
+
+<div class="panel panel-default">
+    <div class="panel-heading">{t}Belasteter Spannungsteiler{/t}</div>
+    <div class="panel-body">
+        <form class="calculator no-ajax" data-calculator="divider">
+            <div class="row">
+                <div class="form-group col-md-3">
+                    <label>{t}Eingangsspannung:{/t}</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="input" value="12">
+                        <span class="input-group-addon">V</span>
+                    </div>
+                </div>
+                <div class="form-group col-md-3">
+                    <label>R<sub>1</sub>:</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="r1" value="10k">
+                        <span class="input-group-addon">&Omega;</span>
+                    </div>
+                </div>
+                <div class="form-group col-md-3">
+                    <label>R<sub>2</sub>:</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="r2" value="4k7">
+                        <span class="input-group-addon">&Omega;</span>
+                    </div>
+                </div>
+                <div class="form-group col-md-3">
+                    <label>{t}Lastwiderstand:{/t}</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="load" placeholder="{t}keiner{/t}">
+                        <span class="input-group-addon">&Omega;</span>
+                    </div>
+                </div>
+            </div>
+            <div class="form-group">
+                <p>
+                    {t}Ausgangsspannung ohne Last:{/t} <span data-output="unloaded">?</span><br>
+                    {t}Ausgangsspannung mit Last:{/t} <span data-output="loaded">?</span><br>
+                    {t}Abweichung:{/t} <span data-output="deviation">?</span><span class="unit">%</span><br>
+                    {t}Strom durch R1:{/t} <span data-output="current">?</span>
+                </p>
+            </div>
+            <div class="form-group">
+                <button type="button" class="btn btn-default calculator-reset">{t}Rücksetzen{/t}</button>
+                <a class="btn btn-default" href="#" data-search="r1" data-unit="Ω" style="display:none">
+                    <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}R1 im Lager suchen{/t}
+                </a>
+                <a class="btn btn-default" href="#" data-search="r2" data-unit="Ω" style="display:none">
+                    <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}R2 im Lager suchen{/t}
+                </a>
+            </div>
+        </form>
+    </div>
+</div>
+
+<div class="panel panel-default">
+    <div class="panel-heading">{t}RC- und LC-Filter{/t}</div>
+    <div class="panel-body">
+        <div class="col-md-6 col-sm-12">
+            <h4>{t}RC-Tiefpass / -Hochpass{/t}</h4>
+            <form class="calculator no-ajax" data-calculator="rc">
+                <div class="form-group">
+                    <label>R:</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="resistance" value="10k">
+                        <span class="input-group-addon">&Omega;</span>
+                    </div>
+                </div>
+                <div class="form-group">
+                    <label>C:</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="capacitance" value="100n">
+                        <span class="input-group-addon">F</span>
+                    </div>
+                </div>
+                <div class="form-group">
+                    <p>
+                        {t}Grenzfrequenz:{/t} <span data-output="frequency">?</span><br>
+                        {t}Zeitkonstante:{/t} <span data-output="time_constant">?</span>
+                    </p>
+                </div>
+                <div class="form-group">
+                    <button type="button" class="btn btn-default calculator-reset">{t}Rücksetzen{/t}</button>
+                    <a class="btn btn-default" href="#" data-search="resistance" data-unit="Ω" style="display:none">
+                        <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}R im Lager suchen{/t}
+                    </a>
+                    <a class="btn btn-default" href="#" data-search="capacitance" data-unit="F" style="display:none">
+                        <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}C im Lager suchen{/t}
+                    </a>
+                </div>
+            </form>
+        </div>
+        <div class="col-md-6 col-sm-12">
+            <h4>{t}LC-Schwingkreis{/t}</h4>
+            <form class="calculator no-ajax" data-calculator="lc">
+                <div class="form-group">
+                    <label>L:</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="inductance" value="10u">
+                        <span class="input-group-addon">H</span>
+                    </div>
+                </div>
+                <div class="form-group">
+                    <label>C:</label>
+                    <div class="input-group">
+                        <input type="text" class="form-control" name="capacitance" value="100n">
+                        <span class="input-group-addon">F</span>
+                    </div>
+                </div>
+                <div class="form-group">
+                    <p>
+                        {t}Resonanzfrequenz:{/t} <span data-output="frequency">?</span><br>
+                        {t}Kennwiderstand:{/t} <span data-output="impedance">?</span>
+                    </p>
+                </div>
                 <div class="form-group">
-                    <button type="button" class="btn btn-primary" value="" onclick="ratio_calculate()">{t}Berechne{/t}</button>
+                    <button type="button" class="btn btn-default calculator-reset">{t}Rücksetzen{/t}</button>
+                    <a class="btn btn-default" href="#" data-search="inductance" data-unit="H" style="display:none">
+                        <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}L im Lager suchen{/t}
+                    </a>
+                    <a class="btn btn-default" href="#" data-search="capacitance" data-unit="F" style="display:none">
+                        <i class="fa fa-search fa-fw" aria-hidden="true"></i> {t}C im Lager suchen{/t}
+                    </a>
                 </div>
             </form>
         </div>
@@ -0,0 +1,186 @@
+{locale path="nextgen/locale" domain="partdb"}
+
+{* The label designer, see label_designer.ts *}
+{if $can_create_labels}
+<div class="panel panel-primary" id="label-designer" data-label-ids="{$label_ids}">
+    <div class="panel-heading"><i class="fa fa-tags" aria-hidden="true"></i> {t}Label-Designer{/t}</div>
+    <div class="panel-body">
+        <div class="row">
+            <div class="col-md-8">
+                <div class="btn-group" style="margin-bottom: 10px;">
+                    <button type="button" class="btn btn-default label-designer-add" data-type="text">
+                        <i class="fa fa-font" aria-hidden="true"></i> {t}Text{/t}
+                    </button>
+                    <button type="button" class="btn btn-default label-designer-add" data-type="barcode">
+                        <i class="fa fa-barcode" aria-hidden="true"></i> {t}Barcode{/t}
+                    </button>
+                    <button type="button" class="btn btn-default label-designer-add" data-type="qr">
+                        <i class="fa fa-qrcode" aria-hidden="true"></i> {t}QR-Code{/t}
+                    </button>
+                    <button type="button" class="btn btn-default label-designer-add" data-type="image">
+                        <i class="fa fa-image" aria-hidden="true"></i> {t}Bild{/t}
+                    </button>
+                </div>
+                <div class="label-designer-workspace" style="background: #eee; padding: 15px; overflow: auto;">
+                    <div id="label-designer-canvas" style="position: relative; box-shadow: 0 0 5px #999;"></div>
+                </div>
+                <p class="help-block">{t}Ziehen Sie die Elemente mit der Maus an die gewünschte Position. Mit dem Griff in der rechten unteren Ecke des ausgewählten Elements wird die Größe geändert. Die Vorschau zeigt die Daten des ausgewählten Bauteils.{/t}</p>
+            </div>
+
+            <div class="col-md-4">
+                <div class="form-group">
+                    <label>{t}Größe:{/t}</label>
+                    <div class="input-group">
+                        <input type="number" class="form-control label-designer-size" data-dimension="width" min="5" max="300" step="0.5" title="{t}Breite{/t}">
+                        <span class="input-group-addon">x</span>
+                        <input type="number" class="form-control label-designer-size" data-dimension="height" min="5" max="300" step="0.5" title="{t}Höhe{/t}">
+                        <span class="input-group-addon">mm</span>
+                    </div>
+                </div>
+
+                <div id="label-designer-properties" hidden>
+                    <div class="form-group">
+                        <label>{t}Position (X / Y):{/t}</label>
+                        <div class="input-group">
+                            <input type="number" class="form-control" data-property="x" min="0" step="0.5">
+                            <span class="input-group-addon">/</span>
+                            <input type="number" class="form-control" data-property="y" min="0" step="0.5">
+                            <span class="input-group-addon">mm</span>
+                        </div>
+                    </div>
+                    <div class="form-group">
+                        <label>{t}Größe (Breite / Höhe):{/t}</label>
+                        <div class="input-group">
+                            <input type="number" class="form-control" data-property="width" min="1" step="0.5">
+                            <span class="input-group-addon">/</span>
+                            <input type="number" class="form-control" data-property="height" min="1" step="0.5">
+                            <span class="input-group-addon">mm</span>
+                        </div>
+                    </div>
+
+                    <div class="label-designer-property-group" data-types="text">
+                        <div class="form-group">
+                            <label>{t}Text:{/t}</label>
+                            <textarea class="form-control" rows="3" data-property="text"></textarea>
+                            <select class="form-control input-sm" id="label-designer-placeholder" style="margin-top: 5px;">
+                                <option value="">{t}Bauteileigenschaft einfügen...{/t}</option>
+                                <option value="%NAME%">{t}Name{/t}</option>
+                                <option value="%DESC%">{t}Beschreibung{/t}</option>
+                                <option value="%COMMENT%">{t}Kommentar{/t}</option>
+                                <option value="%ID%">{t}ID{/t}</option>
+                                <option value="%INSTOCK%">{t}Bestand{/t}</option>
+                                <option value="%MININSTOCK%">{t}Mindestbestand{/t}</option>
+                                <option value="%AVGPRICE%">{t}Durchschnittspreis{/t}</option>
+                                <option value="%CAT%">{t}Kategorie{/t}</option>
+                                <option value="%CAT_FULL%">{t}Kategorie (vollständiger Pfad){/t}</option>
+                                <option value="%FOOT%">{t}Footprint{/t}</option>
+                                <option value="%FOOT_FULL%">{t}Footprint (vollständiger Pfad){/t}</option>
+                                <option value="%MANUFACT%">{t}Hersteller{/t}</option>
+                                <option value="%MANUFACT_FULL%">{t}Hersteller (vollständiger Pfad){/t}</option>
+                                <option value="%STORELOC%">{t}Lagerort{/t}</option>
+                                <option value="%STORELOC_FULL%">{t}Lagerort (vollständiger Pfad){/t}</option>
+                                <option value="%SUPPLIER%">{t}Lieferant{/t}</option>
+                                <option value="%SUPPLIER_FULL%">{t}Lieferant (vollständiger Pfad){/t}</option>
+                                <option value="%ORDER_NR%">{t}Bestellnummer{/t}</option>
+                                <option value="%DATETIME%">{t}Datum und Uhrzeit{/t}</option>
+                            </select>
+                        </div>
+                        <div class="form-group">
+                            <label>{t}Schrift:{/t}</label>
+                            <div class="input-group">
+                                <input type="number" class="form-control" data-property="font_size" min="1" max="72" step="0.5" title="{t}Schriftgröße{/t}">
+                                <span class="input-group-addon">pt</span>
+                            </div>
+                            <select class="form-control" data-property="align" style="margin-top: 5px;">
+                                <option value="left">{t}Links{/t}</option>
+                                <option value="center">{t}Zentrieren{/t}</option>
+                                <option value="right">{t}Rechts{/t}</option>
+                            </select>
+                            <div class="checkbox">
+                                <input type="checkbox" data-property="bold" id="label-designer-bold">
+                                <label for="label-designer-bold"><b>{t}Fett{/t}</b></label>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div class="label-designer-property-group" data-types="image">
+                        <div class="form-group">
+                            <label>{t}Pfad zum Bild:{/t}</label>
+                            <input type="text" class="form-control" data-property="source" placeholder="{t}z.B. data/labels/logo.png{/t}">
+                            <div class="checkbox">
+                                <input type="checkbox" data-property="use_footprint" id="label-designer-use-footprint">
+                                <label for="label-designer-use-footprint">{t}Benutze Footprintbild des Bauteils{/t}</label>
+                            </div>
+                        </div>
+                    </div>
+
+                    <button type="button" class="btn btn-danger btn-sm" id="label-designer-remove">
+                        <i class="fa fa-trash" aria-hidden="true"></i> {t}Element entfernen{/t}
+                    </button>
+                </div>
+            </div>
+        </div>
+
+        <hr>
+
+        <div class="row">
+            <div class="col-md-6">
+                <label>{t}Vorlagen:{/t}</label>
+                <div class="form-group">
+                    <div class="input-group">
+                        <select class="form-control" id="label-designer-templates">
+                            <option value="">{t}Vorlage laden...{/t}</option>
+                        </select>
+                        <span class="input-group-btn">
+                            <button type="button" class="btn btn-default" id="label-designer-template-delete" title="{t}Vorlage löschen{/t}"
+                                    data-confirm="{t}Soll die Vorlage wirklich unwiderruflich gelöscht werden?{/t}" {if !$can_delete_profile}disabled{/if}>
+                                <i class="fa fa-trash" aria-hidden="true"></i>
+                            </button>
+                        </span>
+                    </div>
+                </div>
+                <div class="form-group">
+                    <div class="input-group">
+                        <input type="text" class="form-control" id="label-designer-template-name" placeholder="{t}Name der Vorlage{/t}" {if !$can_save_profile}disabled{/if}>
+                        <span class="input-group-btn">
+                            <button type="button" class="btn btn-success" id="label-designer-template-save" {if !$can_save_profile}disabled{/if}>
+                                <i class="fas fa-save" aria-hidden="true"></i> {t}Vorlage speichern{/t}
+                            </button>
+                        </span>
+                    </div>
+                    <p class="help-block">{t}Wenn bereits eine Vorlage mit diesem Namen existiert, dann wird sie überschrieben!{/t}</p>
+                </div>
+            </div>
+
+            <div class="col-md-6">
+                <label>{t}Bauteile:{/t}</label>
+                <div class="form-group">
+                    <div class="input-group">
+                        <input type="number" class="form-control" id="label-designer-part-id" min="1" placeholder="{t}ID des Bauteils{/t}">
+                        <span class="input-group-btn">
+                            <button type="button" class="btn btn-default" id="label-designer-part-add">
+                                <i class="fa fa-plus" aria-hidden="true"></i> {t}Hinzufügen{/t}
+                            </button>
+                        </span>
+                    </div>
+                    <p class="help-block">{t}Wählen Sie in einer Bauteiltabelle mehrere Bauteile und die Aktion "Labels drucken" aus, um Labels für alle Bauteile zu drucken.{/t}</p>
+                </div>
+                <div class="list-group" id="label-designer-parts"></div>
+                <button type="button" class="btn btn-primary" id="label-designer-print" disabled>
+                    <i class="fa fa-print" aria-hidden="true"></i> {t}Labels drucken{/t} (<span id="label-designer-count">0</span>)
+                </button>
+            </div>
+        </div>
+
+        <div class="alert alert-danger" id="label-designer-error" style="margin: 10px 0 0 0;" hidden></div>
+
+        {* This element is copied for every part in the list *}
+        <div class="label-designer-prototypes" hidden>
+            <div class="list-group-item label-designer-part" style="cursor: pointer;">
+                <button type="button" class="close label-designer-part-remove" title="{t}Entfernen{/t}">&times;</button>
+                <span class="label-designer-part-name"></span>
+            </div>
+        </div>
+    </div>
+</div>
+{/if}
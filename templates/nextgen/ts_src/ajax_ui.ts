@@ -31,8 +31,6 @@ class AjaxUI {
      */
     private constructor()
     {
-        //Make back in the browser go back in history
-        window.onpopstate = this.onPopState;
         $(document).ajaxError(this.onAjaxError.bind(this));
         $(document).ajaxComplete(this.onAjaxComplete.bind(this));
     }
@@ -68,9 +66,32 @@ class AjaxUI {
         let _this = this;
 
         $.ajaxSetup(
-            {beforeSend: function(jqXHR) { _this.xhrPool.push(jqXHR); }
+            {beforeSend: function(jqXHR) { _this.xhrPool.push(jqXHR); },
+                timeout: AjaxErrorHandler.getInstance().getTimeout()
             });
 
+        //The router handles the history from now on
+        Router.getInstance();
+        OfflineManager.getInstance().start();
+        KeyboardShortcuts.getInstance().start();
+        SymbolInput.getInstance().start();
+        BulkEditor.getInstance().start();
+        LocalizedNumberInput.getInstance().start();
+        FilterBuilder.getInstance().start();
+        BarcodeScanner.getInstance().start();
+        ValueParser.getInstance().start();
+        EngineeringCalculator.getInstance().start();
+        LabelDesigner.getInstance().start();
+        StatisticsDashboard.getInstance().start();
+        SearchSuggestions.getInstance().start();
+        LiveUpdates.getInstance().start();
+        TreeDragDrop.getInstance().start();
+        TreeContextMenu.getInstance().start();
+        TableLayouts.getInstance().start();
+        InlineEditor.getInstance().start();
+        BuildPlanner.getInstance().start();
+        OrderCart.getInstance().start();
+
         this.checkRedirect();
 
         /* //Only load start page when on index.php (and no content is loaded already)!
@@ -159,6 +180,11 @@ class AjaxUI {
      * @param options
      */
     private form_beforeSerialize($form, options) {
+        //Normalize the values in engineering notation, if the form is submitted without leaving the input
+        ValueParser.normalizeInputs($form);
+        //The server wants the numbers with a decimal point and without thousands separators
+        LocalizedNumberInput.canonicalizeInputs($form);
+
         $form.find("input[type=checkbox].tristate").each(function(index)  {
             let name = $(this).attr("name");
             let value = $(this).val();
@@ -179,6 +205,8 @@ class AjaxUI {
      */
     private showRequest(formData, jqForm: JQuery<HTMLElement>, options: JQueryFormOptions) : boolean {
         'use strict';
+        //Save the form values, so they are restored when the user goes back.
+        Router.getInstance().saveCurrentState();
         if(!$(jqForm).hasClass("no-progbar")) {
             $('#content').hide(0);
             AjaxUI.getInstance().beforeAjaxSubmit();
@@ -235,22 +263,18 @@ class AjaxUI {
 
     /**
      * Registers every link (except the ones with .link-external or .link-anchor classes) for usage of Ajax.
+     * The router decides if the link is loaded via ajax or opened in a new tab.
+     * Must be called again, when new links are added to the page (e.g. the rows of a server side table).
      */
-    private registerLinks() : void {
+    public registerLinks() : void {
         'use strict';
-        var _this = this;
 
         $("a").not(".link-anchor").not(".link-collapse").not(".link-external").not(".tree-btns")
             .not(".back-to-top").not(".link-datasheet").unbind("click").click(function (event) {
             event.preventDefault();
             let a = $(this);
             if(a.attr("href") != null) {
-                let href : string = addURLparam(a.attr("href"), "ajax"); //We dont need the full version of the page, so request only the content
-                _this.abortAllAjax();
-
-                _this.beforeAjaxSubmit();
-                $('#content').hide(0).load(href + " #content-data");
-                $('#progressbar').show(0);
+                Router.getInstance().navigate(a.attr("href"));
                 return true;
             }
         });
@@ -268,44 +292,22 @@ class AjaxUI {
     /**
      * Called whenever a node from the TreeView is clicked.
      * We use it to start a ajax request, to expand the node and to close the sidebar div on mobile view.
-     * When the link contains "github.com" the link is opened in a new tab: We use this for the help node.
+     * External links (like the help node) are opened in a new tab by the router, so the node is not kept selected.
      * @param event
      * @param {BootstrapTreeViewNodeData} data
      */
     private onNodeSelected(event, data : BootstrapTreeViewNodeData) {
         'use strict';
-        if(data.href.indexOf("github.com") !== -1 || data.href.indexOf("phpdoc") !== -1)  //If the href points to github, then open it in new tab. TODO: Find better solution to detect external links.
+        if(!Router.getInstance().navigate(data.href))
         {
-            openInNewTab(data.href);
             $(this).treeview('toggleNodeSelected',data.nodeId);
         }
-        else
-        {
-            AjaxUI.getInstance().abortAllAjax();
-            $('#content').hide().load(addURLparam(data.href, "ajax") + " #content-data");
-            $('#progressbar').show();
-        }
 
         $(this).treeview('toggleNodeExpanded',data.nodeId);
 
         $("#sidebar").removeClass("in");
     }
 
-    /**
-     * Called whenever a node from the TreeView is clicked.
-     * We use it to start a ajax request, to expand the node and to close the sidebar div on mobile view.
-     * When the link contains "github.com" the link is opened in a new tab: We use this for the help node.
-     * @param event
-     * @param {BootstrapTreeViewNodeData} data
-     */
-    private onNodeContextmenu(event, data : BootstrapTreeViewNodeData) {
-        'use strict';
-
-        if(data.href !== "") {
-            openInNewTab(data.href);
-        }
-    }
-
     /**
      * Request JSON files describing the TreeView nodes and fill them with that.
      */
@@ -336,17 +338,13 @@ class AjaxUI {
     }
 
     /**
-     * Fill a treeview with data from the given url.
+     * Fill a treeview with data from the given data source. The children of the nodes are loaded lazy.
      * @param tree The Jquery selector for the tree (e.g. "#tree-tools")
-     * @param url The url from where the data should be loaded
+     * @param {ApiTreeDataSource} datasource The data source from which the nodes should be loaded (e.g. "categories")
      */
-    public initTree(tree, url) {
-        let node_handler = this.onNodeSelected;
-        let contextmenu_handler = this.onNodeContextmenu;
-
-        $.getJSON(BASE + url, function (data : BootstrapTreeViewNodeData[]) {
-            $(tree).treeview({data: data, enableLinks: false, showIcon: false
-                ,showBorder: true, onNodeSelected: node_handler, onNodeContextmenu: contextmenu_handler }).treeview('collapseAll', { silent: true });
+    public initTree(tree, datasource : ApiTreeDataSource) {
+        SidebarTree.get(tree.replace("#", "")).load(datasource, {
+            onNodeSelected: this.onNodeSelected
         });
     }
 
@@ -356,31 +354,13 @@ class AjaxUI {
 
         switch(datasource) {
             case "categories":
-                ajaxui.initTree("#" + target_id, 'api.php/1.0.0/tree/categories');
-                $( "#" + target_id + "-title").html(text);
-                break;
             case "locations":
-                ajaxui.initTree("#" + target_id, 'api.php/1.0.0/tree/locations');
-                $( "#" + target_id + "-title").html(text);
-                break;
             case "footprints":
-                ajaxui.initTree("#" + target_id, 'api.php/1.0.0/tree/footprints');
-                $("#" + target_id + "-title").html(text);
-                break;
             case "manufacturers":
-                ajaxui.initTree("#" + target_id, 'api.php/1.0.0/tree/manufacturers');
-                $("#" + target_id + "-title").html(text);
-                break;
             case "suppliers":
-                ajaxui.initTree("#" + target_id, 'api.php/1.0.0/tree/suppliers');
-                $("#" + target_id + "-title").html(text);
-                break;
             case "tools":
-                ajaxui.initTree("#" + target_id, 'api.php/1.0.0/tree/tools');
-                $("#" + target_id + "-title").html(text);
-                break;
             case "devices":
-                ajaxui.initTree("#" + target_id, 'api.php/1.0.0/tree/devices');
+                ajaxui.initTree("#" + target_id, datasource);
                 $("#" + target_id + "-title").html(text);
                 break;
         }
@@ -398,12 +378,13 @@ class AjaxUI {
     private getTypeaheadData()
     {
         var _this = this;
-        $.getJSON("api.php/1.0.0/3d_models/files", function(data){
+        let api : PartDbApiClient = PartDbApiClient.getInstance();
+        api.get3dModelFiles().done(function(data){
             _this.model_list = data;
             _this.fillTypeahead();
         });
 
-        $.getJSON("api.php/1.0.0/img_files/files", function(data){
+        api.getFootprintImageFiles().done(function(data){
             _this.img_list = data;
             _this.fillTypeahead();
         });
@@ -441,46 +422,19 @@ class AjaxUI {
     /**
      * Called before a new ajax submit is started. Use this to cleanup, the old page.
      */
-    private beforeAjaxSubmit()
+    public beforeAjaxSubmit()
     {
         //$(".table-sortable").DataTable().fixedHeader.disable();
     }
 
     /**
-     * Called when an error occurs on loading ajax. Outputs the message to the console.
+     * Called when an error occurs on loading ajax. The AjaxErrorHandler shows the error to the user.
      */
     private onAjaxError (event, request, settings) {
         'use strict';
-        //Ignore aborted requests.
-        if (request.statusText =='abort') {
-            return;
-        }
-
-        console.log(event);
-        //If it was a server error and response is not empty, show it to user.
-        if(request.status == 500 && request.responseText !== "")
-        {
-            console.log("Response:" + request.responseText);
-        }
+        AjaxErrorHandler.getInstance().handle(request, settings);
     }
 
-    /**
-     * This function gets called every time, the "back" button in the browser is pressed.
-     * We use it to load the content from history stack via ajax and to rewrite url, so we only have
-     * to load #content-data
-     * @param event
-     */
-    private onPopState(event)
-    {
-        let page : string = location.href;
-        //Go back only when the the target isnt the empty index.
-        if (page.indexOf(".php") !== -1 && page.indexOf("index.php") === -1) {
-            $('#content').hide(0).load(addURLparam(location.href, "ajax") + " #content-data");
-            $('#progressbar').show(0);
-        }
-    }
-
-
     /**
      * Called whenever a Ajax Request was successful completed.
      * We use it to hide the progbar and show the requested content, register some elements on the page for ajax usage
@@ -501,10 +455,18 @@ class AjaxUI {
             return;
         }
 
+        //Failed requests are no new page, they are shown by AjaxErrorHandler and OfflineManager.
+        if (xhr.status == 0 || xhr.status >= 400) {
+            return;
+        }
+
         //Hide progressbar and show Result
         $('#progressbar').hide(0);
         $('#content').fadeIn("fast");
 
+        //Show a banner, if the page came from the offline cache.
+        OfflineManager.getInstance().onPageLoaded(xhr);
+
         this.registerForm();
         this.registerLinks();
         this.registerSubmitBtn();
@@ -535,8 +497,8 @@ class AjaxUI {
         //Push only if it was a "GET" request and requested data was an HTML
         if (settings.type.toLowerCase() !== "post" && settings.dataType !== "json" && settings.dataType !== "jsonp") {
 
-            //Push the cleaned (no ajax request) to history
-            window.history.pushState(null, "", removeURLparam(settings.url, "ajax"));
+            //Push the cleaned (no ajax request) to history, or restore the state, when we went back.
+            Router.getInstance().onPageLoaded(removeURLparam(settings.url, "ajax"));
 
             //Update redirect param in login link:
             $("#login-link").attr("href", "login.php?redirect=" + encodeURIComponent(url));
@@ -594,7 +556,7 @@ $(function(event){
     ajaxui.addStartAction(treeviewBtnInit);
     ajaxui.addStartAction(registerJumpToTop);
     ajaxui.addStartAction(makeTooltips);
-    ajaxui.addStartAction(fixCurrencyEdits);
+    ajaxui.addStartAction(LocalizedNumberInput.init);
     ajaxui.addStartAction(registerAutoRefresh);
     ajaxui.addStartAction(scrollUpForMsg);
     ajaxui.addStartAction(makeSortTable);
@@ -602,8 +564,13 @@ $(function(event){
     ajaxui.addStartAction(makeTriStateCheckbox);
     ajaxui.addStartAction(makeHighlight);
     ajaxui.addStartAction(viewer3d_models);
-    ajaxui.addStartAction(makeGreekInput);
-    ajaxui.addStartAction(makeCharts);
+    ajaxui.addStartAction(registerDefaultShortcuts);
+    ajaxui.addStartAction(CommandPalette.rememberPart);
+    ajaxui.addStartAction(EngineeringCalculator.init);
+    ajaxui.addStartAction(FilterBuilder.init);
+    ajaxui.addStartAction(LabelDesigner.init);
+    ajaxui.addStartAction(StatisticsDashboard.init);
+    ajaxui.addStartAction(OrderCart.init);
 
     ajaxui.addAjaxCompleteAction(addCollapsedClass);
     ajaxui.addAjaxCompleteAction(fixSelectPaginationHeight);
@@ -613,122 +580,30 @@ $(function(event){
     ajaxui.addAjaxCompleteAction(makeTooltips);
     ajaxui.addAjaxCompleteAction(registerX3DOM);
     ajaxui.addAjaxCompleteAction(registerBootstrapSelect);
-    ajaxui.addAjaxCompleteAction(fixCurrencyEdits);
+    ajaxui.addAjaxCompleteAction(LocalizedNumberInput.init);
     ajaxui.addAjaxCompleteAction(registerAutoRefresh);
     ajaxui.addAjaxCompleteAction(scrollUpForMsg);
     ajaxui.addAjaxCompleteAction(rightClickSubmit);
     ajaxui.addAjaxCompleteAction(makeTriStateCheckbox);
     ajaxui.addAjaxCompleteAction(makeHighlight);
     ajaxui.addAjaxCompleteAction(viewer3d_models);
-    ajaxui.addAjaxCompleteAction(makeGreekInput);
-    ajaxui.addAjaxCompleteAction(makeCharts);
+    ajaxui.addAjaxCompleteAction(CommandPalette.rememberPart);
+    ajaxui.addAjaxCompleteAction(EngineeringCalculator.init);
+    ajaxui.addAjaxCompleteAction(FilterBuilder.init);
+    ajaxui.addAjaxCompleteAction(LabelDesigner.init);
+    ajaxui.addAjaxCompleteAction(StatisticsDashboard.init);
+    ajaxui.addAjaxCompleteAction(OrderCart.init);
 
     //ajaxui.addAjaxCompleteAction(makeTypeAhead);
 
     ajaxui.start();
 });
 
-function makeCharts() {
-    $(".chart").each(function(index, element) {
-        let data : any = $(element).data("data");
-        let type : string = $(element).data("type");
-
-        let ctx = (<HTMLCanvasElement> element).getContext("2d");
-        let myChart = new Chart(ctx, {
-            type: type,
-            data: data,
-            options: {
-                scales: {
-                    yAxes: [{
-                        ticks: {
-                            beginAtZero: true
-                        }
-                    }]
-                }
-            }
-        });
-    });
-}
-
-function makeGreekInput() {
-
-    $("input[type=text], textarea, input[type=search]").unbind("keydown").keydown(function (event : KeyboardEvent) {
-        let greek = event.altKey;
-
-        let greek_char : string = "";
-        if (greek){
-            switch(event.key) {
-                case "w": //Omega
-                    greek_char = '\u2126';
-                    break;
-                case "u":
-                case "m": //Micro
-                    greek_char = "\u00B5";
-                    break;
-                case "p": //Phi
-                    greek_char = "\u03C6";
-                    break;
-                case "a": //Alpha
-                    greek_char = "\u03B1";
-                    break;
-                case "b": //Beta
-                    greek_char = "\u03B2";
-                    break;
-                case "c": //Gamma
-                    greek_char = "\u03B3";
-                    break;
-                case "d": //Delta
-                    greek_char = "\u03B4";
-                    break;
-                case "l": //Pound
-                    greek_char = "\u00A3";
-                    break;
-                case "y": //Yen
-                    greek_char = "\u00A5";
-                    break;
-                case "o": //Yen
-                    greek_char = "\u00A4";
-                    break;
-                case "1": //Sum symbol
-                    greek_char = "\u2211";
-                    break;
-                case "2": //Integral
-                    greek_char = "\u222B";
-                    break;
-                case "3": //Less-than or equal
-                    greek_char = "\u2264";
-                    break;
-                case "4": //Greater than or equal
-                    greek_char = "\u2265";
-                    break;
-                case "5": //PI
-                    greek_char = "\u03c0";
-                    break;
-                case "q": //Copyright
-                    greek_char = "\u00A9";
-                    break;
-                case "e": //Euro
-                    greek_char = "\u20AC";
-                    break;
-            }
-
-            if(greek_char=="") return;
-
-            let $txt = $(this);
-            let caretPos = $txt[0].selectionStart;
-            let textAreaTxt = $txt.val();
-            $txt.val(textAreaTxt.substring(0, caretPos) + greek_char + textAreaTxt.substring(caretPos) );
-
-        }
-    });
-    this.greek_once = true;
-}
-
 // noinspection JSUnusedGlobalSymbols
 function makeTypeAhead() {
     if($("#models-search").length && !$("#models-search").hasClass("initialized")) {
         $("#models-search").addClass("initialized");
-        $.getJSON("api.php/1.0.0/3d_models/files", function(data){
+        PartDbApiClient.getInstance().get3dModelFiles().done(function(data){
             //alert("Filled");
             $("#models-search").typeahead({ source:data });
         });
@@ -823,108 +698,123 @@ function makeSortTable() {
         return "*"; //Show default title
     };
 
-    if (!$.fn.DataTable.isDataTable('.table-sortable')) {
-        let table = $('.table-sortable').DataTable({
-            "paging":   false,
-            "ordering": true,
-            "info":     false,
-            "fixedHeader": true,
-            "searching":   false,
-            "select":   $(".table-sortable").hasClass("table-selectable") ? {style: "os", selector: "td:not(.no-select)"} : false,
-            "order": [],
-            "buttons": $(".table-sortable").hasClass("table-export") ? [
-                {
-                    extend:    'copyHtml5',
-                    text:      '<i class="fas fa-copy fa-fw"></i>',
-                    titleAttr: 'Copy',
-                    exportOptions: {
-                        columns: ':not(.no-export)'
-                    }
-                },
-                {
-                    extend:    'excelHtml5',
-                    text:      '<i class="fas fa-file-excel fa-fw"></i>',
-                    titleAttr: 'Excel',
-                    exportOptions: {
-                        columns: ':not(.no-export)'
+    //The column layouts of the user must be applied, before the table is created
+    UserSettings.getInstance().load().always(function () {
+        if (!$.fn.DataTable.isDataTable('.table-sortable')) {
+            //The second column is sorted naturally, even if the columns are reordered
+            $(".table-sortable thead tr").each(function () {
+                $(this).children("th").eq(1).addClass("sort-natural");
+            });
+            let layout_options : object = TableLayouts.getInstance().prepare($(".table-sortable"));
+
+            //Big tables are loaded page by page from the server.
+            let server_side = $(".table-sortable[data-server-side]");
+            let server_options : object = server_side.length ? PartsTable.getInstance().getOptions(server_side) : {};
+
+            let table = $('.table-sortable').DataTable($.extend({
+                "paging":   false,
+                "ordering": true,
+                "info":     false,
+                "fixedHeader": true,
+                "searching":   false,
+                "select":   $(".table-sortable").hasClass("table-selectable") ? {style: "os", selector: "td:not(.no-select)"} : false,
+                "order": [],
+                "buttons": $(".table-sortable").hasClass("table-export") ? [
+                    {
+                        extend:    'copyHtml5',
+                        text:      '<i class="fas fa-copy fa-fw"></i>',
+                        titleAttr: 'Copy',
+                        exportOptions: {
+                            columns: ':not(.no-export)'
+                        }
                     },
-                    messageBottom: exportFooter,
-                    messageTop: exportMessageTop,
-                    title: exportTitle
+                    {
+                        extend:    'excelHtml5',
+                        text:      '<i class="fas fa-file-excel fa-fw"></i>',
+                        titleAttr: 'Excel',
+                        exportOptions: {
+                            columns: ':not(.no-export)'
+                        },
+                        messageBottom: exportFooter,
+                        messageTop: exportMessageTop,
+                        title: exportTitle
 
-                },
-                {
-                    extend:    'csvHtml5',
-                    text:      '<i class="fas fa-file-alt fa-fw"></i>',
-                    titleAttr: 'CSV',
-                    exportOptions: {
-                        columns: ':not(.no-export)'
-                    }
-                },
-                {
-                    extend:    'pdfHtml5',
-                    text:      '<i class="fas fa-file-pdf fa-fw"></i>',
-                    titleAttr: 'PDF',
-                    exportOptions: {
-                        columns: ':not(.no-export)'
                     },
-                    messageBottom: exportFooter,
-                    messageTop: exportMessageTop,
-                    title: exportTitle
-                },
-                {
-                    extend:    'print',
-                    text:      '<i class="fas fa-print fa-fw"></i>',
-                    titleAttr: 'Print',
-                    exportOptions: {
-                        columns: ':not(.no-export)'
+                    {
+                        extend:    'csvHtml5',
+                        text:      '<i class="fas fa-file-alt fa-fw"></i>',
+                        titleAttr: 'CSV',
+                        exportOptions: {
+                            columns: ':not(.no-export)'
+                        }
                     },
-                    messageBottom: exportFooter,
-                    messageTop: exportMessageTop,
-                    title: exportTitle
-                },
-            ] : null,
-            "columnDefs": [
-                {
-                    "targets": [1], type: "natural-nohtml"
-                }, {
-                    targets: 'no-sort', orderable: false
-                }]
-        });
+                    {
+                        extend:    'pdfHtml5',
+                        text:      '<i class="fas fa-file-pdf fa-fw"></i>',
+                        titleAttr: 'PDF',
+                        exportOptions: {
+                            columns: ':not(.no-export)'
+                        },
+                        messageBottom: exportFooter,
+                        messageTop: exportMessageTop,
+                        title: exportTitle
+                    },
+                    {
+                        extend:    'print',
+                        text:      '<i class="fas fa-print fa-fw"></i>',
+                        titleAttr: 'Print',
+                        exportOptions: {
+                            columns: ':not(.no-export)'
+                        },
+                        messageBottom: exportFooter,
+                        messageTop: exportMessageTop,
+                        title: exportTitle
+                    },
+                ] : null,
+                "columnDefs": [
+                    {
+                        "targets": 'sort-natural', type: "natural-nohtml"
+                    }, {
+                        targets: 'no-sort', orderable: false
+                    }]
+            }, server_options, layout_options));
 
-        if($("#auto_sort").val() == true) {
-            table.columns(".order-default").order('asc').draw();
-        }
+            if($("#auto_sort").val() == true && !server_side.length && !layout_options.hasOwnProperty("order")) {
+                table.columns(".order-default").order('asc').draw();
+            }
 
-        table
-            .on( 'select deselect', function ( e, dt, type, indexes ) {
-                let data = table.rows( { selected: true } );
-                let count = data.count();
-                let tmp = [];
-                //Show The select action bar only, if a element is selected.
-                if(count > 0) {
-                    $(".select_actions").show();
-                    $(".selected_n").text(count);
-                    //Build a string containing all parts, that should be modified
-                    for (let n of data[0]) {
-                        tmp.push($(data.row(n).node()).find("input").val());
+            table
+                .on( 'select deselect', function ( e, dt, type, indexes ) {
+                    let data = table.rows( { selected: true } );
+                    let count = data.count();
+                    let tmp = [];
+                    //Show The select action bar only, if a element is selected.
+                    if(count > 0) {
+                        $(".select_actions").show();
+                        $(".selected_n").text(count);
+                        //Build a string containing all parts, that should be modified
+                        for (let n of data[0]) {
+                            tmp.push($(data.row(n).node()).find("input").val());
+                        }
+                    } else {
+                        $(".select_actions").hide();
                     }
-                } else {
-                    $(".select_actions").hide();
-                }
 
-                //Combine all selected IDs into a string.
-                let str = tmp.join();
-                $("input[name='selected_ids']").val(str);
-            } );
+                    //Combine all selected IDs into a string.
+                    let str = tmp.join();
+                    $("input[name='selected_ids']").val(str);
+                } );
 
-        for(let n = 0; n < table.context.length; n++) {
-            let my_panel_header = $(table.table(n).container()).closest(".panel").find(".panel-heading");
+            for(let n = 0; n < table.context.length; n++) {
+                let my_panel_header = $(table.table(n).container()).closest(".panel").find(".panel-heading");
 
-            table.table(n).buttons().container().appendTo(my_panel_header);
-            //table.buttons(n, null).containers().appendTo(my_panel_header);
+                table.table(n).buttons().container().appendTo(my_panel_header);
+                //table.buttons(n, null).containers().appendTo(my_panel_header);
+            }
+
+            TableLayouts.getInstance().init(table);
         }
-    }
+    });
 }
 
 /**
@@ -986,10 +876,10 @@ function treeviewBtnInit() {
         let text = $(this).text() + " \n<span class='caret'></span>"; //Add caret or it will be removed, when written into title
 
         if (mode==="collapse") {
-            $('#' + target).treeview('collapseAll', { silent: true });
+            SidebarTree.get(target).collapseAll();
         }
         else if(mode==="expand") {
-            $('#' + target).treeview('expandAll', { silent: true });
+            SidebarTree.get(target).expandAll();
         } else {
             Cookies.set("tree_datasource_" + target, mode);
             ajaxui.treeLoadDataSource(target, mode);
@@ -1027,20 +917,6 @@ function addCollapsedClass() {
         .children('a[data-toggle="collapse"]').addClass("collapsed");
 }
 
-/**
- * Fix price edit fields. HTML wants prices with a decimal dot, Part-DB gives sometime commas.
- */
-function fixCurrencyEdits() {
-    let inputs = $('input[type=number]').each(function(index, element){
-        let e = $(element);
-        if(e.val() == "" && e.prop("defaultValue").indexOf(",") !== -1)
-        {
-            let newval: string = e.prop("defaultValue").replace(",", ".");
-            e.val(newval);
-        }
-    });
-}
-
 /**
  * Register the autorefresh
  */
@@ -1063,41 +939,6 @@ $("#search-submit").click(function (event) {
     $("#searchbar").removeClass("in");
 });
 
-/**
- * Implements the livesearch for the searchbar.
- * @param object
- * @param {int} threshold
- */
-function livesearch(event, object : any, threshold : int) {
-    //Ignore enter key.
-    if(event.key == "Enter") {
-        return;
-    }
-
-    let $obj = $(object);
-    let q = <string> $obj.val();
-    let form = $obj.closest("form");
-    //Dont show progbar on live search.
-    form.addClass("no-progbar");
-    let xhr = form.data('jqxhr');
-    //If an ajax operation is already ongoing, then stop it.
-    if(typeof xhr !== "undefined") {
-        xhr.abort();
-    }
-    if(q.length >= threshold) {
-        submitForm(form);
-    }
-    else {
-        //Only show link, if the text is shorter than before.
-        if(event.key == "Backspace") {
-            openLink(BASE + "show_search_parts.php?hint");
-        }
-    }
-    //Show progbar, when user presses submit button.
-    form.removeClass("no-progbar");
-}
-
-
 function makeHighlight() {
     let highlight = $("#highlight").val();
     if(typeof highlight !== "undefined" && highlight != "") {
@@ -1136,7 +977,7 @@ function viewer3d_models() {
 
     function node_handler(event, data) {
         dir = data.href;
-        $.getJSON('api.php/1.0.0/3d_models/files/' + dir, function (list) {
+        PartDbApiClient.getInstance().get3dModelFiles(dir).done(function (list) {
             $("#models-picker").empty();
             list.forEach( function (element) {
                 $("<option/>").val(element).text(element).appendTo("#models-picker");
@@ -1147,7 +988,7 @@ function viewer3d_models() {
         });
     }
 
-    $.getJSON('api.php/1.0.0/3d_models/dir_tree', function (tree) {
+    PartDbApiClient.getInstance().get3dModelDirTree().done(function (tree : BootstrapTreeViewNodeData[]) {
         $("#tree-footprint").treeview({ data: tree, enableLinks: false, showIcon: false
             ,showBorder: true, onNodeSelected: node_handler }).treeview('collapseAll', { silent: true });
     });
@@ -0,0 +1,952 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      API Models
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * The error object, which is returned by api.php, when a request failed (see generateError() in api.php).
+ */
+interface ApiError {
+    code : number;
+    errors : Array<{message : string}>;
+}
+
+/**
+ * The fields every structural element (category, location, footprint, etc.) has in the API.
+ */
+interface ApiStructuralElement {
+    id : number;
+    name : string;
+    fullpath : string;
+    parentid : number;
+    level : number;
+}
+
+interface ApiCategory extends ApiStructuralElement {
+    //Only available in verbose mode
+    disable_footprints? : boolean;
+    disable_manufacturers? : boolean;
+    disable_autodatasheets? : boolean;
+    disable_properties? : boolean;
+    default_description? : string;
+    default_comment? : string;
+}
+
+interface ApiLocation extends ApiStructuralElement {
+    //Only available in verbose mode
+    isFull? : boolean;
+}
+
+interface ApiFootprint extends ApiStructuralElement {
+    //Only available in verbose mode
+    filename? : string;
+    filename_valid? : boolean;
+    filename3d? : string;
+    filename3d_valid? : boolean;
+}
+
+interface ApiAttachementType extends ApiStructuralElement {
+}
+
+/**
+ * Manufacturers and suppliers are both companies.
+ */
+interface ApiCompany extends ApiStructuralElement {
+    //Only available in verbose mode
+    address? : string;
+    phone_number? : string;
+    fax_number? : string;
+    website? : string;
+    auto_url? : string;
+}
+
+interface ApiManufacturer extends ApiCompany {
+}
+
+interface ApiSupplier extends ApiCompany {
+}
+
+interface ApiPricedetails {
+    id : number;
+    quantity : number;
+    price : number;
+    minDiscountQuantity : number;
+}
+
+interface ApiOrderdetails {
+    id : number;
+    supplierpartnr : string;
+    //Only available in verbose mode
+    supplier? : ApiSupplier;
+    obsolete? : boolean;
+    supplier_product_url? : string;
+    pricedetails? : ApiPricedetails[];
+}
+
+interface ApiPartProperty {
+    name : string;
+    value : string;
+}
+
+interface ApiPart {
+    id : number;
+    name : string;
+    description : string;
+    description_raw : string;
+    comment : string;
+    comment_raw : string;
+    instock : number;
+    mininstock : number;
+    category : ApiCategory;
+    footprint : ApiFootprint | null;
+    storelocation : ApiLocation | null;
+    manufacturer : ApiManufacturer | null;
+    orderdetails : ApiOrderdetails[];
+    //Only available in verbose mode (single part requests)
+    obsolete? : boolean;
+    visible? : boolean;
+    orderquantity? : number;
+    minorderquantity? : number;
+    manualorder? : boolean;
+    lastmodified? : string;
+    datetime_added? : string;
+    avgprice? : number | null;
+    properties? : ApiPartProperty[];
+    //Only available in search results, if the pictures were requested
+    picture? : string | null;
+}
+
+/**
+ * The options of a part search.
+ */
+interface ApiSearchOptions {
+    /** Only return the best ranked parts. */
+    limit? : number;
+    /** Adds the URL of the picture (or the footprint picture) of every part. */
+    pictures? : boolean;
+}
+
+/**
+ * The actions, which can be executed for multiple parts at once.
+ */
+type ApiBulkAction = "move" | "mininstock" | "obsolete" | "device" | "favor" | "defavor" | "delete";
+
+/**
+ * The result of a bulk action for a single part.
+ */
+interface ApiBulkResult {
+    id : number;
+    name : string;
+    success : boolean;
+    message : string;
+    /** Only for the "move" action: The target before the part was moved (e.g. "c3"), to undo the move. */
+    previous? : string;
+}
+
+/**
+ * The parameters of a table, which is paginated, sorted and filtered on the server.
+ */
+interface ApiPartsTableQuery {
+    offset : number;
+    limit : number;
+    /** The caption of the column to sort by (e.g. "name") */
+    order : string;
+    dir : "asc" | "desc";
+    category? : string;
+    footprint? : string;
+    instock_min? : string;
+    instock_max? : string;
+    price_min? : string;
+    price_max? : string;
+    keyword? : string;
+    /** The filter of the filter builder as JSON (see FilterBuilder) */
+    filter? : string;
+}
+
+/**
+ * A row of a parts table. The fields are the same as in smarty_table.tpl (see Part::buildTemplateTableRowArray()).
+ */
+interface ApiPartsTableRow {
+    id : number;
+    favorite : boolean;
+    show_full_paths : boolean;
+    instock_warning_full_row : boolean;
+    use_attachements_names : boolean;
+    /** The values of the columns, every field has a caption (e.g. "name") and column specific values. */
+    row_fields : Array<{caption : string, [key : string] : any}>;
+}
+
+interface ApiPartsTable {
+    /** The count of all parts. */
+    total : number;
+    /** The count of the parts matching the filters. */
+    filtered : number;
+    rows : ApiPartsTableRow[];
+}
+
+/**
+ * The result of the inline editing of a part (see editPartValues() in lib.php).
+ */
+interface ApiPartValuesResult {
+    /** The result for every changed value, the keys are the captions of the columns (e.g. "instock") */
+    results : {[caption : string] : {success : boolean, message : string}};
+    /** The part with the saved values. */
+    row : ApiPartsTableRow;
+}
+
+/**
+ * A part of a device and what is needed of it to build the device several times (see Device::getBuildPlan()).
+ */
+interface ApiBuildPlanEntry {
+    /** The description is HTML. */
+    part : {id : number, name : string, description : string, footprint : string};
+    /** The full path of the store location (empty if the part has none) */
+    storelocation : string;
+    mount_names : string;
+    mount_quantity : number;
+    needed : number;
+    /** null if the instock is unknown */
+    instock : number;
+    shortfall : number;
+    /** The other devices, which use the part too. */
+    devices : Array<{id : number, name : string, mount_quantity : number, order_quantity : number}>;
+    /** Parts of the same category and footprint, which have enough parts in stock (only for missing parts) */
+    substitutions : Array<{id : number, name : string, description : string, instock : number, storelocation : string}>;
+}
+
+/**
+ * A part in the order cart (see OrderCart::buildLine()). The prices are null, if the part has no prices.
+ */
+interface ApiOrderCartLine {
+    /** The description is HTML. */
+    part : {id : number, name : string, description : string};
+    supplierpartnr : string;
+    supplier_product_url : string;
+    /** The quantity, which is needed at least */
+    needed : number;
+    /** The quantity, which should be ordered (rounded up to the packaging unit and the price breaks) */
+    quantity : number;
+    packaging_unit : number;
+    /** Why the quantity is bigger than the needed quantity */
+    reasons : Array<"minimum" | "packaging" | "price_break">;
+    single_price : number;
+    single_price_string : string;
+    total : number;
+    total_string : string;
+    status : "open" | "ordered";
+    /** The formatted date/time when the part was marked as ordered (null if it is not ordered) */
+    datetime_ordered : string;
+}
+
+/**
+ * The parts of the order cart from one supplier.
+ */
+interface ApiOrderCartGroup {
+    /** null for the parts, which have no selected supplier */
+    supplier : {id : number, name : string};
+    lines : ApiOrderCartLine[];
+    total : number;
+    total_string : string;
+    /** True if not all parts have a price, so the total is incomplete */
+    missing_prices : boolean;
+}
+
+interface ApiOrderCart {
+    total : number;
+    total_string : string;
+    groups : ApiOrderCartGroup[];
+    /** The names of the formats of the order files, the keys are the IDs of the formats. */
+    export_formats : {[format : string] : string};
+}
+
+/**
+ * The status, which can be set for the parts of the order cart. "received" books the ordered parts into the stock.
+ */
+type ApiOrderCartStatus = "open" | "ordered" | "received";
+
+/**
+ * The modules of a barcode (see BaseLabel::generateBarcodeModules()).
+ */
+interface ApiBarcode {
+    /** The content of the barcode (e.g. "0000012") */
+    content : string;
+    /** The size of the barcode in modules. */
+    width : number;
+    height : number;
+    /** The dark modules as [x, y, width, height]. */
+    rects : number[][];
+}
+
+/**
+ * The templates of the label designer (name => layout).
+ */
+interface ApiLabelTemplates {
+    [name : string] : LabelLayout;
+}
+
+/**
+ * The elements, which can be shown in the statistics of the most used elements.
+ */
+type ApiStatisticsType = "categories" | "locations" | "footprints" | "manufacturers" | "instock";
+
+/**
+ * An element in the statistics of the most used elements. For the type "instock", the elements are parts and the
+ * count is their instock.
+ */
+interface ApiStatisticsEntry {
+    id : number;
+    name : string;
+    count : number;
+}
+
+/**
+ * The values of a day in the history of the statistics (see StatisticsHelpers::getSnapshots()).
+ */
+interface ApiStatisticsSnapshot {
+    /** The date like "2018-12-24" */
+    date : string;
+    parts_count : number;
+    instock_count : number;
+    value : number;
+}
+
+/**
+ * A change of an element, which was recorded on the server.
+ */
+interface ApiChange {
+    id : number;
+    /** The database table of the element (e.g. "parts" or "categories") */
+    table : string;
+    element_id : number;
+    change : "created" | "updated" | "deleted";
+    /** True if the change was made by the current user. */
+    own : boolean;
+}
+
+interface ApiChanges {
+    /** The ID of the last change, which must be passed to the next request. */
+    last_id : number;
+    changes : ApiChange[];
+}
+
+interface ApiSystemInfo {
+    version : string;
+    gitBranch : string;
+    gitCommit : string;
+}
+
+/**
+ * The settings of the user interface, which the current user has saved (key => value).
+ */
+interface ApiUserSettings {
+    [key : string] : any;
+}
+
+/**
+ * The column layouts of a table type, which were shared by the users (name => layout).
+ */
+interface ApiTableLayouts {
+    [name : string] : {
+        layout : TableLayout;
+        /** The name of the user, who has shared the layout. */
+        user : string;
+        /** True, if the layout was shared by the current user (only he can overwrite or delete it). */
+        own : boolean;
+    };
+}
+
+/**
+ * A node of a treeview, like it is generated by buildBootstrapTree() or treeviewNode()
+ */
+interface ApiTreeNode {
+    text : string;
+    href? : string;
+    selectable? : boolean;
+    icon? : string;
+    nodes? : ApiTreeNode[];
+    //Only available for lazy loaded and searched trees
+    id? : number;
+    lazyLoad? : boolean;
+    searchResult? : boolean;
+}
+
+/**
+ * The data sources, for which api.php can generate a tree.
+ */
+type ApiTreeDataSource = "categories" | "locations" | "footprints" | "manufacturers" | "suppliers" | "devices" | "tools";
+
+/**
+ * The data sources, which contain structural elements (all except "tools").
+ */
+type ApiStructuralTreeDataSource = "categories" | "locations" | "footprints" | "manufacturers" | "suppliers" | "devices";
+
+/**
+ * The data sources, whose elements can be moved to another parent element.
+ */
+type ApiMovableTreeDataSource = "categories" | "locations" | "footprints" | "devices";
+
+/**
+ * The result of moving an element of a tree.
+ */
+interface ApiTreeMove {
+    id : number;
+    parent_id : number;
+    /** The parent before the move (0 for the top level), to undo the move. */
+    old_parent_id : number;
+}
+
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      PartDbApiClient Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * A typed wrapper around the routes of api.php (version 1.0.0).
+ * All methods return the jqXHR object of the request, so callbacks can be attached via done(), fail() or then().
+ */
+class PartDbApiClient {
+
+    private static singleton : PartDbApiClient;
+
+    public static readonly API_VERSION : string = "1.0.0";
+
+    /**
+     * Gets a instance of PartDbApiClient. If no instance exits, then a new one is created.
+     * @returns {PartDbApiClient} A instance of PartDbApiClient.
+     */
+    public static getInstance() : PartDbApiClient
+    {
+        if(PartDbApiClient.singleton == null || PartDbApiClient.singleton == undefined)
+        {
+            PartDbApiClient.singleton = new PartDbApiClient();
+        }
+        return PartDbApiClient.singleton;
+    }
+
+    /****************************************************************************
+     * Structural elements
+     ***************************************************************************/
+
+    public getCategory(id : number) : JQuery.jqXHR<ApiCategory>
+    {
+        return this.get<ApiCategory>("categories/" + id);
+    }
+
+    public getLocation(id : number) : JQuery.jqXHR<ApiLocation>
+    {
+        return this.get<ApiLocation>("locations/" + id);
+    }
+
+    public getFootprint(id : number) : JQuery.jqXHR<ApiFootprint>
+    {
+        return this.get<ApiFootprint>("footprints/" + id);
+    }
+
+    public getManufacturer(id : number) : JQuery.jqXHR<ApiManufacturer>
+    {
+        return this.get<ApiManufacturer>("manufacturers/" + id);
+    }
+
+    public getSupplier(id : number) : JQuery.jqXHR<ApiSupplier>
+    {
+        return this.get<ApiSupplier>("suppliers/" + id);
+    }
+
+    public getAttachementType(id : number) : JQuery.jqXHR<ApiAttachementType>
+    {
+        return this.get<ApiAttachementType>("attachementtypes/" + id);
+    }
+
+    /****************************************************************************
+     * Parts
+     ***************************************************************************/
+
+    /**
+     * Gets a single part (in verbose mode, so all fields are available).
+     * @param {number} id The ID of the part.
+     */
+    public getPart(id : number) : JQuery.jqXHR<ApiPart>
+    {
+        return this.get<ApiPart>("parts/" + id);
+    }
+
+    public getAllParts() : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts");
+    }
+
+    public getNoPriceParts() : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts/noprice");
+    }
+
+    public getOrderedParts() : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts/ordered");
+    }
+
+    public getObsoleteParts() : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts/obsolete");
+    }
+
+    public getPartsByCategory(id : number) : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts/by-category/" + id);
+    }
+
+    public getPartsByLocation(id : number) : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts/by-location/" + id);
+    }
+
+    public getPartsByFootprint(id : number) : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts/by-footprint/" + id);
+    }
+
+    public getPartsByManufacturer(id : number) : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts/by-manufacturer/" + id);
+    }
+
+    public getPartsBySupplier(id : number) : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts/by-supplier/" + id);
+    }
+
+    /**
+     * Search parts, whose name or description contains the given keyword.
+     * The parts, whose name matches the keyword best, come first.
+     * @param {string} keyword The keyword to search for.
+     * @param {ApiSearchOptions} options The options of the search.
+     */
+    public searchPartsByKeyword(keyword : string, options : ApiSearchOptions = {}) : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts/by-keyword/" + encodeURIComponent(keyword), options);
+    }
+
+    /**
+     * Search parts, whose name or description matches the given regular expression.
+     * @param {string} regex The regular expression (without delimiters).
+     * @param {ApiSearchOptions} options The options of the search.
+     */
+    public searchPartsByRegex(regex : string, options : ApiSearchOptions = {}) : JQuery.jqXHR<ApiPart[]>
+    {
+        return this.get<ApiPart[]>("parts/by-regex/" + encodeURIComponent(regex), options);
+    }
+
+    /**
+     * Gets a page of all parts matching the filters, like it is shown in the table of all parts.
+     * @param {ApiPartsTableQuery} query The page, the sort order and the filters.
+     */
+    public getPartsTable(query : ApiPartsTableQuery) : JQuery.jqXHR<ApiPartsTable>
+    {
+        return this.get<ApiPartsTable>("parts/table", query);
+    }
+
+    /**
+     * Withdraws or adds parts. The request fails, if there are not enough parts in stock or the instock is unknown.
+     * @param {number} id The ID of the part.
+     * @param {number} change The number of added parts (negative values withdraw parts).
+     * @returns The request, which returns the changed part.
+     */
+    public changeInstock(id : number, change : number) : JQuery.jqXHR<ApiPart>
+    {
+        return this.send<ApiPart>("POST", "parts/" + id + "/instock", {change: change});
+    }
+
+    /**
+     * Executes an action for multiple parts. Parts, for which the action failed, are reported in the results.
+     * The request fails, if the action or the parameters are invalid.
+     * @param {ApiBulkAction} action The action (e.g. "move").
+     * @param {number[]} ids The IDs of the parts.
+     * @param {object} params The parameters of the action (e.g. {target: "c12"}), see bulkEditParts() in lib.php
+     */
+    public bulkEditParts(action : ApiBulkAction, ids : number[], params : object = {}) : JQuery.jqXHR<ApiBulkResult[]>
+    {
+        return this.send<ApiBulkResult[]>("POST", "parts/bulk", {action: action, ids: ids, params: params});
+    }
+
+    /**
+     * Changes single values of a part, like they are edited in the part tables. Values, which could not be saved,
+     * are reported in the results.
+     * @param {number} id The ID of the part.
+     * @param {object} values The new values, the keys are the captions of the columns (e.g. {instock: 5})
+     * @param {string} table_type The type of the table, for which the changed row is returned (e.g. "all_parts")
+     */
+    public editPartValues(id : number, values : {[caption : string] : any}, table_type : string) : JQuery.jqXHR<ApiPartValuesResult>
+    {
+        return this.send<ApiPartValuesResult>("PATCH", "parts/" + id, {values: values, table_type: table_type});
+    }
+
+    /**
+     * Gets the modules of the barcode of a part, so it can be drawn in the browser.
+     * @param {number} id The ID of the part.
+     * @param {"EAN8" | "QR"} type The type of the barcode.
+     */
+    public getPartBarcode(id : number, type : "EAN8" | "QR") : JQuery.jqXHR<ApiBarcode>
+    {
+        return this.get<ApiBarcode>("parts/" + id + "/barcode/" + type);
+    }
+
+    /****************************************************************************
+     * Devices
+     ***************************************************************************/
+
+    /**
+     * Gets what is needed to build the device several times.
+     * @param {number} id The ID of the device.
+     * @param {number} quantity How often the device should be built.
+     */
+    public getBuildPlan(id : number, quantity : number) : JQuery.jqXHR<ApiBuildPlanEntry[]>
+    {
+        return this.get<ApiBuildPlanEntry[]>("devices/" + id + "/build-plan", {quantity: quantity});
+    }
+
+    /**
+     * Withdraws the parts for building the device several times. The request fails (and nothing is withdrawn), if
+     * there are not enough parts in stock.
+     * @param {number} id The ID of the device.
+     * @param {number} quantity How often the device is built.
+     * @returns The request, which returns the build plan with the new instocks.
+     */
+    public buildDevice(id : number, quantity : number) : JQuery.jqXHR<ApiBuildPlanEntry[]>
+    {
+        return this.send<ApiBuildPlanEntry[]>("POST", "devices/" + id + "/build", {quantity: quantity});
+    }
+
+    /****************************************************************************
+     * Order cart
+     ***************************************************************************/
+
+    /**
+     * Gets the parts to order, grouped by their supplier.
+     */
+    public getOrderCart() : JQuery.jqXHR<ApiOrderCart>
+    {
+        return this.get<ApiOrderCart>("order-cart");
+    }
+
+    /**
+     * Gets the order file for a supplier, which can be uploaded to the shop of the supplier.
+     * @param {number} supplier_id The ID of the supplier (0 for the parts without a supplier).
+     * @param {string} format The ID of the format (see ApiOrderCart.export_formats).
+     * @param {number[]} part_ids The parts, which should be exported (all parts of the supplier if empty).
+     */
+    public exportOrderCart(supplier_id : number, format : string, part_ids : number[] = []) : JQuery.jqXHR<{filename : string, content : string}>
+    {
+        return this.get<{filename : string, content : string}>("order-cart/" + supplier_id + "/export",
+            {format: format, parts: part_ids.join(",")});
+    }
+
+    /**
+     * Changes the status of parts in the order cart.
+     * @param {number[]} part_ids The IDs of the parts.
+     * @param {ApiOrderCartStatus} status The new status.
+     * @returns The request, which returns the new order cart.
+     */
+    public setOrderCartStatus(part_ids : number[], status : ApiOrderCartStatus) : JQuery.jqXHR<ApiOrderCart>
+    {
+        return this.send<ApiOrderCart>("POST", "order-cart/status", {parts: part_ids, status: status});
+    }
+
+    /****************************************************************************
+     * Labels
+     ***************************************************************************/
+
+    /**
+     * Gets all templates of the label designer.
+     */
+    public getLabelTemplates() : JQuery.jqXHR<ApiLabelTemplates>
+    {
+        return this.get<ApiLabelTemplates>("labels/templates");
+    }
+
+    /**
+     * Saves a template of the label designer. An existing template with the same name is overwritten.
+     * @param {string} name The name of the template.
+     * @param {LabelLayout} layout The layout of the label.
+     */
+    public saveLabelTemplate(name : string, layout : LabelLayout) : JQuery.jqXHR<LabelLayout>
+    {
+        return this.send<LabelLayout>("PUT", "labels/templates/" + encodeURIComponent(name), {layout: layout});
+    }
+
+    /**
+     * Deletes a template of the label designer.
+     * @param {string} name The name of the template.
+     */
+    public deleteLabelTemplate(name : string) : JQuery.jqXHR<{name : string}>
+    {
+        return this.send<{name : string}>("DELETE", "labels/templates/" + encodeURIComponent(name), {});
+    }
+
+    /****************************************************************************
+     * Statistics
+     ***************************************************************************/
+
+    /**
+     * Gets the most used elements of the given type, sorted by their count.
+     * @param {ApiStatisticsType} type The type of the elements (e.g. "categories").
+     * @param {number} limit The maximum number of elements.
+     */
+    public getMostUsedStatistics(type : ApiStatisticsType, limit : number = 25) : JQuery.jqXHR<ApiStatisticsEntry[]>
+    {
+        return this.get<ApiStatisticsEntry[]>("statistics/most-used/" + type, {limit: limit});
+    }
+
+    /**
+     * Gets the daily part count and stock value of the last days, the oldest day first.
+     * @param {number} days The number of days.
+     */
+    public getStatisticsHistory(days : number = 90) : JQuery.jqXHR<ApiStatisticsSnapshot[]>
+    {
+        return this.get<ApiStatisticsSnapshot[]>("statistics/history", {days: days});
+    }
+
+    /**
+     * Saves the current part count and stock value as snapshot of today, so it is contained in the history.
+     */
+    public saveStatisticsSnapshot() : JQuery.jqXHR<ApiStatisticsSnapshot>
+    {
+        return this.send<ApiStatisticsSnapshot>("POST", "statistics/snapshot", {});
+    }
+
+    /****************************************************************************
+     * Changes
+     ***************************************************************************/
+
+    /**
+     * Gets the changes of the elements, which were made after the given change. The server waits until there are
+     * changes, but not longer than the given time (long polling).
+     * @param {number} since The ID of the last known change. Use null to only get the ID of the last change.
+     * @param {number} wait The maximum time in seconds, the server waits for changes (limited by the config).
+     */
+    public getChanges(since : number = null, wait : number = 10) : JQuery.jqXHR<ApiChanges>
+    {
+        //The request takes longer than the normal timeout, it must not be aborted when another page is loaded and
+        //its errors are handled by the caller (not by AjaxErrorHandler)
+        return $.ajax({
+            url: this.getURL("changes"),
+            data: since !== null ? {since: since, wait: wait} : {},
+            dataType: "json",
+            global: false,
+            timeout: (wait + 10) * 1000,
+            beforeSend: $.noop
+        });
+    }
+
+    /****************************************************************************
+     * System
+     ***************************************************************************/
+
+    public getSystemInfo() : JQuery.jqXHR<ApiSystemInfo>
+    {
+        return this.get<ApiSystemInfo>("system/info");
+    }
+
+    /****************************************************************************
+     * User
+     ***************************************************************************/
+
+    /**
+     * Gets the settings of the user interface, which the current user has saved.
+     */
+    public getUserSettings() : JQuery.jqXHR<ApiUserSettings>
+    {
+        return this.get<ApiUserSettings>("user/settings");
+    }
+
+    /**
+     * Saves a setting of the user interface for the current user. Not possible for the anonymous user.
+     * @param {string} key The key of the setting (e.g. "keymap")
+     * @param value The new value, which must be serializable as JSON. Use null to remove the setting.
+     * @returns The request, which returns all settings of the user.
+     */
+    public setUserSetting(key : string, value : any) : JQuery.jqXHR<ApiUserSettings>
+    {
+        return this.send<ApiUserSettings>("PUT", "user/settings/" + encodeURIComponent(key), {value: value});
+    }
+
+    /**
+     * Gets the column layouts of a table type, which were shared by the users.
+     * @param {string} type The table type (e.g. "category_parts")
+     */
+    public getTableLayouts(type : string) : JQuery.jqXHR<ApiTableLayouts>
+    {
+        return this.get<ApiTableLayouts>("tables/" + encodeURIComponent(type) + "/layouts");
+    }
+
+    /**
+     * Shares a column layout of a table type with the other users. An existing layout with the same name is
+     * overwritten, if it was shared by the current user.
+     * @param {string} type The table type (e.g. "category_parts")
+     * @param {string} name The name of the layout.
+     * @param {TableLayout} layout The layout.
+     */
+    public shareTableLayout(type : string, name : string, layout : TableLayout) : JQuery.jqXHR<TableLayout>
+    {
+        return this.send<TableLayout>("PUT", "tables/" + encodeURIComponent(type) + "/layouts/"
+            + encodeURIComponent(name), {layout: layout});
+    }
+
+    /**
+     * Deletes a shared column layout. Only possible for the user, who has shared it.
+     * @param {string} type The table type (e.g. "category_parts")
+     * @param {string} name The name of the layout.
+     */
+    public deleteTableLayout(type : string, name : string) : JQuery.jqXHR<{name : string}>
+    {
+        return this.send<{name : string}>("DELETE", "tables/" + encodeURIComponent(type) + "/layouts/"
+            + encodeURIComponent(name), {});
+    }
+
+    /****************************************************************************
+     * Trees
+     ***************************************************************************/
+
+    /**
+     * Gets the treeview nodes for the given data source.
+     * @param {ApiTreeDataSource} datasource The data source of the tree (e.g. "categories")
+     * @param {number} root_id When given, only the subtree below the element with this ID is returned.
+     * Not supported for the "tools" data source.
+     */
+    public getTree(datasource : ApiTreeDataSource, root_id? : number) : JQuery.jqXHR<ApiTreeNode[]>
+    {
+        let route : string = "tree/" + datasource;
+        if(typeof root_id !== "undefined" && datasource !== "tools") {
+            route += "/" + root_id;
+        }
+        return this.get<ApiTreeNode[]>(route);
+    }
+
+    /**
+     * Gets only the first levels of the tree for the given data source. Nodes whose children are not loaded,
+     * have the lazyLoad flag set. Their children can be loaded with the ID of the node as root_id.
+     * Not supported for the "tools" data source.
+     * @param {ApiTreeDataSource} datasource The data source of the tree (e.g. "categories")
+     * @param {number} root_id The ID of the element, whose children should be returned. 0 for the whole tree.
+     * @param {number} depth How many levels should be loaded.
+     * @param {number[]} expanded The IDs of elements, whose children should always be loaded (and expanded).
+     */
+    public getLazyTree(datasource : ApiTreeDataSource, root_id : number, depth : number, expanded : number[] = []) : JQuery.jqXHR<ApiTreeNode[]>
+    {
+        return this.get<ApiTreeNode[]>("tree/" + datasource + "/" + root_id, {depth: depth, expanded: expanded.join(",")});
+    }
+
+    /**
+     * Gets the tree for the given data source, which only contains the elements matching the keyword and their
+     * parents. The matching nodes have the searchResult flag set.
+     * Not supported for the "tools" data source.
+     * @param {ApiTreeDataSource} datasource The data source of the tree (e.g. "categories")
+     * @param {string} keyword The keyword to search for (case insensitive).
+     */
+    public searchTree(datasource : ApiTreeDataSource, keyword : string) : JQuery.jqXHR<ApiTreeNode[]>
+    {
+        return this.get<ApiTreeNode[]>("tree/" + datasource, {search: keyword});
+    }
+
+    /**
+     * Moves an element of a tree to another parent element.
+     * @param {ApiMovableTreeDataSource} datasource The data source of the tree (e.g. "categories")
+     * @param {number} id The ID of the element.
+     * @param {number} parent_id The ID of the new parent element, 0 for the top level.
+     */
+    public moveTreeElement(datasource : ApiMovableTreeDataSource, id : number, parent_id : number) : JQuery.jqXHR<ApiTreeMove>
+    {
+        return this.send<ApiTreeMove>("PUT", "tree/" + datasource + "/" + id + "/parent", {parent_id: parent_id});
+    }
+
+    /**
+     * Deletes an element of a tree. Its subelements are moved to its parent element.
+     * @param {ApiStructuralTreeDataSource} datasource The data source of the tree (e.g. "categories")
+     * @param {number} id The ID of the element.
+     */
+    public deleteTreeElement(datasource : ApiStructuralTreeDataSource, id : number) : JQuery.jqXHR<{id : number}>
+    {
+        return this.send<{id : number}>("DELETE", "tree/" + datasource + "/" + id, {});
+    }
+
+    /****************************************************************************
+     * Files
+     ***************************************************************************/
+
+    /**
+     * Gets a tree, containing all directories with 3D models.
+     */
+    public get3dModelDirTree() : JQuery.jqXHR<ApiTreeNode[]>
+    {
+        return this.get<ApiTreeNode[]>("3d_models/dir_tree");
+    }
+
+    /**
+     * Gets a list of all 3D model files (relative to the models/ folder).
+     * @param {string} dir When given, only the files in this directory are returned (relative to the directory).
+     */
+    public get3dModelFiles(dir? : string) : JQuery.jqXHR<string[]>
+    {
+        if(typeof dir !== "undefined" && dir !== "") {
+            return this.get<string[]>("3d_models/files/" + encodeURIComponent(dir));
+        }
+        return this.get<string[]>("3d_models/files");
+    }
+
+    /**
+     * Gets a list of all footprint images (relative to the img/footprints/ folder).
+     */
+    public getFootprintImageFiles() : JQuery.jqXHR<string[]>
+    {
+        return this.get<string[]>("img_files/files");
+    }
+
+    /****************************************************************************
+     * Helpers
+     ***************************************************************************/
+
+    /**
+     * Returns the absolute URL for the given route.
+     * @param {string} route The route relative to the API version (e.g. "parts/1")
+     * @returns {string} The URL, which can be used for requests.
+     */
+    public getURL(route : string) : string
+    {
+        return BASE + "api.php/" + PartDbApiClient.API_VERSION + "/" + route;
+    }
+
+    /**
+     * Extracts the error message from a failed API request.
+     * @param {JQuery.jqXHR} xhr The jqXHR of the failed request.
+     * @returns {string} The message returned by the server, or the HTTP status text if none was returned.
+     */
+    public static getErrorMessage(xhr : JQuery.jqXHR) : string
+    {
+        let error = <ApiError> xhr.responseJSON;
+        if(typeof error !== "undefined" && error !== null && error.errors && error.errors.length > 0) {
+            return error.errors.map(function (e) { return e.message; }).join("\n");
+        }
+        return xhr.statusText;
+    }
+
+    private get<T>(route : string, params? : object) : JQuery.jqXHR<T>
+    {
+        return $.getJSON(this.getURL(route), params);
+    }
+
+    /**
+     * Sends the data as JSON body to the given route.
+     * @param {string} method The HTTP method (e.g. "POST" or "PUT")
+     */
+    private send<T>(method : string, route : string, data : object) : JQuery.jqXHR<T>
+    {
+        return $.ajax({
+            url: this.getURL(route),
+            method: method,
+            contentType: "application/json",
+            data: JSON.stringify(data),
+            dataType: "json"
+        });
+    }
+}
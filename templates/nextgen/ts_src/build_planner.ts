@@ -0,0 +1,279 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      BuildPlanner Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * The build planner on the device pages. It shows for a number of devices, which parts are missing, which other
+ * devices need the same parts and which parts could be used instead. The parts can be withdrawn from the stock and
+ * a pick list (ordered by store location) can be printed.
+ */
+class BuildPlanner {
+
+    private static singleton : BuildPlanner;
+
+    /** The last calculated plan and the quantity it was calculated for. */
+    private plan : ApiBuildPlanEntry[] = null;
+    private quantity : number = 0;
+
+    /**
+     * Gets a instance of BuildPlanner. If no instance exits, then a new one is created.
+     * @returns {BuildPlanner} A instance of BuildPlanner.
+     */
+    public static getInstance() : BuildPlanner
+    {
+        if(BuildPlanner.singleton == null || BuildPlanner.singleton == undefined)
+        {
+            BuildPlanner.singleton = new BuildPlanner();
+        }
+        return BuildPlanner.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the handlers of the build planner. Called by AjaxUI.start()
+     * The planner is part of the page content, so the handlers are delegated to the document.
+     */
+    public start()
+    {
+        let _this = this;
+
+        $(document).on("click", "#build-planner-calculate", function () {
+            _this.calculate();
+        }).on("keydown", "#build-planner-quantity", function (event) {
+            if(event.key === "Enter") {
+                event.preventDefault();
+                _this.calculate();
+            }
+        }).on("click", "#build-planner-print", function () {
+            _this.print();
+        }).on("click", "#build-planner-build", function (this : HTMLElement) {
+            let message : string = $(this).data("confirm");
+            if(confirm(message)) {
+                _this.build();
+            }
+        });
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Returns the quantity entered by the user or 0 if it is not a positive integer.
+     */
+    private static getQuantity() : number
+    {
+        let quantity : number = Number($("#build-planner-quantity").val());
+        if(!isFinite(quantity) || quantity < 1 || Math.floor(quantity) !== quantity) {
+            return 0;
+        }
+        return quantity;
+    }
+
+    /**
+     * Loads the build plan for the entered quantity and shows it.
+     */
+    private calculate()
+    {
+        let quantity = BuildPlanner.getQuantity();
+        if(quantity === 0) {
+            $("#build-planner-quantity").closest(".form-group").addClass("has-error");
+            return;
+        }
+        $("#build-planner-quantity").closest(".form-group").removeClass("has-error");
+
+        this.request(PartDbApiClient.getInstance().getBuildPlan(this.getDeviceId(), quantity), quantity, false);
+    }
+
+    /**
+     * Withdraws the parts for the quantity of the shown plan and shows the new plan.
+     */
+    private build()
+    {
+        if(this.plan === null) {
+            return;
+        }
+        this.request(PartDbApiClient.getInstance().buildDevice(this.getDeviceId(), this.quantity), this.quantity, true);
+    }
+
+    /**
+     * Shows the loading indicator while the request is running and the plan (or the error) afterwards.
+     * @param {JQuery.jqXHR<ApiBuildPlanEntry[]>} request The request, which returns the build plan.
+     * @param {number} quantity The quantity of devices, the plan is calculated for.
+     * @param {boolean} built True if the parts were withdrawn by the request.
+     */
+    private request(request : JQuery.jqXHR<ApiBuildPlanEntry[]>, quantity : number, built : boolean)
+    {
+        let _this = this;
+
+        $("#build-planner-error").prop("hidden", true).empty();
+        $("#build-planner-loading").prop("hidden", false);
+        $("#build-planner-calculate, #build-planner-build").prop("disabled", true);
+
+        request.done(function (plan : ApiBuildPlanEntry[]) {
+            _this.plan = plan;
+            _this.quantity = quantity;
+            _this.render(built);
+        }).fail(function (xhr : JQuery.jqXHR) {
+            $("#build-planner-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            //A failed withdrawal does not change anything, so the old plan stays valid
+            _this.updateButtons();
+        }).always(function () {
+            $("#build-planner-loading").prop("hidden", true);
+            $("#build-planner-calculate").prop("disabled", false);
+        });
+    }
+
+    private getDeviceId() : number
+    {
+        return Number($("#build-planner").data("device-id"));
+    }
+
+    /**
+     * Returns the number of parts, which are not in stock in a sufficient amount.
+     */
+    private countMissing() : number
+    {
+        return this.plan.filter(function (entry : ApiBuildPlanEntry) {
+            return entry.shortfall > 0;
+        }).length;
+    }
+
+    /**
+     * The parts can only be withdrawn, if all of them are in stock and the user is allowed to change the instock.
+     */
+    private updateButtons()
+    {
+        let can_withdraw : boolean = $("#build-planner").data("can-withdraw") === true;
+        let possible : boolean = this.plan !== null && this.plan.length > 0 && this.countMissing() === 0;
+        $("#build-planner-build").prop("disabled", !can_withdraw || !possible);
+        $("#build-planner-print").prop("disabled", this.plan === null || this.plan.length === 0);
+    }
+
+    /**
+     * Shows the current plan in the result table.
+     * @param {boolean} built True if the parts were just withdrawn.
+     */
+    private render(built : boolean)
+    {
+        let container = $("#build-planner");
+        let labels = {
+            unknown: String(container.data("label-unknown")),
+            pieces: String(container.data("label-pieces")),
+            ordered: String(container.data("label-ordered")),
+        };
+        let tbody = $("#build-planner-table tbody").empty();
+
+        for (let entry of this.plan) {
+            let tr = $("<tr>").toggleClass("danger", entry.shortfall > 0);
+
+            let part = $("<td>").append($("<a>").attr("href", "show_part_info.php?pid=" + entry.part.id)
+                .text(entry.part.name));
+            if(entry.part.description !== "") {
+                part.append($("<br>"), $("<small class='text-muted'>").html(entry.part.description));
+            }
+            if(entry.part.footprint !== "") {
+                part.append($("<br>"), $("<small class='text-muted'>").text(entry.part.footprint));
+            }
+            tr.append(part);
+
+            tr.append($("<td>").text(entry.storelocation));
+            tr.append($("<td>").text(entry.mount_names));
+            tr.append($("<td class='text-right'>").text(entry.needed));
+            tr.append($("<td class='text-right'>").text(entry.instock === null ? labels.unknown : String(entry.instock)));
+            tr.append($("<td class='text-right'>").append(entry.shortfall > 0
+                ? $("<b class='text-danger'>").text(entry.shortfall) : $("<span>").text(0)));
+
+            let devices = $("<td>");
+            for (let device of entry.devices) {
+                let div = $("<div>").append($("<a>").attr("href", "show_device_parts.php?device_id=" + device.id)
+                    .text(device.name), document.createTextNode(" (" + device.mount_quantity + " " + labels.pieces + ")"));
+                if(device.order_quantity > 0) {
+                    div.append(" ", $("<span class='label label-info'>").text(labels.ordered));
+                }
+                devices.append(div);
+            }
+            tr.append(devices);
+
+            let substitutions = $("<td>");
+            for (let substitution of entry.substitutions) {
+                let text : string = " (" + substitution.instock + " " + labels.pieces
+                    + (substitution.storelocation !== "" ? ", " + substitution.storelocation : "") + ")";
+                substitutions.append($("<div>").append($("<a>")
+                    .attr("href", "show_part_info.php?pid=" + substitution.id)
+                    .attr("title", $("<div>").html(substitution.description).text())
+                    .text(substitution.name), document.createTextNode(text)));
+            }
+            tr.append(substitutions);
+
+            tbody.append(tr);
+        }
+
+        let missing = this.countMissing();
+        $("#build-planner-missing").text(missing);
+        $("#build-planner .build-planner-state").each(function () {
+            let state : string = $(this).data("state");
+            $(this).prop("hidden", built ? state !== "built" : state !== (missing > 0 ? "missing" : "complete"));
+        });
+        $("#build-planner-result").prop("hidden", false);
+
+        this.updateButtons();
+        AjaxUI.getInstance().registerLinks();
+    }
+
+    /**
+     * Prints the pick list of the current plan in a new window. The parts are ordered by their store location, so
+     * they can be collected in one walk through the stock.
+     */
+    private print()
+    {
+        if(this.plan === null) {
+            return;
+        }
+
+        //The window must be opened directly in the click handler, otherwise popup blockers prevent it
+        let win = window.open("", "_blank");
+        if(win === null) {
+            return;
+        }
+
+        let entries = this.plan.slice().sort(function (a : ApiBuildPlanEntry, b : ApiBuildPlanEntry) {
+            //Parts without a store location are listed at the end
+            if((a.storelocation === "") !== (b.storelocation === "")) {
+                return a.storelocation === "" ? 1 : -1;
+            }
+            return a.storelocation.localeCompare(b.storelocation) || a.part.name.localeCompare(b.part.name);
+        });
+
+        let picklist = $("#build-planner .build-planner-picklist").clone().prop("hidden", false);
+        picklist.find(".build-planner-picklist-quantity").text(this.quantity);
+        let tbody = picklist.find("tbody");
+        for (let entry of entries) {
+            tbody.append($("<tr>").append(
+                $("<td>").text(entry.storelocation),
+                $("<td>").text(entry.part.name),
+                $("<td>").text(entry.part.footprint),
+                $("<td>").text(entry.mount_names),
+                $("<td class='quantity'>").text(entry.needed),
+                $("<td class='checkbox'>").html("&#9744;")
+            ));
+        }
+
+        win.document.open();
+        win.document.write("<!DOCTYPE html><html><head><meta charset='utf-8'><title></title><style>"
+            + "body { font-family: sans-serif; font-size: 12px; }"
+            + "table { border-collapse: collapse; width: 100%; }"
+            + "th, td { border: 1px solid #000; padding: 4px; text-align: left; vertical-align: top; }"
+            + "td.quantity { text-align: right; } td.checkbox { text-align: center; font-size: 16px; }"
+            + "</style></head><body>" + picklist.html() + "</body></html>");
+        win.document.close();
+        win.document.title = picklist.find("h3").text();
+        win.focus();
+        win.print();
+    }
+}
@@ -0,0 +1,323 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      BulkEditor Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * An action of the select bar (.select_actions) of the part tables, which is executed via the bulk API.
+ */
+interface BulkEditAction {
+    /** The value of the option in the action select. */
+    name : string;
+    /** The action of the API, which is executed. */
+    api_action : ApiBulkAction;
+    /**
+     * Returns the parameters of the API action from the inputs of the select bar.
+     * @param {JQuery} container The .select_actions div.
+     */
+    getParams(container : JQuery) : object;
+    /**
+     * Returns a description of the target (e.g. the name of the category), which is shown in the confirmation
+     * dialog, or "" if the action has no target.
+     */
+    describeTarget(container : JQuery) : string;
+}
+
+/**
+ * Executes actions for the selected rows of a part table. Before the action is executed, a dialog summarizing the
+ * affected parts is shown. After the execution, the result for every part is shown.
+ * Actions, which are not registered here, are submitted with the form like before.
+ */
+class BulkEditor {
+
+    private static singleton : BulkEditor;
+
+    private actions : {[name : string] : BulkEditAction} = {};
+
+    /** The action, which waits for the confirmation. */
+    private pending : {action : BulkEditAction, ids : number[], params : object} = null;
+    /** True, if parts were changed, so the page must be reloaded, when the dialog is closed. */
+    private changed : boolean = false;
+
+    /** The devices for the "device" action, they are loaded once. */
+    private devices : Array<{id : number, name : string}> = null;
+
+    /**
+     * Gets a instance of BulkEditor. If no instance exits, then a new one is created.
+     * @returns {BulkEditor} A instance of BulkEditor.
+     */
+    public static getInstance() : BulkEditor
+    {
+        if(BulkEditor.singleton == null || BulkEditor.singleton == undefined)
+        {
+            BulkEditor.singleton = new BulkEditor();
+        }
+        return BulkEditor.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the default actions and the handlers. The events are delegated, so they work for the tables
+     * loaded via ajax. Called by AjaxUI.start()
+     */
+    public start()
+    {
+        let _this = this;
+
+        this.registerDefaultActions();
+
+        $(document).on("change", ".select_actions select[name=action]", function (this : HTMLElement) {
+            let container = $(this).closest(".select_actions");
+            let name : string = <string> $(this).val();
+            container.find(".bulk-params").each(function () {
+                $(this).toggle($(this).data("action") === name);
+            });
+            if(name === "device") {
+                _this.fillDevices(container.find("select[name=bulk_device]"));
+            }
+        });
+
+        $(document).on("click", ".select_actions button[name=multi_action]", function (this : HTMLElement, event) {
+            let container = $(this).closest(".select_actions");
+            let name : string = <string> container.find("select[name=action]").val();
+            if(_this.actions.hasOwnProperty(name)) {
+                event.preventDefault();
+                _this.confirm(container, _this.actions[name]);
+            }
+        });
+
+        $("#bulk-edit-confirm").click(function () {
+            _this.execute();
+        });
+        $("#bulk-edit-modal").on("hidden.bs.modal", function () {
+            _this.pending = null;
+            if(_this.changed) {
+                _this.changed = false;
+                Router.getInstance().reload();
+            }
+        });
+    }
+
+    /**
+     * Registers an action. The select of the select bar must contain an option with the name of the action.
+     */
+    public register(action : BulkEditAction)
+    {
+        this.actions[action.name] = action;
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    private registerDefaultActions()
+    {
+        let selectedText = function (select : JQuery) : string {
+            return $.trim(select.find("option:selected").text());
+        };
+        let noTarget = function () : string {
+            return "";
+        };
+
+        this.register({name: "move", api_action: "move",
+            getParams: function (container : JQuery) {
+                return {target: container.find("select[name=target]").val()};
+            },
+            describeTarget: function (container : JQuery) {
+                return selectedText(container.find("select[name=target]"));
+            }
+        });
+        this.register({name: "mininstock", api_action: "mininstock",
+            getParams: function (container : JQuery) {
+                return {mininstock: container.find("input[name=bulk_mininstock]").val()};
+            },
+            describeTarget: function (container : JQuery) {
+                return <string> container.find("input[name=bulk_mininstock]").val();
+            }
+        });
+        this.register({name: "obsolete", api_action: "obsolete",
+            getParams: function () { return {obsolete: true}; },
+            describeTarget: noTarget
+        });
+        this.register({name: "not_obsolete", api_action: "obsolete",
+            getParams: function () { return {obsolete: false}; },
+            describeTarget: noTarget
+        });
+        this.register({name: "device", api_action: "device",
+            getParams: function (container : JQuery) {
+                return {device_id: container.find("select[name=bulk_device]").val(),
+                    quantity: container.find("input[name=bulk_quantity]").val()};
+            },
+            describeTarget: function (container : JQuery) {
+                return container.find("input[name=bulk_quantity]").val() + " × "
+                    + selectedText(container.find("select[name=bulk_device]"));
+            }
+        });
+        this.register({name: "favor", api_action: "favor", getParams: function () { return {}; }, describeTarget: noTarget});
+        this.register({name: "defavor", api_action: "defavor", getParams: function () { return {}; }, describeTarget: noTarget});
+        this.register({name: "delete", api_action: "delete", getParams: function () { return {}; }, describeTarget: noTarget});
+    }
+
+    /**
+     * Shows the dialog, which summarizes the action and the affected parts.
+     */
+    private confirm(container : JQuery, action : BulkEditAction)
+    {
+        let parts = BulkEditor.getSelectedParts();
+        if(parts.length == 0) {
+            return;
+        }
+
+        this.pending = {
+            action: action,
+            ids: parts.map(function (part) { return part.id; }),
+            params: action.getParams(container)
+        };
+
+        let list = $("#bulk-edit-parts").empty();
+        for(let part of parts) {
+            list.append($("<li>").text(part.name));
+        }
+
+        let target : string = action.describeTarget(container);
+        $("#bulk-edit-action").text($.trim(container.find("select[name=action] option:selected").text()));
+        $("#bulk-edit-target").text(target);
+        $("#bulk-edit-target-row").prop("hidden", target === "");
+        $("#bulk-edit-delete-warning").prop("hidden", action.api_action !== "delete");
+        $("#bulk-edit-count").text(parts.length);
+
+        $("#bulk-edit-error").prop("hidden", true).empty();
+        $("#bulk-edit-confirmation").prop("hidden", false);
+        $("#bulk-edit-report").prop("hidden", true);
+        $("#bulk-edit-loading").prop("hidden", true);
+        $("#bulk-edit-confirm").show().prop("disabled", false)
+            .toggleClass("btn-danger", action.api_action === "delete")
+            .toggleClass("btn-primary", action.api_action !== "delete");
+        $("#bulk-edit-cancel").show();
+        $("#bulk-edit-close").hide();
+
+        $("#bulk-edit-modal").modal("show");
+    }
+
+    /**
+     * Executes the confirmed action and shows the results.
+     */
+    private execute()
+    {
+        let _this = this;
+        if(this.pending === null) {
+            return;
+        }
+
+        $("#bulk-edit-confirm").prop("disabled", true);
+        $("#bulk-edit-loading").prop("hidden", false);
+
+        PartDbApiClient.getInstance().bulkEditParts(this.pending.action.api_action, this.pending.ids, this.pending.params)
+            .done(function (results : ApiBulkResult[]) {
+                _this.changed = true;
+                _this.showReport(results);
+            })
+            .fail(function (xhr : JQuery.jqXHR) {
+                $("#bulk-edit-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+                $("#bulk-edit-confirm").prop("disabled", false);
+            })
+            .always(function () {
+                $("#bulk-edit-loading").prop("hidden", true);
+            });
+    }
+
+    private showReport(results : ApiBulkResult[])
+    {
+        let tbody = $("#bulk-edit-results tbody").empty();
+        let failed : number = 0;
+
+        for(let result of results) {
+            let icon = $("<i class='fa fa-fw' aria-hidden='true'>")
+                .addClass(result.success ? "fa-check text-success" : "fa-times text-danger");
+            if(!result.success) {
+                failed++;
+            }
+            tbody.append($("<tr>").toggleClass("danger", !result.success)
+                .append($("<td>").text(result.name !== "" ? result.name : "#" + result.id))
+                .append($("<td>").append(icon).append($("<span>").text(" " + result.message))));
+        }
+
+        $("#bulk-edit-success-count").text(results.length - failed);
+        $("#bulk-edit-failed-count").text(failed);
+
+        $("#bulk-edit-confirmation").prop("hidden", true);
+        $("#bulk-edit-report").prop("hidden", false);
+        $("#bulk-edit-confirm").hide();
+        $("#bulk-edit-cancel").hide();
+        $("#bulk-edit-close").show();
+    }
+
+    /**
+     * Fills the select with all devices (indented like in the tree).
+     */
+    private fillDevices(select : JQuery)
+    {
+        let _this = this;
+        let fill = function () {
+            if(select.find("option").length > 0) {
+                return;
+            }
+            for(let device of _this.devices) {
+                select.append($("<option>").val(device.id).text(device.name));
+            }
+        };
+
+        if(this.devices !== null) {
+            fill();
+            return;
+        }
+
+        PartDbApiClient.getInstance().getLazyTree("devices", 0, SidebarTree.MAX_DEPTH).done(function (nodes : ApiTreeNode[]) {
+            _this.devices = [];
+            let add = function (nodes : ApiTreeNode[], level : number) {
+                for(let node of nodes) {
+                    //The root node "Übersicht" has the ID 0
+                    if(node.id > 0) {
+                        //Normal spaces would be collapsed in the options
+                        _this.devices.push({id: node.id, name: new Array(level + 1).join("\u00a0\u00a0") + node.text});
+                    }
+                    if(node.nodes) {
+                        add(node.nodes, node.id > 0 ? level + 1 : level);
+                    }
+                }
+            };
+            add(nodes, 0);
+            fill();
+        });
+    }
+
+    /**
+     * Returns the IDs and names of the selected rows of the parts table. The select bars are not in the form of the
+     * table, but there is only one parts table on a page (like in makeSortTable()).
+     */
+    public static getSelectedParts() : Array<{id : number, name : string}>
+    {
+        let table : DataTables.Api = $(".table-sortable").DataTable();
+        let parts : Array<{id : number, name : string}> = [];
+
+        table.rows({selected: true}).nodes().each(function (row : HTMLElement) {
+            parts.push(BulkEditor.getRowPart(row));
+        });
+
+        return parts;
+    }
+
+    /**
+     * Returns the ID and the name of the part in a row of a parts table.
+     */
+    public static getRowPart(row : HTMLElement) : {id : number, name : string}
+    {
+        let id : number = Number($(row).find("input").val());
+        let name : string = $.trim($(row).find("a[href*='show_part_info.php']").first().text());
+        return {id: id, name: name !== "" ? name : "#" + id};
+    }
+}
@@ -0,0 +1,242 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      EngineeringCalculator Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * Connects the forms of the calculator page (form.calculator with a data-calculator attribute) with the tools.
+ * A tool reads the inputs of its form and writes the results into the elements with a data-output attribute.
+ * The links with a data-search attribute are pointed to the parts matching the value.
+ */
+class EngineeringCalculator {
+
+    private static singleton : EngineeringCalculator;
+
+    private tools : {[name : string] : (form : JQuery) => void} = {};
+
+    /**
+     * Gets a instance of EngineeringCalculator. If no instance exits, then a new one is created.
+     * @returns {EngineeringCalculator} A instance of EngineeringCalculator.
+     */
+    public static getInstance() : EngineeringCalculator
+    {
+        if(EngineeringCalculator.singleton == null || EngineeringCalculator.singleton == undefined)
+        {
+            EngineeringCalculator.singleton = new EngineeringCalculator();
+        }
+        return EngineeringCalculator.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the default tools and the handlers. The events are delegated, so they work for the pages
+     * loaded via ajax. Called by AjaxUI.start()
+     */
+    public start()
+    {
+        let _this = this;
+
+        this.registerDefaultTools();
+
+        $(document).on("input change", "form.calculator :input", function (this : HTMLElement) {
+            _this.calculate($(this).closest("form.calculator"));
+        });
+        $(document).on("click", "form.calculator .calculator-reset", function (this : HTMLElement) {
+            let form = $(this).closest("form.calculator");
+            (<HTMLFormElement> form[0]).reset();
+            _this.calculate(form);
+        });
+        //The results are shown while typing, so the forms must not be submitted
+        $(document).on("submit", "form.calculator", function (event) {
+            event.preventDefault();
+        });
+    }
+
+    /**
+     * Calculates the results of all calculator forms on the current page.
+     * Called by AjaxUI when a page was loaded.
+     */
+    public static init()
+    {
+        let calculator = EngineeringCalculator.getInstance();
+        $("form.calculator").each(function () {
+            calculator.calculate($(this));
+        });
+    }
+
+    /**
+     * Registers a tool. It is used for the forms with the attribute data-calculator=name.
+     * @param {string} name The name of the tool.
+     * @param {(form: JQuery) => void} calculate The function, which calculates the results of the form.
+     */
+    public register(name : string, calculate : (form : JQuery) => void)
+    {
+        this.tools[name] = calculate;
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    private calculate(form : JQuery)
+    {
+        let name : string = form.data("calculator");
+        if(this.tools.hasOwnProperty(name)) {
+            this.tools[name](form);
+        }
+    }
+
+    private registerDefaultTools()
+    {
+        let getNumber = EngineeringCalculator.getNumber;
+        let getChecked = EngineeringCalculator.getChecked;
+        let setOutput = EngineeringCalculator.setOutput;
+        let setSearch = EngineeringCalculator.setSearch;
+        let format = ValueParser.format;
+
+        let colorCode = function (form : JQuery, digit_rings : number) {
+            let digits : number[] = [];
+            for(let i = 1; i <= digit_rings; i++) {
+                digits.push(Number(getChecked(form, "ring" + i)));
+            }
+            let resistance : number = EngineeringMath.decodeColorCode(digits,
+                Number(getChecked(form, "ring" + (digit_rings + 1))));
+            setOutput(form, "resistance", format(resistance, "Ω", 4));
+            setOutput(form, "tolerance", getChecked(form, "ring" + (digit_rings + 2)));
+            setSearch(form, "resistance", resistance);
+        };
+
+        this.register("bands4", function (form : JQuery) {
+            colorCode(form, 2);
+        });
+        this.register("bands5", function (form : JQuery) {
+            colorCode(form, 3);
+        });
+        this.register("bands6", function (form : JQuery) {
+            colorCode(form, 3);
+            let tempcoefficient : string = getChecked(form, "ring6");
+            setOutput(form, "tempcoefficient", tempcoefficient);
+            form.find("[data-output=tempcoefficient]").closest(".row").prop("hidden", tempcoefficient === "");
+        });
+
+        this.register("best_match", function (form : JQuery) {
+            let wanted : number = getNumber(form, "resistance");
+            let resistance : number = EngineeringMath.findNearest(wanted, <ESeries> Number(getChecked(form, "series")));
+            setOutput(form, "resistance", format(resistance, "Ω"));
+            setOutput(form, "error", isNaN(resistance) ? "?" : (Math.abs(resistance - wanted) / wanted * 100).toFixed(2));
+            setSearch(form, "resistance", resistance);
+        });
+
+        this.register("ratio", function (form : JQuery) {
+            let ratio : number = getNumber(form, "ratio");
+            if(form.find("[name=reciprocal]").is(":checked")) {
+                ratio = 1 / ratio;
+            }
+            let result = EngineeringMath.findRatio(ratio, <ESeries> Number(getChecked(form, "series")),
+                getChecked(form, "type") === "2");
+            setOutput(form, "r1", result !== null ? format(result.r1, "Ω") : "?");
+            setOutput(form, "r2", result !== null ? format(result.r2, "Ω") : "?");
+            setOutput(form, "error", result !== null ? (result.error * 100).toFixed(2) : "?");
+            setSearch(form, "r1", result !== null ? result.r1 : NaN);
+            setSearch(form, "r2", result !== null ? result.r2 : NaN);
+        });
+
+        this.register("smd_resistor", function (form : JQuery) {
+            let resistance : number = EngineeringMath.decodeSMDResistor(<string> form.find("[name=code]").val());
+            setOutput(form, "resistance", format(resistance, "Ω", 4));
+            setSearch(form, "resistance", resistance);
+        });
+        this.register("smd_capacitor", function (form : JQuery) {
+            let capacitance : number = EngineeringMath.decodeCapacitorCode(<string> form.find("[name=code]").val());
+            setOutput(form, "capacitance", format(capacitance, "F"));
+            setSearch(form, "capacitance", capacitance);
+        });
+
+        this.register("led", function (form : JQuery) {
+            let supply : number = getNumber(form, "supply");
+            let forward : number = getNumber(form, "forward");
+            let count : number = Number(form.find("[name=count]").val()) || 1;
+            let exact : number = EngineeringMath.ledResistor(supply, forward, getNumber(form, "current"), count);
+            let resistance : number = EngineeringMath.findNextHigher(exact, <ESeries> Number(form.find("[name=series]").val()));
+            let current : number = (supply - forward * count) / resistance;
+            setOutput(form, "exact", format(exact, "Ω", 4));
+            setOutput(form, "resistance", format(resistance, "Ω"));
+            setOutput(form, "current", format(current, "A"));
+            setOutput(form, "power", format(current * current * resistance, "W"));
+            setSearch(form, "resistance", resistance);
+        });
+
+        this.register("divider", function (form : JQuery) {
+            let input : number = getNumber(form, "input");
+            let r1 : number = getNumber(form, "r1");
+            let r2 : number = getNumber(form, "r2");
+            let load : number = getNumber(form, "load");
+            let unloaded : number = EngineeringMath.dividerOutput(input, r1, r2);
+            let loaded : number = EngineeringMath.dividerOutput(input, r1, r2, load);
+            setOutput(form, "unloaded", format(unloaded, "V", 4));
+            setOutput(form, "loaded", format(loaded, "V", 4));
+            setOutput(form, "deviation", isFinite(loaded / unloaded) ? ((loaded / unloaded - 1) * 100).toFixed(2) : "?");
+            setOutput(form, "current", format(input / (r1 + EngineeringMath.divisorResistance(r2, load)), "A"));
+            setSearch(form, "r1", r1);
+            setSearch(form, "r2", r2);
+        });
+
+        this.register("rc", function (form : JQuery) {
+            let resistance : number = getNumber(form, "resistance");
+            let capacitance : number = getNumber(form, "capacitance");
+            setOutput(form, "frequency", format(EngineeringMath.rcCutoff(resistance, capacitance), "Hz"));
+            setOutput(form, "time_constant", format(resistance * capacitance, "s"));
+            setSearch(form, "resistance", resistance);
+            setSearch(form, "capacitance", capacitance);
+        });
+        this.register("lc", function (form : JQuery) {
+            let inductance : number = getNumber(form, "inductance");
+            let capacitance : number = getNumber(form, "capacitance");
+            setOutput(form, "frequency", format(EngineeringMath.lcResonance(inductance, capacitance), "Hz"));
+            setOutput(form, "impedance", format(Math.sqrt(inductance / capacitance), "Ω"));
+            setSearch(form, "inductance", inductance);
+            setSearch(form, "capacitance", capacitance);
+        });
+    }
+
+    /**
+     * Returns the value of the input with the given name, parsed by ValueParser.parseNumber().
+     */
+    private static getNumber(form : JQuery, name : string) : number
+    {
+        return ValueParser.parseNumber(<string> form.find("[name=" + name + "]").val());
+    }
+
+    /**
+     * Returns the value of the checked radio button with the given name.
+     */
+    private static getChecked(form : JQuery, name : string) : string
+    {
+        return <string> form.find("input[name=" + name + "]:checked").val();
+    }
+
+    private static setOutput(form : JQuery, name : string, text : string)
+    {
+        form.find("[data-output=" + name + "]").text(text);
+    }
+
+    /**
+     * Points the search link with the given name to the value search for the parts, whose name, description or
+     * comment contains the value (with the unit of the data-unit attribute). The link is hidden, if the value is not
+     * valid.
+     */
+    private static setSearch(form : JQuery, name : string, value : number)
+    {
+        let link = form.find("[data-search=" + name + "]");
+        if(!(value > 0) || !isFinite(value)) {
+            link.hide();
+            return;
+        }
+        link.attr("href", BASE + "show_search_parts.php?search_name=1&search_description=1&search_comment=1"
+            + "&value_search=1&keyword=" + encodeURIComponent(ValueParser.toShortNotation(value, link.data("unit")))).show();
+    }
+}
@@ -0,0 +1,364 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      CommandPalette Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * An entry of the command palette. Either a link, which is opened via the router, or a shortcut action.
+ */
+interface CommandPaletteEntry {
+    label : string;
+    /** The type of the entry (e.g. "Seiten"), shown next to the label. */
+    detail : string;
+    href? : string;
+    action? : ShortcutAction;
+}
+
+/**
+ * A part, which the user has viewed recently.
+ */
+interface RecentPart {
+    id : number;
+    name : string;
+}
+
+/**
+ * A modal with a search field, which fuzzy searches the pages of Part-DB, the nodes of the loaded treeviews,
+ * the recently viewed parts and the shortcut actions. It is opened with Ctrl+K (see registerDefaultShortcuts()).
+ */
+class CommandPalette {
+
+    private static singleton : CommandPalette;
+
+    /** The key of the recently viewed parts in the localStorage. */
+    public static readonly RECENT_PARTS_KEY : string = "recent_parts";
+    public static readonly MAX_RECENT_PARTS : number = 10;
+    /** How many results are shown. */
+    public static readonly MAX_RESULTS : number = 20;
+
+    /** The pages from the tools tree, they are only loaded once. */
+    private pages : CommandPaletteEntry[] = null;
+    private entries : CommandPaletteEntry[] = [];
+    private results : CommandPaletteEntry[] = [];
+    private active : number = 0;
+
+    private constructor()
+    {
+        let _this = this;
+        let modal = $("#command-palette-modal");
+
+        modal.on("shown.bs.modal", function () {
+            $("#command-palette-input").focus();
+        });
+        $("#command-palette-input").on("input", function () {
+            _this.search(<string> $(this).val());
+        }).keydown(function (event) {
+            _this.onKeyDown(event);
+        });
+    }
+
+    /**
+     * Gets a instance of CommandPalette. If no instance exits, then a new one is created.
+     * @returns {CommandPalette} A instance of CommandPalette.
+     */
+    public static getInstance() : CommandPalette
+    {
+        if(CommandPalette.singleton == null || CommandPalette.singleton == undefined)
+        {
+            CommandPalette.singleton = new CommandPalette();
+        }
+        return CommandPalette.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Opens the command palette.
+     */
+    public open()
+    {
+        let _this = this;
+
+        $("#command-palette-input").val("");
+        this.collectEntries();
+        this.search("");
+        $("#command-palette-modal").modal("show");
+
+        if(this.pages === null) {
+            this.loadPages().done(function () {
+                _this.collectEntries();
+                _this.search(<string> $("#command-palette-input").val());
+            });
+        }
+    }
+
+    /**
+     * Saves the part shown on the current page (if any) in the list of recently viewed parts.
+     * Called after every page load.
+     */
+    public static rememberPart()
+    {
+        let element = $("#content [data-recent-part-id]");
+        if(element.length == 0) {
+            return;
+        }
+
+        let part : RecentPart = {id: Number(element.data("recent-part-id")), name: String(element.data("recent-part-name"))};
+        let parts : RecentPart[] = CommandPalette.getRecentParts().filter(function (p : RecentPart) {
+            return p.id !== part.id;
+        });
+        parts.unshift(part);
+
+        try {
+            localStorage.setItem(CommandPalette.RECENT_PARTS_KEY,
+                JSON.stringify(parts.slice(0, CommandPalette.MAX_RECENT_PARTS)));
+        } catch (e) {
+            //localStorage is not available (e.g. private mode), so we can not remember the parts.
+        }
+    }
+
+    /**
+     * Returns the recently viewed parts, the newest first.
+     */
+    public static getRecentParts() : RecentPart[]
+    {
+        try {
+            let parts = JSON.parse(localStorage.getItem(CommandPalette.RECENT_PARTS_KEY));
+            return $.isArray(parts) ? parts : [];
+        } catch (e) {
+            return [];
+        }
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Loads the pages from the tools tree. Only pages, which can be loaded by the router, are used.
+     */
+    private loadPages() : JQuery.Promise<any>
+    {
+        let _this = this;
+        let router : Router = Router.getInstance();
+        let label : string = $("#command-palette-modal").data("label-pages");
+
+        return PartDbApiClient.getInstance().getTree("tools").done(function (nodes : ApiTreeNode[]) {
+            _this.pages = [];
+            let add = function (nodes : ApiTreeNode[]) {
+                for(let node of nodes) {
+                    if(node.href && router.matchRoute(node.href) !== null) {
+                        _this.pages.push({label: node.text, detail: label, href: node.href});
+                    }
+                    if(node.nodes) {
+                        add(node.nodes);
+                    }
+                }
+            };
+            add(nodes);
+        });
+    }
+
+    /**
+     * Collects the entries, which can be searched.
+     */
+    private collectEntries()
+    {
+        let modal = $("#command-palette-modal");
+        let entries : CommandPaletteEntry[] = [];
+        let shortcuts : KeyboardShortcuts = KeyboardShortcuts.getInstance();
+
+        for(let action of shortcuts.getActions()) {
+            //Opening the palette from the palette makes no sense.
+            if(action.id !== "command_palette") {
+                entries.push({label: shortcuts.getLabel(action), detail: modal.data("label-actions"), action: action});
+            }
+        }
+
+        for(let part of CommandPalette.getRecentParts()) {
+            entries.push({label: part.name, detail: modal.data("label-recent-parts"),
+                href: BASE + "show_part_info.php?pid=" + part.id});
+        }
+
+        if(this.pages !== null) {
+            entries = entries.concat(this.pages);
+        }
+
+        //The nodes of the sidebar trees, which are loaded so far.
+        $("#tree-categories, #tree-devices, #tree-tools").each(function () {
+            let tree = $(this);
+            if(!tree.data("treeview")) {
+                return;
+            }
+            let nodes = <BootstrapTreeViewNodeData[]> (<any> tree.treeview("getEnabled"));
+            for(let node of nodes) {
+                if(node.href) {
+                    entries.push({label: CommandPalette.getNodePath(tree, node), detail: modal.data("label-tree"), href: node.href});
+                }
+            }
+        });
+
+        //The same page can be in multiple sources (e.g. in the pages and the tools tree).
+        let hrefs : string[] = [];
+        this.entries = entries.filter(function (entry : CommandPaletteEntry) {
+            if(typeof entry.href === "undefined") {
+                return true;
+            }
+            if(hrefs.indexOf(entry.href) !== -1) {
+                return false;
+            }
+            hrefs.push(entry.href);
+            return true;
+        });
+    }
+
+    /**
+     * Shows the entries matching the keyword, the best matches first.
+     */
+    private search(keyword : string)
+    {
+        keyword = $.trim(keyword);
+        let scored : Array<{entry : CommandPaletteEntry, score : number, index : number}> = [];
+
+        this.entries.forEach(function (entry : CommandPaletteEntry, index : number) {
+            let score : number = CommandPalette.fuzzyScore(keyword, entry.label);
+            if(score >= 0) {
+                scored.push({entry: entry, score: score, index: index});
+            }
+        });
+        //Array.sort() is not stable in every browser, so the original order is used for equal scores.
+        scored.sort(function (a, b) {
+            return b.score - a.score || a.index - b.index;
+        });
+
+        this.results = scored.slice(0, CommandPalette.MAX_RESULTS).map(function (s) { return s.entry; });
+        this.active = 0;
+        this.render();
+    }
+
+    private render()
+    {
+        let _this = this;
+        let list = $("#command-palette-results").empty();
+
+        this.results.forEach(function (entry : CommandPaletteEntry, index : number) {
+            let item = $("<a href='#' class='list-group-item'>")
+                .toggleClass("active", index === _this.active)
+                .append($("<span>").text(entry.label))
+                .append($("<span class='text-muted pull-right'>").text(entry.detail));
+            item.click(function (event) {
+                event.preventDefault();
+                _this.execute(entry);
+            });
+            list.append(item);
+        });
+
+        $("#command-palette-no-results").prop("hidden", this.results.length > 0);
+    }
+
+    private onKeyDown(event : JQuery.Event)
+    {
+        switch (event.keyCode) {
+            case 38: //Arrow up
+                event.preventDefault();
+                this.moveActive(-1);
+                break;
+            case 40: //Arrow down
+                event.preventDefault();
+                this.moveActive(1);
+                break;
+            case 13: //Enter
+                event.preventDefault();
+                if(this.results.length > 0) {
+                    this.execute(this.results[this.active]);
+                }
+                break;
+        }
+    }
+
+    private moveActive(offset : number)
+    {
+        if(this.results.length == 0) {
+            return;
+        }
+        this.active = (this.active + offset + this.results.length) % this.results.length;
+        let items = $("#command-palette-results .list-group-item").removeClass("active");
+        let item = items.eq(this.active).addClass("active");
+        (<HTMLElement> item.get(0)).scrollIntoView(false);
+    }
+
+    /**
+     * Closes the palette and opens the link or executes the action of the entry.
+     */
+    private execute(entry : CommandPaletteEntry)
+    {
+        let modal = $("#command-palette-modal");
+
+        //Wait until the modal is closed, otherwise the modal of an action (e.g. the help) would be closed, too.
+        modal.one("hidden.bs.modal", function () {
+            if(entry.action) {
+                entry.action.handler();
+            } else {
+                Router.getInstance().navigate(entry.href);
+            }
+        });
+        modal.modal("hide");
+    }
+
+    /**
+     * Returns the names of the node and its parents, like "Active parts → Resistors → SMD".
+     */
+    private static getNodePath(tree : JQuery, node : BootstrapTreeViewNodeData) : string
+    {
+        let names : string[] = [node.text];
+        let parent = <BootstrapTreeViewNodeData> (<any> tree.treeview("getParent", node));
+        while(parent && typeof parent.nodeId !== "undefined") {
+            names.unshift(parent.text);
+            parent = <BootstrapTreeViewNodeData> (<any> tree.treeview("getParent", parent));
+        }
+        return names.join(" → ");
+    }
+
+    /**
+     * Checks if all characters of the keyword occur in the text in the same order (case insensitive).
+     * Matches of consecutive characters and at the beginning of words get a higher score.
+     * @param {string} keyword The keyword the user typed.
+     * @param {string} text The text of the entry.
+     * @returns {number} The score or -1 if the text does not match.
+     */
+    private static fuzzyScore(keyword : string, text : string) : number
+    {
+        if(keyword === "") {
+            return 0;
+        }
+
+        let needle : string = keyword.toLowerCase();
+        let haystack : string = text.toLowerCase();
+        let score : number = 0;
+        let last : number = -1;
+
+        for(let i = 0; i < needle.length; i++) {
+            let pos : number = haystack.indexOf(needle.charAt(i), last + 1);
+            if(pos === -1) {
+                return -1;
+            }
+            score += 1;
+            if(pos === last + 1) {
+                score += 2;
+            }
+            if(pos === 0 || /[\s→\-_(]/.test(haystack.charAt(pos - 1))) {
+                score += 3;
+            }
+            last = pos;
+        }
+
+        //Prefer the exact substring and shorter texts.
+        if(haystack.indexOf(needle) !== -1) {
+            score += needle.length * 2;
+        }
+        return score - haystack.length / 100;
+    }
+}
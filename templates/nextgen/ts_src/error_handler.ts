@@ -0,0 +1,183 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      AjaxErrorHandler Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * Shows failed ajax page loads to the user: An error panel with the HTTP status and the message of the server is
+ * rendered into #content, which allows to retry the request. When the session has expired, the user is redirected
+ * to the login page instead.
+ */
+class AjaxErrorHandler {
+
+    private static singleton : AjaxErrorHandler;
+
+    /** The longest part of the server response, that is shown in the error panel. */
+    public static readonly MAX_MESSAGE_LENGTH : number = 2000;
+
+    /**
+     * Creates a new AjaxErrorHandler object.
+     */
+    private constructor()
+    {
+    }
+
+    /**
+     * Gets a instance of AjaxErrorHandler. If no instance exits, then a new one is created.
+     * @returns {AjaxErrorHandler} A instance of AjaxErrorHandler.
+     */
+    public static getInstance() : AjaxErrorHandler
+    {
+        if(AjaxErrorHandler.singleton == null || AjaxErrorHandler.singleton == undefined)
+        {
+            AjaxErrorHandler.singleton = new AjaxErrorHandler();
+        }
+        return AjaxErrorHandler.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Returns the timeout for ajax requests, configured in $config['ajax']['timeout'].
+     * @returns {number} The timeout in milliseconds. 0 means no timeout.
+     */
+    public getTimeout() : number
+    {
+        let seconds : number = Number($("#ajax_timeout").val());
+        if(isNaN(seconds) || seconds < 0) {
+            return 0;
+        }
+        return seconds * 1000;
+    }
+
+    /**
+     * Called by AjaxUI, when an ajax request failed.
+     * @param {JQuery.jqXHR} request The failed request.
+     * @param {JQuery.AjaxSettings} settings The settings of the failed request.
+     */
+    public handle(request : JQuery.jqXHR, settings : JQuery.AjaxSettings)
+    {
+        //Ignore aborted requests.
+        if (request.statusText == "abort") {
+            return;
+        }
+
+        //Requests to the API are handled by the code that sent them.
+        if (settings.url.indexOf("api.php") != -1) {
+            return;
+        }
+
+        //When the server is not reachable at all, the OfflineManager takes care.
+        if (request.status == 0 && request.statusText != "timeout") {
+            return;
+        }
+
+        if (this.isSessionExpired(request)) {
+            this.redirectToLogin();
+            return;
+        }
+
+        this.showErrorPanel(request, settings);
+    }
+
+    /**
+     * Opens the login page, which redirects back to the current page after the login.
+     */
+    public redirectToLogin()
+    {
+        window.location.href = BASE + "login.php?redirect=" + encodeURIComponent(location.pathname + location.search);
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Checks if the request failed, because the user must login again.
+     * The server answers ajax requests with 401, when the session of a logged in user has expired (see start_session.php).
+     */
+    private isSessionExpired(request : JQuery.jqXHR) : boolean
+    {
+        return request.status == 401;
+    }
+
+    /**
+     * Renders the error panel into #content and hides the progressbar.
+     * @param {JQuery.jqXHR} request The failed request.
+     * @param {JQuery.AjaxSettings} settings The settings of the failed request, needed to retry it.
+     */
+    private showErrorPanel(request : JQuery.jqXHR, settings : JQuery.AjaxSettings)
+    {
+        let _this = this;
+        let panel = $("#ajax-error-template").children().first().clone();
+
+        let status : string = request.statusText == "timeout" ? "" : request.status + " " + request.statusText;
+        panel.find(".ajax-error-status").text(status);
+        panel.find(".ajax-error-timeout").prop("hidden", request.statusText != "timeout");
+        panel.find(".ajax-error-message").text(this.extractMessage(request));
+
+        panel.find(".ajax-error-retry").click(function () {
+            _this.retry(settings);
+        });
+
+        //Dismissing the panel shows the page, which was visible before the request.
+        let old_content = $("#content").children().detach();
+        panel.find(".ajax-error-dismiss").click(function () {
+            panel.remove();
+            $("#content").append(old_content);
+        });
+
+        $("#progressbar").hide(0);
+        $("#content").empty().append(panel).show(0);
+        $(window).scrollTop(0);
+    }
+
+    /**
+     * Extracts a human readable message from the server response.
+     * @param {JQuery.jqXHR} request The failed request.
+     * @returns {string} The message (plain text), or an empty string if the server did not send one.
+     */
+    private extractMessage(request : JQuery.jqXHR) : string
+    {
+        if (typeof request.responseJSON !== "undefined") {
+            return PartDbApiClient.getErrorMessage(request);
+        }
+
+        let text : string = typeof request.responseText === "string" ? request.responseText : "";
+        if (text === "") {
+            return "";
+        }
+
+        //Parse HTML responses, so we only show the text (and dont execute anything from the response)
+        let html = $("<div>").append($.parseHTML(text));
+        let content = html.find("#content-data");
+        let message : string = $.trim((content.length ? content : html).text()).replace(/\s+/g, " ");
+
+        if (message.length > AjaxErrorHandler.MAX_MESSAGE_LENGTH) {
+            message = message.substring(0, AjaxErrorHandler.MAX_MESSAGE_LENGTH) + "...";
+        }
+        return message;
+    }
+
+    /**
+     * Issues the failed request again.
+     * @param {JQuery.AjaxSettings} settings The settings of the failed request.
+     */
+    private retry(settings : JQuery.AjaxSettings)
+    {
+        let type : string = (typeof settings.type !== "undefined") ? settings.type.toUpperCase() : "GET";
+
+        if (type === "GET") {
+            //Page loads are done via the router, so the content is inserted and the history is updated.
+            Router.getInstance().navigate(removeURLparam(settings.url, "ajax"));
+        } else {
+            //Form submissions have their success handler in the settings, so we can simply resend them.
+            $("#content").hide(0);
+            $("#progressbar").show(0);
+            $.ajax(settings);
+        }
+    }
+}
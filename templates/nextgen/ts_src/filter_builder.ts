@@ -0,0 +1,344 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      FilterBuilder Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * A group of filters, which are combined with AND or OR.
+ */
+interface FilterBuilderGroup {
+    group : "and" | "or";
+    conditions : Array<FilterBuilderGroup | FilterBuilderCondition>;
+}
+
+/**
+ * A condition for one field of the parts (see Part::buildFilterCondition() for the fields and values).
+ */
+interface FilterBuilderCondition {
+    field : string;
+    /** The comparison for the numeric fields instock and price (e.g. ">=") */
+    operator? : string;
+    value : any;
+}
+
+/**
+ * The filter builder above the parts tables. It combines conditions on the category, footprint, manufacturer,
+ * supplier, instock, price, obsolete flag and text with nested AND/OR groups.
+ * The filter is written as JSON into the hidden input with the attribute data-filter="filter", so it is sent to the
+ * API and saved in the URL by PartsTable. Named filters can be saved in the user settings to reuse them later.
+ */
+class FilterBuilder {
+
+    private static singleton : FilterBuilder;
+
+    /** The key of the user setting, which contains the saved filters by their name. */
+    public static readonly SETTINGS_KEY : string = "saved_filters";
+
+    /** The fields with a comparison operator, all other fields are compared for equality. */
+    private static readonly NUMERIC_FIELDS : string[] = ["instock", "price"];
+
+    /**
+     * Gets a instance of FilterBuilder. If no instance exits, then a new one is created.
+     * @returns {FilterBuilder} A instance of FilterBuilder.
+     */
+    public static getInstance() : FilterBuilder
+    {
+        if(FilterBuilder.singleton == null || FilterBuilder.singleton == undefined)
+        {
+            FilterBuilder.singleton = new FilterBuilder();
+        }
+        return FilterBuilder.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the handlers of the filter builders. The events are delegated, so they work for the pages loaded via
+     * ajax. Called by AjaxUI.start()
+     */
+    public start()
+    {
+        let _this = this;
+
+        $(document).on("click", ".filter-builder-toggle", function (this : HTMLElement) {
+            let builder = $(this).closest(".parts-table-filter").find(".filter-builder");
+            builder.prop("hidden", !builder.prop("hidden"));
+        });
+        $(document).on("click", ".filter-builder .filter-add-condition", function (this : HTMLElement) {
+            let builder = $(this).closest(".filter-builder");
+            $(this).closest(".filter-group").children(".filter-conditions")
+                .append(_this.createCondition(builder, null));
+            _this.update(builder);
+        });
+        $(document).on("click", ".filter-builder .filter-add-group", function (this : HTMLElement) {
+            let builder = $(this).closest(".filter-builder");
+            $(this).closest(".filter-group").children(".filter-conditions")
+                .append(_this.createGroup(builder, {group: "and", conditions: []}));
+            _this.update(builder);
+        });
+        $(document).on("click", ".filter-builder .filter-remove", function (this : HTMLElement) {
+            let builder = $(this).closest(".filter-builder");
+            $(this).closest(".filter-condition, .filter-group").remove();
+            _this.update(builder);
+        });
+        $(document).on("change", ".filter-builder .filter-field", function (this : HTMLElement) {
+            FilterBuilder.showFieldInputs($(this).closest(".filter-condition"));
+        });
+        $(document).on("input change", ".filter-builder-root :input", function (this : HTMLElement) {
+            _this.update($(this).closest(".filter-builder"));
+        });
+        //The hidden filter input is cleared by PartsTable
+        $(document).on("click", ".parts-table-filter-reset", function (this : HTMLElement) {
+            $(this).closest(".parts-table-filter").find(".filter-builder").each(function () {
+                _this.render($(this), null);
+            });
+        });
+
+        $(document).on("change", ".filter-builder-saved", function (this : HTMLElement) {
+            let name : string = <string> $(this).val();
+            let saved : {[name : string] : FilterBuilderGroup} = UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY, {});
+            if(name !== "" && saved.hasOwnProperty(name)) {
+                let builder = $(this).closest(".filter-builder");
+                builder.find(".filter-builder-name").val(name);
+                _this.render(builder, saved[name]);
+                _this.update(builder);
+            }
+        });
+        $(document).on("click", ".filter-builder-save", function (this : HTMLElement) {
+            let builder = $(this).closest(".filter-builder");
+            let name : string = $.trim(<string> builder.find(".filter-builder-name").val());
+            if(name === "") {
+                builder.find(".filter-builder-name").focus();
+                return;
+            }
+            let saved = $.extend({}, UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY, {}));
+            saved[name] = _this.read(builder.find(".filter-builder-root > .filter-group"));
+            _this.saveFilters(builder, saved, name);
+        });
+        $(document).on("click", ".filter-builder-delete", function (this : HTMLElement) {
+            let builder = $(this).closest(".filter-builder");
+            let name : string = <string> builder.find(".filter-builder-saved").val();
+            if(name === "") {
+                return;
+            }
+            let saved = $.extend({}, UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY, {}));
+            delete saved[name];
+            _this.saveFilters(builder, saved, "");
+        });
+    }
+
+    /**
+     * Shows the filters given by the server (from the URL) in the filter builders on the page and loads the saved
+     * filters of the user. Called when a page is loaded.
+     */
+    public static init()
+    {
+        let instance = FilterBuilder.getInstance();
+        $(".filter-builder").not("[data-initialized]").each(function () {
+            let builder = $(this).attr("data-initialized", "true");
+            let filter : FilterBuilderGroup = null;
+            try {
+                filter = JSON.parse(<string> builder.find("input[data-filter=filter]").val());
+            } catch (e) {
+                filter = null;
+            }
+            instance.render(builder, filter);
+            if(filter !== null && $.isArray(filter.conditions) && filter.conditions.length > 0) {
+                builder.prop("hidden", false);
+            }
+
+            UserSettings.getInstance().load().done(function () {
+                FilterBuilder.fillSavedFilters(builder, "");
+            });
+        });
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Replaces the groups and conditions in the filter builder with the given filter.
+     * @param {JQuery} builder The .filter-builder element.
+     * @param {FilterBuilderGroup} filter The filter, or null for an empty filter.
+     */
+    private render(builder : JQuery, filter : FilterBuilderGroup)
+    {
+        if(filter === null || typeof filter !== "object" || !$.isArray(filter.conditions)) {
+            filter = {group: "and", conditions: []};
+        }
+        let root = this.createGroup(builder, filter);
+        //The outermost group can not be removed
+        root.children(".panel-heading").find(".filter-remove").hide();
+        builder.find(".filter-builder-root").empty().append(root);
+    }
+
+    /**
+     * Creates the elements of a group and its conditions from the prototype in the template.
+     */
+    private createGroup(builder : JQuery, group : FilterBuilderGroup) : JQuery
+    {
+        let _this = this;
+        let element = builder.find(".filter-builder-prototypes > .filter-group").clone();
+        element.find(".filter-group-operator").val(group.group === "or" ? "or" : "and");
+        let conditions = element.children(".filter-conditions");
+        group.conditions.forEach(function (condition : any) {
+            if(condition !== null && condition.hasOwnProperty("group")) {
+                conditions.append(_this.createGroup(builder, condition));
+            } else if(condition !== null) {
+                conditions.append(_this.createCondition(builder, condition));
+            }
+        });
+        return element;
+    }
+
+    /**
+     * Creates the elements of a condition from the prototype in the template.
+     * @param {JQuery} builder The .filter-builder element.
+     * @param {FilterBuilderCondition} condition The condition, or null for a new condition.
+     */
+    private createCondition(builder : JQuery, condition : FilterBuilderCondition) : JQuery
+    {
+        let element = builder.find(".filter-builder-prototypes > .filter-condition").clone();
+        if(condition !== null && element.find(".filter-field option[value='" + condition.field + "']").length > 0) {
+            element.find(".filter-field").val(condition.field);
+            if(condition.operator) {
+                element.find(".filter-operator").val(condition.operator);
+            }
+            let input = element.find(".filter-value[data-field='" + condition.field + "']");
+            if(condition.field === "price") {
+                input.val(LocalizedNumberInput.getInstance().formatNumber(Number(condition.value)));
+            } else if(condition.field === "obsolete") {
+                input.val(condition.value ? "1" : "0");
+            } else {
+                input.val(String(condition.value));
+            }
+        }
+        FilterBuilder.showFieldInputs(element);
+        return element;
+    }
+
+    /**
+     * Shows only the inputs of a condition, which belong to the selected field.
+     * @param {JQuery} condition The .filter-condition element.
+     */
+    private static showFieldInputs(condition : JQuery)
+    {
+        let field : string = <string> condition.find(".filter-field").val();
+        condition.find(".filter-operator").toggle(FilterBuilder.NUMERIC_FIELDS.indexOf(field) !== -1);
+        condition.find(".filter-value").each(function () {
+            $(this).toggle($(this).data("field") === field);
+        });
+    }
+
+    /**
+     * Returns the filter of a group element. Conditions without a value and empty groups are skipped.
+     * @param {JQuery} element The .filter-group element.
+     */
+    private read(element : JQuery) : FilterBuilderGroup
+    {
+        let _this = this;
+        let group : FilterBuilderGroup = {
+            group: element.children(".panel-heading").find(".filter-group-operator").val() === "or" ? "or" : "and",
+            conditions: []
+        };
+        element.children(".filter-conditions").children().each(function () {
+            if($(this).hasClass("filter-group")) {
+                let subgroup : FilterBuilderGroup = _this.read($(this));
+                if(subgroup.conditions.length > 0) {
+                    group.conditions.push(subgroup);
+                }
+            } else {
+                let condition : FilterBuilderCondition = FilterBuilder.readCondition($(this));
+                if(condition !== null) {
+                    group.conditions.push(condition);
+                }
+            }
+        });
+        return group;
+    }
+
+    /**
+     * Returns the condition of a condition element, or null if no value was entered.
+     * @param {JQuery} element The .filter-condition element.
+     */
+    private static readCondition(element : JQuery) : FilterBuilderCondition
+    {
+        let field : string = <string> element.find(".filter-field").val();
+        let input = element.find(".filter-value[data-field='" + field + "']");
+        let text : string = $.trim(LocalizedNumberInput.val(input));
+        if(text === "") {
+            return null;
+        }
+
+        let condition : FilterBuilderCondition = {field: field, value: text};
+        if(field === "obsolete") {
+            condition.value = text === "1";
+        } else if(field !== "text") {
+            condition.value = Number(text);
+            if(isNaN(condition.value) || (FilterBuilder.NUMERIC_FIELDS.indexOf(field) === -1 && condition.value <= 0)) {
+                return null;
+            }
+        }
+        if(FilterBuilder.NUMERIC_FIELDS.indexOf(field) !== -1) {
+            condition.operator = <string> element.find(".filter-operator").val();
+        }
+        return condition;
+    }
+
+    /**
+     * Writes the filter into the hidden filter input. If it has changed, the table is reloaded by PartsTable.
+     * @param {JQuery} builder The .filter-builder element.
+     */
+    private update(builder : JQuery)
+    {
+        let filter : FilterBuilderGroup = this.read(builder.find(".filter-builder-root > .filter-group"));
+        let json : string = filter.conditions.length > 0 ? JSON.stringify(filter) : "";
+        let input = builder.find("input[data-filter=filter]");
+        if(input.val() !== json) {
+            input.val(json).trigger("change");
+        }
+    }
+
+    /**
+     * Saves the filters in the settings of the user and updates the select of the saved filters.
+     * @param {JQuery} builder The .filter-builder element.
+     * @param saved The saved filters by their name.
+     * @param {string} selected The name of the filter, which is selected afterwards.
+     */
+    private saveFilters(builder : JQuery, saved : {[name : string] : FilterBuilderGroup}, selected : string)
+    {
+        let error = builder.find(".filter-builder-error").prop("hidden", true);
+        UserSettings.getInstance().set(FilterBuilder.SETTINGS_KEY, saved)
+            .done(function () {
+                $(".filter-builder").each(function () {
+                    FilterBuilder.fillSavedFilters($(this), $(this).is(builder) ? selected : null);
+                });
+            })
+            .fail(function (xhr : JQuery.jqXHR) {
+                error.prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            });
+    }
+
+    /**
+     * Fills the select of the saved filters with the filters from the settings of the user.
+     * @param {JQuery} builder The .filter-builder element.
+     * @param {string} selected The name of the selected filter, or null to keep the selection.
+     */
+    private static fillSavedFilters(builder : JQuery, selected : string)
+    {
+        let select = builder.find(".filter-builder-saved");
+        if(selected === null) {
+            selected = <string> select.val();
+        }
+        let saved : {[name : string] : FilterBuilderGroup} = UserSettings.getInstance().get(FilterBuilder.SETTINGS_KEY, {});
+        select.children("option").not(":first").remove();
+        Object.keys(saved).sort().forEach(function (name : string) {
+            select.append($("<option>").val(name).text(name));
+        });
+        select.val(saved.hasOwnProperty(selected) ? selected : "");
+    }
+}
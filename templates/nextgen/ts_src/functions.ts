@@ -6,7 +6,7 @@
  */
 function openLink(page : string) {
     'use strict';
-    $('#content').load(page + " #content-data");
+    Router.getInstance().navigate(page);
 }
 
 /**
@@ -140,5 +140,5 @@ function getBasePath() : string
  */
 function reloadPage()
 {
-    openLink(document.location.href);
+    Router.getInstance().reload();
 }
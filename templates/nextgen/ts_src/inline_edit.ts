@@ -0,0 +1,509 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      InlineEditor Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * A cell of a parts table, whose value was changed but is not saved yet (or could not be saved).
+ */
+interface InlineEditChange {
+    td : JQuery;
+    part_id : number;
+    caption : string;
+    /** The new value, like it is sent to the server (e.g. the ID of the store location) */
+    value : string;
+    /** The HTML of the cell before it was changed, so the change can be discarded. */
+    original_html : string;
+    saving : boolean;
+}
+
+/**
+ * The inline editing of the parts tables created by makeSortTable(). A double click on a cell of an editable column
+ * (stock, min. stock, store location, comment and price) shows an input in the cell.
+ * Enter saves the value at once. When the input is left in another way (e.g. with Tab to edit the next cell), the
+ * cell is only marked as changed, so several cells can be saved or discarded together with the bar at the bottom
+ * of the page.
+ * The new values are shown in the cells before the server answered. If a value could not be saved, the error is
+ * shown in its cell and the value stays changed, so it can be corrected.
+ */
+class InlineEditor {
+
+    private static singleton : InlineEditor;
+
+    /** The keys of the table fields, which contain the values of the columns (see Part::buildTemplateTableRowArray()) */
+    private static readonly VALUE_KEYS : {[caption : string] : string} = {
+        instock: "instock",
+        mininstock: "mininstock",
+        storelocation: "storelocation_id",
+        comment: "comment_bbcode",
+        average_single_price: "average_single_price_value"
+    };
+
+    /** The columns, which show a value and must be rendered again after the value was saved. */
+    private static readonly UPDATED_COLUMNS : {[caption : string] : string[]} = {
+        instock: ["instock", "instock_mininstock"],
+        mininstock: ["instock", "mininstock", "instock_mininstock"],
+        storelocation: ["storelocation"],
+        comment: ["comment", "name", "name_description"],
+        average_single_price: ["average_single_price", "single_prices"]
+    };
+
+    private changes : InlineEditChange[] = [];
+    /** The cell, which contains the input at the moment. */
+    private editing : JQuery = null;
+    /** The HTML of the edited cell, before the input was shown. */
+    private editing_html : string = null;
+    private locations : Array<{id : number, name : string, level : number}> = null;
+
+    /**
+     * Gets a instance of InlineEditor. If no instance exits, then a new one is created.
+     * @returns {InlineEditor} A instance of InlineEditor.
+     */
+    public static getInstance() : InlineEditor
+    {
+        if(InlineEditor.singleton == null || InlineEditor.singleton == undefined)
+        {
+            InlineEditor.singleton = new InlineEditor();
+        }
+        return InlineEditor.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the handlers of the cells and the bar. Called by AjaxUI.start()
+     */
+    public start()
+    {
+        let _this = this;
+
+        $(document).on("dblclick", ".table-sortable tbody td", function (this : HTMLElement, event) {
+            let td = $(this);
+            if(_this.editing !== null || $(event.target).is("input, select, a") || !_this.isEditable(td)) {
+                return;
+            }
+            event.preventDefault();
+            //The double click selects the text of the cell
+            window.getSelection().removeAllRanges();
+            _this.edit(td);
+        });
+
+        $("#inline-edit-save").click(function () {
+            _this.save(_this.changes.filter(function (change : InlineEditChange) {
+                return !change.saving;
+            }));
+        });
+        $("#inline-edit-discard").click(function () {
+            _this.changes.filter(function (change : InlineEditChange) {
+                return !change.saving;
+            }).forEach(function (change : InlineEditChange) {
+                _this.discard(change);
+            });
+        });
+
+        //The rows of the server side tables are replaced, when another page is shown
+        $(document).on("draw.dt", ".table-sortable", function () {
+            _this.removeDetachedChanges();
+        });
+        AjaxUI.getInstance().addAjaxCompleteAction(function () {
+            _this.editing = null;
+            _this.removeDetachedChanges();
+        });
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Checks if the user can edit the cell (see HTML::printHeader()). Only the parts tables with a table type can be
+     * edited, because the changed row is rendered for the table type.
+     */
+    private isEditable(td : JQuery) : boolean
+    {
+        let columns : string[] = $("#inline-edit-bar").data("columns") || [];
+        return td.closest("table").find("thead tr[data-table-type]").length > 0
+            && InlineEditor.getPartID(td) > 0
+            && columns.indexOf(InlineEditor.getCaption(td)) !== -1;
+    }
+
+    private static getCaption(td : JQuery) : string
+    {
+        let api : DataTables.Api = td.closest("table").DataTable();
+        return $(api.column(api.cell(td[0]).index().column).header()).data("column");
+    }
+
+    private static getPartID(td : JQuery) : number
+    {
+        return Number(td.closest("tr").find("input[type=hidden]").first().val());
+    }
+
+    /**
+     * Returns the saved value of the cell. The server side tables have no data-value attributes, there the value is
+     * read from the field of the row.
+     */
+    private static getValue(td : JQuery, caption : string) : string
+    {
+        if(td.is("[data-value]")) {
+            return td.attr("data-value");
+        }
+        let field : any = td.closest("table").DataTable().cell(td[0]).data();
+        let value : any = field ? field[InlineEditor.VALUE_KEYS[caption]] : null;
+        return value === null || typeof value === "undefined" ? "" : String(value);
+    }
+
+    /**
+     * Shows the input in the cell.
+     */
+    private edit(td : JQuery)
+    {
+        let _this = this;
+        let caption : string = InlineEditor.getCaption(td);
+        let change : InlineEditChange = this.getChange(td);
+        let value : string = change !== null ? change.value : InlineEditor.getValue(td, caption);
+        let input = $(".inline-edit-prototypes [data-caption='" + caption + "']").clone();
+
+        switch (caption) {
+            case "instock":
+            case "mininstock":
+                //The instock can be unknown
+                input.val(/^\d+$/.test(value) ? value : "");
+                break;
+            case "average_single_price":
+                let price : number = LocalizedNumberInput.getInstance().parse(value, true);
+                input.val(isNaN(price) ? "" : LocalizedNumberInput.getInstance().formatNumber(price));
+                break;
+            case "storelocation":
+                this.fillLocations(input, value);
+                break;
+            default:
+                input.val(value);
+        }
+
+        this.editing = td;
+        this.editing_html = td.html();
+        let inputs = td.children("input[type=hidden]").detach();
+        td.empty().append(inputs).append(input);
+        input.focus().select();
+
+        input.on("keydown", function (event) {
+            switch (event.key) {
+                case "Enter":
+                    event.preventDefault();
+                    _this.finish(true);
+                    break;
+                case "Escape":
+                    event.preventDefault();
+                    _this.cancel();
+                    break;
+                case "Tab":
+                    event.preventDefault();
+                    let next : JQuery = InlineEditor.findNextCell(td, !event.shiftKey, function (cell : JQuery) {
+                        return _this.isEditable(cell);
+                    });
+                    if(_this.finish(false) && next !== null) {
+                        _this.edit(next);
+                    }
+                    break;
+            }
+        }).on("blur", function () {
+            //The value is not taken, if it is invalid, otherwise the user could not leave the input
+            if(_this.editing !== null && _this.editing.is(td) && !_this.finish(false)) {
+                _this.cancel();
+            }
+        });
+    }
+
+    /**
+     * Fills the select with the store locations (they are loaded only once).
+     */
+    private fillLocations(select : JQuery, value : string)
+    {
+        let _this = this;
+        let fill = function () {
+            for(let location of _this.locations) {
+                //Normal spaces would be collapsed in the options
+                select.append($("<option>").val(location.id).data("name", location.name)
+                    .text(new Array(location.level + 1).join("\u00a0\u00a0") + location.name));
+            }
+            select.val(value !== "" ? value : "0");
+        };
+
+        if(this.locations !== null) {
+            fill();
+            return;
+        }
+
+        select.prop("disabled", true);
+        PartDbApiClient.getInstance().getLazyTree("locations", 0, SidebarTree.MAX_DEPTH).done(function (nodes : ApiTreeNode[]) {
+            _this.locations = [];
+            let add = function (nodes : ApiTreeNode[], level : number) {
+                for(let node of nodes) {
+                    //The names are escaped for the treeview
+                    _this.locations.push({id: node.id, name: $("<div>").html(node.text).text(), level: level});
+                    if(node.nodes) {
+                        add(node.nodes, level + 1);
+                    }
+                }
+            };
+            add(nodes, 0);
+            fill();
+            select.prop("disabled", false).focus();
+        });
+    }
+
+    /**
+     * Takes the value of the input. If the value was changed, it is shown in the cell and the cell is marked as
+     * changed.
+     * @param {boolean} save True if the value should be saved at once.
+     * @returns {boolean} False if the value is invalid, then the input stays open.
+     */
+    private finish(save : boolean) : boolean
+    {
+        let td : JQuery = this.editing;
+        let input = td.find("[data-caption]");
+        let caption : string = InlineEditor.getCaption(td);
+        let value : string = this.validate(caption, input);
+        if(value === null) {
+            td.addClass("has-error");
+            input.focus();
+            return false;
+        }
+
+        this.editing = null;
+        td.removeClass("has-error");
+
+        let change : InlineEditChange = this.getChange(td);
+        let saved : string = InlineEditor.getValue(td, caption);
+        if(caption === "average_single_price") {
+            saved = String(LocalizedNumberInput.getInstance().parse(saved, true));
+        }
+
+        if(value === saved) {
+            //The value was changed back
+            if(change !== null) {
+                this.discard(change);
+            } else {
+                td.html(this.editing_html);
+            }
+            return true;
+        }
+
+        if(change === null) {
+            change = {td: td, part_id: InlineEditor.getPartID(td), caption: caption, value: value,
+                original_html: this.editing_html, saving: false};
+            this.changes.push(change);
+        }
+        change.value = value;
+
+        let text : string = value;
+        if(caption === "storelocation") {
+            text = String(input.find("option:selected").data("name") || "");
+        } else if(caption === "average_single_price") {
+            text = LocalizedNumberInput.getInstance().formatPrice(Number(value));
+        }
+        let inputs = td.children("input[type=hidden]").detach();
+        td.text(text).prepend(inputs).removeClass("danger").addClass("warning");
+
+        if(save) {
+            this.save([change]);
+        } else {
+            this.updateBar();
+        }
+        return true;
+    }
+
+    /**
+     * Returns the canonical value of the input, or null if it is invalid.
+     */
+    private validate(caption : string, input : JQuery) : string
+    {
+        let text : string = $.trim(<string> input.val());
+        switch (caption) {
+            case "instock":
+            case "mininstock":
+                return /^\d+$/.test(text) ? String(Number(text)) : null;
+            case "average_single_price":
+                let price : number = LocalizedNumberInput.getInstance().parse(text);
+                return !isNaN(price) && price >= 0 ? String(price) : null;
+            case "storelocation":
+                return input.prop("disabled") ? null : text;
+        }
+        return <string> input.val();
+    }
+
+    /**
+     * Closes the input without taking the value.
+     */
+    private cancel()
+    {
+        let td : JQuery = this.editing;
+        this.editing = null;
+        td.removeClass("has-error").html(this.editing_html);
+        AjaxUI.getInstance().registerLinks();
+    }
+
+    /**
+     * Saves the changes. The changes of a part are sent with one request.
+     */
+    private save(changes : InlineEditChange[])
+    {
+        let _this = this;
+        let parts : {[id : number] : InlineEditChange[]} = {};
+        for(let change of changes) {
+            if(!(change.part_id in parts)) {
+                parts[change.part_id] = [];
+            }
+            parts[change.part_id].push(change);
+        }
+
+        Object.keys(parts).forEach(function (id : string) {
+            let part_changes : InlineEditChange[] = parts[id];
+            let tr = part_changes[0].td.closest("tr");
+            let values : {[caption : string] : string} = {};
+            for(let change of part_changes) {
+                values[change.caption] = change.value;
+                change.saving = true;
+                _this.showStatus(change, null);
+            }
+
+            let type : string = tr.closest("table").find("thead tr[data-table-type]").data("table-type");
+            PartDbApiClient.getInstance().editPartValues(Number(id), values, type)
+                .done(function (result : ApiPartValuesResult) {
+                    let captions : string[] = [];
+                    for(let change of part_changes) {
+                        let value_result = result.results[change.caption];
+                        change.saving = false;
+                        if(value_result && value_result.success) {
+                            _this.changes.splice(_this.changes.indexOf(change), 1);
+                            change.td.removeClass("warning danger").removeAttr("title").tooltip("destroy");
+                            captions = captions.concat(InlineEditor.UPDATED_COLUMNS[change.caption]);
+                        } else {
+                            _this.showStatus(change, value_result ? value_result.message : "");
+                        }
+                    }
+                    //The cells, which are still changed, must not be overwritten
+                    captions = captions.filter(function (caption : string) {
+                        return !_this.changes.some(function (change : InlineEditChange) {
+                            return change.caption === caption && change.td.closest("tr").is(tr);
+                        });
+                    });
+                    _this.updateValues(tr, result.row);
+                    PartsTable.getInstance().updateRow(tr, result.row, captions);
+                })
+                .fail(function (xhr : JQuery.jqXHR) {
+                    for(let change of part_changes) {
+                        change.saving = false;
+                        _this.showStatus(change, PartDbApiClient.getErrorMessage(xhr));
+                    }
+                })
+                .always(function () {
+                    _this.updateBar();
+                });
+        });
+        this.updateBar();
+    }
+
+    /**
+     * Updates the data-value attributes of the cells of the row with the saved values of the part. The cells of the
+     * server side tables get the attribute, too, because their data is not changed.
+     */
+    private updateValues(tr : JQuery, row : ApiPartsTableRow)
+    {
+        let api : DataTables.Api = tr.closest("table").DataTable();
+        api.cells(api.row(tr).index(), "*").nodes().each(function (node : HTMLElement) {
+            let td = $(node);
+            let caption : string = InlineEditor.getCaption(td);
+            if(!InlineEditor.VALUE_KEYS.hasOwnProperty(caption)) {
+                return;
+            }
+            for(let field of row.row_fields) {
+                let value : any = field[InlineEditor.VALUE_KEYS[caption]];
+                if(field.caption === caption && typeof value !== "undefined") {
+                    td.attr("data-value", value === null ? "" : String(value));
+                }
+            }
+        });
+    }
+
+    /**
+     * Shows a spinner while the change is saved, or the error if saving failed.
+     * @param {InlineEditChange} change The change.
+     * @param {string} error The error message, or null if the change is saved at the moment.
+     */
+    private showStatus(change : InlineEditChange, error : string)
+    {
+        change.td.find(".inline-edit-status").remove();
+        let icon = $("<i class='fa fa-fw inline-edit-status' aria-hidden='true'>");
+        if(error === null) {
+            icon.addClass("fa-spinner fa-spin");
+        } else {
+            icon.addClass("fa-exclamation-triangle text-danger");
+            change.td.removeClass("warning").addClass("danger").attr("title", error).tooltip({container: "body"});
+        }
+        change.td.append(" ").append(icon);
+    }
+
+    /**
+     * Restores the cell of the change.
+     */
+    private discard(change : InlineEditChange)
+    {
+        this.changes.splice(this.changes.indexOf(change), 1);
+        change.td.removeClass("warning danger").removeAttr("title").tooltip("destroy").html(change.original_html);
+        AjaxUI.getInstance().registerLinks();
+        this.updateBar();
+    }
+
+    private getChange(td : JQuery) : InlineEditChange
+    {
+        for(let change of this.changes) {
+            if(change.td.is(td)) {
+                return change;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Forgets the changes of the cells, which are not in the page anymore.
+     */
+    private removeDetachedChanges()
+    {
+        this.changes = this.changes.filter(function (change : InlineEditChange) {
+            return $.contains(document.documentElement, change.td[0]);
+        });
+        this.updateBar();
+    }
+
+    /**
+     * Shows the bar with the count of the unsaved changes, if there are some.
+     */
+    private updateBar()
+    {
+        let count : number = this.changes.filter(function (change : InlineEditChange) {
+            return !change.saving;
+        }).length;
+        $("#inline-edit-count").text(count);
+        $("#inline-edit-bar").prop("hidden", count === 0);
+    }
+
+    /**
+     * Returns the next (or previous) cell of the table, which is accepted by the filter, or null if there is none.
+     * The cells of the other rows are searched, when the row contains no more cells.
+     */
+    private static findNextCell(td : JQuery, forward : boolean, filter : (cell : JQuery) => boolean) : JQuery
+    {
+        let cells : HTMLElement[] = td.closest("tbody").find("td").toArray();
+        let index : number = cells.indexOf(td[0]);
+        for(let i = index + (forward ? 1 : -1); i >= 0 && i < cells.length; i += forward ? 1 : -1) {
+            if(filter($(cells[i]))) {
+                return $(cells[i]);
+            }
+        }
+        return null;
+    }
+}
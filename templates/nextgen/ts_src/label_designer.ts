@@ -0,0 +1,843 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      LabelDesigner Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * An element of a label. The position and the size are given in mm, relative to the top left corner of the label.
+ */
+interface LabelElement {
+    type : "text" | "barcode" | "qr" | "image";
+    x : number;
+    y : number;
+    width : number;
+    height : number;
+    /** Only text: The text with placeholders like %NAME% (see Part::replacePlaceholderWithInfos()) */
+    text? : string;
+    /** Only text: The font size in pt */
+    font_size? : number;
+    bold? : boolean;
+    align? : "left" | "center" | "right";
+    /** Only image: The path of the image relative to Part-DB or an URL */
+    source? : string;
+    /** Only image: True if the footprint image of the part is shown instead of the source */
+    use_footprint? : boolean;
+}
+
+/**
+ * The layout of a label, like it is saved in the templates. The size is given in mm.
+ */
+interface LabelLayout {
+    width : number;
+    height : number;
+    elements : LabelElement[];
+}
+
+/**
+ * The data of a part, which is needed to draw its label.
+ */
+interface LabelPartData {
+    part : ApiPart;
+    /** The barcodes of the part by type ("EAN8" or "QR") */
+    barcodes : {[type : string] : ApiBarcode};
+    /** The URL of the footprint image, "" if the part has no footprint image, null if it is not loaded yet. */
+    footprint_image : string;
+}
+
+/**
+ * The label designer on the labels page (tools_labels.php). Text fields with placeholders for the part properties,
+ * barcodes, QR codes and images are placed on the label via drag and drop. The label is drawn with the data of a real
+ * part, so the preview looks exactly like the printed label. The layouts can be saved as templates, which are shared
+ * with all users. The labels for all parts in the list (e.g. the selected parts of a table) are printed by the browser.
+ */
+class LabelDesigner {
+
+    private static singleton : LabelDesigner;
+
+    /** The number of px per mm, at which the label is drawn at most in the designer. */
+    private static readonly MAX_SCALE : number = 8;
+    /** The positions and sizes are rounded to this grid (in mm), when an element is dragged. */
+    private static readonly GRID : number = 0.5;
+    private static readonly PT_TO_MM : number = 25.4 / 72;
+
+    /** The layout which is shown, when the designer is opened the first time. */
+    private static readonly DEFAULT_LAYOUT : LabelLayout = {
+        width: 50,
+        height: 30,
+        elements: [
+            {type: "text", x: 2, y: 2, width: 46, height: 5, text: "%NAME%", font_size: 10, bold: true, align: "left"},
+            {type: "text", x: 2, y: 7.5, width: 46, height: 8, text: "%DESC%", font_size: 7, bold: false, align: "left"},
+            {type: "text", x: 2, y: 16, width: 46, height: 3.5, text: "%STORELOC%", font_size: 7, bold: false, align: "left"},
+            {type: "barcode", x: 2, y: 20, width: 30, height: 8}
+        ]
+    };
+
+    private layout : LabelLayout = null;
+    /** The index of the selected element, -1 if no element is selected. */
+    private selected : number = -1;
+    /** The number of px per mm, at which the label is drawn in the designer. */
+    private scale : number = LabelDesigner.MAX_SCALE;
+
+    /** The IDs of the parts, whose labels are printed. */
+    private part_ids : number[] = [];
+    /** The ID of the part, which is shown in the designer, 0 if no part is shown. */
+    private preview_id : number = 0;
+    private data : {[id : number] : LabelPartData} = {};
+    /** The requests, which load data at the moment (e.g. "12/QR"), so the same data is not loaded twice. */
+    private requests : {[key : string] : JQuery.Promise<any>} = {};
+
+    private templates : ApiLabelTemplates = {};
+
+    /** The element, which is dragged at the moment. */
+    private drag : {resize : boolean, start_x : number, start_y : number, element : LabelElement, original : LabelElement} = null;
+
+    /**
+     * Gets a instance of LabelDesigner. If no instance exits, then a new one is created.
+     * @returns {LabelDesigner} A instance of LabelDesigner.
+     */
+    public static getInstance() : LabelDesigner
+    {
+        if(LabelDesigner.singleton == null || LabelDesigner.singleton == undefined)
+        {
+            LabelDesigner.singleton = new LabelDesigner();
+        }
+        return LabelDesigner.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the handlers of the designer and the "labels" action of the parts tables. The events are delegated,
+     * so they work for the pages loaded via ajax. Called by AjaxUI.start()
+     */
+    public start()
+    {
+        let _this = this;
+
+        //Print the labels for the selected parts of a table
+        $(document).on("click", ".select_actions button[name=multi_action]", function (this : HTMLElement, event) {
+            let container = $(this).closest(".select_actions");
+            if(container.find("select[name=action]").val() !== "labels") {
+                return;
+            }
+            event.preventDefault();
+            let ids : number[] = BulkEditor.getSelectedParts().map(function (part) { return part.id; });
+            if(ids.length > 0) {
+                Router.getInstance().navigateTo("tools_labels", "label_ids=" + ids.join(","));
+            }
+        });
+
+        //Elements
+        $(document).on("click", ".label-designer-add", function (this : HTMLElement) {
+            _this.addElement(<LabelElement["type"]> $(this).data("type"));
+        });
+        $(document).on("click", "#label-designer-remove", function () {
+            if(_this.selected >= 0) {
+                _this.layout.elements.splice(_this.selected, 1);
+                _this.select(-1);
+            }
+        });
+        $(document).on("mousedown", "#label-designer-canvas .label-element", function (this : HTMLElement, event) {
+            let node = $(this);
+            event.preventDefault();
+            _this.select(Number(node.attr("data-index")));
+            let element : LabelElement = _this.layout.elements[_this.selected];
+            _this.drag = {resize: $(event.target).is(".label-element-handle"), start_x: event.pageX,
+                start_y: event.pageY, element: element, original: $.extend({}, element)};
+        });
+        $(document).on("mousedown", "#label-designer-canvas", function (event) {
+            if($(event.target).closest(".label-element").length === 0) {
+                _this.select(-1);
+            }
+        });
+        $(document).on("mousemove", function (event) {
+            if(_this.drag !== null) {
+                _this.onDrag(event.pageX, event.pageY);
+            }
+        });
+        $(document).on("mouseup", function () {
+            _this.drag = null;
+        });
+
+        //Properties
+        $(document).on("change", ".label-designer-size", function (this : HTMLElement) {
+            let value : number = Number($(this).val());
+            if(value > 0) {
+                _this.layout[<"width" | "height"> $(this).data("dimension")] = value;
+                _this.render();
+            }
+        });
+        $(document).on("input change", "#label-designer-properties [data-property]", function (this : HTMLElement) {
+            _this.readProperty($(this));
+        });
+        $(document).on("change", "#label-designer-placeholder", function (this : HTMLElement) {
+            let select = $(this);
+            _this.insertPlaceholder(<string> select.val());
+            select.val("");
+        });
+
+        //Templates
+        $(document).on("change", "#label-designer-templates", function (this : HTMLElement) {
+            let name : string = <string> $(this).val();
+            if(_this.templates.hasOwnProperty(name)) {
+                $("#label-designer-template-name").val(name);
+                _this.setLayout(_this.templates[name]);
+            }
+        });
+        $(document).on("click", "#label-designer-template-save", function () {
+            _this.saveTemplate();
+        });
+        $(document).on("click", "#label-designer-template-delete", function (this : HTMLElement) {
+            _this.deleteTemplate(String($(this).data("confirm")));
+        });
+
+        //Parts
+        $(document).on("click", "#label-designer-part-add", function () {
+            let input = $("#label-designer-part-id");
+            let id : number = Math.floor(Number(input.val()));
+            if(id > 0) {
+                input.val("");
+                _this.addPart(id);
+            }
+        });
+        $(document).on("keydown", "#label-designer-part-id", function (event) {
+            if(event.key === "Enter") {
+                event.preventDefault();
+                $("#label-designer-part-add").click();
+            }
+        });
+        $(document).on("click", "#label-designer-parts .label-designer-part", function (this : HTMLElement) {
+            _this.preview_id = Number($(this).attr("data-id"));
+            _this.showParts();
+            _this.loadPreview();
+        });
+        $(document).on("click", "#label-designer-parts .label-designer-part-remove", function (this : HTMLElement, event) {
+            event.stopPropagation();
+            _this.removePart(Number($(this).closest(".label-designer-part").attr("data-id")));
+        });
+        $(document).on("click", "#label-designer-print", function () {
+            _this.print();
+        });
+    }
+
+    /**
+     * Shows the designer, if it is on the page. The parts given in the data-label-ids attribute are added to the list.
+     * Called when a page is loaded.
+     */
+    public static init()
+    {
+        let designer = $("#label-designer");
+        if(designer.length === 0) {
+            return;
+        }
+        let instance = LabelDesigner.getInstance();
+        if(instance.layout === null) {
+            instance.layout = LabelDesigner.copyLayout(LabelDesigner.DEFAULT_LAYOUT);
+        }
+
+        let ids : string = String(designer.data("label-ids") || "");
+        if(ids !== "") {
+            instance.part_ids = ids.split(",").map(Number).filter(function (id) { return id > 0; });
+            instance.preview_id = instance.part_ids.length > 0 ? instance.part_ids[0] : 0;
+        }
+
+        instance.selected = -1;
+        instance.showError("");
+        instance.loadTemplates();
+        instance.setLayout(instance.layout);
+        instance.showParts();
+        for(let id of instance.part_ids) {
+            instance.loadData(id).done(function () {
+                instance.showParts();
+            });
+        }
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Shows the given layout in the designer. The layout is copied, so changes don't affect templates.
+     */
+    private setLayout(layout : LabelLayout)
+    {
+        this.layout = LabelDesigner.copyLayout(layout);
+        $(".label-designer-size[data-dimension=width]").val(this.layout.width);
+        $(".label-designer-size[data-dimension=height]").val(this.layout.height);
+        this.select(-1);
+        this.loadPreview();
+    }
+
+    /**
+     * Loads the data of the part, which is shown in the designer, and draws the label.
+     */
+    private loadPreview()
+    {
+        let _this = this;
+        this.render();
+        if(this.preview_id > 0) {
+            this.loadData(this.preview_id).done(function () {
+                _this.render();
+            });
+        }
+    }
+
+    /**
+     * Draws the label in the designer. The label is scaled, so it fits into the workspace.
+     */
+    private render()
+    {
+        let canvas = $("#label-designer-canvas");
+        if(canvas.length === 0) {
+            return;
+        }
+        let available : number = canvas.parent().width();
+        this.scale = available > 0 ? Math.min(LabelDesigner.MAX_SCALE, available / this.layout.width) : LabelDesigner.MAX_SCALE;
+
+        let data : LabelPartData = this.data[this.preview_id] || null;
+        let label = this.renderLabel(data, this.scale);
+        //The borders of the elements are only shown while designing
+        label.find(".label-element").css({cursor: "move", outline: "1px dashed #bbb"});
+
+        if(this.selected >= 0) {
+            let node = label.find(".label-element[data-index=" + this.selected + "]");
+            node.css("outline", "1px solid #337ab7");
+            node.append($("<div class='label-element-handle'>").css({position: "absolute", right: 0, bottom: 0,
+                width: "8px", height: "8px", background: "#337ab7", cursor: "nwse-resize"}));
+        }
+
+        canvas.empty().css({width: label.css("width"), height: label.css("height")}).append(label);
+    }
+
+    /**
+     * Draws the label for a part.
+     * @param {LabelPartData} data The data of the part or null, then the placeholders are shown.
+     * @param {number} scale The number of px per mm or null, if the label should be drawn in mm (for printing).
+     * @returns {JQuery} The label.
+     */
+    private renderLabel(data : LabelPartData, scale : number) : JQuery
+    {
+        let length = function (mm : number) : string {
+            return scale === null ? mm + "mm" : (mm * scale) + "px";
+        };
+
+        let label = $("<div class='label-designer-label'>").css({position: "relative", overflow: "hidden",
+            width: length(this.layout.width), height: length(this.layout.height), background: "#fff", color: "#000"});
+
+        for(let i = 0; i < this.layout.elements.length; i++) {
+            let element : LabelElement = this.layout.elements[i];
+            let node = $("<div class='label-element'>").attr("data-index", i).css({position: "absolute",
+                left: length(element.x), top: length(element.y), width: length(element.width),
+                height: length(element.height), overflow: "hidden"});
+
+            switch(element.type) {
+                case "text":
+                    node.text(LabelDesigner.replacePlaceholders(element.text, data !== null ? data.part : null)).css({
+                        "font-family": "sans-serif", "font-size": length(element.font_size * LabelDesigner.PT_TO_MM),
+                        "font-weight": element.bold ? "bold" : "normal", "text-align": element.align,
+                        "line-height": 1.2, "white-space": "pre-wrap", "word-wrap": "break-word"});
+                    break;
+                case "barcode":
+                case "qr":
+                    let type : string = element.type === "qr" ? "QR" : "EAN8";
+                    if(data !== null && data.barcodes[type]) {
+                        node.append(LabelDesigner.renderBarcode(data.barcodes[type], element.type === "qr"));
+                    } else {
+                        node.css("background", "repeating-linear-gradient(90deg, #000 0, #000 2px, #fff 2px, #fff 4px)");
+                    }
+                    break;
+                case "image":
+                    let source : string = element.use_footprint ? (data !== null ? data.footprint_image : "")
+                        : LabelDesigner.resolveURL(element.source);
+                    if(source) {
+                        node.append($("<img>").attr("src", source).css({width: "100%", height: "100%", "object-fit": "contain"}));
+                    } else {
+                        node.css("background", "#ddd");
+                    }
+                    break;
+            }
+            label.append(node);
+        }
+
+        return label;
+    }
+
+    /**
+     * Moves or resizes the dragged element.
+     */
+    private onDrag(page_x : number, page_y : number)
+    {
+        let drag = this.drag;
+        let snap = function (mm : number) : number {
+            return Math.round(mm / LabelDesigner.GRID) * LabelDesigner.GRID;
+        };
+        let dx : number = (page_x - drag.start_x) / this.scale;
+        let dy : number = (page_y - drag.start_y) / this.scale;
+
+        if(drag.resize) {
+            drag.element.width = Math.max(LabelDesigner.GRID, Math.min(this.layout.width - drag.element.x,
+                snap(drag.original.width + dx)));
+            drag.element.height = Math.max(LabelDesigner.GRID, Math.min(this.layout.height - drag.element.y,
+                snap(drag.original.height + dy)));
+        } else {
+            drag.element.x = Math.max(0, Math.min(this.layout.width - drag.element.width, snap(drag.original.x + dx)));
+            drag.element.y = Math.max(0, Math.min(this.layout.height - drag.element.height, snap(drag.original.y + dy)));
+        }
+
+        this.render();
+        this.showProperties();
+    }
+
+    /**
+     * Adds a new element in the top left corner of the label and selects it.
+     */
+    private addElement(type : LabelElement["type"])
+    {
+        let element : LabelElement = {type: type, x: 0, y: 0, width: 20, height: 10};
+        switch(type) {
+            case "text":
+                $.extend(element, {height: 5, text: "%NAME%", font_size: 8, bold: false, align: "left"});
+                break;
+            case "barcode":
+                $.extend(element, {width: 30});
+                break;
+            case "qr":
+                $.extend(element, {width: 15, height: 15});
+                break;
+            case "image":
+                $.extend(element, {source: "", use_footprint: true});
+                break;
+        }
+        element.width = Math.min(element.width, this.layout.width);
+        element.height = Math.min(element.height, this.layout.height);
+
+        this.layout.elements.push(element);
+        this.select(this.layout.elements.length - 1);
+        this.loadPreview();
+    }
+
+    /**
+     * Selects the element with the given index and shows its properties.
+     * @param {number} index The index of the element or -1 to remove the selection.
+     */
+    private select(index : number)
+    {
+        this.selected = index;
+        this.render();
+        this.showProperties();
+    }
+
+    /**
+     * Shows the properties of the selected element in the inputs.
+     */
+    private showProperties()
+    {
+        let container = $("#label-designer-properties");
+        container.prop("hidden", this.selected < 0);
+        if(this.selected < 0) {
+            return;
+        }
+
+        let element : LabelElement = this.layout.elements[this.selected];
+        container.find(".label-designer-property-group").each(function () {
+            $(this).prop("hidden", String($(this).data("types")).split(",").indexOf(element.type) === -1);
+        });
+        container.find("[data-property]").each(function () {
+            let input = $(this);
+            let value : any = element[<keyof LabelElement> input.data("property")];
+            //Don't change the input, which is edited at the moment
+            if(this === document.activeElement) {
+                return;
+            }
+            if(input.is(":checkbox")) {
+                input.prop("checked", value === true);
+            } else {
+                input.val(typeof value === "undefined" ? "" : value);
+            }
+        });
+    }
+
+    /**
+     * Changes the property of the selected element, when its input was changed.
+     */
+    private readProperty(input : JQuery)
+    {
+        if(this.selected < 0) {
+            return;
+        }
+        let element : LabelElement = this.layout.elements[this.selected];
+        let property : keyof LabelElement = input.data("property");
+
+        if(input.is(":checkbox")) {
+            element[property] = input.prop("checked");
+        } else if(input.is("[type=number]")) {
+            let value : number = Number(input.val());
+            if(input.val() === "" || isNaN(value) || value < 0) {
+                return;
+            }
+            element[property] = value;
+        } else {
+            element[property] = <string> input.val();
+        }
+
+        if(property === "use_footprint") {
+            this.loadPreview();
+        } else {
+            this.render();
+        }
+    }
+
+    /**
+     * Inserts the placeholder at the cursor position of the text of the selected element.
+     */
+    private insertPlaceholder(placeholder : string)
+    {
+        let textarea = <HTMLTextAreaElement> $("#label-designer-properties [data-property=text]").get(0);
+        if(placeholder === "" || typeof textarea === "undefined") {
+            return;
+        }
+        let start : number = textarea.selectionStart;
+        textarea.value = textarea.value.substring(0, start) + placeholder + textarea.value.substring(textarea.selectionEnd);
+        textarea.selectionStart = textarea.selectionEnd = start + placeholder.length;
+        $(textarea).focus().trigger("change");
+    }
+
+    /**
+     * Loads the data of a part, which is needed for the current layout. The data is cached, so only missing data is
+     * loaded (e.g. when a QR code was added).
+     * @param {number} id The ID of the part.
+     * @returns The promise, which is resolved with the data.
+     */
+    private loadData(id : number) : JQuery.Promise<LabelPartData>
+    {
+        let _this = this;
+        let api = PartDbApiClient.getInstance();
+        let deferred = $.Deferred<LabelPartData>();
+
+        //Returns the running request for the key or starts a new one
+        let request = function (key : string, start : () => JQuery.Promise<any>) : JQuery.Promise<any> {
+            if(!_this.requests.hasOwnProperty(key)) {
+                _this.requests[key] = start().always(function () {
+                    delete _this.requests[key];
+                });
+            }
+            return _this.requests[key];
+        };
+        let fail = function (xhr : JQuery.jqXHR) {
+            _this.showError(PartDbApiClient.getErrorMessage(xhr));
+            deferred.reject();
+        };
+
+        let loadOthers = function (data : LabelPartData) {
+            let requests : Array<JQuery.Promise<any>> = [];
+            for(let element of _this.layout.elements) {
+                if(element.type === "barcode" || element.type === "qr") {
+                    let type : "EAN8" | "QR" = element.type === "qr" ? "QR" : "EAN8";
+                    if(!data.barcodes.hasOwnProperty(type)) {
+                        requests.push(request(id + "/" + type, function () {
+                            return api.getPartBarcode(id, type).done(function (barcode : ApiBarcode) {
+                                data.barcodes[type] = barcode;
+                            });
+                        }));
+                    }
+                }
+                if(element.type === "image" && element.use_footprint && data.footprint_image === null) {
+                    if(data.part.footprint === null) {
+                        data.footprint_image = "";
+                        continue;
+                    }
+                    requests.push(request(id + "/footprint", function () {
+                        return api.getFootprint(data.part.footprint.id).done(function (footprint : ApiFootprint) {
+                            data.footprint_image = footprint.filename_valid && footprint.filename !== ""
+                                ? LabelDesigner.resolveURL(footprint.filename.replace(/^\//, "")) : "";
+                        });
+                    }));
+                }
+            }
+            $.when.apply($, requests).done(function () {
+                deferred.resolve(data);
+            }).fail(fail);
+        };
+
+        if(typeof this.data[id] !== "undefined") {
+            loadOthers(this.data[id]);
+        } else {
+            request(id + "/part", function () {
+                return api.getPart(id).done(function (part : ApiPart) {
+                    _this.data[id] = {part: part, barcodes: {}, footprint_image: null};
+                });
+            }).done(function () {
+                loadOthers(_this.data[id]);
+            }).fail(fail);
+        }
+
+        return deferred.promise();
+    }
+
+    /**
+     * Adds a part to the list of the printed labels and shows it in the designer.
+     */
+    private addPart(id : number)
+    {
+        let _this = this;
+        this.showError("");
+        this.loadData(id).done(function () {
+            if(_this.part_ids.indexOf(id) === -1) {
+                _this.part_ids.push(id);
+            }
+            _this.preview_id = id;
+            _this.showParts();
+            _this.render();
+        });
+    }
+
+    private removePart(id : number)
+    {
+        this.part_ids = this.part_ids.filter(function (part_id) { return part_id !== id; });
+        if(this.preview_id === id) {
+            this.preview_id = this.part_ids.length > 0 ? this.part_ids[0] : 0;
+            this.loadPreview();
+        }
+        this.showParts();
+    }
+
+    /**
+     * Shows the list of the parts, whose labels are printed.
+     */
+    private showParts()
+    {
+        let list = $("#label-designer-parts").empty();
+        let prototype = $("#label-designer .label-designer-prototypes .label-designer-part");
+        for(let id of this.part_ids) {
+            let item = prototype.clone().attr("data-id", id).toggleClass("active", id === this.preview_id);
+            let data : LabelPartData = this.data[id] || null;
+            item.find(".label-designer-part-name").text(data !== null ? data.part.name : "#" + id);
+            list.append(item);
+        }
+        $("#label-designer-count").text(this.part_ids.length);
+        $("#label-designer-print").prop("disabled", this.part_ids.length === 0);
+    }
+
+    /**
+     * Prints the labels for all parts in the list. The labels are shown in a new window, which has the size of the
+     * label as page size, so every label is printed on its own page.
+     */
+    private print()
+    {
+        let _this = this;
+        if(this.part_ids.length === 0) {
+            return;
+        }
+        //The window must be opened directly in the click handler, otherwise it is blocked by the browser
+        let win : Window = window.open("", "_blank");
+        if(win === null) {
+            return;
+        }
+
+        let ids : number[] = this.part_ids.slice();
+        let requests = ids.map(function (id) { return _this.loadData(id); });
+        $.when.apply($, requests).done(function () {
+            let html : string = ids.map(function (id) {
+                return _this.renderLabel(_this.data[id], null).css("page-break-after", "always").prop("outerHTML");
+            }).join("");
+
+            win.document.open();
+            win.document.write("<!DOCTYPE html><html><head><title>" + $("<div>").text(document.title).html()
+                + "</title><style>@page { size: " + _this.layout.width + "mm " + _this.layout.height + "mm; margin: 0; }"
+                + " body { margin: 0; }</style></head><body>" + html + "</body></html>");
+            win.document.close();
+            LabelDesigner.printWhenLoaded(win);
+        }).fail(function () {
+            win.close();
+        });
+    }
+
+    /**
+     * Prints the window, after all images are loaded.
+     */
+    private static printWhenLoaded(win : Window)
+    {
+        let pending : number = 0;
+        let done = function () {
+            if(--pending <= 0) {
+                win.focus();
+                win.print();
+            }
+        };
+        $(win.document.images).each(function () {
+            if(!this.complete) {
+                pending++;
+                $(this).on("load error", done);
+            }
+        });
+        if(pending === 0) {
+            pending = 1;
+            done();
+        }
+    }
+
+    /**
+     * Loads the templates from the server and fills the select.
+     */
+    private loadTemplates()
+    {
+        let _this = this;
+        PartDbApiClient.getInstance().getLabelTemplates().done(function (templates : ApiLabelTemplates) {
+            _this.templates = templates;
+            _this.fillTemplates();
+        }).fail(function (xhr : JQuery.jqXHR) {
+            _this.showError(PartDbApiClient.getErrorMessage(xhr));
+        });
+    }
+
+    private fillTemplates()
+    {
+        let select = $("#label-designer-templates");
+        let selected : string = <string> $("#label-designer-template-name").val();
+        select.find("option:not(:first)").remove();
+        for(let name of Object.keys(this.templates).sort()) {
+            select.append($("<option>").val(name).text(name));
+        }
+        select.val(this.templates.hasOwnProperty(selected) ? selected : "");
+    }
+
+    /**
+     * Saves the current layout as template with the name from the input.
+     */
+    private saveTemplate()
+    {
+        let _this = this;
+        let name : string = $.trim(<string> $("#label-designer-template-name").val());
+        if(name === "") {
+            $("#label-designer-template-name").focus();
+            return;
+        }
+        this.showError("");
+        let layout : LabelLayout = LabelDesigner.copyLayout(this.layout);
+        PartDbApiClient.getInstance().saveLabelTemplate(name, layout).done(function () {
+            _this.templates[name] = layout;
+            $("#label-designer-template-name").val(name);
+            _this.fillTemplates();
+        }).fail(function (xhr : JQuery.jqXHR) {
+            _this.showError(PartDbApiClient.getErrorMessage(xhr));
+        });
+    }
+
+    /**
+     * Deletes the template selected in the select, after the user confirmed it.
+     */
+    private deleteTemplate(question : string)
+    {
+        let _this = this;
+        let name : string = <string> $("#label-designer-templates").val();
+        if(name === "" || !confirm(question)) {
+            return;
+        }
+        this.showError("");
+        PartDbApiClient.getInstance().deleteLabelTemplate(name).done(function () {
+            delete _this.templates[name];
+            _this.fillTemplates();
+        }).fail(function (xhr : JQuery.jqXHR) {
+            _this.showError(PartDbApiClient.getErrorMessage(xhr));
+        });
+    }
+
+    /**
+     * Shows an error message below the designer. An empty message hides the error.
+     */
+    private showError(message : string)
+    {
+        $("#label-designer-error").prop("hidden", message === "").text(message);
+    }
+
+    /**
+     * Replaces the placeholders in the text with the properties of the part, like Part::replacePlaceholderWithInfos().
+     * @param {string} text The text with placeholders like %NAME%.
+     * @param {ApiPart} part The part or null, then the text is returned unchanged.
+     */
+    private static replacePlaceholders(text : string, part : ApiPart) : string
+    {
+        if(part === null) {
+            return text;
+        }
+        //The description and the comment are given as HTML (parsed BBCode)
+        let plain = function (html : string) : string {
+            return new DOMParser().parseFromString(html, "text/html").body.textContent || "";
+        };
+        let orderdetails : ApiOrderdetails = part.orderdetails.length > 0 ? part.orderdetails[0] : null;
+        let supplier : ApiSupplier = orderdetails !== null && orderdetails.supplier ? orderdetails.supplier : null;
+        let values : {[placeholder : string] : string} = {
+            "%ID%": String(part.id),
+            "%NAME%": part.name,
+            "%DESC%": plain(part.description),
+            "%COMMENT%": plain(part.comment),
+            "%MININSTOCK%": String(part.mininstock),
+            "%INSTOCK%": String(part.instock),
+            "%AVGPRICE%": part.avgprice !== null && typeof part.avgprice !== "undefined"
+                ? LocalizedNumberInput.getInstance().formatPrice(part.avgprice) : "",
+            "%CAT%": part.category !== null ? part.category.name : "",
+            "%CAT_FULL%": part.category !== null ? part.category.fullpath : "",
+            "%FOOT%": part.footprint !== null ? part.footprint.name : "",
+            "%FOOT_FULL%": part.footprint !== null ? part.footprint.fullpath : "",
+            "%MANUFACT%": part.manufacturer !== null ? part.manufacturer.name : "",
+            "%MANUFACT_FULL%": part.manufacturer !== null ? part.manufacturer.fullpath : "",
+            "%SUPPLIER%": supplier !== null ? supplier.name : "",
+            "%SUPPLIER_FULL%": supplier !== null ? supplier.fullpath : "",
+            "%ORDER_NR%": orderdetails !== null ? orderdetails.supplierpartnr : "",
+            "%STORELOC%": part.storelocation !== null ? part.storelocation.name : "",
+            "%STORELOC_FULL%": part.storelocation !== null ? part.storelocation.fullpath : "",
+            "%DATETIME%": new Date().toLocaleString()
+        };
+        return text.replace(/%[A-Z_]+%/g, function (placeholder : string) {
+            return values.hasOwnProperty(placeholder) ? values[placeholder] : placeholder;
+        });
+    }
+
+    /**
+     * Draws a barcode as SVG, which fills its parent.
+     * @param {ApiBarcode} barcode The modules of the barcode.
+     * @param {boolean} keep_ratio True if the modules must be square (QR codes), otherwise the barcode is stretched.
+     */
+    private static renderBarcode(barcode : ApiBarcode, keep_ratio : boolean) : SVGSVGElement
+    {
+        const ns : string = "http://www.w3.org/2000/svg";
+        let svg = <SVGSVGElement> document.createElementNS(ns, "svg");
+        svg.setAttribute("viewBox", "0 0 " + barcode.width + " " + barcode.height);
+        svg.setAttribute("preserveAspectRatio", keep_ratio ? "xMidYMid meet" : "none");
+        svg.setAttribute("shape-rendering", "crispEdges");
+        svg.setAttribute("width", "100%");
+        svg.setAttribute("height", "100%");
+
+        let path = document.createElementNS(ns, "path");
+        path.setAttribute("d", barcode.rects.map(function (rect : number[]) {
+            return "M" + rect[0] + " " + rect[1] + "h" + rect[2] + "v" + rect[3] + "h-" + rect[2] + "z";
+        }).join(""));
+        path.setAttribute("fill", "#000");
+        svg.appendChild(path);
+
+        return svg;
+    }
+
+    /**
+     * Returns the absolute URL of an image, so it also works in the print window.
+     * @param {string} source The path relative to Part-DB or an URL.
+     */
+    private static resolveURL(source : string) : string
+    {
+        if(typeof source !== "string" || source === "") {
+            return "";
+        }
+        let link = document.createElement("a");
+        link.href = /^[a-z]+:/i.test(source) ? source : BASE + source;
+        return link.href;
+    }
+
+    private static copyLayout(layout : LabelLayout) : LabelLayout
+    {
+        return JSON.parse(JSON.stringify(layout));
+    }
+}
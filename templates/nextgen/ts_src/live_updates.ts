@@ -0,0 +1,143 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      LiveUpdates Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * Updates the open page, when elements are changed by other users (or in other tabs), without reloading it.
+ * The changes are requested from the server via long polling (see ChangeFeed.php): The instock of the parts in the
+ * open tables is updated, the treeviews are reloaded, when a structural element was changed and on edit forms a
+ * warning is shown, if the edited element was changed by another user.
+ */
+class LiveUpdates {
+
+    private static singleton : LiveUpdates;
+
+    /** The time in ms, until a failed request is retried. */
+    private static readonly RETRY_DELAY : number = 10000;
+
+    /** The tables of the elements, which are shown in the treeviews. */
+    private static readonly TREE_TABLES : string[] = ["categories", "storelocations", "footprints", "manufacturers",
+        "suppliers", "devices"];
+
+    /** The ID of the last known change. */
+    private last_id : number = null;
+
+    /**
+     * Gets a instance of LiveUpdates. If no instance exits, then a new one is created.
+     * @returns {LiveUpdates} A instance of LiveUpdates.
+     */
+    public static getInstance() : LiveUpdates
+    {
+        if(LiveUpdates.singleton == null || LiveUpdates.singleton == undefined)
+        {
+            LiveUpdates.singleton = new LiveUpdates();
+        }
+        return LiveUpdates.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Starts requesting the changes. Called by AjaxUI.start()
+     */
+    public start()
+    {
+        $(document).on("click", ".live-update-reload", function (event) {
+            event.preventDefault();
+            Router.getInstance().reload();
+        });
+        this.poll();
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Waits for the next changes. The first request only gets the ID of the last change.
+     */
+    private poll()
+    {
+        let _this = this;
+        PartDbApiClient.getInstance().getChanges(this.last_id)
+            .done(function (data : ApiChanges) {
+                if(_this.last_id !== null) {
+                    _this.handleChanges(data.changes);
+                }
+                _this.last_id = data.last_id;
+                _this.poll();
+            })
+            .fail(function (xhr : JQuery.jqXHR) {
+                //The session has expired (see start_session.php), polling again would not help
+                if(xhr.status == 401) {
+                    AjaxErrorHandler.getInstance().redirectToLogin();
+                    return;
+                }
+                //E.g. offline or the server is restarting
+                window.setTimeout(function () {
+                    _this.poll();
+                }, LiveUpdates.RETRY_DELAY);
+            });
+    }
+
+    private handleChanges(changes : ApiChange[])
+    {
+        let _this = this;
+        let update_trees : boolean = false;
+        let parts : number[] = [];
+
+        changes.forEach(function (change : ApiChange) {
+            if(!change.own) {
+                if(LiveUpdates.TREE_TABLES.indexOf(change.table) !== -1) {
+                    update_trees = true;
+                }
+                if(change.change !== "created") {
+                    $(".live-update-banner[data-table=" + change.table + "][data-id=" + change.element_id + "]")
+                        .prop("hidden", false);
+                }
+            }
+            //The own changes are updated too, e.g. when the instock was changed via the barcode scanner
+            if(change.table === "parts" && change.change === "updated" && parts.indexOf(change.element_id) === -1) {
+                parts.push(change.element_id);
+            }
+        });
+
+        if(update_trees) {
+            AjaxUI.getInstance().updateTrees();
+        }
+        parts.forEach(function (id : number) {
+            _this.updatePart(id);
+        });
+    }
+
+    /**
+     * Updates the instock of the part in the open tables.
+     */
+    private updatePart(id : number)
+    {
+        let rows = $(".table-sortable tbody tr").filter(function () {
+            return Number($(this).find("input[type=hidden]").first().val()) === id;
+        });
+        if(rows.length === 0) {
+            return;
+        }
+
+        PartDbApiClient.getInstance().getPart(id).done(function (part : ApiPart) {
+            rows.each(function () {
+                let row = $(this);
+                //-1 means, that the user is not allowed to see the instock, -2 that the instock is unknown
+                let instock : number = Number(part.instock);
+                if(instock === -1) {
+                    return;
+                }
+                let text : string = instock === -2 ? row.closest("table").data("label-unknown") : String(instock);
+                row.find(".part-instock").text(text);
+                row.find(".part-instock-mininstock").text(text + "/" + part.mininstock);
+            });
+        });
+    }
+}
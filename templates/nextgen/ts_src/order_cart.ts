@@ -0,0 +1,254 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      OrderCart Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * The order cart on the page of the parts to order. The parts are grouped by their supplier, for every supplier an
+ * order file can be downloaded and the parts can be marked as ordered or received.
+ */
+class OrderCart {
+
+    private static singleton : OrderCart;
+
+    /**
+     * Gets a instance of OrderCart. If no instance exits, then a new one is created.
+     * @returns {OrderCart} A instance of OrderCart.
+     */
+    public static getInstance() : OrderCart
+    {
+        if(OrderCart.singleton == null || OrderCart.singleton == undefined)
+        {
+            OrderCart.singleton = new OrderCart();
+        }
+        return OrderCart.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the handlers of the order cart. Called by AjaxUI.start()
+     * The cart is part of the page content, so the handlers are delegated to the document.
+     */
+    public start()
+    {
+        let _this = this;
+
+        $(document).on("change", "#order-cart-groups .order-cart-select-all", function (this : HTMLElement) {
+            let checkbox = $(this);
+            checkbox.closest(".order-cart-group").find("tbody input[type=checkbox]")
+                .prop("checked", checkbox.prop("checked"));
+        }).on("click", "#order-cart-groups .order-cart-export", function (this : HTMLElement) {
+            _this.export($(this).closest(".order-cart-group"));
+        }).on("click", "#order-cart-groups .order-cart-status-btn", function (this : HTMLElement) {
+            let btn = $(this);
+            let message : string = btn.data("confirm");
+            if(message && !confirm(message)) {
+                return;
+            }
+            _this.setStatus(btn.closest(".order-cart-group"), btn.data("status"));
+        });
+    }
+
+    /**
+     * Loads the cart, if it is on the page. Called when a page is loaded.
+     */
+    public static init()
+    {
+        if($("#order-cart").length === 0) {
+            return;
+        }
+        OrderCart.getInstance().load();
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    private load()
+    {
+        this.request(PartDbApiClient.getInstance().getOrderCart());
+    }
+
+    /**
+     * Shows the loading indicator while the request is running and the cart (or the error) afterwards.
+     * @param {JQuery.jqXHR<ApiOrderCart>} request The request, which returns the cart.
+     */
+    private request(request : JQuery.jqXHR<ApiOrderCart>)
+    {
+        let _this = this;
+
+        $("#order-cart-error").prop("hidden", true).empty();
+        $("#order-cart-loading").prop("hidden", false);
+        //Only the enabled buttons are enabled again, if the request fails
+        $("#order-cart-groups button:enabled").addClass("order-cart-busy").prop("disabled", true);
+
+        request.done(function (cart : ApiOrderCart) {
+            _this.render(cart);
+        }).fail(function (xhr : JQuery.jqXHR) {
+            OrderCart.showError(xhr);
+            $("#order-cart-groups .order-cart-busy").removeClass("order-cart-busy").prop("disabled", false);
+        }).always(function () {
+            $("#order-cart-loading").prop("hidden", true);
+        });
+    }
+
+    private static showError(xhr : JQuery.jqXHR)
+    {
+        $("#order-cart-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+    }
+
+    /**
+     * Returns the IDs of the selected parts of a supplier, or all of its parts if none is selected.
+     * @param {JQuery} group The panel of the supplier.
+     */
+    private static getPartIds(group : JQuery) : number[]
+    {
+        let checkboxes = group.find("tbody input[type=checkbox]");
+        if(checkboxes.filter(":checked").length > 0) {
+            checkboxes = checkboxes.filter(":checked");
+        }
+        return checkboxes.map(function () {
+            return Number($(this).val());
+        }).get();
+    }
+
+    /**
+     * Downloads the order file of a supplier in the selected format.
+     * @param {JQuery} group The panel of the supplier.
+     */
+    private export(group : JQuery)
+    {
+        $("#order-cart-error").prop("hidden", true).empty();
+
+        PartDbApiClient.getInstance().exportOrderCart(Number(group.data("supplier-id")),
+            String(group.find(".order-cart-format").val()), OrderCart.getPartIds(group))
+            .done(function (file : {filename : string, content : string}) {
+                let url = URL.createObjectURL(new Blob([file.content], {type: "text/csv;charset=utf-8"}));
+                let link = $("<a>").attr({href: url, download: file.filename}).appendTo("body");
+                (<HTMLAnchorElement> link[0]).click();
+                link.remove();
+                URL.revokeObjectURL(url);
+            })
+            .fail(function (xhr : JQuery.jqXHR) {
+                OrderCart.showError(xhr);
+            });
+    }
+
+    /**
+     * Changes the status of the selected parts of a supplier.
+     * @param {JQuery} group The panel of the supplier.
+     * @param {ApiOrderCartStatus} status The new status.
+     */
+    private setStatus(group : JQuery, status : ApiOrderCartStatus)
+    {
+        let request = PartDbApiClient.getInstance().setOrderCartStatus(OrderCart.getPartIds(group), status);
+        if(status === "received") {
+            //The instocks have changed, so the other tables of the page are outdated, too
+            request.done(function () {
+                Router.getInstance().reload();
+            });
+        }
+        this.request(request);
+    }
+
+    /**
+     * Shows the groups of the cart.
+     */
+    private render(cart : ApiOrderCart)
+    {
+        let container = $("#order-cart");
+        let prototypes = container.find(".order-cart-prototypes");
+        let can_order : boolean = container.data("can-order") === true;
+        let can_receive : boolean = container.data("can-receive") === true;
+
+        let groups = $("#order-cart-groups").empty();
+        for (let group of cart.groups) {
+            let panel = prototypes.children(".order-cart-group").clone();
+            panel.attr("data-supplier-id", group.supplier !== null ? group.supplier.id : 0);
+            panel.find(".order-cart-supplier").text(group.supplier !== null ? group.supplier.name
+                : String(container.data("label-no-supplier")));
+            panel.find(".order-cart-count").text(group.lines.length);
+            panel.find(".order-cart-group-total").text(group.total_string);
+            panel.find(".order-cart-missing-prices").prop("hidden", !group.missing_prices)
+                .attr("title", String(container.data("label-missing-prices")));
+
+            let tbody = panel.find("tbody");
+            for (let line of group.lines) {
+                tbody.append(this.renderLine(line, prototypes, String(container.data("label-no-partnr"))));
+            }
+
+            let select = panel.find(".order-cart-format");
+            for (let format in cart.export_formats) {
+                select.append($("<option>").val(format).text(cart.export_formats[format]));
+            }
+            //Without a supplier, there is no shop, where the file could be uploaded
+            panel.find(".order-cart-format, .order-cart-export").prop("disabled", group.supplier === null);
+            panel.find(".order-cart-status-btn[data-status!=received]").prop("disabled", !can_order);
+            panel.find(".order-cart-status-btn[data-status=received]").prop("disabled", !can_receive);
+
+            groups.append(panel);
+        }
+
+        $("#order-cart-total").text(cart.total_string);
+        $("#order-cart-empty").prop("hidden", cart.groups.length > 0);
+
+        AjaxUI.getInstance().registerLinks();
+    }
+
+    /**
+     * Creates the row of a part.
+     * @param {ApiOrderCartLine} line The part.
+     * @param {JQuery} prototypes The prototypes of the labels.
+     * @param {string} no_partnr_label The title of the warning, which is shown, if the part has no supplier part number.
+     */
+    private renderLine(line : ApiOrderCartLine, prototypes : JQuery, no_partnr_label : string) : JQuery
+    {
+        let tr = $("<tr>").toggleClass("info", line.status === "ordered");
+
+        tr.append($("<td>").append($("<input type='checkbox'>").val(line.part.id)));
+
+        let part = $("<td>").append($("<a>").attr("href", "show_part_info.php?pid=" + line.part.id)
+            .text(line.part.name));
+        if(line.part.description !== "") {
+            part.append($("<br>"), $("<small class='text-muted'>").html(line.part.description));
+        }
+        tr.append(part);
+
+        let partnr = $("<td>");
+        if(line.supplierpartnr === "") {
+            partnr.append($("<i class='fa fa-exclamation-triangle text-warning' aria-hidden='true'>")
+                .attr("title", no_partnr_label));
+        } else if(line.supplier_product_url !== "") {
+            partnr.append($("<a class='link-external' target='_blank' rel='noopener'>")
+                .attr("href", line.supplier_product_url).text(line.supplierpartnr));
+        } else {
+            partnr.text(line.supplierpartnr);
+        }
+        tr.append(partnr);
+
+        tr.append($("<td class='text-right'>").text(line.needed));
+
+        let quantity = $("<td class='text-right'>");
+        for (let reason of line.reasons) {
+            quantity.append(prototypes.children(".order-cart-reason[data-reason=" + reason + "]").clone(), " ");
+        }
+        quantity.append($("<b>").text(line.quantity));
+        tr.append(quantity);
+
+        tr.append($("<td class='text-right'>").text(line.packaging_unit));
+        tr.append($("<td class='text-right'>").text(line.single_price_string));
+        tr.append($("<td class='text-right'>").text(line.total_string));
+
+        let status = prototypes.children(".order-cart-status[data-status=" + line.status + "]").clone();
+        if(line.datetime_ordered !== null) {
+            status.attr("title", line.datetime_ordered);
+        }
+        tr.append($("<td>").append(status));
+
+        return tr;
+    }
+}
@@ -0,0 +1,349 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      PartInfoDialog Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * The modal on the edit_part_info page, which searches the enabled part-info providers (see part_info_providers.ts)
+ * and fills the fields of the part with the selected result.
+ */
+class PartInfoDialog {
+
+    private static singleton : PartInfoDialog;
+
+    /** The search results of all providers, in the order of the rows in the results table. */
+    private results : PartInfoSearchResult[] = [];
+    /** The details of the selected result. */
+    private selected : PartInfo = null;
+
+    /**
+     * Gets a instance of PartInfoDialog. If no instance exits, then a new one is created.
+     * @returns {PartInfoDialog} A instance of PartInfoDialog.
+     */
+    public static getInstance() : PartInfoDialog
+    {
+        if(PartInfoDialog.singleton == null || PartInfoDialog.singleton == undefined)
+        {
+            PartInfoDialog.singleton = new PartInfoDialog();
+        }
+        return PartInfoDialog.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Opens the modal and searches for the current name of the part.
+     */
+    public open()
+    {
+        let _this = this;
+        let modal = $("#part-info-modal");
+
+        //The modal is part of the ajax loaded content, so (re)bind the handlers every time.
+        modal.find("#part-info-search").off("click").click(function () {
+            _this.search(<string> $("#part-info-keyword").val());
+        });
+        modal.find("#part-info-keyword").off("keydown").keydown(function (event) {
+            if(event.keyCode == 13) {
+                event.preventDefault();
+                _this.search(<string> $(this).val());
+            }
+        });
+        modal.find("#part-info-apply").off("click").click(function () {
+            _this.apply();
+            modal.modal("hide");
+        });
+
+        let keyword : string = <string> $("#name").val();
+        $("#part-info-keyword").val(keyword);
+        modal.modal("show");
+
+        if(keyword !== "") {
+            this.search(keyword);
+        }
+    }
+
+    /**
+     * Search the keyword with all enabled providers. The results are added to the table, as soon as a
+     * provider has answered.
+     * @param {string} keyword The keyword to search for.
+     */
+    public search(keyword : string)
+    {
+        let _this = this;
+        let providers : PartInfoProvider[] = PartInfoProviderRegistry.getInstance().getProviders();
+
+        this.results = [];
+        this.selected = null;
+        $("#part-info-results tbody").empty();
+        $("#part-info-details").prop("hidden", true);
+        $("#part-info-apply").prop("disabled", true);
+        $("#part-info-error").prop("hidden", true).empty();
+        $("#part-info-no-results").prop("hidden", true);
+
+        if($.trim(keyword) === "" || providers.length == 0) {
+            return;
+        }
+
+        let pending : number = providers.length;
+        $("#part-info-loading").prop("hidden", false);
+
+        let finished = function () {
+            pending--;
+            if(pending == 0) {
+                $("#part-info-loading").prop("hidden", true);
+                $("#part-info-no-results").prop("hidden", _this.results.length > 0);
+            }
+        };
+
+        for(let provider of providers) {
+            provider.search(keyword)
+                .done(function (results : PartInfoSearchResult[]) {
+                    _this.addResults(provider, results);
+                })
+                .fail(function (message : string) {
+                    _this.showError(provider, message);
+                })
+                .always(finished);
+        }
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Adds the results of a provider to the results table.
+     */
+    private addResults(provider : PartInfoProvider, results : PartInfoSearchResult[])
+    {
+        let _this = this;
+        let tbody = $("#part-info-results tbody");
+
+        for(let result of results) {
+            let index : number = this.results.push(result) - 1;
+            let row = $("<tr>").css("cursor", "pointer")
+                .append($("<td>").text(result.name))
+                .append($("<td>").text(result.manufacturer))
+                .append($("<td>").text(result.description))
+                .append($("<td>").text(provider.label));
+            row.click(function () {
+                tbody.find("tr").removeClass("info");
+                $(this).addClass("info");
+                _this.loadDetails(_this.results[index]);
+            });
+            tbody.append(row);
+        }
+    }
+
+    /**
+     * Fetches the details of the selected result and shows them.
+     */
+    private loadDetails(result : PartInfoSearchResult)
+    {
+        let _this = this;
+        let provider : PartInfoProvider = PartInfoProviderRegistry.getInstance().getProvider(result.provider);
+
+        this.selected = null;
+        $("#part-info-apply").prop("disabled", true);
+        $("#part-info-details").prop("hidden", true);
+        $("#part-info-loading").prop("hidden", false);
+
+        provider.getDetails(result)
+            .done(function (info : PartInfo) {
+                _this.selected = info;
+                _this.showDetails(info);
+            })
+            .fail(function (message : string) {
+                _this.showError(provider, message);
+            })
+            .always(function () {
+                $("#part-info-loading").prop("hidden", true);
+            });
+    }
+
+    /**
+     * Shows the values of the selected part. Every field has a checkbox, so the user can choose what is applied.
+     */
+    private showDetails(info : PartInfo)
+    {
+        let details = $("#part-info-details");
+
+        let fields : {[field : string] : string} = {
+            name: info.name,
+            description: info.description,
+            manufacturer: info.manufacturer,
+            footprint: info.footprint,
+            datasheet_url: info.datasheet_url
+        };
+
+        for(let field in fields) {
+            let row = details.find("[data-field=" + field + "]");
+            row.find(".part-info-value").text(fields[field]);
+            row.find("input:checkbox").prop("checked", fields[field] !== "").prop("disabled", fields[field] === "");
+        }
+
+        let offer_select = details.find("#part-info-offer").empty();
+        info.offers.forEach(function (offer : PartInfoOffer, index : number) {
+            let text : string = offer.supplier + " (" + offer.supplierpartnr + ")";
+            if(offer.prices.length > 0) {
+                text += ": " + offer.prices[0].price + " " + offer.prices[0].currency;
+            }
+            offer_select.append($("<option>").val(index).text(text));
+        });
+        let offer_row = details.find("[data-field=offer]");
+        offer_row.find("input:checkbox").prop("checked", info.offers.length > 0).prop("disabled", info.offers.length == 0);
+
+        details.prop("hidden", false);
+        $("#part-info-apply").prop("disabled", false);
+    }
+
+    private showError(provider : PartInfoProvider, message : string)
+    {
+        $("#part-info-error").prop("hidden", false)
+            .append($("<div>").text(provider.label + ": " + message));
+    }
+
+    /**
+     * Fills the checked fields of the selected part into the forms of the edit page.
+     */
+    private apply()
+    {
+        if(this.selected === null) {
+            return;
+        }
+        let info : PartInfo = this.selected;
+        let details = $("#part-info-details");
+        let isChecked = function (field : string) : boolean {
+            return details.find("[data-field=" + field + "] input:checkbox").prop("checked");
+        };
+
+        if(isChecked("name")) {
+            PartInfoDialog.setValue($("#name"), info.name);
+        }
+        if(isChecked("description")) {
+            PartInfoDialog.setValue($("#description"), info.description);
+        }
+        if(isChecked("manufacturer")) {
+            PartInfoDialog.selectByName("manufacturer_id", "search_manufacturer_name", info.manufacturer);
+        }
+        if(isChecked("footprint")) {
+            PartInfoDialog.selectByName("footprint_id", "search_footprint_name", info.footprint);
+        }
+        if(isChecked("datasheet_url")) {
+            this.applyDatasheet(info.datasheet_url);
+        }
+        if(isChecked("offer")) {
+            let offer : PartInfoOffer = info.offers[Number($("#part-info-offer").val())];
+            if(typeof offer !== "undefined") {
+                this.applyOffer(offer);
+            }
+        }
+    }
+
+    /**
+     * Puts the datasheet URL into the form for a new attachement (only available for existing parts).
+     */
+    private applyDatasheet(url : string)
+    {
+        let form = $("form").has("input[name=attachement_id][value=new]");
+        if(form.length == 0) {
+            return;
+        }
+
+        PartInfoDialog.setValue(form.find("input[name=attachement_filename]"), url);
+        let name = form.find("input[name=name]");
+        if(name.val() === "") {
+            //The translated name for the attachement is set in the template
+            PartInfoDialog.setValue(name, $("#part-info-details [data-field=datasheet_url]").data("attachement-name"));
+        }
+        let type = form.find("select[name=attachement_type_id] option").filter(function () {
+            return /datasheet|datenblatt/i.test($(this).text());
+        });
+        if(type.length > 0) {
+            form.find("select[name=attachement_type_id]").val(<string> type.first().val());
+        }
+    }
+
+    /**
+     * Fills the order information (only available for existing parts): When the part has already orderdetails
+     * for the supplier, the price is put into the new price row of them. Otherwise the supplier and the order
+     * number are put into the row for new orderdetails.
+     */
+    private applyOffer(offer : PartInfoOffer)
+    {
+        let orderdetails = $("#orderdetails");
+        if(orderdetails.length == 0) {
+            return;
+        }
+
+        //The orderdetails, which already exist for this supplier
+        let existing = orderdetails.find("select[name^=supplier_id_]").not("[name=supplier_id_new]").filter(function () {
+            return PartInfoDialog.equalsName($(this).find("option:selected").text(), offer.supplier);
+        });
+
+        if(existing.length > 0 && offer.prices.length > 0) {
+            let id : string = (<string> existing.first().attr("name")).replace("supplier_id_", "");
+            let price : PartInfoPrice = offer.prices[0];
+            PartInfoDialog.setValue(orderdetails.find("input[name=min_discount_quantity_" + id + "_new]"), String(price.quantity));
+            PartInfoDialog.setValue(orderdetails.find("input[name=price_" + id + "_new]"), String(price.price));
+            return;
+        }
+
+        let select = orderdetails.find("select[name=supplier_id_new]");
+        let option = select.find("option").filter(function () {
+            return PartInfoDialog.equalsName($(this).text(), offer.supplier);
+        });
+        if(option.length > 0 && !select.prop("disabled")) {
+            select.val(<string> option.first().val());
+        }
+        PartInfoDialog.setValue(orderdetails.find("input[name=supplierpartnr_new]"), offer.supplierpartnr);
+    }
+
+    /**
+     * Sets the value of an input, if the user is allowed to edit it.
+     */
+    private static setValue(input : JQuery, value : string)
+    {
+        if(input.length > 0 && !input.prop("disabled")) {
+            input.val(value);
+        }
+    }
+
+    /**
+     * Selects the option of a structural element select, which has the given name. If no such element exists,
+     * the name is put into the "Search / Add" field next to the select, so the user can create it.
+     * @param {string} select_name The name of the select (e.g. "manufacturer_id")
+     * @param {string} search_name The name of the "Search / Add" input.
+     * @param {string} value The name of the element.
+     */
+    private static selectByName(select_name : string, search_name : string, value : string)
+    {
+        let select = $("select[name=" + select_name + "]");
+        if(select.length == 0 || select.prop("disabled")) {
+            return;
+        }
+
+        let option = select.find("option").filter(function () {
+            return PartInfoDialog.equalsName($(this).text(), value);
+        });
+
+        if(option.length > 0) {
+            select.val(<string> option.first().val());
+            select.selectpicker("refresh");
+        } else {
+            PartInfoDialog.setValue($("input[name=" + search_name + "]"), value);
+        }
+    }
+
+    /**
+     * Compares two names case insensitive, ignoring whitespace (the options of the selects are indented).
+     */
+    private static equalsName(a : string, b : string) : boolean
+    {
+        return $.trim(a).toLowerCase() === $.trim(b).toLowerCase();
+    }
+}
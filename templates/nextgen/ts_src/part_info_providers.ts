@@ -0,0 +1,499 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      Part-Info Models
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * A price of an offer.
+ */
+interface PartInfoPrice {
+    /** The minimum order quantity, from which on this price is valid. */
+    quantity : number;
+    /** The price for a single piece. */
+    price : number;
+    currency : string;
+}
+
+/**
+ * A supplier, which sells the part.
+ */
+interface PartInfoOffer {
+    /** The name of the supplier (e.g. "Digi-Key") */
+    supplier : string;
+    /** The order number of the part at this supplier. */
+    supplierpartnr : string;
+    prices : PartInfoPrice[];
+}
+
+/**
+ * An entry in the result list of a search.
+ */
+interface PartInfoSearchResult {
+    /** The name of the provider, which found this result. */
+    provider : string;
+    /** The ID of the part at the provider, which is used to fetch the details. */
+    id : string;
+    name : string;
+    description : string;
+    manufacturer : string;
+}
+
+/**
+ * The details of a part, already mapped to the fields of Part-DB.
+ * Fields, which are not known by the provider, are empty strings (or empty arrays).
+ */
+interface PartInfo {
+    name : string;
+    description : string;
+    manufacturer : string;
+    footprint : string;
+    datasheet_url : string;
+    offers : PartInfoOffer[];
+}
+
+/**
+ * The settings of a provider, like they are configured in $config['part_info_providers'].
+ */
+interface PartInfoProviderConfig {
+    /**
+     * The base URL of the API of the provider. Can be changed to a local mock server for testing.
+     * MockPartInfoProvider needs no URL and no API key, it has fixed example data.
+     */
+    url? : string;
+    apikey? : string;
+    /** The currency, in which the prices should be returned. */
+    currency : string;
+}
+
+/**
+ * A source of part information (e.g. a distributor or a search engine for parts).
+ */
+interface PartInfoProvider {
+    /** The unique name of the provider, the key in $config['part_info_providers'] */
+    readonly name : string;
+    /** The name, which is shown to the user. */
+    readonly label : string;
+
+    /**
+     * Search for parts matching the given keyword.
+     * @param {string} keyword The keyword (normally the name of the part).
+     */
+    search(keyword : string) : JQuery.Promise<PartInfoSearchResult[]>;
+
+    /**
+     * Fetch the details of a search result.
+     * @param {PartInfoSearchResult} result A result returned by search().
+     */
+    getDetails(result : PartInfoSearchResult) : JQuery.Promise<PartInfo>;
+}
+
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      AbstractPartInfoProvider Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * A provider, which gets its data from a JSON API.
+ * Subclasses only need to define the routes and map the responses to the Part-DB fields.
+ */
+abstract class AbstractPartInfoProvider implements PartInfoProvider {
+
+    public abstract readonly name : string;
+    public abstract readonly label : string;
+
+    /** How long (in ms) to wait for an answer of the API. JSONP requests do not fail otherwise. */
+    public static readonly TIMEOUT : number = 15000;
+
+    protected config : PartInfoProviderConfig;
+
+    /**
+     * The dataType of the requests ("json" or "jsonp"). APIs, which do not send CORS headers, can only be
+     * requested from the browser via JSONP.
+     */
+    protected readonly data_type : string = "json";
+
+    public constructor(config : PartInfoProviderConfig)
+    {
+        this.config = config;
+    }
+
+    public search(keyword : string) : JQuery.Promise<PartInfoSearchResult[]>
+    {
+        let _this = this;
+        let deferred = $.Deferred();
+
+        this.request(this.getSearchRoute(keyword), this.getSearchParams(keyword))
+            .done(function (response) {
+                deferred.resolve(_this.mapSearchResults(response));
+            })
+            .fail(function (xhr : JQuery.jqXHR) {
+                deferred.reject(_this.getErrorMessage(xhr));
+            });
+
+        return deferred.promise();
+    }
+
+    public getDetails(result : PartInfoSearchResult) : JQuery.Promise<PartInfo>
+    {
+        let _this = this;
+        let deferred = $.Deferred();
+
+        this.request(this.getDetailsRoute(result), this.getDetailsParams(result))
+            .done(function (response) {
+                deferred.resolve(_this.mapPartInfo(response));
+            })
+            .fail(function (xhr : JQuery.jqXHR) {
+                deferred.reject(_this.getErrorMessage(xhr));
+            });
+
+        return deferred.promise();
+    }
+
+    /****************************************************************************
+     * Methods to implement by the providers
+     ***************************************************************************/
+
+    /**
+     * Returns the route (relative to the configured URL) for a search.
+     */
+    protected abstract getSearchRoute(keyword : string) : string;
+
+    /**
+     * Returns the query parameters for a search.
+     */
+    protected abstract getSearchParams(keyword : string) : object;
+
+    /**
+     * Returns the route (relative to the configured URL) for the details of a part.
+     */
+    protected abstract getDetailsRoute(result : PartInfoSearchResult) : string;
+
+    /**
+     * Returns the query parameters for the details of a part.
+     */
+    protected abstract getDetailsParams(result : PartInfoSearchResult) : object;
+
+    /**
+     * Converts the response of a search to a list of results.
+     * @param response The decoded JSON response of the API.
+     */
+    protected abstract mapSearchResults(response : any) : PartInfoSearchResult[];
+
+    /**
+     * Converts the response of a details request to the Part-DB fields.
+     * @param response The decoded JSON response of the API.
+     */
+    protected abstract mapPartInfo(response : any) : PartInfo;
+
+    /****************************************************************************
+     * Helpers
+     ***************************************************************************/
+
+    /**
+     * Sends a GET request to the API of the provider.
+     * @param {string} route The route relative to the configured URL.
+     * @param {object} params The query parameters.
+     */
+    protected request(route : string, params : object) : JQuery.jqXHR
+    {
+        return $.ajax({
+            url: this.config.url + route,
+            data: params,
+            dataType: this.data_type,
+            timeout: AbstractPartInfoProvider.TIMEOUT,
+            //This is no page load, so AjaxUI and AjaxErrorHandler must not handle it.
+            global: false
+        });
+    }
+
+    /**
+     * Returns a message for a failed request.
+     * @param {JQuery.jqXHR} xhr The failed request.
+     */
+    protected getErrorMessage(xhr : JQuery.jqXHR) : string
+    {
+        if (xhr.responseJSON && typeof xhr.responseJSON.message === "string") {
+            return xhr.responseJSON.message;
+        }
+        if (xhr.status == 0 || xhr.statusText == "timeout") {
+            return this.label + " is not reachable.";
+        }
+        return xhr.status + " " + xhr.statusText;
+    }
+}
+
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      OctopartProvider Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * Gets part information from the Octopart REST API (version 3).
+ */
+class OctopartProvider extends AbstractPartInfoProvider {
+
+    public readonly name : string = "octopart";
+    public readonly label : string = "Octopart";
+
+    /** Octopart does not allow cross-origin requests, but supports JSONP via the "callback" parameter. */
+    protected readonly data_type : string = "jsonp";
+
+    /** The additional fields, which should be returned by Octopart. */
+    private static readonly INCLUDES : string[] = ["short_description", "datasheets", "specs"];
+    /** How many results are shown at most. */
+    private static readonly SEARCH_LIMIT : number = 10;
+
+    protected getSearchRoute(keyword : string) : string
+    {
+        return "parts/search";
+    }
+
+    protected getSearchParams(keyword : string) : object
+    {
+        return {
+            apikey: this.config.apikey,
+            q: keyword,
+            limit: OctopartProvider.SEARCH_LIMIT,
+            include: OctopartProvider.INCLUDES
+        };
+    }
+
+    protected getDetailsRoute(result : PartInfoSearchResult) : string
+    {
+        return "parts/" + encodeURIComponent(result.id);
+    }
+
+    protected getDetailsParams(result : PartInfoSearchResult) : object
+    {
+        return {
+            apikey: this.config.apikey,
+            include: OctopartProvider.INCLUDES
+        };
+    }
+
+    protected mapSearchResults(response : any) : PartInfoSearchResult[]
+    {
+        let _this = this;
+        let results : any[] = response.results || [];
+        return results.map(function (result : any) : PartInfoSearchResult {
+            let part : any = result.item;
+            return {
+                provider: _this.name,
+                id: part.uid,
+                name: part.mpn || "",
+                description: part.short_description || result.snippet || "",
+                manufacturer: part.manufacturer ? part.manufacturer.name : ""
+            };
+        });
+    }
+
+    protected mapPartInfo(part : any) : PartInfo
+    {
+        let _this = this;
+        let specs : any = part.specs || {};
+        let datasheets : any[] = part.datasheets || [];
+        let offers : any[] = part.offers || [];
+
+        return {
+            name: part.mpn || "",
+            description: part.short_description || "",
+            manufacturer: part.manufacturer ? part.manufacturer.name : "",
+            footprint: specs.case_package ? specs.case_package.display_value : "",
+            datasheet_url: datasheets.length > 0 ? datasheets[0].url : "",
+            offers: offers.map(function (offer : any) : PartInfoOffer {
+                return {
+                    supplier: offer.seller ? offer.seller.name : "",
+                    supplierpartnr: offer.sku || "",
+                    prices: _this.mapPrices(offer.prices || {})
+                };
+            })
+        };
+    }
+
+    /**
+     * Octopart returns the prices as {"EUR": [[quantity, "price"], ...]}. Only the configured currency is used.
+     */
+    protected mapPrices(prices : any) : PartInfoPrice[]
+    {
+        let currency : string = this.config.currency;
+        let tiers : any[] = prices[currency] || [];
+        return tiers.map(function (tier : any[]) : PartInfoPrice {
+            return {quantity: Number(tier[0]), price: parseFloat(tier[1]), currency: currency};
+        });
+    }
+}
+
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      MockPartInfoProvider Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * A provider with fixed example data, which allows to test the search dialog without an API key or network access.
+ * The search for "error" fails, so the error handling of the dialog can be tested, too.
+ */
+class MockPartInfoProvider implements PartInfoProvider {
+
+    public readonly name : string = "mock";
+    public readonly label : string = "Mock";
+
+    /** The delay (in ms) of the answers, so the loading indicators are visible. */
+    public static readonly DELAY : number = 500;
+
+    private config : PartInfoProviderConfig;
+
+    public constructor(config : PartInfoProviderConfig)
+    {
+        this.config = config;
+    }
+
+    public search(keyword : string) : JQuery.Promise<PartInfoSearchResult[]>
+    {
+        let _this = this;
+        if($.trim(keyword).toLowerCase() === "error") {
+            return MockPartInfoProvider.answer(false, "Example error for the keyword \"" + keyword + "\".");
+        }
+
+        return MockPartInfoProvider.answer(true, ["A", "B"].map(function (variant : string) : PartInfoSearchResult {
+            return {
+                provider: _this.name,
+                id: keyword + "-" + variant,
+                name: keyword + "-" + variant,
+                description: "Example part " + variant + " for " + keyword,
+                manufacturer: "Example Inc."
+            };
+        }));
+    }
+
+    public getDetails(result : PartInfoSearchResult) : JQuery.Promise<PartInfo>
+    {
+        let currency : string = this.config.currency;
+        return MockPartInfoProvider.answer(true, {
+            name: result.name,
+            description: result.description,
+            manufacturer: result.manufacturer,
+            footprint: "SOT-23",
+            datasheet_url: "https://example.com/datasheets/" + encodeURIComponent(result.id) + ".pdf",
+            offers: [{
+                supplier: "Example Distributor",
+                supplierpartnr: "EX-" + result.id,
+                prices: [
+                    {quantity: 1, price: 0.5, currency: currency},
+                    {quantity: 100, price: 0.25, currency: currency}
+                ]
+            }]
+        });
+    }
+
+    /**
+     * Returns a promise, which is resolved (or rejected) with the given value after DELAY.
+     */
+    private static answer(success : boolean, value : any) : JQuery.Promise<any>
+    {
+        let deferred = $.Deferred();
+        setTimeout(function () {
+            if(success) {
+                deferred.resolve(value);
+            } else {
+                deferred.reject(value);
+            }
+        }, MockPartInfoProvider.DELAY);
+        return deferred.promise();
+    }
+}
+
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      PartInfoProviderRegistry Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * Creates the providers, which are enabled in the config (passed via the #part_info_providers input).
+ * To add a new provider, implement PartInfoProvider and add the class to PROVIDER_CLASSES.
+ */
+class PartInfoProviderRegistry {
+
+    private static singleton : PartInfoProviderRegistry;
+
+    /** The provider classes, by the key in $config['part_info_providers'] */
+    public static readonly PROVIDER_CLASSES : {[name : string] : new (config : PartInfoProviderConfig) => PartInfoProvider} = {
+        octopart: OctopartProvider,
+        mock: MockPartInfoProvider
+    };
+
+    private providers : PartInfoProvider[] = [];
+    private config_loaded : boolean = false;
+
+    /**
+     * Gets a instance of PartInfoProviderRegistry. If no instance exits, then a new one is created.
+     * @returns {PartInfoProviderRegistry} A instance of PartInfoProviderRegistry.
+     */
+    public static getInstance() : PartInfoProviderRegistry
+    {
+        if(PartInfoProviderRegistry.singleton == null || PartInfoProviderRegistry.singleton == undefined)
+        {
+            PartInfoProviderRegistry.singleton = new PartInfoProviderRegistry();
+        }
+        return PartInfoProviderRegistry.singleton;
+    }
+
+    /**
+     * Returns all enabled providers. The config is read, when this function is called the first time.
+     * @returns {PartInfoProvider[]} The providers in the order of the config.
+     */
+    public getProviders() : PartInfoProvider[]
+    {
+        if(!this.config_loaded) {
+            this.config_loaded = true;
+            this.loadFromConfig();
+        }
+        return this.providers;
+    }
+
+    /**
+     * Returns the provider with the given name.
+     * @param {string} name The name of the provider.
+     * @returns {PartInfoProvider} The provider, or null if it is not enabled.
+     */
+    public getProvider(name : string) : PartInfoProvider
+    {
+        for(let provider of this.getProviders()) {
+            if(provider.name === name) {
+                return provider;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Adds a provider, which is not created from the config.
+     * @param {PartInfoProvider} provider The provider.
+     */
+    public register(provider : PartInfoProvider)
+    {
+        this.providers.push(provider);
+    }
+
+    private loadFromConfig()
+    {
+        let json : string = <string> $("#part_info_providers").val();
+        if(typeof json === "undefined" || json === "") {
+            return;
+        }
+
+        let configs : {[name : string] : PartInfoProviderConfig} = JSON.parse(json);
+        for(let name in configs) {
+            let provider_class = PartInfoProviderRegistry.PROVIDER_CLASSES[name];
+            //E.g. a provider of a newer version, which is still in the config.php
+            if(typeof provider_class === "undefined") {
+                continue;
+            }
+            this.register(new provider_class(configs[name]));
+        }
+    }
+}
@@ -0,0 +1,402 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      Router Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * A page of Part-DB, which can be loaded via ajax into the #content div.
+ */
+interface Route {
+    /** A unique name of the route, which can be used in Router.navigateTo() */
+    name : string;
+    /** The path of the page, relative to the base path of Part-DB. */
+    page : string;
+}
+
+/**
+ * The value of an input field, which is saved in the history, to restore forms on back/forward.
+ */
+interface RouterFormField {
+    name : string;
+    value : string | number | string[];
+    checked : boolean;
+}
+
+/**
+ * The state object, which is pushed to window.history for every page loaded via the router.
+ */
+interface RouterHistoryState {
+    url : string;
+    scroll : number;
+    form : RouterFormField[] | null;
+}
+
+/**
+ * The router decides whether a URL can be loaded via ajax into the #content div, or if it must be opened
+ * in a new tab (external links), and manages the browser history for the ajax navigation.
+ */
+class Router {
+
+    private static singleton : Router;
+
+    /**
+     * All pages that can be loaded via ajax. Every other URL is treated as external link.
+     */
+    public static readonly ROUTES : Route[] = [
+        {name: "index", page: "index.php"},
+        {name: "startup", page: "startup.php"},
+        {name: "login", page: "login.php"},
+        {name: "statistics", page: "statistics.php"},
+        {name: "user_info", page: "user_info.php"},
+        {name: "user_settings", page: "user_settings.php"},
+
+        {name: "all_parts", page: "show_all_parts.php"},
+        {name: "category_parts", page: "show_category_parts.php"},
+        {name: "device_parts", page: "show_device_parts.php"},
+        {name: "favorite_parts", page: "show_favorite_parts.php"},
+        {name: "footprint_parts", page: "show_footprint_parts.php"},
+        {name: "last_modified_parts", page: "show_last_modified_parts.php"},
+        {name: "location_parts", page: "show_location_parts.php"},
+        {name: "manufacturer_parts", page: "show_manufacturer_parts.php"},
+        {name: "noprice_parts", page: "show_noprice_parts.php"},
+        {name: "obsolete_parts", page: "show_obsolete_parts.php"},
+        {name: "order_parts", page: "show_order_parts.php"},
+        {name: "part_info", page: "show_part_info.php"},
+        {name: "part_label", page: "show_part_label.php"},
+        {name: "search_parts", page: "show_search_parts.php"},
+        {name: "supplier_parts", page: "show_supplier_parts.php"},
+        {name: "unknown_instock_parts", page: "show_unknown_instock_parts.php"},
+
+        {name: "edit_attachement_types", page: "edit_attachement_types.php"},
+        {name: "edit_categories", page: "edit_categories.php"},
+        {name: "edit_devices", page: "edit_devices.php"},
+        {name: "edit_footprints", page: "edit_footprints.php"},
+        {name: "edit_groups", page: "edit_groups.php"},
+        {name: "edit_manufacturers", page: "edit_manufacturers.php"},
+        {name: "edit_part_info", page: "edit_part_info.php"},
+        {name: "edit_storelocations", page: "edit_storelocations.php"},
+        {name: "edit_suppliers", page: "edit_suppliers.php"},
+        {name: "edit_users", page: "edit_users.php"},
+
+        {name: "tools_3d_footprints", page: "tools_3d_footprints.php"},
+        {name: "tools_calculator", page: "tools_calculator.php"},
+        {name: "tools_footprints", page: "tools_footprints.php"},
+        {name: "tools_iclogos", page: "tools_iclogos.php"},
+        {name: "tools_import", page: "tools_import.php"},
+        {name: "tools_labels", page: "tools_labels.php"},
+
+        {name: "system_config", page: "system_config.php"},
+        {name: "system_database", page: "system_database.php"},
+        {name: "system_debug", page: "system_debug.php"},
+        {name: "developer_tools", page: "development/developer_tools.php"},
+    ];
+
+    /** The state which should be restored, when the page requested by onPopState() is loaded. */
+    private pending_restore : RouterHistoryState = null;
+
+    /**
+     * Creates a new Router object.
+     */
+    private constructor()
+    {
+        //Use the router to go back in history
+        window.onpopstate = this.onPopState.bind(this);
+    }
+
+    /**
+     * Gets a instance of Router. If no instance exits, then a new one is created.
+     * @returns {Router} A instance of Router.
+     */
+    public static getInstance() : Router
+    {
+        if(Router.singleton == null || Router.singleton == undefined)
+        {
+            Router.singleton = new Router();
+        }
+        return Router.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Navigate to the given URL. Pages of Part-DB are loaded via ajax into the #content div, external links are
+     * opened in a new tab.
+     * @param {string} url The URL which should be opened.
+     * @returns {boolean} True if the page is loaded via ajax, false if it was opened in a new tab (or not at all).
+     */
+    public navigate(url : string) : boolean
+    {
+        if(typeof url === "undefined" || url === null || url === "") {
+            return false;
+        }
+
+        //Links to an anchor on the current page, only need to scroll.
+        if(url.charAt(0) === "#") {
+            scrollToAnchor(url);
+            return false;
+        }
+
+        if(this.isExternal(url)) {
+            openInNewTab(url);
+            return false;
+        }
+
+        this.saveCurrentState();
+        this.pending_restore = null;
+        this.load(url);
+        return true;
+    }
+
+    /**
+     * Navigate to the route with the given name.
+     * @param {string} name The name of the route (see Router.ROUTES)
+     * @param {string} params The query string (without ?), which should be added to the URL (e.g. "cid=1")
+     * @returns {boolean} True if the page is loaded, false if no route with this name exists.
+     */
+    public navigateTo(name : string, params : string = "") : boolean
+    {
+        let route : Route = this.getRouteByName(name);
+        if(route == null) {
+            return false;
+        }
+        let url : string = BASE + route.page;
+        if(params !== "") {
+            url = addURLparam(url, params);
+        }
+        return this.navigate(url);
+    }
+
+    /**
+     * Reloads the current page, without creating a new history entry. The scroll position is kept.
+     */
+    public reload()
+    {
+        this.saveCurrentState();
+        this.pending_restore = <RouterHistoryState> window.history.state;
+        this.load(location.href);
+    }
+
+    /**
+     * Changes the URL of the current history entry without loading the page, e.g. to save the state of a table
+     * in the URL, so it can be bookmarked.
+     * @param {string} url The new URL of the current page.
+     */
+    public replaceURL(url : string)
+    {
+        let state = <RouterHistoryState> window.history.state;
+        if(state === null || typeof state !== "object") {
+            state = {url: url, scroll: 0, form: null};
+        }
+        state.url = url;
+        window.history.replaceState(state, document.title, url);
+    }
+
+    /**
+     * Checks if the given URL is an external link, which can not be loaded via ajax.
+     * @param {string} url The URL which should be checked.
+     * @returns {boolean} True if the URL is external.
+     */
+    public isExternal(url : string) : boolean
+    {
+        //Only http links can be loaded via ajax (e.g. mailto: or zxing: links are external)
+        let link : HTMLAnchorElement = Router.parseURL(url);
+        if(link.protocol !== "http:" && link.protocol !== "https:") {
+            return true;
+        }
+        if(link.host !== location.host) {
+            return true;
+        }
+        return this.matchRoute(url) == null;
+    }
+
+    /**
+     * Returns the route, which matches the given URL.
+     * @param {string} url The URL which should be checked.
+     * @returns {Route} The matching route or null, if the URL does not belong to a route.
+     */
+    public matchRoute(url : string) : Route
+    {
+        let path : string = Router.getPathRelativeToBase(url);
+        //The empty path is the index page
+        if(path === "") {
+            return this.getRouteByName("index");
+        }
+        for(let route of Router.ROUTES) {
+            if(route.page === path) {
+                return route;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Returns the route with the given name.
+     * @param {string} name The name of the route.
+     * @returns {Route} The route or null, if no route with this name exists.
+     */
+    public getRouteByName(name : string) : Route
+    {
+        for(let route of Router.ROUTES) {
+            if(route.name === name) {
+                return route;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Saves the scroll position and the values of the forms of the current page, in the current history entry.
+     * Must be called before a new page is loaded.
+     */
+    public saveCurrentState()
+    {
+        let state : RouterHistoryState = {
+            url: location.href,
+            scroll: $(window).scrollTop(),
+            form: this.serializeForms()
+        };
+        window.history.replaceState(state, document.title, location.href);
+    }
+
+    /**
+     * Called by AjaxUI, when a page was loaded into #content.
+     * A new history entry is created for the URL, or the saved state is restored, if the page was loaded via the
+     * back/forward buttons.
+     * @param {string} url The URL of the loaded page (without the ajax parameter)
+     */
+    public onPageLoaded(url : string)
+    {
+        if(this.pending_restore !== null) {
+            let state : RouterHistoryState = this.pending_restore;
+            this.pending_restore = null;
+            this.restoreForms(state.form);
+            $(window).scrollTop(state.scroll);
+            return;
+        }
+
+        let state : RouterHistoryState = {url: url, scroll: 0, form: null};
+        if(Router.parseURL(url).href === location.href) {
+            window.history.replaceState(state, "", url);
+        } else {
+            window.history.pushState(state, "", url);
+        }
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Loads the given page via ajax into the #content div and shows the progressbar.
+     * The history is updated in onPageLoaded(), when the request was successful.
+     * @param {string} url The URL which should be loaded.
+     */
+    private load(url : string)
+    {
+        let ajaxui : AjaxUI = AjaxUI.getInstance();
+        ajaxui.abortAllAjax();
+        ajaxui.beforeAjaxSubmit();
+        $('#content').hide(0).load(addURLparam(url, "ajax") + " #content-data");
+        $('#progressbar').show(0);
+    }
+
+    /**
+     * This function gets called every time, the "back" or "forward" button in the browser is pressed.
+     * We use it to load the content from history stack via ajax and restore the saved state of the page.
+     * @param {PopStateEvent} event
+     */
+    private onPopState(event : PopStateEvent)
+    {
+        let state = <RouterHistoryState> event.state;
+
+        //Go back only when the the target isnt the empty index.
+        let route : Route = this.matchRoute(location.href);
+        if (route == null || route.name === "index") {
+            return;
+        }
+
+        this.pending_restore = (state !== null && typeof state === "object") ? state : null;
+        this.load(location.href);
+    }
+
+    /**
+     * Collect the values of all visible inputs in the forms of #content.
+     * @returns {RouterFormField[]} The values of the form fields in document order.
+     */
+    private serializeForms() : RouterFormField[]
+    {
+        let fields : RouterFormField[] = [];
+        Router.getFormInputs().each(function () {
+            let input = $(this);
+            fields.push({
+                name: input.attr("name"),
+                value: input.val(),
+                checked: input.is(":checked")
+            });
+        });
+        return fields;
+    }
+
+    /**
+     * Restore the form values saved by serializeForms(). A value is only restored, if the name of the input at
+     * the same position matches, so changed pages do not get wrong values.
+     * @param {RouterFormField[]} fields The saved values.
+     */
+    private restoreForms(fields : RouterFormField[])
+    {
+        if(fields === null || typeof fields === "undefined") {
+            return;
+        }
+        Router.getFormInputs().each(function (index : number) {
+            if(index >= fields.length || fields[index].name !== $(this).attr("name")) {
+                return;
+            }
+            let input = $(this);
+            if(input.is(":checkbox, :radio")) {
+                input.prop("checked", fields[index].checked);
+            } else {
+                input.val(fields[index].value);
+            }
+        });
+    }
+
+    /**
+     * Returns all inputs, which should be saved in the history.
+     */
+    private static getFormInputs() : JQuery
+    {
+        return $("#content form").find("input, select, textarea")
+            .not("[type=hidden]").not("[type=submit]").not("[type=password]").not("[type=file]");
+    }
+
+    /**
+     * Parses the given URL, relative to the current location.
+     * @param {string} url The URL which should be parsed.
+     * @returns {HTMLAnchorElement} An anchor element, whose properties (host, pathname, etc.) describe the URL.
+     */
+    private static parseURL(url : string) : HTMLAnchorElement
+    {
+        let link : HTMLAnchorElement = document.createElement("a");
+        link.href = url;
+        return link;
+    }
+
+    /**
+     * Returns the path of the given URL relative to the base path of Part-DB (e.g. "show_part_info.php").
+     * @param {string} url The URL
+     * @returns {string} The relative path, without query and hash.
+     */
+    private static getPathRelativeToBase(url : string) : string
+    {
+        let base_path : string = Router.parseURL(BASE !== "" ? BASE : "./").pathname;
+        let path : string = Router.parseURL(url).pathname;
+        if(path.indexOf(base_path) === 0) {
+            path = path.substring(base_path.length);
+        }
+        //Remove leading slashes
+        return path.replace(/^\/+/, "");
+    }
+}
@@ -0,0 +1,272 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      SearchSuggestions Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * Shows the best matching parts in a dropdown under the search box of the navbar, while the user is typing.
+ * The parts can be selected with the arrow keys and are only opened with Enter or a click. Enter without a selected
+ * part submits the search like before.
+ */
+class SearchSuggestions {
+
+    private static singleton : SearchSuggestions;
+
+    /** The minimum length of the keyword, before parts are searched. */
+    public static readonly MIN_LENGTH : number = 2;
+    /** The time in ms after the last key, before the parts are searched. */
+    private static readonly DELAY : number = 200;
+    /** The maximum number of parts shown in the dropdown. */
+    private static readonly LIMIT : number = 8;
+
+    private timeout : number = null;
+    private request : JQuery.jqXHR = null;
+    /** The keyword, whose suggestions are shown at the moment. */
+    private keyword : string = null;
+
+    /**
+     * Gets a instance of SearchSuggestions. If no instance exits, then a new one is created.
+     * @returns {SearchSuggestions} A instance of SearchSuggestions.
+     */
+    public static getInstance() : SearchSuggestions
+    {
+        if(SearchSuggestions.singleton == null || SearchSuggestions.singleton == undefined)
+        {
+            SearchSuggestions.singleton = new SearchSuggestions();
+        }
+        return SearchSuggestions.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the handlers of the search box, if the live search is activated in the system config.
+     * Called by AjaxUI.start()
+     */
+    public start()
+    {
+        let _this = this;
+        let input = $("#search-keyword[data-suggestions]");
+        if(input.length === 0) {
+            return;
+        }
+
+        input.on("input", function () {
+            _this.update();
+        });
+        input.on("keydown", function (event) {
+            _this.onKeyDown(event);
+        });
+        input.on("focus", function () {
+            if(_this.keyword !== null && _this.keyword === _this.getKeyword()) {
+                _this.show(true);
+            }
+        });
+        //Use mousedown, so the dropdown is not closed by the blur of the input before
+        $("#search-suggestions").on("mousedown", "a", function (event) {
+            event.preventDefault();
+        }).on("click", ".search-suggestion a", function (event) {
+            event.preventDefault();
+            _this.open($(this).closest(".search-suggestion"));
+        }).on("click", ".search-suggestions-all", function (event) {
+            event.preventDefault();
+            _this.show(false);
+            submitForm(input.closest("form"));
+        });
+        input.on("blur", function () {
+            _this.show(false);
+        });
+        //The search was submitted
+        input.closest("form").on("submit", function () {
+            _this.abort();
+            _this.show(false);
+        });
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    private getKeyword() : string
+    {
+        return (<string> $("#search-keyword").val()).trim();
+    }
+
+    /**
+     * Searches the parts for the keyword, after the user has stopped typing.
+     */
+    private update()
+    {
+        let _this = this;
+        this.abort();
+
+        let keyword : string = this.getKeyword();
+        if(keyword.length < SearchSuggestions.MIN_LENGTH) {
+            this.keyword = null;
+            this.show(false);
+            return;
+        }
+
+        this.timeout = window.setTimeout(function () {
+            _this.timeout = null;
+            _this.search(keyword);
+        }, SearchSuggestions.DELAY);
+    }
+
+    private search(keyword : string)
+    {
+        let _this = this;
+        let api = PartDbApiClient.getInstance();
+        let options : ApiSearchOptions = {limit: SearchSuggestions.LIMIT, pictures: true};
+
+        this.request = this.isRegex(keyword) ? api.searchPartsByRegex(keyword, options)
+            : api.searchPartsByKeyword(keyword, options);
+        this.request.done(function (parts : ApiPart[]) {
+            _this.keyword = keyword;
+            _this.showParts(parts);
+        }).fail(function (xhr : JQuery.jqXHR) {
+            //Aborted, because the user typed further
+            if(xhr.statusText === "abort") {
+                return;
+            }
+            _this.keyword = keyword;
+            _this.showParts([]);
+            $("#search-suggestions .search-suggestions-empty").prop("hidden", true);
+            $("#search-suggestions .search-suggestions-error").prop("hidden", false)
+                .text(PartDbApiClient.getErrorMessage(xhr));
+        }).always(function () {
+            _this.request = null;
+        });
+    }
+
+    /**
+     * Stops the search, which is waiting or running.
+     */
+    private abort()
+    {
+        if(this.timeout !== null) {
+            window.clearTimeout(this.timeout);
+            this.timeout = null;
+        }
+        if(this.request !== null) {
+            this.request.abort();
+            this.request = null;
+        }
+    }
+
+    /**
+     * Checks if the keyword should be searched as regular expression: The "RegEx Matching" option is checked or the
+     * keyword contains special characters of regular expressions (and is a valid regular expression).
+     */
+    private isRegex(keyword : string) : boolean
+    {
+        let form = $("#search-keyword").closest("form");
+        if(form.find("input[name=regex]").is(":checked")) {
+            return true;
+        }
+        if(!/[\^$*+?()[\]{}|\\]/.test(keyword)) {
+            return false;
+        }
+        try {
+            new RegExp(keyword);
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Shows the found parts in the dropdown.
+     */
+    private showParts(parts : ApiPart[])
+    {
+        let menu = $("#search-suggestions");
+        let prototype = $(".search-suggestions-prototypes .search-suggestion");
+        menu.find(".search-suggestion").remove();
+        menu.find(".search-suggestions-error").prop("hidden", true);
+        menu.find(".search-suggestions-empty").prop("hidden", parts.length > 0);
+
+        let items : JQuery[] = parts.map(function (part : ApiPart) {
+            let item = prototype.clone();
+            //-1 means, that the user is not allowed to see the instock, -2 that the instock is unknown
+            let instock : number = Number(part.instock);
+            item.data("id", part.id);
+            item.find(".search-suggestion-name").text(part.name);
+            item.find(".search-suggestion-description").text(part.description_raw);
+            item.find(".search-suggestion-instock").text(instock >= 0 ? String(instock) : "?");
+            item.find(".search-suggestion-location").text(part.storelocation !== null ? part.storelocation.fullpath : "");
+            item.find(".search-suggestion-location-container").prop("hidden", part.storelocation === null);
+            let picture = item.find(".search-suggestion-picture");
+            if(part.picture) {
+                picture.attr("src", part.picture);
+            } else {
+                picture.css("visibility", "hidden");
+            }
+            return item;
+        });
+        menu.prepend(items);
+        this.show($("#search-keyword").is(":focus"));
+    }
+
+    private show(visible : boolean)
+    {
+        $("#search-suggestions").closest("form").toggleClass("open", visible);
+        if(!visible) {
+            $("#search-suggestions .search-suggestion").removeClass("active");
+        }
+    }
+
+    /**
+     * Moves the selection with the arrow keys. Enter opens the selected part, Escape closes the dropdown.
+     */
+    private onKeyDown(event : JQuery.Event)
+    {
+        let menu = $("#search-suggestions");
+        let items = menu.find(".search-suggestion");
+        let active = items.filter(".active");
+        let visible : boolean = menu.closest("form").hasClass("open");
+
+        switch (event.key) {
+            case "ArrowDown":
+            case "ArrowUp":
+                if(!visible || items.length === 0) {
+                    return;
+                }
+                event.preventDefault();
+                let index : number = items.index(active) + (event.key === "ArrowDown" ? 1 : -1);
+                //Wrap around, -1 means no selection (the input)
+                if(index >= items.length) {
+                    index = -1;
+                } else if(index < -1) {
+                    index = items.length - 1;
+                }
+                items.removeClass("active");
+                if(index >= 0) {
+                    items.eq(index).addClass("active");
+                }
+                break;
+            case "Enter":
+                if(visible && active.length > 0) {
+                    event.preventDefault();
+                    this.open(active);
+                }
+                break;
+            case "Escape":
+                this.show(false);
+                break;
+        }
+    }
+
+    /**
+     * Opens the info page of the part.
+     */
+    private open(item : JQuery)
+    {
+        this.abort();
+        this.show(false);
+        Router.getInstance().navigateTo("part_info", "pid=" + item.data("id"));
+    }
+}
@@ -0,0 +1,429 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      KeyboardShortcuts Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * An action, which can be triggered by a keyboard shortcut.
+ */
+interface ShortcutAction {
+    /** A unique ID of the action. It is used as key in the keymap and to find the label in the template. */
+    id : string;
+    /**
+     * The default key sequence. Multiple strokes are separated by spaces, modifiers are joined with "+"
+     * (e.g. "g c", "ctrl+k" or "?").
+     */
+    keys : string;
+    handler : () => void;
+}
+
+/**
+ * The keymap of a user: The key sequence for every action, which differs from the default.
+ * An empty string disables the shortcut.
+ */
+interface ShortcutKeymap {
+    [id : string] : string;
+}
+
+/**
+ * Dispatches the keyboard shortcuts of the registered actions. Key sequences (like "g c") are supported.
+ * The user can override the keys of every action in the help overlay, the keymap is saved in the user settings.
+ * When an input field is focused, only shortcuts with ctrl or alt are triggered.
+ */
+class KeyboardShortcuts {
+
+    private static singleton : KeyboardShortcuts;
+
+    /** The key of the keymap in the user settings. */
+    public static readonly SETTINGS_KEY : string = "keymap";
+    /** How long (in ms) we wait for the next stroke of a key sequence. */
+    public static readonly SEQUENCE_TIMEOUT : number = 1000;
+
+    private actions : ShortcutAction[] = [];
+    private keymap : ShortcutKeymap = {};
+
+    /** The strokes of the sequence, which was typed so far. */
+    private buffer : string[] = [];
+    private buffer_timeout : number = null;
+
+    private started : boolean = false;
+
+    /**
+     * Gets a instance of KeyboardShortcuts. If no instance exits, then a new one is created.
+     * @returns {KeyboardShortcuts} A instance of KeyboardShortcuts.
+     */
+    public static getInstance() : KeyboardShortcuts
+    {
+        if(KeyboardShortcuts.singleton == null || KeyboardShortcuts.singleton == undefined)
+        {
+            KeyboardShortcuts.singleton = new KeyboardShortcuts();
+        }
+        return KeyboardShortcuts.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Starts listening for key strokes and loads the keymap of the user. Called by AjaxUI.start()
+     */
+    public start()
+    {
+        if(this.started) {
+            return;
+        }
+        this.started = true;
+
+        let _this = this;
+        document.addEventListener("keydown", this.onKeyDown.bind(this));
+
+        $("#shortcut-help-save").click(function () {
+            _this.saveKeymap();
+        });
+        $("#shortcut-help-reset").click(function () {
+            _this.resetKeymap();
+        });
+
+        UserSettings.getInstance().load().done(function () {
+            _this.keymap = UserSettings.getInstance().get(KeyboardShortcuts.SETTINGS_KEY, {});
+        });
+    }
+
+    /**
+     * Registers an action. If an action with the same ID exists already, it is replaced.
+     * @param {ShortcutAction} action The action which should be registered.
+     */
+    public register(action : ShortcutAction)
+    {
+        this.unregister(action.id);
+        this.actions.push(action);
+    }
+
+    /**
+     * Removes the action with the given ID.
+     */
+    public unregister(id : string)
+    {
+        this.actions = this.actions.filter(function (action : ShortcutAction) {
+            return action.id !== id;
+        });
+    }
+
+    /**
+     * Returns all registered actions.
+     */
+    public getActions() : ShortcutAction[]
+    {
+        return this.actions;
+    }
+
+    /**
+     * Returns the key sequence, which triggers the action (the one from the keymap of the user, or the default).
+     * @param {ShortcutAction} action The action.
+     * @returns {string} The normalized key sequence. Empty if the shortcut is disabled.
+     */
+    public getKeys(action : ShortcutAction) : string
+    {
+        if(this.keymap.hasOwnProperty(action.id)) {
+            return KeyboardShortcuts.normalizeSequence(this.keymap[action.id]);
+        }
+        return KeyboardShortcuts.normalizeSequence(action.keys);
+    }
+
+    /**
+     * Returns the translated label of the action. The labels are defined in the #shortcut-labels list of the
+     * template. If no label exists, the ID is returned.
+     */
+    public getLabel(action : ShortcutAction) : string
+    {
+        let label = $("#shortcut-labels [data-shortcut='" + action.id + "']");
+        return label.length > 0 ? label.text() : action.id;
+    }
+
+    /**
+     * Executes the action with the given ID.
+     * @returns {boolean} False, if no action with this ID exists.
+     */
+    public execute(id : string) : boolean
+    {
+        for(let action of this.actions) {
+            if(action.id === id) {
+                action.handler();
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Opens the help overlay, which lists all shortcuts. The keys can be changed there.
+     */
+    public showHelp()
+    {
+        let _this = this;
+        let tbody = $("#shortcut-help-table tbody").empty();
+
+        for(let action of this.actions) {
+            let input = $("<input type='text' class='form-control input-sm'>")
+                .attr("data-shortcut", action.id)
+                .attr("placeholder", KeyboardShortcuts.normalizeSequence(action.keys))
+                .val(this.getKeys(action));
+            tbody.append($("<tr>")
+                .append($("<td>").text(_this.getLabel(action)))
+                .append($("<td>").append(input)));
+        }
+
+        $("#shortcut-help-error").prop("hidden", true);
+        $("#shortcut-help-modal").modal("show");
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    private onKeyDown(event : KeyboardEvent)
+    {
+        if(event.defaultPrevented) {
+            return;
+        }
+
+        let stroke : string = KeyboardShortcuts.eventToStroke(event);
+        if(stroke === null) {
+            return;
+        }
+
+        //Modals (like the command palette) handle their keys themselves.
+        if($(".modal.in").length > 0) {
+            this.clearBuffer();
+            return;
+        }
+
+        //Dont steal the keys, the user types into a field.
+        if(KeyboardShortcuts.isEditable(<HTMLElement> event.target)
+            && !/^(ctrl|alt)\+/.test(stroke)) {
+            this.clearBuffer();
+            return;
+        }
+
+        this.buffer.push(stroke);
+        if(this.dispatch(event)) {
+            return;
+        }
+
+        //The stroke does not continue the sequence, maybe it starts a new one.
+        if(this.buffer.length > 1) {
+            this.buffer = [stroke];
+            if(this.dispatch(event)) {
+                return;
+            }
+        }
+        this.clearBuffer();
+    }
+
+    /**
+     * Executes the action, whose keys match the buffer.
+     * @returns {boolean} True, if an action was executed or the buffer is the beginning of a sequence.
+     */
+    private dispatch(event : KeyboardEvent) : boolean
+    {
+        let _this = this;
+        let sequence : string = this.buffer.join(" ");
+        let is_prefix : boolean = false;
+
+        for(let action of this.actions) {
+            let keys : string = this.getKeys(action);
+            if(keys === "") {
+                continue;
+            }
+            if(keys === sequence) {
+                event.preventDefault();
+                this.clearBuffer();
+                action.handler();
+                return true;
+            }
+            if(keys.indexOf(sequence + " ") === 0) {
+                is_prefix = true;
+            }
+        }
+
+        if(is_prefix) {
+            event.preventDefault();
+            if(this.buffer_timeout !== null) {
+                window.clearTimeout(this.buffer_timeout);
+            }
+            this.buffer_timeout = window.setTimeout(function () {
+                _this.clearBuffer();
+            }, KeyboardShortcuts.SEQUENCE_TIMEOUT);
+        }
+        return is_prefix;
+    }
+
+    private clearBuffer()
+    {
+        this.buffer = [];
+        if(this.buffer_timeout !== null) {
+            window.clearTimeout(this.buffer_timeout);
+            this.buffer_timeout = null;
+        }
+    }
+
+    /**
+     * Saves the keys entered in the help overlay as keymap of the user. Only keys, which differ from the default
+     * are saved.
+     */
+    private saveKeymap()
+    {
+        let _this = this;
+        let keymap : ShortcutKeymap = {};
+
+        $("#shortcut-help-table input[data-shortcut]").each(function () {
+            let id : string = $(this).data("shortcut");
+            let keys : string = KeyboardShortcuts.normalizeSequence(<string> $(this).val());
+            if(keys !== $(this).attr("placeholder")) {
+                keymap[id] = keys;
+            }
+        });
+
+        UserSettings.getInstance().set(KeyboardShortcuts.SETTINGS_KEY, keymap)
+            .done(function () {
+                _this.keymap = keymap;
+                $("#shortcut-help-modal").modal("hide");
+            })
+            .fail(function (xhr : JQuery.jqXHR) {
+                $("#shortcut-help-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            });
+    }
+
+    /**
+     * Removes the keymap of the user, so the default keys are used again.
+     */
+    private resetKeymap()
+    {
+        let _this = this;
+        UserSettings.getInstance().set(KeyboardShortcuts.SETTINGS_KEY, null)
+            .done(function () {
+                _this.keymap = {};
+                _this.showHelp();
+            })
+            .fail(function (xhr : JQuery.jqXHR) {
+                $("#shortcut-help-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            });
+    }
+
+    /**
+     * Converts a keydown event to a stroke like "ctrl+k". Returns null for the modifier keys themselves.
+     * Shift is only added for letters and named keys, for other characters (like "?") it is part of the character.
+     * The command key on macOS is treated like ctrl.
+     */
+    private static eventToStroke(event : KeyboardEvent) : string
+    {
+        let key : string = event.key;
+        if(typeof key === "undefined" || ["Control", "Alt", "Shift", "Meta", "AltGraph"].indexOf(key) !== -1) {
+            return null;
+        }
+
+        let mods : string[] = [];
+        if(event.ctrlKey || event.metaKey) {
+            mods.push("ctrl");
+        }
+        if(event.altKey) {
+            mods.push("alt");
+        }
+        let is_character : boolean = key.length === 1 && key.toLowerCase() === key.toUpperCase() && key !== " ";
+        if(event.shiftKey && !is_character) {
+            mods.push("shift");
+        }
+
+        return KeyboardShortcuts.normalizeStroke(mods.concat([key]).join("+"));
+    }
+
+    /**
+     * Normalizes a key sequence like "G  C" to "g c" or "Shift+Ctrl+K" to "ctrl+shift+k", so it can be compared.
+     */
+    private static normalizeSequence(sequence : string) : string
+    {
+        sequence = $.trim(sequence);
+        if(sequence === "") {
+            return "";
+        }
+        return sequence.split(/\s+/).map(KeyboardShortcuts.normalizeStroke).join(" ");
+    }
+
+    private static normalizeStroke(stroke : string) : string
+    {
+        //The "+" key itself
+        if(stroke === "+" || stroke.slice(-2) === "++") {
+            return KeyboardShortcuts.normalizeStroke(stroke.slice(0, -1) + "plus");
+        }
+
+        let parts : string[] = stroke.toLowerCase().split("+");
+        let key : string = parts.pop();
+        if(key === " ") {
+            key = "space";
+        }
+
+        let mods : string[] = [];
+        for(let mod of ["ctrl", "alt", "shift"]) {
+            if(parts.indexOf(mod) !== -1 || (mod === "ctrl" && (parts.indexOf("cmd") !== -1 || parts.indexOf("meta") !== -1))) {
+                mods.push(mod);
+            }
+        }
+
+        return mods.concat([key]).join("+");
+    }
+
+    private static isEditable(element : HTMLElement) : boolean
+    {
+        if(element === null || typeof element === "undefined") {
+            return false;
+        }
+        return $(element).is("input, textarea, select") || element.isContentEditable;
+    }
+}
+
+/**
+ * Registers the default shortcuts of Part-DB.
+ */
+function registerDefaultShortcuts()
+{
+    let shortcuts : KeyboardShortcuts = KeyboardShortcuts.getInstance();
+    let router : Router = Router.getInstance();
+
+    shortcuts.register({id: "command_palette", keys: "ctrl+k", handler: function () {
+        CommandPalette.getInstance().open();
+    }});
+    shortcuts.register({id: "help", keys: "?", handler: function () {
+        shortcuts.showHelp();
+    }});
+    shortcuts.register({id: "focus_search", keys: "/", handler: function () {
+        //On small screens the search bar is collapsed
+        $("#searchbar").collapse("show");
+        $("#searchbar input[name=keyword]").focus().select();
+    }});
+    shortcuts.register({id: "new_part", keys: "n", handler: function () {
+        //Create the part in the category, which is currently shown.
+        let route : Route = router.matchRoute(location.href);
+        let cid : RegExpMatchArray = location.search.match(/[?&]cid=(\d+)/);
+        let in_category : boolean = route !== null && route.name === "category_parts" && cid !== null;
+        router.navigateTo("edit_part_info", "category_id=" + (in_category ? cid[1] : "0"));
+    }});
+
+    let goto : {[key : string] : string} = {
+        "g h": "startup",
+        "g a": "all_parts",
+        "g c": "edit_categories",
+        "g l": "edit_storelocations",
+        "g f": "edit_footprints",
+        "g m": "edit_manufacturers",
+        "g s": "edit_suppliers",
+        "g d": "edit_devices"
+    };
+    for(let keys in goto) {
+        let route : string = goto[keys];
+        shortcuts.register({id: "goto_" + route, keys: keys, handler: function () {
+            router.navigateTo(route);
+        }});
+    }
+}
@@ -0,0 +1,432 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      StatisticsDashboard Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/** Chart.js (js/Chart.min.js), there are no type definitions for it. */
+declare let Chart : any;
+
+/**
+ * The arrangement of the dashboard, which is saved for every user.
+ */
+interface StatisticsDashboardLayout {
+    /** The names of the widgets in the order they are shown. */
+    order : string[];
+    hidden : string[];
+    /** The widgets, which use the full width. */
+    wide : string[];
+    /** The chart type of the widgets (e.g. "pie"), if it is not the default type. */
+    types : {[widget : string] : string};
+    /** The number of days shown in the history widgets. */
+    days : {[widget : string] : number};
+}
+
+/**
+ * The dashboard on the statistics page. Every widget shows a chart, whose data is loaded via the API.
+ * The chart type can be switched (bar, pie or line), clicking on an element of the chart opens the parts of the
+ * element (e.g. the parts of a category). The widgets can be moved via drag and drop, hidden and widened, the
+ * arrangement is saved in the settings of the user.
+ */
+class StatisticsDashboard {
+
+    private static singleton : StatisticsDashboard;
+
+    private static readonly SETTINGS_KEY : string = "statistics_dashboard";
+
+    /** The colors of the datasets, like in StatisticsHelpers */
+    private static readonly COLORS : {[name : string] : string} = {
+        blue: "rgba(66, 139, 202, 0.4)",
+        red: "rgba(217,83,79, 0.4)",
+        light_blue: "rgba(91,192,222, 0.4)",
+        green: "rgba(92,184,92, 0.4)",
+        orange: "rgba(240, 173, 78, 0.4)"
+    };
+
+    /** The route and the parameter, which show the parts of an element of the given type. */
+    private static readonly DRILL_DOWN : {[type : string] : {route : string, param : string}} = {
+        categories: {route: "category_parts", param: "cid"},
+        locations: {route: "location_parts", param: "lid"},
+        footprints: {route: "footprint_parts", param: "fid"},
+        manufacturers: {route: "manufacturer_parts", param: "mid"},
+        instock: {route: "part_info", param: "pid"}
+    };
+
+    /** The charts of the widgets, which are shown at the moment. */
+    private charts : {[widget : string] : any} = {};
+    /** The widget, which is dragged at the moment. */
+    private dragged : JQuery = null;
+
+    /**
+     * Gets a instance of StatisticsDashboard. If no instance exits, then a new one is created.
+     * @returns {StatisticsDashboard} A instance of StatisticsDashboard.
+     */
+    public static getInstance() : StatisticsDashboard
+    {
+        if(StatisticsDashboard.singleton == null || StatisticsDashboard.singleton == undefined)
+        {
+            StatisticsDashboard.singleton = new StatisticsDashboard();
+        }
+        return StatisticsDashboard.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the handlers of the widgets. The events are delegated, so they work for the pages loaded via ajax.
+     * Called by AjaxUI.start()
+     */
+    public start()
+    {
+        let _this = this;
+
+        $(document).on("click", ".dashboard-widget .dashboard-chart-type", function (this : HTMLElement) {
+            let button = $(this);
+            let widget = button.closest(".dashboard-widget");
+            _this.changeLayout(function (layout : StatisticsDashboardLayout) {
+                layout.types[widget.data("widget")] = button.data("type");
+            });
+            _this.load(widget);
+        });
+        $(document).on("change", ".dashboard-widget .dashboard-history-days", function (this : HTMLElement) {
+            let select = $(this);
+            let widget = select.closest(".dashboard-widget");
+            _this.changeLayout(function (layout : StatisticsDashboardLayout) {
+                layout.days[widget.data("widget")] = Number(select.val());
+            });
+            _this.load(widget);
+        });
+        $(document).on("click", ".dashboard-widget .dashboard-widget-wide", function (this : HTMLElement) {
+            let name : string = $(this).closest(".dashboard-widget").data("widget");
+            _this.changeLayout(function (layout : StatisticsDashboardLayout) {
+                layout.wide = StatisticsDashboard.toggle(layout.wide, name);
+            });
+            _this.applyLayout();
+        });
+        $(document).on("click", ".dashboard-widget .dashboard-widget-hide", function (this : HTMLElement) {
+            let name : string = $(this).closest(".dashboard-widget").data("widget");
+            _this.changeLayout(function (layout : StatisticsDashboardLayout) {
+                layout.hidden = StatisticsDashboard.toggle(layout.hidden, name);
+            });
+            _this.applyLayout();
+        });
+        $(document).on("change", "#dashboard-show-widget", function (this : HTMLElement) {
+            let name : string = <string> $(this).val();
+            if(name !== "") {
+                _this.changeLayout(function (layout : StatisticsDashboardLayout) {
+                    layout.hidden = StatisticsDashboard.toggle(layout.hidden, name);
+                });
+                _this.applyLayout();
+            }
+        });
+        $(document).on("click", "#dashboard-reset", function () {
+            _this.saveLayout(null);
+            _this.applyLayout();
+        });
+
+        //Move the widgets via drag and drop
+        $(document).on("dragstart", ".dashboard-widget-heading", function (this : HTMLElement, event) {
+            _this.dragged = $(this).closest(".dashboard-widget");
+            //Firefox only starts dragging, if data is set
+            (<DragEvent> event.originalEvent).dataTransfer.setData("text/plain", _this.dragged.data("widget"));
+            _this.dragged.css("opacity", 0.5);
+        });
+        $(document).on("dragover", ".dashboard-widget", function (this : HTMLElement, event) {
+            if(_this.dragged !== null && !$(this).is(_this.dragged)) {
+                event.preventDefault();
+            }
+        });
+        $(document).on("drop", ".dashboard-widget", function (this : HTMLElement, event) {
+            let target = $(this);
+            if(_this.dragged === null || target.is(_this.dragged)) {
+                return;
+            }
+            event.preventDefault();
+            //Dropping a widget on a widget after it moves it behind the widget, otherwise before it
+            if(_this.dragged.index() < target.index()) {
+                target.after(_this.dragged);
+            } else {
+                target.before(_this.dragged);
+            }
+            _this.changeLayout(function (layout : StatisticsDashboardLayout) {
+                layout.order = $("#statistics-dashboard .dashboard-widget").map(function () {
+                    return $(this).data("widget");
+                }).get();
+            });
+        });
+        $(document).on("dragend", ".dashboard-widget-heading", function () {
+            if(_this.dragged !== null) {
+                _this.dragged.css("opacity", "");
+                _this.dragged = null;
+            }
+        });
+    }
+
+    /**
+     * Saves the snapshot of today, arranges the widgets like the user has saved it and draws the charts, if the
+     * dashboard is on the page. Called when a page is loaded.
+     */
+    public static init()
+    {
+        if($("#statistics-dashboard").length === 0) {
+            return;
+        }
+        let instance = StatisticsDashboard.getInstance();
+        instance.destroyCharts();
+        //A failed snapshot only means, that today is missing in the history, so it is not shown as error.
+        let snapshot = PartDbApiClient.getInstance().saveStatisticsSnapshot();
+        UserSettings.getInstance().load().always(function () {
+            snapshot.always(function () {
+                instance.applyLayout();
+            });
+        });
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Returns the arrangement of the dashboard, which the user has saved.
+     */
+    private getLayout() : StatisticsDashboardLayout
+    {
+        return $.extend({order: [], hidden: [], wide: [], types: {}, days: {}},
+            UserSettings.getInstance().get(StatisticsDashboard.SETTINGS_KEY, {}));
+    }
+
+    /**
+     * Changes the arrangement of the dashboard and saves it.
+     * @param {(layout : StatisticsDashboardLayout) => void} change A function, which changes the given layout.
+     */
+    private changeLayout(change : (layout : StatisticsDashboardLayout) => void)
+    {
+        let layout : StatisticsDashboardLayout = this.getLayout();
+        change(layout);
+        this.saveLayout(layout);
+    }
+
+    /**
+     * Saves the arrangement for the current user. Null resets the arrangement.
+     */
+    private saveLayout(layout : StatisticsDashboardLayout)
+    {
+        UserSettings.getInstance().set(StatisticsDashboard.SETTINGS_KEY, layout).fail(function (xhr : JQuery.jqXHR) {
+            //The anonymous user can not save the arrangement, but the dashboard can be arranged anyway.
+            if(xhr.status !== 401) {
+                $("#dashboard-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            }
+        });
+    }
+
+    /**
+     * Arranges the widgets like the saved layout and draws the charts of the visible widgets, which are not drawn yet.
+     */
+    private applyLayout()
+    {
+        let _this = this;
+        let layout : StatisticsDashboardLayout = this.getLayout();
+        let dashboard = $("#statistics-dashboard");
+        let show_select = $("#dashboard-show-widget");
+        show_select.find("option:not(:first)").remove();
+
+        //Widgets, which are not in the saved order (e.g. new ones), keep their position of the template
+        for(let name of layout.order.slice().reverse()) {
+            dashboard.prepend(dashboard.children(".dashboard-widget[data-widget=" + name + "]"));
+        }
+
+        dashboard.children(".dashboard-widget").each(function () {
+            let widget = $(this);
+            let name : string = widget.data("widget");
+            let hidden : boolean = layout.hidden.indexOf(name) !== -1;
+            let wide : boolean = layout.wide.indexOf(name) !== -1;
+            widget.prop("hidden", hidden).toggleClass("col-md-12", wide).toggleClass("col-md-6", !wide);
+            if(hidden) {
+                show_select.append($("<option>").val(name).text(widget.find(".dashboard-widget-title").text()));
+            }
+            if(layout.days.hasOwnProperty(name)) {
+                widget.find(".dashboard-history-days").val(layout.days[name]);
+            }
+
+            if(hidden) {
+                _this.destroyChart(name);
+            } else if(!_this.charts.hasOwnProperty(name)) {
+                _this.load(widget);
+            } else {
+                _this.charts[name].resize();
+            }
+        });
+        show_select.val("");
+    }
+
+    /**
+     * Loads the data of the widget and draws its chart.
+     */
+    private load(widget : JQuery)
+    {
+        let _this = this;
+        let name : string = widget.data("widget");
+        let layout : StatisticsDashboardLayout = this.getLayout();
+        let buttons = widget.find(".dashboard-chart-type");
+        if(buttons.length === 0) {
+            return;
+        }
+
+        //The first button is the default type
+        let type : string = layout.types[name] || buttons.first().data("type");
+        buttons.each(function () {
+            $(this).toggleClass("active", $(this).data("type") === type);
+        });
+
+        let api = PartDbApiClient.getInstance();
+        let request : JQuery.jqXHR;
+        if(widget.is("[data-history]")) {
+            request = api.getStatisticsHistory(Number(widget.find(".dashboard-history-days").val()))
+                .done(function (snapshots : ApiStatisticsSnapshot[]) {
+                    _this.drawHistory(widget, type, snapshots);
+                });
+        } else {
+            request = api.getMostUsedStatistics(widget.data("source"))
+                .done(function (entries : ApiStatisticsEntry[]) {
+                    _this.drawMostUsed(widget, type, entries);
+                });
+        }
+        request.fail(function (xhr : JQuery.jqXHR) {
+            $("#dashboard-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+        });
+    }
+
+    /**
+     * Draws the chart of the most used elements. Clicking on an element opens its parts.
+     */
+    private drawMostUsed(widget : JQuery, type : string, entries : ApiStatisticsEntry[])
+    {
+        let drill_down = StatisticsDashboard.DRILL_DOWN[widget.data("source")];
+        let data : object = {
+            labels: entries.map(function (entry) { return entry.name; }),
+            datasets: [{
+                label: widget.data("label"),
+                data: entries.map(function (entry) { return entry.count; }),
+                backgroundColor: type === "pie" ? StatisticsDashboard.getPieColors(entries.length)
+                    : StatisticsDashboard.COLORS[widget.data("color")]
+            }]
+        };
+        this.draw(widget, type, data, function (index : number) {
+            Router.getInstance().navigateTo(drill_down.route, drill_down.param + "=" + entries[index].id);
+        });
+    }
+
+    /**
+     * Draws the history of the part count or the stock value.
+     */
+    private drawHistory(widget : JQuery, type : string, snapshots : ApiStatisticsSnapshot[])
+    {
+        let field : keyof ApiStatisticsSnapshot = widget.data("history");
+        let data : object = {
+            labels: snapshots.map(function (snapshot) {
+                let date : string[] = snapshot.date.split("-");
+                return new Date(Number(date[0]), Number(date[1]) - 1, Number(date[2])).toLocaleDateString();
+            }),
+            datasets: [{
+                label: widget.data("label"),
+                data: snapshots.map(function (snapshot) { return snapshot[field]; }),
+                backgroundColor: StatisticsDashboard.COLORS[widget.data("color")]
+            }]
+        };
+        let format = function (value : number) : string {
+            let input = LocalizedNumberInput.getInstance();
+            return field === "value" ? input.formatPrice(value) : input.formatNumber(value);
+        };
+        this.draw(widget, type, data, null, format);
+    }
+
+    /**
+     * Draws the chart of a widget. An existing chart is replaced.
+     * @param {JQuery} widget The widget.
+     * @param {string} type The type of the chart ("bar", "pie" or "line")
+     * @param {object} data The data of the chart.
+     * @param {(index : number) => void} onClick Called with the index of the element, which was clicked.
+     * @param {(value : number) => string} format Formats the values of the axis and the tooltips.
+     */
+    private draw(widget : JQuery, type : string, data : object, onClick : (index : number) => void = null,
+                 format : (value : number) => string = null)
+    {
+        let _this = this;
+        let name : string = widget.data("widget");
+        //Chart.js is loaded asynchronously
+        if(typeof Chart === "undefined") {
+            $(window).one("load", function () {
+                _this.draw(widget, type, data, onClick, format);
+            });
+            return;
+        }
+
+        let options : any = {
+            onClick: function (event : MouseEvent, elements : any[]) {
+                if(onClick !== null && elements.length > 0) {
+                    onClick(elements[0]._index);
+                }
+            },
+            onHover: function (event : MouseEvent, elements : any[]) {
+                (<HTMLElement> event.target).style.cursor = onClick !== null && elements.length > 0 ? "pointer" : "";
+            }
+        };
+        if(type === "pie") {
+            options.legend = {position: "right"};
+        } else {
+            options.scales = {yAxes: [{ticks: {beginAtZero: true}}]};
+            if(format !== null) {
+                options.scales.yAxes[0].ticks.callback = format;
+                options.tooltips = {callbacks: {label: function (item : any) { return format(Number(item.yLabel)); }}};
+            }
+        }
+
+        this.destroyChart(name);
+        let canvas = <HTMLCanvasElement> widget.find("canvas.dashboard-chart").get(0);
+        this.charts[name] = new Chart(canvas.getContext("2d"), {type: type, data: data, options: options});
+    }
+
+    private destroyChart(name : string)
+    {
+        if(this.charts.hasOwnProperty(name)) {
+            this.charts[name].destroy();
+            delete this.charts[name];
+        }
+    }
+
+    /**
+     * Destroys all charts, e.g. when the page was reloaded.
+     */
+    private destroyCharts()
+    {
+        for(let name of Object.keys(this.charts)) {
+            this.destroyChart(name);
+        }
+    }
+
+    /**
+     * Returns different colors for the segments of a pie chart.
+     */
+    private static getPieColors(count : number) : string[]
+    {
+        let colors : string[] = [];
+        for(let i = 0; i < count; i++) {
+            colors.push("hsla(" + Math.round(i * 360 / Math.max(count, 1)) + ", 60%, 55%, 0.6)");
+        }
+        return colors;
+    }
+
+    /**
+     * Adds the value to the list, or removes it, if it is already in the list.
+     */
+    private static toggle(list : string[], value : string) : string[]
+    {
+        let index : number = list.indexOf(value);
+        if(index === -1) {
+            return list.concat([value]);
+        }
+        return list.filter(function (item) { return item !== value; });
+    }
+}
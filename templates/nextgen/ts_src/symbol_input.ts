@@ -0,0 +1,254 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      SymbolInput Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * A special character, which can be inserted into text fields.
+ */
+interface SymbolMapping {
+    /** The key, which inserts the symbol together with Alt (lower case). Empty if it is only shown in the picker. */
+    key : string;
+    /** The text which is inserted. */
+    symbol : string;
+}
+
+/**
+ * Inserts special characters (like Ω or µ) into text fields, when Alt + the key of the symbol is pressed.
+ * Additionally all symbols can be chosen from a small picker (see the "symbol_picker" shortcut).
+ * The user can add own symbols or override the keys in the user settings.
+ */
+class SymbolInput {
+
+    private static singleton : SymbolInput;
+
+    /** The key of the custom symbols in the user settings. */
+    public static readonly SETTINGS_KEY : string = "symbols";
+
+    /** The fields, in which symbols can be inserted. Other inputs (like number) do not support text selections. */
+    public static readonly FIELDS : string = "input[type=text], input[type=search], textarea";
+
+    public static readonly DEFAULT_MAPPINGS : SymbolMapping[] = [
+        //Units
+        {key: "w", symbol: "Ω"},   //Ohm
+        {key: "u", symbol: "µ"},   //Micro
+        {key: "m", symbol: "µ"},   //Micro
+        {key: "0", symbol: "°"},   //Degree
+        {key: "%", symbol: "‰"},   //Per mille
+        {key: "", symbol: "kΩ"},
+        {key: "", symbol: "MΩ"},
+        {key: "", symbol: "mΩ"},
+        {key: "", symbol: "µF"},
+        {key: "", symbol: "µH"},
+        {key: "", symbol: "µA"},
+        {key: "", symbol: "µV"},
+        {key: "", symbol: "°C"},
+
+        //Greek letters
+        {key: "a", symbol: "α"},   //Alpha
+        {key: "b", symbol: "β"},   //Beta
+        {key: "c", symbol: "γ"},   //Gamma
+        {key: "d", symbol: "δ"},   //Delta
+        {key: "p", symbol: "φ"},   //Phi
+        {key: "5", symbol: "π"},   //Pi
+        {key: "", symbol: "Δ"},    //Capital delta
+        {key: "", symbol: "η"},    //Eta
+        {key: "", symbol: "θ"},    //Theta
+        {key: "", symbol: "λ"},    //Lambda
+        {key: "", symbol: "σ"},    //Sigma
+        {key: "", symbol: "τ"},    //Tau
+
+        //Math
+        {key: "+", symbol: "±"},   //Plus-minus
+        {key: "x", symbol: "×"},   //Multiplication
+        {key: "=", symbol: "≈"},   //Almost equal
+        {key: "3", symbol: "≤"},   //Less-than or equal
+        {key: "4", symbol: "≥"},   //Greater-than or equal
+        {key: "i", symbol: "∞"},   //Infinity
+        {key: "1", symbol: "∑"},   //Sum
+        {key: "2", symbol: "∫"},   //Integral
+        {key: "", symbol: "√"},    //Square root
+        {key: "", symbol: "²"},    //Superscript two
+        {key: "", symbol: "³"},    //Superscript three
+
+        //Currencies
+        {key: "e", symbol: "€"},   //Euro
+        {key: "l", symbol: "£"},   //Pound
+        {key: "y", symbol: "¥"},   //Yen
+        {key: "o", symbol: "¤"},   //Generic currency sign
+
+        //Other
+        {key: "q", symbol: "©"},   //Copyright
+        {key: "", symbol: "®"},    //Registered
+        {key: "", symbol: "™"},    //Trademark
+    ];
+
+    /** The field, into which the picker inserts the symbols. */
+    private target : HTMLInputElement | HTMLTextAreaElement = null;
+
+    /**
+     * Gets a instance of SymbolInput. If no instance exits, then a new one is created.
+     * @returns {SymbolInput} A instance of SymbolInput.
+     */
+    public static getInstance() : SymbolInput
+    {
+        if(SymbolInput.singleton == null || SymbolInput.singleton == undefined)
+        {
+            SymbolInput.singleton = new SymbolInput();
+        }
+        return SymbolInput.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the handlers. The events are delegated, so this works for the fields loaded via ajax, too.
+     * Called by AjaxUI.start()
+     */
+    public start()
+    {
+        let _this = this;
+
+        UserSettings.getInstance().load();
+
+        $(document).on("keydown.symbol-input", SymbolInput.FIELDS, function (this : HTMLInputElement, event) {
+            _this.onKeyDown(<KeyboardEvent> event.originalEvent, this);
+        });
+
+        //Close the picker, when the user clicks somewhere else.
+        $(document).on("mousedown.symbol-input", function (event) {
+            if($(event.target).closest("#symbol-picker").length == 0) {
+                _this.closePicker();
+            }
+        });
+
+        KeyboardShortcuts.getInstance().register({id: "symbol_picker", keys: "alt+s", handler: function () {
+            let field = $(document.activeElement);
+            if(field.is(SymbolInput.FIELDS)) {
+                _this.openPicker(<HTMLInputElement> field.get(0));
+            }
+        }});
+    }
+
+    /**
+     * Returns the symbols: The default ones and the ones of the user. Symbols of the user replace the default ones
+     * with the same key.
+     */
+    public getMappings() : SymbolMapping[]
+    {
+        let custom : SymbolMapping[] = UserSettings.getInstance().get(SymbolInput.SETTINGS_KEY, []);
+        let keys : string[] = custom.map(function (mapping : SymbolMapping) { return mapping.key; });
+
+        let defaults : SymbolMapping[] = SymbolInput.DEFAULT_MAPPINGS.filter(function (mapping : SymbolMapping) {
+            return mapping.key === "" || keys.indexOf(mapping.key) === -1;
+        });
+        return custom.concat(defaults);
+    }
+
+    /**
+     * Returns the symbol, which is inserted for Alt + the given key, or null if there is none.
+     */
+    public getSymbol(key : string) : string
+    {
+        key = key.toLowerCase();
+        for(let mapping of this.getMappings()) {
+            if(mapping.key !== "" && mapping.key === key) {
+                return mapping.symbol;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Inserts the text at the caret of the field. A selected text is replaced, and the caret is placed after the
+     * inserted text. If the browser supports it, the insertion can be undone with Ctrl+Z.
+     * @param {HTMLInputElement | HTMLTextAreaElement} field The field.
+     * @param {string} text The text, which should be inserted.
+     */
+    public static insert(field : HTMLInputElement | HTMLTextAreaElement, text : string)
+    {
+        if(field.readOnly || field.disabled) {
+            return;
+        }
+        field.focus();
+
+        //execCommand inserts the text like it was typed, so it is added to the undo history of the browser.
+        if(document.queryCommandSupported("insertText") && document.execCommand("insertText", false, text)) {
+            return;
+        }
+
+        let start : number = field.selectionStart;
+        let end : number = field.selectionEnd;
+        field.value = field.value.substring(0, start) + text + field.value.substring(end);
+        field.setSelectionRange(start + text.length, start + text.length);
+        $(field).trigger("input");
+    }
+
+    /**
+     * Shows the picker with all symbols below the field.
+     * @param {HTMLInputElement | HTMLTextAreaElement} field The field, into which the symbols are inserted.
+     */
+    public openPicker(field : HTMLInputElement | HTMLTextAreaElement)
+    {
+        let _this = this;
+        let picker = $("#symbol-picker");
+        let list = picker.find(".symbol-picker-symbols").empty();
+
+        this.target = field;
+
+        for(let mapping of this.getMappings()) {
+            let button = $("<button type='button' class='btn btn-default btn-sm'>")
+                .css("margin", "2px")
+                .text(mapping.symbol)
+                .attr("title", mapping.key !== "" ? "Alt+" + mapping.key : "");
+            //Dont steal the focus from the field, so the selection is kept.
+            button.on("mousedown", function (event) {
+                event.preventDefault();
+            }).click(function () {
+                SymbolInput.insert(_this.target, mapping.symbol);
+            });
+            list.append(button);
+        }
+
+        let offset = $(field).offset();
+        picker.css({top: offset.top + $(field).outerHeight(), left: offset.left}).prop("hidden", false);
+    }
+
+    public closePicker()
+    {
+        $("#symbol-picker").prop("hidden", true);
+        this.target = null;
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    private onKeyDown(event : KeyboardEvent, field : HTMLInputElement | HTMLTextAreaElement)
+    {
+        if(event.key === "Escape" && this.target !== null) {
+            this.closePicker();
+            return;
+        }
+
+        //Ctrl+Alt is AltGr on Windows, which is needed to type characters like @ on some layouts.
+        if(!event.altKey || event.ctrlKey || event.metaKey) {
+            return;
+        }
+
+        let symbol : string = this.getSymbol(event.key);
+        //On macOS Alt changes the key (e.g. Alt+w is ∑), so check the physical key, too.
+        if(symbol === null && /^(Key[A-Z]|Digit[0-9])$/.test(event.code)) {
+            symbol = this.getSymbol(event.code.charAt(event.code.length - 1));
+        }
+        if(symbol === null) {
+            return;
+        }
+
+        event.preventDefault();
+        SymbolInput.insert(field, symbol);
+    }
+}
@@ -0,0 +1,528 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      TableLayouts Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * The column layout of a table type, like it is saved in the user settings or shared with the other users.
+ * The columns are identified by their caption in the config (e.g. "name" or "storelocation").
+ */
+interface TableLayout {
+    /** The columns in the order, in which they are shown. */
+    columns : string[];
+    /** The columns, which are not shown. */
+    hidden : string[];
+    /** The widths of the columns in px, which were resized by the user. */
+    widths : {[caption : string] : number};
+    /** The sort order like [["name", "asc"]] */
+    order : string[][];
+}
+
+/**
+ * Allows the users to customize the columns of the parts tables (see makeSortTable()): The columns can be hidden,
+ * reordered and resized and the sort order is remembered. The layouts are saved in the user settings per table type
+ * (e.g. "category_parts" or "search_parts", see Part::buildTemplateTableArray()) and can be shared with other users.
+ * The order of the columns can only be changed, before DataTables is initialized, so the page is reloaded for this.
+ */
+class TableLayouts {
+
+    private static singleton : TableLayouts;
+
+    /** The key of the user setting, which contains the layouts of all table types. */
+    private static readonly SETTINGS_KEY : string = "table_layouts";
+    /** The minimum width of a column in px, when it is resized. */
+    private static readonly MIN_WIDTH : number = 30;
+
+    /** The table, which is edited in the layout dialog. */
+    private table : any = null;
+    private type : string = null;
+    private shared : ApiTableLayouts = {};
+    /** The column in the layout dialog, which is dragged at the moment. */
+    private dragged : JQuery = null;
+
+    /**
+     * Gets a instance of TableLayouts. If no instance exits, then a new one is created.
+     * @returns {TableLayouts} A instance of TableLayouts.
+     */
+    public static getInstance() : TableLayouts
+    {
+        if(TableLayouts.singleton == null || TableLayouts.singleton == undefined)
+        {
+            TableLayouts.singleton = new TableLayouts();
+        }
+        return TableLayouts.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the handlers of the layout dialog. Called by AjaxUI.start()
+     */
+    public start()
+    {
+        let _this = this;
+
+        $(document).on("click", ".table-layout-button", function (this : HTMLElement) {
+            let table = $(this).closest(".panel").find("table.table-sortable").first();
+            _this.showDialog(table.DataTable());
+        });
+        $("#table-layout-apply").click(function () {
+            _this.applyDialog();
+        });
+        $("#table-layout-reset").click(function () {
+            _this.save(_this.type, null).always(function () {
+                $("#table-layout-modal").modal("hide");
+                Router.getInstance().reload();
+            });
+        });
+        $("#table-layout-shared").change(function () {
+            let name : string = <string> $(this).val();
+            $("#table-layout-delete").prop("disabled", name === "" || !_this.shared[name].own);
+            if(name !== "") {
+                $("#table-layout-name").val(name);
+                _this.fillColumns(_this.shared[name].layout);
+            }
+        });
+        $("#table-layout-share").click(function () {
+            _this.share();
+        });
+        $("#table-layout-delete").click(function () {
+            _this.deleteShared($(this).data("confirm"));
+        });
+
+        //Reorder the columns in the dialog via drag and drop
+        $("#table-layout-columns").on("dragstart", ".table-layout-column", function (event) {
+            _this.dragged = $(this);
+            //Firefox only starts dragging, if data is set
+            (<DragEvent> event.originalEvent).dataTransfer.setData("text/plain", _this.dragged.data("column"));
+            _this.dragged.css("opacity", 0.5);
+        }).on("dragover", ".table-layout-column", function (event) {
+            if(_this.dragged !== null) {
+                event.preventDefault();
+            }
+        }).on("drop", ".table-layout-column", function (event) {
+            let target = $(this);
+            if(_this.dragged === null || target.is(_this.dragged)) {
+                return;
+            }
+            event.preventDefault();
+            if(_this.dragged.index() < target.index()) {
+                target.after(_this.dragged);
+            } else {
+                target.before(_this.dragged);
+            }
+        }).on("dragend", ".table-layout-column", function () {
+            if(_this.dragged !== null) {
+                _this.dragged.css("opacity", "");
+                _this.dragged = null;
+            }
+        });
+    }
+
+    /**
+     * Reorders the columns of the tables like in the saved layouts and returns the DataTables options for the saved
+     * sort order. Must be called before DataTables is initialized and after UserSettings.load() is resolved.
+     * @param {JQuery} tables The .table-sortable tables.
+     * @returns {object} The options, which must be merged with the DataTables options.
+     */
+    public prepare(tables : JQuery) : object
+    {
+        let options : object = {};
+
+        tables.each(function () {
+            let table = $(this);
+            let layout : TableLayout = TableLayouts.getSavedLayout(TableLayouts.getType(table));
+            if(layout === null) {
+                return;
+            }
+
+            let captions : string[] = TableLayouts.getCaptions(table);
+            //Columns, which were added to the config after the layout was saved, are shown at the end.
+            let order : string[] = layout.columns.filter(function (caption : string) {
+                return captions.indexOf(caption) !== -1;
+            }).concat(captions.filter(function (caption : string) {
+                return layout.columns.indexOf(caption) === -1;
+            }));
+            let indexes : number[] = order.map(function (caption : string) {
+                return captions.indexOf(caption);
+            });
+
+            table.find("tr").each(function () {
+                let row = $(this);
+                let cells = row.children("th, td");
+                //E.g. the rows of the server side tables are empty
+                if(cells.length !== captions.length) {
+                    return;
+                }
+                row.append(indexes.map(function (index : number) {
+                    return cells.get(index);
+                }));
+            });
+            //The columns of the server side tables are rendered from the data attribute (see PartsTable)
+            let columns : PartsTableColumn[] = table.data("columns");
+            if(columns) {
+                table.data("columns", indexes.map(function (index : number) {
+                    return columns[index];
+                }));
+            }
+
+            //The sort order from the URL of a server side table has priority
+            if(layout.order.length > 0 && !table.data("order")) {
+                options["order"] = layout.order.filter(function (entry : string[]) {
+                    return order.indexOf(entry[0]) !== -1;
+                }).map(function (entry : string[]) {
+                    return [order.indexOf(entry[0]), entry[1]];
+                });
+            }
+            if(Object.keys(layout.widths).length > 0) {
+                //Otherwise DataTables overwrites the widths of the columns
+                options["autoWidth"] = false;
+            }
+        });
+
+        return options;
+    }
+
+    /**
+     * Hides and resizes the columns like in the saved layouts, adds the resizers to the header cells and the button
+     * for the layout dialog to the panel. Must be called after DataTables is initialized.
+     * @param tables The DataTables API of the tables.
+     */
+    public init(tables : any)
+    {
+        let _this = this;
+
+        tables.tables().nodes().each(function (node : HTMLElement) {
+            let type : string = TableLayouts.getType($(node));
+            if(type === null) {
+                return;
+            }
+            let table : any = $(node).DataTable();
+            let layout : TableLayout = TableLayouts.getSavedLayout(type);
+
+            if(layout !== null) {
+                TableLayouts.applyVisibility(table, layout);
+                table.columns().header().each(function (th : HTMLElement) {
+                    let width : number = layout.widths[$(th).data("column")];
+                    if(width) {
+                        $(th).css({width: width, minWidth: width});
+                    }
+                });
+            }
+
+            //Resize the columns by dragging the right border of the header cells
+            table.columns().header().each(function (th : HTMLElement) {
+                let resizer = $("<span class='table-layout-resizer'>")
+                    .css({position: "absolute", top: 0, right: 0, bottom: 0, width: 5, cursor: "col-resize"});
+                //The handlers must be bound to the resizer, otherwise the column would be sorted
+                resizer.on("click", function (event) {
+                    event.stopPropagation();
+                }).on("mousedown", function (event) {
+                    event.preventDefault();
+                    event.stopPropagation();
+                    _this.resize($(th), event.pageX);
+                });
+                $(th).css("position", "relative").append(resizer);
+            });
+
+            let heading = $(node).closest(".panel").find(".panel-heading");
+            heading.find(".table-layout-button").remove();
+            let button = $("<button type='button' class='btn btn-default btn-xs table-layout-button'>")
+                .attr("title", $(node).data("label-layout"))
+                .append($("<i class='fas fa-columns fa-fw' aria-hidden='true'>"));
+            let buttons = heading.find(".dt-buttons");
+            if(buttons.length > 0) {
+                buttons.prepend(button);
+            } else {
+                heading.append(button.addClass("pull-right"));
+            }
+
+            //Remember the sort order, when the user sorts the table
+            let initial_order : string = JSON.stringify(TableLayouts.getLayout(table).order);
+            $(node).on("order.dt", function () {
+                let current : TableLayout = TableLayouts.getLayout(table);
+                let saved : TableLayout = TableLayouts.getSavedLayout(type);
+                if(JSON.stringify(current.order) !== (saved !== null ? JSON.stringify(saved.order) : initial_order)) {
+                    _this.save(type, current);
+                }
+            });
+        });
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Returns the table type (e.g. "category_parts") or null, if the table does not support layouts.
+     */
+    private static getType(table : JQuery) : string
+    {
+        let type : string = table.find("thead tr[data-table-type]").first().data("table-type");
+        return type ? type : null;
+    }
+
+    /**
+     * Returns the captions of the columns in the current order of the header cells.
+     */
+    private static getCaptions(table : JQuery) : string[]
+    {
+        return table.find("thead tr").first().children("th").map(function () {
+            return $(this).data("column");
+        }).get();
+    }
+
+    /**
+     * Returns the layout, which the user has saved for the table type, or null.
+     */
+    private static getSavedLayout(type : string) : TableLayout
+    {
+        let layouts : {[type : string] : TableLayout} = UserSettings.getInstance().get(TableLayouts.SETTINGS_KEY, {});
+        return layouts.hasOwnProperty(type) && layouts[type] !== null ? layouts[type] : null;
+    }
+
+    /**
+     * Returns the current layout of a table.
+     * @param table The DataTables API of the table.
+     */
+    private static getLayout(table : any) : TableLayout
+    {
+        let saved : TableLayout = TableLayouts.getSavedLayout(TableLayouts.getType($(table.table().node())));
+        let columns : string[] = [];
+        let hidden : string[] = [];
+        table.columns().every(function () {
+            let caption : string = $(this.header()).data("column");
+            columns.push(caption);
+            if(!this.visible()) {
+                hidden.push(caption);
+            }
+        });
+
+        return {
+            columns: columns,
+            hidden: hidden,
+            widths: saved !== null ? saved.widths : {},
+            order: table.order().map(function (entry : any[]) {
+                return [columns[entry[0]], entry[1]];
+            })
+        };
+    }
+
+    /**
+     * Shows and hides the columns of the table like in the layout.
+     * @param table The DataTables API of the table.
+     * @param {TableLayout} layout
+     */
+    private static applyVisibility(table : any, layout : TableLayout)
+    {
+        table.columns().every(function () {
+            let visible : boolean = layout.hidden.indexOf($(this.header()).data("column")) === -1;
+            if(this.visible() !== visible) {
+                this.visible(visible, false);
+            }
+        });
+        table.columns.adjust();
+    }
+
+    /**
+     * Saves the layout of a table type in the user settings.
+     * @param {string} type The table type.
+     * @param {TableLayout} layout The layout or null, to restore the default layout.
+     */
+    private save(type : string, layout : TableLayout) : JQuery.jqXHR
+    {
+        let layouts : {[type : string] : TableLayout} = $.extend({},
+            UserSettings.getInstance().get(TableLayouts.SETTINGS_KEY, {}));
+        if(layout === null) {
+            delete layouts[type];
+        } else {
+            layouts[type] = layout;
+        }
+        return UserSettings.getInstance().set(TableLayouts.SETTINGS_KEY, layouts).fail(function (xhr : JQuery.jqXHR) {
+            //The anonymous user can not save settings, the layout is only used until the page is reloaded.
+            if(xhr.status !== 401) {
+                $("#table-layout-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            }
+        });
+    }
+
+    /**
+     * Changes the width of a column, while the mouse is moved (until the mouse button is released).
+     * @param {JQuery} th The header cell of the column.
+     * @param {number} start_x The position of the mouse, when the resizing was started.
+     */
+    private resize(th : JQuery, start_x : number)
+    {
+        let _this = this;
+        let table = th.closest("table").DataTable();
+        let start_width : number = th.outerWidth();
+
+        $(document).on("mousemove.table-layout", function (event) {
+            let width : number = Math.max(start_width + event.pageX - start_x, TableLayouts.MIN_WIDTH);
+            th.css({width: width, minWidth: width});
+        }).on("mouseup.table-layout", function () {
+            $(document).off(".table-layout");
+            table.fixedHeader.adjust();
+
+            let layout : TableLayout = TableLayouts.getLayout(table);
+            layout.widths = $.extend({}, layout.widths);
+            layout.widths[th.data("column")] = Math.round(th.outerWidth());
+            _this.save(TableLayouts.getType(th.closest("table")), layout);
+        });
+    }
+
+    /**
+     * Shows the dialog to customize the columns of a table.
+     * @param table The DataTables API of the table.
+     */
+    private showDialog(table : any)
+    {
+        let _this = this;
+        this.table = table;
+        this.type = TableLayouts.getType($(table.table().node()));
+        this.shared = {};
+
+        $("#table-layout-error").prop("hidden", true).empty();
+        $("#table-layout-name").val("");
+        this.fillColumns(TableLayouts.getLayout(table));
+        this.fillShared();
+        $("#table-layout-modal").modal("show");
+
+        PartDbApiClient.getInstance().getTableLayouts(this.type).done(function (layouts : ApiTableLayouts) {
+            _this.shared = layouts;
+            _this.fillShared();
+        }).fail(function (xhr : JQuery.jqXHR) {
+            //The anonymous user can not see the shared layouts, but he can change the layout anyway.
+            if(xhr.status !== 401) {
+                $("#table-layout-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            }
+        });
+    }
+
+    /**
+     * Fills the list of the dialog with the columns of the layout.
+     */
+    private fillColumns(layout : TableLayout)
+    {
+        let list = $("#table-layout-columns").empty();
+        let prototype = $(".table-layout-prototypes .table-layout-column");
+        let headers : {[caption : string] : string} = {};
+        this.table.columns().header().each(function (th : HTMLElement) {
+            headers[$(th).data("column")] = $.trim($(th).text());
+        });
+
+        //The shared layouts can contain columns, which are not in the table (or miss some)
+        let captions : string[] = layout.columns.filter(function (caption : string) {
+            return headers.hasOwnProperty(caption);
+        }).concat(Object.keys(headers).filter(function (caption : string) {
+            return layout.columns.indexOf(caption) === -1;
+        }));
+
+        for(let caption of captions) {
+            let item = prototype.clone();
+            item.data("column", caption);
+            //Some columns (e.g. the pictures) have no header
+            item.find(".table-layout-caption").text(headers[caption] !== "" ? headers[caption] : caption);
+            item.find(".table-layout-visible").prop("checked", layout.hidden.indexOf(caption) === -1);
+            list.append(item);
+        }
+        list.data("layout", layout);
+    }
+
+    private fillShared()
+    {
+        let select = $("#table-layout-shared");
+        select.find("option:not(:first)").remove();
+        for(let name of Object.keys(this.shared).sort()) {
+            select.append($("<option>").val(name).text(name + " (" + this.shared[name].user + ")"));
+        }
+        select.val("");
+        $("#table-layout-delete").prop("disabled", true);
+    }
+
+    /**
+     * Returns the layout, which is shown in the dialog.
+     */
+    private getDialogLayout() : TableLayout
+    {
+        let base : TableLayout = $("#table-layout-columns").data("layout");
+        let columns : string[] = [];
+        let hidden : string[] = [];
+        $("#table-layout-columns .table-layout-column").each(function () {
+            let item = $(this);
+            columns.push(item.data("column"));
+            if(!item.find(".table-layout-visible").is(":checked")) {
+                hidden.push(item.data("column"));
+            }
+        });
+        return {columns: columns, hidden: hidden, widths: base.widths, order: base.order};
+    }
+
+    /**
+     * Saves the layout of the dialog and applies it to the table. The page is reloaded, if the order of the columns
+     * was changed.
+     */
+    private applyDialog()
+    {
+        let layout : TableLayout = this.getDialogLayout();
+        let current : TableLayout = TableLayouts.getLayout(this.table);
+        let reload : boolean = JSON.stringify(layout.columns) !== JSON.stringify(current.columns)
+            || JSON.stringify(layout.order) !== JSON.stringify(current.order);
+
+        if(!reload) {
+            TableLayouts.applyVisibility(this.table, layout);
+        }
+        this.save(this.type, layout).done(function () {
+            $("#table-layout-modal").modal("hide");
+            if(reload) {
+                Router.getInstance().reload();
+            }
+        });
+    }
+
+    /**
+     * Shares the layout of the dialog with the name from the input.
+     */
+    private share()
+    {
+        let _this = this;
+        let name : string = $.trim(<string> $("#table-layout-name").val());
+        if(name === "") {
+            $("#table-layout-name").focus();
+            return;
+        }
+        $("#table-layout-error").prop("hidden", true).empty();
+        let layout : TableLayout = this.getDialogLayout();
+        PartDbApiClient.getInstance().shareTableLayout(this.type, name, layout).done(function () {
+            PartDbApiClient.getInstance().getTableLayouts(_this.type).done(function (layouts : ApiTableLayouts) {
+                _this.shared = layouts;
+                _this.fillShared();
+                $("#table-layout-shared").val(name).change();
+            });
+        }).fail(function (xhr : JQuery.jqXHR) {
+            $("#table-layout-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+        });
+    }
+
+    /**
+     * Deletes the shared layout selected in the select, after the user confirmed it.
+     */
+    private deleteShared(question : string)
+    {
+        let _this = this;
+        let name : string = <string> $("#table-layout-shared").val();
+        if(name === "" || !confirm(question)) {
+            return;
+        }
+        $("#table-layout-error").prop("hidden", true).empty();
+        PartDbApiClient.getInstance().deleteTableLayout(this.type, name).done(function () {
+            delete _this.shared[name];
+            _this.fillShared();
+        }).fail(function (xhr : JQuery.jqXHR) {
+            $("#table-layout-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+        });
+    }
+}
@@ -0,0 +1,377 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      SidebarTree Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * The options of the treeview plugin, including the handlers added in the Part-DB version of bootstrap-treeview.
+ */
+interface SidebarTreeOptions extends BootstrapTreeViewOptions {
+    onNodeContextmenu?(event : any, node : BootstrapTreeViewNodeData) : void;
+}
+
+/**
+ * A node of the treeview plugin, with the fields returned by the lazy and search tree API.
+ */
+interface SidebarTreeNode extends BootstrapTreeViewNodeData {
+    id? : number;
+    lazyLoad? : boolean;
+    searchResult? : boolean;
+}
+
+/**
+ * A treeview in the sidebar. The children of the nodes are loaded, when a node is expanded, and the tree can
+ * be filtered via the input above it.
+ * The expanded and the selected nodes are saved in cookies (like the data source in tree_datasource_*),
+ * so they are restored on the next page load.
+ */
+class SidebarTree {
+
+    private static instances : {[id : string] : SidebarTree} = {};
+
+    /** How many levels of the tree are loaded initially. */
+    public static readonly LAZY_DEPTH : number = 1;
+    /** The depth, which is used to load the complete tree (when all nodes are expanded). */
+    public static readonly MAX_DEPTH : number = 100;
+    /** How long (in ms) we wait after the last keystroke in the filter input, before the tree is searched. */
+    public static readonly FILTER_DELAY : number = 300;
+
+    /** The ID of the div containing the tree (e.g. "tree-categories") */
+    private id : string;
+    private datasource : ApiTreeDataSource = null;
+    private options : SidebarTreeOptions = {};
+
+    /** The keyword of the active filter or "" */
+    private filter_keyword : string = "";
+    private filter_timeout : number = null;
+
+    /**
+     * Creates a new SidebarTree object. Use SidebarTree.get() to get the tree for a div.
+     * @param {string} id The ID of the div, containing the tree.
+     */
+    private constructor(id : string)
+    {
+        this.id = id;
+
+        let _this = this;
+        $("input.tree-filter[data-target='" + id + "']").on("input", function () {
+            _this.onFilterInput(<string> $(this).val());
+        });
+    }
+
+    /**
+     * Gets the tree for the given div. If no instance exits, then a new one is created.
+     * @param {string} id The ID of the div containing the tree (e.g. "tree-categories")
+     * @returns {SidebarTree} The tree object.
+     */
+    public static get(id : string) : SidebarTree
+    {
+        if(!SidebarTree.instances.hasOwnProperty(id))
+        {
+            SidebarTree.instances[id] = new SidebarTree(id);
+        }
+        return SidebarTree.instances[id];
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Returns the data source of the tree (e.g. "categories") or null, if the tree is not loaded yet.
+     */
+    public getDatasource() : ApiTreeDataSource
+    {
+        return this.datasource;
+    }
+
+    /**
+     * Loads the nodes from the given data source into the tree. Only the first levels and the children of the
+     * nodes, which were expanded before, are loaded.
+     * @param {ApiTreeDataSource} datasource The data source (e.g. "categories")
+     * @param {SidebarTreeOptions} options The options for the treeview plugin (e.g. the handlers for selected nodes).
+     */
+    public load(datasource : ApiTreeDataSource, options : SidebarTreeOptions)
+    {
+        this.datasource = datasource;
+        this.options = options;
+        this.filter_keyword = "";
+        $("input.tree-filter[data-target='" + this.id + "']").val("");
+
+        this.reload();
+    }
+
+    /**
+     * Loads the tree again from the server (with the current data source and filter).
+     */
+    public reload()
+    {
+        let _this = this;
+        let client : PartDbApiClient = PartDbApiClient.getInstance();
+        let request : JQuery.jqXHR<ApiTreeNode[]>;
+
+        if(this.filter_keyword !== "") {
+            this.filter(this.filter_keyword);
+            return;
+        }
+
+        if(this.isLazy()) {
+            request = client.getLazyTree(this.datasource, 0, SidebarTree.LAZY_DEPTH, this.getExpandedIDs());
+        } else {
+            request = client.getTree(this.datasource);
+        }
+
+        request.done(function (nodes : ApiTreeNode[]) {
+            _this.init(<SidebarTreeNode[]> nodes);
+            _this.restoreState();
+        });
+    }
+
+    /**
+     * Shows only the nodes matching the keyword (and their parents). The matching nodes are highlighted.
+     * @param {string} keyword The keyword. If it is empty, the normal tree is shown again.
+     */
+    public filter(keyword : string)
+    {
+        let _this = this;
+        keyword = $.trim(keyword);
+
+        if(keyword === "") {
+            let was_filtered : boolean = this.filter_keyword !== "";
+            this.filter_keyword = "";
+            if(was_filtered) {
+                this.reload();
+            }
+            return;
+        }
+
+        this.filter_keyword = keyword;
+
+        //The tools tree is small and has no IDs, so it is searched by the plugin.
+        if(!this.isLazy()) {
+            $("#" + this.id).treeview("search", [keyword, {ignoreCase: true, exactMatch: false, revealResults: true}]);
+            return;
+        }
+
+        PartDbApiClient.getInstance().searchTree(this.datasource, keyword).done(function (nodes : ApiTreeNode[]) {
+            //Ignore outdated responses, when the user typed in the meantime.
+            if(_this.filter_keyword === keyword) {
+                _this.init(<SidebarTreeNode[]> nodes);
+            }
+        });
+    }
+
+    /**
+     * Expands all nodes. For lazy trees, the whole tree is loaded from the server first.
+     */
+    public expandAll()
+    {
+        let _this = this;
+        let tree = $("#" + this.id);
+
+        if(!this.isLazy() || this.filter_keyword !== "") {
+            tree.treeview("expandAll", { silent: true });
+            return;
+        }
+
+        PartDbApiClient.getInstance().getLazyTree(this.datasource, 0, SidebarTree.MAX_DEPTH).done(function (nodes : ApiTreeNode[]) {
+            _this.init(<SidebarTreeNode[]> nodes);
+            tree.treeview("expandAll", { silent: true });
+            _this.restoreSelected();
+            _this.saveExpanded();
+        });
+    }
+
+    /**
+     * Collapses all nodes.
+     */
+    public collapseAll()
+    {
+        $("#" + this.id).treeview("collapseAll", { silent: true });
+        if(this.filter_keyword === "") {
+            this.saveExpanded();
+        }
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Creates the treeview plugin with the given nodes.
+     */
+    private init(nodes : SidebarTreeNode[])
+    {
+        let options : SidebarTreeOptions = $.extend({}, this.options, {
+            data: nodes,
+            enableLinks: false,
+            showIcon: false,
+            showBorder: true,
+            //The expanded state is set by the server (or restored from the cookie)
+            levels: 0,
+            onNodeExpanded: this.onNodeExpanded.bind(this),
+            onNodeCollapsed: this.onNodeCollapsed.bind(this),
+            onNodeUnselected: this.onNodeUnselected.bind(this)
+        });
+
+        //Remember the selected node, before the handler of AjaxUI is called.
+        let selected_handler = this.options.onNodeSelected;
+        let _this = this;
+        options.onNodeSelected = function (event, node : SidebarTreeNode) {
+            _this.saveSelected(node);
+            if(selected_handler) {
+                selected_handler.call(this, event, node);
+            }
+        };
+
+        $("#" + this.id).treeview(options);
+    }
+
+    /**
+     * Expands the nodes saved in the cookie, which were not expanded by the server (e.g. in the tools tree)
+     * and selects the saved node.
+     */
+    private restoreState()
+    {
+        let tree = $("#" + this.id);
+        let expanded : string[] = this.getExpandedKeys();
+
+        let collapsed = <SidebarTreeNode[]> (<any> tree.treeview("getCollapsed"));
+        for(let node of collapsed) {
+            if(node.nodes && expanded.indexOf(SidebarTree.getNodeKey(node)) !== -1) {
+                tree.treeview("expandNode", [node.nodeId, { silent: true }]);
+            }
+        }
+
+        this.restoreSelected();
+    }
+
+    /**
+     * Selects the node saved in the cookie, if it belongs to the current page.
+     */
+    private restoreSelected()
+    {
+        let tree = $("#" + this.id);
+        let href : string = Cookies.get(this.getCookieName("selected"));
+        if(typeof href === "undefined" || href === "" || location.href.indexOf(href) === -1) {
+            return;
+        }
+
+        let nodes = <SidebarTreeNode[]> (<any> tree.treeview("getUnselected"));
+        for(let node of nodes) {
+            if(node.href === href) {
+                tree.treeview("selectNode", [node.nodeId, { silent: true }]);
+                break;
+            }
+        }
+    }
+
+    /**
+     * Loads the children of a lazy node and saves the expanded nodes.
+     */
+    private onNodeExpanded(event, node : SidebarTreeNode)
+    {
+        let tree = $("#" + this.id);
+
+        if(node.lazyLoad && this.isLazy()) {
+            PartDbApiClient.getInstance().getLazyTree(this.datasource, node.id, SidebarTree.LAZY_DEPTH)
+                .done(function (children : ApiTreeNode[]) {
+                    tree.treeview("addNodes", [node.nodeId, children]);
+                });
+        }
+
+        //Dont remember nodes, which were expanded in the filtered tree
+        if(this.filter_keyword === "") {
+            this.saveExpanded();
+        }
+    }
+
+    private onNodeCollapsed(event, node : SidebarTreeNode)
+    {
+        if(this.filter_keyword === "") {
+            this.saveExpanded();
+        }
+    }
+
+    private onNodeUnselected(event, node : SidebarTreeNode)
+    {
+        Cookies.remove(this.getCookieName("selected"));
+    }
+
+    private onFilterInput(keyword : string)
+    {
+        let _this = this;
+        if(this.filter_timeout !== null) {
+            window.clearTimeout(this.filter_timeout);
+        }
+        this.filter_timeout = window.setTimeout(function () {
+            _this.filter_timeout = null;
+            _this.filter(keyword);
+        }, SidebarTree.FILTER_DELAY);
+    }
+
+    /**
+     * Saves the keys of all expanded nodes in a cookie.
+     */
+    private saveExpanded()
+    {
+        let expanded = <SidebarTreeNode[]> (<any> $("#" + this.id).treeview("getExpanded"));
+        let keys : string[] = expanded.map(SidebarTree.getNodeKey);
+        Cookies.set(this.getCookieName("expanded"), keys.join(","));
+    }
+
+    private saveSelected(node : SidebarTreeNode)
+    {
+        if(typeof node.href !== "undefined" && node.href !== "") {
+            Cookies.set(this.getCookieName("selected"), node.href);
+        }
+    }
+
+    /**
+     * Returns the keys of the nodes, which were expanded, when the tree was shown the last time.
+     */
+    private getExpandedKeys() : string[]
+    {
+        let value : string = Cookies.get(this.getCookieName("expanded"));
+        if(typeof value === "undefined" || value === "") {
+            return [];
+        }
+        return value.split(",");
+    }
+
+    /**
+     * Returns the IDs of the elements, whose nodes were expanded (for the lazy tree API).
+     */
+    private getExpandedIDs() : number[]
+    {
+        return this.getExpandedKeys().map(Number).filter(function (id : number) {
+            return !isNaN(id);
+        });
+    }
+
+    /**
+     * Returns the name of the cookie for the current data source.
+     * @param {string} type "expanded" or "selected"
+     */
+    private getCookieName(type : string) : string
+    {
+        return "tree_" + type + "_" + this.id + "_" + this.datasource;
+    }
+
+    /**
+     * Checks if the tree of the current data source can be loaded lazy (the tools tree is always loaded complete).
+     */
+    private isLazy() : boolean
+    {
+        return this.datasource !== "tools";
+    }
+
+    /**
+     * Returns a key, which identifies the node in the cookies: The ID of the element, or the text for the tools tree.
+     */
+    private static getNodeKey(node : SidebarTreeNode) : string
+    {
+        return typeof node.id !== "undefined" ? String(node.id) : node.text;
+    }
+}
@@ -0,0 +1,357 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      TreeDragDrop Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * The element, which is dragged at the moment: A node of a sidebar tree or parts from a parts table.
+ */
+interface TreeDragSource {
+    datasource? : ApiMovableTreeDataSource;
+    id? : number;
+    name? : string;
+    parts? : Array<{id : number, name : string}>;
+}
+
+/**
+ * Allows to reorganize the sidebar trees via drag and drop: A node of the categories, locations, footprints or devices
+ * tree can be dropped on another node of the same tree, to make it a child of that node (the root node moves it to the
+ * top level). Parts can be dragged from a parts table (all selected rows or the dragged one) on a category or a
+ * location. Every move must be confirmed in a dialog and can be undone afterwards.
+ */
+class TreeDragDrop {
+
+    private static singleton : TreeDragDrop;
+
+    /** The data sources, whose nodes can be moved. */
+    private static readonly MOVABLE : string[] = ["categories", "locations", "footprints", "devices"];
+    /** The prefixes of the bulk edit targets (see bulkEditParts() in lib.php) of the trees, parts can be moved to. */
+    private static readonly PART_TARGETS : {[datasource : string] : string} = {categories: "c", locations: "s"};
+    /** The time in ms, how long the undo notification is shown. */
+    private static readonly UNDO_TIMEOUT : number = 15000;
+
+    private dragged : TreeDragSource = null;
+    /** The move, which waits for the confirmation of the user. */
+    private pending : {source : TreeDragSource, datasource : ApiTreeDataSource, target : SidebarTreeNode} = null;
+    /** Undoes the last move. */
+    private undo : () => void = null;
+    private undo_timeout : number = null;
+
+    /**
+     * Gets a instance of TreeDragDrop. If no instance exits, then a new one is created.
+     * @returns {TreeDragDrop} A instance of TreeDragDrop.
+     */
+    public static getInstance() : TreeDragDrop
+    {
+        if(TreeDragDrop.singleton == null || TreeDragDrop.singleton == undefined)
+        {
+            TreeDragDrop.singleton = new TreeDragDrop();
+        }
+        return TreeDragDrop.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the drag and drop handlers. Called by AjaxUI.start()
+     */
+    public start()
+    {
+        let _this = this;
+
+        //The treeview renders its nodes again on every change, so the nodes are made draggable, when they are clicked
+        $(document).on("mousedown", "#sidebar .treeview li.list-group-item", function (this : HTMLElement) {
+            let li = $(this);
+            let node = TreeDragDrop.getNode(li);
+            let datasource = TreeDragDrop.getDatasource(li);
+            li.attr("draggable", String(node !== null && node.id > 0 && TreeDragDrop.MOVABLE.indexOf(datasource) !== -1));
+        });
+        $(document).on("mousedown", ".table-sortable tbody tr", function (this : HTMLElement) {
+            let row = $(this);
+            row.attr("draggable", String(row.find("input[type=hidden]").length > 0));
+        });
+
+        $(document).on("dragstart", "#sidebar .treeview li.list-group-item", function (this : HTMLElement, event) {
+            let li = $(this);
+            let node = TreeDragDrop.getNode(li);
+            _this.dragged = {datasource: <ApiMovableTreeDataSource> TreeDragDrop.getDatasource(li), id: node.id,
+                name: $("<div>").html(node.text).text()};
+            //Firefox only starts dragging, if data is set
+            (<DragEvent> event.originalEvent).dataTransfer.setData("text/plain", _this.dragged.name);
+        });
+        $(document).on("dragstart", ".table-sortable tbody tr", function (this : HTMLElement, event) {
+            //Drag all selected parts, if a selected row is dragged
+            let parts = $(this).hasClass("selected") ? BulkEditor.getSelectedParts() : [BulkEditor.getRowPart(this)];
+            _this.dragged = {parts: parts};
+            (<DragEvent> event.originalEvent).dataTransfer.setData("text/plain", parts.map(function (part) {
+                return part.name;
+            }).join("\n"));
+        });
+
+        $(document).on("dragover", "#sidebar .treeview li.list-group-item", function (this : HTMLElement, event) {
+            let li = $(this);
+            if(_this.canDrop(TreeDragDrop.getDatasource(li), TreeDragDrop.getNode(li))) {
+                event.preventDefault();
+                li.css("outline", "2px dashed #337ab7");
+            }
+        });
+        $(document).on("dragleave", "#sidebar .treeview li.list-group-item", function (this : HTMLElement) {
+            $(this).css("outline", "");
+        });
+        $(document).on("drop", "#sidebar .treeview li.list-group-item", function (this : HTMLElement, event) {
+            let li = $(this);
+            let datasource = TreeDragDrop.getDatasource(li);
+            let node = TreeDragDrop.getNode(li);
+            li.css("outline", "");
+            if(_this.canDrop(datasource, node)) {
+                event.preventDefault();
+                _this.confirm(_this.dragged, datasource, node);
+            }
+        });
+        $(document).on("dragend", "#sidebar .treeview li.list-group-item, .table-sortable tbody tr", function () {
+            _this.dragged = null;
+        });
+
+        $("#tree-move-confirm").click(function () {
+            _this.execute();
+        });
+        $("#tree-move-undo-button").click(function (event) {
+            event.preventDefault();
+            if(_this.undo !== null) {
+                _this.undo();
+                _this.undo = null;
+            }
+        });
+        $("#tree-move-undo-close").click(function () {
+            _this.hideUndo();
+        });
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Returns the data source of the tree, which contains the given node.
+     */
+    private static getDatasource(li : JQuery) : ApiTreeDataSource
+    {
+        return SidebarTree.get(li.closest(".treeview").attr("id")).getDatasource();
+    }
+
+    /**
+     * Returns the node of the treeview, which belongs to the given list item.
+     */
+    private static getNode(li : JQuery) : SidebarTreeNode
+    {
+        let node = <SidebarTreeNode> (<any> li.closest(".treeview").treeview("getNode", Number(li.attr("data-nodeid"))));
+        return node ? node : null;
+    }
+
+    /**
+     * Checks if the dragged element can be dropped on the given node.
+     */
+    private canDrop(datasource : ApiTreeDataSource, node : SidebarTreeNode) : boolean
+    {
+        if(this.dragged === null || node === null || typeof node.id !== "number") {
+            return false;
+        }
+        if(this.dragged.parts) {
+            return TreeDragDrop.PART_TARGETS.hasOwnProperty(datasource) && node.id > 0;
+        }
+        return this.dragged.datasource === datasource && this.dragged.id !== node.id;
+    }
+
+    /**
+     * Shows the dialog, which asks if the dragged element should really be moved.
+     */
+    private confirm(source : TreeDragSource, datasource : ApiTreeDataSource, target : SidebarTreeNode)
+    {
+        this.pending = {source: source, datasource: datasource, target: target};
+
+        let modal = $("#tree-move-modal");
+        modal.find(".tree-move-question").each(function () {
+            let question = $(this);
+            question.prop("hidden", question.data("kind") !== (source.parts ? "parts" : "node"));
+        });
+        modal.find(".tree-move-target").text($("<div>").html(target.text).text());
+        $("#tree-move-source").text(source.name ? source.name : "");
+        let list = $("#tree-move-parts").empty();
+        if(source.parts) {
+            for(let part of source.parts) {
+                list.append($("<li>").text(part.name));
+            }
+        }
+
+        $("#tree-move-error").prop("hidden", true).empty();
+        $("#tree-move-loading").prop("hidden", true);
+        $("#tree-move-confirm").show().prop("disabled", false);
+        modal.modal("show");
+    }
+
+    /**
+     * Executes the confirmed move.
+     */
+    private execute()
+    {
+        let _this = this;
+        if(this.pending === null) {
+            return;
+        }
+        let pending = this.pending;
+        let api = PartDbApiClient.getInstance();
+
+        $("#tree-move-confirm").prop("disabled", true);
+        $("#tree-move-loading").prop("hidden", false);
+
+        let request : JQuery.jqXHR;
+        if(pending.source.parts) {
+            let ids : number[] = pending.source.parts.map(function (part) { return part.id; });
+            request = api.bulkEditParts("move", ids,
+                {target: TreeDragDrop.PART_TARGETS[pending.datasource] + pending.target.id})
+                .done(function (results : ApiBulkResult[]) {
+                    _this.onPartsMoved(results);
+                });
+        } else {
+            request = api.moveTreeElement(pending.source.datasource, pending.source.id, pending.target.id)
+                .done(function (result : ApiTreeMove) {
+                    $("#tree-move-modal").modal("hide");
+                    AjaxUI.getInstance().updateTrees();
+                    _this.showUndo(function () {
+                        _this.undoRequest(api.moveTreeElement(pending.source.datasource, result.id, result.old_parent_id));
+                    });
+                });
+        }
+
+        request.fail(function (xhr : JQuery.jqXHR) {
+            $("#tree-move-error").prop("hidden", false).text(PartDbApiClient.getErrorMessage(xhr));
+            $("#tree-move-confirm").prop("disabled", false);
+        }).always(function () {
+            $("#tree-move-loading").prop("hidden", true);
+            _this.pending = request.state() === "rejected" ? pending : null;
+        });
+    }
+
+    /**
+     * Shows the parts, which could not be moved, and offers to undo the move of the others.
+     */
+    private onPartsMoved(results : ApiBulkResult[])
+    {
+        let _this = this;
+        let failed = results.filter(function (result) { return !result.success; });
+        let moved = results.filter(function (result) { return result.success; });
+
+        if(failed.length > 0) {
+            $("#tree-move-error").prop("hidden", false).text(failed.map(function (result) {
+                return (result.name !== "" ? result.name : "#" + result.id) + ": " + result.message;
+            }).join("\n"));
+            $("#tree-move-confirm").hide();
+        } else {
+            $("#tree-move-modal").modal("hide");
+        }
+
+        if(moved.length > 0) {
+            Router.getInstance().reload();
+            this.showUndo(function () {
+                _this.undoParts(moved);
+            });
+        }
+    }
+
+    /**
+     * Moves the parts back to their previous category or location. The parts are grouped by their previous target,
+     * so only one request is needed for every target.
+     */
+    private undoParts(moved : ApiBulkResult[])
+    {
+        let groups : {[target : string] : number[]} = {};
+        for(let result of moved) {
+            if(!groups.hasOwnProperty(result.previous)) {
+                groups[result.previous] = [];
+            }
+            groups[result.previous].push(result.id);
+        }
+
+        let api = PartDbApiClient.getInstance();
+        let requests : JQuery.jqXHR[] = Object.keys(groups).map(function (target : string) {
+            return api.bulkEditParts("move", groups[target], {target: target});
+        });
+
+        let _this = this;
+        $.when.apply($, requests).done(function () {
+            let failed : string[] = [];
+            requests.forEach(function (request : JQuery.jqXHR) {
+                (<ApiBulkResult[]> request.responseJSON).forEach(function (result : ApiBulkResult) {
+                    if(!result.success) {
+                        failed.push((result.name !== "" ? result.name : "#" + result.id) + ": " + result.message);
+                    }
+                });
+            });
+            if(failed.length > 0) {
+                _this.showUndoState("error", failed.join("\n"));
+            } else {
+                _this.showUndoState("undone");
+            }
+            Router.getInstance().reload();
+        }).fail(function (xhr : JQuery.jqXHR) {
+            _this.showUndoState("error", PartDbApiClient.getErrorMessage(xhr));
+        });
+    }
+
+    /**
+     * Shows the result of the request, which undoes the move of a tree node.
+     */
+    private undoRequest(request : JQuery.jqXHR)
+    {
+        let _this = this;
+        request.done(function () {
+            _this.showUndoState("undone");
+            AjaxUI.getInstance().updateTrees();
+        }).fail(function (xhr : JQuery.jqXHR) {
+            _this.showUndoState("error", PartDbApiClient.getErrorMessage(xhr));
+        });
+    }
+
+    /**
+     * Shows the notification, which allows to undo the last move.
+     * @param undo The function, which undoes the move.
+     */
+    private showUndo(undo : () => void)
+    {
+        this.undo = undo;
+        this.showUndoState("moved");
+    }
+
+    private showUndoState(state : string, message : string = "")
+    {
+        let _this = this;
+        let notification = $("#tree-move-undo");
+        notification.find(".tree-move-undo-state").each(function () {
+            let span = $(this);
+            span.prop("hidden", span.data("state") !== state);
+        });
+        notification.find(".tree-move-undo-state[data-state=error]").text(message);
+        notification.toggleClass("alert-success", state !== "error").toggleClass("alert-danger", state === "error")
+            .prop("hidden", false);
+
+        if(this.undo_timeout !== null) {
+            window.clearTimeout(this.undo_timeout);
+        }
+        this.undo_timeout = window.setTimeout(function () {
+            _this.hideUndo();
+        }, TreeDragDrop.UNDO_TIMEOUT);
+    }
+
+    private hideUndo()
+    {
+        if(this.undo_timeout !== null) {
+            window.clearTimeout(this.undo_timeout);
+            this.undo_timeout = null;
+        }
+        this.undo = null;
+        $("#tree-move-undo").prop("hidden", true);
+    }
+}
@@ -0,0 +1,85 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      UserSettings Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * The settings of the user interface (e.g. the keymap), which are saved for the current user on the server.
+ * The settings are loaded once via the API, when load() is called the first time.
+ */
+class UserSettings {
+
+    private static singleton : UserSettings;
+
+    private settings : ApiUserSettings = {};
+    private request : JQuery.Deferred<ApiUserSettings> = null;
+
+    /**
+     * Gets a instance of UserSettings. If no instance exits, then a new one is created.
+     * @returns {UserSettings} A instance of UserSettings.
+     */
+    public static getInstance() : UserSettings
+    {
+        if(UserSettings.singleton == null || UserSettings.singleton == undefined)
+        {
+            UserSettings.singleton = new UserSettings();
+        }
+        return UserSettings.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Loads the settings from the server. The request is only done once, so this can be called by every module,
+     * which needs the settings.
+     * @returns The promise is resolved, when the settings are available. If the request fails, the defaults
+     * are used, so it is always resolved.
+     */
+    public load() : JQuery.Promise<ApiUserSettings>
+    {
+        if(this.request === null) {
+            let _this = this;
+            let deferred : JQuery.Deferred<ApiUserSettings> = $.Deferred();
+            this.request = deferred;
+
+            PartDbApiClient.getInstance().getUserSettings()
+                .done(function (settings : ApiUserSettings) {
+                    _this.settings = settings;
+                })
+                .always(function () {
+                    deferred.resolve(_this.settings);
+                });
+        }
+        return this.request.promise();
+    }
+
+    /**
+     * Returns the value of a setting. Call load() before, otherwise the default is returned.
+     * @param {string} key The key of the setting.
+     * @param default_value The value, which is returned if the user has not saved the setting.
+     */
+    public get(key : string, default_value : any = null) : any
+    {
+        if(this.settings.hasOwnProperty(key) && this.settings[key] !== null) {
+            return this.settings[key];
+        }
+        return default_value;
+    }
+
+    /**
+     * Saves a setting for the current user.
+     * @param {string} key The key of the setting.
+     * @param value The new value (must be serializable as JSON). Use null to remove the setting.
+     * @returns The request. It fails for the anonymous user, because he can not save settings.
+     */
+    public set(key : string, value : any) : JQuery.jqXHR<ApiUserSettings>
+    {
+        let _this = this;
+        return PartDbApiClient.getInstance().setUserSetting(key, value).done(function (settings : ApiUserSettings) {
+            _this.settings = settings;
+        });
+    }
+}
@@ -0,0 +1,240 @@
+/****************************************************************************************
+ * **************************************************************************************
+ *                                      ValueParser Class
+ * **************************************************************************************
+ ****************************************************************************************/
+
+/**
+ * A value in engineering notation, which was parsed by ValueParser.
+ */
+interface ParsedValue {
+    /** The value in the base unit (e.g. 4700 for "4k7") */
+    value : number;
+    /** The unit (the spellings of Ohm are normalized to "Ω"), or "" if no unit was given. */
+    unit : string;
+    /** The tolerance in percent, or null if no tolerance was given. */
+    tolerance : number;
+    /** The number like it was written, with a decimal point (e.g. "4.7" for "4k7" or "4,7k") */
+    mantissa : string;
+    /** The SI prefix like it was written, but with "k" for "K" and "µ" for "u" (e.g. "k" for "4k7") */
+    prefix : string;
+    /** True if the value was written with a prefix, a unit or as RKM code (so it is not only a plain number). */
+    has_notation : boolean;
+}
+
+/**
+ * Parses and formats values in engineering notation, like they are written in the names of parts.
+ * Understood are SI prefixes ("100nF", "2.2 µH"), RKM codes ("4k7", "1M5", "4R7"), units and tolerances ("10kΩ ±5%").
+ * The server uses the same notation for the value search (see lib/PartProperty/EngineeringValue.php).
+ * Text inputs with the attribute data-normalize-values are normalized, when they are changed.
+ */
+class ValueParser {
+
+    private static singleton : ValueParser;
+
+    /**
+     * The regular expression for one value, like EngineeringValue::PATTERN. The groups are: 1 number, 2 prefix,
+     * 3-5 RKM code (integer part, prefix, fractional part), 6 unit and 7 tolerance.
+     */
+    public static readonly PATTERN : string = "(?:(\\d+(?:[.,]\\d+)?|[.,]\\d+)\\s*([pnuµμmkKMGT]?)|(\\d*)([pnuµμmkKMGTRr])(\\d*))"
+        + "\\s*(Ω|[Oo]hms?|Hz|F|H|V|A|W)?(?:\\s*(?:±|\\+\\/?-)?\\s*(\\d+(?:[.,]\\d+)?)\\s*%)?";
+
+    /** The SI prefixes, which are understood by parse(), with their exponent. */
+    public static readonly PREFIXES : {[prefix : string] : number} = {
+        "p": -12, "n": -9, "u": -6, "µ": -6, "μ": -6, "m": -3, "": 0, "R": 0, "r": 0, "k": 3, "K": 3, "M": 6, "G": 9,
+        "T": 12
+    };
+
+    /** The prefixes used by format(), by their exponent. */
+    private static readonly FORMAT_PREFIXES : {[exponent : number] : string} = {
+        "-12": "p", "-9": "n", "-6": "µ", "-3": "m", "0": "", "3": "k", "6": "M", "9": "G", "12": "T"
+    };
+
+    /**
+     * Gets a instance of ValueParser. If no instance exits, then a new one is created.
+     * @returns {ValueParser} A instance of ValueParser.
+     */
+    public static getInstance() : ValueParser
+    {
+        if(ValueParser.singleton == null || ValueParser.singleton == undefined)
+        {
+            ValueParser.singleton = new ValueParser();
+        }
+        return ValueParser.singleton;
+    }
+
+    /****************************************************************************
+     * Public functions
+     ***************************************************************************/
+
+    /**
+     * Registers the handler, which normalizes the values in the inputs with the attribute data-normalize-values.
+     * The event is delegated, so it works for the forms loaded via ajax. Called by AjaxUI.start()
+     */
+    public start()
+    {
+        $(document).on("change", "input[data-normalize-values]", function (this : HTMLElement) {
+            ValueParser.normalizeInputs($(this));
+        });
+    }
+
+    /**
+     * Normalizes the values in the inputs with the attribute data-normalize-values (see normalize()).
+     * Called by AjaxUI before a form is submitted, because the change event is not fired, when the form is submitted
+     * with enter.
+     * @param {JQuery} container The inputs or the elements containing the inputs (e.g. the form).
+     */
+    public static normalizeInputs(container : JQuery)
+    {
+        container.find("input[data-normalize-values]").addBack("input[data-normalize-values]").each(function () {
+            let input = $(this);
+            let normalized : string = ValueParser.normalize(<string> input.val());
+            if(normalized !== input.val()) {
+                input.val(normalized);
+            }
+        });
+    }
+
+    /**
+     * Parses a text, which contains exactly one value (e.g. "4k7", "100nF" or "2.2 µH").
+     * @param {string} text The text which should be parsed.
+     * @returns {ParsedValue} The value, or null if the text is not a value.
+     */
+    public static parse(text : string) : ParsedValue
+    {
+        let matches = new RegExp("^\\s*" + ValueParser.PATTERN + "\\s*$").exec(String(text));
+        return matches !== null ? ValueParser.fromMatch(matches) : null;
+    }
+
+    /**
+     * Parses a text like parse() and returns only the number.
+     * @param {string} text The text which should be parsed.
+     * @returns {number} The value in the base unit, or NaN if the text is not a value.
+     */
+    public static parseNumber(text : string) : number
+    {
+        let parsed : ParsedValue = ValueParser.parse(text);
+        return parsed !== null ? parsed.value : NaN;
+    }
+
+    /**
+     * Formats a value with a SI prefix, e.g. 4700 is formatted as "4.7 kΩ".
+     * @param {number} value The value in the base unit.
+     * @param {string} unit The unit, which is added after the prefix.
+     * @param {number} digits The number of significant digits.
+     * @returns {string} The formatted value, or "?" if the value is not finite.
+     */
+    public static format(value : number, unit : string = "", digits : number = 3) : string
+    {
+        if(!isFinite(value)) {
+            return "?";
+        }
+        let split = ValueParser.split(value, digits);
+        return String(split.mantissa) + " " + split.prefix + unit;
+    }
+
+    /**
+     * Formats a value in the short notation used in the names of parts, e.g. "4.7kΩ" or "100nF ±10%".
+     * @param {number} value The value in the base unit.
+     * @param {string} unit The unit, which is added after the prefix.
+     * @param {number} tolerance The tolerance in percent, or null if no tolerance should be added.
+     * @returns {string} The formatted value.
+     */
+    public static toShortNotation(value : number, unit : string = "", tolerance : number = null) : string
+    {
+        //Keep all digits the user has typed, but remove the rounding errors of the floating point numbers
+        let split = ValueParser.split(value, 12);
+        let text : string = String(split.mantissa) + split.prefix + unit;
+        if(tolerance !== null) {
+            text += " ±" + tolerance + "%";
+        }
+        return text;
+    }
+
+    /**
+     * Normalizes the notation of all values in the given text, e.g. "Widerstand 4,7 kOhm 5%" is changed to
+     * "Widerstand 4.7kΩ ±5%" and "4k7" to "4.7k". The prefixes are kept, so "0,1A" is changed to "0.1A" and not to
+     * "100mA". Plain numbers without prefix or unit (like "0805") are not changed.
+     * @param {string} text The text which should be normalized.
+     * @returns {string} The normalized text.
+     */
+    public static normalize(text : string) : string
+    {
+        //Lookbehinds are not supported by all browsers, so the character before the value is matched too
+        let regex = new RegExp("(^|[^0-9A-Za-z.,])" + ValueParser.PATTERN + "(?![0-9A-Za-z])", "g");
+        return String(text).replace(regex, function (match : string, before : string) {
+            let parsed : ParsedValue = ValueParser.fromMatch([match.substr(before.length)]
+                .concat(Array.prototype.slice.call(arguments, 2, 9)));
+            if(parsed === null || !parsed.has_notation) {
+                return match;
+            }
+            //Keep the whitespace after the value, which is matched by the optional unit and tolerance
+            let whitespace : string = /\s*$/.exec(match)[0];
+            let normalized : string = parsed.mantissa + parsed.prefix + parsed.unit;
+            if(parsed.tolerance !== null) {
+                normalized += " ±" + parsed.tolerance + "%";
+            }
+            return before + normalized + whitespace;
+        });
+    }
+
+    /****************************************************************************
+     * Private functions
+     ***************************************************************************/
+
+    /**
+     * Creates the parsed value from the groups of a match of PATTERN.
+     * @param {string[]} matches The match (or an array with the same groups, like it is built by normalize()).
+     * @returns {ParsedValue} The value or null if the match contains no number (e.g. a single "R").
+     */
+    private static fromMatch(matches : string[]) : ParsedValue
+    {
+        let number : string;
+        let prefix : string;
+        let unit : string = matches[6] || "";
+        if(matches[1]) {
+            number = matches[1].replace(",", ".");
+            prefix = matches[2] || "";
+        } else {
+            //Only the R can be used without integer part (e.g. "R47"), otherwise names like "M3" would be values
+            if((!matches[3] && !matches[5]) || (!matches[3] && matches[4] !== "R" && matches[4] !== "r")) {
+                return null;
+            }
+            number = (matches[3] || "0") + (matches[5] ? "." + matches[5] : "");
+            prefix = matches[4];
+        }
+
+        //The R of the RKM code means Ohm
+        if(/^ohms?$/i.test(unit) || ((prefix === "R" || prefix === "r") && unit === "")) {
+            unit = "Ω";
+        }
+
+        return {
+            value: Number(number) * Math.pow(10, ValueParser.PREFIXES[prefix]),
+            unit: unit,
+            tolerance: matches[7] ? Number(matches[7].replace(",", ".")) : null,
+            mantissa: number.charAt(0) === "." ? "0" + number : number,
+            prefix: ValueParser.FORMAT_PREFIXES[ValueParser.PREFIXES[prefix]],
+            has_notation: prefix !== "" || unit !== "" || !matches[1]
+        };
+    }
+
+    /**
+     * Splits a value in a mantissa between 1 and 1000 (rounded to the given significant digits) and the SI prefix.
+     */
+    private static split(value : number, digits : number) : {mantissa : number, prefix : string}
+    {
+        if(value === 0) {
+            return {mantissa: 0, prefix: ""};
+        }
+        let exponent : number = Math.floor(Math.log(Math.abs(value)) / Math.LN10 / 3) * 3;
+        exponent = Math.max(-12, Math.min(12, exponent));
+        let mantissa : number = Number((value / Math.pow(10, exponent)).toPrecision(digits));
+        //Rounding (or the logarithm) can lead to a mantissa of 1000
+        if(Math.abs(mantissa) >= 1000 && exponent < 12) {
+            exponent += 3;
+            mantissa = Number((value / Math.pow(10, exponent)).toPrecision(digits));
+        }
+        return {mantissa: mantissa, prefix: ValueParser.FORMAT_PREFIXES[exponent]};
+    }
+}
@@ -96,6 +96,15 @@
                             </select>
                         </div>
                     </div>
+
+                    <div class="form-group">
+                        <label class="control-label col-md-3" for="symbols">{t}Eigene Sonderzeichen:{/t}</label>
+                        <div class="col-md-9">
+                            <textarea class="form-control" name="symbols" id="symbols" rows="4"
+                                      placeholder="{t}z.B. t=±{/t}">{$symbols}</textarea>
+                            <p class="help-block">{t}Ein Eintrag pro Zeile im Format Taste=Zeichen. Das Zeichen wird mit Alt+Taste eingefügt, eigene Einträge ersetzen die Standardbelegung. Ohne Taste (z.B. =kΩ) ist das Zeichen nur in der Auswahl verfügbar.{/t}</p>
+                        </div>
+                    </div>
                 </div>
 
                 <div class="form-group">
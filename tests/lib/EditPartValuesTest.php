@@ -0,0 +1,55 @@
+<?php
+
+class EditPartValuesTest extends PHPUnit_Framework_TestCase
+{
+    public function setUp()
+    {
+        include_once "inc/lib.php";
+        parent::setUp();
+    }
+
+    /**
+     * Calls editPartValues() with a mocked user (who is allowed to do everything) and the given part.
+     * @param \PartDB\Part $part
+     * @param array $values
+     * @return array
+     */
+    protected function editValues($part, $values)
+    {
+        $database = null;
+        $log = null;
+        $current_user = $this->getMockBuilder('\PartDB\User')->disableOriginalConstructor()->getMock();
+
+        return editPartValues($database, $current_user, $log, $part, $values);
+    }
+
+    /**
+     * Test that the store location is removed by passing 0 to the setter (NULL would be ignored by the part).
+     */
+    public function test_clearStorelocation()
+    {
+        $part = $this->getMockBuilder('\PartDB\Part')->disableOriginalConstructor()->getMock();
+        $part->expects($this->once())->method('setStorelocationID')->with($this->identicalTo(0));
+
+        $results = $this->editValues($part, array("storelocation" => "0"));
+        $this->assertTrue($results["storelocation"]["success"]);
+    }
+
+    public function test_setStorelocation()
+    {
+        $part = $this->getMockBuilder('\PartDB\Part')->disableOriginalConstructor()->getMock();
+        $part->expects($this->once())->method('setStorelocationID')->with($this->identicalTo(3));
+
+        $results = $this->editValues($part, array("storelocation" => "3"));
+        $this->assertTrue($results["storelocation"]["success"]);
+    }
+
+    public function test_invalidStorelocation()
+    {
+        $part = $this->getMockBuilder('\PartDB\Part')->disableOriginalConstructor()->getMock();
+        $part->expects($this->never())->method('setStorelocationID');
+
+        $results = $this->editValues($part, array("storelocation" => "-1"));
+        $this->assertFalse($results["storelocation"]["success"]);
+    }
+}
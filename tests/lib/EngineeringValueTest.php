@@ -0,0 +1,66 @@
+<?php
+
+use PartDB\PartProperty\EngineeringValue;
+
+class EngineeringValueTest extends PHPUnit_Framework_TestCase
+{
+    /**
+     * Test the different notations of the same value.
+     */
+    public function test_parseNotations()
+    {
+        $this->assertEquals(4700, EngineeringValue::parse("4k7")->getValue());
+        $this->assertEquals(4700, EngineeringValue::parse("4,7k")->getValue());
+        $this->assertEquals(4700, EngineeringValue::parse("4.7 kOhm")->getValue());
+        $this->assertEquals(4.7, EngineeringValue::parse("4R7")->getValue());
+        $this->assertEquals(0.47, EngineeringValue::parse("R47")->getValue());
+        $this->assertEquals(1500000, EngineeringValue::parse("1M5")->getValue());
+        $this->assertEquals(100e-9, EngineeringValue::parse("100nF")->getValue(), '', 1e-20);
+        $this->assertEquals(2.2e-6, EngineeringValue::parse("2.2 µH")->getValue(), '', 1e-20);
+    }
+
+    /**
+     * Test that the units and tolerances are extracted.
+     */
+    public function test_parseUnitAndTolerance()
+    {
+        $value = EngineeringValue::parse("10kOhm ±5%");
+        $this->assertEquals("Ω", $value->getUnit());
+        $this->assertEquals(5, $value->getTolerance());
+
+        $this->assertEquals("Hz", EngineeringValue::parse("16MHz")->getUnit());
+        $this->assertEquals("Ω", EngineeringValue::parse("100R")->getUnit());
+        $this->assertNull(EngineeringValue::parse("10k")->getTolerance());
+    }
+
+    /*
+     * Test that strings, which are no values, are not parsed.
+     */
+    public function test_parseInvalid()
+    {
+        $this->assertNull(EngineeringValue::parse("BC547"));
+        $this->assertNull(EngineeringValue::parse("M3"));
+        $this->assertNull(EngineeringValue::parse("R"));
+        $this->assertNull(EngineeringValue::parse(""));
+    }
+
+    public function test_findAll()
+    {
+        $values = EngineeringValue::findAll("BC547 NPN 45V 0,1A");
+        $this->assertCount(2, $values);
+        $this->assertEquals("45V", $values[0]->getRawString());
+        $this->assertEquals(0.1, $values[1]->getValue());
+    }
+
+    /**
+     * Test that "10k" matches "10000 Ohm" and "10kΩ", but not a value with another unit.
+     */
+    public function test_isEqualTo()
+    {
+        $search = EngineeringValue::parse("10k");
+        $this->assertTrue($search->isEqualTo(EngineeringValue::parse("10000 Ohm")));
+        $this->assertTrue($search->isEqualTo(EngineeringValue::parse("10kΩ")));
+        $this->assertFalse($search->isEqualTo(EngineeringValue::parse("100k")));
+        $this->assertFalse(EngineeringValue::parse("10kΩ")->isEqualTo(EngineeringValue::parse("10kHz")));
+    }
+}
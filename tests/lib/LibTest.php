@@ -10,7 +10,7 @@ class LibTest extends PHPUnit_Framework_TestCase
 {
     public function setUp()
     {
-        include_once "lib/lib.php";
+        include_once "inc/lib.php";
         parent::setUp(); // TODO: Change the autogenerated stub
     }
 
@@ -28,4 +28,24 @@ class LibTest extends PHPUnit_Framework_TestCase
     {
         $this->assertEquals(toUnixPath("\\test\\test.jpg"), "/test/test.jpg");
     }
+
+    public function test_isCsrfSafeRequest()
+    {
+        $this->assertTrue(isCsrfSafeRequest("GET", null));
+        $this->assertTrue(isCsrfSafeRequest("POST", "application/json"));
+        $this->assertTrue(isCsrfSafeRequest("PUT", "application/json; charset=UTF-8"));
+        $this->assertTrue(isCsrfSafeRequest("delete", "Application/JSON"));
+    }
+
+    /**
+     * Test that requests, which can be sent by forms of other sites, are rejected.
+     */
+    public function test_isCsrfSafeRequestForm()
+    {
+        $this->assertFalse(isCsrfSafeRequest("POST", "application/x-www-form-urlencoded"));
+        $this->assertFalse(isCsrfSafeRequest("POST", "multipart/form-data; boundary=something"));
+        $this->assertFalse(isCsrfSafeRequest("POST", "text/plain"));
+        $this->assertFalse(isCsrfSafeRequest("PATCH", null));
+        $this->assertFalse(isCsrfSafeRequest("DELETE", ""));
+    }
 }
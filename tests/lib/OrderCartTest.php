@@ -0,0 +1,78 @@
+<?php
+
+use PartDB\Tools\OrderCart;
+
+class OrderCartTest extends PHPUnit_Framework_TestCase
+{
+    protected $price_breaks = array(
+        array("min_quantity" => 1, "price" => 0.10),
+        array("min_quantity" => 10, "price" => 0.05),
+        array("min_quantity" => 100, "price" => 0.01),
+    );
+
+    public function test_roundQuantityWithoutPrices()
+    {
+        $result = OrderCart::roundQuantity(7, 1, array());
+        $this->assertEquals(7, $result["quantity"]);
+        $this->assertNull($result["single_price"]);
+        $this->assertEmpty($result["reasons"]);
+    }
+
+    /**
+     * Test that the quantity is rounded up to the packaging unit.
+     */
+    public function test_roundQuantityPackagingUnit()
+    {
+        $result = OrderCart::roundQuantity(7, 5, array());
+        $this->assertEquals(10, $result["quantity"]);
+        $this->assertEquals(array(OrderCart::REASON_PACKAGING), $result["reasons"]);
+
+        $this->assertEquals(10, OrderCart::roundQuantity(10, 5, array())["quantity"]);
+    }
+
+    /**
+     * Test that the minimum quantity of the first price break is ordered.
+     */
+    public function test_roundQuantityMinimum()
+    {
+        $result = OrderCart::roundQuantity(3, 1, array(array("min_quantity" => 10, "price" => 0.5)));
+        $this->assertEquals(10, $result["quantity"]);
+        $this->assertEquals(0.5, $result["single_price"]);
+        $this->assertEquals(array(OrderCart::REASON_MINIMUM), $result["reasons"]);
+    }
+
+    /**
+     * Test that a bigger quantity is used, if it is cheaper in total.
+     */
+    public function test_roundQuantityPriceBreak()
+    {
+        // 90 * 0.05 = 4.50 is more expensive than 100 * 0.01 = 1.00
+        $result = OrderCart::roundQuantity(90, 1, $this->price_breaks);
+        $this->assertEquals(100, $result["quantity"]);
+        $this->assertEquals(0.01, $result["single_price"]);
+        $this->assertEquals(array(OrderCart::REASON_PRICE_BREAK), $result["reasons"]);
+
+        // 8 * 0.10 = 0.80 is more expensive than 10 * 0.05 = 0.50
+        $this->assertEquals(10, OrderCart::roundQuantity(8, 1, $this->price_breaks)["quantity"]);
+
+        // 3 * 0.10 = 0.30 is cheaper than 10 * 0.05 = 0.50
+        $result = OrderCart::roundQuantity(3, 1, $this->price_breaks);
+        $this->assertEquals(3, $result["quantity"]);
+        $this->assertEquals(0.10, $result["single_price"]);
+    }
+
+    /**
+     * Test that the price breaks are rounded to the packaging unit, too.
+     */
+    public function test_roundQuantityPriceBreakAndPackagingUnit()
+    {
+        $result = OrderCart::roundQuantity(12, 8, $this->price_breaks);
+        $this->assertEquals(16, $result["quantity"]);
+        $this->assertEquals(array(OrderCart::REASON_PACKAGING), $result["reasons"]);
+
+        // the price break of 100 parts is only available as 104 parts (13 packages)
+        $result = OrderCart::roundQuantity(60, 8, $this->price_breaks);
+        $this->assertEquals(104, $result["quantity"]);
+        $this->assertEquals(array(OrderCart::REASON_PACKAGING, OrderCart::REASON_PRICE_BREAK), $result["reasons"]);
+    }
+}
@@ -0,0 +1,115 @@
+class EngineeringMathTest extends TestCase {
+
+    /**
+     * Test the 3 and 4 digit codes and the R notation of SMD resistors.
+     */
+    public test_decodeSMDResistor()
+    {
+        this.assertEquals(10000, EngineeringMath.decodeSMDResistor("103"));
+        this.assertEquals(47000, EngineeringMath.decodeSMDResistor("4702"));
+        this.assertEquals(10, EngineeringMath.decodeSMDResistor("100"));
+        this.assertEquals(4.7, EngineeringMath.decodeSMDResistor("4R7"));
+        this.assertEquals(0.1, EngineeringMath.decodeSMDResistor("R10"));
+        this.assertEquals(4.7, EngineeringMath.decodeSMDResistor(" 4r7 "));
+        this.assertNaN(EngineeringMath.decodeSMDResistor("R"));
+        this.assertNaN(EngineeringMath.decodeSMDResistor("10"));
+        this.assertNaN(EngineeringMath.decodeSMDResistor("BC547"));
+    }
+
+    public test_decodeSMDResistorEIA96()
+    {
+        this.assertEquals(10000, EngineeringMath.decodeSMDResistor("01C"));
+        this.assertEquals(49.9, EngineeringMath.decodeSMDResistor("68X"), "", 1e-12);
+        this.assertEquals(976, EngineeringMath.decodeSMDResistor("96A"));
+        this.assertEquals(0.102, EngineeringMath.decodeSMDResistor("02Z"), "", 1e-12);
+        this.assertNaN(EngineeringMath.decodeSMDResistor("00A"), "index too small");
+        this.assertNaN(EngineeringMath.decodeSMDResistor("97A"), "index too large");
+        this.assertNaN(EngineeringMath.decodeSMDResistor("01G"), "unknown multiplier");
+    }
+
+    public test_decodeCapacitorCode()
+    {
+        this.assertEquals(100e-9, EngineeringMath.decodeCapacitorCode("104"), "", 1e-20);
+        this.assertEquals(4.7e-9, EngineeringMath.decodeCapacitorCode("472J"), "", 1e-20);
+        this.assertEquals(47e-12, EngineeringMath.decodeCapacitorCode("47"), "", 1e-20);
+        this.assertEquals(4.7e-12, EngineeringMath.decodeCapacitorCode("4p7"), "", 1e-20);
+        this.assertEquals(2.2e-9, EngineeringMath.decodeCapacitorCode("2n2"), "", 1e-20);
+        this.assertEquals(4.7e-12, EngineeringMath.decodeCapacitorCode("4R7"), "", 1e-20);
+        //The multipliers 8 and 9 are used for values below 10pF
+        this.assertEquals(1e-12, EngineeringMath.decodeCapacitorCode("109"), "", 1e-20);
+        this.assertNaN(EngineeringMath.decodeCapacitorCode("107"));
+        this.assertNaN(EngineeringMath.decodeCapacitorCode("104X"));
+        this.assertNaN(EngineeringMath.decodeCapacitorCode(""));
+    }
+
+    /**
+     * Test that the values are rounded to the E-series in the neighbouring decades, too, and that the results
+     * have no floating point errors.
+     */
+    public test_findNearest()
+    {
+        this.assertEquals(4700, EngineeringMath.findNearest(4800, 12));
+        this.assertEquals(5100, EngineeringMath.findNearest(5000, 24));
+        this.assertEquals(10, EngineeringMath.findNearest(9.9, 12));
+        this.assertEquals(0.82, EngineeringMath.findNearest(0.85, 12));
+        this.assertEquals(0.47, EngineeringMath.findNearest(0.47, 6));
+        this.assertEquals(4.87e6, EngineeringMath.findNearest(4.9e6, 96));
+        this.assertNaN(EngineeringMath.findNearest(0, 12));
+        this.assertNaN(EngineeringMath.findNearest(-100, 12));
+        this.assertNaN(EngineeringMath.findNearest(100, <ESeries> 5));
+    }
+
+    public test_findNextHigher()
+    {
+        this.assertEquals(4700, EngineeringMath.findNextHigher(4700, 12));
+        this.assertEquals(5600, EngineeringMath.findNextHigher(4701, 12));
+        this.assertEquals(10, EngineeringMath.findNextHigher(9.5, 6));
+        this.assertEquals(150, EngineeringMath.findNextHigher((5 - 2) / 0.02, 6));
+        this.assertNaN(EngineeringMath.findNextHigher(NaN, 12));
+    }
+
+    public test_findRatio()
+    {
+        let half = EngineeringMath.findRatio(0.5, 12, true);
+        this.assertEquals(1000, half.r1);
+        this.assertEquals(1000, half.r2);
+        this.assertEquals(0, half.error);
+
+        let double = EngineeringMath.findRatio(2, 12, false);
+        this.assertEquals(6800, double.r1);
+        this.assertEquals(3300, double.r2);
+        this.assertEquals(0.2 / 6.6, double.error, "", 1e-12);
+
+        //The smaller resistor is between 1k and 10k
+        let small = EngineeringMath.findRatio(0.01, 24, false);
+        this.assertEquals(1000, small.r1);
+        this.assertEquals(100000, small.r2);
+
+        this.assertNull(EngineeringMath.findRatio(1, 12, true), "a divider can not have the ratio 1");
+        this.assertNull(EngineeringMath.findRatio(0, 12, false));
+        this.assertNull(EngineeringMath.findRatio(Infinity, 12, false));
+    }
+
+    public test_ledResistor()
+    {
+        this.assertEquals(150, EngineeringMath.ledResistor(5, 2, 0.02), "", 1e-9);
+        this.assertEquals(50, EngineeringMath.ledResistor(12, 3, 0.06, 3), "", 1e-9);
+        this.assertNaN(EngineeringMath.ledResistor(3, 2, 0.02, 2), "supply voltage too low");
+    }
+
+    public test_dividerOutput()
+    {
+        this.assertEquals(5, EngineeringMath.dividerOutput(10, 1000, 1000));
+        this.assertEquals(10 / 3, EngineeringMath.dividerOutput(10, 1000, 1000, 1000), "", 1e-12);
+        this.assertEquals(500, EngineeringMath.divisorResistance(1000, 1000));
+        this.assertEquals(1000, EngineeringMath.divisorResistance(1000, NaN));
+    }
+
+    public test_frequencies()
+    {
+        this.assertEquals(159.15494, EngineeringMath.rcCutoff(1000, 1e-6), "", 1e-5);
+        this.assertEquals(5032.92121, EngineeringMath.lcResonance(1e-3, 1e-6), "", 1e-5);
+    }
+}
+
+TestCase.run(new EngineeringMathTest());
@@ -0,0 +1,113 @@
+/**
+ * Makes the mapping functions of OctopartProvider callable by the test.
+ */
+class TestableOctopartProvider extends OctopartProvider {
+
+    public mapSearchResults(response : any) : PartInfoSearchResult[]
+    {
+        return super.mapSearchResults(response);
+    }
+
+    public mapPartInfo(part : any) : PartInfo
+    {
+        return super.mapPartInfo(part);
+    }
+
+    public mapPrices(prices : any) : PartInfoPrice[]
+    {
+        return super.mapPrices(prices);
+    }
+}
+
+class PartInfoProvidersTest extends TestCase {
+
+    private provider : TestableOctopartProvider = new TestableOctopartProvider({
+        url: "https://octopart.com/api/v3/",
+        apikey: "test",
+        currency: "EUR"
+    });
+
+    public test_mapSearchResults()
+    {
+        let results = this.provider.mapSearchResults({
+            results: [
+                {
+                    snippet: "Snippet",
+                    item: {uid: "abc", mpn: "BC547B", short_description: "NPN transistor",
+                        manufacturer: {name: "Fairchild"}}
+                },
+                //The snippet is used, if there is no description
+                {snippet: "Snippet", item: {uid: "def"}}
+            ]
+        });
+
+        this.assertEquals(2, results.length);
+        this.assertEquals("octopart", results[0].provider);
+        this.assertEquals("abc", results[0].id);
+        this.assertEquals("BC547B", results[0].name);
+        this.assertEquals("NPN transistor", results[0].description);
+        this.assertEquals("Fairchild", results[0].manufacturer);
+        this.assertEquals("", results[1].name);
+        this.assertEquals("Snippet", results[1].description);
+        this.assertEquals("", results[1].manufacturer);
+
+        this.assertEquals(0, this.provider.mapSearchResults({}).length, "no results");
+    }
+
+    public test_mapPartInfo()
+    {
+        let info = this.provider.mapPartInfo({
+            mpn: "BC547B",
+            short_description: "NPN transistor",
+            manufacturer: {name: "Fairchild"},
+            specs: {case_package: {display_value: "TO-92"}},
+            datasheets: [{url: "https://example.com/1.pdf"}, {url: "https://example.com/2.pdf"}],
+            offers: [{seller: {name: "Digi-Key"}, sku: "BC547BFS-ND", prices: {EUR: [[1, "0.20"]]}}]
+        });
+
+        this.assertEquals("BC547B", info.name);
+        this.assertEquals("NPN transistor", info.description);
+        this.assertEquals("Fairchild", info.manufacturer);
+        this.assertEquals("TO-92", info.footprint);
+        this.assertEquals("https://example.com/1.pdf", info.datasheet_url);
+        this.assertEquals(1, info.offers.length);
+        this.assertEquals("Digi-Key", info.offers[0].supplier);
+        this.assertEquals("BC547BFS-ND", info.offers[0].supplierpartnr);
+        this.assertEquals(1, info.offers[0].prices.length);
+    }
+
+    /**
+     * Test that the fields, which are not known by Octopart, are empty.
+     */
+    public test_mapPartInfoEmpty()
+    {
+        let info = this.provider.mapPartInfo({offers: [{}]});
+
+        this.assertEquals("", info.name);
+        this.assertEquals("", info.manufacturer);
+        this.assertEquals("", info.footprint);
+        this.assertEquals("", info.datasheet_url);
+        this.assertEquals("", info.offers[0].supplier);
+        this.assertEquals("", info.offers[0].supplierpartnr);
+        this.assertEquals(0, info.offers[0].prices.length);
+    }
+
+    /**
+     * Test that only the prices in the configured currency are used.
+     */
+    public test_mapPrices()
+    {
+        let prices = this.provider.mapPrices({USD: [[1, "0.25"]], EUR: [[1, "0.20"], [100, "0.05"]]});
+
+        this.assertEquals(2, prices.length);
+        this.assertEquals(1, prices[0].quantity);
+        this.assertEquals(0.2, prices[0].price);
+        this.assertEquals("EUR", prices[0].currency);
+        this.assertEquals(100, prices[1].quantity);
+        this.assertEquals(0.05, prices[1].price);
+
+        this.assertEquals(0, this.provider.mapPrices({USD: [[1, "0.25"]]}).length, "other currency");
+    }
+}
+
+TestCase.run(new PartInfoProvidersTest());
@@ -0,0 +1,80 @@
+/**
+ * A minimal counterpart of PHPUnit_Framework_TestCase for the TypeScript sources, which runs without a browser.
+ * All methods of a test case, whose names start with "test_", are run by TestCase.run().
+ */
+abstract class TestCase {
+
+    private static tests : number = 0;
+    private static failures : string[] = [];
+
+    private current : string = "";
+
+    /**
+     * Runs all tests of the given test case.
+     * @param {TestCase} test_case The test case.
+     */
+    public static run(test_case : TestCase)
+    {
+        for(let name in test_case) {
+            if(name.indexOf("test_") !== 0 || typeof test_case[name] !== "function") {
+                continue;
+            }
+            TestCase.tests++;
+            test_case.current = (<any> test_case.constructor).name + "::" + name;
+            try {
+                test_case[name]();
+            } catch (e) {
+                test_case.fail(String(e));
+            }
+        }
+    }
+
+    /**
+     * Prints the summary and fails (so npm test exits with an error), if an assertion has failed.
+     */
+    public static finish()
+    {
+        for(let failure of TestCase.failures) {
+            console.log("FAILED " + failure);
+        }
+        console.log(TestCase.tests + " tests, " + TestCase.failures.length + " failures");
+        if(TestCase.failures.length > 0) {
+            throw new Error("Tests failed");
+        }
+    }
+
+    /****************************************************************************
+     * Assertions
+     ***************************************************************************/
+
+    /**
+     * Asserts that the values are equal. Numbers may differ by delta.
+     */
+    protected assertEquals(expected : any, actual : any, message : string = "", delta : number = 0)
+    {
+        let equal : boolean = typeof expected === "number" && typeof actual === "number"
+            ? Math.abs(expected - actual) <= delta : expected === actual;
+        if(!equal) {
+            this.fail("Expected " + expected + ", got " + actual + (message !== "" ? " (" + message + ")" : ""));
+        }
+    }
+
+    protected assertNaN(actual : number, message : string = "")
+    {
+        if(!isNaN(actual)) {
+            this.fail("Expected NaN, got " + actual + (message !== "" ? " (" + message + ")" : ""));
+        }
+    }
+
+    protected assertNull(actual : any, message : string = "")
+    {
+        if(actual !== null) {
+            this.fail("Expected null, got " + JSON.stringify(actual) + (message !== "" ? " (" + message + ")" : ""));
+        }
+    }
+
+    private fail(message : string)
+    {
+        TestCase.failures.push(this.current + ": " + message);
+    }
+}
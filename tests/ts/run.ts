@@ -0,0 +1,2 @@
+//Must be the last file in tsconfig.json, after all test cases were run.
+TestCase.finish();
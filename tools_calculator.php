@@ -52,14 +52,6 @@ try {
     $fatal_error = true;
 }
 
-/********************************************************************************
- *
- *   Set all HTML variables
- *
- *********************************************************************************/
-
-$html->useJavascript(array('calculator'), 'reset4ring(); reset6ring(); ratio_reset(); resistor_reset();');
-
 /********************************************************************************
  *
  *   Generate HTML Output
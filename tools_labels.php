@@ -28,11 +28,22 @@ include_once('start_session.php');
 use PartDB\Database;
 use PartDB\HTML;
 use PartDB\Log;
+use PartDB\Permissions\LabelPermission;
+use PartDB\Permissions\PermissionManager;
 use PartDB\User;
 
 $messages = array();
 $fatal_error = false; // if a fatal error occurs, only the $messages will be printed, but not the site content
 
+/********************************************************************************
+ *
+ *   Evaluate $_REQUEST
+ *
+ *********************************************************************************/
+
+// The parts, for which labels should be printed (e.g. the selected parts of a table: "1,2,3")
+$label_ids = isset($_REQUEST['label_ids']) ? array_filter(array_map('intval', explode(",", (string) $_REQUEST['label_ids']))) : array();
+
 /********************************************************************************
  *
  *   Initialize Objects
@@ -59,6 +70,19 @@ try {
  *********************************************************************************/
 
 
+if (! $fatal_error) {
+    try {
+        //The label designer
+        $html->setVariable("can_create_labels", $current_user->canDo(PermissionManager::LABELS, LabelPermission::CREATE_LABELS));
+        $html->setVariable("can_save_profile", $current_user->canDo(PermissionManager::LABELS, LabelPermission::EDIT_PROFILES));
+        $html->setVariable("can_delete_profile", $current_user->canDo(PermissionManager::LABELS, LabelPermission::DELETE_PROFILES));
+        $html->setVariable("label_ids", implode(",", $label_ids), "string");
+    } catch (Exception $e) {
+        $messages[] = array('text' => nl2br($e->getMessage()), 'strong' => true, 'color' => 'red');
+        $fatal_error = true;
+    }
+}
+
 //If a ajax version is requested, say this the template engine.
 if (isset($_REQUEST["ajax"])) {
     $html->setVariable("ajax_request", true);
@@ -67,6 +91,7 @@ if (isset($_REQUEST["ajax"])) {
 $html->printHeader($messages);
 
 if (! $fatal_error) {
+    $html->printTemplate('label_designer');
     $html->printTemplate('labels');
 }
 
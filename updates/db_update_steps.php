@@ -36,7 +36,7 @@ include_once(BASE.'/updates/db_migration_functions.php');
  *          -> this new "case" must have the number "LATEST_DB_VERSION - 1"!
  */
 
-define('LATEST_DB_VERSION', 23);  // <-- increment here
+define('LATEST_DB_VERSION', 27);  // <-- increment here
 
 /*
  * Get update steps
@@ -945,6 +945,42 @@ EOD;
             $updateSteps[] = "UPDATE `groups` SET `perms_labels` = '85' WHERE `groups`.`id` = 3;";
             break;
 
+        case 23:
+            //Settings of the user interface (e.g. keymaps), which are saved as JSON.
+            $updateSteps[] = "ALTER TABLE `users` ADD `config_ui_settings` TEXT NULL DEFAULT NULL AFTER `config_currency`;";
+            break;
+
+        case 24:
+            //Daily snapshots of the part count and the stock value for the statistics dashboard
+            $updateSteps[] = "CREATE TABLE `statistics_snapshots` (".
+                "`id` INT(11) NOT NULL AUTO_INCREMENT,".
+                "`datetime` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,".
+                "`parts_count` INT(11) NOT NULL DEFAULT 0,".
+                "`instock_count` INT(11) NOT NULL DEFAULT 0,".
+                "`value` DECIMAL(13,2) NOT NULL DEFAULT 0,".
+                "PRIMARY KEY (`id`),".
+                "KEY `datetime` (`datetime`)".
+                ") ENGINE=InnoDB;";
+            break;
+        case 25:
+            //The changes of the elements, so the open pages of other users can be updated (see ChangeFeed)
+            $updateSteps[] = "CREATE TABLE `change_events` (".
+                "`id` INT(11) NOT NULL AUTO_INCREMENT,".
+                "`datetime` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,".
+                "`tablename` VARCHAR(32) NOT NULL,".
+                "`element_id` INT(11) NOT NULL,".
+                "`change_type` VARCHAR(10) NOT NULL,".
+                "`id_user` INT(11) DEFAULT NULL,".
+                "PRIMARY KEY (`id`),".
+                "KEY `datetime` (`datetime`)".
+                ") ENGINE=InnoDB;";
+            break;
+        case 26:
+            //The order cart rounds the order quantities to the packaging units and remembers the ordered parts
+            $updateSteps[] = "ALTER TABLE `orderdetails` ADD `packaging_unit` INT(11) NOT NULL DEFAULT 1 AFTER `supplierpartnr`;";
+            $updateSteps[] = "ALTER TABLE `parts` ADD `datetime_ordered` timestamp NULL DEFAULT NULL AFTER `manual_order`;";
+            break;
+
 
             /*
 
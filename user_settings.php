@@ -50,6 +50,7 @@ $new_department     = isset($_REQUEST['department'])        ? $_REQUEST['departm
 $new_theme          = isset($_REQUEST['custom_css'])        ? $_REQUEST['custom_css']               : "";
 $new_timezone       = isset($_REQUEST['timezone'])          ? $_REQUEST['timezone']                 : "";
 $new_language       = isset($_REQUEST['language'])          ? $_REQUEST['language']                 : "";
+$new_symbols        = isset($_REQUEST['symbols'])           ? $_REQUEST['symbols']                  : "";
 
 $action = 'default';
 if (isset($_REQUEST["change_pw"])) {
@@ -142,6 +143,23 @@ if (!$fatal_error) {
             $current_user->setLanguage($new_language);
             $current_user->setTimezone($new_timezone);
 
+            //Custom symbols for the special character input, one "key=symbol" per line.
+            $symbols = array();
+            foreach (preg_split('/\R/u', $new_symbols) as $line) {
+                $pos = mb_strpos($line, "=");
+                if (trim($line) == "" || $pos === false) {
+                    continue;
+                }
+                $key = trim(mb_substr($line, 0, $pos));
+                $symbol = trim(mb_substr($line, $pos + 1));
+                if (mb_strlen($key) > 1 || $symbol === "") {
+                    $messages[] = array('text' => sprintf(_('Ungültiges Sonderzeichen "%s" wurde ignoriert!'), $line), 'color' => 'red');
+                    continue;
+                }
+                $symbols[] = array("key" => mb_strtolower($key), "symbol" => $symbol);
+            }
+            $current_user->setUISetting("symbols", empty($symbols) ? null : $symbols);
+
             //Apply the settings, with reloading everything.
             $html->setVariable('refresh_navigation_frame', true, 'boolean');
 
@@ -175,6 +193,11 @@ if (! $fatal_error) {
         }
         $html->setLoop('timezone_loop', arrayToTemplateLoop($timezones, $current_user->getTimezone(true)));
         $html->setLoop('language_loop', arrayToTemplateLoop($config['languages'], $current_user->getLanguage(true)));
+        $symbols = array();
+        foreach ($current_user->getUISetting("symbols", array()) as $symbol) {
+            $symbols[] = $symbol['key'] . "=" . $symbol['symbol'];
+        }
+        $html->setVariable('symbols', implode("\n", $symbols), "string");
 
         $html->setVariable('can_username', $current_user->canDo(PermissionManager::SELF, SelfPermission::EDIT_USERNAME));
         $html->setVariable('can_infos', $current_user->canDo(PermissionManager::SELF, SelfPermission::EDIT_INFOS));